@@ -0,0 +1,38 @@
+-- ============================================================================
+-- Migration: 002_store_orders
+-- Description: Let the orders tables hold store orders (OrderService)
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- Store orders are keyed by their own id (kept in order_number) and by the
+-- Telegram-based store user id rather than a platform user.
+ALTER TABLE orders ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS customer_ref VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS payment_reference VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS delivery_data JSONB,
+    ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Store order items reference catalogue products, not marketplace plugins
+ALTER TABLE order_items ALTER COLUMN plugin_id DROP NOT NULL;
+ALTER TABLE order_items ALTER COLUMN plugin_name DROP NOT NULL;
+ALTER TABLE order_items ALTER COLUMN plugin_version DROP NOT NULL;
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS line_number INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS item_ref VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS product_id VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS product_snapshot JSONB,
+    ADD COLUMN IF NOT EXISTS status order_status DEFAULT 'pending',
+    ADD COLUMN IF NOT EXISTS delivery_data JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_orders_customer_ref ON orders(customer_ref, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status_created_at ON orders(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_items_line ON order_items(order_id, line_number);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.002_store_orders', '"completed"', 'Store orders migration status', false),
+('migration.last_applied', '"002_store_orders"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
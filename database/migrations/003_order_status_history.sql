@@ -0,0 +1,39 @@
+-- ============================================================================
+-- Migration: 003_order_status_history
+-- Description: Append-only status history for orders
+-- Created: 2026-10-18
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    from_status order_status,
+    to_status order_status NOT NULL,
+    changed_by VARCHAR(100) NOT NULL,
+    reason TEXT,
+    metadata JSONB,
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (order_id, sequence)
+);
+
+-- History rows are never rewritten (they only go away with their order)
+CREATE OR REPLACE FUNCTION prevent_order_status_history_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'order_status_history is append-only';
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS order_status_history_append_only ON order_status_history;
+CREATE TRIGGER order_status_history_append_only
+    BEFORE UPDATE ON order_status_history
+    FOR EACH ROW EXECUTE FUNCTION prevent_order_status_history_changes();
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.003_order_status_history', '"completed"', 'Order status history migration status', false),
+('migration.last_applied', '"003_order_status_history"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Migration: 004_partial_refunds
+-- Description: Partially refunded orders and per-item refund lines
+-- Created: 2026-10-18
+-- ============================================================================
+
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'partially_refunded' BEFORE 'refunded';
+
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES orders(id);
+
+CREATE TABLE IF NOT EXISTS refund_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    refund_id UUID NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL REFERENCES order_items(id),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_refund_items_order_item_id ON refund_items(order_item_id);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.004_partial_refunds', '"completed"', 'Partial refunds migration status', false),
+('migration.last_applied', '"004_partial_refunds"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Migration: 005_webhook_events
+-- Description: Stored gateway webhooks for retries, dead-lettering and replay
+-- Created: 2026-10-18
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id VARCHAR(64) PRIMARY KEY,
+    payment_method VARCHAR(50) NOT NULL,
+    event_id VARCHAR(255),
+    event_type VARCHAR(100),
+    payload TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    signature_valid BOOLEAN NOT NULL DEFAULT false,
+    status VARCHAR(20) NOT NULL DEFAULT 'received'
+        CHECK (status IN ('received', 'processed', 'failed', 'dead_letter', 'rejected')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    payment_reference VARCHAR(255),
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    replayed_by VARCHAR(100),
+    received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_event ON webhook_events(payment_method, event_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON webhook_events(received_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_retry ON webhook_events(status, next_attempt_at);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.005_webhook_events', '"completed"', 'Webhook event store migration status', false),
+('migration.last_applied', '"005_webhook_events"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Migration: 006_order_exchange_rates
+-- Description: Exchange rates locked when an order is priced
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- JSON array of { from, to, rate, source, asOf, lockedAt }, one per listed currency
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS exchange_rates JSONB;
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.006_order_exchange_rates', '"completed"', 'Order exchange rates migration status', false),
+('migration.last_applied', '"006_order_exchange_rates"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,25 @@
+-- ============================================================================
+-- Migration: 007_tax_and_invoices
+-- Description: Per-line order taxes and sequential invoice numbers
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- tax_amount already exists; tax_lines keeps the rule, rate and amount per line
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS tax_lines JSONB,
+    ADD COLUMN IF NOT EXISTS invoice_number VARCHAR(50) UNIQUE,
+    ADD COLUMN IF NOT EXISTS invoiced_at TIMESTAMP WITH TIME ZONE;
+
+-- One counter per series (INV-2026, INV-2027, ...); see SqlInvoiceNumberSequence
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+    series VARCHAR(50) PRIMARY KEY,
+    last_value INTEGER NOT NULL
+);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.007_tax_and_invoices', '"completed"', 'Tax and invoices migration status', false),
+('migration.last_applied', '"007_tax_and_invoices"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Migration: 008_product_code_pools
+-- Description: Encrypted license-key and voucher code pools per product
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- encrypted_code/iv hold the AES-GCM ciphertext; fingerprint is the SHA-256
+-- of the plain code so re-imports can be detected without decrypting
+CREATE TABLE IF NOT EXISTS product_codes (
+    id VARCHAR(64) PRIMARY KEY,
+    product_id VARCHAR(100) NOT NULL,
+    encrypted_code TEXT NOT NULL,
+    iv VARCHAR(64) NOT NULL,
+    fingerprint VARCHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'available'
+        CHECK (status IN ('available', 'allocated', 'revoked')),
+    batch_id VARCHAR(64),
+    order_id VARCHAR(100),
+    order_item_id VARCHAR(100),
+    replaces_code_id VARCHAR(64) REFERENCES product_codes(id),
+    revoked_reason TEXT,
+    imported_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    allocated_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (product_id, fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_codes_pool ON product_codes(product_id, status, imported_at);
+CREATE INDEX IF NOT EXISTS idx_product_codes_order_item ON product_codes(order_item_id);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.008_product_code_pools', '"completed"', 'Product code pools migration status', false),
+('migration.last_applied', '"008_product_code_pools"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
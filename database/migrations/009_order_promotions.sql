@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Migration: 009_order_promotions
+-- Description: Coupon promotions applied to orders
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- discount_amount already exists; applied_promotions keeps the promotion,
+-- code and amount behind it
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS applied_promotions JSONB;
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.009_order_promotions', '"completed"', 'Order promotions migration status', false),
+('migration.last_applied', '"009_order_promotions"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Migration: 010_subscriptions
+-- Description: Recurring subscriptions with renewal and dunning state
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- pending_order_id is the renewal order awaiting payment; failed renewals
+-- leave the subscription past_due until grace_ends_at
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id VARCHAR(64) PRIMARY KEY,
+    user_id VARCHAR(100) NOT NULL,
+    product_id VARCHAR(100) NOT NULL,
+    plugin_id VARCHAR(100) NOT NULL,
+    account_id VARCHAR(255),
+    origin_order_id VARCHAR(100) NOT NULL,
+    origin_order_item_id VARCHAR(100) NOT NULL UNIQUE,
+    status VARCHAR(20) NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'past_due', 'cancelled', 'expired')),
+    billing_interval VARCHAR(10) NOT NULL
+        CHECK (billing_interval IN ('day', 'week', 'month', 'year')),
+    interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    currency VARCHAR(3) NOT NULL,
+    payment_method VARCHAR(50) NOT NULL,
+    current_period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    current_period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    pending_order_id VARCHAR(100),
+    last_renewal_order_id VARCHAR(100),
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    last_failure_reason TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    grace_ends_at TIMESTAMP WITH TIME ZONE,
+    extension_pending BOOLEAN NOT NULL DEFAULT FALSE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user ON subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_due ON subscriptions(status, current_period_end);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_pending_order ON subscriptions(pending_order_id);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.010_subscriptions', '"completed"', 'Subscriptions migration status', false),
+('migration.last_applied', '"010_subscriptions"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration: 011_user_carts
+-- Description: Server-side carts for signed-in users
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- version is bumped on every write; clients send the version they edited and
+-- stale writes are refused so concurrent devices can merge instead of clobber
+CREATE TABLE IF NOT EXISTS user_carts (
+    user_id VARCHAR(100) PRIMARY KEY,
+    version INTEGER NOT NULL DEFAULT 1 CHECK (version > 0),
+    items JSONB NOT NULL DEFAULT '[]',
+    coupon_codes JSONB NOT NULL DEFAULT '[]',
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.011_user_carts', '"completed"', 'User carts migration status', false),
+('migration.last_applied', '"011_user_carts"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,38 @@
+-- ============================================================================
+-- Migration: 012_cart_reminders
+-- Description: Abandoned cart reminders and the orders that recovered them
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- One reminder per cart version; recovered_* is filled in when the user
+-- completes an order within the attribution window
+CREATE TABLE IF NOT EXISTS cart_reminders (
+    id VARCHAR(64) PRIMARY KEY,
+    user_id VARCHAR(100) NOT NULL,
+    cart_version INTEGER NOT NULL,
+    item_count INTEGER NOT NULL CHECK (item_count > 0),
+    cart_value DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    coupon_code VARCHAR(50),
+    status VARCHAR(20) NOT NULL DEFAULT 'sent'
+        CHECK (status IN ('sent', 'recovered')),
+    sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    recovered_order_id VARCHAR(100),
+    recovered_amount DECIMAL(10,2),
+    recovered_currency VARCHAR(3),
+    recovered_at TIMESTAMP WITH TIME ZONE,
+    coupon_redeemed BOOLEAN,
+    UNIQUE (user_id, cart_version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cart_reminders_user ON cart_reminders(user_id, sent_at);
+CREATE INDEX IF NOT EXISTS idx_cart_reminders_sent_at ON cart_reminders(sent_at);
+CREATE INDEX IF NOT EXISTS idx_user_carts_updated_at ON user_carts(updated_at);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.012_cart_reminders', '"completed"', 'Cart reminders migration status', false),
+('migration.last_applied', '"012_cart_reminders"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Migration: 013_wishlists
+-- Description: Per-user wishlists with back-in-stock and price-drop alerts
+-- Created: 2026-10-18
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS wishlist_items (
+    user_id VARCHAR(100) NOT NULL,
+    product_id VARCHAR(100) NOT NULL,
+    alert_back_in_stock BOOLEAN NOT NULL DEFAULT TRUE,
+    alert_price_drop BOOLEAN NOT NULL DEFAULT TRUE,
+    price_at_add DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_alerted_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (user_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_product ON wishlist_items(product_id);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.013_wishlists', '"completed"', 'Wishlists migration status', false),
+('migration.last_applied', '"013_wishlists"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
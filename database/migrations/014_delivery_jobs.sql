@@ -0,0 +1,38 @@
+-- ============================================================================
+-- Migration: 014_delivery_jobs
+-- Description: Retryable fulfilment queue with dead-lettering, and per-item delivery status
+-- Created: 2026-10-18
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS delivery_jobs (
+    id VARCHAR(64) PRIMARY KEY,
+    order_ref VARCHAR(100) NOT NULL,
+    order_item_ref VARCHAR(100) NOT NULL,
+    product_id VARCHAR(100) NOT NULL,
+    plugin_id VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'in_progress', 'delivered', 'dead_letter')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    redriven_by VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_jobs_order ON delivery_jobs(order_ref);
+CREATE INDEX IF NOT EXISTS idx_delivery_jobs_due ON delivery_jobs(status, next_attempt_at);
+
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS delivery_status VARCHAR(20)
+        CHECK (delivery_status IN ('queued', 'in_progress', 'delivered', 'failed'));
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.014_delivery_jobs', '"completed"', 'Delivery queue migration status', false),
+('migration.last_applied', '"014_delivery_jobs"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Migration: 015_payment_charge_ids
+-- Description: Charge ids gateways assign when a payment completes
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- Telegram Stars: telegram_payment_charge_id, referenced by refunded_payment updates
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS gateway_charge_id VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_gateway_charge
+    ON payments(gateway, gateway_charge_id)
+    WHERE gateway_charge_id IS NOT NULL;
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.015_payment_charge_ids', '"completed"', 'Payment charge ids migration status', false),
+('migration.last_applied', '"015_payment_charge_ids"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
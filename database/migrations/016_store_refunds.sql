@@ -0,0 +1,40 @@
+-- ============================================================================
+-- Migration: 016_store_refunds
+-- Description: Let the refunds tables hold store refunds (RefundLedger)
+-- Created: 2026-10-18
+-- ============================================================================
+
+-- Store refunds are keyed by their own id (kept in refund_ref) and reference
+-- store payments, orders and order items by their ids, like store orders (002).
+ALTER TABLE refunds ALTER COLUMN payment_id DROP NOT NULL;
+ALTER TABLE refunds
+    ADD COLUMN IF NOT EXISTS refund_ref VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS payment_ref VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS order_ref VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS sequence INTEGER,
+    ADD COLUMN IF NOT EXISTS currency VARCHAR(10),
+    ADD COLUMN IF NOT EXISTS amount_minor BIGINT;
+
+-- Three-decimal currencies and TON (nine decimals) do not fit DECIMAL(10,2);
+-- balances are checked on amount_minor, in the currency's minor units
+ALTER TABLE refunds ALTER COLUMN amount TYPE DECIMAL(20,9);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_refund_ref ON refunds(refund_ref);
+-- Concurrent refunds of one payment race for the same sequence and only one wins
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_payment_sequence ON refunds(payment_ref, sequence);
+
+ALTER TABLE refund_items ALTER COLUMN order_item_id DROP NOT NULL;
+ALTER TABLE refund_items ALTER COLUMN amount TYPE DECIMAL(20,9);
+ALTER TABLE refund_items
+    ADD COLUMN IF NOT EXISTS order_item_ref VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS line_number INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_refund_items_order_item_ref ON refund_items(order_item_ref);
+
+-- Migration completed
+INSERT INTO system_config (key, value, description, is_public) VALUES
+('migration.016_store_refunds', '"completed"', 'Store refunds migration status', false),
+('migration.last_applied', '"016_store_refunds"', 'Last applied migration', false)
+ON CONFLICT (key) DO UPDATE SET
+    value = EXCLUDED.value,
+    updated_at = NOW();
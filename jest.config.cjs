@@ -3,7 +3,6 @@
 // ============================================================================
 
 module.exports = {
-  preset: 'ts-jest',
   testEnvironment: 'jsdom',
 
   // Root directory
@@ -26,19 +25,9 @@ module.exports = {
   // Setup files
   setupFilesAfterEnv: ['<rootDir>/src/setupTests.ts'],
 
-  // Support for Vite/ESM imports in Jest
-  extensionsToTreatAsEsm: ['.ts', '.tsx'],
-  globals: {
-    'ts-jest': {
-      useESM: true,
-    },
-  },
-
-  // Transform configuration
+  // Transform configuration (maps Vite's import.meta.env for CommonJS)
   transform: {
-    '^.+\\.(ts|tsx)$': ['ts-jest', {
-      tsconfig: 'tsconfig.json',
-    }],
+    '^.+\\.(ts|tsx)$': '<rootDir>/jest.transform.cjs',
     '^.+\\.(js|jsx)$': 'babel-jest',
   },
 
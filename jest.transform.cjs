@@ -0,0 +1,28 @@
+// ============================================================================
+// Jest Transform for MTYB Shop Tests
+// ============================================================================
+
+// Jest runs the suites as CommonJS, where `import.meta` is a syntax error.
+// Vite's `import.meta.env` is mapped to the mock defined in src/setupTests.ts
+// before ts-jest compiles each file. Type checking is left to `npm run typecheck`.
+
+const { TsJestTransformer } = require('ts-jest');
+
+const IMPORT_META = /\bimport\.meta\b/g;
+
+const mapImportMeta = source => source.replace(IMPORT_META, '(globalThis.import.meta)');
+
+const tsJest = new TsJestTransformer({
+  tsconfig: 'tsconfig.json',
+  diagnostics: false,
+});
+
+module.exports = {
+  process(source, path, options) {
+    return tsJest.process(mapImportMeta(source), path, options);
+  },
+
+  getCacheKey(source, path, options) {
+    return tsJest.getCacheKey(mapImportMeta(source), path, options);
+  },
+};
@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// MTYB Plugin SDK - Development Hot Reload Script
+// ============================================================================
+//
+// Usage:
+//   node scripts/plugin-dev.mjs <plugin-directory> [--entry src/index.ts]
+//
+// Runs `mtyb-cli dev` on the plugin in <plugin-directory>: the plugin is
+// built and loaded, then rebuilt and hot swapped whenever a file under the
+// directory changes. The entry module's default export, or its first export
+// that is a plugin, is loaded; an exported plugin class is instantiated.
+// Stop with Ctrl+C.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const rootDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const DEFAULT_ENTRIES = ['src/index.ts', 'src/index.tsx', 'index.ts', 'src/index.js', 'index.js'];
+
+// Editor swap files, dependencies and build output do not change the plugin
+const IGNORED_SEGMENTS = new Set(['node_modules', 'dist', 'coverage']);
+
+function parseArgs(argv) {
+  const args = { _: [] };
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) {
+      args._.push(arg);
+      continue;
+    }
+
+    const key = arg.slice(2);
+    const next = argv[index + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      index++;
+    }
+  }
+  return args;
+}
+
+function isIgnored(file) {
+  return file
+    .split(path.sep)
+    .some(
+      segment => IGNORED_SEGMENTS.has(segment) || segment.startsWith('.') || segment.endsWith('~')
+    );
+}
+
+/** PluginSourceWatcher on fs.watch; reports paths relative to the directory */
+function createSourceWatcher() {
+  return {
+    watch(directory, onChange) {
+      const watcher = fs.watch(directory, { recursive: true }, (_event, file) => {
+        if (file && !isIgnored(file)) {
+          onChange([file]);
+        }
+      });
+      return () => watcher.close();
+    },
+  };
+}
+
+function resolveEntry(directory, entry) {
+  const candidates = typeof entry === 'string' ? [entry] : DEFAULT_ENTRIES;
+  const found = candidates
+    .map(candidate => path.resolve(directory, candidate))
+    .find(file => fs.existsSync(file));
+  if (!found) {
+    throw new Error(`No plugin entry in ${directory} (looked for ${candidates.join(', ')})`);
+  }
+  return found;
+}
+
+function isPlugin(value) {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (typeof value.config === 'object' || typeof value.processDelivery === 'function')
+  );
+}
+
+function pluginFrom(exports, entryFile) {
+  const candidates = [exports.default, ...Object.values(exports)];
+  const instance = candidates.find(isPlugin);
+  if (instance) {
+    return instance;
+  }
+
+  const PluginClass = candidates.find(candidate => typeof candidate === 'function');
+  const created = PluginClass ? new PluginClass() : null;
+  if (!isPlugin(created)) {
+    throw new Error(`${entryFile} does not export a plugin`);
+  }
+  return created;
+}
+
+/**
+ * PluginBuilder that compiles the plugin with the app's Vite pipeline. The
+ * plugin's own modules are dropped from the module graph before every build,
+ * so each build is a fresh instance, while platform modules it imports stay
+ * shared with the CLI's PluginManager.
+ */
+function createBuilder(server, entry) {
+  return {
+    async build(directory) {
+      const root = path.resolve(directory);
+      const entryFile = resolveEntry(root, entry);
+
+      for (const module of server.moduleGraph.idToModuleMap.values()) {
+        if (module.file?.startsWith(root + path.sep)) {
+          server.moduleGraph.invalidateModule(module);
+        }
+      }
+
+      return pluginFrom(await server.ssrLoadModule(entryFile), entryFile);
+    },
+  };
+}
+
+function report(result) {
+  if (result.success) {
+    console.log(result.message);
+  } else {
+    console.error(result.message);
+    (result.errors ?? []).forEach(error => console.error(`  ${error}`));
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const [directory] = args._;
+  if (!directory) {
+    console.error('Usage: plugin-dev.mjs <plugin-directory> [--entry src/index.ts]');
+    process.exit(1);
+  }
+
+  const server = await createServer({
+    root: rootDir,
+    configFile: false,
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false, watch: null },
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true, entries: [] },
+  });
+
+  const { PluginCLI } = await server.ssrLoadModule('/src/sdk/cli.ts');
+  PluginCLI.setDevEnvironment(createSourceWatcher(), createBuilder(server, args.entry));
+
+  const options = {
+    command: 'dev',
+    args: [path.resolve(directory)],
+    cwd: process.cwd(),
+    onOutput: report,
+  };
+  const result = await PluginCLI.executeCommand({ ...options, flags: {} });
+  report(result);
+  if (!result.success) {
+    await server.close();
+    process.exit(1);
+  }
+
+  process.once('SIGINT', async () => {
+    await PluginCLI.executeCommand({ ...options, flags: { stop: true } });
+    await server.close();
+    process.exit(0);
+  });
+}
+
+main().catch(error => {
+  console.error('Plugin dev mode failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// MTYB Shop - Settlement Reconciliation Script
+// ============================================================================
+//
+// Usage:
+//   node scripts/reconcile-settlement.mjs --settlement settlement.csv \
+//     --payments payments.json [--method curlec] [--from 2026-10-01] \
+//     [--to 2026-10-31] [--minor-units] [--out report.csv]
+//
+// `--payments` is a JSON array of Payment records (an export of the payments
+// table). The report is written as CSV to `--out`, or stdout by default.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const rootDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+function parseArgs(argv) {
+  const args = {};
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) continue;
+
+    const key = arg.slice(2);
+    const next = argv[index + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      index++;
+    }
+  }
+  return args;
+}
+
+function loadPayments(file) {
+  const records = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return records.map(record => ({
+    ...record,
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(record.updatedAt ?? record.createdAt),
+    ...(record.completedAt && { completedAt: new Date(record.completedAt) }),
+  }));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.settlement || !args.payments) {
+    console.error('Usage: reconcile-settlement.mjs --settlement <file> --payments <file.json>');
+    process.exit(1);
+  }
+
+  const server = await createServer({
+    root: rootDir,
+    configFile: false,
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true, entries: [] },
+  });
+
+  try {
+    const { ReconciliationService, createPaymentLookup } = await server.ssrLoadModule(
+      '/src/services/payment/ReconciliationService.ts'
+    );
+    const service = new ReconciliationService(createPaymentLookup(loadPayments(args.payments)));
+
+    const report = await service.reconcileFile(fs.readFileSync(args.settlement, 'utf8'), {
+      ...(typeof args.method === 'string' && { method: args.method }),
+      ...(typeof args.from === 'string' && { from: new Date(args.from) }),
+      ...(typeof args.to === 'string' && { to: new Date(args.to) }),
+      ...(args['minor-units'] && { amountUnit: 'minor' }),
+    });
+
+    const csv = service.toCsv(report);
+    if (typeof args.out === 'string') {
+      fs.writeFileSync(args.out, `${csv}\n`);
+    } else {
+      process.stdout.write(`${csv}\n`);
+    }
+
+    const { summary } = report;
+    console.error(
+      `Matched ${summary.matched}, missing locally ${summary.missingLocally}, ` +
+        `missing at gateway ${summary.missingAtGateway}, amount mismatches ${summary.amountMismatch}`
+    );
+
+    process.exitCode =
+      summary.missingLocally + summary.missingAtGateway + summary.amountMismatch > 0 ? 2 : 0;
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Reconciliation failed:', error);
+  process.exit(1);
+});
@@ -1,6 +1,9 @@
 // Frontend Payment API Service
 // Replaces Express payment routes with browser-compatible API calls
 
+import { IdempotencyConflictError, IdempotencyGuard } from '../core/utils/Idempotency';
+import type { IdempotentRequestOptions } from '../core/utils/Idempotency';
+
 export interface PaymentIntentRequest {
   amount: number;
   currency: string;
@@ -84,53 +87,91 @@ export interface PaymentAnalyticsResponse {
 
 class PaymentAPI {
   private baseURL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+  private idempotency = new IdempotencyGuard();
 
-  private getAuthHeaders(): Record<string, string> {
+  private getAuthHeaders(idempotencyKey?: string): Record<string, string> {
     const token = localStorage.getItem('auth_token');
     return {
       'Content-Type': 'application/json',
       Authorization: token ? `Bearer ${token}` : '',
+      ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
     };
   }
 
   /**
-   * Create payment intent
+   * Sends the key to the server and also replays repeats locally, so a double
+   * tap does not issue a second request at all.
    */
-  async createPaymentIntent(request: PaymentIntentRequest): Promise<PaymentIntentResponse> {
+  private async withIdempotency<T extends { success: boolean; error?: string }>(
+    scope: string,
+    payload: unknown,
+    options: IdempotentRequestOptions,
+    send: () => Promise<T>
+  ): Promise<T> {
+    if (!options.idempotencyKey) {
+      return send();
+    }
+
     try {
-      const response = await fetch(`${this.baseURL}/payment/intent`, {
-        method: 'POST',
-        headers: this.getAuthHeaders(),
-        body: JSON.stringify(request),
+      return await this.idempotency.execute(scope, options.idempotencyKey, payload, send, {
+        persistWhen: response => response.success,
       });
-
-      return await response.json();
     } catch (error) {
-      return {
-        success: false,
-        error: 'NETWORK_ERROR',
-      };
+      if (error instanceof IdempotencyConflictError) {
+        return { success: false, error: error.code } as T;
+      }
+      throw error;
     }
   }
 
   /**
-   * Process payment
+   * Create payment intent
    */
-  async processPayment(request: PaymentProcessRequest): Promise<PaymentResponse> {
-    try {
-      const response = await fetch(`${this.baseURL}/payment/process`, {
-        method: 'POST',
-        headers: this.getAuthHeaders(),
-        body: JSON.stringify(request),
-      });
+  async createPaymentIntent(
+    request: PaymentIntentRequest,
+    options: IdempotentRequestOptions = {}
+  ): Promise<PaymentIntentResponse> {
+    return this.withIdempotency('payment:intent', request, options, async () => {
+      try {
+        const response = await fetch(`${this.baseURL}/payment/intent`, {
+          method: 'POST',
+          headers: this.getAuthHeaders(options.idempotencyKey),
+          body: JSON.stringify(request),
+        });
+
+        return await response.json();
+      } catch (error) {
+        return {
+          success: false,
+          error: 'NETWORK_ERROR',
+        };
+      }
+    });
+  }
 
-      return await response.json();
-    } catch (error) {
-      return {
-        success: false,
-        error: 'NETWORK_ERROR',
-      };
-    }
+  /**
+   * Process payment
+   */
+  async processPayment(
+    request: PaymentProcessRequest,
+    options: IdempotentRequestOptions = {}
+  ): Promise<PaymentResponse> {
+    return this.withIdempotency('payment:process', request, options, async () => {
+      try {
+        const response = await fetch(`${this.baseURL}/payment/process`, {
+          method: 'POST',
+          headers: this.getAuthHeaders(options.idempotencyKey),
+          body: JSON.stringify(request),
+        });
+
+        return await response.json();
+      } catch (error) {
+        return {
+          success: false,
+          error: 'NETWORK_ERROR',
+        };
+      }
+    });
   }
 
   /**
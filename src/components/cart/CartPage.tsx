@@ -3,6 +3,7 @@ import type { CartState, CartItem } from '../../types';
 import { cartService } from '../../services/product/CartService';
 import { Button } from '../ui/Button';
 import { LoadingSpinner } from '../common/LoadingSpinner';
+import { useDisplayCurrency } from '../../hooks/useDisplayCurrency';
 
 interface CartPageProps {
   onCheckout?: (items: CartItem[]) => void;
@@ -130,7 +131,14 @@ export const CartPage: React.FC<CartPageProps> = ({
     }
   };
 
+  const { toDisplay } = useDisplayCurrency();
+  const formatPrice = (amount: number, listedCurrency: string) => {
+    const price = toDisplay(amount, listedCurrency);
+    return `${price.currency} ${price.amount}`;
+  };
+
   const summary = cartService.getCartSummary();
+  const taxIncluded = summary.taxLines.length > 0 && summary.taxLines.every(line => line.inclusive);
   const isEmpty = cartState.items.length === 0;
 
   if (cartState.isLoading) {
@@ -160,6 +168,7 @@ export const CartPage: React.FC<CartPageProps> = ({
       </div>
 
       {error && <div className="cart-page__error">❌ {error}</div>}
+      {cartState.error && <div className="cart-page__error">⚠️ {cartState.error}</div>}
 
       {isEmpty ? (
         <div className="cart-page__empty">
@@ -209,13 +218,13 @@ export const CartPage: React.FC<CartPageProps> = ({
 
                   <div className="cart-page__item-details">
                     <span className="cart-page__item-price">
-                      {item.product.currency} {item.product.price.toFixed(2)}
+                      {formatPrice(item.product.price, item.product.currency)}
                     </span>
 
                     {item.product.originalPrice &&
                       item.product.originalPrice > item.product.price && (
                         <span className="cart-page__item-original-price">
-                          {item.product.currency} {item.product.originalPrice.toFixed(2)}
+                          {formatPrice(item.product.originalPrice, item.product.currency)}
                         </span>
                       )}
                   </div>
@@ -255,7 +264,7 @@ export const CartPage: React.FC<CartPageProps> = ({
                   </div>
 
                   <div className="cart-page__item-total">
-                    {item.product.currency} {(item.product.price * item.quantity).toFixed(2)}
+                    {formatPrice(item.product.price * item.quantity, item.product.currency)}
                   </div>
 
                   <div className="cart-page__item-actions">
@@ -300,9 +309,9 @@ export const CartPage: React.FC<CartPageProps> = ({
                 </div>
               )}
 
-              {summary.estimatedTax && (
+              {summary.estimatedTax !== undefined && summary.estimatedTax > 0 && (
                 <div className="cart-page__summary-row">
-                  <span>Estimated Tax</span>
+                  <span>{taxIncluded ? 'Tax (included)' : 'Estimated Tax'}</span>
                   <span>
                     {summary.currency} {summary.estimatedTax.toFixed(2)}
                   </span>
@@ -324,7 +333,12 @@ export const CartPage: React.FC<CartPageProps> = ({
             )}
 
             <div className="cart-page__checkout-actions">
-              <Button onClick={handleCheckout} size="lg" className="cart-page__checkout-btn">
+              <Button
+                onClick={handleCheckout}
+                size="lg"
+                disabled={!!cartState.error}
+                className="cart-page__checkout-btn"
+              >
                 Proceed to Checkout
               </Button>
 
@@ -370,9 +384,7 @@ export const CartPage: React.FC<CartPageProps> = ({
 
                   <div className="cart-page__saved-item-info">
                     <h4>{item.product.name}</h4>
-                    <p>
-                      {item.product.currency} {item.product.price.toFixed(2)}
-                    </p>
+                    <p>{formatPrice(item.product.price, item.product.currency)}</p>
                   </div>
 
                   <div className="cart-page__saved-item-actions">
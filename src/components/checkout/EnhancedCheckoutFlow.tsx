@@ -2,7 +2,7 @@
 // MTYB Virtual Goods Platform - Enhanced Checkout Flow
 // ============================================================================
 
-import React, { useState, useEffect, Suspense } from 'react';
+import React, { useState, useEffect, useRef, Suspense } from 'react';
 import { Button, ButtonGroup } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { useTelegramTheme } from '../../hooks/useTelegramTheme';
@@ -12,7 +12,13 @@ import { PaymentForm } from '../payment';
 import { LoadingSpinner } from '../common/LoadingSpinner';
 import { orderService } from '../../services/order/OrderService';
 import { PaymentErrorBoundary } from '../common/PaymentErrorBoundary';
+import { paymentService } from '../../services/payment/PaymentService';
+import { PAYMENT_METHOD_LABELS } from '../payment/paymentMethodLabels';
 import { PaymentMethod } from '../../types';
+import { createIdempotencyKey } from '../../core/utils/Idempotency';
+import { currencyService } from '../../services/currency/CurrencyService';
+import { formatMoney, roundMoney } from '../../services/currency/Money';
+import { useDisplayCurrency } from '../../hooks/useDisplayCurrency';
 
 // ============================================================================
 // Types
@@ -23,6 +29,8 @@ export interface CheckoutItem {
   name: string;
   description: string;
   price: number;
+  /** Currency the price is listed in; the settlement currency when unset */
+  currency?: string;
   quantity: number;
   image?: string;
   category: string;
@@ -32,9 +40,14 @@ export interface CheckoutItem {
 export interface CheckoutState {
   step: 'cart' | 'review' | 'payment' | 'processing' | 'success' | 'error';
   items: CheckoutItem[];
+  /** Total shown to the shopper, in `currency` */
   totalAmount: number;
+  /** Display currency; orders are charged in the settlement currency */
   currency: string;
+  paymentMethod: PaymentMethod;
   orderId?: string;
+  /** What the created order charges, in the settlement currency */
+  charge?: { amount: number; currency: string };
   paymentId?: string;
   error?: string;
   isCreatingOrder?: boolean;
@@ -47,9 +60,45 @@ export interface CheckoutFlowProps {
   onUpdateQuantity: (itemId: string, quantity: number) => void;
   onRemoveItem: (itemId: string) => void;
   onBack?: () => void;
+  /** Coupon codes redeemed with the order */
+  couponCodes?: string[];
   className?: string;
 }
 
+/** What a checkout attempt buys, independent of item order and object identity */
+const checkoutSignature = (
+  items: CheckoutItem[],
+  paymentMethod: PaymentMethod,
+  couponCodes: string[] = []
+): string =>
+  JSON.stringify({
+    items: items
+      .map(item => `${item.id}:${item.quantity}:${item.price}:${item.currency ?? ''}`)
+      .sort(),
+    paymentMethod,
+    couponCodes: [...couponCodes].sort(),
+  });
+
+/**
+ * The shopper's display currency when every item converts to it, else the
+ * settlement currency the order is charged in.
+ */
+const displayCurrencyFor = (items: CheckoutItem[], preferred: string | null): string => {
+  const settlement = currencyService.getSettlementCurrency();
+  const convertible =
+    preferred !== null &&
+    items.every(item => currencyService.canConvert(item.currency ?? settlement, preferred));
+  return convertible ? preferred : settlement;
+};
+
+/** A line's price converted to the display currency */
+const lineTotal = (item: CheckoutItem, currency: string): number =>
+  currencyService.convert(
+    item.price * item.quantity,
+    item.currency ?? currencyService.getSettlementCurrency(),
+    currency
+  );
+
 // ============================================================================
 // Enhanced Checkout Flow Component
 // ============================================================================
@@ -60,22 +109,41 @@ export const EnhancedCheckoutFlow: React.FC<CheckoutFlowProps> = ({
   onUpdateQuantity,
   onRemoveItem,
   onBack,
+  couponCodes,
   className,
 }) => {
   const { colorScheme } = useTelegramTheme();
   const { userId } = useTelegramUser();
+  const { currency: preferredCurrency } = useDisplayCurrency();
+  const displayCurrency = displayCurrencyFor(items, preferredCurrency);
   const [state, setState] = useState<CheckoutState>({
     step: 'cart',
     items,
     totalAmount: 0,
-    currency: 'USD',
+    currency: displayCurrency,
+    paymentMethod: paymentService.getEnabledPaymentMethods()[0] ?? PaymentMethod.CURLEC,
   });
 
-  // Calculate total amount
+  // A double tap reuses the key; changing what is bought starts a new checkout
+  // attempt. Re-renders that hand over equal items keep the key.
+  const checkoutKey = useRef<{ signature: string; key: string } | null>(null);
+
+  const getCheckoutKey = (): string => {
+    const signature = checkoutSignature(items, state.paymentMethod, couponCodes);
+    if (checkoutKey.current?.signature !== signature) {
+      checkoutKey.current = { signature, key: createIdempotencyKey('chk') };
+    }
+    return checkoutKey.current.key;
+  };
+
+  // Calculate the total in the display currency
   useEffect(() => {
-    const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    setState(prev => ({ ...prev, totalAmount: total, items }));
-  }, [items]);
+    const total = roundMoney(
+      items.reduce((sum, item) => sum + lineTotal(item, displayCurrency), 0),
+      displayCurrency
+    );
+    setState(prev => ({ ...prev, totalAmount: total, currency: displayCurrency, items }));
+  }, [items, displayCurrency]);
 
   // Handle haptic feedback
   const triggerHaptic = (type: 'light' | 'medium' | 'heavy' = 'light') => {
@@ -119,20 +187,24 @@ export const EnhancedCheckoutFlow: React.FC<CheckoutFlowProps> = ({
 
     try {
       // Create order when proceeding to payment
-      const order = await orderService.createOrder({
-        userId: userId,
-        items: items.map(item => ({
-          productId: item.id,
-          quantity: item.quantity,
-          price: item.price,
-        })),
-        paymentMethod: PaymentMethod.CURLEC,
-        currency: state.currency,
-      });
+      const order = await orderService.createOrder(
+        {
+          userId: userId,
+          items: items.map(item => ({
+            productId: item.id,
+            quantity: item.quantity,
+            price: item.price,
+          })),
+          paymentMethod: state.paymentMethod,
+          ...(couponCodes && couponCodes.length > 0 && { couponCodes }),
+        },
+        { idempotencyKey: getCheckoutKey() }
+      );
 
       setState(prev => ({
         ...prev,
         orderId: order.id,
+        charge: { amount: order.totalAmount, currency: order.currency },
         step: 'payment',
         isCreatingOrder: false,
         processingStep: undefined,
@@ -164,8 +236,8 @@ export const EnhancedCheckoutFlow: React.FC<CheckoutFlowProps> = ({
       <CheckoutSuccess
         orderId={state.orderId}
         paymentId={state.paymentId}
-        amount={state.totalAmount}
-        currency={state.currency}
+        amount={state.charge?.amount ?? state.totalAmount}
+        currency={state.charge?.currency ?? state.currency}
         onContinue={() => onBack?.()}
       />
     );
@@ -223,11 +295,17 @@ export const EnhancedCheckoutFlow: React.FC<CheckoutFlowProps> = ({
             items={items}
             totalAmount={state.totalAmount}
             currency={state.currency}
+            paymentMethod={state.paymentMethod}
+            paymentMethods={paymentService.getEnabledPaymentMethods()}
+            onPaymentMethodChange={paymentMethod => {
+              triggerHaptic('light');
+              setState(prev => ({ ...prev, paymentMethod }));
+            }}
             onProceed={handleProceedToPayment}
           />
         )}
 
-        {state.step === 'payment' && state.orderId && (
+        {state.step === 'payment' && state.orderId && state.charge && (
           <PaymentErrorBoundary
             onRetry={() => setState(prev => ({ ...prev, error: undefined }))}
             onCancel={() => setState(prev => ({ ...prev, step: 'review' }))}
@@ -241,8 +319,9 @@ export const EnhancedCheckoutFlow: React.FC<CheckoutFlowProps> = ({
             >
               <PaymentForm
                 orderId={state.orderId}
-                amount={state.totalAmount}
-                currency={state.currency}
+                amount={state.charge.amount}
+                currency={state.charge.currency}
+                methods={[state.paymentMethod]}
                 onSuccess={paymentId => {
                   setState(prev => ({ ...prev, paymentId, step: 'success' }));
                 }}
@@ -259,8 +338,8 @@ export const EnhancedCheckoutFlow: React.FC<CheckoutFlowProps> = ({
 
         {state.step === 'processing' && (
           <ProcessingStep
-            amount={state.totalAmount}
-            currency={state.currency}
+            amount={state.charge?.amount ?? state.totalAmount}
+            currency={state.charge?.currency ?? state.currency}
             currentStep={state.processingStep}
             isCreatingOrder={state.isCreatingOrder}
           />
@@ -355,6 +434,7 @@ const CartStep: React.FC<CartStepProps> = ({
           <CartItem
             key={item.id}
             item={item}
+            currency={currency}
             onQuantityChange={onQuantityChange}
             onRemove={onRemoveItem}
           />
@@ -365,13 +445,11 @@ const CartStep: React.FC<CartStepProps> = ({
         <Card className="cart-summary">
           <div className="cart-summary__row">
             <span className="cart-summary__label">Subtotal ({items.length} items)</span>
-            <span className="cart-summary__value">${totalAmount.toFixed(2)}</span>
+            <span className="cart-summary__value">{formatMoney(totalAmount, currency)}</span>
           </div>
           <div className="cart-summary__row cart-summary__row--total">
             <span className="cart-summary__label">Total</span>
-            <span className="cart-summary__value">
-              ${totalAmount.toFixed(2)} {currency}
-            </span>
+            <span className="cart-summary__value">{formatMoney(totalAmount, currency)}</span>
           </div>
 
           <Button
@@ -395,11 +473,12 @@ const CartStep: React.FC<CartStepProps> = ({
 
 interface CartItemProps {
   item: CheckoutItem;
+  currency: string;
   onQuantityChange: (itemId: string, quantity: number) => void;
   onRemove: (itemId: string) => void;
 }
 
-const CartItem: React.FC<CartItemProps> = ({ item, onQuantityChange, onRemove }) => {
+const CartItem: React.FC<CartItemProps> = ({ item, currency, onQuantityChange, onRemove }) => {
   return (
     <Card className="cart-item">
       <div className="cart-item__content">
@@ -416,7 +495,7 @@ const CartItem: React.FC<CartItemProps> = ({ item, onQuantityChange, onRemove })
         </div>
 
         <div className="cart-item__controls">
-          <div className="cart-item__price">${(item.price * item.quantity).toFixed(2)}</div>
+          <div className="cart-item__price">{formatMoney(lineTotal(item, currency), currency)}</div>
 
           <div className="cart-item__quantity">
             <Button
@@ -460,10 +539,21 @@ interface ReviewStepProps {
   items: CheckoutItem[];
   totalAmount: number;
   currency: string;
+  paymentMethod: PaymentMethod;
+  paymentMethods: PaymentMethod[];
+  onPaymentMethodChange: (method: PaymentMethod) => void;
   onProceed: () => void;
 }
 
-const ReviewStep: React.FC<ReviewStepProps> = ({ items, totalAmount, currency, onProceed }) => {
+const ReviewStep: React.FC<ReviewStepProps> = ({
+  items,
+  totalAmount,
+  currency,
+  paymentMethod,
+  paymentMethods,
+  onPaymentMethodChange,
+  onProceed,
+}) => {
   return (
     <div className="review-step">
       <Card className="order-summary">
@@ -477,7 +567,7 @@ const ReviewStep: React.FC<ReviewStepProps> = ({ items, totalAmount, currency, o
                 <span className="order-summary__item-quantity">× {item.quantity}</span>
               </div>
               <span className="order-summary__item-price">
-                ${(item.price * item.quantity).toFixed(2)}
+                {formatMoney(lineTotal(item, currency), currency)}
               </span>
             </div>
           ))}
@@ -487,11 +577,29 @@ const ReviewStep: React.FC<ReviewStepProps> = ({ items, totalAmount, currency, o
           <div className="order-summary__total-row">
             <span className="order-summary__total-label">Total</span>
             <span className="order-summary__total-amount">
-              ${totalAmount.toFixed(2)} {currency}
+              {formatMoney(totalAmount, currency)}
             </span>
           </div>
         </div>
 
+        {paymentMethods.length > 1 && (
+          <div className="order-summary__payment-methods">
+            <h4 className="order-summary__payment-methods-title">Pay with</h4>
+            <ButtonGroup>
+              {paymentMethods.map(method => (
+                <Button
+                  key={method}
+                  variant={method === paymentMethod ? 'primary' : 'secondary'}
+                  size="sm"
+                  onClick={() => onPaymentMethodChange(method)}
+                >
+                  {PAYMENT_METHOD_LABELS[method]}
+                </Button>
+              ))}
+            </ButtonGroup>
+          </div>
+        )}
+
         <Button
           variant="primary"
           size="lg"
@@ -1,5 +1,9 @@
 import React, { useState, useEffect, useCallback, createContext, useContext } from 'react';
 import { useTelegramTheme } from '../../hooks/useTelegramTheme';
+import { EVENTS } from '../../core/constants';
+import { globalEventEmitter } from '../../core/utils/EventEmitter';
+import { describeWishlistAlert } from '../../services/wishlist/WishlistService';
+import type { WishlistAlert } from '../../types';
 
 interface Notification {
   id: string;
@@ -41,12 +45,15 @@ interface NotificationProviderProps {
   children: React.ReactNode;
   maxNotifications?: number;
   persistKey?: string;
+  /** Signed-in user; wishlist alerts for this user are added to the center */
+  userId?: string;
 }
 
 export const NotificationProvider: React.FC<NotificationProviderProps> = ({
   children,
   maxNotifications = 50,
   persistKey = 'mtyb-notifications',
+  userId,
 }) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
 
@@ -115,6 +122,26 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
     [maxNotifications]
   );
 
+  // 心愿单到货/降价提醒
+  useEffect(() => {
+    if (!userId) return;
+
+    const subscription = globalEventEmitter.on(
+      EVENTS.WISHLIST_ALERT,
+      ({ alert }: { alert: WishlistAlert }) => {
+        if (alert.userId !== userId) return;
+
+        addNotification({
+          type: alert.kind === 'price_drop' ? 'promotion' : 'success',
+          ...describeWishlistAlert(alert),
+          metadata: { productId: alert.productId, wishlistAlertId: alert.id },
+        });
+      }
+    );
+
+    return () => subscription.unsubscribe();
+  }, [userId, addNotification]);
+
   const markAsRead = useCallback((id: string) => {
     setNotifications(prev =>
       prev.map(notification =>
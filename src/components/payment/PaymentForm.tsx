@@ -1,9 +1,13 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { LoadingSpinner } from '../common/LoadingSpinner';
 import { PaymentErrorBoundary } from '../common/PaymentErrorBoundary';
+import { TonTransferPrompt } from './TonTransferPrompt';
+import type { TonTransferDetails } from './TonTransferPrompt';
+import { PAYMENT_METHOD_LABELS } from './paymentMethodLabels';
 import { paymentService } from '../../services/payment/PaymentService';
+import { paymentSyncService } from '../../services/payment/PaymentSyncService';
 import { PaymentMethod, PaymentStatus } from '../../types';
 import type { PaymentRequest, PaymentResponse } from '../../types';
 
@@ -11,6 +15,7 @@ export interface PaymentFormProps {
   orderId: string;
   amount: number;
   currency?: string;
+  methods?: PaymentMethod[];
   onSuccess?: (paymentId: string) => void;
   onError?: (error: string) => void;
   onCancel?: () => void;
@@ -19,19 +24,52 @@ export interface PaymentFormProps {
 interface PaymentFormState {
   isLoading: boolean;
   paymentResponse: PaymentResponse | null;
+  method: PaymentMethod;
   customerEmail: string;
   customerPhone: string;
+  tonTransfer: TonTransferDetails | null;
 }
 
+// Stars and TON settle inside Telegram, so no contact details are collected.
+const requiresContactDetails = (method: PaymentMethod) =>
+  method !== PaymentMethod.TELEGRAM_STARS && method !== PaymentMethod.TON;
+
 export const PaymentForm: React.FC<PaymentFormProps> = React.memo(
-  ({ orderId, amount, currency = 'MYR', onSuccess, onError, onCancel }) => {
+  ({ orderId, amount, currency = 'MYR', methods, onSuccess, onError, onCancel }) => {
+    const availableMethods = methods ?? paymentService.getEnabledPaymentMethods();
+
     const [state, setState] = useState<PaymentFormState>({
       isLoading: false,
       paymentResponse: null,
+      method: availableMethods[0] ?? PaymentMethod.CURLEC,
       customerEmail: '',
       customerPhone: '',
+      tonTransfer: null,
     });
 
+    const needsContactDetails = requiresContactDetails(state.method);
+
+    const settlePayment = useCallback(
+      async (paymentId: string) => {
+        setState(prev => ({ ...prev, isLoading: true, tonTransfer: null }));
+
+        try {
+          const status = await paymentSyncService.waitForPayment(paymentId);
+          setState(prev => ({ ...prev, isLoading: false }));
+
+          if (status === PaymentStatus.COMPLETED) {
+            onSuccess?.(paymentId);
+          } else {
+            onError?.('Payment was not confirmed');
+          }
+        } catch (error) {
+          setState(prev => ({ ...prev, isLoading: false }));
+          onError?.(error instanceof Error ? error.message : 'Payment was not confirmed');
+        }
+      },
+      [onSuccess, onError]
+    );
+
     const handleSubmit = useCallback(
       async (e: React.FormEvent) => {
         e.preventDefault();
@@ -43,13 +81,15 @@ export const PaymentForm: React.FC<PaymentFormProps> = React.memo(
             orderId,
             amount,
             currency,
-            method: PaymentMethod.CURLEC,
+            method: state.method,
             returnUrl: `${window.location.origin}/payment/success`,
             cancelUrl: `${window.location.origin}/payment/cancel`,
-            metadata: {
-              customerEmail: state.customerEmail,
-              customerPhone: state.customerPhone,
-            },
+            ...(needsContactDetails && {
+              metadata: {
+                customerEmail: state.customerEmail,
+                customerPhone: state.customerPhone,
+              },
+            }),
           };
 
           const response = await paymentService.createPayment(paymentRequest);
@@ -57,8 +97,27 @@ export const PaymentForm: React.FC<PaymentFormProps> = React.memo(
           if (response.success) {
             setState(prev => ({ ...prev, paymentResponse: response, isLoading: false }));
 
-            // Redirect to payment gateway if redirect URL is provided
-            if (response.redirectUrl) {
+            const invoiceLink: string | undefined = response.metadata?.invoiceLink;
+            const tonTransfer: TonTransferDetails | undefined = response.metadata?.tonTransfer;
+            const openInvoice = window.Telegram?.WebApp?.openInvoice;
+
+            if (invoiceLink && response.paymentId) {
+              const paymentId = response.paymentId;
+              if (openInvoice) {
+                openInvoice(invoiceLink, status => {
+                  if (status === 'paid') {
+                    void settlePayment(paymentId);
+                  } else if (status === 'failed') {
+                    onError?.('Telegram Stars payment failed');
+                  }
+                });
+              } else {
+                window.location.href = invoiceLink;
+              }
+            } else if (tonTransfer) {
+              setState(prev => ({ ...prev, tonTransfer }));
+            } else if (response.redirectUrl) {
+              // Redirect to payment gateway if redirect URL is provided
               window.location.href = response.redirectUrl;
             } else if (onSuccess && response.paymentId) {
               onSuccess(response.paymentId);
@@ -81,11 +140,29 @@ export const PaymentForm: React.FC<PaymentFormProps> = React.memo(
           throw error instanceof Error ? error : new Error(errorMessage);
         }
       },
-      [orderId, amount, currency, state.customerEmail, state.customerPhone, onSuccess, onError]
+      [
+        orderId,
+        amount,
+        currency,
+        state.method,
+        state.customerEmail,
+        state.customerPhone,
+        needsContactDetails,
+        settlePayment,
+        onSuccess,
+        onError,
+      ]
+    );
+
+    const handleInputChange = useCallback(
+      (field: 'customerEmail' | 'customerPhone', value: string) => {
+        setState(prev => ({ ...prev, [field]: value }));
+      },
+      []
     );
 
-    const handleInputChange = useCallback((field: keyof PaymentFormState, value: string) => {
-      setState(prev => ({ ...prev, [field]: value }));
+    const handleMethodChange = useCallback((method: PaymentMethod) => {
+      setState(prev => ({ ...prev, method, tonTransfer: null }));
     }, []);
 
     // Wrap the entire component with PaymentErrorBoundary
@@ -124,54 +201,75 @@ export const PaymentForm: React.FC<PaymentFormProps> = React.memo(
           </div>
 
           <form onSubmit={handleSubmit} className="payment-form__form">
-            <div className="payment-form__field">
-              <label htmlFor="email">Email Address</label>
-              <input
-                type="email"
-                id="email"
-                value={state.customerEmail}
-                onChange={e => handleInputChange('customerEmail', e.target.value)}
-                placeholder="your.email@example.com"
-                required
-                disabled={state.isLoading}
-              />
-            </div>
+            {needsContactDetails && (
+              <>
+                <div className="payment-form__field">
+                  <label htmlFor="email">Email Address</label>
+                  <input
+                    type="email"
+                    id="email"
+                    value={state.customerEmail}
+                    onChange={e => handleInputChange('customerEmail', e.target.value)}
+                    placeholder="your.email@example.com"
+                    required
+                    disabled={state.isLoading}
+                  />
+                </div>
 
-            <div className="payment-form__field">
-              <label htmlFor="phone">Phone Number</label>
-              <input
-                type="tel"
-                id="phone"
-                value={state.customerPhone}
-                onChange={e => handleInputChange('customerPhone', e.target.value)}
-                placeholder="+60123456789"
-                required
-                disabled={state.isLoading}
-              />
-            </div>
+                <div className="payment-form__field">
+                  <label htmlFor="phone">Phone Number</label>
+                  <input
+                    type="tel"
+                    id="phone"
+                    value={state.customerPhone}
+                    onChange={e => handleInputChange('customerPhone', e.target.value)}
+                    placeholder="+60123456789"
+                    required
+                    disabled={state.isLoading}
+                  />
+                </div>
+              </>
+            )}
 
             <div className="payment-form__methods">
               <h3>Payment Method</h3>
-              <div className="payment-method-option">
-                <input
-                  type="radio"
-                  id="curlec"
-                  name="paymentMethod"
-                  value="curlec"
-                  checked
-                  disabled
-                />
-                <label htmlFor="curlec">
-                  <img src="/images/curlec-logo.png" alt="Curlec" className="payment-logo" />
-                  Curlec Payment Gateway
-                </label>
-              </div>
+              {availableMethods.map(method => (
+                <div key={method} className="payment-method-option">
+                  <input
+                    type="radio"
+                    id={method}
+                    name="paymentMethod"
+                    value={method}
+                    checked={state.method === method}
+                    onChange={() => handleMethodChange(method)}
+                    disabled={state.isLoading || availableMethods.length === 1}
+                  />
+                  <label htmlFor={method}>
+                    {method === PaymentMethod.CURLEC && (
+                      <img src="/images/curlec-logo.png" alt="Curlec" className="payment-logo" />
+                    )}
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </label>
+                </div>
+              ))}
             </div>
 
+            {state.tonTransfer && state.paymentResponse?.paymentId && (
+              <TonTransferPrompt
+                transfer={state.tonTransfer}
+                onSent={() => void settlePayment(state.paymentResponse!.paymentId!)}
+                onError={error => onError?.(error)}
+              />
+            )}
+
             <div className="payment-form__actions">
               <Button
                 type="submit"
-                disabled={state.isLoading || !state.customerEmail || !state.customerPhone}
+                disabled={
+                  state.isLoading ||
+                  !!state.tonTransfer ||
+                  (needsContactDetails && (!state.customerEmail || !state.customerPhone))
+                }
                 className="payment-form__submit"
               >
                 {state.isLoading ? (
@@ -334,6 +432,12 @@ export const PaymentForm: React.FC<PaymentFormProps> = React.memo(
               color: var(--text-primary, #111827);
             }
 
+            .payment-form__methods {
+              display: flex;
+              flex-direction: column;
+              gap: 0.5rem;
+            }
+
             .payment-method-option {
               display: flex;
               align-items: center;
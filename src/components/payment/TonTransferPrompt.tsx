@@ -0,0 +1,78 @@
+import React, { useState, useCallback } from 'react';
+import { TonConnectButton, useTonConnectUI, useTonWallet } from '@tonconnect/ui-react';
+import { Button } from '../ui/Button';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { NANOTONS_PER_TON } from '../../services/payment/TonGateway';
+
+export interface TonTransferDetails {
+  address: string;
+  amount: string;
+  validUntil: number;
+  payload?: string;
+}
+
+export interface TonTransferPromptProps {
+  transfer: TonTransferDetails;
+  onSent: () => void;
+  onError: (error: string) => void;
+}
+
+export const TonTransferPrompt: React.FC<TonTransferPromptProps> = ({
+  transfer,
+  onSent,
+  onError,
+}) => {
+  const [tonConnectUI] = useTonConnectUI();
+  const wallet = useTonWallet();
+  const [isSending, setIsSending] = useState(false);
+
+  const tonAmount = (Number(transfer.amount) / NANOTONS_PER_TON).toFixed(4);
+
+  const handleSend = useCallback(async () => {
+    setIsSending(true);
+
+    try {
+      await tonConnectUI.sendTransaction({
+        validUntil: transfer.validUntil,
+        messages: [
+          {
+            address: transfer.address,
+            amount: transfer.amount,
+            ...(transfer.payload && { payload: transfer.payload }),
+          },
+        ],
+      });
+      onSent();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'TON transfer was not sent');
+    } finally {
+      setIsSending(false);
+    }
+  }, [tonConnectUI, transfer, onSent, onError]);
+
+  return (
+    <div className="ton-transfer">
+      <p className="ton-transfer__amount">{tonAmount} TON</p>
+
+      {wallet ? (
+        <Button
+          type="button"
+          onClick={handleSend}
+          disabled={isSending}
+          className="ton-transfer__send"
+        >
+          {isSending ? (
+            <>
+              <LoadingSpinner size="small" />
+              Waiting for wallet...
+            </>
+          ) : (
+            `Send ${tonAmount} TON`
+          )}
+        </Button>
+      ) : (
+        <TonConnectButton className="ton-transfer__connect" />
+      )}
+    </div>
+  );
+};
@@ -17,6 +17,8 @@ export const PaymentStatus = lazy(() =>
   }))
 );
 
+export { PAYMENT_METHOD_LABELS } from './paymentMethodLabels';
+
 // Export types for use in other modules
 export type { PaymentFormProps } from './PaymentForm';
 
@@ -0,0 +1,12 @@
+import { PaymentMethod } from '../../types';
+
+// Kept out of PaymentForm so the checkout can show labels without pulling in
+// the lazily loaded form.
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.CURLEC]: 'Curlec Payment Gateway',
+  [PaymentMethod.CREDIT_CARD]: 'Credit Card',
+  [PaymentMethod.BANK_TRANSFER]: 'Bank Transfer',
+  [PaymentMethod.E_WALLET]: 'E-Wallet',
+  [PaymentMethod.TELEGRAM_STARS]: 'Telegram Stars',
+  [PaymentMethod.TON]: 'TON Wallet',
+};
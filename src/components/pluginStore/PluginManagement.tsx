@@ -1,10 +1,17 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useTheme } from '../../hooks/useTheme';
 import { useAsyncState } from '../../hooks/useAsyncState';
 import { Button } from '../ui/Button';
 import { LoadingSpinner, ErrorMessage } from '../common';
 import { useToast } from '../feedback/Toast';
 import { PluginSubmission, PluginStoreStatus, PluginReviewNote } from '../../types/pluginStore';
+import {
+  nodeFromStoreItem,
+  rangeFromBounds,
+  resolveDependencies,
+  type DependencyIssue,
+} from '../../core/plugin/DependencyResolver';
+import { APP_CONFIG } from '../../core/constants';
 
 interface PluginManagementProps {
   userRole?: 'admin' | 'developer';
@@ -95,7 +102,7 @@ export const PluginManagement: React.FC<PluginManagementProps> = ({
           minPlatformVersion: '1.0.0',
           supportedDevices: ['mobile', 'desktop', 'tablet'],
           requiredFeatures: [],
-          dependencies: [],
+          dependencies: [{ pluginId: 'vpn-premium-v2', minVersion: '2.0.0', optional: false }],
         },
         metadata: {
           license: 'Commercial',
@@ -269,6 +276,40 @@ export const PluginManagement: React.FC<PluginManagementProps> = ({
     loadSubmissions();
   }, [loadSubmissions]);
 
+  // Dependencies are checked against the plugins already approved for the store
+  const dependencyIssues = useMemo(() => {
+    const submissions = submissionsState.data ?? [];
+    const toNode = (submission: PluginSubmission) =>
+      submission.compatibility
+        ? nodeFromStoreItem({
+            id: submission.name,
+            version: submission.version,
+            compatibility: submission.compatibility,
+          })
+        : null;
+    const available = submissions.filter(
+      submission => submission.status === 'published' || submission.status === 'approved'
+    );
+
+    const issues = new Map<string, DependencyIssue[]>();
+    for (const submission of submissions) {
+      const node = toNode(submission);
+      if (!node) continue;
+
+      const others = available
+        .filter(other => other.name !== submission.name)
+        .map(toNode)
+        .filter(other => other !== null);
+      issues.set(
+        submission.id,
+        resolveDependencies([...others, node]).issues.filter(
+          issue => issue.pluginId === submission.name
+        )
+      );
+    }
+    return issues;
+  }, [submissionsState.data]);
+
   const filteredSubmissions =
     submissionsState.data?.filter(
       submission => filterStatus === 'all' || submission.status === filterStatus
@@ -420,6 +461,15 @@ export const PluginManagement: React.FC<PluginManagementProps> = ({
                 )}
               </div>
 
+              {(dependencyIssues.get(submission.id)?.length ?? 0) > 0 && (
+                <div className="dependency-warning">
+                  ⚠️ {dependencyIssues.get(submission.id)?.length} unresolved{' '}
+                  {dependencyIssues.get(submission.id)?.length === 1
+                    ? 'dependency'
+                    : 'dependencies'}
+                </div>
+              )}
+
               {submission.reviewNotes.length > 0 && (
                 <div className="latest-review">
                   <strong>Latest Review:</strong>
@@ -493,6 +543,47 @@ export const PluginManagement: React.FC<PluginManagementProps> = ({
             </div>
           </div>
 
+          {selectedSubmission.compatibility && (
+            <div className="details-section">
+              <h4>Dependencies</h4>
+              <div className="dependency-list">
+                <div className="dependency-item">
+                  <span className="dependency-name">Platform</span>
+                  <span className="dependency-range">
+                    {rangeFromBounds(
+                      selectedSubmission.compatibility.minPlatformVersion,
+                      selectedSubmission.compatibility.maxPlatformVersion
+                    ) || 'any'}
+                  </span>
+                  <span className="dependency-found">running {APP_CONFIG.VERSION}</span>
+                </div>
+                {selectedSubmission.compatibility.dependencies.map(dependency => (
+                  <div key={dependency.pluginId} className="dependency-item">
+                    <span className="dependency-name">{dependency.pluginId}</span>
+                    <span className="dependency-range">
+                      {rangeFromBounds(dependency.minVersion, dependency.maxVersion) || 'any'}
+                    </span>
+                    {dependency.optional && <span className="dependency-optional">optional</span>}
+                  </div>
+                ))}
+              </div>
+
+              {(dependencyIssues.get(selectedSubmission.id) ?? []).length === 0 ? (
+                <p className="dependency-resolved">All dependencies are resolved.</p>
+              ) : (
+                <ul className="dependency-issues">
+                  {dependencyIssues
+                    .get(selectedSubmission.id)
+                    ?.map(issue => (
+                      <li key={`${issue.code}-${issue.dependencyId ?? 'platform'}`}>
+                        {issue.message}
+                      </li>
+                    ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {selectedSubmission.screenshots.length > 0 && (
             <div className="details-section">
               <h4>Screenshots</h4>
@@ -1020,6 +1111,61 @@ export const PluginManagement: React.FC<PluginManagementProps> = ({
           color: var(--color-primary-contrast);
         }
 
+        .dependency-warning {
+          margin-bottom: var(--space-3);
+          padding: var(--space-2) var(--space-3);
+          border-radius: var(--radius-md);
+          background: var(--color-warning-light);
+          color: var(--color-warning);
+          font-size: var(--text-sm);
+          font-weight: var(--font-weight-medium);
+        }
+
+        .dependency-list {
+          display: flex;
+          flex-direction: column;
+          gap: var(--space-2);
+        }
+
+        .dependency-item {
+          display: flex;
+          align-items: center;
+          gap: var(--space-3);
+          font-size: var(--text-sm);
+        }
+
+        .dependency-name {
+          font-weight: var(--font-weight-medium);
+          color: var(--color-text-primary);
+        }
+
+        .dependency-range,
+        .dependency-found {
+          color: var(--color-text-secondary);
+        }
+
+        .dependency-optional {
+          padding: var(--space-1) var(--space-2);
+          border-radius: var(--radius-sm);
+          background: var(--color-muted);
+          font-size: var(--text-xs);
+        }
+
+        .dependency-resolved {
+          margin: var(--space-3) 0 0 0;
+          color: var(--color-success);
+          font-size: var(--text-sm);
+        }
+
+        .dependency-issues {
+          margin: var(--space-3) 0 0 0;
+          padding: var(--space-3) var(--space-3) var(--space-3) var(--space-6);
+          border-radius: var(--radius-md);
+          background: var(--color-error-light);
+          color: var(--color-error);
+          font-size: var(--text-sm);
+        }
+
         .no-reviews {
           margin: 0;
           color: var(--color-text-secondary);
@@ -3,13 +3,14 @@ import { useTelegramTheme } from '../../hooks/useTelegramTheme';
 import { useAsyncState } from '../../hooks/useAsyncState';
 import { LoadingSpinner, ErrorMessage } from '../common';
 import { Button } from '../ui/Button';
+import { pluginEventEmitter, type PluginEventMap } from '../../core/plugin/PluginEventEmitter';
 
 // 插件事件日志类型
 interface PluginEvent {
   id: string;
   pluginId: string;
   pluginName: string;
-  type: 'execution' | 'error' | 'health_check' | 'config_change' | 'status_change';
+  type: 'execution' | 'error' | 'health_check' | 'config_change' | 'status_change' | 'hot_reload';
   level: 'info' | 'warning' | 'error' | 'success';
   message: string;
   details?: Record<string, any>;
@@ -19,6 +20,9 @@ interface PluginEvent {
   orderId?: string;
 }
 
+// 实时事件编号，列表截断后也不会重复
+let liveEventSequence = 0;
+
 interface PluginEventLogProps {
   className?: string;
   pluginId?: string; // 如果指定，则只显示该插件的事件
@@ -33,6 +37,7 @@ export const PluginEventLog: React.FC<PluginEventLogProps> = ({
   const { colorScheme } = useTelegramTheme();
   const [filter, setFilter] = useState<'all' | 'info' | 'warning' | 'error' | 'success'>('all');
   const [selectedEvent, setSelectedEvent] = useState<string | null>(null);
+  const [liveEvents, setLiveEvents] = useState<PluginEvent[]>([]);
 
   // 模拟事件日志API调用
   const fetchEvents = useCallback(async (): Promise<PluginEvent[]> => {
@@ -138,11 +143,66 @@ export const PluginEventLog: React.FC<PluginEventLogProps> = ({
     return () => clearInterval(interval);
   }, [loadEvents]);
 
-  const filteredEvents =
-    eventsState.data?.filter(event => {
-      if (filter === 'all') return true;
-      return event.level === filter;
-    }) || [];
+  // 本进程内的热重载事件实时推送；CLI 进程中的重载通过 CLI 输出报告
+  useEffect(() => {
+    const push = (event: Omit<PluginEvent, 'id'>) => {
+      if (pluginId && event.pluginId !== pluginId) return;
+      const liveEvent = { ...event, id: `live-${++liveEventSequence}` };
+      setLiveEvents(current => [liveEvent, ...current].slice(0, maxEvents));
+    };
+
+    const subscriptions = [
+      pluginEventEmitter.on<PluginEventMap['system:plugin:hot-reload:start']>(
+        'system:plugin:hot-reload:start',
+        data =>
+          push({
+            pluginId: data.pluginId ?? data.directory,
+            pluginName: data.pluginId ?? data.directory,
+            type: 'hot_reload',
+            level: 'info',
+            message: 'Source changed, rebuilding plugin',
+            details: { directory: data.directory, changedFiles: data.changedFiles },
+            timestamp: data.timestamp,
+          })
+      ),
+      pluginEventEmitter.on<PluginEventMap['system:plugin:hot-reload:success']>(
+        'system:plugin:hot-reload:success',
+        data =>
+          push({
+            pluginId: data.pluginId,
+            pluginName: data.pluginId,
+            type: 'hot_reload',
+            level: 'success',
+            message: `Hot reloaded v${data.version}`,
+            details: { directory: data.directory },
+            timestamp: data.timestamp,
+            duration: data.durationMs,
+          })
+      ),
+      pluginEventEmitter.on<PluginEventMap['system:plugin:hot-reload:error']>(
+        'system:plugin:hot-reload:error',
+        data =>
+          push({
+            pluginId: data.pluginId ?? data.directory,
+            pluginName: data.pluginId ?? data.directory,
+            type: 'hot_reload',
+            level: 'error',
+            message: `Hot reload failed: ${data.error.message}`,
+            details: { directory: data.directory },
+            timestamp: data.timestamp,
+          })
+      ),
+    ];
+
+    return () => subscriptions.forEach(subscription => subscription.unsubscribe());
+  }, [pluginId, maxEvents]);
+
+  const events = [...liveEvents, ...(eventsState.data || [])].slice(0, maxEvents);
+
+  const filteredEvents = events.filter(event => {
+    if (filter === 'all') return true;
+    return event.level === filter;
+  });
 
   const getLevelColor = (level: string) => {
     switch (level) {
@@ -171,6 +231,8 @@ export const PluginEventLog: React.FC<PluginEventLogProps> = ({
         return '⚙️';
       case 'status_change':
         return '🔄';
+      case 'hot_reload':
+        return '♻️';
       default:
         return '📝';
     }
@@ -248,8 +310,8 @@ export const PluginEventLog: React.FC<PluginEventLogProps> = ({
             <span className="filter-count">
               (
               {filterOption === 'all'
-                ? eventsState.data?.length || 0
-                : eventsState.data?.filter(e => e.level === filterOption).length || 0}
+                ? events.length
+                : events.filter(e => e.level === filterOption).length}
               )
             </span>
           </button>
@@ -439,6 +501,8 @@ const EventCard: React.FC<EventCardProps> = ({ event, isSelected, onSelect }) =>
         return '⚙️';
       case 'status_change':
         return '🔄';
+      case 'hot_reload':
+        return '♻️';
       default:
         return '📝';
     }
@@ -3,6 +3,7 @@ import type { Product } from '../../types';
 import { categoryService } from '../../services/product';
 import { Button } from '../ui/Button';
 import { useTelegramTheme } from '../../hooks/useTelegramTheme';
+import { useDisplayCurrency } from '../../hooks/useDisplayCurrency';
 
 interface ProductCardProps {
   product: Product;
@@ -22,6 +23,8 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   className = '',
 }) => {
   const { colorScheme } = useTelegramTheme();
+  const { toDisplay } = useDisplayCurrency();
+  const price = toDisplay(product.price, product.currency);
   const categoryInfo = categoryService.getCategoryBadgeProps(product.category);
   const hasDiscount = product.originalPrice && product.originalPrice > product.price;
   const discountPercentage = hasDiscount
@@ -118,14 +121,16 @@ export const ProductCard: React.FC<ProductCardProps> = ({
           {/* Price Section */}
           <div className="product-card__price-section">
             <div className="product-card__price">
-              <span className="product-card__currency">{product.currency}</span>
-              <span className="product-card__amount">{product.price.toFixed(2)}</span>
+              <span className="product-card__currency">{price.currency}</span>
+              <span className="product-card__amount">{price.amount}</span>
             </div>
 
             {hasDiscount && (
               <div className="product-card__original-price">
-                <span className="product-card__currency">{product.currency}</span>
-                <span className="product-card__amount">{product.originalPrice!.toFixed(2)}</span>
+                <span className="product-card__currency">{price.currency}</span>
+                <span className="product-card__amount">
+                  {toDisplay(product.originalPrice!, product.currency).amount}
+                </span>
               </div>
             )}
           </div>
@@ -3,6 +3,8 @@ import type { Product } from '../../types';
 import { productService } from '../../services/product/ProductService';
 import { categoryService } from '../../services/product/CategoryService';
 import { cartService } from '../../services/product/CartService';
+import { wishlistService } from '../../services/wishlist/WishlistService';
+import { useTelegramUser } from '../../hooks/useTelegramUser';
 import { Button } from '../ui/Button';
 import { LoadingSpinner } from '../common/LoadingSpinner';
 
@@ -28,6 +30,9 @@ export const ProductDetail: React.FC<ProductDetailProps> = ({
   const [isInCart, setIsInCart] = useState(false);
   const [cartQuantity, setCartQuantity] = useState(0);
   const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
+  const [inWishlist, setInWishlist] = useState(false);
+  const [togglingWishlist, setTogglingWishlist] = useState(false);
+  const { user, userId } = useTelegramUser();
 
   useEffect(() => {
     loadProduct();
@@ -48,6 +53,15 @@ export const ProductDetail: React.FC<ProductDetailProps> = ({
     }
   }, [product]);
 
+  useEffect(() => {
+    if (!user) return;
+
+    wishlistService
+      .isInWishlist(userId, productId)
+      .then(setInWishlist)
+      .catch(err => console.error('Failed to load wishlist state:', err));
+  }, [user, userId, productId]);
+
   const loadProduct = async () => {
     try {
       setLoading(true);
@@ -103,6 +117,22 @@ export const ProductDetail: React.FC<ProductDetailProps> = ({
     }
   };
 
+  const handleToggleWishlist = async () => {
+    try {
+      setTogglingWishlist(true);
+      const result = await wishlistService.toggleWishlist(userId, productId);
+      if (result.success && result.data) {
+        setInWishlist(result.data.inWishlist);
+      } else {
+        setError(result.error?.message || 'Failed to update wishlist');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update wishlist');
+    } finally {
+      setTogglingWishlist(false);
+    }
+  };
+
   const handleUpdateCartQuantity = async (newQuantity: number) => {
     try {
       const result = await cartService.updateQuantity(productId, newQuantity);
@@ -391,6 +421,27 @@ export const ProductDetail: React.FC<ProductDetailProps> = ({
                 </div>
               </div>
             )}
+
+            {user && (
+              <div className="product-detail__wishlist">
+                <Button
+                  onClick={handleToggleWishlist}
+                  disabled={togglingWishlist}
+                  variant="secondary"
+                  size="sm"
+                  className="product-detail__wishlist-btn"
+                >
+                  {inWishlist ? '♥ In Wishlist' : '♡ Add to Wishlist'}
+                </Button>
+                {inWishlist && (
+                  <span className="product-detail__wishlist-hint">
+                    {isOutOfStock
+                      ? "We'll message you when it's back in stock"
+                      : "We'll message you if the price drops"}
+                  </span>
+                )}
+              </div>
+            )}
           </div>
 
           {error && <div className="product-detail__error-message">❌ {error}</div>}
@@ -790,6 +841,18 @@ export const ProductDetail: React.FC<ProductDetailProps> = ({
           gap: 1rem;
         }
 
+        .product-detail__wishlist {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          margin-top: 1rem;
+        }
+
+        .product-detail__wishlist-hint {
+          font-size: 0.875rem;
+          color: var(--tg-theme-hint-color, #666);
+        }
+
         .product-detail__error-message {
           color: #e53e3e;
           font-weight: 500;
@@ -1,5 +1,18 @@
 import { Pool, PoolConfig } from 'pg';
 import { PrismaClient } from '@prisma/client';
+import { SqlOrderRepository } from '../services/order/SqlOrderRepository';
+import { SqlWebhookEventStore } from '../services/payment/WebhookEventStore';
+import { WebhookHandler } from '../services/payment/WebhookHandler';
+import { paymentService } from '../services/payment/PaymentService';
+import { SqlRefundLedger } from '../services/payment/RefundLedger';
+import { SqlInvoiceNumberSequence } from '../services/invoice/InvoiceNumberSequence';
+import { SqlCodePoolStore } from '../services/codes/CodePoolStore';
+import { SqlSubscriptionStore } from '../services/subscription/SubscriptionStore';
+import { SqlCartStore } from '../services/cart/CartStore';
+import { SqlCartReminderStore } from '../services/cart/CartReminderStore';
+import { SqlWishlistStore } from '../services/wishlist/WishlistStore';
+import { SqlDeliveryJobStore } from '../services/delivery/DeliveryJobStore';
+import { DeliveryQueue } from '../services/delivery/DeliveryQueue';
 
 // Database configuration
 export const databaseConfig: PoolConfig = {
@@ -157,6 +170,43 @@ export async function withPrismaTransaction<T>(
   return await prisma.$transaction(callback);
 }
 
+// Order storage for server-side OrderService instances
+export const orderRepository = new SqlOrderRepository(pool, withTransaction);
+
+// Received gateway webhooks, kept for retries and replay
+export const webhookEventStore = new SqlWebhookEventStore(pool);
+
+// Webhook handler for the server; stored events survive restarts and are
+// shared by every instance, so retries and replays see them all
+export const webhookHandler = new WebhookHandler(paymentService, webhookEventStore);
+
+// Refunds issued against payments, checked against the captured amount
+export const refundLedger = new SqlRefundLedger(pool, withTransaction);
+
+// Gap-free invoice numbers shared by every server instance
+export const invoiceNumberSequence = new SqlInvoiceNumberSequence(pool);
+
+// Encrypted license-key and voucher pools
+export const codePoolStore = new SqlCodePoolStore(pool, withTransaction);
+
+// Subscriptions polled by the renewal scheduler
+export const subscriptionStore = new SqlSubscriptionStore(pool);
+
+// Server-side carts of signed-in users
+export const cartStore = new SqlCartStore(pool);
+
+// Abandoned-cart reminders and the orders that recovered them
+export const cartReminderStore = new SqlCartReminderStore(pool);
+
+// Wishlists and their back-in-stock and price-drop alerts
+export const wishlistStore = new SqlWishlistStore(pool);
+
+// Fulfilment jobs, so queued and dead-lettered deliveries survive a restart
+export const deliveryJobStore = new SqlDeliveryJobStore(pool);
+
+// Delivery queue for server-side OrderService instances
+export const deliveryQueue = new DeliveryQueue(deliveryJobStore);
+
 // Migration utilities
 export class MigrationManager {
   async runMigrations(): Promise<void> {
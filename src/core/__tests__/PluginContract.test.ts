@@ -0,0 +1,206 @@
+// ============================================================================
+// Plugin Contract Compatibility Tests
+// ============================================================================
+
+import { PluginManager } from '../plugin/PluginManager';
+import { pluginRegistry } from '../plugin/PluginRegistry';
+import {
+  DeliveryPluginAdapter,
+  SdkPluginAdapter,
+  isContractCompatible,
+} from '../plugin/PluginContract';
+import { DemoPlugin } from '../plugin/plugins/DemoPlugin';
+import { VpnPlugin } from '../../plugins/vpn/VpnPlugin';
+import { KeyAuthPlugin } from '../../plugins/templates/ApiIntegrationPlugin';
+import { NetflixEmailPlugin } from '../../plugins/templates/EmailIntegrationPlugin';
+import { SoftwarePackagePlugin } from '../../plugins/templates/FileDeliveryPlugin';
+import { PLUGIN_CONTRACT_VERSION } from '../../types/plugin';
+import type { RegistrablePlugin } from '../../types/plugin';
+import { Plugin as SdkPlugin } from '../../sdk/types';
+import type { PluginContext as SdkPluginContext } from '../../sdk/types';
+import { OrderStatus, PaymentMethod, ProductCategory } from '../../types';
+import type { Order, PluginContext, Product } from '../../types';
+
+const shippedPlugins: Array<[string, () => RegistrablePlugin]> = [
+  ['vpn-plugin', () => new VpnPlugin()],
+  ['keyauth-plugin', () => new KeyAuthPlugin()],
+  ['netflix-email-plugin', () => new NetflixEmailPlugin()],
+  ['software-package-plugin', () => new SoftwarePackagePlugin()],
+  ['demo-plugin', () => new DemoPlugin()],
+];
+
+/** Runs the simulated API delays of the plugins before awaiting the result */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await jest.runAllTimersAsync();
+  return promise;
+}
+
+function orderContext(metadata: Record<string, any>): PluginContext {
+  const product = {
+    id: 'prod-1',
+    name: 'Test product',
+    price: 10,
+    currency: 'MYR',
+    category: ProductCategory.DIGITAL_GOODS,
+    metadata,
+  } as unknown as Product;
+  const order = {
+    id: 'ord-1',
+    userId: 'user-1',
+    items: [
+      { id: 'itm-1', productId: product.id, productName: product.name, quantity: 1, unitPrice: 10 },
+    ],
+    totalAmount: 10,
+    currency: 'MYR',
+    status: OrderStatus.PROCESSING,
+    paymentMethod: PaymentMethod.CREDIT_CARD,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    metadata: {},
+  } as unknown as Order;
+
+  return {
+    order,
+    product,
+    user: {
+      id: 'user-1',
+      telegramId: 42,
+      email: 'buyer@example.com',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as PluginContext['user'],
+    config: {},
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  };
+}
+
+class WidgetPlugin extends SdkPlugin {
+  readonly calls: string[] = [];
+
+  async onConfigure(): Promise<void> {
+    this.calls.push('configure');
+  }
+
+  async onActivate(): Promise<void> {
+    this.calls.push('activate');
+  }
+
+  async onDeactivate(): Promise<void> {
+    this.calls.push('deactivate');
+  }
+
+  async run(): Promise<void> {
+    this.calls.push('run');
+  }
+}
+
+describe('Shipped plugin compatibility', () => {
+  let manager: PluginManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    manager = new PluginManager();
+  });
+
+  afterEach(async () => {
+    await pluginRegistry.cleanup();
+    jest.useRealTimers();
+  });
+
+  describe.each(shippedPlugins)('%s', (pluginId, create) => {
+    it('should register through PluginManager against the current contract', async () => {
+      await manager.registerPlugin(create());
+
+      const plugin = manager.getPlugin(pluginId);
+      expect(isContractCompatible(plugin?.contractVersion)).toBe(true);
+      expect(plugin?.config).toMatchObject({
+        id: pluginId,
+        version: expect.stringMatching(/^\d+\.\d+\.\d+/),
+        isEnabled: false,
+      });
+    });
+
+    it('should enable, report health, process orders and disable', async () => {
+      await manager.registerPlugin(create());
+
+      await settle(manager.enablePlugin(pluginId));
+      const health = await settle(manager.checkPluginHealth(pluginId));
+      const result = await settle(
+        manager.executePlugin(pluginId, orderContext({ vpnDuration: 30, serverRegion: 'germany' }))
+      );
+      await settle(manager.disablePlugin(pluginId));
+
+      expect(health).toEqual(
+        expect.objectContaining({ isHealthy: expect.any(Boolean), lastCheck: expect.any(Date) })
+      );
+      expect(typeof result.success).toBe('boolean');
+      if (!result.success) {
+        expect(result.error).toEqual(expect.any(String));
+      }
+      expect(manager.getActivePlugins()).toEqual([]);
+    });
+  });
+});
+
+describe('Plugin contract adapters', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    await pluginRegistry.cleanup();
+    jest.useRealTimers();
+  });
+
+  it('should deliver through a delivery plugin and fail invalid orders without a retry', async () => {
+    const adapter = new DeliveryPluginAdapter(new VpnPlugin(), {
+      category: ProductCategory.VPN,
+    });
+
+    const delivered = await settle(
+      adapter.processOrder(orderContext({ vpnDuration: 30, serverRegion: 'germany' }))
+    );
+    const rejected = await settle(adapter.processOrder(orderContext({ serverRegion: 'germany' })));
+
+    expect(adapter.config).toMatchObject({ id: 'vpn-plugin', category: ProductCategory.VPN });
+    expect(delivered.success).toBe(true);
+    expect(delivered.deliveryData.accounts[0].serverId).toBe('eu-central-1');
+    expect(rejected).toEqual({
+      success: false,
+      error: 'VPN duration is required',
+      retryable: false,
+    });
+  });
+
+  it('should run the lifecycle of SDK plugins but never route orders to them', async () => {
+    const context = {
+      id: 'vpn-widget',
+      name: 'VPN Widget',
+      version: '0.3.0',
+      author: 'MTYB Team',
+      config: { permissions: ['ui.toast'], features: [] },
+      runtime: {},
+    } as unknown as SdkPluginContext;
+    const widget = new WidgetPlugin(context, {} as never);
+    const manager = new PluginManager();
+
+    await manager.registerPlugin(new SdkPluginAdapter(widget, context));
+    await manager.enablePlugin('vpn-widget');
+    const result = await manager.executePlugin('vpn-widget', orderContext({}));
+    await manager.disablePlugin('vpn-widget');
+
+    expect(widget.calls).toEqual(['configure', 'activate', 'deactivate']);
+    expect(result).toMatchObject({ success: false, retryable: false });
+  });
+
+  it('should refuse plugins built against another contract major version', async () => {
+    class FuturePlugin extends DemoPlugin {
+      readonly contractVersion = '2.0.0';
+    }
+
+    expect(PLUGIN_CONTRACT_VERSION.startsWith('1.')).toBe(true);
+    await expect(new PluginManager().registerPlugin(new FuturePlugin())).rejects.toThrow(
+      'implements plugin contract v2.0.0'
+    );
+  });
+});
@@ -0,0 +1,199 @@
+// ============================================================================
+// Plugin Dependency Resolution Tests
+// ============================================================================
+
+import {
+  compareVersions,
+  findDependents,
+  nodeFromPluginConfig,
+  nodeFromStoreItem,
+  resolveDependencies,
+  satisfiesRange,
+} from '../plugin/DependencyResolver';
+import type { DependencyNode } from '../plugin/DependencyResolver';
+import { PluginRegistry } from '../plugin/PluginRegistry';
+import { BasePlugin } from '../../types/plugin';
+import { PluginStatus, ProductCategory } from '../../types';
+import type { DeliveryResult, PluginConfig, ValidationResult } from '../../types';
+
+function node(id: string, version: string, dependencies: string[] = []): DependencyNode {
+  return nodeFromPluginConfig(config(id, version, dependencies));
+}
+
+function config(id: string, version: string, dependencies: string[] = []): PluginConfig {
+  return {
+    id,
+    name: id,
+    version,
+    description: `${id} plugin`,
+    author: 'MTYB Team',
+    category: ProductCategory.DIGITAL_GOODS,
+    status: PluginStatus.INACTIVE,
+    isEnabled: false,
+    dependencies,
+    metadata: {},
+  };
+}
+
+class TestPlugin extends BasePlugin {
+  initialized = 0;
+
+  constructor(
+    public config: PluginConfig,
+    private readonly loadLog: string[] = []
+  ) {
+    super();
+  }
+
+  async initialize(): Promise<void> {
+    this.initialized++;
+    this.loadLog.push(this.config.id);
+  }
+
+  async validateConfig(): Promise<ValidationResult> {
+    return { isValid: true, errors: [] };
+  }
+
+  async processOrder(): Promise<DeliveryResult> {
+    return { success: true };
+  }
+
+  async validateProduct(): Promise<ValidationResult> {
+    return { isValid: true, errors: [] };
+  }
+}
+
+describe('Semver ranges', () => {
+  it('should order versions including prereleases', () => {
+    expect(compareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+    expect(compareVersions('2.0.0-beta.2', '2.0.0')).toBeLessThan(0);
+    expect(compareVersions('2.0.0-beta.10', '2.0.0-beta.2')).toBeGreaterThan(0);
+  });
+
+  it('should check caret, tilde, comparator and alternative ranges', () => {
+    expect(satisfiesRange('1.4.2', '^1.2.0')).toBe(true);
+    expect(satisfiesRange('2.0.0', '^1.2.0')).toBe(false);
+    expect(satisfiesRange('0.3.0', '^0.2.1')).toBe(false);
+    expect(satisfiesRange('1.2.9', '~1.2.0')).toBe(true);
+    expect(satisfiesRange('1.3.0', '~1.2.0')).toBe(false);
+    expect(satisfiesRange('1.5.0', '>=1.0.0 <2.0.0')).toBe(true);
+    expect(satisfiesRange('3.1.0', '^1.0.0 || ^3.0.0')).toBe(true);
+    expect(satisfiesRange('1.0.0', '')).toBe(true);
+    expect(satisfiesRange('1.0.0', '>=banana')).toBe(false);
+  });
+});
+
+describe('Dependency resolution', () => {
+  it('should load dependencies before the plugins that need them', () => {
+    const resolution = resolveDependencies([
+      node('vpn-reseller', '1.0.0', ['vpn-core@^2.0.0', 'analytics?']),
+      node('analytics', '1.1.0'),
+      node('vpn-core', '2.3.1'),
+    ]);
+
+    expect(resolution.issues).toEqual([]);
+    expect(resolution.order).toEqual(['analytics', 'vpn-core', 'vpn-reseller']);
+  });
+
+  it('should block missing and out-of-range dependencies and whatever needs them', () => {
+    const resolution = resolveDependencies([
+      node('vpn-core', '1.4.0'),
+      node('vpn-reseller', '1.0.0', ['vpn-core@^2.0.0']),
+      node('vpn-dashboard', '1.0.0', ['vpn-reseller']),
+      node('game-keys', '1.0.0', ['key-vault', 'telemetry?']),
+    ]);
+
+    expect(resolution.order).toEqual(['vpn-core']);
+    expect(resolution.blocked).toEqual(['vpn-reseller', 'vpn-dashboard', 'game-keys']);
+    expect(resolution.issues.map(issue => [issue.pluginId, issue.code])).toEqual([
+      ['vpn-reseller', 'VERSION_MISMATCH'],
+      ['game-keys', 'MISSING_DEPENDENCY'],
+      ['vpn-dashboard', 'DEPENDENCY_UNRESOLVED'],
+    ]);
+    expect(resolution.issues[0]?.message).toBe(
+      'vpn-reseller requires vpn-core ^2.0.0, found v1.4.0'
+    );
+  });
+
+  it('should detect cycles and check the platform version of store items', () => {
+    const resolution = resolveDependencies(
+      [
+        node('a', '1.0.0', ['b']),
+        node('b', '1.0.0', ['c']),
+        node('c', '1.0.0', ['a']),
+        nodeFromStoreItem({
+          id: 'next-gen',
+          version: '1.0.0',
+          compatibility: {
+            minPlatformVersion: '1.2.0',
+            supportedDevices: ['mobile'],
+            requiredFeatures: [],
+            dependencies: [],
+          },
+        }),
+      ],
+      '1.0.0'
+    );
+
+    expect(resolution.cycles).toEqual([['a', 'b', 'c']]);
+    expect(resolution.order).toEqual([]);
+    expect(resolution.issues.find(issue => issue.pluginId === 'next-gen')?.code).toBe(
+      'PLATFORM_INCOMPATIBLE'
+    );
+  });
+
+  it('should list transitive dependents with the outermost first', () => {
+    const nodes = [
+      node('core', '1.0.0'),
+      node('reseller', '1.0.0', ['core']),
+      node('dashboard', '1.0.0', ['reseller', 'core']),
+      node('reports', '1.0.0', ['core?']),
+    ];
+
+    expect(findDependents(nodes, 'core')).toEqual(['dashboard', 'reseller']);
+  });
+});
+
+describe('PluginRegistry dependencies', () => {
+  it('should refuse to register a plugin that closes a dependency cycle', async () => {
+    const registry = new PluginRegistry();
+    await registry.register(new TestPlugin(config('alpha', '1.0.0', ['beta'])), {});
+
+    await expect(
+      registry.register(new TestPlugin(config('beta', '1.0.0', ['alpha'])), {})
+    ).rejects.toThrow('dependency cycle');
+    expect(registry.get('beta')).toBeNull();
+  });
+
+  it('should refuse to enable a plugin before its dependencies are enabled', async () => {
+    const registry = new PluginRegistry();
+    await registry.register(new TestPlugin(config('reseller', '1.0.0', ['core@^1.0.0'])), {});
+
+    await expect(registry.setEnabled('reseller', true)).rejects.toThrow('not installed');
+
+    await registry.register(new TestPlugin(config('core', '1.2.0')), {});
+    await expect(registry.setEnabled('reseller', true)).rejects.toThrow('not enabled');
+
+    await registry.setEnabled('core', true);
+    await registry.setEnabled('reseller', true);
+    expect(registry.get('reseller')?.isEnabled).toBe(true);
+  });
+
+  it('should refuse to disable a required plugin unless asked to cascade', async () => {
+    const registry = new PluginRegistry();
+    await registry.register(new TestPlugin(config('core', '1.0.0')), {});
+    await registry.register(new TestPlugin(config('reseller', '1.0.0', ['core'])), {});
+    await registry.register(new TestPlugin(config('dashboard', '1.0.0', ['reseller'])), {});
+    for (const id of ['core', 'reseller', 'dashboard']) {
+      await registry.setEnabled(id, true);
+    }
+
+    await expect(registry.setEnabled('core', false)).rejects.toThrow(
+      'required by dashboard, reseller'
+    );
+    expect(registry.get('core')?.isEnabled).toBe(true);
+
+    await registry.setEnabled('core', false, { cascade: true });
+    expect(registry.getEnabled()).toEqual([]);
+  });
+});
@@ -0,0 +1,322 @@
+// ============================================================================
+// Plugin Hot Reload Tests
+// ============================================================================
+
+import { PluginManager } from '../plugin/PluginManager';
+import { pluginRegistry } from '../plugin/PluginRegistry';
+import { pluginEventEmitter } from '../plugin/PluginEventEmitter';
+import { PluginHotReloader } from '../plugin/PluginHotReloader';
+import type { PluginBuilder, PluginSourceWatcher } from '../plugin/PluginHotReloader';
+import { PluginCLI } from '../../sdk/cli';
+import { PLUGIN_CONFIG } from '../constants';
+import { BasePlugin } from '../../types/plugin';
+import { PluginStatus, ProductCategory } from '../../types';
+import type { DeliveryResult, PluginConfig, PluginContext, ValidationResult } from '../../types';
+
+class DevPlugin extends BasePlugin {
+  config: PluginConfig;
+  initializedWith: Record<string, any> | null = null;
+  cleanedUp = false;
+  hooksRun: string[] = [];
+
+  constructor(
+    version: string,
+    private readonly deliver: () => Promise<DeliveryResult> = async () => ({
+      success: true,
+      deliveryData: { version },
+    }),
+    private readonly failToStart = false
+  ) {
+    super();
+    this.config = {
+      id: 'dev-plugin',
+      name: 'Dev Plugin',
+      version,
+      description: 'Plugin under development',
+      author: 'MTYB Team',
+      category: ProductCategory.DIGITAL_GOODS,
+      status: PluginStatus.INACTIVE,
+      isEnabled: false,
+      metadata: {},
+    };
+  }
+
+  async initialize(config: Record<string, any>): Promise<void> {
+    if (this.failToStart) {
+      throw new Error('Syntax error in index.ts');
+    }
+    this.initializedWith = config;
+  }
+
+  async validateConfig(): Promise<ValidationResult> {
+    return { isValid: true, errors: [] };
+  }
+
+  override async cleanup(): Promise<void> {
+    this.cleanedUp = true;
+  }
+
+  async processOrder(): Promise<DeliveryResult> {
+    return this.deliver();
+  }
+
+  override async onRefundProcessed(): Promise<void> {
+    this.hooksRun.push('refund');
+  }
+
+  override async onSubscriptionRenewed(): Promise<boolean> {
+    this.hooksRun.push('renewal');
+    return true;
+  }
+
+  async validateProduct(): Promise<ValidationResult> {
+    return { isValid: true, errors: [] };
+  }
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+const context = {} as PluginContext;
+
+class FakeWatcher implements PluginSourceWatcher {
+  onChange: ((changedFiles: string[]) => void) | null = null;
+  stopped = false;
+
+  watch(_directory: string, onChange: (changedFiles: string[]) => void): () => void {
+    this.onChange = onChange;
+    return () => {
+      this.stopped = true;
+    };
+  }
+}
+
+describe('PluginManager.hotSwapPlugin', () => {
+  let manager: PluginManager;
+
+  beforeEach(async () => {
+    manager = new PluginManager();
+    await manager.registerPlugin(new DevPlugin('1.0.0'));
+    await pluginRegistry.updateConfig('dev-plugin', { apiKey: 'secret' });
+    await manager.enablePlugin('dev-plugin');
+  });
+
+  afterEach(async () => {
+    await pluginRegistry.cleanup();
+  });
+
+  it('should swap in the new instance with the registered config and enabled state', async () => {
+    const previous = manager.getPlugin('dev-plugin') as DevPlugin;
+    const next = new DevPlugin('1.1.0');
+
+    await manager.hotSwapPlugin(next);
+
+    expect(manager.getPlugin('dev-plugin')).toBe(next);
+    expect(next.initializedWith).toEqual({ apiKey: 'secret' });
+    expect(previous.cleanedUp).toBe(true);
+    expect(pluginRegistry.get('dev-plugin')?.isEnabled).toBe(true);
+    expect((await manager.executePlugin('dev-plugin', context)).deliveryData).toEqual({
+      version: '1.1.0',
+    });
+  });
+
+  it('should drain in-flight executions and hold new ones until the swap is done', async () => {
+    await pluginRegistry.cleanup();
+    const slow = deferred<DeliveryResult>();
+    await manager.registerPlugin(new DevPlugin('1.0.0', () => slow.promise));
+    await manager.enablePlugin('dev-plugin');
+
+    const inFlight = manager.executePlugin('dev-plugin', context);
+    const swap = manager.hotSwapPlugin(new DevPlugin('1.1.0'));
+    const queued = manager.executePlugin('dev-plugin', context);
+    await Promise.resolve();
+
+    expect(manager.getPlugin('dev-plugin')?.config.version).toBe('1.0.0');
+
+    slow.resolve({ success: true, deliveryData: { version: '1.0.0' } });
+    await swap;
+
+    expect((await inFlight).deliveryData).toEqual({ version: '1.0.0' });
+    expect((await queued).deliveryData).toEqual({ version: '1.1.0' });
+  });
+
+  it('should hold refund notifications and renewals until the swap is done', async () => {
+    await pluginRegistry.cleanup();
+    const slow = deferred<DeliveryResult>();
+    const previous = new DevPlugin('1.0.0', () => slow.promise);
+    await manager.registerPlugin(previous);
+    await manager.enablePlugin('dev-plugin');
+
+    const inFlight = manager.executePlugin('dev-plugin', context);
+    const next = new DevPlugin('1.1.0');
+    const swap = manager.hotSwapPlugin(next);
+    const refund = manager.notifyRefundProcessed('dev-plugin', context);
+    const renewal = manager.extendSubscription('dev-plugin', context);
+    await Promise.resolve();
+
+    slow.resolve({ success: true, deliveryData: { version: '1.0.0' } });
+    await Promise.all([inFlight, swap, refund]);
+
+    expect(await renewal).toBe(true);
+    expect(previous.hooksRun).toEqual([]);
+    expect(next.hooksRun).toEqual(['refund', 'renewal']);
+  });
+
+  it('should keep the running instance when the new one fails to start', async () => {
+    const previous = manager.getPlugin('dev-plugin') as DevPlugin;
+
+    await expect(manager.hotSwapPlugin(new DevPlugin('1.1.0', undefined, true))).rejects.toThrow(
+      'Syntax error'
+    );
+
+    expect(manager.getPlugin('dev-plugin')).toBe(previous);
+    expect(previous.cleanedUp).toBe(false);
+  });
+});
+
+describe('PluginHotReloader', () => {
+  let watcher: FakeWatcher;
+  let builds: DevPlugin[];
+  let builder: jest.Mocked<PluginBuilder>;
+  let reloader: PluginHotReloader;
+  let events: string[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    watcher = new FakeWatcher();
+    builds = [];
+    builder = {
+      build: jest.fn(async () => {
+        const plugin = new DevPlugin(`1.0.${builds.length}`);
+        builds.push(plugin);
+        return plugin;
+      }),
+    };
+    reloader = new PluginHotReloader(watcher, builder, new PluginManager(), 100);
+    events = [];
+    for (const event of [
+      'system:plugin:hot-reload:start',
+      'system:plugin:hot-reload:success',
+      'system:plugin:hot-reload:error',
+    ]) {
+      pluginEventEmitter.on(event, () => {
+        events.push(event.split(':').pop() as string);
+      });
+    }
+  });
+
+  afterEach(async () => {
+    reloader.unwatchAll();
+    pluginEventEmitter.removeAllListeners();
+    await pluginRegistry.cleanup();
+    jest.useRealTimers();
+  });
+
+  it('should load the plugin, then rebuild it once per burst of changes', async () => {
+    const loaded = await reloader.reload('/plugins/dev');
+    expect(loaded).toMatchObject({ success: true, pluginId: 'dev-plugin', version: '1.0.0' });
+    expect(pluginRegistry.get('dev-plugin')?.isEnabled).toBe(true);
+
+    reloader.watch('/plugins/dev');
+    watcher.onChange?.(['src/index.ts']);
+    watcher.onChange?.(['src/api.ts']);
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(builder.build).toHaveBeenCalledTimes(2);
+    expect(pluginRegistry.get('dev-plugin')?.plugin.config.version).toBe('1.0.1');
+    expect(builds[0]?.cleanedUp).toBe(true);
+    expect(events).toEqual(['start', 'success', 'start', 'success']);
+  });
+
+  it('should report a broken build and keep serving the last good instance', async () => {
+    await reloader.reload('/plugins/dev');
+    reloader.watch('/plugins/dev');
+    builder.build.mockRejectedValueOnce(new Error('Unexpected token'));
+
+    watcher.onChange?.(['src/index.ts']);
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(events).toEqual(['start', 'success', 'start', 'error']);
+    expect(pluginRegistry.get('dev-plugin')?.plugin).toBe(builds[0]);
+
+    reloader.unwatch('/plugins/dev');
+    expect(watcher.stopped).toBe(true);
+  });
+});
+
+describe('PluginCLI dev', () => {
+  afterEach(async () => {
+    await PluginCLI.executeCommand({
+      command: 'dev',
+      args: ['/plugins/dev'],
+      flags: { stop: true },
+      cwd: '/',
+    });
+    await pluginRegistry.cleanup();
+  });
+
+  it('should load the plugin and start watching its directory', async () => {
+    const watcher = new FakeWatcher();
+    PluginCLI.setDevEnvironment(watcher, { build: async () => new DevPlugin('2.0.0') });
+
+    const result = await PluginCLI.executeCommand({
+      command: 'dev',
+      args: ['/plugins/dev'],
+      flags: {},
+      cwd: '/',
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      message: expect.stringContaining('Loaded dev-plugin v2.0.0'),
+      data: { pluginId: 'dev-plugin', version: '2.0.0', hotReload: true },
+    });
+    expect(watcher.onChange).not.toBeNull();
+  });
+
+  it('should report every rebuild through the CLI output', async () => {
+    jest.useFakeTimers();
+    const watcher = new FakeWatcher();
+    const versions = ['2.0.0', '2.1.0'];
+    PluginCLI.setDevEnvironment(watcher, {
+      build: async () => {
+        const version = versions.shift();
+        if (!version) {
+          throw new Error('Unexpected token');
+        }
+        return new DevPlugin(version);
+      },
+    });
+    const onOutput = jest.fn();
+
+    try {
+      await PluginCLI.executeCommand({
+        command: 'dev',
+        args: ['/plugins/dev'],
+        flags: {},
+        cwd: '/',
+        onOutput,
+      });
+
+      watcher.onChange?.(['src/index.ts']);
+      await jest.advanceTimersByTimeAsync(PLUGIN_CONFIG.HOT_RELOAD_DEBOUNCE);
+      watcher.onChange?.(['src/index.ts']);
+      await jest.advanceTimersByTimeAsync(PLUGIN_CONFIG.HOT_RELOAD_DEBOUNCE);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(onOutput.mock.calls.map(([output]) => output)).toEqual([
+      expect.objectContaining({
+        success: true,
+        message: expect.stringContaining('Reloaded dev-plugin v2.1.0'),
+      }),
+      expect.objectContaining({ success: false, errors: ['Unexpected token'] }),
+    ]);
+  });
+});
@@ -36,6 +36,8 @@ export const PAYMENT_CONFIG = {
   },
   SUPPORTED_CURRENCIES: ['USD', 'EUR', 'MYR', 'SGD'],
   DEFAULT_CURRENCY: 'USD',
+  // Orders are charged and settled in this currency whatever the display currency
+  SETTLEMENT_CURRENCY: 'MYR',
 } as const;
 
 // ============================================================================
@@ -48,6 +50,20 @@ export const PLUGIN_CONFIG = {
   PLUGIN_TIMEOUT: 30000,
   MAX_RETRY_ATTEMPTS: 3,
   SANDBOX_ENABLED: true,
+  HOT_RELOAD_DEBOUNCE: 300, // Quiet period after a source change before rebuilding
+} as const;
+
+// Defaults for plugins whose config has no sandbox grants
+export const SANDBOX_LIMITS = {
+  MEMORY_MB: 64,
+  STORAGE_QUOTA_MB: 5,
+  MAX_STORAGE_KEYS: 500,
+  MAX_KEY_SIZE: 256, // bytes
+  MAX_VALUE_SIZE: 512 * 1024, // bytes
+  NETWORK_REQUESTS_PER_MINUTE: 60,
+  MAX_REQUEST_SIZE: 1024 * 1024, // bytes
+  MAX_RESPONSE_SIZE: 5 * 1024 * 1024, // bytes
+  EXECUTION_TIMEOUT: PLUGIN_CONFIG.PLUGIN_TIMEOUT, // ms
 } as const;
 
 // ============================================================================
@@ -59,6 +75,30 @@ export const ORDER_CONFIG = {
   MAX_ITEMS_PER_ORDER: 10,
   AUTO_CANCEL_TIMEOUT: 1800000, // 30 minutes
   DELIVERY_TIMEOUT: 300000, // 5 minutes
+  DELIVERY_SWEEP_INTERVAL: 30000, // 30 seconds
+  RESERVATION_SWEEP_INTERVAL: 60000, // 1 minute
+} as const;
+
+// ============================================================================
+// Subscription Configuration
+// ============================================================================
+
+export const SUBSCRIPTION_CONFIG = {
+  GRACE_PERIOD: 259200000, // 3 days
+  // Delay before each retry of a failed renewal payment
+  RETRY_DELAYS: [86400000, 172800000], // 1 day, then 2 days
+  RENEWAL_SWEEP_INTERVAL: 3600000, // 1 hour
+} as const;
+
+// ============================================================================
+// Abandoned Cart Configuration
+// ============================================================================
+
+export const CART_RECOVERY_CONFIG = {
+  IDLE_THRESHOLD: 10800000, // 3 hours
+  // Orders completed this long after a reminder count as recovered by it
+  ATTRIBUTION_WINDOW: 604800000, // 7 days
+  SWEEP_INTERVAL: 900000, // 15 minutes
 } as const;
 
 // ============================================================================
@@ -107,6 +147,19 @@ export const EVENTS = {
   ORDER_CANCELLED: 'order:cancelled',
   ORDER_FAILED: 'order:failed',
 
+  // Delivery Events
+  DELIVERY_QUEUED: 'delivery:queued',
+  DELIVERY_COMPLETED: 'delivery:completed',
+  DELIVERY_FAILED: 'delivery:failed',
+  DELIVERY_DEAD_LETTERED: 'delivery:dead_lettered',
+
+  // Subscription Events
+  SUBSCRIPTION_CREATED: 'subscription:created',
+  SUBSCRIPTION_RENEWED: 'subscription:renewed',
+  SUBSCRIPTION_PAYMENT_FAILED: 'subscription:payment_failed',
+  SUBSCRIPTION_CANCELLED: 'subscription:cancelled',
+  SUBSCRIPTION_EXPIRED: 'subscription:expired',
+
   // Payment Events
   PAYMENT_INITIATED: 'payment:initiated',
   PAYMENT_COMPLETED: 'payment:completed',
@@ -114,6 +167,8 @@ export const EVENTS = {
   PAYMENT_CANCELLED: 'payment:cancelled',
   PAYMENT_REFUNDED: 'payment:refunded',
   WEBHOOK_PROCESSED: 'payment:webhook_processed',
+  WEBHOOK_FAILED: 'payment:webhook_failed',
+  WEBHOOK_DEAD_LETTERED: 'payment:webhook_dead_lettered',
   SYNC_STARTED: 'payment:sync_started',
   SYNC_STOPPED: 'payment:sync_stopped',
   SYNC_COMPLETED: 'payment:sync_completed',
@@ -124,6 +179,12 @@ export const EVENTS = {
   CART_ITEM_REMOVED: 'cart:item_removed',
   CART_ITEM_UPDATED: 'cart:item_updated',
   CART_CLEARED: 'cart:cleared',
+  CART_REMINDER_SENT: 'cart:reminder_sent',
+  CART_RECOVERED: 'cart:recovered',
+
+  // Wishlist Events
+  WISHLIST_UPDATED: 'wishlist:updated',
+  WISHLIST_ALERT: 'wishlist:alert',
 
   // Plugin Events
   PLUGIN_REGISTERED: 'plugin:registered',
@@ -151,6 +212,8 @@ export const PAYMENT_EVENTS = {
   PAYMENT_CANCELLED: EVENTS.PAYMENT_CANCELLED,
   PAYMENT_REFUNDED: EVENTS.PAYMENT_REFUNDED,
   WEBHOOK_PROCESSED: EVENTS.WEBHOOK_PROCESSED,
+  WEBHOOK_FAILED: EVENTS.WEBHOOK_FAILED,
+  WEBHOOK_DEAD_LETTERED: EVENTS.WEBHOOK_DEAD_LETTERED,
   SYNC_STARTED: EVENTS.SYNC_STARTED,
   SYNC_STOPPED: EVENTS.SYNC_STOPPED,
   SYNC_COMPLETED: EVENTS.SYNC_COMPLETED,
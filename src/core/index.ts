@@ -7,6 +7,7 @@ export * from './utils/Logger';
 export * from './utils/EventEmitter';
 export * from './utils/Validator';
 export * from './utils/ConfigManager';
+export * from './utils/Idempotency';
 
 // Configuration
 export * from './config/environment';
@@ -17,6 +18,9 @@ export * from './constants';
 // Plugin System (Phase 2 Implementation)
 export * from './plugin/PluginManager';
 export * from './plugin/PluginRegistry';
+export * from './plugin/DependencyResolver';
+export * from './plugin/PluginContract';
+export * from './plugin/PluginHotReloader';
 export * from './plugin/PluginEventEmitter';
 export * from './plugin/PluginDevTools';
 
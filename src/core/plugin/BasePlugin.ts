@@ -0,0 +1,45 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Delivery Plugin Base
+// ============================================================================
+
+import type { DeliveryPlugin } from '../../types/plugin';
+import type {
+  DeliveryResult,
+  PluginContext,
+  PluginHealthStatus,
+  ValidationResult,
+} from '../../types';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Base class of the delivery plugins (VpnPlugin and the plugin templates).
+ * PluginManager.registerPlugin wraps them in a DeliveryPluginAdapter, which
+ * maps them onto the plugin contract.
+ */
+export abstract class BasePlugin implements DeliveryPlugin {
+  protected readonly logger: Logger;
+  protected isInitialized = false;
+
+  constructor() {
+    this.logger = new Logger(this.constructor.name);
+  }
+
+  abstract getId(): string;
+  abstract getName(): string;
+  abstract getVersion(): string;
+  abstract getDescription(): string;
+  abstract getAuthor(): string;
+
+  abstract initialize(config?: Record<string, any>): Promise<void>;
+
+  /** Checks an order before delivery; invalid orders are failed without a retry */
+  abstract validateOrder(context: PluginContext): Promise<ValidationResult>;
+
+  abstract processDelivery(context: PluginContext): Promise<DeliveryResult>;
+
+  abstract getHealthStatus(): Promise<PluginHealthStatus>;
+
+  async cleanup(): Promise<void> {
+    this.isInitialized = false;
+  }
+}
@@ -0,0 +1,473 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Plugin Dependency Resolver
+// ============================================================================
+
+import { type PluginConfig } from '../../types';
+import { type PluginStoreItem } from '../../types/pluginStore';
+import { APP_CONFIG } from '../constants';
+
+// ============================================================================
+// Dependency Types
+// ============================================================================
+
+export interface DependencySpec {
+  pluginId: string;
+  /** Semver range, e.g. `^1.2.0` or `>=1.0.0 <2.0.0`; empty accepts any version */
+  range: string;
+  /** Optional dependencies only affect load order, they never block a plugin */
+  optional: boolean;
+}
+
+export interface DependencyNode {
+  id: string;
+  version: string;
+  dependencies: DependencySpec[];
+  minPlatformVersion?: string;
+  maxPlatformVersion?: string;
+}
+
+export type DependencyIssueCode =
+  | 'MISSING_DEPENDENCY'
+  | 'VERSION_MISMATCH'
+  | 'PLATFORM_INCOMPATIBLE'
+  | 'DEPENDENCY_CYCLE'
+  | 'DEPENDENCY_UNRESOLVED';
+
+export interface DependencyIssue {
+  pluginId: string;
+  code: DependencyIssueCode;
+  /** The dependency (or, for cycles, the next plugin in the cycle) the issue is about */
+  dependencyId?: string;
+  required?: string;
+  found?: string;
+  message: string;
+}
+
+export interface DependencyResolution {
+  /** Plugins that can load, each after the plugins it depends on */
+  order: string[];
+  /** Plugins that cannot load */
+  blocked: string[];
+  issues: DependencyIssue[];
+  cycles: string[][];
+}
+
+// ============================================================================
+// Semantic Versioning
+// ============================================================================
+
+interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const SEMVER_PATTERN =
+  /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function parseVersion(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release sorts after any of its prereleases
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const left = a[i];
+    const right = b[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    if (left === right) continue;
+
+    const leftNumeric = /^\d+$/.test(left);
+    const rightNumeric = /^\d+$/.test(right);
+    if (leftNumeric && rightNumeric) return Number(left) - Number(right);
+    if (leftNumeric) return -1;
+    if (rightNumeric) return 1;
+    return left < right ? -1 : 1;
+  }
+  return 0;
+}
+
+/** Negative when `a` is older than `b`, positive when newer; invalid versions throw */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    throw new Error(`Invalid version: ${!left ? a : b}`);
+  }
+
+  return (
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    comparePrerelease(left.prerelease, right.prerelease)
+  );
+}
+
+function satisfiesComparator(version: string, comparator: string): boolean {
+  if (comparator === '*' || comparator === 'x') {
+    return true;
+  }
+
+  const match = /^(\^|~|>=|<=|>|<|=)?\s*(.+)$/.exec(comparator);
+  const operator = match?.[1] ?? '=';
+  const bound = match?.[2] ?? comparator;
+  const parsedBound = parseVersion(bound);
+  if (!parsedBound) {
+    return false;
+  }
+
+  const order = compareVersions(version, bound);
+  switch (operator) {
+    case '>=':
+      return order >= 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '<':
+      return order < 0;
+    case '~':
+      return (
+        order >= 0 &&
+        compareVersions(version, `${parsedBound.major}.${parsedBound.minor + 1}.0-0`) < 0
+      );
+    case '^': {
+      // ^1.2.3 stays below 2.0.0, ^0.2.3 below 0.3.0 and ^0.0.3 below 0.0.4
+      const { major, minor, patch } = parsedBound;
+      const ceiling =
+        major > 0 ? `${major + 1}.0.0-0` : minor > 0 ? `0.${minor + 1}.0-0` : `0.0.${patch + 1}-0`;
+      return order >= 0 && compareVersions(version, ceiling) < 0;
+    }
+    default:
+      return order === 0;
+  }
+}
+
+/**
+ * Checks a version against a range of space-separated comparators (`>=1.0.0 <2.0.0`),
+ * caret and tilde ranges, and `||` alternatives. An empty range matches anything;
+ * a malformed one matches nothing.
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  if (!parseVersion(version)) {
+    return false;
+  }
+
+  return range.split('||').some(alternative => {
+    const comparators = alternative
+      .trim()
+      .replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1')
+      .split(/\s+/)
+      .filter(Boolean);
+    return comparators.every(comparator => satisfiesComparator(version, comparator));
+  });
+}
+
+/** Range for a `minVersion`/`maxVersion` pair, both ends inclusive */
+export function rangeFromBounds(minVersion?: string, maxVersion?: string): string {
+  return [minVersion && `>=${minVersion}`, maxVersion && `<=${maxVersion}`]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// ============================================================================
+// Dependency Nodes
+// ============================================================================
+
+/**
+ * Reads `PluginConfig.dependencies` entries of the form `plugin-id`,
+ * `plugin-id@^1.2.0` or `plugin-id@>=1.0.0 <2.0.0`; a trailing `?` marks the
+ * dependency optional. Platform bounds come from `minPlatformVersion` and
+ * `maxPlatformVersion` in the config metadata.
+ */
+export function nodeFromPluginConfig(config: PluginConfig): DependencyNode {
+  const dependencies = (config.dependencies ?? []).map(entry => {
+    const trimmed = entry.trim();
+    const optional = trimmed.endsWith('?');
+    const spec = optional ? trimmed.slice(0, -1) : trimmed;
+    const separator = spec.indexOf('@');
+
+    return {
+      pluginId: (separator === -1 ? spec : spec.slice(0, separator)).trim(),
+      range: separator === -1 ? '' : spec.slice(separator + 1).trim(),
+      optional,
+    };
+  });
+
+  const { minPlatformVersion, maxPlatformVersion } = config.metadata ?? {};
+  return {
+    id: config.id,
+    version: config.version,
+    dependencies,
+    ...(typeof minPlatformVersion === 'string' && { minPlatformVersion }),
+    ...(typeof maxPlatformVersion === 'string' && { maxPlatformVersion }),
+  };
+}
+
+export function nodeFromStoreItem(
+  item: Pick<PluginStoreItem, 'id' | 'version' | 'compatibility'>
+): DependencyNode {
+  const { compatibility } = item;
+  return {
+    id: item.id,
+    version: item.version,
+    dependencies: compatibility.dependencies.map(dependency => ({
+      pluginId: dependency.pluginId,
+      range: rangeFromBounds(dependency.minVersion, dependency.maxVersion),
+      optional: dependency.optional,
+    })),
+    minPlatformVersion: compatibility.minPlatformVersion,
+    ...(compatibility.maxPlatformVersion && {
+      maxPlatformVersion: compatibility.maxPlatformVersion,
+    }),
+  };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+function checkPlatform(node: DependencyNode, platformVersion: string): DependencyIssue | null {
+  const range = rangeFromBounds(node.minPlatformVersion, node.maxPlatformVersion);
+  if (!range || satisfiesRange(platformVersion, range)) {
+    return null;
+  }
+
+  return {
+    pluginId: node.id,
+    code: 'PLATFORM_INCOMPATIBLE',
+    required: range,
+    found: platformVersion,
+    message: `${node.id} v${node.version} requires platform ${range}, running ${platformVersion}`,
+  };
+}
+
+function checkDependency(
+  node: DependencyNode,
+  dependency: DependencySpec,
+  target: DependencyNode | undefined
+): DependencyIssue | null {
+  if (!target) {
+    return {
+      pluginId: node.id,
+      code: 'MISSING_DEPENDENCY',
+      dependencyId: dependency.pluginId,
+      ...(dependency.range && { required: dependency.range }),
+      message: `${node.id} requires ${dependency.pluginId}${
+        dependency.range ? ` ${dependency.range}` : ''
+      }, which is not installed`,
+    };
+  }
+
+  if (dependency.range && !satisfiesRange(target.version, dependency.range)) {
+    return {
+      pluginId: node.id,
+      code: 'VERSION_MISMATCH',
+      dependencyId: dependency.pluginId,
+      required: dependency.range,
+      found: target.version,
+      message: `${node.id} requires ${dependency.pluginId} ${dependency.range}, found v${target.version}`,
+    };
+  }
+
+  return null;
+}
+
+/** Strongly connected components of two or more plugins, or one that depends on itself */
+function findCycles(ids: string[], edges: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string): void => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of edges.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id) ?? 0, lowLink.get(next) ?? 0));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id) ?? 0, index.get(next) ?? 0));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member === undefined) break;
+        onStack.delete(member);
+        component.unshift(member);
+      } while (member !== id);
+
+      if (component.length > 1 || (edges.get(id) ?? []).includes(id)) {
+        cycles.push(component);
+      }
+    }
+  };
+
+  for (const id of ids) {
+    if (!index.has(id)) {
+      visit(id);
+    }
+  }
+  return cycles;
+}
+
+/**
+ * Builds the dependency graph of `nodes` and works out which plugins can load
+ * and in what order. A plugin is blocked when its platform range excludes
+ * `platformVersion`, a required dependency is missing or outside its range,
+ * it sits on a dependency cycle, or a required dependency is itself blocked.
+ * Optional dependencies that are present and in range are loaded first; the
+ * rest are ignored.
+ */
+export function resolveDependencies(
+  nodes: DependencyNode[],
+  platformVersion: string = APP_CONFIG.VERSION
+): DependencyResolution {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const issues: DependencyIssue[] = [];
+  const blocked = new Set<string>();
+  const edges = new Map<string, string[]>();
+  const required = new Map<string, string[]>();
+
+  for (const node of nodes) {
+    const platformIssue = checkPlatform(node, platformVersion);
+    if (platformIssue) {
+      issues.push(platformIssue);
+      blocked.add(node.id);
+    }
+
+    edges.set(node.id, []);
+    required.set(node.id, []);
+    for (const dependency of node.dependencies) {
+      const issue = checkDependency(node, dependency, byId.get(dependency.pluginId));
+      if (issue) {
+        if (!dependency.optional) {
+          issues.push(issue);
+          blocked.add(node.id);
+        }
+        continue;
+      }
+
+      edges.get(node.id)?.push(dependency.pluginId);
+      if (!dependency.optional) {
+        required.get(node.id)?.push(dependency.pluginId);
+      }
+    }
+  }
+
+  const cycles = findCycles(
+    nodes.map(node => node.id),
+    edges
+  );
+  for (const cycle of cycles) {
+    cycle.forEach((id, position) => {
+      const next = cycle[(position + 1) % cycle.length] ?? id;
+      issues.push({
+        pluginId: id,
+        code: 'DEPENDENCY_CYCLE',
+        dependencyId: next,
+        message: `${id} is part of a dependency cycle: ${[...cycle, cycle[0]].join(' → ')}`,
+      });
+      blocked.add(id);
+    });
+  }
+
+  // Anything that needs a blocked plugin cannot load either
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const node of nodes) {
+      if (blocked.has(node.id)) continue;
+
+      const blocker = (required.get(node.id) ?? []).find(id => blocked.has(id));
+      if (blocker) {
+        issues.push({
+          pluginId: node.id,
+          code: 'DEPENDENCY_UNRESOLVED',
+          dependencyId: blocker,
+          message: `${node.id} requires ${blocker}, which cannot be loaded`,
+        });
+        blocked.add(node.id);
+        changed = true;
+      }
+    }
+  }
+
+  // Kahn's algorithm over the loadable plugins, keeping the input order for ties
+  const loadable = nodes.filter(node => !blocked.has(node.id)).map(node => node.id);
+  const pending = new Map(
+    loadable.map(id => [id, (edges.get(id) ?? []).filter(next => !blocked.has(next)).length])
+  );
+  const order: string[] = [];
+  while (order.length < loadable.length) {
+    const ready = loadable.find(id => pending.get(id) === 0);
+    if (ready === undefined) break;
+
+    order.push(ready);
+    pending.delete(ready);
+    for (const id of pending.keys()) {
+      if ((edges.get(id) ?? []).includes(ready)) {
+        pending.set(id, (pending.get(id) ?? 0) - 1);
+      }
+    }
+  }
+
+  return {
+    order,
+    blocked: nodes.filter(node => blocked.has(node.id)).map(node => node.id),
+    issues,
+    cycles,
+  };
+}
+
+/**
+ * Plugins that require `pluginId`, directly or through other plugins, ordered
+ * so each one comes before the plugins it depends on; disabling them in this
+ * order never leaves a plugin running without a required dependency.
+ */
+export function findDependents(nodes: DependencyNode[], pluginId: string): string[] {
+  const seen = new Set<string>([pluginId]);
+  const dependents: string[] = [];
+  const visit = (id: string): void => {
+    for (const node of nodes) {
+      if (
+        !seen.has(node.id) &&
+        node.dependencies.some(dependency => !dependency.optional && dependency.pluginId === id)
+      ) {
+        seen.add(node.id);
+        visit(node.id);
+        dependents.push(node.id);
+      }
+    }
+  };
+
+  visit(pluginId);
+  return dependents;
+}
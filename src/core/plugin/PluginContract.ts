@@ -0,0 +1,175 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Plugin Contract Adapters
+// ============================================================================
+
+import {
+  BasePlugin,
+  PLUGIN_CONTRACT_VERSION,
+  type DeliveryPlugin,
+  type RegistrablePlugin,
+} from '../../types/plugin';
+import {
+  PluginStatus,
+  ProductCategory,
+  type DeliveryResult,
+  type PluginConfig,
+  type PluginContext,
+  type PluginHealthStatus,
+  type ValidationResult,
+} from '../../types';
+import type { Plugin as SdkPlugin, PluginContext as SdkPluginContext } from '../../sdk/types';
+import { parseVersion } from './DependencyResolver';
+
+const VALID: ValidationResult = { isValid: true, errors: [] };
+
+/** Plugins are compatible with every contract version of the same major */
+export function isContractCompatible(contractVersion: string | undefined): boolean {
+  const platform = parseVersion(PLUGIN_CONTRACT_VERSION);
+  const plugin = contractVersion ? parseVersion(contractVersion) : null;
+  return !!platform && !!plugin && platform.major === plugin.major;
+}
+
+export function isDeliveryPlugin(plugin: RegistrablePlugin): plugin is DeliveryPlugin {
+  return typeof (plugin as Partial<DeliveryPlugin>).processDelivery === 'function';
+}
+
+/** Wraps delivery plugins in an adapter; contract plugins are returned as they are */
+export function toPluginContract(
+  plugin: RegistrablePlugin,
+  overrides: Partial<PluginConfig> = {}
+): BasePlugin {
+  return isDeliveryPlugin(plugin) ? new DeliveryPluginAdapter(plugin, overrides) : plugin;
+}
+
+/**
+ * Runs a delivery plugin (processDelivery/validateOrder/getHealthStatus) as a
+ * contract plugin. Orders that fail validateOrder are failed without a retry.
+ */
+export class DeliveryPluginAdapter extends BasePlugin {
+  config: PluginConfig;
+
+  constructor(
+    readonly delivery: DeliveryPlugin,
+    overrides: Partial<PluginConfig> = {}
+  ) {
+    super();
+    this.config = {
+      id: delivery.getId(),
+      name: delivery.getName(),
+      version: delivery.getVersion(),
+      description: delivery.getDescription(),
+      author: delivery.getAuthor(),
+      category: ProductCategory.DIGITAL_GOODS,
+      status: PluginStatus.INACTIVE,
+      isEnabled: false,
+      dependencies: [],
+      ...overrides,
+      metadata: { ...overrides.metadata, adapter: 'delivery' },
+    };
+  }
+
+  async initialize(config: Record<string, any>): Promise<void> {
+    await this.delivery.initialize(config);
+  }
+
+  async validateConfig(config: Record<string, any>): Promise<ValidationResult> {
+    return this.delivery.validateConfig ? this.delivery.validateConfig(config) : VALID;
+  }
+
+  override async cleanup(): Promise<void> {
+    await this.delivery.cleanup?.();
+  }
+
+  async processOrder(context: PluginContext): Promise<DeliveryResult> {
+    const validation = await this.delivery.validateOrder(context);
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error:
+          validation.errors.map(error => error.message).join('; ') || 'Order validation failed',
+        retryable: false,
+      };
+    }
+
+    return this.delivery.processDelivery(context);
+  }
+
+  // Delivery plugins check the product as part of validateOrder
+  async validateProduct(): Promise<ValidationResult> {
+    return VALID;
+  }
+
+  override async healthCheck(): Promise<PluginHealthStatus> {
+    return this.delivery.getHealthStatus();
+  }
+
+  override async onRefundProcessed(context: PluginContext): Promise<void> {
+    await this.delivery.onRefundProcessed?.(context);
+  }
+
+  override async onSubscriptionRenewed(context: PluginContext): Promise<boolean> {
+    return this.delivery.onSubscriptionRenewed
+      ? this.delivery.onSubscriptionRenewed(context)
+      : false;
+  }
+}
+
+/**
+ * Lets a client-side SDK plugin take part in the plugin lifecycle: enabling
+ * configures and activates it, disabling deactivates it. SDK plugins have no
+ * delivery step, so orders routed to them fail without a retry.
+ */
+export class SdkPluginAdapter extends BasePlugin {
+  config: PluginConfig;
+
+  constructor(
+    readonly sdkPlugin: SdkPlugin,
+    context: SdkPluginContext,
+    overrides: Partial<PluginConfig> = {}
+  ) {
+    super();
+    this.config = {
+      id: context.id,
+      name: context.name,
+      version: context.version,
+      description: context.name,
+      author: context.author,
+      category: ProductCategory.OTHER,
+      status: PluginStatus.INACTIVE,
+      isEnabled: false,
+      dependencies: [],
+      ...overrides,
+      metadata: {
+        ...overrides.metadata,
+        adapter: 'sdk',
+        permissions: context.config.permissions,
+        features: context.config.features,
+      },
+    };
+  }
+
+  async initialize(config: Record<string, any>): Promise<void> {
+    await this.sdkPlugin.onConfigure?.(config);
+    await this.sdkPlugin.onActivate?.();
+  }
+
+  async validateConfig(): Promise<ValidationResult> {
+    return VALID;
+  }
+
+  override async cleanup(): Promise<void> {
+    await this.sdkPlugin.onDeactivate?.();
+  }
+
+  async processOrder(): Promise<DeliveryResult> {
+    return {
+      success: false,
+      error: `${this.config.id} is an SDK plugin and does not deliver orders`,
+      retryable: false,
+    };
+  }
+
+  async validateProduct(): Promise<ValidationResult> {
+    return VALID;
+  }
+}
@@ -246,6 +246,7 @@ export class MockDataGenerator {
         createdAt: new Date(),
         updatedAt: new Date(),
         metadata: {},
+        statusHistory: [],
       },
       product: {
         id: 'test-product-001',
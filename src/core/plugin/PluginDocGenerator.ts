@@ -303,6 +303,9 @@ Called when an order is cancelled.
 
 #### \`onRefundProcessed(context: PluginContext): Promise<void>\`
 Called when a refund is processed.
+
+#### \`onSubscriptionRenewed(context: PluginContext): Promise<boolean>\`
+Called when a subscription renewal is paid. Extend the account by \`context.config.days\` and resolve true once done.
 `;
   }
 
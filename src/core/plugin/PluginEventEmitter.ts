@@ -38,6 +38,27 @@ export interface PluginEventMap {
   'system:plugin:reload': { pluginId: string; timestamp: Date };
   'system:plugin:cleanup': { pluginId: string; timestamp: Date };
   'system:health:check:all': { timestamp: Date };
+
+  // Development Hot Reload Events
+  'system:plugin:hot-reload:start': {
+    directory: string;
+    pluginId?: string;
+    changedFiles: string[];
+    timestamp: Date;
+  };
+  'system:plugin:hot-reload:success': {
+    directory: string;
+    pluginId: string;
+    version: string;
+    durationMs: number;
+    timestamp: Date;
+  };
+  'system:plugin:hot-reload:error': {
+    directory: string;
+    pluginId?: string;
+    error: Error;
+    timestamp: Date;
+  };
 }
 
 // ============================================================================
@@ -174,6 +195,43 @@ export class PluginEventEmitter extends EventEmitter {
     this.emitPluginEvent('system:health:check:all', { timestamp: new Date() });
   }
 
+  // ============================================================================
+  // Development Hot Reload Event Helpers
+  // ============================================================================
+
+  emitHotReloadStart(directory: string, changedFiles: string[], pluginId?: string): void {
+    void this.emitPluginEvent('system:plugin:hot-reload:start', {
+      directory,
+      changedFiles,
+      ...(pluginId && { pluginId }),
+      timestamp: new Date(),
+    });
+  }
+
+  emitHotReloadSuccess(
+    directory: string,
+    pluginId: string,
+    version: string,
+    durationMs: number
+  ): void {
+    void this.emitPluginEvent('system:plugin:hot-reload:success', {
+      directory,
+      pluginId,
+      version,
+      durationMs,
+      timestamp: new Date(),
+    });
+  }
+
+  emitHotReloadError(directory: string, error: Error, pluginId?: string): void {
+    void this.emitPluginEvent('system:plugin:hot-reload:error', {
+      directory,
+      error,
+      ...(pluginId && { pluginId }),
+      timestamp: new Date(),
+    });
+  }
+
   // ============================================================================
   // Event History Management
   // ============================================================================
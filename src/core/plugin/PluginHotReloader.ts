@@ -0,0 +1,202 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Plugin Hot Reload (Development)
+// ============================================================================
+
+import type { RegistrablePlugin } from '../../types/plugin';
+import type { PluginConfig } from '../../types';
+import { Logger } from '../utils/Logger';
+import { PLUGIN_CONFIG } from '../constants';
+import { PluginManager, pluginManager } from './PluginManager';
+import { pluginEventEmitter } from './PluginEventEmitter';
+import { toPluginContract } from './PluginContract';
+
+/** Reports changes under a plugin's source directory */
+export interface PluginSourceWatcher {
+  /** Calls `onChange` with the changed paths; the returned function stops watching */
+  watch(directory: string, onChange: (changedFiles: string[]) => void): () => void;
+}
+
+/** Rebuilds a plugin from its source directory into a fresh instance */
+export interface PluginBuilder {
+  build(directory: string): Promise<RegistrablePlugin>;
+}
+
+export interface HotReloadResult {
+  success: boolean;
+  directory: string;
+  pluginId?: string;
+  version?: string;
+  durationMs: number;
+  error?: string;
+}
+
+interface WatchSession {
+  directory: string;
+  overrides?: Partial<PluginConfig>;
+  onReload?: (result: HotReloadResult) => void;
+  pluginId?: string;
+  stopWatching: () => void;
+  timer: ReturnType<typeof setTimeout> | null;
+  pendingFiles: Set<string>;
+  running: boolean;
+}
+
+/**
+ * Development mode: watches plugin source directories, rebuilds a plugin when
+ * its sources change and hot swaps the new instance in through PluginManager.
+ * Changes are debounced, and changes made during a rebuild trigger one more
+ * rebuild once it finishes. Progress is published as hot-reload events.
+ */
+export class PluginHotReloader {
+  private logger: Logger;
+  private sessions = new Map<string, WatchSession>();
+
+  constructor(
+    private readonly watcher: PluginSourceWatcher,
+    private readonly builder: PluginBuilder,
+    private readonly manager: PluginManager = pluginManager,
+    private readonly debounceMs: number = PLUGIN_CONFIG.HOT_RELOAD_DEBOUNCE
+  ) {
+    this.logger = new Logger('PluginHotReloader');
+  }
+
+  /**
+   * Watches a plugin directory until the returned function (or `unwatch`) is
+   * called; `onReload` gets the result of every rebuild the watcher triggers
+   */
+  watch(
+    directory: string,
+    overrides?: Partial<PluginConfig>,
+    onReload?: (result: HotReloadResult) => void
+  ): () => void {
+    if (this.sessions.has(directory)) {
+      return () => this.unwatch(directory);
+    }
+
+    const session: WatchSession = {
+      directory,
+      ...(overrides && { overrides }),
+      ...(onReload && { onReload }),
+      stopWatching: () => undefined,
+      timer: null,
+      pendingFiles: new Set(),
+      running: false,
+    };
+    session.stopWatching = this.watcher.watch(directory, changedFiles =>
+      this.schedule(session, changedFiles)
+    );
+    this.sessions.set(directory, session);
+
+    this.logger.info(`Watching ${directory} for plugin changes`);
+    return () => this.unwatch(directory);
+  }
+
+  unwatch(directory: string): void {
+    const session = this.sessions.get(directory);
+    if (!session) {
+      return;
+    }
+
+    if (session.timer) {
+      clearTimeout(session.timer);
+    }
+    session.stopWatching();
+    this.sessions.delete(directory);
+    this.logger.info(`Stopped watching ${directory}`);
+  }
+
+  unwatchAll(): void {
+    for (const directory of [...this.sessions.keys()]) {
+      this.unwatch(directory);
+    }
+  }
+
+  getWatchedDirectories(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  /**
+   * Builds the plugin in `directory` and swaps it in, or registers and enables
+   * it if it is not registered yet. Failures are reported, not thrown, so a
+   * broken save does not stop the watcher.
+   */
+  async reload(
+    directory: string,
+    changedFiles: string[] = [],
+    overrides?: Partial<PluginConfig>
+  ): Promise<HotReloadResult> {
+    const startedAt = Date.now();
+    const session = this.sessions.get(directory);
+    pluginEventEmitter.emitHotReloadStart(directory, changedFiles, session?.pluginId);
+
+    let pluginId = session?.pluginId;
+    try {
+      const plugin = toPluginContract(await this.builder.build(directory), overrides);
+      pluginId = plugin.config.id;
+      if (session) {
+        session.pluginId = pluginId;
+      }
+
+      if (this.manager.getPlugin(pluginId)) {
+        await this.manager.hotSwapPlugin(plugin);
+      } else {
+        await this.manager.registerPlugin(plugin);
+        await this.manager.enablePlugin(pluginId);
+      }
+
+      const durationMs = Date.now() - startedAt;
+      pluginEventEmitter.emitHotReloadSuccess(
+        directory,
+        pluginId,
+        plugin.config.version,
+        durationMs
+      );
+      this.logger.info(`Reloaded ${pluginId} v${plugin.config.version} in ${durationMs}ms`);
+
+      return { success: true, directory, pluginId, version: plugin.config.version, durationMs };
+    } catch (error) {
+      const reloadError = error instanceof Error ? error : new Error(String(error));
+      pluginEventEmitter.emitHotReloadError(directory, reloadError, pluginId);
+      this.logger.error(`Hot reload of ${directory} failed:`, reloadError);
+
+      return {
+        success: false,
+        directory,
+        ...(pluginId && { pluginId }),
+        durationMs: Date.now() - startedAt,
+        error: reloadError.message,
+      };
+    }
+  }
+
+  private schedule(session: WatchSession, changedFiles: string[]): void {
+    changedFiles.forEach(file => session.pendingFiles.add(file));
+
+    if (session.timer) {
+      clearTimeout(session.timer);
+    }
+    session.timer = setTimeout(() => {
+      session.timer = null;
+      void this.flush(session);
+    }, this.debounceMs);
+  }
+
+  private async flush(session: WatchSession): Promise<void> {
+    // A running rebuild picks the pending changes up when it finishes
+    if (session.running) {
+      return;
+    }
+
+    session.running = true;
+    try {
+      while (session.pendingFiles.size > 0 && this.sessions.get(session.directory) === session) {
+        const changedFiles = [...session.pendingFiles];
+        session.pendingFiles.clear();
+        const result = await this.reload(session.directory, changedFiles, session.overrides);
+        session.onReload?.(result);
+      }
+    } finally {
+      session.running = false;
+    }
+  }
+}
@@ -2,12 +2,20 @@
 // MTYB Virtual Goods Platform - Plugin Manager
 // ============================================================================
 
-import { BasePlugin, type IPluginManager } from '../../types/plugin';
-import { type PluginContext, type DeliveryResult, type PluginHealthStatus } from '../../types';
+import { BasePlugin, type IPluginManager, type RegistrablePlugin } from '../../types/plugin';
+import {
+  type PluginConfig,
+  type PluginContext,
+  type DeliveryResult,
+  type PluginHealthStatus,
+} from '../../types';
 import { Logger } from '../utils/Logger';
-import { pluginRegistry } from './PluginRegistry';
+import { pluginRegistry, type DisableOptions } from './PluginRegistry';
+import { nodeFromPluginConfig, type DependencyResolution } from './DependencyResolver';
 import { pluginEventEmitter } from './PluginEventEmitter';
+import { toPluginContract } from './PluginContract';
 import { PLUGIN_CONFIG } from '../constants';
+import { pluginSandbox, type PluginSandbox } from '../../security/PluginSandbox';
 
 // ============================================================================
 // Plugin Manager Implementation
@@ -17,8 +25,12 @@ export class PluginManager implements IPluginManager {
   private logger: Logger;
   private healthCheckInterval: number | null = null;
   private isInitialized = false;
+  // Executions still running per plugin, drained before a hot swap
+  private inFlight = new Map<string, Set<Promise<unknown>>>();
+  // Pending hot swaps; new executions of the plugin wait for them
+  private swaps = new Map<string, Promise<void>>();
 
-  constructor() {
+  constructor(private readonly sandbox: PluginSandbox = pluginSandbox) {
     this.logger = new Logger('PluginManager');
   }
 
@@ -41,6 +53,9 @@ export class PluginManager implements IPluginManager {
       // Setup event listeners
       this.setupEventListeners();
 
+      // Enable plugins registered before the manager started
+      await this.initializePlugins();
+
       this.isInitialized = true;
       this.logger.info('Plugin Manager initialized successfully');
     } catch (error) {
@@ -69,16 +84,76 @@ export class PluginManager implements IPluginManager {
     this.logger.info('Plugin Manager shutdown completed');
   }
 
+  /**
+   * Enables the given plugins (by default, every registered plugin whose config
+   * has `isEnabled` set) together with the plugins they require, dependencies
+   * first. Plugins with unresolved dependencies are skipped and reported in the
+   * returned resolution rather than failing the rest.
+   */
+  async initializePlugins(pluginIds?: string[]): Promise<DependencyResolution> {
+    const resolution = pluginRegistry.resolveDependencies();
+    const requested = new Set(
+      pluginIds ??
+        pluginRegistry
+          .getAll()
+          .filter(entry => entry.plugin.config.isEnabled)
+          .map(entry => entry.plugin.config.id)
+    );
+
+    // Pull in required dependencies; walking the load order backwards sees dependents first
+    for (const pluginId of [...resolution.order].reverse()) {
+      if (!requested.has(pluginId)) continue;
+
+      const entry = pluginRegistry.get(pluginId);
+      if (!entry) continue;
+      for (const dependency of nodeFromPluginConfig(entry.plugin.config).dependencies) {
+        if (!dependency.optional) {
+          requested.add(dependency.pluginId);
+        }
+      }
+    }
+
+    for (const issue of resolution.issues.filter(issue => requested.has(issue.pluginId))) {
+      this.logger.warn(`Plugin ${issue.pluginId} not loaded: ${issue.message}`);
+    }
+
+    for (const pluginId of resolution.order.filter(id => requested.has(id))) {
+      try {
+        await pluginRegistry.setEnabled(pluginId, true);
+      } catch (error) {
+        this.logger.error(`Failed to initialize plugin ${pluginId}:`, error as Error);
+      }
+    }
+
+    return resolution;
+  }
+
+  /** Load order and unresolved dependencies of the registered plugins */
+  getDependencyReport(): DependencyResolution {
+    return pluginRegistry.resolveDependencies();
+  }
+
   // ============================================================================
   // Plugin Registration
   // ============================================================================
 
-  async registerPlugin(plugin: BasePlugin): Promise<void> {
+  /**
+   * Registers a contract plugin, or a delivery plugin through its adapter.
+   * `overrides` fill in config a delivery plugin cannot describe (category,
+   * dependencies, ...).
+   */
+  async registerPlugin(
+    registrable: RegistrablePlugin,
+    overrides?: Partial<PluginConfig>
+  ): Promise<void> {
+    const plugin = toPluginContract(registrable, overrides);
     try {
       this.logger.info(`Registering plugin: ${plugin.config.id}`);
 
       // Register with default configuration
       await pluginRegistry.register(plugin, plugin.config.metadata || {});
+      // Grants are taken now, so a plugin cannot widen them by editing its config later
+      this.sandbox.registerPlugin(plugin.config);
 
       this.logger.info(`Plugin registered successfully: ${plugin.config.id}`);
     } catch (error) {
@@ -91,6 +166,7 @@ export class PluginManager implements IPluginManager {
     try {
       this.logger.info(`Unregistering plugin: ${pluginId}`);
       await pluginRegistry.unregister(pluginId);
+      this.sandbox.unregisterPlugin(pluginId);
       this.logger.info(`Plugin unregistered successfully: ${pluginId}`);
     } catch (error) {
       this.logger.error(`Failed to unregister plugin ${pluginId}:`, error as Error);
@@ -119,6 +195,11 @@ export class PluginManager implements IPluginManager {
     return pluginRegistry.getByCategory(category).map(entry => entry.plugin);
   }
 
+  /** Enabled plugins that would have to be disabled along with `pluginId` */
+  getEnabledDependents(pluginId: string): string[] {
+    return pluginRegistry.getEnabledDependents(pluginId);
+  }
+
   // ============================================================================
   // Plugin Lifecycle Management
   // ============================================================================
@@ -134,10 +215,15 @@ export class PluginManager implements IPluginManager {
     }
   }
 
-  async disablePlugin(pluginId: string): Promise<void> {
+  /**
+   * Refuses while enabled plugins still require this one, unless `cascade` is
+   * set; the caller should confirm the cascade with the user, listing
+   * `getEnabledDependents` first.
+   */
+  async disablePlugin(pluginId: string, options: DisableOptions = {}): Promise<void> {
     try {
       this.logger.info(`Disabling plugin: ${pluginId}`);
-      await pluginRegistry.setEnabled(pluginId, false);
+      await pluginRegistry.setEnabled(pluginId, false, options);
       this.logger.info(`Plugin disabled successfully: ${pluginId}`);
     } catch (error) {
       this.logger.error(`Failed to disable plugin ${pluginId}:`, error as Error);
@@ -155,15 +241,19 @@ export class PluginManager implements IPluginManager {
       }
 
       const wasEnabled = entry.isEnabled;
+      const dependents = pluginRegistry.getEnabledDependents(pluginId);
 
-      // Disable if enabled
+      // Disable if enabled, taking its dependents down with it
       if (wasEnabled) {
-        await this.disablePlugin(pluginId);
+        await this.disablePlugin(pluginId, { cascade: true });
       }
 
-      // Re-enable if it was enabled
+      // Re-enable if it was enabled, then the dependents in load order
       if (wasEnabled) {
         await this.enablePlugin(pluginId);
+        for (const dependentId of [...dependents].reverse()) {
+          await this.enablePlugin(dependentId);
+        }
       }
 
       pluginEventEmitter.emitSystemReload(pluginId);
@@ -174,11 +264,56 @@ export class PluginManager implements IPluginManager {
     }
   }
 
+  /**
+   * Swaps a rebuilt instance in for a registered plugin (development hot
+   * reload). New executions wait for the swap, and executions already running
+   * finish on the old instance first. The registry entry, and so the plugin's
+   * config, enabled state and id-keyed storage, carries over; if the new
+   * instance fails to initialize the old one stays in place.
+   */
+  async hotSwapPlugin(
+    registrable: RegistrablePlugin,
+    overrides?: Partial<PluginConfig>
+  ): Promise<void> {
+    const plugin = toPluginContract(registrable, overrides);
+    const pluginId = plugin.config.id;
+    if (this.swaps.has(pluginId)) {
+      throw new Error(`Plugin '${pluginId}' is already being swapped`);
+    }
+
+    const swap = (async () => {
+      const running = this.inFlight.get(pluginId);
+      if (running && running.size > 0) {
+        this.logger.info(`Draining ${running.size} in-flight execution(s) of ${pluginId}`);
+        await Promise.allSettled(running);
+      }
+      await pluginRegistry.replacePlugin(pluginId, plugin);
+      this.sandbox.registerPlugin(plugin.config);
+    })();
+    this.swaps.set(
+      pluginId,
+      swap.catch(() => undefined)
+    );
+
+    try {
+      await swap;
+      pluginEventEmitter.emitSystemReload(pluginId);
+      this.logger.info(`Plugin hot swapped: ${pluginId} v${plugin.config.version}`);
+    } catch (error) {
+      this.logger.error(`Failed to hot swap plugin ${pluginId}:`, error as Error);
+      throw error;
+    } finally {
+      this.swaps.delete(pluginId);
+    }
+  }
+
   // ============================================================================
   // Plugin Execution
   // ============================================================================
 
   async executePlugin(pluginId: string, context: PluginContext): Promise<DeliveryResult> {
+    await this.swaps.get(pluginId);
+
     const entry = pluginRegistry.get(pluginId);
     if (!entry) {
       throw new Error(`Plugin '${pluginId}' is not registered`);
@@ -192,10 +327,9 @@ export class PluginManager implements IPluginManager {
     pluginEventEmitter.emitExecutionStart(pluginId, context);
 
     try {
-      // Execute plugin with timeout
-      const result = await this.executeWithTimeout(
-        () => entry.plugin.processOrder(context),
-        PLUGIN_CONFIG.PLUGIN_TIMEOUT
+      // The sandbox enforces the plugin's policy, including its time limit
+      const result = await this.sandbox.run(entry.plugin.config, context, sandboxed =>
+        this.track(pluginId, entry.plugin.processOrder(sandboxed))
       );
 
       // Emit success event
@@ -212,6 +346,53 @@ export class PluginManager implements IPluginManager {
     }
   }
 
+  /**
+   * Lets the plugin that delivered an item react to its refund (e.g. revoke
+   * the license). Failures are logged, never thrown back to the refund flow.
+   */
+  async notifyRefundProcessed(pluginId: string, context: PluginContext): Promise<void> {
+    await this.swaps.get(pluginId);
+
+    const entry = pluginRegistry.get(pluginId);
+    if (!entry || !entry.isEnabled || !entry.plugin.onRefundProcessed) {
+      this.logger.debug(`No refund handler for plugin: ${pluginId}`);
+      return;
+    }
+
+    try {
+      await this.sandbox.run(entry.plugin.config, context, sandboxed =>
+        this.track(pluginId, entry.plugin.onRefundProcessed!(sandboxed))
+      );
+      this.logger.debug(`Refund notification delivered: ${pluginId}`);
+    } catch (error) {
+      this.logger.error(`Refund notification failed: ${pluginId}`, error as Error);
+    }
+  }
+
+  /**
+   * Asks the plugin to extend the account behind a renewed subscription.
+   * Resolves false when the plugin is unavailable, has no renewal handler or
+   * fails, so the caller can try again later.
+   */
+  async extendSubscription(pluginId: string, context: PluginContext): Promise<boolean> {
+    await this.swaps.get(pluginId);
+
+    const entry = pluginRegistry.get(pluginId);
+    if (!entry || !entry.isEnabled || !entry.plugin.onSubscriptionRenewed) {
+      this.logger.warn(`No subscription renewal handler for plugin: ${pluginId}`);
+      return false;
+    }
+
+    try {
+      return await this.sandbox.run(entry.plugin.config, context, sandboxed =>
+        this.track(pluginId, entry.plugin.onSubscriptionRenewed!(sandboxed))
+      );
+    } catch (error) {
+      this.logger.error(`Subscription renewal failed: ${pluginId}`, error as Error);
+      return false;
+    }
+  }
+
   // ============================================================================
   // Plugin Health Monitoring
   // ============================================================================
@@ -225,11 +406,10 @@ export class PluginManager implements IPluginManager {
     try {
       let status: PluginHealthStatus;
 
-      // Check if plugin has health check method
+      // Health checks are plugin code too, so they run under the sandbox's time limit
       if (entry.plugin.healthCheck) {
-        status = await this.executeWithTimeout(
-          () => entry.plugin.healthCheck!(),
-          5000 // 5 second timeout for health checks
+        status = await this.sandbox.check(entry.plugin.config, () =>
+          this.track(pluginId, entry.plugin.healthCheck!())
         );
       } else {
         // Default healthy status if no health check method
@@ -317,22 +497,26 @@ export class PluginManager implements IPluginManager {
   // Utility Methods
   // ============================================================================
 
-  private async executeWithTimeout<T>(operation: () => Promise<T>, timeoutMs: number): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error(`Operation timed out after ${timeoutMs}ms`));
-      }, timeoutMs);
-
-      operation()
-        .then(result => {
-          clearTimeout(timeout);
-          resolve(result);
-        })
-        .catch(error => {
-          clearTimeout(timeout);
-          reject(error);
-        });
-    });
+  /**
+   * Counts a plugin's code as running until its own promise settles, which
+   * for code the sandbox timed out can be well after the execution failed
+   */
+  private async track<T>(pluginId: string, execution: Promise<T>): Promise<T> {
+    let running = this.inFlight.get(pluginId);
+    if (!running) {
+      running = new Set();
+      this.inFlight.set(pluginId, running);
+    }
+    running.add(execution);
+
+    try {
+      return await execution;
+    } finally {
+      running.delete(execution);
+      if (running.size === 0 && this.inFlight.get(pluginId) === running) {
+        this.inFlight.delete(pluginId);
+      }
+    }
   }
 
   private startHealthCheckInterval(): void {
@@ -2,11 +2,30 @@
 // MTYB Virtual Goods Platform - Plugin Registry
 // ============================================================================
 
-import { BasePlugin, type IPluginRegistry, type PluginRegistryEntry } from '../../types/plugin';
+import {
+  BasePlugin,
+  PLUGIN_CONTRACT_VERSION,
+  type IPluginRegistry,
+  type PluginRegistryEntry,
+} from '../../types/plugin';
 import { type PluginHealthStatus } from '../../types';
 import { Logger } from '../utils/Logger';
 import { Validator } from '../utils/Validator';
 import { pluginEventEmitter } from './PluginEventEmitter';
+import {
+  findDependents,
+  nodeFromPluginConfig,
+  resolveDependencies,
+  type DependencyIssue,
+  type DependencyNode,
+  type DependencyResolution,
+} from './DependencyResolver';
+import { isContractCompatible } from './PluginContract';
+
+export interface DisableOptions {
+  /** Disable the enabled plugins that require this one first, instead of refusing */
+  cascade?: boolean;
+}
 
 // ============================================================================
 // Plugin Registry Implementation
@@ -41,6 +60,20 @@ export class PluginRegistry implements IPluginRegistry {
         throw new Error(`Plugin with ID '${plugin.config.id}' is already registered`);
       }
 
+      // Missing dependencies may still be registered later; a wrong platform or a cycle won't go away
+      const resolution = resolveDependencies([
+        ...this.dependencyNodes(),
+        nodeFromPluginConfig(plugin.config),
+      ]);
+      const blocking = resolution.issues.filter(
+        issue =>
+          issue.pluginId === plugin.config.id &&
+          (issue.code === 'PLATFORM_INCOMPATIBLE' || issue.code === 'DEPENDENCY_CYCLE')
+      );
+      if (blocking.length > 0) {
+        throw new Error(blocking.map(issue => issue.message).join('; '));
+      }
+
       // Create registry entry
       const entry: PluginRegistryEntry = {
         plugin,
@@ -65,6 +98,64 @@ export class PluginRegistry implements IPluginRegistry {
     }
   }
 
+  /**
+   * Swaps a new instance in behind a registered plugin, keeping its entry
+   * (config, enabled state, health, registration time). An enabled plugin's
+   * new instance is initialized before the old one is cleaned up, so an
+   * instance that fails to start leaves the old one running.
+   */
+  async replacePlugin(pluginId: string, plugin: BasePlugin): Promise<void> {
+    const entry = this.plugins.get(pluginId);
+    if (!entry) {
+      throw new Error(`Plugin '${pluginId}' is not registered`);
+    }
+
+    if (plugin.config.id !== pluginId) {
+      throw new Error(`Replacement for plugin '${pluginId}' has ID '${plugin.config.id}'`);
+    }
+
+    await this.validatePlugin(plugin);
+
+    // An enabled plugin must still have everything it needs; a disabled one only a sane graph
+    const resolution = resolveDependencies([
+      ...this.dependencyNodes().filter(node => node.id !== pluginId),
+      nodeFromPluginConfig(plugin.config),
+    ]);
+    const blocking = resolution.issues.filter(
+      issue =>
+        issue.pluginId === pluginId &&
+        (entry.isEnabled ||
+          issue.code === 'PLATFORM_INCOMPATIBLE' ||
+          issue.code === 'DEPENDENCY_CYCLE')
+    );
+    if (blocking.length > 0) {
+      throw new Error(blocking.map(issue => issue.message).join('; '));
+    }
+
+    const previous = entry.plugin;
+    plugin.config.isEnabled = previous.config.isEnabled;
+    plugin.config.status = previous.config.status;
+
+    if (entry.isEnabled) {
+      await plugin.initialize(entry.config);
+    }
+
+    entry.plugin = plugin;
+    entry.lastUpdated = new Date();
+
+    if (entry.isEnabled) {
+      try {
+        await previous.cleanup();
+      } catch (error) {
+        this.logger.error(`Error cleaning up replaced plugin ${pluginId}:`, error as Error);
+      }
+    }
+
+    this.logger.info(
+      `Plugin replaced: ${pluginId} v${previous.config.version} -> v${plugin.config.version}`
+    );
+  }
+
   async unregister(pluginId: string): Promise<void> {
     try {
       const entry = this.plugins.get(pluginId);
@@ -153,7 +244,11 @@ export class PluginRegistry implements IPluginRegistry {
   // Plugin State Management
   // ============================================================================
 
-  async setEnabled(pluginId: string, enabled: boolean): Promise<void> {
+  async setEnabled(
+    pluginId: string,
+    enabled: boolean,
+    options: DisableOptions = {}
+  ): Promise<void> {
     try {
       const entry = this.plugins.get(pluginId);
       if (!entry) {
@@ -166,6 +261,13 @@ export class PluginRegistry implements IPluginRegistry {
       }
 
       if (enabled) {
+        const issues = this.getDependencyIssues(pluginId);
+        if (issues.length > 0) {
+          throw new Error(
+            `Cannot enable ${pluginId}: ${issues.map(issue => issue.message).join('; ')}`
+          );
+        }
+
         // Initialize plugin
         await entry.plugin.initialize(entry.config);
         entry.isEnabled = true;
@@ -173,6 +275,17 @@ export class PluginRegistry implements IPluginRegistry {
         pluginEventEmitter.emitPluginInitialized(pluginId);
         this.logger.info(`Plugin enabled: ${pluginId}`);
       } else {
+        const dependents = this.getEnabledDependents(pluginId);
+        if (dependents.length > 0 && !options.cascade) {
+          throw new Error(
+            `Cannot disable ${pluginId}: required by ${dependents.join(', ')}. ` +
+              'Disable those plugins first or disable with cascade.'
+          );
+        }
+        for (const dependentId of dependents) {
+          await this.setEnabled(dependentId, false);
+        }
+
         // Cleanup plugin
         await entry.plugin.cleanup();
         entry.isEnabled = false;
@@ -191,6 +304,56 @@ export class PluginRegistry implements IPluginRegistry {
     }
   }
 
+  // ============================================================================
+  // Plugin Dependencies
+  // ============================================================================
+
+  /** Load order and unresolved dependencies across every registered plugin */
+  resolveDependencies(): DependencyResolution {
+    return resolveDependencies(this.dependencyNodes());
+  }
+
+  /**
+   * Why a plugin cannot be enabled right now: its own dependency issues, plus
+   * required dependencies that are registered but not enabled yet.
+   */
+  getDependencyIssues(pluginId: string): DependencyIssue[] {
+    const entry = this.plugins.get(pluginId);
+    if (!entry) {
+      return [];
+    }
+
+    const issues = this.resolveDependencies().issues.filter(issue => issue.pluginId === pluginId);
+    for (const dependency of nodeFromPluginConfig(entry.plugin.config).dependencies) {
+      const target = this.plugins.get(dependency.pluginId);
+      if (
+        !dependency.optional &&
+        target &&
+        !target.isEnabled &&
+        !issues.some(issue => issue.dependencyId === dependency.pluginId)
+      ) {
+        issues.push({
+          pluginId,
+          code: 'DEPENDENCY_UNRESOLVED',
+          dependencyId: dependency.pluginId,
+          message: `${pluginId} requires ${dependency.pluginId}, which is not enabled`,
+        });
+      }
+    }
+    return issues;
+  }
+
+  /** Enabled plugins that require `pluginId`, in the order they should be disabled */
+  getEnabledDependents(pluginId: string): string[] {
+    return findDependents(this.dependencyNodes(), pluginId).filter(
+      id => this.plugins.get(id)?.isEnabled
+    );
+  }
+
+  private dependencyNodes(): DependencyNode[] {
+    return this.getAll().map(entry => nodeFromPluginConfig(entry.plugin.config));
+  }
+
   // ============================================================================
   // Plugin Health Management
   // ============================================================================
@@ -231,6 +394,14 @@ export class PluginRegistry implements IPluginRegistry {
 
     const config = plugin.config;
 
+    // Validate contract version
+    if (!isContractCompatible(plugin.contractVersion)) {
+      throw new Error(
+        `Plugin ${config.id} implements plugin contract v${plugin.contractVersion ?? 'unknown'}, ` +
+          `this platform requires v${PLUGIN_CONTRACT_VERSION}`
+      );
+    }
+
     // Validate required fields
     const requiredFields = ['id', 'name', 'version', 'description', 'author', 'category'];
     for (const field of requiredFields) {
@@ -252,7 +423,13 @@ export class PluginRegistry implements IPluginRegistry {
     }
 
     // Validate required methods exist
-    const requiredMethods = ['initialize', 'validateConfig', 'processOrder', 'validateProduct'];
+    const requiredMethods = [
+      'initialize',
+      'validateConfig',
+      'cleanup',
+      'processOrder',
+      'validateProduct',
+    ];
     for (const method of requiredMethods) {
       if (typeof plugin[method as keyof BasePlugin] !== 'function') {
         throw new Error(`Plugin must implement required method: ${method}`);
@@ -0,0 +1,175 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Idempotency Utility
+// ============================================================================
+
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface IdempotentRequestOptions {
+  /** Client-chosen key; repeats within the TTL replay the first response */
+  idempotencyKey?: string;
+}
+
+export interface IdempotencyRecord<T = unknown> {
+  key: string;
+  fingerprint: string;
+  response: T;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | null>;
+  set(record: IdempotencyRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class IdempotencyConflictError extends Error {
+  readonly code = 'IDEMPOTENCY_KEY_CONFLICT';
+
+  constructor(public readonly key: string) {
+    super(`Idempotency key ${key} was already used with a different request`);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private records: Map<string, IdempotencyRecord> = new Map();
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+
+    return record;
+  }
+
+  async set(record: IdempotencyRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  purgeExpired(): number {
+    const now = Date.now();
+    let purged = 0;
+
+    for (const [key, record] of this.records) {
+      if (record.expiresAt.getTime() <= now) {
+        this.records.delete(key);
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+export interface IdempotencyExecuteOptions<T> {
+  /** Responses rejected here are returned but not replayed, so the caller may retry */
+  persistWhen?: (response: T) => boolean;
+}
+
+/**
+ * Runs an operation at most once per key. Concurrent callers with the same key
+ * share the in-flight result; later callers get the stored response until it
+ * expires. Reusing a key with a different payload is rejected.
+ */
+export class IdempotencyGuard {
+  private inFlight: Map<string, { fingerprint: string; promise: Promise<unknown> }> = new Map();
+
+  constructor(
+    private readonly store: IdempotencyStore = new InMemoryIdempotencyStore(),
+    private readonly ttlMs: number = DEFAULT_IDEMPOTENCY_TTL_MS
+  ) {}
+
+  execute<T>(
+    scope: string,
+    key: string,
+    payload: unknown,
+    operation: () => Promise<T>,
+    options: IdempotencyExecuteOptions<T> = {}
+  ): Promise<T> {
+    const storeKey = `${scope}:${key}`;
+    const fingerprint = fingerprintPayload(payload);
+
+    // Checked synchronously so a double tap cannot slip past the store lookup
+    const pending = this.inFlight.get(storeKey);
+    if (pending) {
+      if (pending.fingerprint !== fingerprint) {
+        return Promise.reject(new IdempotencyConflictError(key));
+      }
+      return pending.promise as Promise<T>;
+    }
+
+    const promise = this.run(storeKey, key, fingerprint, operation, options).finally(() => {
+      this.inFlight.delete(storeKey);
+    });
+    this.inFlight.set(storeKey, { fingerprint, promise });
+
+    return promise;
+  }
+
+  private async run<T>(
+    storeKey: string,
+    key: string,
+    fingerprint: string,
+    operation: () => Promise<T>,
+    options: IdempotencyExecuteOptions<T>
+  ): Promise<T> {
+    const existing = await this.store.get(storeKey);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new IdempotencyConflictError(key);
+      }
+      return existing.response as T;
+    }
+
+    const response = await operation();
+
+    if (!options.persistWhen || options.persistWhen(response)) {
+      const now = Date.now();
+      await this.store.set({
+        key: storeKey,
+        fingerprint,
+        response,
+        createdAt: new Date(now),
+        expiresAt: new Date(now + this.ttlMs),
+      });
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Serialises a payload with sorted object keys so that property order does
+ * not make otherwise identical requests look different.
+ */
+export function fingerprintPayload(payload: unknown): string {
+  return JSON.stringify(payload, (_key, value: unknown) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+      );
+    }
+    return value;
+  });
+}
+
+export function createIdempotencyKey(prefix = 'idem'): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substr(2, 10);
+  return `${prefix}_${timestamp}_${random}`;
+}
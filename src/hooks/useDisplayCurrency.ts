@@ -0,0 +1,57 @@
+// ============================================================================
+// Display Currency Hook
+// ============================================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { currencyService } from '../services/currency/CurrencyService';
+import { getMinorUnits } from '../services/currency/Money';
+
+export interface DisplayPrice {
+  currency: string;
+  /** Formatted to the currency's minor units */
+  amount: string;
+}
+
+interface UseDisplayCurrencyReturn {
+  currency: string | null;
+  setCurrency: (currency: string | null) => void;
+  /** Converts a listed price to the display currency; unchanged when none is chosen */
+  toDisplay: (amount: number, listedCurrency: string) => DisplayPrice;
+}
+
+export const useDisplayCurrency = (): UseDisplayCurrencyReturn => {
+  const [currency, setCurrencyState] = useState<string | null>(() =>
+    currencyService.getDisplayCurrency()
+  );
+  // Bumped when fresh rates arrive so converted prices re-render
+  const [, setRatesVersion] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    const unsubscribe = currencyService.onDisplayCurrencyChange(setCurrencyState);
+
+    void currencyService.ensureFreshRates().then(() => {
+      if (active) setRatesVersion(version => version + 1);
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const setCurrency = useCallback((next: string | null) => {
+    currencyService.setDisplayCurrency(next);
+  }, []);
+
+  const toDisplay = (amount: number, listedCurrency: string): DisplayPrice => {
+    const target =
+      currency && currencyService.canConvert(listedCurrency, currency) ? currency : listedCurrency;
+    const converted =
+      target === listedCurrency ? amount : currencyService.convert(amount, listedCurrency, target);
+
+    return { currency: target, amount: converted.toFixed(getMinorUnits(target)) };
+  };
+
+  return { currency, setCurrency, toDisplay };
+};
@@ -3,6 +3,7 @@
 // ============================================================================
 
 import { useState, useEffect } from 'react';
+import { cartService } from '../services/product/CartService';
 
 interface TelegramUser {
   id: number;
@@ -61,6 +62,13 @@ export const useTelegramUser = (): UseTelegramUserReturn => {
 
   const userId = user ? `tg_${user.id}` : 'anonymous_user';
 
+  // Signing in merges the guest cart into the account's server cart
+  useEffect(() => {
+    if (user) {
+      void cartService.attachUser(`tg_${user.id}`);
+    }
+  }, [user]);
+
   return {
     user,
     userId,
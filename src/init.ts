@@ -13,6 +13,7 @@ import {
   retrieveLaunchParams,
   emitEvent,
 } from '@telegram-apps/sdk-react';
+import { startBackgroundJobs } from '@/services/BackgroundJobs';
 
 /**
  * Initializes the application and configures its dependencies.
@@ -60,6 +61,9 @@ export async function init(options: {
     });
   }
 
+  // Start the services' schedulers: retries, sweeps and renewals.
+  startBackgroundJobs();
+
   // Mount all components used in the project.
   mountBackButton.ifAvailable();
   restoreInitData();
@@ -6,6 +6,7 @@ import { LoadingSpinner } from '../components/common/LoadingSpinner';
 import { ErrorBoundary } from '../components/common/ErrorBoundary';
 import { orderService } from '../services/order/OrderService';
 import { paymentService } from '../services/payment/PaymentService';
+import { formatMoney } from '../services/currency/Money';
 import type { Order } from '../types';
 import { OrderStatus, PaymentStatus } from '../types';
 
@@ -15,6 +16,8 @@ export const OrderDetailPage: React.FC = () => {
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [invoiceError, setInvoiceError] = useState<string | null>(null);
+  const [downloadingInvoice, setDownloadingInvoice] = useState(false);
 
   useEffect(() => {
     if (!orderId) {
@@ -46,6 +49,32 @@ export const OrderDetailPage: React.FC = () => {
     }
   };
 
+  const handleDownloadInvoice = async () => {
+    if (!order) return;
+
+    try {
+      setDownloadingInvoice(true);
+      setInvoiceError(null);
+      const invoice = await orderService.getInvoice(order.id);
+
+      if (!invoice) {
+        setInvoiceError('An invoice is issued once the order is completed');
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([invoice.content], { type: invoice.mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = invoice.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setInvoiceError(err instanceof Error ? err.message : 'Failed to download invoice');
+    } finally {
+      setDownloadingInvoice(false);
+    }
+  };
+
   const getStatusColor = (status: OrderStatus) => {
     switch (status) {
       case OrderStatus.COMPLETED:
@@ -55,6 +84,9 @@ export const OrderDetailPage: React.FC = () => {
         return 'var(--error-color, #ef4444)';
       case OrderStatus.PROCESSING:
         return 'var(--info-color, #3b82f6)';
+      case OrderStatus.PARTIALLY_REFUNDED:
+      case OrderStatus.REFUNDED:
+        return 'var(--text-secondary, #6b7280)';
       case OrderStatus.PENDING:
       default:
         return 'var(--warning-color, #f59e0b)';
@@ -71,6 +103,9 @@ export const OrderDetailPage: React.FC = () => {
         return '🚫';
       case OrderStatus.PROCESSING:
         return '⏳';
+      case OrderStatus.PARTIALLY_REFUNDED:
+      case OrderStatus.REFUNDED:
+        return '↩️';
       case OrderStatus.PENDING:
       default:
         return '🔄';
@@ -151,8 +186,17 @@ export const OrderDetailPage: React.FC = () => {
                 <div>
                   <strong>Total Amount:</strong>
                   <br />
-                  {order.currency} {order.totalAmount.toFixed(2)}
+                  {formatMoney(order.totalAmount, order.currency)}
                 </div>
+                {order.taxLines && order.taxLines.length > 0 && (
+                  <div>
+                    <strong>
+                      {order.taxLines.every(line => line.inclusive) ? 'Tax (included):' : 'Tax:'}
+                    </strong>
+                    <br />
+                    {formatMoney(order.taxAmount ?? 0, order.currency)}
+                  </div>
+                )}
               </div>
             </div>
           </Card>
@@ -186,12 +230,12 @@ export const OrderDetailPage: React.FC = () => {
                     </div>
                     <div style={{ textAlign: 'right' }}>
                       <div style={{ fontWeight: 'bold' }}>
-                        {order.currency} {(item.price * item.quantity).toFixed(2)}
+                        {formatMoney(item.price * item.quantity, order.currency)}
                       </div>
                       <div
                         style={{ color: 'var(--text-secondary, #6b7280)', fontSize: '0.875rem' }}
                       >
-                        {order.currency} {item.price.toFixed(2)} each
+                        {formatMoney(item.price, order.currency)} each
                       </div>
                     </div>
                   </div>
@@ -200,6 +244,48 @@ export const OrderDetailPage: React.FC = () => {
             </div>
           </Card>
 
+          {/* Status History */}
+          {order.statusHistory.length > 0 && (
+            <Card style={{ marginBottom: '2rem' }}>
+              <div style={{ padding: '2rem' }}>
+                <h3 style={{ marginTop: 0 }}>Status History</h3>
+                <ol style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                  {[...order.statusHistory].reverse().map(change => (
+                    <li
+                      key={`${change.to}-${change.changedAt.getTime()}`}
+                      style={{
+                        display: 'flex',
+                        gap: '1rem',
+                        padding: '0.75rem 0',
+                        borderLeft: `2px solid ${getStatusColor(change.to)}`,
+                        paddingLeft: '1rem',
+                      }}
+                    >
+                      <span>{getStatusIcon(change.to)}</span>
+                      <div>
+                        <div style={{ fontWeight: 'bold', color: getStatusColor(change.to) }}>
+                          {change.from
+                            ? `${change.from.replace('_', ' ').toUpperCase()} → ${change.to.replace('_', ' ').toUpperCase()}`
+                            : change.to.replace('_', ' ').toUpperCase()}
+                        </div>
+                        <div
+                          style={{ color: 'var(--text-secondary, #6b7280)', fontSize: '0.875rem' }}
+                        >
+                          {change.changedAt.toLocaleString()} · {change.changedBy}
+                        </div>
+                        {change.reason && (
+                          <div style={{ fontSize: '0.875rem', marginTop: '0.25rem' }}>
+                            {change.reason}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </Card>
+          )}
+
           {/* Payment Information */}
           {order.paymentId && (
             <Card style={{ marginBottom: '2rem' }}>
@@ -235,12 +321,28 @@ export const OrderDetailPage: React.FC = () => {
               Continue Shopping
             </Button>
 
+            {(order.invoiceNumber || order.completedAt) && (
+              <Button
+                variant="outline"
+                onClick={() => void handleDownloadInvoice()}
+                loading={downloadingInvoice}
+              >
+                Download Invoice
+              </Button>
+            )}
+
             {order.status === OrderStatus.FAILED && (
               <Button variant="outline" onClick={() => navigate('/cart')}>
                 Try Again
               </Button>
             )}
           </div>
+
+          {invoiceError && (
+            <p style={{ color: 'var(--error-color, #ef4444)', textAlign: 'center' }}>
+              {invoiceError}
+            </p>
+          )}
         </div>
       </div>
     </ErrorBoundary>
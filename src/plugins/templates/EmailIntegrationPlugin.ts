@@ -506,6 +506,19 @@ MTYB Team
     this.logger.info('Account extended', { orderId, accountIndex, days });
     return true;
   }
+
+  // Renewals extend every account delivered for the subscription's first order
+  async onSubscriptionRenewed(context: PluginContext): Promise<boolean> {
+    const orderId = context.subscription?.originOrderId;
+    const days = Number(context.config.days);
+    const accounts = orderId ? this.accountStore.get(orderId) : undefined;
+    if (!orderId || !accounts?.length || !(days > 0)) return false;
+
+    for (let index = 0; index < accounts.length; index++) {
+      if (!(await this.extendAccount(orderId, index, days))) return false;
+    }
+    return true;
+  }
 }
 
 // ============================================================================
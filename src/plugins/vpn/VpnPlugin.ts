@@ -763,6 +763,14 @@ sudo wg-quick up /path/to/config.conf
     return true;
   }
 
+  async onSubscriptionRenewed(context: PluginContext): Promise<boolean> {
+    const accountId = context.subscription?.accountId;
+    const days = Number(context.config.days);
+    if (!accountId || !(days > 0)) return false;
+
+    return this.extendAccount(accountId, days);
+  }
+
   async deactivateAccount(accountId: string): Promise<boolean> {
     const account = this.accounts.get(accountId);
     if (!account) return false;
@@ -3,6 +3,12 @@
 // ============================================================================
 
 import { CLICommand, CLIOptions, CLIResult, PluginManifest, PluginBuildConfig } from './types';
+import {
+  PluginHotReloader,
+  type HotReloadResult,
+  type PluginBuilder,
+  type PluginSourceWatcher,
+} from '../core/plugin/PluginHotReloader';
 
 // CLI Template System
 export class PluginTemplateGenerator {
@@ -976,6 +982,14 @@ Thumbs.db`;
 
 // CLI Command Implementations
 export class PluginCLI {
+  private static hotReloader: PluginHotReloader | null = null;
+
+  /** Sets how `dev` watches and rebuilds plugin sources (file system access is host-specific) */
+  static setDevEnvironment(watcher: PluginSourceWatcher, builder: PluginBuilder): void {
+    this.hotReloader?.unwatchAll();
+    this.hotReloader = new PluginHotReloader(watcher, builder);
+  }
+
   static async executeCommand(options: CLIOptions): Promise<CLIResult> {
     switch (options.command) {
       case 'create':
@@ -1209,31 +1223,69 @@ export class PluginCLI {
   }
 
   private static async devCommand(options: CLIOptions): Promise<CLIResult> {
+    const directory = options.args[0] || options.cwd;
+
+    if (options.flags.stop) {
+      this.hotReloader?.unwatch(directory);
+      return { success: true, message: `Stopped watching ${directory}` };
+    }
+
+    if (!this.hotReloader) {
+      return {
+        success: false,
+        message: 'Hot reload is not configured',
+        errors: [
+          'Run `npm run plugin:dev -- <directory>`, or call PluginCLI.setDevEnvironment(watcher, builder) before running dev',
+        ],
+      };
+    }
+
     try {
-      // Simulate development server
-      console.log('Starting development server...');
-      console.log('Watching for file changes...');
-      console.log('Hot reload enabled');
-      console.log('Server running at http://localhost:3000');
+      // Build and load the plugin once, then rebuild and swap it on every change
+      const initial = await this.hotReloader.reload(directory);
+      if (!initial.success) {
+        return {
+          success: false,
+          message: 'Failed to load plugin',
+          errors: [initial.error || 'Build error'],
+        };
+      }
+
+      this.hotReloader.watch(directory, undefined, reload =>
+        options.onOutput?.(this.reloadOutput(reload))
+      );
 
       return {
         success: true,
-        message: 'Development server started',
+        message: `Loaded ${initial.pluginId} v${initial.version} in ${initial.durationMs}ms, watching ${directory} for changes`,
         data: {
-          port: 3000,
-          url: 'http://localhost:3000',
+          pluginId: initial.pluginId,
+          version: initial.version,
+          directory,
           hotReload: true,
         },
       };
     } catch (error) {
       return {
         success: false,
-        message: 'Failed to start development server',
-        errors: [error instanceof Error ? error.message : 'Server error'],
+        message: 'Failed to start development mode',
+        errors: [error instanceof Error ? error.message : 'Watch error'],
       };
     }
   }
-}
 
-// Export CLI utilities
-export { PluginTemplateGenerator, PluginCLI };
+  private static reloadOutput(reload: HotReloadResult): CLIResult {
+    return reload.success
+      ? {
+          success: true,
+          message: `Reloaded ${reload.pluginId} v${reload.version} in ${reload.durationMs}ms`,
+          data: reload,
+        }
+      : {
+          success: false,
+          message: `Hot reload of ${reload.directory} failed`,
+          errors: [reload.error || 'Build error'],
+          data: reload,
+        };
+  }
+}
@@ -459,6 +459,8 @@ export interface CLIOptions {
   args: string[];
   flags: Record<string, any>;
   cwd: string;
+  /** Receives what long-running commands such as `dev` report after they return */
+  onOutput?: (result: CLIResult) => void;
 }
 
 export interface CLIResult {
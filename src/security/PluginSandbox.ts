@@ -1,643 +1,600 @@
-export interface SandboxOptions {
-  timeout: number;
-  memoryLimit: number; // in MB
-  allowAsync: boolean;
-  allowedAPIs: string[];
-  blockedAPIs: string[];
-  permissions: PluginPermission[];
-  maxRequestSize: number; // in bytes
-  maxNetworkRequests: number;
-  resourceLimits: ResourceLimits;
-}
-
-export interface PluginPermission {
-  type: 'api' | 'network' | 'storage' | 'ui';
-  resource: string;
-  action: string[];
-  conditions?: Record<string, any>;
-}
-
-export interface ResourceLimits {
-  maxExecutionTime: number; // in milliseconds
-  maxMemoryUsage: number; // in bytes
-  maxNetworkCalls: number;
-  maxStorageOperations: number;
-  maxDOMOperations: number;
-}
-
-export interface ExecutionContext {
+// ============================================================================
+// MTYB Plugin Security Sandbox - Execution Runtime
+// ============================================================================
+
+import type {
+  DeliveryResult,
+  PluginConfig,
+  PluginContext,
+  PluginLogger,
+  PluginNetworkAPI,
+  PluginStorageAPI,
+  ValidationResult,
+} from '../types';
+import { BasePlugin } from '../types/plugin';
+import type { PluginPermission } from '../sdk/types';
+import {
+  SandboxViolationError,
+  SecurityContext,
+  createSecurityPolicy,
+  globalSecurityContext,
+  type ResourceMonitor,
+  type RestrictionType,
+  type SecurityPolicy,
+  type SecurityViolation,
+} from './sandbox';
+import {
+  REALM_BOOTSTRAP,
+  createWorkerRealm,
+  type RealmMessage,
+  type SandboxCall,
+  type SandboxHook,
+  type SandboxRealmFactory,
+  type SerializedError,
+  type SerializedResponse,
+} from './SandboxRealm';
+
+export type SandboxFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/** Web Storage subset backing plugin storage */
+export type SandboxStorageArea = Pick<
+  Storage,
+  'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'
+>;
+
+const STORAGE_PREFIX = 'mtyb_sandbox';
+
+// Capabilities handed to one execution; revoked once it settles
+interface ExecutionScope {
   pluginId: string;
-  userId: string;
-  version: string;
-  permissions: PluginPermission[];
-  environment: 'sandbox' | 'restricted' | 'trusted';
-}
-
-export interface ExecutionResult {
-  success: boolean;
-  result?: any;
-  error?: string;
-  executionTime: number;
-  memoryUsed: number;
-  resourceUsage: ResourceUsage;
-  violations: SecurityViolation[];
-}
-
-export interface ResourceUsage {
-  executionTime: number;
-  memoryEstimate: number;
-  networkCalls: number;
-  storageOperations: number;
-  domOperations: number;
+  policy: SecurityPolicy;
+  revoked: boolean;
 }
 
-export interface SecurityViolation {
-  type: 'permission' | 'resource' | 'api' | 'malicious';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  description: string;
-  timestamp: Date;
-  metadata?: Record<string, any>;
-}
-
-class PluginEventEmitter {
-  private listeners: Map<string, Function[]> = new Map();
-
-  on(event: string, listener: Function): void {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, []);
-    }
-    this.listeners.get(event)!.push(listener);
-  }
-
-  emit(event: string, data: any): void {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      eventListeners.forEach(listener => listener(data));
-    }
+/**
+ * The isolation layer every plugin execution goes through. The plugin works
+ * on a copy of the order context, so it cannot change host objects, and is
+ * handed the network and storage as `context.network` and `context.storage`.
+ * Both enforce the plugin's SecurityPolicy and stop working once the
+ * execution settles. Time, storage and request limits are accounted for by
+ * the security context's ResourceMonitor, which records every violation.
+ *
+ * Plugins compiled into the app run in the host realm, where nothing stops
+ * them from using the host's globals. Third-party code runs as a
+ * SandboxedPlugin: its hooks are evaluated in a realm of their own (see
+ * `evaluate`), where the capability context is the only way out and the
+ * realm is terminated when the execution reaches its time limit.
+ */
+export class PluginSandbox {
+  constructor(
+    private readonly securityContext: SecurityContext = globalSecurityContext,
+    private readonly fetchImpl: SandboxFetch = (url, init) => fetch(url, init),
+    private readonly storageArea: SandboxStorageArea | null = typeof localStorage === 'undefined'
+      ? null
+      : localStorage,
+    private readonly realmFactory: SandboxRealmFactory = createWorkerRealm
+  ) {}
+
+  /** (Re)builds the plugin's policy from the grants in its config */
+  registerPlugin(config: PluginConfig): SecurityPolicy {
+    const policy = createSecurityPolicy(config.id, config.sandbox);
+    this.securityContext.registerPlugin(config.id, policy);
+    return policy;
   }
 
-  removeListener(event: string, listener: Function): void {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      const index = eventListeners.indexOf(listener);
-      if (index > -1) {
-        eventListeners.splice(index, 1);
-      }
-    }
+  unregisterPlugin(pluginId: string): void {
+    this.securityContext.unregisterPlugin(pluginId);
   }
-}
-
-export class PluginSandbox extends PluginEventEmitter {
-  private activeSandboxes: Map<string, SandboxInstance> = new Map();
-  private securityAnalyzer: SecurityAnalyzer;
 
-  constructor() {
-    super();
-    this.securityAnalyzer = new SecurityAnalyzer();
+  getViolations(pluginId?: string): SecurityViolation[] {
+    return this.monitor.getViolations(pluginId);
   }
 
   /**
-   * Execute plugin code in secure browser sandbox
+   * Runs `operation` against a sandboxed copy of `context`. Rejects with a
+   * SandboxViolationError when the execution reaches its time limit; the
+   * context's `signal` is aborted with that error, which terminates a
+   * sandboxed plugin's realm. Code in the host realm cannot be stopped, so
+   * the promise `operation` returned is what tells when it has finished.
    */
-  async execute(
-    code: string,
-    context: ExecutionContext,
-    options: Partial<SandboxOptions> = {}
-  ): Promise<ExecutionResult> {
-    const startTime = Date.now();
-    const resourceMonitor = new ResourceMonitor();
-    const violations: SecurityViolation[] = [];
+  async run<T>(
+    config: PluginConfig,
+    context: PluginContext,
+    operation: (context: PluginContext) => Promise<T>
+  ): Promise<T> {
+    const policy = this.policyOf(config);
+    const scope: ExecutionScope = { pluginId: config.id, policy, revoked: false };
 
     try {
-      // Security pre-analysis
-      const preAnalysis = await this.securityAnalyzer.analyzeCode(code);
-      if (preAnalysis.threats.length > 0) {
-        violations.push(
-          ...preAnalysis.threats.map(threat => ({
-            type: 'malicious' as const,
-            severity: threat.severity,
-            description: threat.description,
-            timestamp: new Date(),
-            metadata: { threat: threat.type },
-          }))
-        );
-
-        if (preAnalysis.threats.some(t => t.severity === 'critical')) {
-          throw new Error('Critical security threats detected in plugin code');
-        }
-      }
-
-      // Create secure sandbox
-      const sandboxInstance = this.createSecureSandbox(context, options);
-      const sandboxId = this.generateSandboxId(context);
-
-      this.activeSandboxes.set(sandboxId, sandboxInstance);
-
-      // Start resource monitoring
-      resourceMonitor.start();
-
-      // Execute code with timeout and security restrictions
-      const result = await this.executeInSandbox(sandboxInstance, code, context, options);
-
-      // Stop monitoring and collect stats
-      const resourceUsage = resourceMonitor.stop();
-
-      // Check for resource violations
-      const resourceViolations = this.checkResourceViolations(resourceUsage, options);
-      violations.push(...resourceViolations);
-
-      // Cleanup
-      this.cleanupSandbox(sandboxId);
-
-      return {
-        success: true,
-        result,
-        executionTime: Date.now() - startTime,
-        memoryUsed: resourceUsage.memoryEstimate,
-        resourceUsage,
-        violations,
-      };
-    } catch (error) {
-      const resourceUsage = resourceMonitor.stop();
-      this.cleanupSandbox(this.generateSandboxId(context));
-
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown execution error',
-        executionTime: Date.now() - startTime,
-        memoryUsed: resourceUsage?.memoryEstimate || 0,
-        resourceUsage: resourceUsage || this.getEmptyResourceUsage(),
-        violations,
-      };
+      return await this.limit(scope, signal => operation(this.isolate(context, scope, signal)));
+    } finally {
+      scope.revoked = true;
     }
   }
 
-  /**
-   * Validate plugin permissions
-   */
-  async validatePermissions(
-    requestedPermissions: PluginPermission[],
-    context: ExecutionContext
-  ): Promise<{ valid: boolean; violations: string[] }> {
-    const violations: string[] = [];
-
-    for (const permission of requestedPermissions) {
-      if (!(await this.isPermissionAllowed(permission, context))) {
-        violations.push(`Permission ${permission.type}:${permission.resource} not allowed`);
-      }
-    }
-
-    return {
-      valid: violations.length === 0,
-      violations,
+  /** Runs a call that takes no context, such as a health check, under the same time limit */
+  async check<T>(config: PluginConfig, operation: () => Promise<T>): Promise<T> {
+    const scope: ExecutionScope = {
+      pluginId: config.id,
+      policy: this.policyOf(config),
+      revoked: false,
     };
+    return this.limit(scope, () => operation());
   }
 
-  /**
-   * Create isolated browser-based sandbox
-   */
-  private createSecureSandbox(
-    context: ExecutionContext,
-    options: Partial<SandboxOptions>
-  ): SandboxInstance {
-    const defaultOptions: SandboxOptions = {
-      timeout: 30000, // 30 seconds
-      memoryLimit: 128, // 128 MB
-      allowAsync: true,
-      allowedAPIs: ['console', 'fetch', 'localStorage'],
-      blockedAPIs: ['eval', 'Function', 'document.write'],
-      permissions: context.permissions,
-      maxRequestSize: 1024 * 1024, // 1 MB
-      maxNetworkRequests: 10,
-      resourceLimits: {
-        maxExecutionTime: 10000,
-        maxMemoryUsage: 128 * 1024 * 1024,
-        maxNetworkCalls: 10,
-        maxStorageOperations: 20,
-        maxDOMOperations: 50,
-      },
-    };
-
-    const config = { ...defaultOptions, ...options };
+  private policyOf(config: PluginConfig): SecurityPolicy {
+    return this.securityContext.getPolicy(config.id) ?? this.registerPlugin(config);
+  }
 
-    // Create secure iframe-based sandbox
-    const iframe = document.createElement('iframe');
-    iframe.style.display = 'none';
-    iframe.setAttribute('sandbox', 'allow-scripts');
-    document.body.appendChild(iframe);
+  private async limit<T>(
+    scope: ExecutionScope,
+    operation: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const { pluginId } = scope;
+    const limit = scope.policy.execution.maxExecutionTime;
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
 
-    const sandboxWindow = iframe.contentWindow;
-    if (!sandboxWindow) {
-      throw new Error('Failed to create sandbox environment');
+    try {
+      return await Promise.race([
+        operation(controller.signal),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            timedOut = true;
+            this.monitor.trackExecutionTime(pluginId, Date.now() - startedAt);
+            const violation = this.lastViolation(
+              pluginId,
+              `Plugin ${pluginId} exceeded its ${limit}ms limit`
+            );
+            controller.abort(violation);
+            reject(violation);
+          }, limit);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+      if (!timedOut) {
+        this.monitor.trackExecutionTime(pluginId, Date.now() - startedAt);
+      }
     }
-
-    // Create secure API for the sandbox
-    const secureAPI = this.createSandboxAPI(context, config);
-
-    return {
-      iframe,
-      window: sandboxWindow,
-      api: secureAPI,
-      config,
-    };
   }
 
   /**
-   * Create secure API for plugins
+   * Evaluates a sandboxed plugin's `script` in a new realm and runs its
+   * `hook` there. `context` must be the one `run` hands to its operation:
+   * the realm's capability calls are answered by its `network` and
+   * `storage`, and aborting its `signal` terminates the realm.
    */
-  private createSandboxAPI(
-    context: ExecutionContext,
-    options: SandboxOptions
-  ): Record<string, any> {
-    return {
-      // Safe console implementation
-      console: {
-        log: (...args: any[]) => this.secureLog('log', context, args),
-        warn: (...args: any[]) => this.secureLog('warn', context, args),
-        error: (...args: any[]) => this.secureLog('error', context, args),
-        info: (...args: any[]) => this.secureLog('info', context, args),
-      },
-
-      // Secure HTTP client
-      fetch: this.createSecureFetch(context, options),
+  evaluate(
+    config: PluginConfig,
+    script: string,
+    hook: SandboxHook,
+    context: PluginContext
+  ): Promise<unknown> {
+    const { logger, network, storage, signal, ...data } = context;
+    if (!network || !storage || !signal) {
+      return Promise.reject(new Error(`Plugin ${config.id} can only run through the sandbox`));
+    }
+    if (signal.aborted) {
+      return Promise.reject(signal.reason as Error);
+    }
 
-      // Secure storage API
-      storage: this.createSecureStorage(context, options),
+    return new Promise((resolve, reject) => {
+      const realm = this.realmFactory(`${REALM_BOOTSTRAP}\n${script}`);
+      let settled = false;
+      const settle = (finish: () => void) => {
+        if (!settled) {
+          settled = true;
+          signal.removeEventListener('abort', abort);
+          realm.terminate();
+          finish();
+        }
+      };
+      const abort = () => settle(() => reject(signal.reason as Error));
+      signal.addEventListener('abort', abort);
+
+      realm.onMessage((message: RealmMessage) => {
+        switch (message.type) {
+          case 'call':
+            this.answer(network, storage, message.api, message.args).then(
+              value => !settled && realm.send({ type: 'reply', id: message.id, value }),
+              (error: unknown) =>
+                !settled &&
+                realm.send({ type: 'reply', id: message.id, error: serializeError(error) })
+            );
+            break;
+          case 'log':
+            if (message.level === 'error') {
+              logger.error(message.message, message.error && toError(message.error));
+            } else {
+              logger[message.level](message.message, message.data);
+            }
+            break;
+          case 'done':
+            settle(() => resolve(message.value));
+            break;
+          case 'failed':
+            settle(() => reject(toError(message.error)));
+            break;
+        }
+      });
 
-      // Plugin metadata
-      plugin: {
-        id: context.pluginId,
-        version: context.version,
-        userId: context.userId,
-      },
+      realm.onError(error =>
+        settle(() => reject(new Error(`Plugin ${config.id} failed: ${error.message}`)))
+      );
 
-      // Secure utility functions
-      utils: {
-        hash: (data: string) => this.simpleHash(data),
-        uuid: () => this.generateUUID(),
-        timestamp: () => Date.now(),
-      },
+      realm.send({ type: 'run', hook, context: data });
+    });
+  }
 
-      // Resource monitoring
-      getResourceUsage: () => this.getEmptyResourceUsage(),
-    };
+  private get monitor(): ResourceMonitor {
+    return this.securityContext.getResourceMonitor();
   }
 
-  /**
-   * Execute code in sandbox with monitoring
-   */
-  private async executeInSandbox(
-    sandbox: SandboxInstance,
-    code: string,
-    context: ExecutionContext,
-    options: Partial<SandboxOptions>
-  ): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const timeout = options.timeout || 30000;
-
-      // Set timeout for execution
-      const timeoutId = setTimeout(() => {
-        reject(new Error('Plugin execution timeout'));
-      }, timeout);
-
-      try {
-        // Create secure execution environment
-        const secureCode = this.wrapCodeForSandbox(code, sandbox.api);
-
-        // Execute in iframe context using script injection
-        const script = sandbox.iframe.contentDocument!.createElement('script');
-        script.textContent = `
-           try {
-             const result = ${secureCode};
-             window.parent.postMessage({ type: 'plugin_result', result }, '*');
-           } catch (error) {
-             window.parent.postMessage({ type: 'plugin_error', error: error.message }, '*');
-           }
-         `;
-
-        // Set up message listener for result
-        const messageHandler = (event: MessageEvent) => {
-          if (event.data.type === 'plugin_result') {
-            window.removeEventListener('message', messageHandler);
-            clearTimeout(timeoutId);
-            resolve(event.data.result);
-          } else if (event.data.type === 'plugin_error') {
-            window.removeEventListener('message', messageHandler);
-            clearTimeout(timeoutId);
-            reject(new Error(event.data.error));
-          }
-        };
+  /** Forwards a realm's capability call to the execution's capabilities */
+  private async answer(
+    network: PluginNetworkAPI,
+    storage: PluginStorageAPI,
+    api: SandboxCall,
+    args: unknown[]
+  ): Promise<unknown> {
+    const [first, second] = args;
+    switch (api) {
+      case 'network.fetch':
+        return serializeResponse(await network.fetch(String(first), second as RequestInit));
+      case 'storage.get':
+        return storage.get(String(first));
+      case 'storage.set':
+        return storage.set(String(first), second);
+      case 'storage.remove':
+        return storage.remove(String(first));
+      case 'storage.keys':
+        return storage.keys();
+      default:
+        throw new Error(`Unknown sandbox call: ${String(api)}`);
+    }
+  }
 
-        window.addEventListener('message', messageHandler);
-        sandbox.iframe.contentDocument!.head.appendChild(script);
-      } catch (error) {
-        clearTimeout(timeoutId);
-        reject(error);
-      }
-    });
+  private isolate(
+    context: PluginContext,
+    scope: ExecutionScope,
+    signal: AbortSignal
+  ): PluginContext {
+    const { logger } = context;
+    const isolated: PluginContext = {
+      order: copy(context.order),
+      product: copy(context.product),
+      user: copy(context.user),
+      config: copy(context.config),
+      logger: Object.freeze<PluginLogger>({
+        info: (message, data) => logger.info(message, data),
+        warn: (message, data) => logger.warn(message, data),
+        error: (message, error) => logger.error(message, error),
+        debug: (message, data) => logger.debug(message, data),
+      }),
+      network: this.createNetwork(scope),
+      storage: this.createStorage(scope),
+      signal,
+    };
+    if (context.refund) {
+      isolated.refund = copy(context.refund);
+    }
+    if (context.subscription) {
+      isolated.subscription = copy(context.subscription);
+    }
+    return isolated;
   }
 
-  /**
-   * Wrap plugin code with security restrictions
-   */
-  private wrapCodeForSandbox(code: string, api: Record<string, any>): string {
-    const apiKeys = Object.keys(api);
-    const apiAssignments = apiKeys.map(key => `var ${key} = arguments[0].${key};`).join('\n');
-
-    return `
-      (function(secureAPI) {
-        'use strict';
-        
-        // Disable dangerous globals
-        var eval = undefined;
-        var Function = undefined;
-        var window = undefined;
-        var document = undefined;
-        var XMLHttpRequest = undefined;
-        
-        // Assign secure API
-        ${apiAssignments}
-        
-        // Execute plugin code
-        try {
-          ${code}
-        } catch (error) {
-          throw new Error('Plugin execution error: ' + error.message);
+  private createNetwork(scope: ExecutionScope): PluginNetworkAPI {
+    return Object.freeze<PluginNetworkAPI>({
+      fetch: async (url, init = {}) => {
+        this.authorize(scope, 'network_access', 'network.http', { url });
+        if (!this.securityContext.validateNetworkRequest(scope.pluginId, url)) {
+          throw this.lastViolation(scope.pluginId, `Request to ${url} is not allowed`);
         }
-      })(arguments[0]);
-    `;
-  }
 
-  /**
-   * Secure logging with filtering
-   */
-  private secureLog(level: string, context: ExecutionContext, args: any[]): void {
-    const filteredArgs = args.map(arg => {
-      if (typeof arg === 'string') {
-        // Remove potential sensitive data patterns
-        return arg.replace(/(?:password|token|key|secret)=[\w\-\.]+/gi, '[REDACTED]');
-      }
-      return arg;
-    });
+        const { maxRequestSize } = scope.policy.network;
+        const requestSize = bodySize(init.body);
+        if (requestSize === null) {
+          throw this.deny(scope, 'network_access', 'request_body_unmeasurable', { url });
+        }
+        if (requestSize > maxRequestSize) {
+          throw this.deny(scope, 'network_access', 'request_too_large', {
+            url,
+            size: requestSize,
+            limit: maxRequestSize,
+          });
+        }
 
-    this.emit('log', {
-      level,
-      pluginId: context.pluginId,
-      userId: context.userId,
-      message: filteredArgs.join(' '),
-      timestamp: new Date(),
+        // No host cookies, and no redirects that could leave the allowed domains
+        const response = await this.fetchImpl(url, {
+          ...init,
+          credentials: 'omit',
+          redirect: 'error',
+        });
+
+        await this.checkResponseSize(scope, url, response);
+        return response;
+      },
     });
   }
 
   /**
-   * Secure fetch implementation with permission checks
+   * Reads a copy of the body up to the response size limit, so neither a
+   * missing nor a wrong `content-length` gets a larger response past it.
+   * The response handed on keeps its own body, which is then known to fit.
    */
-  private createSecureFetch(context: ExecutionContext, options: SandboxOptions) {
-    let requestCount = 0;
+  private async checkResponseSize(
+    scope: ExecutionScope,
+    url: string,
+    response: Response
+  ): Promise<void> {
+    const limit = scope.policy.network.maxResponseSize;
+    const tooLarge = (size: number) =>
+      this.deny(scope, 'network_access', 'response_too_large', { url, size, limit });
+
+    const declared = Number(response.headers.get('content-length') ?? 0);
+    if (declared > limit) {
+      void response.body?.cancel().catch(() => undefined);
+      throw tooLarge(declared);
+    }
 
-    return async (url: string, init?: RequestInit): Promise<Response> => {
-      if (requestCount >= options.maxNetworkRequests) {
-        throw new Error('Network request limit exceeded');
+    const reader = response.clone().body?.getReader();
+    if (!reader) {
+      return;
+    }
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
       }
-
-      if (!this.isUrlAllowed(url, context.permissions)) {
-        throw new Error('Network access to this URL is not permitted');
+      size += value.byteLength;
+      if (size > limit) {
+        void reader.cancel();
+        void response.body?.cancel().catch(() => undefined);
+        throw tooLarge(size);
       }
-
-      requestCount++;
-
-      // Use the native fetch with security restrictions
-      const response = await fetch(url, {
-        ...init,
-        // Remove timeout property as it's not standard
-        mode: 'cors',
-        credentials: 'same-origin',
-      });
-
-      return response;
-    };
+    }
   }
 
-  /**
-   * Secure storage implementation
-   */
-  private createSecureStorage(context: ExecutionContext, options: SandboxOptions) {
-    let operationCount = 0;
-
-    return {
-      get: async (key: string): Promise<string | null> => {
-        if (operationCount >= options.resourceLimits.maxStorageOperations) {
-          throw new Error('Storage operation limit exceeded');
-        }
+  private createStorage(scope: ExecutionScope): PluginStorageAPI {
+    // Encoding the id keeps ids containing the separator from sharing a namespace
+    const prefix = `${STORAGE_PREFIX}:${encodeURIComponent(scope.pluginId)}:`;
 
-        operationCount++;
-
-        // Implement namespaced storage access
-        const namespacedKey = `plugin:${context.pluginId}:${context.userId}:${key}`;
-        return localStorage.getItem(namespacedKey);
+    return Object.freeze<PluginStorageAPI>({
+      get: async <T>(key: string): Promise<T | null> => {
+        const area = this.checkStorage(scope, 'storage.read', 'get', key);
+        const item = area.getItem(prefix + key);
+        return item === null ? null : (JSON.parse(item) as T);
       },
 
-      set: async (key: string, value: string): Promise<void> => {
-        if (operationCount >= options.resourceLimits.maxStorageOperations) {
-          throw new Error('Storage operation limit exceeded');
+      set: async (key, value) => {
+        const area = this.checkStorage(scope, 'storage.write', 'set', key, value);
+        const serialized = JSON.stringify(value ?? null);
+        const entries = this.readNamespace(area, prefix);
+        const previous = entries.get(key);
+
+        if (previous === undefined && entries.size >= scope.policy.storage.maxKeys) {
+          throw this.deny(scope, 'storage_access', 'key_limit_exceeded', {
+            key,
+            limit: scope.policy.storage.maxKeys,
+          });
         }
 
-        if (value.length > options.maxRequestSize) {
-          throw new Error('Storage value too large');
+        let used = key.length + serialized.length;
+        entries.forEach((item, entryKey) => {
+          if (entryKey !== key) {
+            used += entryKey.length + item.length;
+          }
+        });
+        // Web Storage quotas count UTF-16 code units
+        if (!this.monitor.trackStorageUsage(scope.pluginId, used * 2)) {
+          throw this.lastViolation(scope.pluginId, `Storage quota of ${scope.pluginId} exceeded`);
         }
 
-        operationCount++;
+        area.setItem(prefix + key, serialized);
+      },
 
-        // Implement namespaced storage with size limits
-        const namespacedKey = `plugin:${context.pluginId}:${context.userId}:${key}`;
-        localStorage.setItem(namespacedKey, value);
+      remove: async key => {
+        const area = this.checkStorage(scope, 'storage.write', 'remove', key);
+        area.removeItem(prefix + key);
       },
-    };
-  }
 
-  private async isPermissionAllowed(
-    permission: PluginPermission,
-    context: ExecutionContext
-  ): Promise<boolean> {
-    return context.permissions.some(
-      p =>
-        p.type === permission.type &&
-        p.resource === permission.resource &&
-        permission.action.every(action => p.action.includes(action))
-    );
+      keys: async () => {
+        const area = this.checkStorage(scope, 'storage.read', 'keys', '');
+        return [...this.readNamespace(area, prefix).keys()];
+      },
+    });
   }
 
-  private isUrlAllowed(url: string, permissions: PluginPermission[]): boolean {
-    const networkPermissions = permissions.filter(p => p.type === 'network');
-
-    if (networkPermissions.length === 0) {
-      return false;
+  private checkStorage(
+    scope: ExecutionScope,
+    permission: PluginPermission,
+    operation: 'get' | 'set' | 'remove' | 'keys',
+    key: string,
+    value?: unknown
+  ): SandboxStorageArea {
+    this.authorize(scope, 'storage_access', permission, { operation, key });
+    if (
+      operation !== 'keys' &&
+      !this.securityContext.validateStorageOperation(scope.pluginId, operation, key, value)
+    ) {
+      throw this.lastViolation(scope.pluginId, `Storage ${operation} of '${key}' is not allowed`);
     }
+    if (!this.storageArea) {
+      throw new Error('Plugin storage is not available in this environment');
+    }
+    return this.storageArea;
+  }
 
-    return networkPermissions.some(p => {
-      if (p.resource === '*') return true;
-      try {
-        const urlObj = new URL(url);
-        return urlObj.hostname.includes(p.resource);
-      } catch {
-        return false;
+  private readNamespace(area: SandboxStorageArea, prefix: string): Map<string, string> {
+    const entries = new Map<string, string>();
+    for (let i = 0; i < area.length; i++) {
+      const storedKey = area.key(i);
+      if (storedKey?.startsWith(prefix)) {
+        entries.set(storedKey.substring(prefix.length), area.getItem(storedKey) ?? '');
       }
-    });
+    }
+    return entries;
   }
 
-  private checkResourceViolations(
-    usage: ResourceUsage,
-    options: Partial<SandboxOptions>
-  ): SecurityViolation[] {
-    const violations: SecurityViolation[] = [];
-    const limits = options.resourceLimits;
-
-    if (!limits) return violations;
-
-    if (usage.executionTime > limits.maxExecutionTime) {
-      violations.push({
-        type: 'resource',
-        severity: 'high',
-        description: `Execution time limit exceeded: ${usage.executionTime}ms > ${limits.maxExecutionTime}ms`,
-        timestamp: new Date(),
-      });
+  /** Capabilities work only while their execution runs and only with the permission */
+  private authorize(
+    scope: ExecutionScope,
+    type: RestrictionType,
+    permission: PluginPermission,
+    details: Record<string, unknown>
+  ): void {
+    if (scope.revoked) {
+      throw this.deny(scope, type, 'capability_revoked', { permission, ...details }, 'critical');
+    }
+    if (!this.securityContext.checkPermission(scope.pluginId, permission)) {
+      throw this.deny(scope, type, 'permission_denied', { permission, ...details });
     }
-
-    return violations;
   }
 
-  private generateSandboxId(context: ExecutionContext): string {
-    return `${context.pluginId}:${context.userId}:${Date.now()}`;
+  private deny(
+    scope: ExecutionScope,
+    type: RestrictionType,
+    action: string,
+    details: Record<string, unknown>,
+    severity: SecurityViolation['severity'] = 'high'
+  ): SandboxViolationError {
+    const violation = this.monitor.recordViolation(scope.pluginId, type, action, details, severity);
+    return new SandboxViolationError(`Plugin ${scope.pluginId} blocked: ${action}`, violation);
   }
 
-  private cleanupSandbox(sandboxId: string): void {
-    const sandbox = this.activeSandboxes.get(sandboxId);
-    if (sandbox && sandbox.iframe) {
-      document.body.removeChild(sandbox.iframe);
-    }
-    this.activeSandboxes.delete(sandboxId);
+  /** Error for the violation the security context has just recorded */
+  private lastViolation(pluginId: string, message: string): SandboxViolationError {
+    const violations = this.monitor.getViolations(pluginId);
+    return new SandboxViolationError(message, violations[violations.length - 1]!);
   }
+}
 
-  private getEmptyResourceUsage(): ResourceUsage {
-    return {
-      executionTime: 0,
-      memoryEstimate: 0,
-      networkCalls: 0,
-      storageOperations: 0,
-      domOperations: 0,
-    };
+/** Deep copy of plain data; functions are dropped and `__proto__` stays an ordinary key */
+function copy<T>(value: T, seen = new WeakMap<object, unknown>()): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return seen.get(value) as T;
   }
 
-  private simpleHash(data: string): string {
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32bit integer
+  const result: object = Array.isArray(value) ? [] : {};
+  seen.set(value, result);
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item !== 'function') {
+      Object.defineProperty(result, key, {
+        value: copy(item, seen),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
     }
-    return hash.toString(16);
   }
+  return result as T;
+}
 
-  private generateUUID(): string {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
-      const r = (Math.random() * 16) | 0;
-      const v = c === 'x' ? r : (r & 0x3) | 0x8;
-      return v.toString(16);
+/** Bytes a request body sends; null for streams, which cannot be measured up front */
+function bodySize(body: BodyInit | null | undefined): number | null {
+  if (body === undefined || body === null) {
+    return 0;
+  }
+  if (typeof body === 'string') {
+    return new Blob([body]).size;
+  }
+  if (body instanceof Blob) {
+    return body.size;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  if (body instanceof URLSearchParams) {
+    return new Blob([body.toString()]).size;
+  }
+  if (body instanceof FormData) {
+    let size = 0;
+    body.forEach((value, name) => {
+      size +=
+        new Blob([name]).size + (typeof value === 'string' ? new Blob([value]).size : value.size);
     });
+    return size;
   }
+  return null;
+}
+
+function serializeError(error: unknown): SerializedError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: 'Error', message: String(error) };
 }
 
-interface SandboxInstance {
-  iframe: HTMLIFrameElement;
-  window: Window | null;
-  api: Record<string, any>;
-  config: SandboxOptions;
+function toError(error: SerializedError): Error {
+  const result = new Error(error.message);
+  result.name = error.name;
+  return result;
 }
 
+async function serializeResponse(response: Response): Promise<SerializedResponse> {
+  const headers: [string, string][] = [];
+  response.headers.forEach((value, name) => headers.push([name, value]));
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: await response.text(),
+  };
+}
+
+export const pluginSandbox = new PluginSandbox();
+
 /**
- * Resource monitoring for browser environment
+ * A plugin shipped as an untrusted script rather than compiled into the app.
+ * The script is a classic script that assigns its hooks to `module.exports`;
+ * every hook call is evaluated in a realm of its own by `PluginSandbox`.
  */
-class ResourceMonitor {
-  private startTime: number = 0;
-  private networkCalls: number = 0;
-  private storageOperations: number = 0;
-  private domOperations: number = 0;
-
-  start(): void {
-    this.startTime = Date.now();
-  }
-
-  stop(): ResourceUsage {
-    return {
-      executionTime: Date.now() - this.startTime,
-      memoryEstimate: this.estimateMemoryUsage(),
-      networkCalls: this.networkCalls,
-      storageOperations: this.storageOperations,
-      domOperations: this.domOperations,
-    };
+export class SandboxedPlugin extends BasePlugin {
+  constructor(
+    public config: PluginConfig,
+    private readonly script: string,
+    private readonly sandbox: PluginSandbox = pluginSandbox
+  ) {
+    super();
   }
 
-  incrementNetworkCalls(): void {
-    this.networkCalls++;
-  }
+  async initialize(): Promise<void> {}
 
-  incrementStorageOperations(): void {
-    this.storageOperations++;
+  async validateConfig(): Promise<ValidationResult> {
+    return { isValid: true, errors: [] };
   }
 
-  incrementDOMOperations(): void {
-    this.domOperations++;
+  async processOrder(context: PluginContext): Promise<DeliveryResult> {
+    return (await this.sandbox.evaluate(
+      this.config,
+      this.script,
+      'processOrder',
+      context
+    )) as DeliveryResult;
   }
 
-  private estimateMemoryUsage(): number {
-    // Rough estimation since precise memory monitoring isn't available in browsers
-    if ('memory' in performance) {
-      return (performance as any).memory.usedJSHeapSize || 0;
-    }
-    return 0;
+  async validateProduct(): Promise<ValidationResult> {
+    return { isValid: true, errors: [] };
   }
-}
 
-/**
- * Security analyzer for static code analysis
- */
-class SecurityAnalyzer {
-  private dangerousPatterns = [
-    { pattern: /eval\s*\(/, type: 'code_injection', severity: 'critical' as const },
-    { pattern: /Function\s*\(/, type: 'code_injection', severity: 'high' as const },
-    { pattern: /document\.write/, type: 'dom_injection', severity: 'high' as const },
-    { pattern: /innerHTML\s*=/, type: 'dom_injection', severity: 'medium' as const },
-    { pattern: /while\s*\(\s*true\s*\)/, type: 'infinite_loop', severity: 'medium' as const },
-    {
-      pattern: /setInterval\s*\(.*,\s*0\s*\)/,
-      type: 'cpu_exhaustion',
-      severity: 'medium' as const,
-    },
-  ];
-
-  async analyzeCode(
-    code: string
-  ): Promise<{
-    threats: Array<{
-      type: string;
-      severity: 'low' | 'medium' | 'high' | 'critical';
-      description: string;
-    }>;
-  }> {
-    const threats = [];
-
-    for (const { pattern, type, severity } of this.dangerousPatterns) {
-      if (pattern.test(code)) {
-        threats.push({
-          type,
-          severity,
-          description: `Potentially dangerous pattern detected: ${type}`,
-        });
-      }
-    }
+  override async onRefundProcessed(context: PluginContext): Promise<void> {
+    await this.sandbox.evaluate(this.config, this.script, 'onRefundProcessed', context);
+  }
 
-    return { threats };
+  override async onSubscriptionRenewed(context: PluginContext): Promise<boolean> {
+    return (
+      (await this.sandbox.evaluate(this.config, this.script, 'onSubscriptionRenewed', context)) ===
+      true
+    );
   }
 }
-
-export const pluginSandbox = new PluginSandbox();
@@ -0,0 +1,219 @@
+// ============================================================================
+// MTYB Plugin Security Sandbox - Plugin Realms
+// ============================================================================
+
+import type { PluginContext } from '../types';
+
+/** Plugin hooks a realm can run */
+export type SandboxHook = 'processOrder' | 'onRefundProcessed' | 'onSubscriptionRenewed';
+
+/** Capability calls a realm can make; each maps onto `context.network` or `context.storage` */
+export type SandboxCall =
+  | 'network.fetch'
+  | 'storage.get'
+  | 'storage.set'
+  | 'storage.remove'
+  | 'storage.keys';
+
+export interface SerializedError {
+  name: string;
+  message: string;
+}
+
+/** A Response as it crosses into the realm */
+export interface SerializedResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+}
+
+/** Messages the host sends to a realm */
+export type RealmRequest =
+  | {
+      type: 'run';
+      hook: SandboxHook;
+      context: Omit<PluginContext, 'logger' | 'network' | 'storage' | 'signal'>;
+    }
+  | { type: 'reply'; id: number; value?: unknown; error?: SerializedError };
+
+/** Messages a realm sends to the host */
+export type RealmMessage =
+  | { type: 'call'; id: number; api: SandboxCall; args: unknown[] }
+  | { type: 'log'; level: 'info' | 'warn' | 'debug'; message: string; data?: unknown }
+  | { type: 'log'; level: 'error'; message: string; error?: SerializedError }
+  | { type: 'done'; value: unknown }
+  | { type: 'failed'; error: SerializedError };
+
+export interface SandboxRealmError {
+  message: string;
+}
+
+/**
+ * A separate JavaScript realm running one plugin execution. It shares no
+ * objects with the host; the two only exchange structured-clone messages.
+ */
+export interface SandboxRealm {
+  send(message: RealmRequest): void;
+  onMessage(listener: (message: RealmMessage) => void): void;
+  /** Uncaught errors, failures to load the script and crashes */
+  onError(listener: (error: SandboxRealmError) => void): void;
+  /** Stops the realm's code immediately, wherever it is */
+  terminate(): void;
+}
+
+/** Starts a realm that evaluates `script` as a classic script */
+export type SandboxRealmFactory = (script: string) => SandboxRealm;
+
+/**
+ * Runs first in every realm. It takes every global that reaches the outside
+ * world away from the plugin, then runs the requested hook of the plugin's
+ * `module.exports` with a context whose network, storage and logger are
+ * message proxies to the host's policy-checked capabilities. If a global
+ * cannot be removed the script throws, so the execution fails instead of
+ * running with it.
+ */
+export const REALM_BOOTSTRAP = `(function () {
+  'use strict';
+  var post = globalThis.postMessage.bind(globalThis);
+  var listen = globalThis.addEventListener.bind(globalThis);
+  var AMBIENT = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts',
+    'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker', 'localStorage',
+    'sessionStorage', 'window', 'document', 'parent', 'top', 'opener', 'navigator'
+  ];
+  AMBIENT.forEach(function (name) {
+    for (var target = globalThis; target; target = Object.getPrototypeOf(target)) {
+      if (Object.prototype.hasOwnProperty.call(target, name)) {
+        delete target[name];
+      }
+    }
+    if (typeof globalThis[name] !== 'undefined') {
+      Object.defineProperty(globalThis, name, { value: undefined });
+    }
+  });
+
+  var calls = new Map();
+  var lastCall = 0;
+  function call(api, args) {
+    return new Promise(function (resolve, reject) {
+      var id = ++lastCall;
+      calls.set(id, { resolve: resolve, reject: reject });
+      post({ type: 'call', id: id, api: api, args: args });
+    });
+  }
+  function toError(error) {
+    var result = new Error(error.message);
+    result.name = error.name;
+    return result;
+  }
+  function serializeError(error) {
+    return {
+      name: (error && error.name) || 'Error',
+      message: String(error && error.message !== undefined ? error.message : error)
+    };
+  }
+  function toResponse(response) {
+    var nullBody = [101, 204, 205, 304].indexOf(response.status) !== -1;
+    return new Response(nullBody ? null : response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  }
+  function log(level) {
+    return function (message, data) {
+      var entry = { type: 'log', level: level, message: String(message) };
+      if (level === 'error' && data !== undefined) entry.error = serializeError(data);
+      else entry.data = data;
+      post(entry);
+    };
+  }
+  function createContext(data) {
+    return Object.assign({}, data, {
+      logger: Object.freeze({
+        info: log('info'), warn: log('warn'), error: log('error'), debug: log('debug')
+      }),
+      network: Object.freeze({
+        fetch: function (url, init) {
+          return call('network.fetch', [String(url), init]).then(toResponse);
+        }
+      }),
+      storage: Object.freeze({
+        get: function (key) { return call('storage.get', [key]); },
+        set: function (key, value) { return call('storage.set', [key, value]); },
+        remove: function (key) { return call('storage.remove', [key]); },
+        keys: function () { return call('storage.keys', []); }
+      })
+    });
+  }
+  function finish(message) {
+    try {
+      post(message);
+    } catch (error) {
+      post({ type: 'failed', error: serializeError(error) });
+    }
+  }
+
+  globalThis.module = { exports: {} };
+  globalThis.exports = globalThis.module.exports;
+
+  listen('message', function (event) {
+    var message = event.data;
+    if (message.type === 'reply') {
+      var pending = calls.get(message.id);
+      calls.delete(message.id);
+      if (pending && message.error) pending.reject(toError(message.error));
+      else if (pending) pending.resolve(message.value);
+      return;
+    }
+    if (message.type !== 'run') return;
+
+    var plugin = globalThis.module.exports;
+    Promise.resolve()
+      .then(function () {
+        if (!plugin || typeof plugin[message.hook] !== 'function') {
+          throw new Error('Plugin does not implement ' + message.hook);
+        }
+        return plugin[message.hook](createContext(message.context));
+      })
+      .then(
+        function (value) { finish({ type: 'done', value: value }); },
+        function (error) { finish({ type: 'failed', error: serializeError(error) }); }
+      );
+  });
+})();
+`;
+
+/**
+ * Realms on browser Web Workers. A worker has no DOM, no `window` and no
+ * Web Storage, and `terminate()` stops it even inside a synchronous loop.
+ * `import()` cannot be removed from a realm; the app's
+ * Content-Security-Policy, which workers inherit, is what keeps it to the
+ * app's own origin.
+ */
+export const createWorkerRealm: SandboxRealmFactory = script => {
+  if (typeof Worker === 'undefined' || typeof URL.createObjectURL !== 'function') {
+    throw new Error('Sandboxed plugins need Web Worker support');
+  }
+
+  const url = URL.createObjectURL(new Blob([script], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+
+  return {
+    send: message => worker.postMessage(message),
+    onMessage: listener =>
+      worker.addEventListener('message', (event: MessageEvent<RealmMessage>) =>
+        listener(event.data)
+      ),
+    onError: listener =>
+      worker.addEventListener('error', event => {
+        event.preventDefault();
+        listener({ message: event.message || 'Plugin script failed to load' });
+      }),
+    terminate: () => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    },
+  };
+};
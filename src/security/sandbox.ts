@@ -2,7 +2,9 @@
 // MTYB Plugin Security Sandbox - Core Implementation
 // ============================================================================
 
-import { PluginPermission, PluginContext, PluginAPI } from '../sdk/types';
+import type { PluginPermission, PluginAPI } from '../sdk/types';
+import type { PluginSandboxGrants } from '../types';
+import { SANDBOX_LIMITS } from '../core/constants';
 
 // Security Policy Definitions
 export interface SecurityPolicy {
@@ -70,6 +72,67 @@ export interface ExecutionPolicy {
   readonly maxCallStackDepth: number;
 }
 
+/**
+ * Builds the policy a plugin runs under from the grants in its config. Plugins
+ * always get their own storage; network access needs an explicit domain list.
+ */
+export function createSecurityPolicy(
+  pluginId: string,
+  grants: PluginSandboxGrants = {}
+): SecurityPolicy {
+  const allowedDomains = [...(grants.allowedDomains ?? [])];
+  const executionTimeout = grants.executionTimeoutMs ?? SANDBOX_LIMITS.EXECUTION_TIMEOUT;
+  const permissions: PluginPermission[] = ['storage.read', 'storage.write'];
+  if (allowedDomains.length > 0) {
+    permissions.push('network.http');
+  }
+
+  return {
+    id: `${pluginId}:sandbox`,
+    name: `${pluginId} sandbox policy`,
+    version: '1.0.0',
+    permissions,
+    restrictions: [
+      { type: 'eval_execution', target: '*', action: 'deny' },
+      { type: 'module_import', target: '*', action: 'deny' },
+      { type: 'file_access', target: '*', action: 'deny' },
+    ],
+    resources: {
+      memory: SANDBOX_LIMITS.MEMORY_MB,
+      storage: grants.storageQuotaMB ?? SANDBOX_LIMITS.STORAGE_QUOTA_MB,
+      cpu: 100,
+      networkRequests:
+        grants.networkRequestsPerMinute ?? SANDBOX_LIMITS.NETWORK_REQUESTS_PER_MINUTE,
+      fileOperations: 0,
+      executionTime: executionTimeout / 1000,
+    },
+    network: {
+      allowedDomains,
+      blockedDomains: [],
+      allowedPorts: [443],
+      blockedPorts: [],
+      requireHttps: true,
+      maxRequestSize: SANDBOX_LIMITS.MAX_REQUEST_SIZE,
+      maxResponseSize: SANDBOX_LIMITS.MAX_RESPONSE_SIZE,
+    },
+    storage: {
+      maxKeys: grants.maxStorageKeys ?? SANDBOX_LIMITS.MAX_STORAGE_KEYS,
+      maxKeySize: SANDBOX_LIMITS.MAX_KEY_SIZE,
+      maxValueSize: SANDBOX_LIMITS.MAX_VALUE_SIZE,
+      allowedPrefixes: [],
+      encryption: false,
+    },
+    execution: {
+      allowEval: false,
+      allowDynamicImports: false,
+      allowWorkers: false,
+      allowTimers: true,
+      maxExecutionTime: executionTimeout,
+      maxCallStackDepth: 256,
+    },
+  };
+}
+
 // Sandbox Error Types
 export class SandboxViolationError extends Error {
   constructor(
@@ -106,29 +169,65 @@ export class ResourceMonitor {
       fileOperations: 0,
       executionTime: 0,
       startTime: Date.now(),
+      networkRequestsReset: Date.now(),
     });
   }
 
-  trackMemoryUsage(pluginId: string, bytes: number): void {
+  clearLimits(pluginId: string): void {
+    this.limits.delete(pluginId);
+    this.usage.delete(pluginId);
+  }
+
+  trackMemoryUsage(pluginId: string, bytes: number): boolean {
     const usage = this.usage.get(pluginId);
     const limits = this.limits.get(pluginId);
 
-    if (!usage || !limits) return;
+    if (!usage || !limits) return true;
 
-    usage.memory = Math.max(usage.memory, bytes / (1024 * 1024)); // Convert to MB
+    const memory = bytes / (1024 * 1024); // Convert to MB
+    usage.memory = Math.max(usage.memory, memory);
 
-    if (usage.memory > limits.memory) {
+    if (memory > limits.memory) {
       this.recordViolation(
         pluginId,
         'api_access',
         'memory_exceeded',
         {
-          current: usage.memory,
+          current: memory,
           limit: limits.memory,
         },
         'high'
       );
+      return false;
     }
+
+    return true;
+  }
+
+  /** Checks the plugin's total stored size after a write; usage only moves when it fits */
+  trackStorageUsage(pluginId: string, bytes: number): boolean {
+    const usage = this.usage.get(pluginId);
+    const limits = this.limits.get(pluginId);
+
+    if (!usage || !limits) return false;
+
+    const storage = bytes / (1024 * 1024); // Convert to MB
+    if (storage > limits.storage) {
+      this.recordViolation(
+        pluginId,
+        'storage_access',
+        'storage_quota_exceeded',
+        {
+          current: storage,
+          limit: limits.storage,
+        },
+        'medium'
+      );
+      return false;
+    }
+
+    usage.storage = storage;
+    return true;
   }
 
   trackNetworkRequest(pluginId: string): boolean {
@@ -139,7 +238,7 @@ export class ResourceMonitor {
 
     // Reset counter every minute
     const now = Date.now();
-    if (now - usage.networkRequestsReset > 60000) {
+    if (now - (usage.networkRequestsReset ?? usage.startTime) > 60000) {
       usage.networkRequests = 0;
       usage.networkRequestsReset = now;
     }
@@ -172,7 +271,8 @@ export class ResourceMonitor {
     const executionTimeSeconds = executionTimeMs / 1000;
     usage.executionTime += executionTimeSeconds;
 
-    if (executionTimeSeconds > limits.executionTime) {
+    // Reaching the limit counts: the sandbox stops executions exactly there
+    if (executionTimeSeconds >= limits.executionTime) {
       this.recordViolation(
         pluginId,
         'api_access',
@@ -200,13 +300,13 @@ export class ResourceMonitor {
     return [...this.violations];
   }
 
-  private recordViolation(
+  recordViolation(
     pluginId: string,
     type: RestrictionType,
     action: string,
     details: any,
     severity: SecurityViolation['severity']
-  ): void {
+  ): SecurityViolation {
     const violation: SecurityViolation = {
       pluginId,
       type,
@@ -226,6 +326,8 @@ export class ResourceMonitor {
         })
       );
     }
+
+    return violation;
   }
 }
 
@@ -255,6 +357,11 @@ export class SecurityContext {
   unregisterPlugin(pluginId: string): void {
     this.policies.delete(pluginId);
     this.activePlugins.delete(pluginId);
+    this.resourceMonitor.clearLimits(pluginId);
+  }
+
+  getPolicy(pluginId: string): SecurityPolicy | null {
+    return this.policies.get(pluginId) || null;
   }
 
   checkPermission(pluginId: string, permission: PluginPermission): boolean {
@@ -338,7 +445,7 @@ export class SecurityContext {
     } catch (error) {
       this.recordViolation(pluginId, 'network_access', 'invalid_url', {
         url,
-        error: error.message,
+        error: error instanceof Error ? error.message : String(error),
       });
       return false;
     }
@@ -400,8 +507,7 @@ export class SecurityContext {
     action: string,
     details: any
   ): void {
-    // Implementation delegated to ResourceMonitor
-    // This is just a placeholder for potential future direct violations
+    this.resourceMonitor.recordViolation(pluginId, type, action, details, 'high');
   }
 }
 
@@ -419,7 +525,7 @@ export class SandboxedAPI implements PluginAPI {
 
   get storage() {
     return {
-      async get(key: string): Promise<any> {
+      get: async (key: string): Promise<any> => {
         if (!this.securityContext.checkPermission(this.pluginId, 'storage.read')) {
           throw new SandboxViolationError('Storage read permission denied', {
             pluginId: this.pluginId,
@@ -445,7 +551,7 @@ export class SandboxedAPI implements PluginAPI {
         return await this.originalAPI.storage.get(key);
       },
 
-      async set(key: string, value: any): Promise<void> {
+      set: async (key: string, value: any): Promise<void> => {
         if (!this.securityContext.checkPermission(this.pluginId, 'storage.write')) {
           throw new SandboxViolationError('Storage write permission denied', {
             pluginId: this.pluginId,
@@ -471,7 +577,7 @@ export class SandboxedAPI implements PluginAPI {
         return await this.originalAPI.storage.set(key, value);
       },
 
-      async remove(key: string): Promise<void> {
+      remove: async (key: string): Promise<void> => {
         if (!this.securityContext.checkPermission(this.pluginId, 'storage.write')) {
           throw new SandboxViolationError('Storage write permission denied', {
             pluginId: this.pluginId,
@@ -497,7 +603,7 @@ export class SandboxedAPI implements PluginAPI {
         return await this.originalAPI.storage.remove(key);
       },
 
-      async clear(): Promise<void> {
+      clear: async (): Promise<void> => {
         if (!this.securityContext.checkPermission(this.pluginId, 'storage.write')) {
           throw new SandboxViolationError('Storage write permission denied', {
             pluginId: this.pluginId,
@@ -512,7 +618,7 @@ export class SandboxedAPI implements PluginAPI {
         return await this.originalAPI.storage.clear();
       },
 
-      async keys(): Promise<string[]> {
+      keys: async (): Promise<string[]> => {
         if (!this.securityContext.checkPermission(this.pluginId, 'storage.read')) {
           throw new SandboxViolationError('Storage read permission denied', {
             pluginId: this.pluginId,
@@ -527,7 +633,7 @@ export class SandboxedAPI implements PluginAPI {
         return await this.originalAPI.storage.keys();
       },
 
-      async has(key: string): Promise<boolean> {
+      has: async (key: string): Promise<boolean> => {
         if (!this.securityContext.checkPermission(this.pluginId, 'storage.read')) {
           throw new SandboxViolationError('Storage read permission denied', {
             pluginId: this.pluginId,
@@ -542,7 +648,7 @@ export class SandboxedAPI implements PluginAPI {
         return await this.originalAPI.storage.has(key);
       },
 
-      async size(): Promise<number> {
+      size: async (): Promise<number> => {
         if (!this.securityContext.checkPermission(this.pluginId, 'storage.read')) {
           throw new SandboxViolationError('Storage read permission denied', {
             pluginId: this.pluginId,
@@ -0,0 +1,28 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Background Jobs
+// ============================================================================
+
+import { abandonedCartService } from './cart/AbandonedCartService';
+import { orderService } from './order/OrderService';
+import { webhookHandler } from './payment/WebhookHandler';
+import { subscriptionService } from './subscription/SubscriptionService';
+
+/**
+ * Starts the schedulers that move service state along without a request.
+ * Called once when the app boots; each scheduler ignores a second start.
+ */
+export function startBackgroundJobs(): void {
+  webhookHandler.startRetryScheduler();
+  orderService.startReservationSweeper();
+  subscriptionService.startRenewalScheduler();
+  abandonedCartService.startReminderScheduler();
+  orderService.startDeliveryWorker();
+}
+
+export function stopBackgroundJobs(): void {
+  webhookHandler.stopRetryScheduler();
+  orderService.stopReservationSweeper();
+  subscriptionService.stopRenewalScheduler();
+  abandonedCartService.stopReminderScheduler();
+  orderService.stopDeliveryWorker();
+}
@@ -0,0 +1,45 @@
+// ============================================================================
+// Background Job Tests
+// ============================================================================
+
+import { startBackgroundJobs, stopBackgroundJobs } from '../BackgroundJobs';
+import { abandonedCartService } from '../cart/AbandonedCartService';
+import { orderService } from '../order/OrderService';
+import { webhookHandler } from '../payment/WebhookHandler';
+import { subscriptionService } from '../subscription/SubscriptionService';
+
+describe('Background jobs', () => {
+  afterEach(() => {
+    stopBackgroundJobs();
+    jest.restoreAllMocks();
+  });
+
+  it('should start every scheduler when the app boots', () => {
+    const schedulers = [
+      jest.spyOn(webhookHandler, 'startRetryScheduler'),
+      jest.spyOn(orderService, 'startReservationSweeper'),
+      jest.spyOn(subscriptionService, 'startRenewalScheduler'),
+      jest.spyOn(abandonedCartService, 'startReminderScheduler'),
+      jest.spyOn(orderService, 'startDeliveryWorker'),
+    ];
+
+    startBackgroundJobs();
+
+    schedulers.forEach(scheduler => expect(scheduler).toHaveBeenCalledTimes(1));
+  });
+
+  it('should retry due webhooks once the retry interval passes', async () => {
+    jest.useFakeTimers();
+    try {
+      const retry = jest.spyOn(webhookHandler, 'retryDueEvents').mockResolvedValue([]);
+
+      startBackgroundJobs();
+      await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+      expect(retry).toHaveBeenCalled();
+    } finally {
+      stopBackgroundJobs();
+      jest.useRealTimers();
+    }
+  });
+});
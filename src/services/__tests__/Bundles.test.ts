@@ -0,0 +1,224 @@
+// ============================================================================
+// Bundle Product Tests
+// ============================================================================
+
+import { BundleService, InvalidBundleError } from '../product/BundleService';
+import type { BundleCatalog } from '../product/BundleService';
+import { PriceService } from '../product/PriceService';
+import { OrderService } from '../order/OrderService';
+import type { PluginExecutor } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import type { StockReservationService } from '../product/StockReservationService';
+import { OrderStatus, PaymentMethod, ProductCategory } from '../../types';
+import type { BundleDelivery, Product } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+    getProductById: jest.fn(),
+    checkStock: jest.fn(),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+function product(id: string, price: number, overrides: Partial<Product> = {}): Product {
+  return {
+    id,
+    name: id,
+    price,
+    currency: 'MYR',
+    category: ProductCategory.DIGITAL,
+    isActive: true,
+    pluginId: id,
+    ...overrides,
+  } as Product;
+}
+
+const vpn = product('vpn', 20, {
+  stock: { available: 7, reserved: 0, total: 7, lowStockThreshold: 1 },
+});
+const netflix = product('netflix', 45, {
+  stock: { available: 10, reserved: 0, total: 10, lowStockThreshold: 1 },
+});
+const steam = product('steam', 9.99);
+
+const starterPack = product('starter-pack', 0, {
+  bundle: {
+    components: [
+      { productId: 'vpn', quantity: 2 },
+      { productId: 'netflix', quantity: 1 },
+      { productId: 'steam', quantity: 1 },
+    ],
+    discountPercentage: 15,
+  },
+});
+
+function catalogOf(...products: Product[]): BundleCatalog {
+  return {
+    getProductById: (id: string) => Promise.resolve(products.find(p => p.id === id) ?? null),
+  };
+}
+
+describe('BundleService', () => {
+  const bundles = new BundleService(catalogOf(vpn, netflix, steam), new PriceService());
+
+  it('should price the bundle below its components and allocate the price to each', async () => {
+    const price = await bundles.getPrice(starterPack);
+
+    expect(price.componentTotal).toBe(94.99);
+    expect(price.bundlePrice).toBe(80.74);
+    expect(price.savings).toBe(14.25);
+    expect(price.allocations.map(line => line.productId)).toEqual(['vpn', 'netflix', 'steam']);
+    expect(price.allocations.reduce((sum, line) => sum + line.allocatedPrice, 0)).toBeCloseTo(
+      80.74,
+      2
+    );
+  });
+
+  it('should only sell as many bundles as the scarcest component allows', async () => {
+    const resolved = await bundles.resolve(starterPack);
+
+    // vpn: 7 units at 2 per bundle; steam tracks no stock
+    expect(resolved.stock?.available).toBe(3);
+    expect(resolved.price).toBe(80.74);
+    expect(resolved.originalPrice).toBe(94.99);
+  });
+
+  it('should refuse missing, inactive and nested components', async () => {
+    const inactive = new BundleService(
+      catalogOf(vpn, { ...netflix, isActive: false }, steam),
+      new PriceService()
+    );
+    const nested = product('mega-pack', 100, {
+      bundle: { components: [{ productId: 'starter-pack', quantity: 1 }] },
+    });
+
+    await expect(inactive.resolve(starterPack)).rejects.toThrow('component netflix is not active');
+    await expect(new BundleService(catalogOf(vpn)).getComponents(starterPack)).rejects.toThrow(
+      InvalidBundleError
+    );
+    await expect(
+      new BundleService(catalogOf(starterPack), new PriceService()).getComponents(nested)
+    ).rejects.toThrow('is itself a bundle');
+  });
+});
+
+describe('Bundle orders', () => {
+  let repository: InMemoryOrderRepository;
+  let executor: jest.Mocked<PluginExecutor>;
+  let reservations: jest.Mocked<Pick<StockReservationService, 'reserve' | 'commit' | 'release'>>;
+  let orders: OrderService;
+
+  beforeEach(() => {
+    (productService.getProduct as jest.Mock).mockImplementation((id: string) =>
+      Promise.resolve({
+        success: true,
+        data: [vpn, netflix, steam, starterPack].find(p => p.id === id),
+      })
+    );
+    repository = new InMemoryOrderRepository();
+    executor = { executePlugin: jest.fn() };
+    reservations = {
+      reserve: jest.fn().mockResolvedValue([]),
+      commit: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+
+    orders = new OrderService({
+      repository,
+      reservations: reservations as unknown as StockReservationService,
+      bundles: new BundleService(catalogOf(vpn, netflix, steam), new PriceService()),
+      delivery: executor,
+    });
+  });
+
+  const completeBundleOrder = async () => {
+    const order = await orders.createOrder({
+      userId: 'user-1',
+      items: [{ productId: 'starter-pack', quantity: 2 }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+    });
+    await orders.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await orders.updateOrderStatus(order.id, OrderStatus.COMPLETED);
+    return order;
+  };
+
+  const bundleDelivery = async (orderId: string) =>
+    (await repository.findById(orderId))?.items[0]?.deliveryData?.bundle as BundleDelivery;
+
+  it('should charge the bundle price and reserve stock for the components', async () => {
+    executor.executePlugin.mockResolvedValue({ success: true });
+
+    const order = await completeBundleOrder();
+
+    expect(order.items[0]?.unitPrice).toBe(80.74);
+    expect(reservations.reserve).toHaveBeenCalledWith({
+      orderId: order.id,
+      userId: 'user-1',
+      items: [
+        { productId: 'vpn', quantity: 4 },
+        { productId: 'netflix', quantity: 2 },
+      ],
+    });
+  });
+
+  it('should deliver each component through its own plugin and report partial failures', async () => {
+    executor.executePlugin.mockImplementation((pluginId: string) =>
+      Promise.resolve(
+        pluginId === 'netflix'
+          ? { success: false, error: 'Netflix API unavailable', retryable: true }
+          : { success: true, deliveryData: { account: `${pluginId}-account` } }
+      )
+    );
+
+    const order = await completeBundleOrder();
+
+    expect(
+      executor.executePlugin.mock.calls.map(([pluginId, context]) => [
+        pluginId,
+        context.product.id,
+        context.config.quantity,
+      ])
+    ).toEqual([
+      ['vpn', 'vpn', 4],
+      ['netflix', 'netflix', 2],
+      ['steam', 'steam', 2],
+    ]);
+
+    const delivery = await bundleDelivery(order.id);
+    expect(delivery.status).toBe('partial');
+    expect(
+      delivery.components.map(component => [component.productId, component.delivered])
+    ).toEqual([
+      ['vpn', true],
+      ['netflix', false],
+      ['steam', true],
+    ]);
+    expect(delivery.components[1]).toMatchObject({
+      error: 'Netflix API unavailable',
+      retryable: true,
+      attempts: 1,
+    });
+  });
+
+  it('should only retry the components that failed', async () => {
+    executor.executePlugin.mockImplementation((pluginId: string) =>
+      pluginId === 'netflix'
+        ? Promise.reject(new Error('timeout'))
+        : Promise.resolve({ success: true })
+    );
+    const order = await completeBundleOrder();
+    executor.executePlugin.mockClear();
+    executor.executePlugin.mockResolvedValue({ success: true });
+
+    const retried = await orders.retryBundleDelivery(order.id);
+
+    expect(executor.executePlugin).toHaveBeenCalledTimes(1);
+    expect(executor.executePlugin.mock.calls[0]?.[0]).toBe('netflix');
+    const delivery = Object.values(retried)[0];
+    expect(delivery?.status).toBe('delivered');
+    expect(delivery?.components[1]?.attempts).toBe(2);
+    expect((await bundleDelivery(order.id)).status).toBe('delivered');
+  });
+});
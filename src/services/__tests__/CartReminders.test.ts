@@ -0,0 +1,341 @@
+// ============================================================================
+// Abandoned Cart Reminder Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { AbandonedCartService } from '../cart/AbandonedCartService';
+import { CartSyncService } from '../cart/CartSyncService';
+import { InMemoryCartStore } from '../cart/CartStore';
+import { InMemoryCartReminderStore, SqlCartReminderStore } from '../cart/CartReminderStore';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { LocalTelegramBotTransport, chatIdForUser } from '../notification/TelegramBot';
+import { InMemoryNotificationPreferenceStore } from '../notification/NotificationPreferences';
+import { PromotionService } from '../promotion/PromotionService';
+import { ProductCategory } from '../../types';
+import type { CartReminder, Order, Product, SyncedCartItem } from '../../types';
+
+// sql.js needs Node's text codecs, which jsdom does not expose
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const HOUR = 60 * 60 * 1000;
+
+const products: Record<string, Product> = {
+  vpn: {
+    id: 'vpn',
+    name: 'VPN Premium',
+    price: 20,
+    currency: 'MYR',
+    category: ProductCategory.VPN,
+    isActive: true,
+  } as Product,
+  steam: {
+    id: 'steam',
+    name: 'Steam Wallet',
+    price: 50,
+    currency: 'MYR',
+    category: ProductCategory.GAMING,
+    isActive: true,
+  } as Product,
+};
+
+const catalog = {
+  getProductById: (id: string) => Promise.resolve(products[id] ?? null),
+};
+
+function line(productId: string, quantity: number): SyncedCartItem {
+  return {
+    productId,
+    quantity,
+    addedAt: new Date(),
+    unitPrice: products[productId]!.price,
+    currency: 'MYR',
+  };
+}
+
+const optedIn = { orderUpdates: true, promotions: true, systemMessages: true };
+
+describe('chatIdForUser', () => {
+  it('should only map Telegram users to a chat', () => {
+    expect(chatIdForUser('tg_123456789')).toBe(123456789);
+    expect(chatIdForUser('anonymous_user')).toBeNull();
+  });
+});
+
+describe('AbandonedCartService', () => {
+  let carts: CartSyncService;
+  let bot: LocalTelegramBotTransport;
+  let preferences: InMemoryNotificationPreferenceStore;
+  let promotions: PromotionService;
+  let reminders: AbandonedCartService;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-18T08:00:00Z') });
+    carts = new CartSyncService(new InMemoryCartStore(), catalog);
+    bot = new LocalTelegramBotTransport();
+    preferences = new InMemoryNotificationPreferenceStore();
+    promotions = new PromotionService();
+    promotions.createPromotion({
+      id: 'comeback',
+      name: 'Comeback 10%',
+      type: 'percentage',
+      value: 10,
+    });
+    reminders = new AbandonedCartService(
+      carts,
+      bot,
+      preferences,
+      new InMemoryCartReminderStore(),
+      catalog,
+      promotions,
+      {
+        idleThresholdMs: 3 * HOUR,
+        couponPromotionId: 'comeback',
+        cartUrl: 'https://t.me/mtyb_bot/shop',
+      }
+    );
+
+    await preferences.saveSettings('tg_1', optedIn);
+    await carts.saveCart('tg_1', { items: [line('vpn', 1), line('steam', 2)], couponCodes: [] }, 0);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const completedOrder = (overrides: Partial<Order> = {}) =>
+    ({
+      id: 'order-1',
+      userId: 'tg_1',
+      totalAmount: 108,
+      currency: 'MYR',
+      items: [],
+      ...overrides,
+    }) as unknown as Order;
+
+  it('should leave carts alone until they pass the idle threshold', async () => {
+    jest.advanceTimersByTime(2 * HOUR);
+
+    expect(await reminders.runReminders()).toEqual({
+      idleCarts: 0,
+      sent: 0,
+      optedOut: 0,
+      failed: 0,
+    });
+    expect(bot.getSentMessages()).toHaveLength(0);
+  });
+
+  it('should message an idle cart once with a single-use coupon', async () => {
+    jest.advanceTimersByTime(3 * HOUR);
+
+    expect(await reminders.runReminders()).toEqual({
+      idleCarts: 1,
+      sent: 1,
+      optedOut: 0,
+      failed: 0,
+    });
+
+    const [message] = bot.getSentMessages(1);
+    const [reminder] = await reminders.getUserReminders('tg_1');
+    expect(message?.text).toContain('You left 3 items in your cart');
+    expect(message?.text).toContain('• Steam Wallet × 2');
+    expect(message?.text).toContain('Total: MYR 120.00');
+    expect(message?.text).toContain(`Use code ${reminder?.couponCode}`);
+    expect(message?.buttons).toEqual([{ text: 'Back to cart', url: 'https://t.me/mtyb_bot/shop' }]);
+    expect(promotions.getCode(reminder!.couponCode!)).toMatchObject({
+      promotionId: 'comeback',
+      maxUses: 1,
+    });
+
+    // Same cart version on the next sweep: no second message
+    jest.advanceTimersByTime(HOUR);
+    expect((await reminders.runReminders()).sent).toBe(0);
+
+    // Editing the cart makes it a new cart to remind about once it goes idle again
+    await carts.saveCart('tg_1', { items: [line('vpn', 1)], couponCodes: [] }, 1);
+    jest.advanceTimersByTime(3 * HOUR);
+    expect((await reminders.runReminders()).sent).toBe(1);
+  });
+
+  it('should respect users who turned off promotional messages', async () => {
+    await preferences.saveSettings('tg_1', { ...optedIn, promotions: false });
+    await carts.saveCart('tg_2', { items: [line('vpn', 1)], couponCodes: [] }, 0);
+    jest.advanceTimersByTime(3 * HOUR);
+
+    expect(await reminders.runReminders()).toEqual({
+      idleCarts: 2,
+      sent: 0,
+      optedOut: 2,
+      failed: 0,
+    });
+    expect(bot.getSentMessages()).toHaveLength(0);
+  });
+
+  it('should retry on the next sweep when the bot cannot deliver', async () => {
+    bot.blockChat(1);
+    jest.advanceTimersByTime(3 * HOUR);
+
+    expect((await reminders.runReminders()).failed).toBe(1);
+    expect(await reminders.getUserReminders('tg_1')).toHaveLength(0);
+  });
+
+  it('should credit orders placed after a reminder and report the campaign', async () => {
+    jest.advanceTimersByTime(3 * HOUR);
+    await reminders.runReminders();
+    const [sent] = await reminders.getUserReminders('tg_1');
+
+    jest.advanceTimersByTime(HOUR);
+    await reminders.handleOrderCompleted(
+      completedOrder({
+        promotions: [
+          { promotionId: 'comeback', name: 'Comeback 10%', code: sent!.couponCode!, amount: 12 },
+        ],
+      })
+    );
+    // A later order is not credited to the same reminder twice
+    await reminders.handleOrderCompleted(completedOrder({ id: 'order-2', totalAmount: 20 }));
+
+    expect((await reminders.getUserReminders('tg_1'))[0]).toMatchObject({
+      status: 'recovered',
+      recoveredOrderId: 'order-1',
+      recoveredAmount: 108,
+      couponRedeemed: true,
+    });
+    expect(await reminders.getCampaignStats()).toEqual({
+      remindersSent: 1,
+      recovered: 1,
+      conversionRate: 1,
+      couponsRedeemed: 1,
+      recoveredRevenue: { MYR: 108 },
+    });
+  });
+
+  it('should not credit orders placed after the attribution window', async () => {
+    jest.advanceTimersByTime(3 * HOUR);
+    await reminders.runReminders();
+
+    jest.advanceTimersByTime(8 * 24 * HOUR);
+    await reminders.handleOrderCompleted(completedOrder());
+
+    expect(await reminders.getCampaignStats()).toMatchObject({
+      remindersSent: 1,
+      recovered: 0,
+      conversionRate: 0,
+    });
+  });
+});
+
+describe('SqlCartReminderStore', () => {
+  let db: Database;
+  let store: SqlCartReminderStore;
+
+  // The cart_reminders table of migration 012
+  const SQLITE_SCHEMA = `
+    CREATE TABLE cart_reminders (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      cart_version INTEGER NOT NULL,
+      item_count INTEGER NOT NULL CHECK (item_count > 0),
+      cart_value NUMERIC NOT NULL,
+      currency TEXT NOT NULL,
+      coupon_code TEXT,
+      status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'recovered')),
+      sent_at TEXT NOT NULL,
+      recovered_order_id TEXT,
+      recovered_amount NUMERIC,
+      recovered_currency TEXT,
+      recovered_at TEXT,
+      coupon_redeemed INTEGER,
+      UNIQUE (user_id, cart_version)
+    );
+  `;
+
+  const reminder = (id: string, overrides: Partial<CartReminder> = {}): CartReminder => ({
+    id,
+    userId: 'user-1',
+    cartVersion: 1,
+    itemCount: 2,
+    cartValue: 90,
+    currency: 'MYR',
+    status: 'sent',
+    sentAt: new Date('2026-10-10T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs({
+      wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+    db = new SQL.Database();
+    db.run(SQLITE_SCHEMA);
+
+    const client: SqlClient = {
+      async query(text: string, params: unknown[] = []) {
+        const statement = db.prepare(text);
+        try {
+          const bindings: Record<string, any> = {};
+          params.forEach((value, index) => {
+            bindings[`$${index + 1}`] = typeof value === 'boolean' ? Number(value) : value;
+          });
+          statement.bind(bindings);
+
+          const rows: any[] = [];
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+          return { rows };
+        } finally {
+          statement.free();
+        }
+      },
+    };
+    store = new SqlCartReminderStore(client);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should round-trip a reminder and record its recovery', async () => {
+    const sent = reminder('rem_1', { couponCode: 'COMEBACK-1' });
+    await store.save(sent);
+    expect(await store.findForCart('user-1', 1)).toEqual(sent);
+
+    const recovered: CartReminder = {
+      ...sent,
+      status: 'recovered',
+      recoveredOrderId: 'order-1',
+      recoveredAmount: 81,
+      recoveredCurrency: 'MYR',
+      recoveredAt: new Date('2026-10-11T00:00:00Z'),
+      couponRedeemed: true,
+    };
+    await store.save(recovered);
+
+    expect(await store.findForCart('user-1', 1)).toEqual(recovered);
+    expect(await store.findForCart('user-1', 2)).toBeNull();
+  });
+
+  it('should keep a coupon that was not redeemed as false', async () => {
+    await store.save(reminder('rem_1', { status: 'recovered', couponRedeemed: false }));
+
+    expect((await store.findByUser('user-1'))[0]?.couponRedeemed).toBe(false);
+  });
+
+  it('should list reminders by user and by send time, oldest first', async () => {
+    await store.save(
+      reminder('rem_2', { cartVersion: 2, sentAt: new Date('2026-10-12T00:00:00Z') })
+    );
+    await store.save(reminder('rem_1', { sentAt: new Date('2026-10-08T00:00:00Z') }));
+    await store.save(
+      reminder('rem_3', { userId: 'user-2', sentAt: new Date('2026-10-11T00:00:00Z') })
+    );
+
+    expect((await store.findByUser('user-1')).map(sent => sent.id)).toEqual(['rem_1', 'rem_2']);
+    expect(
+      (await store.findSentSince(new Date('2026-10-10T00:00:00Z'))).map(sent => sent.id)
+    ).toEqual(['rem_3', 'rem_2']);
+  });
+});
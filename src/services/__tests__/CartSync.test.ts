@@ -0,0 +1,317 @@
+// ============================================================================
+// Server Cart Sync Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { CartSyncService, CART_VERSION_CONFLICT, mergeCartVersions } from '../cart/CartSyncService';
+import type { CartContents } from '../cart/CartSyncService';
+import { InMemoryCartStore, SqlCartStore } from '../cart/CartStore';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { CartService } from '../product/CartService';
+import { ProductCategory } from '../../types';
+import type { Product, SyncedCart, SyncedCartItem } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+    getProductById: jest.fn(),
+    checkStock: jest.fn(),
+  },
+}));
+
+jest.mock('../product/InventoryService', () => ({
+  inventoryService: {
+    checkPluginProductAvailability: jest.fn().mockResolvedValue({ available: true }),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+// sql.js needs Node's text codecs, which jsdom does not expose
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const catalog: Record<string, Product> = {
+  vpn: {
+    id: 'vpn',
+    name: 'VPN',
+    price: 20,
+    currency: 'MYR',
+    category: ProductCategory.VPN,
+    isActive: true,
+  } as Product,
+  steam: {
+    id: 'steam',
+    name: 'Steam',
+    price: 50,
+    currency: 'MYR',
+    category: ProductCategory.GAMING,
+    isActive: true,
+  } as Product,
+  netflix: {
+    id: 'netflix',
+    name: 'Netflix',
+    price: 45,
+    currency: 'MYR',
+    category: ProductCategory.STREAMING,
+    isActive: true,
+  } as Product,
+};
+
+function line(
+  productId: string,
+  quantity: number,
+  unitPrice = catalog[productId]?.price ?? 0
+): SyncedCartItem {
+  return {
+    productId,
+    quantity,
+    addedAt: new Date('2026-10-01T00:00:00Z'),
+    unitPrice,
+    currency: 'MYR',
+  };
+}
+
+function quantitiesOf(contents: CartContents): Record<string, number> {
+  return Object.fromEntries(contents.items.map(item => [item.productId, item.quantity]));
+}
+
+describe('mergeCartVersions', () => {
+  it('should keep edits from both sides and let the larger quantity win a clash', () => {
+    const base = { items: [line('vpn', 1), line('steam', 1)], couponCodes: ['WELCOME'] };
+    const local = {
+      items: [line('vpn', 3), line('netflix', 1)],
+      couponCodes: ['WELCOME', 'SAVE10'],
+    };
+    const remote = { items: [line('vpn', 2), line('steam', 1)], couponCodes: [] };
+
+    const merged = mergeCartVersions(base, local, remote);
+
+    // steam removed locally, netflix added locally, vpn changed on both sides
+    expect(quantitiesOf(merged)).toEqual({ vpn: 3, netflix: 1 });
+    // WELCOME removed remotely, SAVE10 added locally
+    expect(merged.couponCodes).toEqual(['SAVE10']);
+  });
+});
+
+describe('CartSyncService', () => {
+  let store: InMemoryCartStore;
+  let sync: CartSyncService;
+
+  beforeEach(() => {
+    (productService.getProductById as jest.Mock).mockImplementation((id: string) =>
+      Promise.resolve(catalog[id] ?? null)
+    );
+    store = new InMemoryCartStore();
+    sync = new CartSyncService(store);
+  });
+
+  it('should merge a guest cart on sign-in keeping the larger quantity and current prices', async () => {
+    await sync.saveCart('tg_1', { items: [line('vpn', 2, 18)], couponCodes: ['welcome'] }, 0);
+
+    const result = await sync.mergeCart('tg_1', {
+      items: [line('vpn', 1), line('steam', 1), line('retired', 1, 5)],
+      couponCodes: ['SAVE10'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(quantitiesOf(result.data!.cart)).toEqual({ vpn: 2, steam: 1 });
+    expect(result.data!.cart.items.find(item => item.productId === 'vpn')?.unitPrice).toBe(20);
+    expect(result.data!.cart.couponCodes).toEqual(['WELCOME', 'SAVE10']);
+    expect(result.data!.cart.version).toBe(2);
+    expect(result.data!.priceChanges).toEqual([
+      { productId: 'vpn', previousPrice: 18, currentPrice: 20, currency: 'MYR' },
+    ]);
+    expect(result.data!.removedProductIds).toEqual(['retired']);
+  });
+
+  it('should refuse a write based on a stale version and return the current cart', async () => {
+    await sync.saveCart('tg_1', { items: [line('vpn', 1)], couponCodes: [] }, 0);
+    await sync.saveCart('tg_1', { items: [line('vpn', 2)], couponCodes: [] }, 1);
+
+    const stale = await sync.saveCart('tg_1', { items: [line('steam', 1)], couponCodes: [] }, 1);
+
+    expect(stale.success).toBe(false);
+    expect(stale.error?.code).toBe(CART_VERSION_CONFLICT);
+    expect(stale.data?.version).toBe(2);
+    expect(quantitiesOf(await sync.getCart('tg_1'))).toEqual({ vpn: 2 });
+  });
+});
+
+describe('CartService sync across devices', () => {
+  let sync: CartSyncService;
+  let phone: CartService;
+  let desktop: CartService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    (productService.getProductById as jest.Mock).mockImplementation((id: string) =>
+      Promise.resolve(catalog[id] ?? null)
+    );
+    (productService.checkStock as jest.Mock).mockResolvedValue(true);
+
+    sync = new CartSyncService(new InMemoryCartStore());
+    phone = new CartService(sync);
+    desktop = new CartService(sync);
+    phone.setAutoSync(false);
+    desktop.setAutoSync(false);
+  });
+
+  afterEach(() => {
+    phone.destroy();
+    desktop.destroy();
+  });
+
+  const quantities = (cart: CartService) =>
+    Object.fromEntries(cart.getCartState().items.map(item => [item.productId, item.quantity]));
+
+  it('should carry the guest cart into the account on sign-in', async () => {
+    await phone.addToCart('vpn', 2);
+
+    const result = await phone.attachUser('tg_1');
+
+    expect(result.success).toBe(true);
+    expect((await sync.getCart('tg_1')).items).toEqual([
+      expect.objectContaining({ productId: 'vpn', quantity: 2 }),
+    ]);
+
+    await desktop.attachUser('tg_1');
+    expect(quantities(desktop)).toEqual({ vpn: 2 });
+  });
+
+  it('should merge concurrent edits from two devices instead of overwriting', async () => {
+    await phone.addToCart('vpn', 1);
+    await phone.attachUser('tg_1');
+    await desktop.attachUser('tg_1');
+
+    await phone.addToCart('steam', 1);
+    await desktop.updateQuantity('vpn', 3);
+
+    expect((await phone.syncCart()).success).toBe(true);
+    // The desktop write is based on version 2 and conflicts with the phone's
+    const synced = await desktop.syncCart();
+    expect(synced.success).toBe(true);
+    expect(quantities(desktop)).toEqual({ vpn: 3, steam: 1 });
+
+    await phone.syncCart();
+    expect(quantities(phone)).toEqual({ vpn: 3, steam: 1 });
+    expect((await sync.getCart('tg_1')).version).toBe(synced.data?.version);
+  });
+
+  it('should propagate removals made on another device', async () => {
+    await phone.addToCart('vpn', 1);
+    await phone.addToCart('netflix', 1);
+    await phone.attachUser('tg_1');
+    await desktop.attachUser('tg_1');
+
+    await desktop.removeFromCart('netflix');
+    await desktop.syncCart();
+    await phone.syncCart();
+
+    expect(quantities(phone)).toEqual({ vpn: 1 });
+  });
+
+  it('should require a signed-in user to sync', async () => {
+    const result = await phone.syncCart();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('CART_NOT_SIGNED_IN');
+  });
+});
+
+describe('SqlCartStore', () => {
+  let db: Database;
+  let store: SqlCartStore;
+
+  // The user_carts table of migration 011
+  const SQLITE_SCHEMA = `
+    CREATE TABLE user_carts (
+      user_id TEXT PRIMARY KEY,
+      version INTEGER NOT NULL DEFAULT 1 CHECK (version > 0),
+      items TEXT NOT NULL DEFAULT '[]',
+      coupon_codes TEXT NOT NULL DEFAULT '[]',
+      updated_at TEXT NOT NULL
+    );
+  `;
+
+  const cart = (
+    userId: string,
+    version: number,
+    items: SyncedCartItem[],
+    updatedAt = new Date('2026-10-10T00:00:00Z')
+  ): SyncedCart => ({ userId, version, items, couponCodes: ['SAVE10'], updatedAt });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs({
+      wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+    db = new SQL.Database();
+    db.run(SQLITE_SCHEMA);
+
+    const client: SqlClient = {
+      async query(text: string, params: unknown[] = []) {
+        const statement = db.prepare(text);
+        try {
+          const bindings: Record<string, any> = {};
+          params.forEach((value, index) => {
+            bindings[`$${index + 1}`] = typeof value === 'boolean' ? Number(value) : value;
+          });
+          statement.bind(bindings);
+
+          const rows: any[] = [];
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+          return { rows };
+        } finally {
+          statement.free();
+        }
+      },
+    };
+    store = new SqlCartStore(client);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should round-trip a cart with its items and coupon codes', async () => {
+    const saved = cart('user-1', 1, [line('vpn', 2), line('steam', 1)]);
+
+    expect(await store.save(saved, 0)).toBe(true);
+    expect(await store.find('user-1')).toEqual(saved);
+    expect(await store.find('user-2')).toBeNull();
+  });
+
+  it('should only write when the stored version is the expected one', async () => {
+    await store.save(cart('user-1', 1, [line('vpn', 1)]), 0);
+
+    expect(await store.save(cart('user-1', 1, [line('steam', 1)]), 0)).toBe(false);
+    expect(await store.save(cart('user-1', 2, [line('netflix', 1)]), 3)).toBe(false);
+    expect(await store.save(cart('user-1', 2, [line('vpn', 3)]), 1)).toBe(true);
+
+    const stored = await store.find('user-1');
+    expect(stored?.version).toBe(2);
+    expect(stored?.items.map(item => [item.productId, item.quantity])).toEqual([['vpn', 3]]);
+  });
+
+  it('should delete a cart', async () => {
+    await store.save(cart('user-1', 1, [line('vpn', 1)]), 0);
+    await store.delete('user-1');
+
+    expect(await store.find('user-1')).toBeNull();
+  });
+
+  it('should find non-empty carts idle since the cutoff, oldest first', async () => {
+    await store.save(cart('recent', 1, [line('vpn', 1)], new Date('2026-10-12T00:00:00Z')), 0);
+    await store.save(cart('older', 1, [line('vpn', 1)], new Date('2026-10-05T00:00:00Z')), 0);
+    await store.save(cart('idle', 1, [line('steam', 1)], new Date('2026-10-08T00:00:00Z')), 0);
+    await store.save(cart('emptied', 1, [], new Date('2026-10-01T00:00:00Z')), 0);
+
+    const idle = await store.findIdle(new Date('2026-10-10T00:00:00Z'));
+
+    expect(idle.map(stored => stored.userId)).toEqual(['older', 'idle']);
+  });
+});
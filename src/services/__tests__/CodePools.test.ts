@@ -0,0 +1,352 @@
+// ============================================================================
+// License Key and Voucher Code Pool Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { CodePoolService, InsufficientCodesError, parseCodeFile } from '../codes/CodePoolService';
+import type { PoolStockTarget } from '../codes/CodePoolService';
+import { InMemoryCodePoolStore, SqlCodePoolStore } from '../codes/CodePoolStore';
+import { SecurityService } from '../security/SecurityService';
+import { InventoryService } from '../product/InventoryService';
+import { StockReservationService } from '../product/StockReservationService';
+import type { ProductService as ProductServiceType } from '../product/ProductService';
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { MockPaymentGateway } from '../payment/MockPaymentGateway';
+import { OrderService } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { PaymentMethod, PaymentStatus, ProductCodeStatus } from '../../types';
+import type { Product, ProductCode } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+// Code encryption runs on Web Crypto, which jsdom does not provide
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+Object.defineProperty(window, 'crypto', { value: webcrypto, configurable: true });
+
+function createCatalog(): PoolStockTarget & { items: Record<string, Product> } {
+  const items: Record<string, Product> = {
+    steam_key: {
+      id: 'steam_key',
+      name: 'Steam Key',
+      price: 20,
+      isActive: true,
+      pluginId: 'keys',
+    } as Product,
+  };
+
+  return {
+    items,
+    async getProductById(id: string) {
+      return items[id] ?? null;
+    },
+    async setStockTotal(id: string, total: number, lowStockThreshold = 10) {
+      const product = items[id];
+      if (!product) return false;
+      const reserved = product.stock?.reserved ?? 0;
+      product.stock = {
+        available: total - reserved,
+        reserved,
+        total,
+        lowStockThreshold: product.stock?.lowStockThreshold ?? lowStockThreshold,
+      };
+      return true;
+    },
+  };
+}
+
+describe('parseCodeFile', () => {
+  it('should read one code per line, skipping blanks and comments', () => {
+    expect(parseCodeFile('# batch 7\nAAAA-1111\n\n  BBBB-2222  \r\n')).toEqual({
+      codes: ['AAAA-1111', 'BBBB-2222'],
+      rejected: [],
+    });
+  });
+
+  it('should read the code column of a CSV with quoted cells', () => {
+    const csv = 'sku,Code,note\nx,"CC,33",first\ny,,missing\nz,DD-44,"say ""hi"""';
+
+    expect(parseCodeFile(csv)).toEqual({
+      codes: ['CC,33', 'DD-44'],
+      rejected: [{ line: 3, reason: 'Missing code' }],
+    });
+  });
+
+  it('should reject a CSV without a code column', () => {
+    expect(() => parseCodeFile('sku,note\nx,y', 'csv')).toThrow('CSV header needs one of');
+  });
+});
+
+describe('CodePoolService', () => {
+  let store: InMemoryCodePoolStore;
+  let catalog: ReturnType<typeof createCatalog>;
+  let inventory: InventoryService;
+  let pool: CodePoolService;
+
+  beforeEach(() => {
+    store = new InMemoryCodePoolStore();
+    catalog = createCatalog();
+    inventory = new InventoryService();
+    pool = new CodePoolService(store, new SecurityService(), catalog, inventory, {
+      lowPoolThreshold: 2,
+    });
+  });
+
+  it('should store codes encrypted and skip duplicates', async () => {
+    const insert = jest.spyOn(store, 'insert');
+    const first = await pool.importCodes('steam_key', 'KEY-1\nKEY-2\nKEY-2');
+    const second = await pool.importCodes('steam_key', 'KEY-2\nKEY-3');
+
+    expect(first).toEqual(expect.objectContaining({ imported: 2, duplicates: 1 }));
+    expect(second).toEqual(expect.objectContaining({ imported: 1, duplicates: 1 }));
+
+    const stored = JSON.stringify(insert.mock.calls.map(([codes]) => codes));
+    expect(stored).not.toContain('KEY-');
+  });
+
+  it('should derive stock from the unallocated pool', async () => {
+    await pool.importCodes('steam_key', 'KEY-1\nKEY-2\nKEY-3');
+    expect(catalog.items.steam_key?.stock).toEqual(
+      expect.objectContaining({ available: 3, total: 3 })
+    );
+
+    await pool.allocate('order_1', 'item_1', 'steam_key', 2);
+    expect(catalog.items.steam_key?.stock).toEqual(
+      expect.objectContaining({ available: 1, total: 1 })
+    );
+  });
+
+  it('should allocate codes to one order item without double-issuing', async () => {
+    await pool.importCodes('steam_key', 'KEY-1\nKEY-2\nKEY-3');
+
+    const codes = await pool.allocate('order_1', 'item_1', 'steam_key', 2);
+    const again = await pool.allocate('order_1', 'item_1', 'steam_key', 2);
+    const other = await pool.allocate('order_2', 'item_2', 'steam_key', 1);
+
+    expect(codes.map(code => code.code)).toEqual(['KEY-1', 'KEY-2']);
+    expect(again.map(code => code.id)).toEqual(codes.map(code => code.id));
+    expect(other.map(code => code.code)).toEqual(['KEY-3']);
+  });
+
+  it('should allocate nothing when the pool is short', async () => {
+    await pool.importCodes('steam_key', 'KEY-1\nKEY-2');
+
+    await expect(pool.allocate('order_1', 'item_1', 'steam_key', 3)).rejects.toThrow(
+      InsufficientCodesError
+    );
+    expect((await pool.getLevels('steam_key'))[ProductCodeStatus.AVAILABLE]).toBe(2);
+  });
+
+  it('should raise low-pool alerts through the inventory stock check', async () => {
+    await pool.importCodes('steam_key', 'KEY-1\nKEY-2\nKEY-3');
+    await pool.allocate('order_1', 'item_1', 'steam_key', 2);
+
+    const alerts = await pool.checkPoolLevels();
+
+    expect(alerts).toEqual([
+      expect.objectContaining({ productId: 'steam_key', alertType: 'LOW_STOCK', currentStock: 1 }),
+    ]);
+  });
+
+  it('should reissue a code and revoke the one it replaces', async () => {
+    await pool.importCodes('steam_key', 'KEY-1\nKEY-2');
+    const [original] = await pool.allocate('order_1', 'item_1', 'steam_key', 1);
+
+    const replacement = await pool.reissue('item_1', original!.id, 'Already redeemed');
+
+    expect(replacement).toEqual(
+      expect.objectContaining({ code: 'KEY-2', replacesCodeId: original!.id })
+    );
+    expect((await pool.getCodes('item_1')).map(code => [code.code, code.status])).toEqual([
+      ['KEY-1', ProductCodeStatus.REVOKED],
+      ['KEY-2', ProductCodeStatus.ALLOCATED],
+    ]);
+    await expect(pool.reissue('item_1', replacement.id, 'Again')).rejects.toThrow(
+      InsufficientCodesError
+    );
+  });
+});
+
+describe('Code delivery and refunds', () => {
+  const { ProductService } = jest.requireActual<typeof import('../product/ProductService')>(
+    '../product/ProductService'
+  );
+  let pool: CodePoolService;
+  let payments: PaymentService;
+  let gateway: MockPaymentGateway;
+  let orders: OrderService;
+
+  beforeEach(async () => {
+    const catalog: ProductServiceType = new ProductService();
+    (productService.getProduct as jest.Mock).mockImplementation((id: string) =>
+      catalog.getProduct(id)
+    );
+
+    const inventory = new InventoryService();
+    pool = new CodePoolService(
+      new InMemoryCodePoolStore(),
+      new SecurityService(),
+      catalog,
+      inventory
+    );
+    await pool.importCodes('game-key-1', 'KEY-1\nKEY-2\nKEY-3');
+
+    gateway = new MockPaymentGateway({ name: 'card' });
+    const registry = new PaymentGatewayRegistry();
+    registry.register(PaymentMethod.CREDIT_CARD, gateway);
+    payments = new PaymentService({ enabledMethods: [PaymentMethod.CREDIT_CARD] }, registry);
+
+    orders = new OrderService({
+      repository: new InMemoryOrderRepository(),
+      payments,
+      plugins: { notifyRefundProcessed: jest.fn().mockResolvedValue(undefined) },
+      reservations: new StockReservationService(catalog, inventory),
+      codes: pool,
+    });
+  });
+
+  const payForKeys = async (quantity: number) => {
+    const order = await orders.createOrder({
+      userId: '1001',
+      items: [{ productId: 'game-key-1', quantity }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+    });
+    await orders.initiatePayment(order.id);
+
+    const payment = (await payments.getPaymentByOrderId(order.id))!;
+    gateway.setPaymentStatus(payment.gatewayTransactionId!, PaymentStatus.COMPLETED);
+    await payments.updatePaymentStatus(payment.id, PaymentStatus.COMPLETED);
+
+    return { order: (await orders.getOrder(order.id))!, payment };
+  };
+
+  it('should allocate codes when the order completes', async () => {
+    const { order } = await payForKeys(2);
+    const item = order.items[0]!;
+
+    const codes = await orders.getOrderItemCodes(order.id, item.id);
+
+    expect(codes.map(code => code.code)).toEqual(['KEY-1', 'KEY-2']);
+    expect(item.deliveryData?.codeIds).toEqual(codes.map(code => code.id));
+  });
+
+  it('should revoke the codes of refunded units', async () => {
+    const { order } = await payForKeys(2);
+    const item = order.items[0]!;
+
+    await orders.refundOrder(order.id, { items: [{ orderItemId: item.id, quantity: 1 }] });
+
+    expect(
+      (await orders.getOrderItemCodes(order.id, item.id)).map(code => [code.code, code.status])
+    ).toEqual([
+      ['KEY-1', ProductCodeStatus.ALLOCATED],
+      ['KEY-2', ProductCodeStatus.REVOKED],
+    ]);
+    expect((await pool.getLevels('game-key-1'))[ProductCodeStatus.AVAILABLE]).toBe(1);
+  });
+
+  it('should revoke codes on every partial refund of the same item', async () => {
+    const { order } = await payForKeys(3);
+    const item = order.items[0]!;
+
+    await orders.refundOrder(order.id, { items: [{ orderItemId: item.id, quantity: 1 }] });
+    await orders.refundOrder(order.id, { items: [{ orderItemId: item.id, quantity: 1 }] });
+
+    expect(
+      (await orders.getOrderItemCodes(order.id, item.id)).map(code => [code.code, code.status])
+    ).toEqual([
+      ['KEY-1', ProductCodeStatus.ALLOCATED],
+      ['KEY-2', ProductCodeStatus.REVOKED],
+      ['KEY-3', ProductCodeStatus.REVOKED],
+    ]);
+  });
+});
+
+describe('SqlCodePoolStore', () => {
+  let db: Database;
+  let store: SqlCodePoolStore;
+
+  const code = (id: string, fingerprint: string, minute: number): ProductCode => ({
+    id,
+    productId: 'steam_key',
+    encryptedCode: `enc-${id}`,
+    iv: 'iv',
+    fingerprint,
+    status: ProductCodeStatus.AVAILABLE,
+    importedAt: new Date(Date.UTC(2026, 9, 18, 10, minute)),
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs({
+      wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+    db = new SQL.Database();
+    db.run(`CREATE TABLE product_codes (
+      id TEXT PRIMARY KEY, product_id TEXT NOT NULL, encrypted_code TEXT NOT NULL,
+      iv TEXT NOT NULL, fingerprint TEXT NOT NULL, status TEXT NOT NULL, batch_id TEXT,
+      order_id TEXT, order_item_id TEXT, replaces_code_id TEXT, revoked_reason TEXT,
+      imported_at TEXT NOT NULL, allocated_at TEXT, revoked_at TEXT,
+      UNIQUE (product_id, fingerprint)
+    )`);
+
+    const client: SqlClient = {
+      async query(text: string, params: unknown[] = []) {
+        const statement = db.prepare(text);
+        try {
+          const bindings: Record<string, any> = {};
+          params.forEach((value, index) => {
+            bindings[`$${index + 1}`] = value;
+          });
+          statement.bind(bindings);
+
+          const rows: any[] = [];
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+          return { rows };
+        } finally {
+          statement.free();
+        }
+      },
+    };
+    store = new SqlCodePoolStore(client);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should skip codes already in the pool', async () => {
+    await store.insert([code('c1', 'f1', 1), code('c2', 'f2', 2)]);
+
+    const inserted = await store.insert([code('c3', 'f2', 3), code('c4', 'f4', 4)]);
+
+    expect(inserted.map(row => row.id)).toEqual(['c4']);
+    expect((await store.countByStatus('steam_key'))[ProductCodeStatus.AVAILABLE]).toBe(3);
+  });
+
+  it('should allocate the oldest codes or none at all', async () => {
+    await store.insert([code('c2', 'f2', 2), code('c1', 'f1', 1)]);
+    const allocation = { orderId: 'o1', orderItemId: 'i1', allocatedAt: new Date() };
+
+    expect(await store.allocate('steam_key', 3, allocation)).toEqual([]);
+    expect((await store.countByStatus('steam_key'))[ProductCodeStatus.AVAILABLE]).toBe(2);
+
+    const allocated = await store.allocate('steam_key', 1, allocation);
+    expect(allocated.map(row => [row.id, row.status, row.orderItemId])).toEqual([
+      ['c1', ProductCodeStatus.ALLOCATED, 'i1'],
+    ]);
+    expect((await store.findByOrderItem('i1')).map(row => row.id)).toEqual(['c1']);
+  });
+});
@@ -0,0 +1,232 @@
+// ============================================================================
+// Multi-currency Pricing Tests
+// ============================================================================
+
+import { CurrencyService } from '../currency/CurrencyService';
+import {
+  FileExchangeRateProvider,
+  StaticExchangeRateProvider,
+} from '../currency/ExchangeRateProvider';
+import type { ExchangeRateTable } from '../currency/ExchangeRateProvider';
+import { formatMoney, roundMoney } from '../currency/Money';
+import { OrderService } from '../order/OrderService';
+import type { CreateOrderRequest } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { CartService } from '../product/CartService';
+import { PaymentMethod, ProductCategory } from '../../types';
+import type { Product } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+    getProductById: jest.fn(),
+    checkStock: jest.fn(),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+const table: ExchangeRateTable = {
+  base: 'MYR',
+  rates: { MYR: 1, USD: 0.25, SGD: 0.3, JPY: 32 },
+  asOf: new Date('2026-10-01T00:00:00Z'),
+  source: 'test',
+};
+
+describe('Money', () => {
+  it('should round to each currency minor unit', () => {
+    expect(roundMoney(1.005, 'USD')).toBe(1.01);
+    expect(roundMoney(-1.005, 'MYR')).toBe(-1.01);
+    expect(roundMoney(1234.5, 'JPY')).toBe(1235);
+    expect(roundMoney(0.1234567891, 'TON')).toBe(0.123456789);
+  });
+
+  it('should format with the currency minor unit', () => {
+    expect(formatMoney(12.5, 'myr')).toBe('MYR 12.50');
+    expect(formatMoney(300, 'XTR')).toBe('XTR 300');
+  });
+});
+
+describe('CurrencyService', () => {
+  let service: CurrencyService;
+
+  beforeEach(() => {
+    service = new CurrencyService(new StaticExchangeRateProvider(table), {
+      supportedCurrencies: ['MYR', 'USD', 'SGD', 'JPY'],
+    });
+  });
+
+  it('should convert through the base currency and round to the target', async () => {
+    await service.refreshRates();
+
+    expect(service.convert(10, 'USD', 'MYR')).toBe(40);
+    expect(service.convert(10, 'USD', 'SGD')).toBe(12);
+    expect(service.convert(9.99, 'USD', 'JPY')).toBe(1279);
+    expect(service.getRate('usd', 'usd')?.rate).toBe(1);
+  });
+
+  it('should refuse pairs missing from the table', async () => {
+    await service.refreshRates();
+
+    expect(service.getRate('USD', 'EUR')).toBeNull();
+    expect(() => service.convert(1, 'USD', 'EUR')).toThrow('No exchange rate from USD to EUR');
+  });
+
+  it('should lock the rate with its source and timestamps', async () => {
+    const locked = await service.lockRate('USD');
+
+    expect(locked).toEqual(
+      expect.objectContaining({ from: 'USD', to: 'MYR', rate: 4, source: 'test', asOf: table.asOf })
+    );
+    expect(locked.lockedAt).toBeInstanceOf(Date);
+  });
+
+  it('should load an offline rate file and keep the last table when it fails', async () => {
+    const readFile = jest
+      .fn()
+      .mockResolvedValueOnce(
+        JSON.stringify({ base: 'usd', asOf: '2026-10-10', rates: { MYR: 4.5 } })
+      )
+      .mockRejectedValueOnce(new Error('offline'));
+    const fileService = new CurrencyService(new FileExchangeRateProvider('rates.json', readFile));
+
+    await fileService.refreshRates();
+    expect(fileService.convert(2, 'USD', 'MYR')).toBe(9);
+
+    await fileService.refreshRates();
+    expect(fileService.getRate('USD', 'MYR')?.source).toBe('rates.json');
+  });
+
+  it('should reject a malformed rate file', async () => {
+    const provider = new FileExchangeRateProvider('rates.json', async () =>
+      JSON.stringify({ base: 'MYR', rates: { USD: -1 } })
+    );
+
+    await expect(provider.getRates()).rejects.toThrow('rates.json has an invalid rate for USD');
+  });
+
+  it('should persist the display currency in user preferences', () => {
+    const storage: Record<string, string> = {
+      mtyb_user_preferences: JSON.stringify({ language: 'en' }),
+    };
+    (localStorage.getItem as jest.Mock).mockImplementation((key: string) => storage[key] ?? null);
+    (localStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+    const listener = jest.fn();
+    service.onDisplayCurrencyChange(listener);
+
+    service.setDisplayCurrency('SGD');
+
+    expect(service.getDisplayCurrency()).toBe('SGD');
+    expect(JSON.parse(storage.mtyb_user_preferences!)).toEqual({ language: 'en', currency: 'SGD' });
+    expect(listener).toHaveBeenCalledWith('SGD');
+    expect(() => service.setDisplayCurrency('GBP')).toThrow('Unsupported currency: GBP');
+  });
+});
+
+describe('Order pricing in the settlement currency', () => {
+  const products: Record<string, any> = {
+    vpn_usd: { id: 'vpn_usd', name: 'VPN', price: 9.99, currency: 'USD', isActive: true },
+    game_sgd: { id: 'game_sgd', name: 'Game', price: 15, currency: 'SGD', isActive: true },
+    topup_myr: { id: 'topup_myr', name: 'Top-up', price: 20, currency: 'MYR', isActive: true },
+  };
+
+  let orders: OrderService;
+
+  beforeEach(() => {
+    (productService.getProduct as jest.Mock).mockImplementation(async (id: string) => ({
+      success: true,
+      data: products[id],
+    }));
+
+    const payments = new PaymentService({ enabledMethods: [] }, new PaymentGatewayRegistry());
+    const currency = new CurrencyService(new StaticExchangeRateProvider(table));
+    orders = new OrderService({ repository: new InMemoryOrderRepository(), payments, currency });
+  });
+
+  it('should convert each line and record one locked rate per listed currency', async () => {
+    const order = await orders.createOrder({
+      userId: '1001',
+      items: [
+        { productId: 'vpn_usd', quantity: 3 },
+        { productId: 'game_sgd', quantity: 1 },
+        { productId: 'topup_myr', quantity: 1 },
+      ],
+      paymentMethod: PaymentMethod.CURLEC,
+    });
+
+    expect(order.currency).toBe('MYR');
+    expect(order.items.map(item => [item.unitPrice, item.totalPrice])).toEqual([
+      [39.96, 119.88],
+      [50, 50],
+      [20, 20],
+    ]);
+    expect(order.totalAmount).toBe(189.88);
+    expect(order.exchangeRates?.map(rate => [rate.from, rate.to, rate.rate])).toEqual([
+      ['USD', 'MYR', 4],
+      ['SGD', 'MYR', 1 / 0.3],
+    ]);
+  });
+
+  it('should not record rates when every product is listed in the settlement currency', async () => {
+    const order = await orders.createOrder({
+      userId: '1001',
+      items: [{ productId: 'topup_myr', quantity: 1 }],
+      paymentMethod: PaymentMethod.CURLEC,
+    });
+
+    expect(order.totalAmount).toBe(20);
+    expect(order.exchangeRates).toBeUndefined();
+  });
+
+  it('should charge in the settlement currency whatever currency the request names', async () => {
+    const order = await orders.createOrder({
+      userId: '1001',
+      items: [{ productId: 'vpn_usd', quantity: 1 }],
+      paymentMethod: PaymentMethod.CURLEC,
+      currency: 'USD',
+    } as CreateOrderRequest);
+
+    expect(order.currency).toBe('MYR');
+    expect(order.totalAmount).toBe(39.96);
+  });
+});
+
+describe('Cart totals across currencies', () => {
+  const stock = { available: 10, reserved: 0, total: 10, lowStockThreshold: 2 };
+  const listing = { category: ProductCategory.GAMING, isActive: true, pluginId: 'codes', stock };
+  const products: Record<string, Product> = {
+    topup_myr: { ...listing, id: 'topup_myr', name: 'Top-up', price: 20, currency: 'MYR' },
+    gift_btc: { ...listing, id: 'gift_btc', name: 'Gift card', price: 0.001, currency: 'BTC' },
+  } as Record<string, Product>;
+
+  beforeEach(() => {
+    // No display currency, so the cart is priced in its first item's currency
+    (localStorage.getItem as jest.Mock).mockReturnValue(null);
+    (productService.getProductById as jest.Mock).mockImplementation(
+      async (id: string) => products[id]
+    );
+    (productService.checkStock as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('should leave items without an exchange rate out of the totals and flag them', async () => {
+    const cart = new CartService();
+    cart.setAutoRecalculate(false);
+    await cart.addToCart('topup_myr', 2);
+    await cart.addToCart('gift_btc', 1);
+
+    expect(cart.getTotalValue()).toBe(40);
+    expect(cart.getCartState().error).toBe('Prices of Gift card cannot be shown in MYR');
+
+    const summary = cart.getCartSummary();
+    expect(summary.subtotal).toBe(40);
+    expect(summary.unpricedProductIds).toEqual(['gift_btc']);
+
+    const validation = await cart.validateCart();
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toEqual(['Price of Gift card cannot be shown in MYR']);
+  });
+});
@@ -0,0 +1,405 @@
+// ============================================================================
+// Delivery Queue Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { DeliveryQueue } from '../delivery/DeliveryQueue';
+import type { DeliveryRetryPolicy, DeliveryWorker } from '../delivery/DeliveryQueue';
+import { InMemoryDeliveryJobStore, SqlDeliveryJobStore } from '../delivery/DeliveryJobStore';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { OrderService } from '../order/OrderService';
+import type { PluginExecutor } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import type { StockReservationService } from '../product/StockReservationService';
+import { OrderStatus, PaymentMethod, ProductCategory } from '../../types';
+import type { DeliveryJob, DeliveryResult, Product } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+    getProductById: jest.fn(),
+    checkStock: jest.fn(),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+// sql.js needs Node's text codecs, which jsdom does not expose
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const POLICY: DeliveryRetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10_000 };
+const SECOND = 1000;
+
+function product(id: string, pluginId: string): Product {
+  return {
+    id,
+    name: id,
+    price: 10,
+    currency: 'MYR',
+    category: ProductCategory.DIGITAL,
+    isActive: true,
+    pluginId,
+  } as Product;
+}
+
+const vpn = product('vpn', 'vpn-plugin');
+const steam = product('steam', 'steam-plugin');
+
+describe('DeliveryQueue', () => {
+  let store: InMemoryDeliveryJobStore;
+  let queue: DeliveryQueue;
+  let deliver: jest.Mock<Promise<DeliveryResult>, [DeliveryJob]>;
+  let updates: Array<[string, string]>;
+
+  beforeEach(() => {
+    store = new InMemoryDeliveryJobStore();
+    queue = new DeliveryQueue(store, POLICY, 60 * SECOND);
+    deliver = jest.fn();
+    updates = [];
+    const worker: DeliveryWorker = {
+      deliver,
+      onJobUpdated: job => {
+        updates.push([job.orderItemId, job.status]);
+        return Promise.resolve();
+      },
+    };
+    queue.setWorker(worker);
+  });
+
+  const enqueueOne = async () =>
+    (
+      await queue.enqueue([
+        { orderId: 'ord-1', orderItemId: 'itm-1', productId: 'vpn', pluginId: 'vpn-plugin' },
+      ])
+    )[0] as DeliveryJob;
+
+  it('should retry retryable failures with exponential backoff until delivered', async () => {
+    deliver
+      .mockResolvedValueOnce({ success: false, error: 'API down', retryable: true })
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce({ success: true });
+
+    const first = await enqueueOne();
+    expect(first).toMatchObject({ status: 'queued', attempts: 1, lastError: 'API down' });
+    const firstDue = first.nextAttemptAt?.getTime() ?? 0;
+    expect(firstDue - (first.lastAttemptAt?.getTime() ?? 0)).toBeGreaterThanOrEqual(SECOND);
+
+    // Not due yet
+    expect(await queue.processDueJobs(new Date(firstDue - 1))).toEqual([]);
+
+    const [second] = await queue.processDueJobs(new Date(firstDue));
+    expect(second).toMatchObject({ status: 'queued', attempts: 2, lastError: 'timeout' });
+    const secondDelay =
+      (second?.nextAttemptAt?.getTime() ?? 0) - (second?.lastAttemptAt?.getTime() ?? 0);
+    expect(secondDelay).toBeGreaterThanOrEqual(2 * SECOND);
+
+    const [third] = await queue.processDueJobs(second?.nextAttemptAt);
+    expect(third).toMatchObject({ status: 'delivered', attempts: 3 });
+    expect(third?.lastError).toBeUndefined();
+    expect(updates.map(([, status]) => status)).toEqual([
+      'queued',
+      'in_progress',
+      'queued',
+      'in_progress',
+      'queued',
+      'in_progress',
+      'delivered',
+    ]);
+  });
+
+  it('should dead-letter permanent failures and jobs that run out of attempts', async () => {
+    deliver.mockResolvedValueOnce({ success: false, error: 'Unknown SKU', retryable: false });
+    const permanent = await enqueueOne();
+    expect(permanent).toMatchObject({
+      status: 'dead_letter',
+      attempts: 1,
+      lastError: 'Unknown SKU',
+    });
+
+    deliver.mockResolvedValue({ success: false, error: 'Still down', retryable: true });
+    let job = await enqueueOne();
+    while (job.status === 'queued') {
+      [job] = (await queue.processDueJobs(job.nextAttemptAt)) as [DeliveryJob];
+    }
+    expect(job).toMatchObject({ status: 'dead_letter', attempts: 3, lastError: 'Still down' });
+    expect((await queue.getDeadLetters()).map(deadLetter => deadLetter.id)).toEqual([
+      permanent.id,
+      job.id,
+    ]);
+  });
+
+  it('should re-drive dead letters with a fresh set of attempts but never delivered jobs', async () => {
+    deliver.mockResolvedValueOnce({ success: false, error: 'Bad config', retryable: false });
+    const deadLetter = await enqueueOne();
+
+    deliver.mockResolvedValueOnce({ success: true });
+    const redriven = await queue.redrive(deadLetter.id, 'admin-1');
+    expect(redriven.data).toMatchObject({
+      status: 'delivered',
+      attempts: 1,
+      redrivenBy: 'admin-1',
+    });
+
+    const again = await queue.redrive(deadLetter.id, 'admin-1');
+    expect(again.error?.code).toBe('DELIVERY_JOB_NOT_REDRIVABLE');
+    expect(deliver).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pick up jobs left in progress past the stall timeout', async () => {
+    const now = new Date();
+    await store.save({
+      id: 'dlv_stalled',
+      orderId: 'ord-1',
+      orderItemId: 'itm-1',
+      productId: 'vpn',
+      pluginId: 'vpn-plugin',
+      status: 'in_progress',
+      attempts: 1,
+      lastAttemptAt: new Date(now.getTime() - 61 * SECOND),
+      createdAt: now,
+      updatedAt: now,
+    });
+    deliver.mockResolvedValue({ success: true });
+
+    const [recovered] = await queue.processDueJobs(now);
+
+    expect(recovered).toMatchObject({ id: 'dlv_stalled', status: 'delivered', attempts: 2 });
+  });
+});
+
+describe('Order fulfilment', () => {
+  let repository: InMemoryOrderRepository;
+  let executor: jest.Mocked<PluginExecutor>;
+  let orders: OrderService;
+
+  beforeEach(() => {
+    (productService.getProduct as jest.Mock).mockImplementation((id: string) =>
+      Promise.resolve({ success: true, data: [vpn, steam].find(p => p.id === id) })
+    );
+    repository = new InMemoryOrderRepository();
+    executor = { executePlugin: jest.fn() };
+    const reservations = {
+      reserve: jest.fn().mockResolvedValue([]),
+      commit: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+
+    orders = new OrderService({
+      repository,
+      reservations: reservations as unknown as StockReservationService,
+      delivery: executor,
+      fulfilment: new DeliveryQueue(new InMemoryDeliveryJobStore(), POLICY),
+    });
+  });
+
+  const completeOrder = async (metadata?: Record<string, any>) => {
+    const order = await orders.createOrder({
+      userId: 'user-1',
+      items: [
+        { productId: 'vpn', quantity: 1 },
+        { productId: 'steam', quantity: 2 },
+      ],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+      currency: 'MYR',
+      ...(metadata && { metadata }),
+    });
+    await orders.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await orders.updateOrderStatus(order.id, OrderStatus.COMPLETED);
+    return (await repository.findById(order.id))!;
+  };
+
+  it('should queue a delivery per item after payment and mirror its status on the item', async () => {
+    executor.executePlugin.mockImplementation(pluginId =>
+      Promise.resolve(
+        pluginId === 'steam-plugin'
+          ? { success: false, error: 'Steam API unavailable', retryable: true }
+          : { success: true, deliveryData: { account: 'vpn-account' } }
+      )
+    );
+
+    const order = await completeOrder();
+
+    expect(order.items.map(item => item.deliveryStatus)).toEqual(['delivered', 'queued']);
+    expect(order.items[0]?.deliveryData).toEqual({ account: 'vpn-account' });
+    expect(executor.executePlugin.mock.calls[1]?.[1].config).toEqual({ quantity: 2 });
+
+    const jobs = await orders.getDeliveryJobs(order.id);
+    expect(jobs.map(job => [job.pluginId, job.status])).toEqual([
+      ['vpn-plugin', 'delivered'],
+      ['steam-plugin', 'queued'],
+    ]);
+
+    executor.executePlugin.mockResolvedValue({ success: true });
+    await orders.retryDueDeliveries(jobs[1]?.nextAttemptAt);
+
+    expect((await repository.findById(order.id))?.items[1]?.deliveryStatus).toBe('delivered');
+    expect(executor.executePlugin).toHaveBeenCalledTimes(3);
+  });
+
+  it('should mark items failed when their delivery is dead-lettered and let admins re-drive it', async () => {
+    executor.executePlugin.mockResolvedValue({
+      success: false,
+      error: 'Region not supported',
+      retryable: false,
+    });
+
+    const order = await completeOrder();
+
+    expect(order.items.map(item => item.deliveryStatus)).toEqual(['failed', 'failed']);
+    const failed = await orders.getFailedDeliveries();
+    expect(failed.map(job => job.lastError)).toEqual([
+      'Region not supported',
+      'Region not supported',
+    ]);
+
+    executor.executePlugin.mockResolvedValue({ success: true });
+    const redriven = await orders.redriveDelivery(failed[0]!.id, 'admin-1');
+
+    expect(redriven.success).toBe(true);
+    expect((await repository.findById(order.id))?.items[0]?.deliveryStatus).toBe('delivered');
+    expect(await orders.getFailedDeliveries()).toHaveLength(1);
+  });
+
+  it('should not queue deliveries for subscription renewals', async () => {
+    const order = await completeOrder({ subscriptionId: 'sub-1', renewal: true });
+
+    expect(executor.executePlugin).not.toHaveBeenCalled();
+    expect(await orders.getDeliveryJobs(order.id)).toEqual([]);
+    expect(order.items[0]?.deliveryStatus).toBeUndefined();
+  });
+});
+
+describe('SqlDeliveryJobStore', () => {
+  let db: Database;
+  let store: SqlDeliveryJobStore;
+
+  // The delivery_jobs table of migration 014
+  const SQLITE_SCHEMA = `
+    CREATE TABLE delivery_jobs (
+      id TEXT PRIMARY KEY,
+      order_ref TEXT NOT NULL,
+      order_item_ref TEXT NOT NULL,
+      product_id TEXT NOT NULL,
+      plugin_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'in_progress', 'delivered', 'dead_letter')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT,
+      last_attempt_at TEXT,
+      last_error TEXT,
+      redriven_by TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      delivered_at TEXT
+    );
+  `;
+
+  const now = new Date('2026-10-18T12:00:00Z');
+  const at = (seconds: number) => new Date(now.getTime() + seconds * SECOND);
+
+  const job = (id: string, overrides: Partial<DeliveryJob> = {}): DeliveryJob => ({
+    id,
+    orderId: 'order-1',
+    orderItemId: `item-${id}`,
+    productId: 'vpn',
+    pluginId: 'vpn-plugin',
+    status: 'queued',
+    attempts: 0,
+    createdAt: at(-600),
+    updatedAt: at(-600),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs({
+      wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+    db = new SQL.Database();
+    db.run(SQLITE_SCHEMA);
+
+    const client: SqlClient = {
+      async query(text: string, params: unknown[] = []) {
+        const statement = db.prepare(text);
+        try {
+          const bindings: Record<string, any> = {};
+          params.forEach((value, index) => {
+            bindings[`$${index + 1}`] = typeof value === 'boolean' ? Number(value) : value;
+          });
+          statement.bind(bindings);
+
+          const rows: any[] = [];
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+          return { rows };
+        } finally {
+          statement.free();
+        }
+      },
+    };
+    store = new SqlDeliveryJobStore(client);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should round-trip a job and update it in place', async () => {
+    const queued = job('job_1');
+    await store.save(queued);
+    expect(await store.findById('job_1')).toEqual(queued);
+
+    const deadLettered: DeliveryJob = {
+      ...queued,
+      status: 'dead_letter',
+      attempts: 3,
+      lastAttemptAt: at(-60),
+      lastError: 'Provider unavailable',
+      redrivenBy: 'admin-1',
+      updatedAt: at(-60),
+    };
+    await store.save(deadLettered);
+
+    expect(await store.findById('job_1')).toEqual(deadLettered);
+    expect(await store.findById('job_2')).toBeNull();
+  });
+
+  it('should list jobs by order and by status, oldest first', async () => {
+    await store.save(job('job_b', { createdAt: at(-100) }));
+    await store.save(
+      job('job_a', { createdAt: at(-200), status: 'delivered', deliveredAt: at(-50) })
+    );
+    await store.save(job('job_c', { orderId: 'order-2' }));
+
+    expect((await store.findByOrder('order-1')).map(found => found.id)).toEqual(['job_a', 'job_b']);
+    expect((await store.findByStatus('queued')).map(found => found.id)).toEqual(['job_c', 'job_b']);
+    expect((await store.findByStatus('delivered'))[0]?.deliveredAt).toEqual(at(-50));
+  });
+
+  it('should find the same due jobs as the in-memory store', async () => {
+    const memory = new InMemoryDeliveryJobStore();
+    const jobs = [
+      job('fresh'),
+      job('retry_due', { attempts: 1, nextAttemptAt: at(-1) }),
+      job('retry_later', { attempts: 1, nextAttemptAt: at(30) }),
+      job('stalled', { status: 'in_progress', attempts: 1, lastAttemptAt: at(-400) }),
+      job('running', { status: 'in_progress', attempts: 1, lastAttemptAt: at(-10) }),
+      job('delivered', { status: 'delivered', attempts: 1, deliveredAt: at(-5) }),
+      job('dead', { status: 'dead_letter', attempts: 3, nextAttemptAt: at(-1) }),
+    ];
+    for (const [index, saved] of jobs.entries()) {
+      const ordered = { ...saved, createdAt: at(-600 + index) };
+      await store.save(ordered);
+      await memory.save(ordered);
+    }
+
+    const stalledBefore = at(-300);
+    const due = (await store.findDue(now, stalledBefore)).map(found => found.id);
+
+    expect(due).toEqual(['fresh', 'retry_due', 'stalled']);
+    expect(due).toEqual((await memory.findDue(now, stalledBefore)).map(found => found.id));
+  });
+});
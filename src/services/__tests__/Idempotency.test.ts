@@ -0,0 +1,224 @@
+// ============================================================================
+// Idempotency Tests
+// ============================================================================
+
+import {
+  IdempotencyConflictError,
+  IdempotencyGuard,
+  InMemoryIdempotencyStore,
+} from '../../core/utils/Idempotency';
+import { OrderService } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { MockPaymentGateway } from '../payment/MockPaymentGateway';
+import { paymentAPI } from '../../api/paymentAPI';
+import { PaymentMethod } from '../../types';
+import type { CreateOrderRequest } from '../order/OrderService';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+describe('IdempotencyGuard', () => {
+  let guard: IdempotencyGuard;
+
+  beforeEach(() => {
+    guard = new IdempotencyGuard(new InMemoryIdempotencyStore(), 1000);
+  });
+
+  it('should run concurrent calls with the same key once', async () => {
+    const operation = jest.fn(async () => ({ id: 'result_1' }));
+
+    const results = await Promise.all([
+      guard.execute('test', 'key_1', { a: 1 }, operation),
+      guard.execute('test', 'key_1', { a: 1 }, operation),
+      guard.execute('test', 'key_1', { a: 1 }, operation),
+    ]);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(new Set(results).size).toBe(1);
+  });
+
+  it('should treat payloads with reordered keys as the same request', async () => {
+    const operation = jest.fn(async () => 'ok');
+
+    await guard.execute('test', 'key_1', { a: 1, b: { c: 2, d: 3 } }, operation);
+    await guard.execute('test', 'key_1', { b: { d: 3, c: 2 }, a: 1 }, operation);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a reused key with a different payload', async () => {
+    await guard.execute('test', 'key_1', { a: 1 }, async () => 'ok');
+
+    await expect(guard.execute('test', 'key_1', { a: 2 }, async () => 'ok')).rejects.toThrow(
+      IdempotencyConflictError
+    );
+  });
+
+  it('should run the operation again once the record expires', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const operation = jest.fn(async () => 'ok');
+
+    await guard.execute('test', 'key_1', {}, operation);
+    clock.mockReturnValue(now + 1001);
+    await guard.execute('test', 'key_1', {}, operation);
+
+    expect(operation).toHaveBeenCalledTimes(2);
+    clock.mockRestore();
+  });
+
+  it('should not replay responses rejected by persistWhen', async () => {
+    const operation = jest
+      .fn()
+      .mockResolvedValueOnce({ success: false })
+      .mockResolvedValueOnce({ success: true });
+    const options = { persistWhen: (response: { success: boolean }) => response.success };
+
+    await guard.execute('test', 'key_1', {}, operation, options);
+    const second = await guard.execute('test', 'key_1', {}, operation, options);
+
+    expect(second).toEqual({ success: true });
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not remember operations that throw', async () => {
+    const operation = jest.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue('ok');
+
+    await expect(guard.execute('test', 'key_1', {}, operation)).rejects.toThrow('boom');
+    await expect(guard.execute('test', 'key_1', {}, operation)).resolves.toBe('ok');
+  });
+});
+
+describe('OrderService idempotency', () => {
+  let orders: OrderService;
+  let gateway: MockPaymentGateway;
+
+  const request: CreateOrderRequest = {
+    userId: 'user_1',
+    items: [{ productId: 'product_1', quantity: 1 }],
+    paymentMethod: PaymentMethod.CREDIT_CARD,
+  };
+
+  beforeEach(() => {
+    (productService.getProduct as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { id: 'product_1', name: 'Test Product', price: 20, isActive: true },
+    });
+
+    gateway = new MockPaymentGateway({ name: 'card' });
+    const registry = new PaymentGatewayRegistry();
+    registry.register(PaymentMethod.CREDIT_CARD, gateway);
+    const payments = new PaymentService({ enabledMethods: [PaymentMethod.CREDIT_CARD] }, registry);
+
+    orders = new OrderService({ repository: new InMemoryOrderRepository(), payments });
+  });
+
+  it('should create one order for concurrent requests with the same key', async () => {
+    const created = await Promise.all(
+      Array.from({ length: 5 }, () => orders.createOrder(request, { idempotencyKey: 'tap_1' }))
+    );
+
+    expect(new Set(created.map(order => order.id)).size).toBe(1);
+    expect((await orders.getUserOrders('user_1')).total).toBe(1);
+  });
+
+  it('should create separate orders without a key', async () => {
+    await Promise.all([orders.createOrder(request), orders.createOrder(request)]);
+
+    expect((await orders.getUserOrders('user_1')).total).toBe(2);
+  });
+
+  it('should reject the same key for a different cart', async () => {
+    await orders.createOrder(request, { idempotencyKey: 'tap_1' });
+
+    await expect(
+      orders.createOrder(
+        { ...request, items: [{ productId: 'product_1', quantity: 2 }] },
+        { idempotencyKey: 'tap_1' }
+      )
+    ).rejects.toThrow(IdempotencyConflictError);
+  });
+
+  it('should create one payment for concurrent initiations with the same key', async () => {
+    const order = await orders.createOrder(request);
+    const createPayment = jest.spyOn(gateway, 'createPayment');
+
+    const results = await Promise.all([
+      orders.initiatePayment(order.id, { idempotencyKey: 'pay_1' }),
+      orders.initiatePayment(order.id, { idempotencyKey: 'pay_1' }),
+    ]);
+    const replayed = await orders.initiatePayment(order.id, { idempotencyKey: 'pay_1' });
+
+    expect(createPayment).toHaveBeenCalledTimes(1);
+    expect(results.every(result => result.success)).toBe(true);
+    expect(replayed).toEqual(results[0]);
+  });
+
+  it('should report a key reused for another order as a failure', async () => {
+    const first = await orders.createOrder(request);
+    const second = await orders.createOrder(request);
+
+    await orders.initiatePayment(first.id, { idempotencyKey: 'pay_1' });
+    const result = await orders.initiatePayment(second.id, { idempotencyKey: 'pay_1' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('already used');
+  });
+
+  it("should not let another user's key collide with a payment", async () => {
+    const mine = await orders.createOrder(request);
+    const theirs = await orders.createOrder({ ...request, userId: 'user_2' });
+
+    await orders.initiatePayment(mine.id, { idempotencyKey: 'pay_1' });
+    const result = await orders.initiatePayment(theirs.id, { idempotencyKey: 'pay_1' });
+
+    expect(result.success).toBe(true);
+    expect(result.paymentId).toBeDefined();
+  });
+});
+
+describe('paymentAPI idempotency', () => {
+  const intent = {
+    amount: 20,
+    currency: 'MYR',
+    paymentMethod: 'CREDIT_CARD',
+    orderId: 'ord_1',
+  };
+
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({
+      json: async () => ({ success: true, data: { paymentId: 'pay_1' } }),
+    });
+  });
+
+  it('should send one request with the key header for a double tap', async () => {
+    const [first, second] = await Promise.all([
+      paymentAPI.createPaymentIntent(intent, { idempotencyKey: 'intent_1' }),
+      paymentAPI.createPaymentIntent(intent, { idempotencyKey: 'intent_1' }),
+    ]);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect((global.fetch as jest.Mock).mock.calls[0][1].headers['Idempotency-Key']).toBe(
+      'intent_1'
+    );
+    expect(second).toEqual(first);
+  });
+
+  it('should return a conflict error when the key is reused with another payload', async () => {
+    await paymentAPI.createPaymentIntent(intent, { idempotencyKey: 'intent_2' });
+
+    const result = await paymentAPI.createPaymentIntent(
+      { ...intent, amount: 25 },
+      { idempotencyKey: 'intent_2' }
+    );
+
+    expect(result).toEqual({ success: false, error: 'IDEMPOTENCY_KEY_CONFLICT' });
+  });
+});
@@ -0,0 +1,179 @@
+// ============================================================================
+// Inventory Forecasting Tests
+// ============================================================================
+
+import {
+  dailySales,
+  exponentialSmoothing,
+  forecastInventory,
+  movingAverage,
+} from '../product/InventoryForecast';
+import { InventoryService } from '../product/InventoryService';
+import type { InventoryTransaction } from '../product/InventoryService';
+import { ProductCategory } from '../../types';
+import type { Product } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-18T12:00:00Z');
+
+function sale(productId: string, quantity: number, daysAgo: number): InventoryTransaction {
+  return {
+    id: `sale-${productId}-${daysAgo}-${quantity}`,
+    productId,
+    type: 'SALE',
+    quantity,
+    previousStock: 0,
+    newStock: 0,
+    triggeredBy: 'system',
+    createdAt: new Date(NOW.getTime() - daysAgo * DAY - 60_000),
+  };
+}
+
+/** `perDay` units sold on each of the last `days` days */
+function steadySales(productId: string, perDay: number, days = 28): InventoryTransaction[] {
+  return Array.from({ length: days }, (_, day) => sale(productId, perDay, day));
+}
+
+function product(id: string, available: number, pluginId = 'steam'): Product {
+  return {
+    id,
+    name: id,
+    price: 10,
+    currency: 'MYR',
+    category: ProductCategory.GAMING,
+    isActive: true,
+    pluginId,
+    stock: { available, reserved: 0, total: available, lowStockThreshold: 5 },
+  } as Product;
+}
+
+describe('forecasting helpers', () => {
+  it('should bucket SALE transactions into days ending now', () => {
+    const transactions: InventoryTransaction[] = [
+      sale('steam', 2, 0),
+      sale('steam', 3, 0),
+      sale('steam', 4, 2),
+      sale('steam', 9, 5), // outside a 3-day window
+      sale('netflix', 7, 1),
+      { ...sale('steam', 50, 1), type: 'RESTOCK' },
+    ];
+
+    expect(dailySales(transactions, 'steam', 3, NOW)).toEqual([4, 0, 5]);
+  });
+
+  it('should average the recent window and smooth toward recent days', () => {
+    const series = [0, 0, 0, 10, 10, 10];
+
+    expect(movingAverage(series, 3)).toBe(10);
+    expect(movingAverage(series, 6)).toBe(5);
+    // 10 * (1 - 0.5^3)
+    expect(exponentialSmoothing(series, 0.5)).toBeCloseTo(8.75);
+    expect(exponentialSmoothing([], 0.5)).toBe(0);
+  });
+});
+
+describe('forecastInventory', () => {
+  it('should predict cover, stock-out date and restock rule from steady demand', () => {
+    const forecast = forecastInventory('steam', 20, steadySales('steam', 5), {}, NOW);
+
+    expect(forecast).toMatchObject({
+      movingAverageDailySales: 5,
+      forecastDailySales: 5,
+      daysOfCover: 4,
+      predictedStockOutDate: new Date(NOW.getTime() + 4 * DAY),
+      // 5 a day over the 2-day lead time and 1 safety day
+      reorderPoint: 15,
+      suggestedRestockQuantity: 0,
+      suggestedRule: { lowStockThreshold: 15, autoRestockAmount: 70 },
+    });
+  });
+
+  it('should suggest topping up to a full cover once at the reorder point', () => {
+    const forecast = forecastInventory('steam', 10, steadySales('steam', 5), {}, NOW);
+
+    expect(forecast.suggestedRestockQuantity).toBe(15 + 70 - 10);
+  });
+
+  it('should not predict a stock-out without sales', () => {
+    const forecast = forecastInventory('steam', 10, [], {}, NOW);
+
+    expect(forecast).toMatchObject({
+      forecastDailySales: 0,
+      daysOfCover: null,
+      predictedStockOutDate: null,
+      suggestedRestockQuantity: 0,
+      suggestedRule: null,
+    });
+  });
+});
+
+describe('InventoryService forecasting', () => {
+  let inventory: InventoryService;
+
+  beforeEach(async () => {
+    // One sale of 4 every day, the last one half a day ago
+    jest.useFakeTimers({ now: NOW.getTime() - 27.5 * DAY });
+    inventory = new InventoryService();
+    for (let day = 0; day < 28; day++) {
+      await inventory.recordTransaction({
+        productId: 'steam-wallet',
+        type: 'SALE',
+        quantity: 4,
+        previousStock: 0,
+        newStock: 0,
+        triggeredBy: 'system',
+        metadata: { pluginId: 'steam' },
+      });
+      jest.advanceTimersByTime(DAY);
+    }
+    jest.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should feed the forecast into the product AUTO_RESTOCK rule', async () => {
+    const steamWallet = product('steam-wallet', 30);
+
+    const created = await inventory.applyForecastRestockRule(steamWallet);
+    expect(created.data).toMatchObject({
+      productId: 'steam-wallet',
+      ruleType: 'AUTO_RESTOCK',
+      conditions: { lowStockThreshold: 12, autoRestockAmount: 56, outOfStockAction: 'restock' },
+    });
+
+    // A second run updates the same rule instead of adding another
+    const updated = await inventory.applyForecastRestockRule(steamWallet, { targetCoverDays: 7 });
+    expect(updated.data?.id).toBe(created.data?.id);
+    expect(updated.data?.conditions.autoRestockAmount).toBe(28);
+    expect(
+      (await inventory.getInventoryRules('steam-wallet')).filter(
+        rule => rule.productId === 'steam-wallet'
+      )
+    ).toHaveLength(1);
+
+    // The product rule wins over the catch-all default rule
+    const restock = await inventory.processAutoRestock(product('steam-wallet', 12));
+    expect(restock.data).toEqual({ restocked: true, newStock: 40 });
+  });
+
+  it('should refuse to set a rule for products without sales', async () => {
+    const result = await inventory.applyForecastRestockRule(product('gift-card', 3));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('NO_SALES_HISTORY');
+  });
+
+  it('should include forecasts in the plugin inventory health view', async () => {
+    const health = await inventory.getPluginInventoryHealth('steam', [
+      product('steam-wallet', 8),
+      product('vpn-monthly', 100, 'vpn'),
+    ]);
+
+    expect(health.data?.forecasts).toEqual([
+      expect.objectContaining({ productId: 'steam-wallet', daysOfCover: 2 }),
+    ]);
+    expect(health.data?.productsNeedingRestock).toBe(1);
+  });
+});
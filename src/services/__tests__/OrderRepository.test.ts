@@ -0,0 +1,306 @@
+// ============================================================================
+// Order Repository Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import type { OrderRepository } from '../order/OrderRepository';
+import { SqlOrderRepository } from '../order/SqlOrderRepository';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { OrderStatus, PaymentMethod, ProductCategory, ProductStatus } from '../../types';
+import type { Order, Product } from '../../types';
+
+// The store-order columns of database/schema.sql + migrations 002, 003, 006, 007 and 014
+const SQLITE_SCHEMA = `
+  CREATE TABLE orders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    order_number TEXT UNIQUE NOT NULL,
+    customer_ref TEXT,
+    status TEXT DEFAULT 'pending',
+    total_amount REAL NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    payment_method TEXT,
+    payment_reference TEXT,
+    delivery_data TEXT,
+    notes TEXT,
+    metadata TEXT DEFAULT '{}',
+    exchange_rates TEXT,
+    tax_amount REAL DEFAULT 0,
+    tax_lines TEXT,
+    discount_amount REAL DEFAULT 0,
+    applied_promotions TEXT,
+    invoice_number TEXT UNIQUE,
+    invoiced_at TEXT,
+    created_at TEXT,
+    updated_at TEXT,
+    completed_at TEXT
+  );
+  CREATE TABLE order_items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    line_number INTEGER NOT NULL DEFAULT 0,
+    item_ref TEXT,
+    product_id TEXT,
+    product_snapshot TEXT,
+    quantity INTEGER DEFAULT 1,
+    unit_price REAL NOT NULL,
+    total_price REAL NOT NULL,
+    status TEXT DEFAULT 'pending',
+    delivery_data TEXT,
+    delivery_status TEXT
+  );
+  CREATE TABLE order_status_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    reason TEXT,
+    metadata TEXT,
+    changed_at TEXT NOT NULL,
+    UNIQUE (order_id, sequence)
+  );
+`;
+
+// sql.js needs Node's text codecs, which jsdom does not expose
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+function createSqliteClient(db: Database): SqlClient {
+  return {
+    async query(text: string, params: unknown[] = []) {
+      const statement = db.prepare(text);
+      try {
+        const bindings: Record<string, any> = {};
+        params.forEach((value, index) => {
+          bindings[`$${index + 1}`] = value;
+        });
+        statement.bind(bindings);
+
+        const rows: any[] = [];
+        while (statement.step()) {
+          rows.push(statement.getAsObject());
+        }
+        return { rows };
+      } finally {
+        statement.free();
+      }
+    },
+  };
+}
+
+const product: Product = {
+  id: 'product_1',
+  name: 'Test Product',
+  description: 'A test product',
+  price: 25,
+  currency: 'MYR',
+  category: ProductCategory.VPN,
+  pluginId: 'vpn-plugin',
+  status: ProductStatus.ACTIVE,
+  isActive: true,
+  isFeatured: false,
+  tags: [],
+  images: [],
+  deliveryInfo: { type: 'instant' },
+  metadata: {},
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+function buildOrder(id: string, userId: string, status: OrderStatus, createdAt: string): Order {
+  return {
+    id,
+    userId,
+    items: [
+      {
+        id: `${id}_item_1`,
+        productId: product.id,
+        product,
+        quantity: 2,
+        unitPrice: 25,
+        totalPrice: 50,
+        status,
+      },
+      {
+        id: `${id}_item_2`,
+        productId: product.id,
+        product,
+        quantity: 1,
+        unitPrice: 25,
+        totalPrice: 25,
+        deliveryData: { email: 'buyer@example.com' },
+        status,
+      },
+    ],
+    totalAmount: 75,
+    currency: 'MYR',
+    status,
+    paymentMethod: PaymentMethod.CURLEC,
+    metadata: { source: 'test' },
+    statusHistory: [
+      {
+        from: null,
+        to: OrderStatus.PENDING,
+        changedBy: userId,
+        changedAt: new Date(createdAt),
+        reason: 'Order created',
+      },
+    ],
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt),
+  };
+}
+
+const variants: Array<[string, () => Promise<OrderRepository>]> = [
+  ['InMemoryOrderRepository', async () => new InMemoryOrderRepository()],
+  [
+    'SqlOrderRepository (SQLite)',
+    async () => {
+      // jsdom has no wasm fetch, so hand sql.js the binary directly
+      const SQL = await initSqlJs({
+        wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+      });
+      const db = new SQL.Database();
+      db.exec(SQLITE_SCHEMA);
+      return new SqlOrderRepository(createSqliteClient(db));
+    },
+  ],
+];
+
+describe.each(variants)('%s', (_name, createRepository) => {
+  let repository: OrderRepository;
+
+  beforeEach(async () => {
+    repository = await createRepository();
+
+    await repository.save(
+      buildOrder('ord_1', 'user_a', OrderStatus.COMPLETED, '2026-03-01T10:00:00Z')
+    );
+    await repository.save(
+      buildOrder('ord_2', 'user_a', OrderStatus.PENDING, '2026-03-02T10:00:00Z')
+    );
+    await repository.save(
+      buildOrder('ord_3', 'user_b', OrderStatus.COMPLETED, '2026-03-03T10:00:00Z')
+    );
+    await repository.save(
+      buildOrder('ord_4', 'user_a', OrderStatus.FAILED, '2026-03-04T10:00:00Z')
+    );
+  });
+
+  it('should round-trip an order with its items', async () => {
+    const order = await repository.findById('ord_2');
+
+    expect(order).toEqual(
+      expect.objectContaining({
+        id: 'ord_2',
+        userId: 'user_a',
+        totalAmount: 75,
+        status: OrderStatus.PENDING,
+        paymentMethod: PaymentMethod.CURLEC,
+        metadata: { source: 'test' },
+        createdAt: new Date('2026-03-02T10:00:00Z'),
+      })
+    );
+    expect(order?.items.map(item => item.id)).toEqual(['ord_2_item_1', 'ord_2_item_2']);
+    expect(order?.items[1]?.deliveryData).toEqual({ email: 'buyer@example.com' });
+    expect(order?.items[0]?.product.name).toBe('Test Product');
+  });
+
+  it('should return null for unknown orders', async () => {
+    expect(await repository.findById('ord_missing')).toBeNull();
+  });
+
+  it('should update an existing order on save', async () => {
+    const order = (await repository.findById('ord_2'))!;
+    order.status = OrderStatus.PROCESSING;
+    order.paymentId = 'pay_123';
+    order.items = order.items.slice(0, 1);
+    await repository.save(order);
+
+    const reloaded = await repository.findById('ord_2');
+    const all = await repository.findMany();
+
+    expect(reloaded?.status).toBe(OrderStatus.PROCESSING);
+    expect(reloaded?.paymentId).toBe('pay_123');
+    expect(reloaded?.items).toHaveLength(1);
+    expect(all.total).toBe(4);
+  });
+
+  it('should append new status history entries', async () => {
+    const order = (await repository.findById('ord_2'))!;
+    order.statusHistory = [
+      ...order.statusHistory,
+      {
+        from: OrderStatus.PENDING,
+        to: OrderStatus.PROCESSING,
+        changedBy: 'system',
+        changedAt: new Date('2026-03-02T10:05:00Z'),
+        metadata: { paymentId: 'pay_123' },
+      },
+    ];
+    await repository.save(order);
+    await repository.save(order);
+
+    const reloaded = await repository.findById('ord_2');
+
+    expect(reloaded?.statusHistory).toEqual([
+      {
+        from: null,
+        to: OrderStatus.PENDING,
+        changedBy: 'user_a',
+        changedAt: new Date('2026-03-02T10:00:00Z'),
+        reason: 'Order created',
+      },
+      {
+        from: OrderStatus.PENDING,
+        to: OrderStatus.PROCESSING,
+        changedBy: 'system',
+        changedAt: new Date('2026-03-02T10:05:00Z'),
+        metadata: { paymentId: 'pay_123' },
+      },
+    ]);
+  });
+
+  it('should filter by user and sort newest first', async () => {
+    const result = await repository.findMany({ userId: 'user_a' });
+
+    expect(result.items.map(order => order.id)).toEqual(['ord_4', 'ord_2', 'ord_1']);
+    expect(result.total).toBe(3);
+    expect(result.hasNext).toBe(false);
+  });
+
+  it('should filter by one or several statuses', async () => {
+    const completed = await repository.findMany({ status: OrderStatus.COMPLETED });
+    const settled = await repository.findMany({
+      status: [OrderStatus.COMPLETED, OrderStatus.FAILED],
+    });
+
+    expect(completed.items.map(order => order.id)).toEqual(['ord_3', 'ord_1']);
+    expect(settled.items.map(order => order.id)).toEqual(['ord_4', 'ord_3', 'ord_1']);
+  });
+
+  it('should filter by creation date range', async () => {
+    const result = await repository.findMany({
+      createdFrom: new Date('2026-03-02T00:00:00Z'),
+      createdTo: new Date('2026-03-03T23:59:59Z'),
+    });
+
+    expect(result.items.map(order => order.id)).toEqual(['ord_3', 'ord_2']);
+  });
+
+  it('should paginate results', async () => {
+    const first = await repository.findMany({ page: 1, pageSize: 3 });
+    const second = await repository.findMany({ page: 2, pageSize: 3 });
+
+    expect(first.items.map(order => order.id)).toEqual(['ord_4', 'ord_3', 'ord_2']);
+    expect(first).toEqual(
+      expect.objectContaining({ total: 4, page: 1, pageSize: 3, hasNext: true, hasPrevious: false })
+    );
+    expect(second.items.map(order => order.id)).toEqual(['ord_1']);
+    expect(second).toEqual(expect.objectContaining({ hasNext: false, hasPrevious: true }));
+  });
+});
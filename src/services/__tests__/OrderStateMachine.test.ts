@@ -0,0 +1,236 @@
+// ============================================================================
+// Order State Machine Tests
+// ============================================================================
+
+import { OrderService } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { MockPaymentGateway } from '../payment/MockPaymentGateway';
+import { OrderStateMachine, ORDER_STATUS_TRANSITIONS } from '../order/OrderStateMachine';
+import { InvalidOrderTransitionError } from '../order/OrderErrors';
+import { OrderStatus, PaymentMethod, PaymentStatus } from '../../types';
+import type { Order } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+describe('OrderStateMachine', () => {
+  const stateMachine = new OrderStateMachine();
+
+  const buildOrder = (status: OrderStatus): Order => ({
+    id: 'ord_1',
+    userId: 'user_1',
+    items: [],
+    totalAmount: 10,
+    currency: 'MYR',
+    status,
+    metadata: {},
+    statusHistory: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it('should follow the happy path from pending to completed', () => {
+    expect(stateMachine.canTransition(OrderStatus.PENDING, OrderStatus.PROCESSING)).toBe(true);
+    expect(stateMachine.canTransition(OrderStatus.PROCESSING, OrderStatus.COMPLETED)).toBe(true);
+    expect(stateMachine.canTransition(OrderStatus.COMPLETED, OrderStatus.REFUNDED)).toBe(true);
+  });
+
+  it('should treat refunded and cancelled orders as terminal', () => {
+    expect(stateMachine.isTerminal(OrderStatus.REFUNDED)).toBe(true);
+    expect(stateMachine.isTerminal(OrderStatus.CANCELLED)).toBe(true);
+    expect(stateMachine.canTransition(OrderStatus.REFUNDED, OrderStatus.PENDING)).toBe(false);
+  });
+
+  it('should define transitions for every status', () => {
+    expect(Object.keys(ORDER_STATUS_TRANSITIONS).sort()).toEqual(Object.values(OrderStatus).sort());
+  });
+
+  it('should apply a transition and record who made it', () => {
+    const order = buildOrder(OrderStatus.PENDING);
+
+    const change = stateMachine.transition(order, OrderStatus.PROCESSING, {
+      changedBy: 'user_1',
+      reason: 'Payment initiated',
+      metadata: { paymentId: 'pay_1' },
+    });
+
+    expect(order.status).toBe(OrderStatus.PROCESSING);
+    expect(order.statusHistory).toEqual([change]);
+    expect(change).toEqual(
+      expect.objectContaining({
+        from: OrderStatus.PENDING,
+        to: OrderStatus.PROCESSING,
+        changedBy: 'user_1',
+        reason: 'Payment initiated',
+        metadata: { paymentId: 'pay_1' },
+      })
+    );
+  });
+
+  it('should reject illegal transitions with a typed error', () => {
+    const order = buildOrder(OrderStatus.REFUNDED);
+
+    expect(() => stateMachine.transition(order, OrderStatus.PENDING)).toThrow(
+      InvalidOrderTransitionError
+    );
+    expect(order.status).toBe(OrderStatus.REFUNDED);
+    expect(order.statusHistory).toHaveLength(0);
+  });
+});
+
+describe('OrderService status transitions', () => {
+  let service: OrderService;
+  let order: Order;
+
+  beforeEach(async () => {
+    (productService.getProduct as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { id: 'product_1', name: 'Test Product', price: 20, isActive: true },
+    });
+
+    service = new OrderService({ repository: new InMemoryOrderRepository() });
+    order = await service.createOrder({
+      userId: 'user_1',
+      items: [{ productId: 'product_1', quantity: 1 }],
+      paymentMethod: PaymentMethod.CURLEC,
+    });
+  });
+
+  it('should start the history with the order creation', () => {
+    expect(order.statusHistory).toEqual([
+      expect.objectContaining({ from: null, to: OrderStatus.PENDING, changedBy: 'user_1' }),
+    ]);
+  });
+
+  it('should append every status change to the history', async () => {
+    await service.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await service.updateOrderStatus(order.id, OrderStatus.COMPLETED, {
+      changedBy: 'admin_1',
+      reason: 'Manually settled',
+    });
+
+    const updated = await service.getOrder(order.id);
+
+    expect(updated?.statusHistory.map(change => change.to)).toEqual([
+      OrderStatus.PENDING,
+      OrderStatus.PROCESSING,
+      OrderStatus.COMPLETED,
+    ]);
+    expect(updated?.statusHistory[2]).toEqual(
+      expect.objectContaining({ changedBy: 'admin_1', reason: 'Manually settled' })
+    );
+    expect(updated?.completedAt).toBeDefined();
+  });
+
+  it('should reject moving a refunded order back to pending', async () => {
+    await service.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await service.updateOrderStatus(order.id, OrderStatus.COMPLETED);
+    await service.updateOrderStatus(order.id, OrderStatus.REFUNDED);
+
+    await expect(service.updateOrderStatus(order.id, OrderStatus.PENDING)).rejects.toThrow(
+      InvalidOrderTransitionError
+    );
+    expect((await service.getOrder(order.id))?.status).toBe(OrderStatus.REFUNDED);
+  });
+
+  it('should not add history when the status is unchanged', async () => {
+    await service.updateOrderStatus(order.id, OrderStatus.PENDING, { metadata: { note: 'x' } });
+
+    const updated = await service.getOrder(order.id);
+
+    expect(updated?.statusHistory).toHaveLength(1);
+    expect(updated?.metadata.note).toBe('x');
+  });
+
+  it('should record the cancellation reason', async () => {
+    const cancelled = await service.cancelOrder(order.id, 'Changed my mind', 'user_1');
+
+    const updated = await service.getOrder(order.id);
+
+    expect(cancelled).toBe(true);
+    expect(updated?.statusHistory[1]).toEqual(
+      expect.objectContaining({
+        from: OrderStatus.PENDING,
+        to: OrderStatus.CANCELLED,
+        changedBy: 'user_1',
+        reason: 'Changed my mind',
+      })
+    );
+  });
+
+  it('should refuse to cancel a completed order', async () => {
+    await service.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await service.updateOrderStatus(order.id, OrderStatus.COMPLETED);
+
+    expect(await service.cancelOrder(order.id)).toBe(false);
+  });
+});
+
+describe('OrderService payment retries', () => {
+  let payments: PaymentService;
+  let service: OrderService;
+  let order: Order;
+
+  beforeEach(async () => {
+    (productService.getProduct as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { id: 'product_1', name: 'Test Product', price: 20, isActive: true },
+    });
+
+    const registry = new PaymentGatewayRegistry();
+    registry.register(PaymentMethod.CREDIT_CARD, new MockPaymentGateway({ name: 'card' }));
+    payments = new PaymentService({ enabledMethods: [PaymentMethod.CREDIT_CARD] }, registry);
+    service = new OrderService({ repository: new InMemoryOrderRepository(), payments });
+
+    order = await service.createOrder({
+      userId: 'user_1',
+      items: [{ productId: 'product_1', quantity: 1 }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+    });
+    await service.initiatePayment(order.id);
+    const failed = await payments.getPaymentByOrderId(order.id);
+    await payments.updatePaymentStatus(failed!.id, PaymentStatus.FAILED);
+  });
+
+  it('should move a failed order back to pending when the payment is retried', async () => {
+    const failedPayment = await payments.getPaymentByOrderId(order.id);
+
+    const retry = await service.initiatePayment(order.id);
+    const updated = await service.getOrder(order.id);
+
+    expect(retry.success).toBe(true);
+    expect(updated?.status).toBe(OrderStatus.PROCESSING);
+    expect(updated?.statusHistory.map(change => change.to)).toEqual([
+      OrderStatus.PENDING,
+      OrderStatus.PROCESSING,
+      OrderStatus.FAILED,
+      OrderStatus.PENDING,
+      OrderStatus.PROCESSING,
+    ]);
+    expect(updated?.statusHistory[3]).toEqual(
+      expect.objectContaining({
+        reason: 'Payment retry',
+        metadata: { previousPaymentId: failedPayment!.gatewayTransactionId },
+      })
+    );
+  });
+
+  it('should complete the order when the retried payment succeeds', async () => {
+    const failedPayment = await payments.getPaymentByOrderId(order.id);
+    await service.initiatePayment(order.id);
+    const retried = await payments.getPaymentByOrderId(order.id);
+
+    await payments.updatePaymentStatus(retried!.id, PaymentStatus.COMPLETED);
+
+    expect(retried?.id).not.toBe(failedPayment?.id);
+    expect(failedPayment?.status).toBe(PaymentStatus.FAILED);
+    expect((await service.getOrder(order.id))?.status).toBe(OrderStatus.COMPLETED);
+  });
+});
@@ -0,0 +1,170 @@
+// ============================================================================
+// Payment Gateway Registry Tests
+// ============================================================================
+
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { MockPaymentGateway } from '../payment/MockPaymentGateway';
+import { WebhookHandler } from '../payment/WebhookHandler';
+import { PaymentSyncService } from '../payment/PaymentSyncService';
+import { PaymentMethod, PaymentStatus } from '../../types';
+import type { PaymentRequest } from '../../types';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+describe('Payment gateway routing', () => {
+  let registry: PaymentGatewayRegistry;
+  let cardGateway: MockPaymentGateway;
+  let walletGateway: MockPaymentGateway;
+  let service: PaymentService;
+
+  const request = (method: PaymentMethod, orderId = 'order_123'): PaymentRequest => ({
+    orderId,
+    amount: 100.0,
+    currency: 'MYR',
+    method,
+  });
+
+  beforeEach(() => {
+    mockFetch.mockClear();
+
+    cardGateway = new MockPaymentGateway({ name: 'card' });
+    walletGateway = new MockPaymentGateway({ name: 'wallet' });
+
+    registry = new PaymentGatewayRegistry();
+    registry.register(PaymentMethod.CREDIT_CARD, cardGateway);
+    registry.register(PaymentMethod.E_WALLET, walletGateway);
+
+    service = new PaymentService(
+      { enabledMethods: [PaymentMethod.CREDIT_CARD, PaymentMethod.E_WALLET] },
+      registry
+    );
+  });
+
+  describe('createPayment', () => {
+    it('should route to the gateway registered for the payment method', async () => {
+      const card = await service.createPayment(request(PaymentMethod.CREDIT_CARD));
+      const wallet = await service.createPayment(request(PaymentMethod.E_WALLET, 'order_456'));
+
+      expect(card.paymentId).toBe('card_pay_000001');
+      expect(wallet.paymentId).toBe('wallet_pay_000001');
+      expect(cardGateway.getGatewayPayment('card_pay_000001')).not.toBeNull();
+      expect(walletGateway.getGatewayPayment('card_pay_000001')).toBeNull();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject methods without a registered gateway', async () => {
+      const unrouted = new PaymentService(
+        { enabledMethods: [PaymentMethod.BANK_TRANSFER] },
+        registry
+      );
+
+      const result = await unrouted.createPayment(request(PaymentMethod.BANK_TRANSFER));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unsupported payment method: bank_transfer');
+    });
+
+    it('should mark the payment failed when the gateway declines', async () => {
+      cardGateway.failNextPayment('Card declined');
+
+      const result = await service.createPayment(request(PaymentMethod.CREDIT_CARD));
+      const [payment] = await service.getAllPayments();
+
+      expect(result.success).toBe(false);
+      expect(payment?.status).toBe(PaymentStatus.FAILED);
+      expect(payment?.failureReason).toBe('Card declined');
+    });
+
+    it('should only report enabled methods that have a gateway', () => {
+      const partial = new PaymentService(
+        { enabledMethods: [PaymentMethod.CREDIT_CARD, PaymentMethod.BANK_TRANSFER] },
+        registry
+      );
+
+      expect(partial.getEnabledPaymentMethods()).toEqual([PaymentMethod.CREDIT_CARD]);
+    });
+  });
+
+  describe('webhooks', () => {
+    it('should complete a payment from a signed webhook on its own gateway', async () => {
+      const handler = new WebhookHandler(service);
+      const response = await service.createPayment(request(PaymentMethod.CREDIT_CARD));
+      const webhook = cardGateway.createWebhook(response.paymentId!, 'payment.completed')!;
+
+      const result = await handler.handleWebhook(
+        PaymentMethod.CREDIT_CARD,
+        webhook.payload,
+        webhook.signature
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.status).toBe(PaymentStatus.COMPLETED);
+      const payment = await service.getPaymentByGatewayTransactionId(response.paymentId!);
+      expect(payment?.status).toBe(PaymentStatus.COMPLETED);
+    });
+
+    it('should reject a webhook signed by a different gateway', async () => {
+      const handler = new WebhookHandler(service);
+      const response = await service.createPayment(request(PaymentMethod.CREDIT_CARD));
+      const forged = new MockPaymentGateway({ name: 'card', webhookSecret: 'other' });
+      await forged.createPayment(request(PaymentMethod.CREDIT_CARD));
+      const webhook = forged.createWebhook(response.paymentId!, 'payment.completed')!;
+
+      const result = await handler.handleWebhook(
+        PaymentMethod.CREDIT_CARD,
+        webhook.payload,
+        webhook.signature
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Invalid webhook signature');
+    });
+
+    it('should reject a webhook delivered for another payment method', async () => {
+      const handler = new WebhookHandler(service);
+      const response = await service.createPayment(request(PaymentMethod.CREDIT_CARD));
+      const webhook = cardGateway.createWebhook(response.paymentId!, 'payment.completed')!;
+
+      // Same secret, so the signature is valid on the wallet gateway too.
+      const result = await handler.handleWebhook(
+        PaymentMethod.E_WALLET,
+        webhook.payload,
+        webhook.signature
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('was not created on the e_wallet gateway');
+    });
+  });
+
+  describe('sync and refund', () => {
+    it('should poll status from the gateway the payment was created on', async () => {
+      const sync = new PaymentSyncService({ maxRetries: 1, retryDelayMs: 0 }, service);
+      const response = await service.createPayment(request(PaymentMethod.E_WALLET));
+      const payment = await service.getPaymentByGatewayTransactionId(response.paymentId!);
+
+      walletGateway.setPaymentStatus(response.paymentId!, PaymentStatus.COMPLETED);
+      const result = await sync.syncPayment(payment!.id);
+
+      expect(result.success).toBe(true);
+      expect(result.oldStatus).toBe(PaymentStatus.PROCESSING);
+      expect(result.newStatus).toBe(PaymentStatus.COMPLETED);
+    });
+
+    it('should refund through the originating gateway', async () => {
+      const response = await service.createPayment(request(PaymentMethod.CREDIT_CARD));
+      const payment = await service.getPaymentByGatewayTransactionId(response.paymentId!);
+      cardGateway.setPaymentStatus(response.paymentId!, PaymentStatus.COMPLETED);
+      await service.syncPaymentStatus(payment!.id);
+
+      const refunded = await service.refundPayment(payment!.id);
+
+      expect(refunded).toBe(true);
+      expect(cardGateway.getGatewayPayment(response.paymentId!)?.status).toBe(
+        PaymentStatus.REFUNDED
+      );
+    });
+  });
+});
@@ -0,0 +1,182 @@
+// ============================================================================
+// Price Rule Condition and Simulator Tests
+// ============================================================================
+
+import { PriceService } from '../product/PriceService';
+import type { PriceRule } from '../product/PriceService';
+import { ProductCategory } from '../../types';
+import type { Product } from '../../types';
+
+const vpn = {
+  id: 'vpn-1',
+  name: 'VPN',
+  price: 10,
+  category: ProductCategory.VPN,
+  pluginId: 'vpn',
+  metadata: { region: 'asia' },
+} as unknown as Product;
+
+const streaming = {
+  id: 'netflix-1',
+  name: 'Netflix',
+  price: 50,
+  category: ProductCategory.STREAMING,
+  pluginId: 'netflix',
+  metadata: {},
+} as unknown as Product;
+
+// 2026-10-17 is a Saturday
+const saturdayEvening = new Date(2026, 9, 17, 20, 0);
+const mondayMorning = new Date(2026, 9, 19, 9, 0);
+
+type RuleInput = Omit<PriceRule, 'id' | 'usageCount' | 'createdAt' | 'updatedAt'>;
+
+function discountRule(name: string, conditions: RuleInput['conditions'], value = 10): RuleInput {
+  return {
+    name,
+    ruleType: 'DISCOUNT',
+    priority: 20,
+    isActive: true,
+    conditions,
+    actions: [{ type: 'PERCENTAGE_DISCOUNT', value }],
+  };
+}
+
+describe('PriceService rule conditions', () => {
+  let prices: PriceService;
+
+  beforeEach(async () => {
+    prices = new PriceService();
+    // Leave only the rules each test creates
+    for (const rule of await prices.getAllPriceRules()) {
+      await prices.deletePriceRule(rule.id);
+    }
+  });
+
+  it('should combine nested AND, OR and NOT groups', async () => {
+    await prices.createPriceRule(
+      discountRule('Weekend or evening, not streaming', [
+        {
+          type: 'GROUP',
+          logic: 'OR',
+          conditions: [
+            { type: 'WEEKDAY', operator: 'IN', values: [0, 6] },
+            { type: 'HOUR', operator: 'AT_LEAST', values: [18] },
+          ],
+        },
+        {
+          type: 'GROUP',
+          logic: 'NOT',
+          conditions: [
+            { type: 'CATEGORY', operator: 'EQUALS', values: [ProductCategory.STREAMING] },
+          ],
+        },
+      ])
+    );
+
+    const weekend = await prices.calculatePrice({
+      product: vpn,
+      quantity: 1,
+      timestamp: saturdayEvening,
+    });
+    const weekday = await prices.calculatePrice({
+      product: vpn,
+      quantity: 1,
+      timestamp: mondayMorning,
+    });
+    const excluded = await prices.calculatePrice({
+      product: streaming,
+      quantity: 1,
+      timestamp: saturdayEvening,
+    });
+
+    expect(weekend.data?.finalPrice).toBe(9);
+    expect(weekday.data?.finalPrice).toBe(10);
+    expect(excluded.data?.finalPrice).toBe(50);
+  });
+
+  it('should read cart totals, order counts and product metadata from the context', async () => {
+    await prices.createPriceRule(
+      discountRule('Returning customers with big asian carts', [
+        { type: 'CART_TOTAL', operator: 'AT_LEAST', values: [100] },
+        { type: 'USER_ORDER_COUNT', operator: 'GREATER_THAN', values: [0] },
+        { type: 'PRODUCT_METADATA', field: 'region', operator: 'EQUALS', values: ['asia'] },
+      ])
+    );
+
+    const context = { product: vpn, quantity: 2, userOrderCount: 3 };
+    const bigCart = await prices.calculatePrice({ ...context, cart: { total: 120, quantity: 4 } });
+    const smallCart = await prices.calculatePrice({ ...context, cart: { total: 60, quantity: 2 } });
+    const noCart = await prices.calculatePrice(context);
+
+    expect(bigCart.data?.finalPrice).toBe(18);
+    expect(smallCart.data?.finalPrice).toBe(20);
+    expect(noCart.data?.finalPrice).toBe(20);
+  });
+});
+
+describe('PriceService.simulate', () => {
+  let prices: PriceService;
+
+  beforeEach(() => {
+    prices = new PriceService();
+  });
+
+  it('should explain which rules fire for a hypothetical cart and user', async () => {
+    await prices.createPriceRule(
+      discountRule(
+        'First order over 100',
+        [
+          { type: 'USER_ORDER_COUNT', operator: 'EQUALS', values: [0] },
+          { type: 'CART_TOTAL', operator: 'GREATER_THAN', values: [100] },
+        ],
+        5
+      )
+    );
+
+    const result = await prices.simulate({
+      items: [
+        { product: vpn, quantity: 2 },
+        { product: streaming, quantity: 2 },
+      ],
+      user: { id: 'user-1', orderCount: 2 },
+      timestamp: mondayMorning,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.cartTotal).toBe(120);
+
+    const vpnLine = result.data!.lines[0]!;
+    expect(vpnLine.rules.map(rule => [rule.ruleId, rule.fired, rule.skipReason])).toEqual([
+      ['premium-category-markup', true, undefined],
+      ['bulk-discount-10', false, 'CONDITIONS_NOT_MET'],
+      [expect.stringMatching(/^rule-/), false, 'CONDITIONS_NOT_MET'],
+    ]);
+    expect(vpnLine.rules[0]).toMatchObject({ priceBefore: 20, priceAfter: 24 });
+    expect(vpnLine.rules[2]?.conditions).toEqual([
+      { passed: false, description: 'USER_ORDER_COUNT EQUALS 0', actual: 2 },
+      { passed: true, description: 'CART_TOTAL GREATER_THAN 100', actual: 120 },
+    ]);
+    expect(result.data?.finalTotal).toBe(124);
+  });
+
+  it('should leave usage counts alone and report rules that cannot fire', async () => {
+    await prices.updatePriceRule('premium-category-markup', { isActive: false });
+    await prices.createPriceRule({
+      ...discountRule('Ended sale', [{ type: 'PRODUCT', operator: 'IN', values: ['vpn-1'] }]),
+      validTo: new Date(2020, 0, 1),
+    });
+
+    const result = await prices.simulate({ items: [{ product: vpn, quantity: 12 }] });
+
+    expect(
+      result.data!.lines[0]!.rules.map(rule => [rule.ruleName, rule.fired, rule.skipReason])
+    ).toEqual([
+      ['Premium Category Markup', false, 'INACTIVE'],
+      ['Bulk Discount 10+', true, undefined],
+      ['Ended sale', false, 'EXPIRED'],
+    ]);
+    const rules = await prices.getAllPriceRules();
+    expect(rules.every(rule => rule.usageCount === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,360 @@
+// ============================================================================
+// Coupon and Promotion Engine Tests
+// ============================================================================
+
+import { PromotionRejectedError, PromotionService } from '../promotion/PromotionService';
+import type { PromotionContext } from '../promotion/PromotionService';
+import { OrderService } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import { InvoiceService } from '../invoice/InvoiceService';
+import { CartService } from '../product/CartService';
+import { OrderStatus, PaymentMethod, ProductCategory } from '../../types';
+import type { Product } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+    getProductById: jest.fn(),
+    checkStock: jest.fn(),
+  },
+}));
+
+jest.mock('../promotion/PromotionService', () => {
+  const actual = jest.requireActual<typeof import('../promotion/PromotionService')>(
+    '../promotion/PromotionService'
+  );
+  return {
+    ...actual,
+    promotionService: new actual.PromotionService({
+      convert: (amount: number) => amount,
+      getSettlementCurrency: () => 'MYR',
+    }),
+  };
+});
+
+import { productService } from '../product/ProductService';
+import { promotionService } from '../promotion/PromotionService';
+
+// 4.0 MYR per USD; codes come from a counter so they are predictable
+const currency = {
+  convert: (amount: number, from: string, to: string) =>
+    from === to ? amount : from === 'USD' ? amount * 4 : amount / 4,
+  getSettlementCurrency: () => 'MYR',
+};
+
+function sequentialBytes() {
+  let next = 0;
+  return (size: number) => Uint8Array.from({ length: size }, () => next++);
+}
+
+function context(overrides: Partial<PromotionContext> = {}): PromotionContext {
+  return {
+    userId: 'user-1',
+    currency: 'MYR',
+    items: [
+      { productId: 'netflix', category: ProductCategory.STREAMING, quantity: 1, unitPrice: 60 },
+      { productId: 'vpn', category: ProductCategory.VPN, quantity: 2, unitPrice: 20 },
+    ],
+    previousOrders: 0,
+    ...overrides,
+  };
+}
+
+describe('PromotionService', () => {
+  let promotions: PromotionService;
+
+  beforeEach(() => {
+    promotions = new PromotionService(currency, { randomBytes: sequentialBytes() });
+  });
+
+  it('should price percentage, fixed and buy-x-get-y promotions', () => {
+    promotions.createPromotion({ id: 'ten', name: '10% off', type: 'percentage', value: 10 });
+    promotions.createPromotion({
+      id: 'usd5',
+      name: 'USD 5 off',
+      type: 'fixed_amount',
+      value: 5,
+      currency: 'USD',
+    });
+    promotions.createPromotion({
+      id: 'vpn-b1g1',
+      name: 'Buy one VPN, get one free',
+      type: 'buy_x_get_y',
+      value: 1,
+      categories: [ProductCategory.VPN],
+    });
+    promotions.addCodes('ten', ['TEN']);
+    promotions.addCodes('usd5', ['FIVE']);
+    promotions.addCodes('vpn-b1g1', ['VPNFREE']);
+
+    expect(promotions.evaluate(['ten'], context()).totalDiscount).toBe(10);
+    expect(promotions.evaluate(['FIVE'], context()).totalDiscount).toBe(20);
+    expect(promotions.evaluate(['VPNFREE'], context()).totalDiscount).toBe(20);
+  });
+
+  it('should reject codes outside their rules', () => {
+    promotions.createPromotion({
+      id: 'welcome',
+      name: 'Welcome',
+      type: 'percentage',
+      value: 20,
+      firstOrderOnly: true,
+      minAmount: 150,
+    });
+    promotions.createPromotion({
+      id: 'games',
+      name: 'Games week',
+      type: 'percentage',
+      value: 15,
+      categories: [ProductCategory.GAMING],
+      endsAt: new Date('2030-01-01'),
+    });
+    promotions.addCodes('welcome', ['WELCOME']);
+    promotions.addCodes('games', ['GAMES']);
+
+    expect(promotions.evaluate(['WELCOME'], context()).rejected).toEqual([
+      { code: 'WELCOME', reason: 'Minimum order amount of 150 MYR required' },
+    ]);
+    expect(
+      promotions.evaluate(['WELCOME'], context({ previousOrders: 1 })).rejected[0]?.reason
+    ).toBe('Promotion is only valid on a first order');
+    expect(promotions.evaluate(['GAMES'], context()).rejected[0]?.reason).toBe(
+      'No applicable products in cart'
+    );
+    expect(
+      promotions.evaluate(['GAMES'], context({ now: new Date('2031-01-01') })).rejected[0]?.reason
+    ).toBe('Promotion has expired');
+    expect(promotions.evaluate(['NOPE'], context()).rejected[0]?.reason).toBe(
+      'Coupon code not found'
+    );
+  });
+
+  it('should only combine stackable promotions from different groups', () => {
+    promotions.createPromotion({
+      id: 'flash',
+      name: 'Flash sale',
+      type: 'percentage',
+      value: 20,
+      priority: 10,
+    });
+    promotions.createPromotion({
+      id: 'loyalty',
+      name: 'Loyalty',
+      type: 'fixed_amount',
+      value: 5,
+      stackable: true,
+      stackGroup: 'member',
+    });
+    promotions.createPromotion({
+      id: 'birthday',
+      name: 'Birthday',
+      type: 'fixed_amount',
+      value: 8,
+      stackable: true,
+      stackGroup: 'member',
+    });
+    promotions.createPromotion({
+      id: 'newsletter',
+      name: 'Newsletter',
+      type: 'percentage',
+      value: 5,
+      stackable: true,
+    });
+    promotions.addCodes('flash', ['FLASH']);
+    promotions.addCodes('loyalty', ['LOYAL']);
+    promotions.addCodes('birthday', ['BDAY']);
+    promotions.addCodes('newsletter', ['NEWS']);
+
+    const stacked = promotions.evaluate(['LOYAL', 'BDAY', 'NEWS'], context());
+    expect(stacked.applied.map(applied => applied.code)).toEqual(['BDAY', 'NEWS']);
+    expect(stacked.rejected).toEqual([
+      { code: 'LOYAL', reason: 'Cannot be combined with Birthday' },
+    ]);
+    expect(stacked.totalDiscount).toBe(13);
+
+    const exclusive = promotions.evaluate(['NEWS', 'FLASH'], context());
+    expect(exclusive.applied.map(applied => applied.code)).toEqual(['FLASH']);
+    expect(exclusive.rejected[0]?.reason).toBe('Cannot be combined with Flash sale');
+  });
+
+  it('should enforce single-use codes, per-user caps and campaign limits', () => {
+    promotions.createPromotion({
+      id: 'bulk',
+      name: 'Partner codes',
+      type: 'fixed_amount',
+      value: 10,
+      perUserLimit: 1,
+      maxRedemptions: 2,
+    });
+    const [first, second, third] = promotions.generateCodes('bulk', 3, { prefix: 'p-', length: 6 });
+
+    expect(first?.code).toMatch(/^P-[A-Z2-9]{6}$/);
+    expect(new Set([first?.code, second?.code, third?.code]).size).toBe(3);
+
+    promotions.redeem('order-1', [first!.code], { ...context(), userId: 'user-1' });
+
+    expect(
+      promotions.evaluate([first!.code], context({ userId: 'user-2' })).rejected[0]?.reason
+    ).toBe('Coupon code has already been used');
+    expect(promotions.evaluate([second!.code], context()).rejected[0]?.reason).toBe(
+      'You have already used this promotion'
+    );
+
+    promotions.redeem('order-2', [second!.code], { ...context(), userId: 'user-2' });
+    expect(
+      promotions.evaluate([third!.code], context({ userId: 'user-3' })).rejected[0]?.reason
+    ).toBe('Promotion is no longer available');
+  });
+
+  it('should record nothing when a code is rejected and give codes back on reversal', () => {
+    promotions.createPromotion({ id: 'once', name: 'Once', type: 'percentage', value: 50 });
+    promotions.addCodes('once', ['ONCE'], { maxUses: 1 });
+
+    expect(() =>
+      promotions.redeem('order-1', ['ONCE', 'MISSING'], { ...context(), userId: 'user-1' })
+    ).toThrow(PromotionRejectedError);
+    expect(promotions.getRedemptions()).toEqual([]);
+
+    promotions.redeem('order-1', ['ONCE'], { ...context(), userId: 'user-1' });
+    expect(promotions.getCode('once')?.uses).toBe(1);
+
+    expect(promotions.reverse('order-1')).toBe(1);
+    expect(promotions.getCode('ONCE')?.uses).toBe(0);
+    expect(promotions.getRedemptions({ orderId: 'order-1' })[0]?.status).toBe('reversed');
+  });
+});
+
+describe('Coupons on orders', () => {
+  const product = {
+    id: 'netflix',
+    name: 'Netflix Premium',
+    price: 50,
+    currency: 'MYR',
+    category: ProductCategory.STREAMING,
+    isActive: true,
+    pluginId: 'netflix',
+  } as Product;
+  let promotions: PromotionService;
+  let orders: OrderService;
+
+  beforeEach(() => {
+    (productService.getProduct as jest.Mock).mockResolvedValue({ success: true, data: product });
+    promotions = new PromotionService(currency);
+    promotions.createPromotion({
+      id: 'first',
+      name: 'First order',
+      type: 'percentage',
+      value: 20,
+      firstOrderOnly: true,
+    });
+    promotions.addCodes('first', ['FIRST20']);
+
+    orders = new OrderService({ repository: new InMemoryOrderRepository(), promotions });
+  });
+
+  const placeOrder = (couponCodes: string[]) =>
+    orders.createOrder({
+      userId: 'user-1',
+      items: [{ productId: 'netflix', quantity: 2 }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+      currency: 'MYR',
+      couponCodes,
+    });
+
+  it('should take the discount off the total and record the redemption', async () => {
+    const order = await placeOrder(['first20']);
+
+    expect(order.discountAmount).toBe(20);
+    expect(order.totalAmount).toBe(80);
+    expect(order.promotions).toEqual([
+      { promotionId: 'first', name: 'First order', code: 'FIRST20', amount: 20 },
+    ]);
+    expect(order.taxAmount).toBe(5.93);
+    expect(promotions.getRedemptions({ orderId: order.id })).toHaveLength(1);
+  });
+
+  it('should refuse the order when a coupon does not apply', async () => {
+    const order = await placeOrder([]);
+    await orders.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await orders.updateOrderStatus(order.id, OrderStatus.COMPLETED);
+
+    await expect(placeOrder(['FIRST20'])).rejects.toThrow(
+      'FIRST20: Promotion is only valid on a first order'
+    );
+    expect(promotions.getRedemptions()).toEqual([]);
+  });
+
+  it('should release the coupon when the order is cancelled', async () => {
+    const order = await placeOrder(['FIRST20']);
+
+    await orders.cancelOrder(order.id, 'Changed my mind');
+
+    expect(promotions.getRedemptions({ orderId: order.id })[0]?.status).toBe('reversed');
+  });
+
+  it('should list the coupon on the invoice so the lines add up to the total', async () => {
+    const invoices = new InvoiceService();
+    orders = new OrderService({ repository: new InMemoryOrderRepository(), promotions, invoices });
+    const order = await placeOrder(['FIRST20']);
+    await orders.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await orders.updateOrderStatus(order.id, OrderStatus.COMPLETED);
+
+    const invoice = invoices.buildInvoice((await orders.getOrder(order.id))!);
+
+    expect(invoice.lines.map(line => line.amount)).toEqual([100]);
+    expect(invoice.discounts).toEqual([{ description: 'First order (FIRST20)', amount: 20 }]);
+    expect(invoice.subtotal).toBe(80);
+    expect(invoice.total).toBe(80);
+    expect(invoices.renderHtml(invoice)).toContain('<td class="num">-MYR 20.00</td>');
+  });
+});
+
+describe('Coupons in the cart', () => {
+  const product = {
+    id: 'vpn',
+    name: 'VPN',
+    price: 40,
+    currency: 'MYR',
+    category: ProductCategory.VPN,
+    isActive: true,
+    pluginId: 'vpn',
+    stock: { available: 10, reserved: 0, total: 10, lowStockThreshold: 2 },
+  } as Product;
+
+  beforeAll(() => {
+    promotionService.createPromotion({
+      id: 'vpn-deal',
+      name: 'VPN deal',
+      type: 'fixed_amount',
+      value: 15,
+      minAmount: 50,
+    });
+    promotionService.addCodes('vpn-deal', ['VPN15']);
+  });
+
+  beforeEach(() => {
+    (productService.getProductById as jest.Mock).mockResolvedValue(product);
+    (productService.checkStock as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('should apply a valid coupon to the summary and refuse an unknown one', async () => {
+    const cart = new CartService();
+    cart.setAutoRecalculate(false);
+    await cart.addToCart('vpn', 2);
+
+    expect((await cart.applyCoupon('bogus')).error?.message).toBe('Coupon code not found');
+    expect((await cart.applyCoupon('vpn15')).success).toBe(true);
+
+    const summary = cart.getCartSummary();
+    expect(summary.totalDiscount).toBe(15);
+    // Two units come to 96 after the premium category markup
+    expect(summary.total).toBe(81);
+    expect(summary.discounts.map(discount => discount.code)).toEqual(['VPN15']);
+    expect(cart.getCouponCodes()).toEqual(['VPN15']);
+
+    await cart.updateQuantity('vpn', 1);
+    expect(cart.getCartSummary().rejectedCoupons).toEqual([
+      { code: 'VPN15', reason: 'Minimum order amount of 50 MYR required' },
+    ]);
+  });
+});
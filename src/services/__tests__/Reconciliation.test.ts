@@ -0,0 +1,197 @@
+// ============================================================================
+// Settlement Reconciliation Tests
+// ============================================================================
+
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { MockPaymentGateway } from '../payment/MockPaymentGateway';
+import {
+  ReconciliationEntryType,
+  ReconciliationService,
+  createPaymentLookup,
+} from '../payment/ReconciliationService';
+import { PaymentMethod, PaymentStatus } from '../../types';
+import type { Payment } from '../../types';
+
+describe('ReconciliationService', () => {
+  let service: PaymentService;
+  let reconciliation: ReconciliationService;
+
+  const settle = async (orderId: string, amount: number) => {
+    const response = await service.createPayment({
+      orderId,
+      amount,
+      currency: 'MYR',
+      method: PaymentMethod.CURLEC,
+    });
+    const payment = (await service.getPaymentByOrderId(orderId))!;
+    await service.updatePaymentStatus(payment.id, PaymentStatus.COMPLETED);
+    return response.paymentId!;
+  };
+
+  beforeEach(() => {
+    const registry = new PaymentGatewayRegistry();
+    registry.register(PaymentMethod.CURLEC, new MockPaymentGateway({ name: 'curlec' }));
+    service = new PaymentService({ enabledMethods: [PaymentMethod.CURLEC] }, registry);
+    reconciliation = new ReconciliationService(service);
+  });
+
+  describe('parsing', () => {
+    it('should read a dashboard CSV export with quoted amounts', () => {
+      const lines = reconciliation.parseSettlementFile(
+        [
+          'Transaction ID,Order Receipt,Amount,Currency,Settled At',
+          'pay_1,order_1,"1,030.50",myr,2026-10-02T00:00:00Z',
+          '',
+        ].join('\r\n')
+      );
+
+      expect(lines).toEqual([
+        expect.objectContaining({
+          lineNumber: 1,
+          gatewayTransactionId: 'pay_1',
+          orderId: 'order_1',
+          amount: 1030.5,
+          currency: 'MYR',
+          settledAt: new Date('2026-10-02T00:00:00Z'),
+        }),
+      ]);
+    });
+
+    it('should read an API dump with amounts in minor units', () => {
+      const lines = reconciliation.parseSettlementFile(
+        JSON.stringify({ items: [{ id: 'pay_1', receipt: 'order_1', amount: 2550 }] }),
+        { amountUnit: 'minor' }
+      );
+
+      expect(lines[0]).toEqual(
+        expect.objectContaining({ gatewayTransactionId: 'pay_1', orderId: 'order_1', amount: 25.5 })
+      );
+    });
+
+    it('should reject lines without an amount', () => {
+      expect(() => reconciliation.parseSettlementFile('id,amount\npay_1,\n')).toThrow(
+        'Settlement line 1 has no valid amount'
+      );
+    });
+  });
+
+  describe('matching', () => {
+    it('should classify every line and every settled payment', async () => {
+      const matched = await settle('order_1', 25);
+      await settle('order_2', 40);
+      await settle('order_3', 15);
+
+      const report = await reconciliation.reconcileFile(
+        [
+          'transaction_id,order_id,amount,currency',
+          `${matched},order_1,25.00,MYR`,
+          ',order_2,40.10,MYR',
+          'pay_unknown,order_9,10.00,MYR',
+        ].join('\n')
+      );
+
+      expect(report.entries.map(entry => [entry.type, entry.payment?.orderId])).toEqual([
+        [ReconciliationEntryType.MATCHED, 'order_1'],
+        [ReconciliationEntryType.AMOUNT_MISMATCH, 'order_2'],
+        [ReconciliationEntryType.MISSING_LOCALLY, undefined],
+        [ReconciliationEntryType.MISSING_AT_GATEWAY, 'order_3'],
+      ]);
+      expect(report.entries[1]?.difference).toBe(0.1);
+      expect(report.summary).toEqual({
+        matched: 1,
+        missingLocally: 1,
+        missingAtGateway: 1,
+        amountMismatch: 1,
+        settledTotal: 75.1,
+        localTotal: 80,
+      });
+    });
+
+    it('should not match one payment to two settlement lines', async () => {
+      const paymentId = await settle('order_1', 25);
+
+      const report = await reconciliation.reconcileFile(
+        `transaction_id,amount\n${paymentId},25\n${paymentId},25\n`
+      );
+
+      expect(report.summary.matched).toBe(1);
+      expect(report.entries[1]?.note).toContain('already matched');
+    });
+
+    it('should flag a currency mismatch even when the amounts agree', async () => {
+      const paymentId = await settle('order_1', 25);
+
+      const report = await reconciliation.reconcileFile(
+        `transaction_id,amount,currency\n${paymentId},25,SGD\n`
+      );
+
+      expect(report.entries[0]?.type).toBe(ReconciliationEntryType.AMOUNT_MISMATCH);
+      expect(report.entries[0]?.note).toBe('Settled in SGD but charged in MYR');
+    });
+
+    it('should only expect payments completed within the settlement window', async () => {
+      await settle('order_1', 25);
+
+      const report = await reconciliation.reconcile([], {
+        from: new Date(Date.now() + 60000),
+      });
+
+      expect(report.entries).toEqual([]);
+    });
+  });
+
+  describe('exported payments', () => {
+    const exported = (payment: Partial<Payment> & Pick<Payment, 'id' | 'createdAt'>): Payment => ({
+      orderId: 'order_1',
+      amount: 25,
+      currency: 'MYR',
+      method: PaymentMethod.CURLEC,
+      status: PaymentStatus.COMPLETED,
+      updatedAt: payment.createdAt,
+      ...payment,
+    });
+
+    it('should match a charge id before another payment with that gateway id', async () => {
+      const report = await new ReconciliationService(
+        createPaymentLookup([
+          exported({ id: 'pay_a', gatewayTransactionId: 'ch_1', createdAt: new Date(1) }),
+          exported({
+            id: 'pay_b',
+            orderId: 'order_2',
+            gatewayTransactionId: 'pl_2',
+            gatewayChargeId: 'ch_1',
+            createdAt: new Date(2),
+          }),
+        ])
+      ).reconcileFile('transaction_id,amount\nch_1,25\n');
+
+      expect(report.entries[0]?.payment?.id).toBe('pay_b');
+    });
+
+    it("should fall back to the order's latest payment attempt, whatever the export order", async () => {
+      const report = await new ReconciliationService(
+        createPaymentLookup([
+          exported({ id: 'pay_retry', createdAt: new Date(2) }),
+          exported({ id: 'pay_first', status: PaymentStatus.FAILED, createdAt: new Date(1) }),
+        ])
+      ).reconcileFile('order_id,amount\norder_1,25\n');
+
+      expect(report.entries[0]?.type).toBe(ReconciliationEntryType.MATCHED);
+      expect(report.entries[0]?.payment?.id).toBe('pay_retry');
+    });
+  });
+
+  it('should export the report as CSV', async () => {
+    const paymentId = await settle('order_1', 25);
+    const report = await reconciliation.reconcileFile(
+      `transaction_id,order_id,amount\n${paymentId},order_1,20\npay_x,"order, 9",5\n`
+    );
+
+    expect(reconciliation.toCsv(report).split('\n')).toEqual([
+      'type,gateway_transaction_id,order_id,payment_id,settled_amount,local_amount,difference,currency,note',
+      `amount_mismatch,${paymentId},order_1,${report.entries[0]?.payment?.id},20.00,25.00,-5.00,MYR,`,
+      'missing_locally,pay_x,"order, 9",,5.00,,,,No payment matches this settlement line',
+    ]);
+  });
+});
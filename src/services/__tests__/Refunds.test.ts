@@ -0,0 +1,463 @@
+// ============================================================================
+// Partial Refund Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { MockPaymentGateway } from '../payment/MockPaymentGateway';
+import { OrderService } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import { PromotionService } from '../promotion/PromotionService';
+import { TaxService } from '../tax/TaxService';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { SqlRefundLedger, fromMinorUnits, toMinorUnits } from '../payment/RefundLedger';
+import { OrderStatus, PaymentMethod, PaymentStatus, RefundStatus } from '../../types';
+import type { Order, Payment, Refund } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+// sql.js needs Node's text codecs, which jsdom does not expose
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const products: Record<string, any> = {
+  vpn_monthly: { id: 'vpn_monthly', name: 'VPN', price: 10, isActive: true, pluginId: 'vpn' },
+  game_key: { id: 'game_key', name: 'Game Key', price: 30, isActive: true, pluginId: 'keys' },
+};
+
+describe('Partial refunds', () => {
+  let gateway: MockPaymentGateway;
+  let payments: PaymentService;
+  let orders: OrderService;
+  let notifier: { notifyRefundProcessed: jest.Mock };
+  let order: Order;
+  let payment: Payment;
+
+  beforeEach(async () => {
+    (productService.getProduct as jest.Mock).mockImplementation(async (id: string) => ({
+      success: true,
+      data: products[id],
+    }));
+
+    gateway = new MockPaymentGateway({ name: 'card' });
+    const registry = new PaymentGatewayRegistry();
+    registry.register(PaymentMethod.CREDIT_CARD, gateway);
+    payments = new PaymentService({ enabledMethods: [PaymentMethod.CREDIT_CARD] }, registry);
+
+    notifier = { notifyRefundProcessed: jest.fn().mockResolvedValue(undefined) };
+    orders = new OrderService({
+      repository: new InMemoryOrderRepository(),
+      payments,
+      plugins: notifier,
+    });
+
+    order = await orders.createOrder({
+      userId: '1001',
+      items: [
+        { productId: 'vpn_monthly', quantity: 2 },
+        { productId: 'game_key', quantity: 1 },
+      ],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+    });
+    await orders.initiatePayment(order.id);
+
+    payment = (await payments.getPaymentByOrderId(order.id))!;
+    gateway.setPaymentStatus(payment.gatewayTransactionId!, PaymentStatus.COMPLETED);
+    await payments.updatePaymentStatus(payment.id, PaymentStatus.COMPLETED);
+  });
+
+  const itemId = (productId: string) => order.items.find(item => item.productId === productId)!.id;
+
+  it('should record several partial refunds against one payment', async () => {
+    const first = await payments.createRefund({ paymentId: payment.id, amount: 5 });
+    const second = await payments.createRefund({ paymentId: payment.id, amount: 7.5 });
+
+    const refunds = await payments.getRefunds(payment.id);
+    const updated = await payments.getPayment(payment.id);
+
+    expect(first.success).toBe(true);
+    expect(second.success).toBe(true);
+    expect(refunds.map(refund => refund.amount)).toEqual([5, 7.5]);
+    expect(refunds.every(refund => refund.status === RefundStatus.COMPLETED)).toBe(true);
+    expect(updated?.refundAmount).toBe(12.5);
+    expect(updated?.status).toBe(PaymentStatus.COMPLETED);
+  });
+
+  it('should never refund more than was captured', async () => {
+    await payments.createRefund({ paymentId: payment.id, amount: 45 });
+
+    const result = await payments.createRefund({ paymentId: payment.id, amount: 5.01 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Refund of 5.01 exceeds refundable amount 5');
+  });
+
+  it('should not let concurrent refunds overdraw the payment', async () => {
+    const results = await Promise.all([
+      payments.createRefund({ paymentId: payment.id, amount: 30 }),
+      payments.createRefund({ paymentId: payment.id, amount: 30 }),
+    ]);
+
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    expect((await payments.getPayment(payment.id))?.refundAmount).toBe(30);
+  });
+
+  it('should mark the order partially refunded after an item refund', async () => {
+    const result = await orders.refundOrder(order.id, {
+      items: [{ orderItemId: itemId('vpn_monthly'), quantity: 1 }],
+      reason: 'One month unused',
+    });
+
+    const updated = await orders.getOrder(order.id);
+    const vpnItem = updated?.items.find(item => item.productId === 'vpn_monthly');
+
+    expect(result.success).toBe(true);
+    expect(result.refund?.amount).toBe(10);
+    expect(result.refund?.items).toEqual([
+      { orderItemId: itemId('vpn_monthly'), quantity: 1, amount: 10 },
+    ]);
+    expect(updated?.status).toBe(OrderStatus.PARTIALLY_REFUNDED);
+    expect(vpnItem?.status).toBe(OrderStatus.PARTIALLY_REFUNDED);
+    expect(updated?.statusHistory.at(-1)).toEqual(
+      expect.objectContaining({ to: OrderStatus.PARTIALLY_REFUNDED, reason: 'One month unused' })
+    );
+  });
+
+  it('should reject refunding more of an item than was bought', async () => {
+    await orders.refundOrder(order.id, { items: [{ orderItemId: itemId('game_key') }] });
+
+    const result = await orders.refundOrder(order.id, {
+      items: [{ orderItemId: itemId('game_key'), quantity: 1 }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('0 refundable');
+  });
+
+  it('should mark the order refunded once everything is returned', async () => {
+    await orders.refundOrder(order.id, { items: [{ orderItemId: itemId('game_key') }] });
+    await orders.refundOrder(order.id, { items: [{ orderItemId: itemId('vpn_monthly') }] });
+
+    const updated = await orders.getOrder(order.id);
+
+    expect(updated?.status).toBe(OrderStatus.REFUNDED);
+    expect(updated?.items.every(item => item.status === OrderStatus.REFUNDED)).toBe(true);
+    expect((await payments.getPayment(payment.id))?.status).toBe(PaymentStatus.REFUNDED);
+  });
+
+  it('should notify the delivering plugin of each refunded item', async () => {
+    await orders.refundOrder(order.id, { items: [{ orderItemId: itemId('game_key') }] });
+
+    expect(notifier.notifyRefundProcessed).toHaveBeenCalledTimes(1);
+    expect(notifier.notifyRefundProcessed).toHaveBeenCalledWith(
+      'keys',
+      expect.objectContaining({
+        product: expect.objectContaining({ id: 'game_key' }),
+        refund: expect.objectContaining({ amount: 30 }),
+      })
+    );
+  });
+
+  it('should notify the plugin again when more of a partially refunded item is returned', async () => {
+    const bulk = await orders.createOrder({
+      userId: '1001',
+      items: [{ productId: 'vpn_monthly', quantity: 3 }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+    });
+    await orders.initiatePayment(bulk.id);
+    const bulkPayment = (await payments.getPaymentByOrderId(bulk.id))!;
+    gateway.setPaymentStatus(bulkPayment.gatewayTransactionId!, PaymentStatus.COMPLETED);
+    await payments.updatePaymentStatus(bulkPayment.id, PaymentStatus.COMPLETED);
+    const vpnItem = bulk.items[0]!;
+
+    await orders.refundOrder(bulk.id, { items: [{ orderItemId: vpnItem.id, quantity: 1 }] });
+    const second = await orders.refundOrder(bulk.id, {
+      items: [{ orderItemId: vpnItem.id, quantity: 1 }],
+    });
+
+    expect(second.success).toBe(true);
+    expect((await orders.getOrder(bulk.id))?.items[0]?.status).toBe(OrderStatus.PARTIALLY_REFUNDED);
+    expect(notifier.notifyRefundProcessed).toHaveBeenCalledTimes(2);
+    expect(notifier.notifyRefundProcessed).toHaveBeenLastCalledWith(
+      'vpn',
+      expect.objectContaining({ refund: expect.objectContaining({ id: second.refund?.id }) })
+    );
+  });
+});
+
+describe('Refunds of discounted and taxed orders', () => {
+  let gateway: MockPaymentGateway;
+  let payments: PaymentService;
+  let orders: OrderService;
+  let order: Order;
+  let payment: Payment;
+
+  beforeEach(async () => {
+    (productService.getProduct as jest.Mock).mockImplementation(async (id: string) => ({
+      success: true,
+      data: products[id],
+    }));
+
+    gateway = new MockPaymentGateway({ name: 'card' });
+    const registry = new PaymentGatewayRegistry();
+    registry.register(PaymentMethod.CREDIT_CARD, gateway);
+    payments = new PaymentService({ enabledMethods: [PaymentMethod.CREDIT_CARD] }, registry);
+
+    const promotions = new PromotionService();
+    promotions.createPromotion({ id: 'half', name: 'Half off', type: 'percentage', value: 50 });
+    promotions.addCodes('half', ['HALF']);
+
+    orders = new OrderService({
+      repository: new InMemoryOrderRepository(),
+      payments,
+      promotions,
+      tax: new TaxService([{ id: 'gst', name: 'GST', rate: 0.09, inclusive: false }]),
+    });
+
+    // 50 off by half is 25, plus 9% tax on top
+    order = await orders.createOrder({
+      userId: '1001',
+      items: [
+        { productId: 'vpn_monthly', quantity: 2 },
+        { productId: 'game_key', quantity: 1 },
+      ],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+      couponCodes: ['HALF'],
+    });
+    await orders.initiatePayment(order.id);
+
+    payment = (await payments.getPaymentByOrderId(order.id))!;
+    gateway.setPaymentStatus(payment.gatewayTransactionId!, PaymentStatus.COMPLETED);
+    await payments.updatePaymentStatus(payment.id, PaymentStatus.COMPLETED);
+  });
+
+  const itemId = (productId: string) => order.items.find(item => item.productId === productId)!.id;
+
+  it('should refund the discounted price of an item with its tax', async () => {
+    expect(payment.amount).toBe(27.25);
+
+    const result = await orders.refundOrder(order.id, {
+      items: [{ orderItemId: itemId('vpn_monthly'), quantity: 1 }],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.refund?.amount).toBe(5.45);
+  });
+
+  it('should refund exactly the amount paid once every item is returned', async () => {
+    const amounts: Array<number | undefined> = [];
+    for (const items of [
+      [{ orderItemId: itemId('vpn_monthly'), quantity: 1 }],
+      [{ orderItemId: itemId('game_key') }],
+      [{ orderItemId: itemId('vpn_monthly') }],
+    ]) {
+      amounts.push((await orders.refundOrder(order.id, { items })).refund?.amount);
+    }
+
+    expect(amounts).toEqual([5.45, 16.35, 5.45]);
+    expect((await payments.getPayment(payment.id))?.status).toBe(PaymentStatus.REFUNDED);
+    expect((await orders.getOrder(order.id))?.status).toBe(OrderStatus.REFUNDED);
+  });
+});
+
+describe('Refund minor units', () => {
+  it('should use the minor unit of each currency', () => {
+    expect(toMinorUnits(12.5, 'MYR')).toBe(1250);
+    expect(toMinorUnits(1500, 'JPY')).toBe(1500);
+    expect(toMinorUnits(1.234, 'KWD')).toBe(1234);
+    expect(toMinorUnits(0.000000001, 'TON')).toBe(1);
+    expect(fromMinorUnits(1234, 'KWD')).toBe(1.234);
+    expect(fromMinorUnits(3500000001, 'TON')).toBe(3.500000001);
+  });
+});
+
+describe('SqlRefundLedger', () => {
+  let db: Database;
+  let ledger: SqlRefundLedger;
+  // Runs before each statement; returning rows skips the statement, as if it lost a race
+  let beforeQuery: ((text: string) => { rows: any[] } | void) | null;
+
+  // The refunds and refund_items tables of migrations 004 and 016
+  const SQLITE_SCHEMA = `
+    CREATE TABLE refunds (
+      id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+      payment_id TEXT,
+      amount REAL NOT NULL,
+      reason TEXT,
+      gateway_refund_id TEXT,
+      status TEXT DEFAULT 'pending',
+      processed_at TEXT,
+      created_at TEXT,
+      order_id TEXT,
+      refund_ref TEXT UNIQUE,
+      payment_ref TEXT,
+      order_ref TEXT,
+      sequence INTEGER,
+      currency TEXT,
+      amount_minor INTEGER,
+      UNIQUE (payment_ref, sequence)
+    );
+    CREATE TABLE refund_items (
+      id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+      refund_id TEXT NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+      order_item_id TEXT,
+      quantity INTEGER NOT NULL,
+      amount REAL NOT NULL,
+      created_at TEXT,
+      order_item_ref TEXT,
+      line_number INTEGER NOT NULL DEFAULT 0
+    );
+  `;
+
+  const buildRefund = (id: string, overrides: Partial<Refund> = {}): Refund => ({
+    id,
+    paymentId: 'pay_1',
+    orderId: 'ord_1',
+    amount: 10,
+    currency: 'MYR',
+    status: RefundStatus.PENDING,
+    items: [],
+    createdAt: new Date('2026-10-01T10:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs({
+      wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+    db = new SQL.Database();
+    db.run(SQLITE_SCHEMA);
+    beforeQuery = null;
+
+    const client: SqlClient = {
+      async query(text: string, params: unknown[] = []) {
+        const intercepted = beforeQuery?.(text);
+        if (intercepted) {
+          return intercepted;
+        }
+        const statement = db.prepare(text);
+        try {
+          const bindings: Record<string, any> = {};
+          params.forEach((value, index) => {
+            bindings[`$${index + 1}`] = value;
+          });
+          statement.bind(bindings);
+
+          const rows: any[] = [];
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+          return { rows };
+        } finally {
+          statement.free();
+        }
+      },
+    };
+    ledger = new SqlRefundLedger(client);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should round-trip a refund with its items', async () => {
+    const refund = buildRefund('rfd_1', {
+      reason: 'Unused',
+      items: [
+        { orderItemId: 'itm_b', quantity: 1, amount: 6 },
+        { orderItemId: 'itm_a', quantity: 2, amount: 4 },
+      ],
+    });
+
+    expect(await ledger.reserve(refund, 50)).toBe(true);
+    const completed = {
+      ...refund,
+      status: RefundStatus.COMPLETED,
+      gatewayRefundId: 'gw_rfd_1',
+      processedAt: new Date('2026-10-01T10:01:00Z'),
+    };
+    await ledger.update(completed);
+
+    expect(await ledger.getRefund('rfd_1')).toEqual(completed);
+    expect(await ledger.getRefunds('pay_1')).toEqual([completed]);
+    expect(await ledger.getRefundedQuantity('pay_1', 'itm_a')).toBe(2);
+  });
+
+  it('should refuse refunds past the captured amount and ignore failed ones', async () => {
+    expect(await ledger.reserve(buildRefund('rfd_1', { amount: 30 }), 50)).toBe(true);
+    expect(await ledger.reserve(buildRefund('rfd_2', { amount: 20.01 }), 50)).toBe(false);
+
+    await ledger.update(buildRefund('rfd_1', { amount: 30, status: RefundStatus.FAILED }));
+
+    expect(await ledger.reserve(buildRefund('rfd_3', { amount: 50 }), 50)).toBe(true);
+    expect(await ledger.getRefundedAmount('pay_1')).toBe(50);
+    expect((await ledger.getRefunds('pay_1')).map(refund => refund.id)).toEqual(['rfd_1', 'rfd_3']);
+  });
+
+  it('should keep three-decimal and TON amounts exact', async () => {
+    await ledger.reserve(
+      buildRefund('rfd_1', { paymentId: 'pay_kwd', amount: 1.234, currency: 'KWD' }),
+      5
+    );
+    await ledger.reserve(
+      buildRefund('rfd_2', { paymentId: 'pay_ton', amount: 0.000000001, currency: 'TON' }),
+      1
+    );
+
+    expect(await ledger.getRefundedAmount('pay_kwd')).toBe(1.234);
+    expect(await ledger.getRefundedAmount('pay_ton')).toBe(0.000000001);
+    expect(
+      await ledger.reserve(
+        buildRefund('rfd_3', { paymentId: 'pay_kwd', amount: 3.767, currency: 'KWD' }),
+        5
+      )
+    ).toBe(false);
+  });
+
+  const concurrentRefund = (amount: number) =>
+    db.run(
+      `INSERT INTO refunds (refund_ref, payment_ref, order_ref, sequence, amount, amount_minor,
+         currency, status, created_at)
+       VALUES ('rfd_other', 'pay_1', 'ord_1', 1, $1, $2, 'MYR', 'pending', '2026-10-01')`,
+      { $1: amount, $2: amount * 100 }
+    );
+
+  it('should refuse a refund when a concurrent one used up the balance', async () => {
+    beforeQuery = text => {
+      if (text.includes('INSERT INTO refunds')) {
+        beforeQuery = null;
+        concurrentRefund(40);
+      }
+    };
+
+    expect(await ledger.reserve(buildRefund('rfd_1', { amount: 20 }), 50)).toBe(false);
+    expect(await ledger.getRefundedAmount('pay_1')).toBe(40);
+  });
+
+  it('should retry when a concurrent refund takes its sequence', async () => {
+    // The other refund commits first, so this insert conflicts on sequence 1
+    beforeQuery = text => {
+      if (text.includes('INSERT INTO refunds')) {
+        beforeQuery = null;
+        concurrentRefund(10);
+        return { rows: [] };
+      }
+    };
+
+    expect(await ledger.reserve(buildRefund('rfd_1', { amount: 20 }), 50)).toBe(true);
+    expect((await ledger.getRefunds('pay_1')).map(refund => refund.id)).toEqual([
+      'rfd_other',
+      'rfd_1',
+    ]);
+    expect(await ledger.getRefundedAmount('pay_1')).toBe(30);
+  });
+});
@@ -0,0 +1,269 @@
+// ============================================================================
+// Stock Reservation Tests
+// ============================================================================
+
+import { OrderService } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { MockPaymentGateway } from '../payment/MockPaymentGateway';
+import { ProductService, productService } from '../product/ProductService';
+import { InventoryService } from '../product/InventoryService';
+import { StockReservationService } from '../product/StockReservationService';
+import { OrderStatus, PaymentMethod, PaymentStatus } from '../../types';
+
+const TTL = 15 * 60 * 1000;
+
+describe('Stock reservations', () => {
+  let products: ProductService;
+  let inventory: InventoryService;
+  let reservations: StockReservationService;
+  let orders: OrderService;
+
+  const stockOf = async (productId: string) => (await products.getProductById(productId))!.stock!;
+
+  const placeOrder = (items: Array<{ productId: string; quantity: number }>) =>
+    orders.createOrder({ userId: '1001', items, paymentMethod: PaymentMethod.CURLEC });
+
+  beforeEach(() => {
+    products = new ProductService();
+    jest.spyOn(productService, 'getProduct').mockImplementation(id => products.getProduct(id));
+
+    inventory = new InventoryService();
+    reservations = new StockReservationService(products, inventory, TTL);
+    orders = new OrderService({
+      repository: new InMemoryOrderRepository(),
+      payments: new PaymentService({ enabledMethods: [] }, new PaymentGatewayRegistry()),
+      reservations,
+    });
+  });
+
+  afterEach(() => {
+    orders.stopReservationSweeper();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should reserve stock with an owner and expiry when an order is created', async () => {
+    const order = await placeOrder([{ productId: 'netflix-premium-1', quantity: 2 }]);
+
+    expect(await stockOf('netflix-premium-1')).toEqual(
+      expect.objectContaining({ available: 23, reserved: 7, total: 30 })
+    );
+
+    const [reservation] = await reservations.getReservations(order.id);
+    expect(reservation).toEqual(
+      expect.objectContaining({
+        orderId: order.id,
+        userId: '1001',
+        productId: 'netflix-premium-1',
+        quantity: 2,
+        status: 'ACTIVE',
+      })
+    );
+    expect(reservation!.expiresAt.getTime() - reservation!.createdAt.getTime()).toBe(TTL);
+
+    const [transaction] = await inventory.getTransactionHistory('netflix-premium-1');
+    expect(transaction).toEqual(
+      expect.objectContaining({
+        type: 'RESERVE',
+        quantity: 2,
+        previousStock: 25,
+        newStock: 23,
+        metadata: expect.objectContaining({ orderId: order.id, userId: '1001' }),
+      })
+    );
+  });
+
+  it('should convert the reservation into a sale when the order completes', async () => {
+    const order = await placeOrder([{ productId: 'netflix-premium-1', quantity: 2 }]);
+
+    await orders.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await orders.updateOrderStatus(order.id, OrderStatus.COMPLETED);
+
+    expect(await stockOf('netflix-premium-1')).toEqual(
+      expect.objectContaining({ available: 23, reserved: 5, total: 28 })
+    );
+    expect((await reservations.getReservations(order.id))[0]?.status).toBe('COMMITTED');
+
+    const sales = (await inventory.getTransactionHistory('netflix-premium-1')).filter(
+      transaction => transaction.type === 'SALE'
+    );
+    expect(sales).toEqual([
+      expect.objectContaining({
+        quantity: 2,
+        previousStock: 30,
+        newStock: 28,
+        metadata: expect.objectContaining({ orderId: order.id }),
+      }),
+    ]);
+  });
+
+  it('should record a shortfall when the reserved stock is gone at completion', async () => {
+    const order = await placeOrder([{ productId: 'netflix-premium-1', quantity: 2 }]);
+    jest.spyOn(products, 'commitReservedStock').mockResolvedValue(false);
+
+    await orders.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await orders.updateOrderStatus(order.id, OrderStatus.COMPLETED);
+
+    expect((await reservations.getReservations(order.id))[0]).toEqual(
+      expect.objectContaining({ status: 'COMMITTED', shortfall: 2 })
+    );
+
+    const sales = (await inventory.getTransactionHistory('netflix-premium-1')).filter(
+      transaction => transaction.type === 'SALE'
+    );
+    expect(sales).toEqual([
+      expect.objectContaining({
+        quantity: 2,
+        previousStock: 30,
+        newStock: 30,
+        reason: 'Order completed without its reserved stock',
+        metadata: expect.objectContaining({ orderId: order.id, shortfall: 2 }),
+      }),
+    ]);
+  });
+
+  it('should release the stock when the order is cancelled', async () => {
+    const order = await placeOrder([{ productId: 'netflix-premium-1', quantity: 2 }]);
+
+    await orders.cancelOrder(order.id, 'Changed my mind');
+
+    expect(await stockOf('netflix-premium-1')).toEqual(
+      expect.objectContaining({ available: 25, reserved: 5, total: 30 })
+    );
+    expect((await reservations.getReservations(order.id))[0]?.status).toBe('RELEASED');
+    expect(
+      (await inventory.getTransactionHistory('netflix-premium-1')).find(
+        transaction => transaction.type === 'RELEASE'
+      )
+    ).toEqual(expect.objectContaining({ quantity: 2, reason: 'Changed my mind' }));
+  });
+
+  it('should expire abandoned checkouts and cancel their orders', async () => {
+    const abandoned = await placeOrder([{ productId: 'netflix-premium-1', quantity: 2 }]);
+    const paid = await placeOrder([{ productId: 'netflix-premium-1', quantity: 1 }]);
+    await orders.updateOrderStatus(paid.id, OrderStatus.PROCESSING);
+    await orders.updateOrderStatus(paid.id, OrderStatus.COMPLETED);
+
+    const cancelled = await orders.releaseExpiredReservations(new Date(Date.now() + TTL + 1000));
+
+    expect(cancelled).toBe(1);
+    expect((await orders.getOrder(abandoned.id))?.status).toBe(OrderStatus.CANCELLED);
+    expect((await orders.getOrder(paid.id))?.status).toBe(OrderStatus.COMPLETED);
+    expect((await reservations.getReservations(abandoned.id))[0]?.status).toBe('EXPIRED');
+    expect(await stockOf('netflix-premium-1')).toEqual(
+      expect.objectContaining({ available: 24, reserved: 5, total: 29 })
+    );
+    expect(
+      (await inventory.getTransactionHistory('netflix-premium-1')).filter(
+        transaction => transaction.reason === 'Reservation expired'
+      )
+    ).toHaveLength(1);
+  });
+
+  it('should leave unexpired reservations alone', async () => {
+    const order = await placeOrder([{ productId: 'netflix-premium-1', quantity: 2 }]);
+
+    await expect(orders.releaseExpiredReservations()).resolves.toBe(0);
+
+    expect((await orders.getOrder(order.id))?.status).toBe(OrderStatus.PENDING);
+    expect((await stockOf('netflix-premium-1')).reserved).toBe(7);
+  });
+
+  it('should reserve all items or none', async () => {
+    await expect(
+      placeOrder([
+        { productId: 'vpn-premium-1', quantity: 1 },
+        { productId: 'netflix-premium-1', quantity: 20 },
+        { productId: 'netflix-premium-1', quantity: 10 },
+      ])
+    ).rejects.toThrow('Insufficient stock for product: Netflix');
+
+    expect((await stockOf('vpn-premium-1')).available).toBe(100);
+    expect((await stockOf('netflix-premium-1')).available).toBe(25);
+    expect(await reservations.getReservations()).toEqual([]);
+    expect(await inventory.getTransactionHistory()).toEqual([]);
+  });
+
+  it('should sweep on an interval once started', () => {
+    jest.useFakeTimers();
+    const sweep = jest.spyOn(orders, 'releaseExpiredReservations').mockResolvedValue(0);
+
+    orders.startReservationSweeper(1000);
+    jest.advanceTimersByTime(3000);
+    orders.stopReservationSweeper();
+    jest.advanceTimersByTime(3000);
+
+    expect(sweep).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('Stock reservations with a payment in flight', () => {
+  let products: ProductService;
+  let reservations: StockReservationService;
+  let gateway: MockPaymentGateway;
+  let payments: PaymentService;
+  let orders: OrderService;
+
+  const expiry = () => new Date(Date.now() + TTL + 1000);
+
+  const placePaidOrder = async () => {
+    const order = await orders.createOrder({
+      userId: '1001',
+      items: [{ productId: 'netflix-premium-1', quantity: 2 }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+    });
+    await orders.initiatePayment(order.id);
+    return { order, payment: (await payments.getPaymentByOrderId(order.id))! };
+  };
+
+  beforeEach(() => {
+    products = new ProductService();
+    jest.spyOn(productService, 'getProduct').mockImplementation(id => products.getProduct(id));
+
+    reservations = new StockReservationService(products, new InventoryService(), TTL);
+    gateway = new MockPaymentGateway({ name: 'card' });
+    const registry = new PaymentGatewayRegistry();
+    registry.register(PaymentMethod.CREDIT_CARD, gateway);
+    payments = new PaymentService({ enabledMethods: [PaymentMethod.CREDIT_CARD] }, registry);
+    orders = new OrderService({
+      repository: new InMemoryOrderRepository(),
+      payments,
+      reservations,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should complete an order the gateway reports paid instead of cancelling it', async () => {
+    const { order, payment } = await placePaidOrder();
+    gateway.setPaymentStatus(payment.gatewayTransactionId!, PaymentStatus.COMPLETED);
+
+    await expect(orders.releaseExpiredReservations(expiry())).resolves.toBe(0);
+
+    expect((await orders.getOrder(order.id))?.status).toBe(OrderStatus.COMPLETED);
+    expect((await reservations.getReservations(order.id))[0]?.status).toBe('COMMITTED');
+  });
+
+  it('should refund a payment that completes after its order was cancelled', async () => {
+    const { order, payment } = await placePaidOrder();
+
+    await expect(orders.releaseExpiredReservations(expiry())).resolves.toBe(1);
+    expect((await orders.getOrder(order.id))?.status).toBe(OrderStatus.CANCELLED);
+
+    gateway.setPaymentStatus(payment.gatewayTransactionId!, PaymentStatus.COMPLETED);
+    await payments.syncPaymentStatus(payment.id);
+
+    expect((await orders.getOrder(order.id))?.status).toBe(OrderStatus.CANCELLED);
+    expect((await payments.getPayment(payment.id))?.status).toBe(PaymentStatus.REFUNDED);
+    expect(gateway.getGatewayPayment(payment.gatewayTransactionId!)?.refundedAmount).toBe(
+      payment.amount
+    );
+    expect((await payments.getRefunds(payment.id))[0]?.reason).toBe(
+      'Order was cancelled before the payment completed'
+    );
+  });
+});
@@ -0,0 +1,413 @@
+// ============================================================================
+// Subscription Renewal and Dunning Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { SubscriptionService, addBillingInterval } from '../subscription/SubscriptionService';
+import type { RenewalPayments, SubscriptionExtender } from '../subscription/SubscriptionService';
+import { InMemorySubscriptionStore, SqlSubscriptionStore } from '../subscription/SubscriptionStore';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { OrderService } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import { OrderStatus, PaymentMethod, ProductCategory, SubscriptionStatus } from '../../types';
+import type { Product, Subscription } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+    getProductById: jest.fn(),
+    checkStock: jest.fn(),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+// sql.js needs Node's text codecs, which jsdom does not expose
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const vpnMonthly = {
+  id: 'vpn-monthly',
+  name: 'VPN Monthly',
+  price: 15,
+  currency: 'MYR',
+  category: ProductCategory.VPN,
+  isActive: true,
+  pluginId: 'vpn',
+  subscription: { interval: 'month' },
+} as Product;
+
+describe('addBillingInterval', () => {
+  it('should keep month ends inside the target month', () => {
+    expect(addBillingInterval(new Date(2026, 0, 31), 'month')).toEqual(new Date(2026, 1, 28));
+    expect(addBillingInterval(new Date(2028, 0, 31), 'month')).toEqual(new Date(2028, 1, 29));
+    expect(addBillingInterval(new Date(2026, 10, 15), 'month', 3)).toEqual(new Date(2027, 1, 15));
+    expect(addBillingInterval(new Date(2028, 1, 29), 'year')).toEqual(new Date(2029, 1, 28));
+    expect(addBillingInterval(new Date(2026, 9, 18), 'week', 2)).toEqual(new Date(2026, 10, 1));
+  });
+});
+
+describe('SubscriptionService', () => {
+  let orders: OrderService;
+  let payments: jest.Mocked<RenewalPayments>;
+  let plugins: jest.Mocked<SubscriptionExtender>;
+  let subscriptions: SubscriptionService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-01T08:00:00Z') });
+    (productService.getProduct as jest.Mock).mockResolvedValue({
+      success: true,
+      data: vpnMonthly,
+    });
+
+    orders = new OrderService({ repository: new InMemoryOrderRepository() });
+    payments = { createPayment: jest.fn().mockResolvedValue({ success: true, paymentId: 'p1' }) };
+    plugins = { extendSubscription: jest.fn().mockResolvedValue(true) };
+    subscriptions = new SubscriptionService(
+      new InMemorySubscriptionStore(),
+      orders,
+      payments,
+      plugins,
+      { gracePeriodMs: 3 * DAY, retryDelaysMs: [DAY] }
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const complete = async (orderId: string) => {
+    await orders.updateOrderStatus(orderId, OrderStatus.PROCESSING);
+    await orders.updateOrderStatus(orderId, OrderStatus.COMPLETED);
+  };
+
+  const subscribe = async (): Promise<Subscription> => {
+    const order = await orders.createOrder({
+      userId: 'user-1',
+      items: [{ productId: 'vpn-monthly', quantity: 1 }],
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+    });
+    await complete(order.id);
+    return (await subscriptions.getUserSubscriptions('user-1'))[0]!;
+  };
+
+  it('should start a subscription when a subscription product is bought', async () => {
+    const subscription = await subscribe();
+
+    expect(subscription).toMatchObject({
+      status: SubscriptionStatus.ACTIVE,
+      productId: 'vpn-monthly',
+      pluginId: 'vpn',
+      interval: 'month',
+      intervalCount: 1,
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+      failedAttempts: 0,
+    });
+    expect(subscription.currentPeriodEnd).toEqual(new Date('2026-11-01T08:00:00Z'));
+  });
+
+  it('should charge a renewal order and extend the plugin account once it is paid', async () => {
+    const subscription = await subscribe();
+    jest.setSystemTime(subscription.currentPeriodEnd);
+
+    expect(await subscriptions.runRenewals()).toEqual({
+      renewalsStarted: 1,
+      extended: 0,
+      expired: 0,
+    });
+    const pending = await subscriptions.getSubscription(subscription.id);
+    expect(payments.createPayment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orderId: pending?.pendingOrderId,
+        amount: (await orders.getOrder(pending!.pendingOrderId!))?.totalAmount,
+        method: PaymentMethod.CREDIT_CARD,
+      })
+    );
+    // A second run while the payment is outstanding places no new order
+    expect((await subscriptions.runRenewals()).renewalsStarted).toBe(0);
+
+    await complete(pending!.pendingOrderId!);
+
+    const renewed = await subscriptions.getSubscription(subscription.id);
+    expect(renewed).toMatchObject({
+      status: SubscriptionStatus.ACTIVE,
+      lastRenewalOrderId: pending?.pendingOrderId,
+      extensionPending: false,
+    });
+    expect(renewed?.pendingOrderId).toBeUndefined();
+    expect(renewed?.currentPeriodEnd).toEqual(new Date('2026-12-01T08:00:00Z'));
+    const [pluginId, context] = plugins.extendSubscription.mock.calls[0]!;
+    expect(pluginId).toBe('vpn');
+    expect(context.config.days).toBe(30);
+    expect(context.subscription?.id).toBe(subscription.id);
+  });
+
+  it('should retry failed renewals and expire the subscription after the grace period', async () => {
+    payments.createPayment.mockResolvedValue({ success: false, error: 'Card declined' });
+    const subscription = await subscribe();
+    const periodEnd = subscription.currentPeriodEnd.getTime();
+    jest.setSystemTime(periodEnd);
+
+    await subscriptions.runRenewals();
+
+    const pastDue = await subscriptions.getSubscription(subscription.id);
+    expect(pastDue).toMatchObject({
+      status: SubscriptionStatus.PAST_DUE,
+      failedAttempts: 1,
+      lastFailureReason: 'Card declined',
+      nextAttemptAt: new Date(periodEnd + DAY),
+      graceEndsAt: new Date(periodEnd + 3 * DAY),
+    });
+
+    // Nothing to do before the retry is due
+    jest.setSystemTime(periodEnd + DAY / 2);
+    expect((await subscriptions.runRenewals()).renewalsStarted).toBe(0);
+
+    jest.setSystemTime(periodEnd + DAY);
+    expect((await subscriptions.runRenewals()).renewalsStarted).toBe(1);
+    const retried = await subscriptions.getSubscription(subscription.id);
+    expect(retried?.failedAttempts).toBe(2);
+    expect(retried?.nextAttemptAt).toBeUndefined();
+
+    jest.setSystemTime(periodEnd + 3 * DAY);
+    expect((await subscriptions.runRenewals()).expired).toBe(1);
+    expect((await subscriptions.getSubscription(subscription.id))?.status).toBe(
+      SubscriptionStatus.EXPIRED
+    );
+    expect(payments.createPayment).toHaveBeenCalledTimes(2);
+    expect(plugins.extendSubscription).not.toHaveBeenCalled();
+  });
+
+  it('should recover a past-due subscription when a retry is paid', async () => {
+    payments.createPayment.mockResolvedValueOnce({ success: false, error: 'Insufficient funds' });
+    const subscription = await subscribe();
+    jest.setSystemTime(subscription.currentPeriodEnd);
+    await subscriptions.runRenewals();
+
+    await subscriptions.updatePaymentMethod(subscription.id, PaymentMethod.TON);
+    await subscriptions.runRenewals();
+    const pending = await subscriptions.getSubscription(subscription.id);
+    expect(payments.createPayment).toHaveBeenLastCalledWith(
+      expect.objectContaining({ method: PaymentMethod.TON })
+    );
+    await complete(pending!.pendingOrderId!);
+
+    const renewed = await subscriptions.getSubscription(subscription.id);
+    expect(renewed).toMatchObject({ status: SubscriptionStatus.ACTIVE, failedAttempts: 0 });
+    expect(renewed?.graceEndsAt).toBeUndefined();
+    // The new period follows on from the old one, not from the late payment
+    expect(renewed?.currentPeriodStart).toEqual(subscription.currentPeriodEnd);
+  });
+
+  it('should keep retrying the account extension until the plugin succeeds', async () => {
+    plugins.extendSubscription.mockResolvedValueOnce(false);
+    const subscription = await subscribe();
+    jest.setSystemTime(subscription.currentPeriodEnd);
+    await subscriptions.runRenewals();
+    await complete((await subscriptions.getSubscription(subscription.id))!.pendingOrderId!);
+
+    expect((await subscriptions.getSubscription(subscription.id))?.extensionPending).toBe(true);
+
+    expect(await subscriptions.runRenewals()).toEqual({
+      renewalsStarted: 0,
+      extended: 1,
+      expired: 0,
+    });
+    expect((await subscriptions.getSubscription(subscription.id))?.extensionPending).toBe(false);
+  });
+
+  it('should stop renewing a cancelled subscription at the end of its period', async () => {
+    const subscription = await subscribe();
+
+    await subscriptions.cancel(subscription.id);
+    expect((await subscriptions.getSubscription(subscription.id))?.status).toBe(
+      SubscriptionStatus.CANCELLED
+    );
+
+    jest.setSystemTime(subscription.currentPeriodEnd);
+    expect(await subscriptions.runRenewals()).toEqual({
+      renewalsStarted: 0,
+      extended: 0,
+      expired: 1,
+    });
+    expect(payments.createPayment).not.toHaveBeenCalled();
+  });
+});
+
+describe('SqlSubscriptionStore', () => {
+  let db: Database;
+  let store: SqlSubscriptionStore;
+
+  // The subscriptions table of migration 010
+  const SQLITE_SCHEMA = `
+    CREATE TABLE subscriptions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      product_id TEXT NOT NULL,
+      plugin_id TEXT NOT NULL,
+      account_id TEXT,
+      origin_order_id TEXT NOT NULL,
+      origin_order_item_id TEXT NOT NULL UNIQUE,
+      status TEXT NOT NULL DEFAULT 'active',
+      billing_interval TEXT NOT NULL,
+      interval_count INTEGER NOT NULL DEFAULT 1,
+      quantity INTEGER NOT NULL DEFAULT 1,
+      currency TEXT NOT NULL,
+      payment_method TEXT NOT NULL,
+      current_period_start TEXT NOT NULL,
+      current_period_end TEXT NOT NULL,
+      pending_order_id TEXT,
+      last_renewal_order_id TEXT,
+      failed_attempts INTEGER NOT NULL DEFAULT 0,
+      last_failure_reason TEXT,
+      next_attempt_at TEXT,
+      grace_ends_at TEXT,
+      extension_pending INTEGER NOT NULL DEFAULT 0,
+      cancelled_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+  `;
+
+  const now = new Date('2026-10-18T12:00:00Z');
+  const at = (days: number) => new Date(now.getTime() + days * DAY);
+
+  const buildSubscription = (id: string, overrides: Partial<Subscription> = {}): Subscription => ({
+    id,
+    userId: 'user-1',
+    productId: 'vpn-monthly',
+    pluginId: 'vpn',
+    originOrderId: `order-${id}`,
+    originOrderItemId: `item-${id}`,
+    status: SubscriptionStatus.ACTIVE,
+    interval: 'month',
+    intervalCount: 1,
+    quantity: 1,
+    currency: 'MYR',
+    paymentMethod: PaymentMethod.CURLEC,
+    currentPeriodStart: at(-20),
+    currentPeriodEnd: at(10),
+    failedAttempts: 0,
+    extensionPending: false,
+    createdAt: at(-20),
+    updatedAt: at(-20),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs({
+      wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+    db = new SQL.Database();
+    db.run(SQLITE_SCHEMA);
+
+    const client: SqlClient = {
+      async query(text: string, params: unknown[] = []) {
+        const statement = db.prepare(text);
+        try {
+          const bindings: Record<string, any> = {};
+          params.forEach((value, index) => {
+            bindings[`$${index + 1}`] = typeof value === 'boolean' ? Number(value) : value;
+          });
+          statement.bind(bindings);
+
+          const rows: any[] = [];
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+          return { rows };
+        } finally {
+          statement.free();
+        }
+      },
+    };
+    store = new SqlSubscriptionStore(client);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should round-trip a subscription and update it in place', async () => {
+    const subscription = buildSubscription('sub_1', {
+      accountId: 'acct-1',
+      lastFailureReason: 'Card declined',
+      nextAttemptAt: at(1),
+      graceEndsAt: at(7),
+    });
+
+    await store.save(subscription);
+    expect(await store.findById('sub_1')).toEqual(subscription);
+
+    const renewed = {
+      ...subscription,
+      status: SubscriptionStatus.PAST_DUE,
+      failedAttempts: 1,
+      pendingOrderId: 'order-renewal',
+      extensionPending: true,
+      updatedAt: at(0),
+    };
+    await store.save(renewed);
+
+    expect(await store.findById('sub_1')).toEqual(renewed);
+    expect(await store.findByPendingOrder('order-renewal')).toEqual(renewed);
+    expect(await store.findByOrderItem('item-sub_1')).toEqual(renewed);
+  });
+
+  it('should list the subscriptions of a user oldest first', async () => {
+    await store.save(buildSubscription('sub_2', { createdAt: at(-5) }));
+    await store.save(buildSubscription('sub_1', { createdAt: at(-10) }));
+    await store.save(buildSubscription('sub_3', { userId: 'user-2' }));
+
+    expect((await store.findByUser('user-1')).map(subscription => subscription.id)).toEqual([
+      'sub_1',
+      'sub_2',
+    ]);
+  });
+
+  it('should find the same due subscriptions as the in-memory store', async () => {
+    const memory = new InMemorySubscriptionStore();
+    const subscriptions = [
+      buildSubscription('ended', { currentPeriodEnd: at(-1) }),
+      buildSubscription('running'),
+      buildSubscription('awaiting_payment', { currentPeriodEnd: at(-1), pendingOrderId: 'o1' }),
+      buildSubscription('cancelled_ended', {
+        status: SubscriptionStatus.CANCELLED,
+        currentPeriodEnd: at(-1),
+      }),
+      buildSubscription('retry_due', {
+        status: SubscriptionStatus.PAST_DUE,
+        nextAttemptAt: at(-1),
+        graceEndsAt: at(5),
+      }),
+      buildSubscription('retry_later', {
+        status: SubscriptionStatus.PAST_DUE,
+        nextAttemptAt: at(1),
+        graceEndsAt: at(5),
+      }),
+      buildSubscription('grace_over', {
+        status: SubscriptionStatus.PAST_DUE,
+        graceEndsAt: at(-1),
+      }),
+      buildSubscription('extension', { extensionPending: true, pendingOrderId: 'o2' }),
+      buildSubscription('expired', {
+        status: SubscriptionStatus.EXPIRED,
+        currentPeriodEnd: at(-1),
+      }),
+    ];
+    for (const [index, subscription] of subscriptions.entries()) {
+      const saved = { ...subscription, createdAt: at(-30 + index) };
+      await store.save(saved);
+      await memory.save(saved);
+    }
+
+    const due = (await store.findDue(now)).map(subscription => subscription.id);
+
+    expect(due).toEqual(['ended', 'cancelled_ended', 'retry_due', 'grace_over', 'extension']);
+    expect(due).toEqual((await memory.findDue(now)).map(subscription => subscription.id));
+  });
+});
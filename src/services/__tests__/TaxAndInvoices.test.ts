@@ -0,0 +1,243 @@
+// ============================================================================
+// Tax and Invoice Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { TaxService } from '../tax/TaxService';
+import type { TaxRule } from '../tax/TaxService';
+import { InvoiceService } from '../invoice/InvoiceService';
+import {
+  InMemoryInvoiceNumberSequence,
+  SqlInvoiceNumberSequence,
+} from '../invoice/InvoiceNumberSequence';
+import { OrderService } from '../order/OrderService';
+import { InMemoryOrderRepository } from '../order/OrderRepository';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { OrderStatus, PaymentMethod, ProductCategory } from '../../types';
+
+jest.mock('../product/ProductService', () => ({
+  productService: {
+    getProduct: jest.fn(),
+  },
+}));
+
+import { productService } from '../product/ProductService';
+
+// sql.js needs Node's text codecs, which jsdom does not expose
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const rules: TaxRule[] = [
+  { id: 'my-sst', name: 'Service Tax', rate: 0.08, inclusive: true, country: 'MY' },
+  {
+    id: 'my-games',
+    name: 'Entertainment Tax',
+    rate: 0.1,
+    inclusive: true,
+    country: 'MY',
+    categories: [ProductCategory.GAMING],
+  },
+  { id: 'sg-gst', name: 'GST', rate: 0.09, inclusive: false, country: 'SG' },
+];
+
+describe('TaxService', () => {
+  const tax = new TaxService(rules);
+
+  it('should pick the most specific rule for the country and category', () => {
+    expect(tax.findRule(ProductCategory.GAMING, 'my')?.id).toBe('my-games');
+    expect(tax.findRule(ProductCategory.VPN, 'MY')?.id).toBe('my-sst');
+    expect(tax.findRule(ProductCategory.VPN, 'US')).toBeNull();
+  });
+
+  it('should extract inclusive tax from the price', () => {
+    const result = tax.calculate(
+      [{ productId: 'vpn', category: ProductCategory.VPN, amount: 108 }],
+      { currency: 'MYR' }
+    );
+
+    expect(result).toEqual(
+      expect.objectContaining({ inclusiveTax: 8, exclusiveTax: 0, totalTax: 8 })
+    );
+    expect(result.lines[0]).toEqual(
+      expect.objectContaining({ ruleId: 'my-sst', country: 'MY', taxableAmount: 100, amount: 8 })
+    );
+  });
+
+  it('should add exclusive tax on top and round per line', () => {
+    const result = tax.calculate(
+      [
+        { productId: 'a', amount: 9.99 },
+        { productId: 'b', amount: 9.99 },
+      ],
+      { currency: 'SGD', country: 'SG' }
+    );
+
+    expect(result.lines.map(line => line.amount)).toEqual([0.9, 0.9]);
+    expect(result.exclusiveTax).toBe(1.8);
+  });
+
+  it('should reject rates outside 0-100%', () => {
+    expect(() => tax.setRules([{ id: 'bad', name: 'Bad', rate: 8, inclusive: false }])).toThrow(
+      'Tax rule bad has an invalid rate: 8'
+    );
+  });
+});
+
+describe('Order tax and invoices', () => {
+  const products: Record<string, any> = {
+    vpn: {
+      id: 'vpn',
+      name: 'VPN <Premium>',
+      price: 21.6,
+      currency: 'MYR',
+      category: ProductCategory.VPN,
+      isActive: true,
+    },
+    game: {
+      id: 'game',
+      name: 'Game Key',
+      price: 55,
+      currency: 'MYR',
+      category: ProductCategory.GAMING,
+      isActive: true,
+    },
+  };
+
+  let invoices: InvoiceService;
+  let orders: OrderService;
+
+  const completeOrder = async (country?: string) => {
+    const order = await orders.createOrder({
+      userId: '1001',
+      items: [
+        { productId: 'vpn', quantity: 1 },
+        { productId: 'game', quantity: 2 },
+      ],
+      paymentMethod: PaymentMethod.CURLEC,
+      ...(country && { country }),
+    });
+    await orders.updateOrderStatus(order.id, OrderStatus.PROCESSING);
+    await orders.updateOrderStatus(order.id, OrderStatus.COMPLETED);
+    return (await orders.getOrder(order.id))!;
+  };
+
+  beforeEach(() => {
+    (productService.getProduct as jest.Mock).mockImplementation(async (id: string) => ({
+      success: true,
+      data: products[id],
+    }));
+
+    invoices = new InvoiceService(new InMemoryInvoiceNumberSequence(), {
+      seller: { name: 'MTYB Sdn Bhd', taxId: 'W10-1808-31000000' },
+    });
+    orders = new OrderService({
+      repository: new InMemoryOrderRepository(),
+      payments: new PaymentService({ enabledMethods: [] }, new PaymentGatewayRegistry()),
+      tax: new TaxService(rules),
+      invoices,
+    });
+  });
+
+  it('should store a tax line per item without changing inclusive totals', async () => {
+    const order = await completeOrder();
+
+    expect(order.totalAmount).toBe(131.6);
+    expect(order.taxAmount).toBe(11.6);
+    expect(order.taxLines?.map(line => [line.orderItemId, line.ruleId, line.amount])).toEqual([
+      [order.items[0]?.id, 'my-sst', 1.6],
+      [order.items[1]?.id, 'my-games', 10],
+    ]);
+  });
+
+  it('should add exclusive tax to the order total', async () => {
+    const order = await completeOrder('SG');
+
+    expect(order.taxAmount).toBe(11.84);
+    expect(order.totalAmount).toBe(143.44);
+  });
+
+  it('should number invoices sequentially when orders complete', async () => {
+    const first = await completeOrder();
+    const second = await completeOrder();
+    const year = new Date().getUTCFullYear();
+
+    expect(first.invoiceNumber).toBe(`INV-${year}-000001`);
+    expect(second.invoiceNumber).toBe(`INV-${year}-000002`);
+    expect(second.invoicedAt).toBeInstanceOf(Date);
+  });
+
+  it('should render a downloadable HTML invoice', async () => {
+    const order = await completeOrder();
+
+    const document = await orders.getInvoice(order.id);
+
+    expect(document?.fileName).toBe(`${order.invoiceNumber}.html`);
+    expect(document?.mimeType).toBe('text/html');
+    expect(document?.content).toContain('@page { size: A4');
+    expect(document?.content).toContain('VPN &lt;Premium&gt;');
+    expect(document?.content).toContain('Tax ID: W10-1808-31000000');
+    expect(document?.content).toContain('Entertainment Tax 10% (included) on MYR 100.00');
+    expect(document?.content).toContain('<td class="num">MYR 131.60</td>');
+  });
+
+  it('should not invoice an order that never completed', async () => {
+    const order = await orders.createOrder({
+      userId: '1001',
+      items: [{ productId: 'vpn', quantity: 1 }],
+      paymentMethod: PaymentMethod.CURLEC,
+    });
+
+    await expect(orders.getInvoice(order.id)).resolves.toBeNull();
+    expect(() => invoices.buildInvoice(order)).toThrow(`Order ${order.id} has not been invoiced`);
+  });
+});
+
+describe('SqlInvoiceNumberSequence', () => {
+  let db: Database;
+  let sequence: SqlInvoiceNumberSequence;
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs({
+      wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+    db = new SQL.Database();
+    db.run(`CREATE TABLE invoice_sequences (series TEXT PRIMARY KEY, last_value INTEGER NOT NULL)`);
+
+    const client: SqlClient = {
+      async query(text: string, params: unknown[] = []) {
+        const statement = db.prepare(text);
+        try {
+          const bindings: Record<string, any> = {};
+          params.forEach((value, index) => {
+            bindings[`$${index + 1}`] = value;
+          });
+          statement.bind(bindings);
+
+          const rows: any[] = [];
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+          return { rows };
+        } finally {
+          statement.free();
+        }
+      },
+    };
+    sequence = new SqlInvoiceNumberSequence(client);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should count each series independently', async () => {
+    expect(await sequence.next('INV-2026')).toBe(1);
+    expect(await sequence.next('INV-2026')).toBe(2);
+    expect(await sequence.next('INV-2027')).toBe(1);
+    expect(await sequence.next('INV-2026')).toBe(3);
+  });
+});
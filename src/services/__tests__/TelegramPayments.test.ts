@@ -0,0 +1,236 @@
+// ============================================================================
+// Telegram Stars and TON Payment Tests
+// ============================================================================
+
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { PaymentSyncService } from '../payment/PaymentSyncService';
+import { WebhookHandler } from '../payment/WebhookHandler';
+import { TelegramStarsGateway } from '../payment/TelegramStarsGateway';
+import { TonGateway } from '../payment/TonGateway';
+import { LocalStarsInvoiceBackend, LocalTonPaymentBackend } from '../payment/LocalPaymentBackends';
+import { CurrencyService } from '../currency/CurrencyService';
+import { StaticExchangeRateProvider } from '../currency/ExchangeRateProvider';
+import { PaymentMethod, PaymentStatus } from '../../types';
+
+describe('Telegram payment methods', () => {
+  let starsBackend: LocalStarsInvoiceBackend;
+  let tonBackend: LocalTonPaymentBackend;
+  let service: PaymentService;
+  let sync: PaymentSyncService;
+
+  beforeEach(() => {
+    starsBackend = new LocalStarsInvoiceBackend();
+    tonBackend = new LocalTonPaymentBackend();
+
+    // Stars and TON are priced from the rate table, not from rates kept in the gateways
+    const currency = new CurrencyService(
+      new StaticExchangeRateProvider({
+        base: 'MYR',
+        rates: { MYR: 1, USD: 0.25, XTR: 17, TON: 0.075 },
+        asOf: new Date('2026-10-01T00:00:00Z'),
+        source: 'test',
+      })
+    );
+
+    const registry = new PaymentGatewayRegistry();
+    registry.register(
+      PaymentMethod.TELEGRAM_STARS,
+      new TelegramStarsGateway(starsBackend, { webhookSecretToken: 'tg_secret' }, currency)
+    );
+    registry.register(PaymentMethod.TON, new TonGateway(tonBackend, currency));
+
+    service = new PaymentService(
+      { enabledMethods: [PaymentMethod.TELEGRAM_STARS, PaymentMethod.TON] },
+      registry
+    );
+    sync = new PaymentSyncService({ maxRetries: 1, retryDelayMs: 0 }, service);
+  });
+
+  describe('Telegram Stars', () => {
+    it('should create an invoice priced in whole Stars', async () => {
+      const response = await service.createPayment({
+        orderId: 'order_stars',
+        amount: 9.9,
+        currency: 'MYR',
+        method: PaymentMethod.TELEGRAM_STARS,
+      });
+
+      expect(response.success).toBe(true);
+      expect(response.paymentId).toBe('stars_inv_000001');
+      expect(response.metadata?.invoiceLink).toBe('https://t.me/$stars_inv_000001');
+      expect(response.metadata?.starsAmount).toBe(169);
+      expect(response.metadata?.currency).toBe('XTR');
+    });
+
+    it('should complete the payment when the polled invoice is paid', async () => {
+      const response = await service.createPayment({
+        orderId: 'order_stars',
+        amount: 10,
+        currency: 'USD',
+        method: PaymentMethod.TELEGRAM_STARS,
+      });
+
+      starsBackend.setInvoiceStatus(response.paymentId!, 'paid');
+      const status = await sync.waitForPayment(response.paymentId!, { timeoutMs: 0 });
+
+      expect(status).toBe(PaymentStatus.COMPLETED);
+    });
+
+    it('should complete the payment from a successful_payment update', async () => {
+      const handler = new WebhookHandler(service);
+      await service.createPayment({
+        orderId: 'order_stars',
+        amount: 10,
+        currency: 'USD',
+        method: PaymentMethod.TELEGRAM_STARS,
+      });
+
+      const update = JSON.stringify({
+        update_id: 42,
+        message: {
+          date: 1760000000,
+          successful_payment: {
+            currency: 'XTR',
+            total_amount: 770,
+            invoice_payload: 'order_stars',
+            telegram_payment_charge_id: 'stxchg_1',
+          },
+        },
+      });
+
+      const rejected = await handler.handleWebhook(PaymentMethod.TELEGRAM_STARS, update, 'wrong');
+      const accepted = await handler.handleWebhook(
+        PaymentMethod.TELEGRAM_STARS,
+        update,
+        'tg_secret'
+      );
+
+      expect(rejected.success).toBe(false);
+      expect(accepted.success).toBe(true);
+      expect(accepted.status).toBe(PaymentStatus.COMPLETED);
+    });
+
+    it('should record the charge id on completion and match refunds by it', async () => {
+      const handler = new WebhookHandler(service);
+      await service.createPayment({
+        orderId: 'order_stars',
+        amount: 10,
+        currency: 'USD',
+        method: PaymentMethod.TELEGRAM_STARS,
+      });
+      const update = (id: number, kind: string, payload: string) =>
+        JSON.stringify({
+          update_id: id,
+          message: {
+            date: 1760000000,
+            [kind]: {
+              currency: 'XTR',
+              total_amount: 770,
+              invoice_payload: payload,
+              telegram_payment_charge_id: 'stxchg_1',
+            },
+          },
+        });
+
+      await handler.handleWebhook(
+        PaymentMethod.TELEGRAM_STARS,
+        update(1, 'successful_payment', 'order_stars'),
+        'tg_secret'
+      );
+      const payment = await service.getPaymentByGatewayTransactionId('stxchg_1');
+      // The payload no longer names a known order, so only the charge id can match
+      const refunded = await handler.handleWebhook(
+        PaymentMethod.TELEGRAM_STARS,
+        update(2, 'refunded_payment', 'order_unknown'),
+        'tg_secret'
+      );
+
+      expect(payment?.gatewayChargeId).toBe('stxchg_1');
+      expect(payment?.gatewayTransactionId).toBe('stars_inv_000001');
+      expect(refunded.paymentId).toBe(payment?.id);
+      expect(refunded.status).toBe(PaymentStatus.REFUNDED);
+    });
+
+    it('should read the webhook secret from the server environment only', async () => {
+      const previous = process.env.TELEGRAM_WEBHOOK_SECRET;
+      process.env.TELEGRAM_WEBHOOK_SECRET = 'server_secret';
+
+      try {
+        const gateway = new TelegramStarsGateway(starsBackend);
+
+        expect(await gateway.verifyWebhookSignature('{}', 'server_secret')).toBe(true);
+        expect(await gateway.verifyWebhookSignature('{}', 'test_telegram_secret')).toBe(false);
+      } finally {
+        if (previous === undefined) {
+          delete process.env.TELEGRAM_WEBHOOK_SECRET;
+        } else {
+          process.env.TELEGRAM_WEBHOOK_SECRET = previous;
+        }
+      }
+    });
+
+    it('should reject currencies without a Stars price', async () => {
+      const response = await service.createPayment({
+        orderId: 'order_stars',
+        amount: 10,
+        currency: 'JPY',
+        method: PaymentMethod.TELEGRAM_STARS,
+      });
+
+      expect(response.success).toBe(false);
+      expect(response.error).toContain('No exchange rate from JPY to XTR');
+    });
+  });
+
+  describe('TON', () => {
+    it('should return the transfer the wallet has to sign', async () => {
+      const response = await service.createPayment({
+        orderId: 'order_ton',
+        amount: 10,
+        currency: 'USD',
+        method: PaymentMethod.TON,
+      });
+
+      expect(response.success).toBe(true);
+      expect(response.paymentId).toBe('ton_ref_000001');
+      expect(response.metadata?.tonTransfer).toEqual(
+        expect.objectContaining({
+          address: 'EQ_LOCAL_MERCHANT_WALLET',
+          amount: '3000000000',
+        })
+      );
+    });
+
+    it('should poll until the transfer is confirmed on chain', async () => {
+      const response = await service.createPayment({
+        orderId: 'order_ton',
+        amount: 10,
+        currency: 'USD',
+        method: PaymentMethod.TON,
+      });
+      const payment = await service.getPaymentByGatewayTransactionId(response.paymentId!);
+
+      const pending = await sync.syncPayment(payment!.id);
+      tonBackend.setTransferStatus(response.paymentId!, 'confirmed');
+      const confirmed = await sync.syncPayment(payment!.id);
+
+      expect(pending.newStatus).toBe(PaymentStatus.PROCESSING);
+      expect(confirmed.newStatus).toBe(PaymentStatus.COMPLETED);
+    });
+
+    it('should fail the payment once the transfer window expires', async () => {
+      const response = await service.createPayment({
+        orderId: 'order_ton',
+        amount: 10,
+        currency: 'USD',
+        method: PaymentMethod.TON,
+      });
+
+      tonBackend.setTransferStatus(response.paymentId!, 'expired');
+      const status = await sync.waitForPayment(response.paymentId!, { timeoutMs: 0 });
+
+      expect(status).toBe(PaymentStatus.FAILED);
+    });
+  });
+});
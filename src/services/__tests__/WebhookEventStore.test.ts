@@ -0,0 +1,348 @@
+// ============================================================================
+// Webhook Event Store, Retry and Replay Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { PaymentService } from '../payment/PaymentService';
+import { PaymentGatewayRegistry } from '../payment/PaymentGateway';
+import { MockPaymentGateway } from '../payment/MockPaymentGateway';
+import { WebhookHandler } from '../payment/WebhookHandler';
+import { InMemoryWebhookEventStore, SqlWebhookEventStore } from '../payment/WebhookEventStore';
+import type { WebhookRetryPolicy } from '../payment/WebhookEventStore';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { globalEventEmitter } from '../../core/utils/EventEmitter';
+import { PAYMENT_EVENTS } from '../../core/constants';
+import { PaymentMethod, PaymentStatus, WebhookEventStatus } from '../../types';
+import type { WebhookEventRecord } from '../../types';
+
+// sql.js needs Node's text codecs, which jsdom does not expose
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const retryPolicy: WebhookRetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000 };
+
+describe('WebhookHandler event store', () => {
+  let gateway: MockPaymentGateway;
+  let service: PaymentService;
+  let store: InMemoryWebhookEventStore;
+  let handler: WebhookHandler;
+
+  const createPayment = async (orderId = 'order_1') => {
+    const response = await service.createPayment({
+      orderId,
+      amount: 50,
+      currency: 'MYR',
+      method: PaymentMethod.CREDIT_CARD,
+    });
+    return response.paymentId!;
+  };
+
+  const deliver = (webhook: { payload: string; signature: string }) =>
+    handler.handleWebhook(PaymentMethod.CREDIT_CARD, webhook.payload, webhook.signature);
+
+  beforeEach(() => {
+    gateway = new MockPaymentGateway({ name: 'card' });
+    const registry = new PaymentGatewayRegistry();
+    registry.register(PaymentMethod.CREDIT_CARD, gateway);
+    service = new PaymentService({ enabledMethods: [PaymentMethod.CREDIT_CARD] }, registry);
+    store = new InMemoryWebhookEventStore();
+    handler = new WebhookHandler(service, store, retryPolicy);
+  });
+
+  afterEach(() => {
+    handler.stopRetryScheduler();
+    jest.restoreAllMocks();
+  });
+
+  it('should store processed webhooks with their raw payload', async () => {
+    const webhook = gateway.createWebhook(await createPayment(), 'payment.completed')!;
+
+    const result = await deliver(webhook);
+    const record = await handler.getEvent(result.recordId!);
+
+    expect(result.success).toBe(true);
+    expect(record).toEqual(
+      expect.objectContaining({
+        payload: webhook.payload,
+        signature: webhook.signature,
+        signatureValid: true,
+        status: WebhookEventStatus.PROCESSED,
+        attempts: 1,
+        eventType: 'payment.completed',
+      })
+    );
+    expect(record?.processedAt).toBeInstanceOf(Date);
+  });
+
+  it('should acknowledge redelivered events without reprocessing them', async () => {
+    const webhook = gateway.createWebhook(await createPayment(), 'payment.completed')!;
+    const update = jest.spyOn(service, 'updatePaymentStatus');
+
+    await deliver(webhook);
+    const repeat = await deliver(webhook);
+
+    expect(repeat.message).toBe('Event already processed');
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(await handler.getEvents()).toHaveLength(1);
+  });
+
+  it('should store rejected signatures and never retry them', async () => {
+    const webhook = gateway.createWebhook(await createPayment(), 'payment.completed')!;
+
+    const result = await deliver({ ...webhook, signature: 'forged' });
+    const record = await handler.getEvent(result.recordId!);
+
+    expect(record?.status).toBe(WebhookEventStatus.REJECTED);
+    expect(record?.signatureValid).toBe(false);
+    expect(await handler.retryDueEvents(new Date(Date.now() + 3600000))).toEqual([]);
+  });
+
+  it('should schedule failed events for retry with exponential backoff', async () => {
+    const webhook = gateway.createWebhook(await createPayment(), 'payment.completed')!;
+    jest.spyOn(service, 'updatePaymentStatus').mockRejectedValue(new Error('database down'));
+
+    const result = await deliver(webhook);
+    const failed = (await handler.getEvent(result.recordId!))!;
+
+    expect(failed.status).toBe(WebhookEventStatus.FAILED);
+    expect(failed.lastError).toBe('database down');
+    expect(failed.nextAttemptAt!.getTime() - failed.updatedAt.getTime()).toBe(1000);
+    expect(await handler.retryDueEvents(new Date(failed.updatedAt.getTime() + 999))).toEqual([]);
+
+    await handler.retryDueEvents(failed.nextAttemptAt!);
+    const retried = (await handler.getEvent(result.recordId!))!;
+
+    expect(retried.attempts).toBe(2);
+    expect(retried.nextAttemptAt!.getTime() - retried.updatedAt.getTime()).toBe(2000);
+  });
+
+  it('should process a failed event once a retry succeeds', async () => {
+    const paymentId = await createPayment();
+    const webhook = gateway.createWebhook(paymentId, 'payment.completed')!;
+    jest.spyOn(service, 'updatePaymentStatus').mockRejectedValueOnce(new Error('database down'));
+
+    const result = await deliver(webhook);
+    const failed = (await handler.getEvent(result.recordId!))!;
+    const [retry] = await handler.retryDueEvents(failed.nextAttemptAt!);
+
+    expect(retry?.success).toBe(true);
+    expect((await handler.getEvent(result.recordId!))?.status).toBe(WebhookEventStatus.PROCESSED);
+    expect((await service.getPaymentByGatewayTransactionId(paymentId))?.status).toBe(
+      PaymentStatus.COMPLETED
+    );
+  });
+
+  it('should dead-letter an event after the last attempt', async () => {
+    const webhook = gateway.createWebhook(await createPayment(), 'payment.completed')!;
+    jest.spyOn(service, 'updatePaymentStatus').mockRejectedValue(new Error('database down'));
+    const listener = jest.fn();
+    const subscription = globalEventEmitter.on(PAYMENT_EVENTS.WEBHOOK_DEAD_LETTERED, listener);
+
+    const result = await deliver(webhook);
+    for (let attempt = 1; attempt < retryPolicy.maxAttempts; attempt++) {
+      await handler.retryDueEvents(new Date(Date.now() + 3600000));
+    }
+    subscription.unsubscribe();
+
+    const deadLetters = await handler.getDeadLetters();
+
+    expect(deadLetters.map(record => record.id)).toEqual([result.recordId]);
+    expect(deadLetters[0]?.attempts).toBe(3);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(await handler.retryDueEvents(new Date(Date.now() + 3600000))).toEqual([]);
+  });
+
+  it('should replay a dead-lettered event on request', async () => {
+    const paymentId = await createPayment();
+    const webhook = gateway.createWebhook(paymentId, 'payment.completed')!;
+    const update = jest
+      .spyOn(service, 'updatePaymentStatus')
+      .mockRejectedValue(new Error('database down'));
+
+    const result = await deliver(webhook);
+    for (let attempt = 1; attempt < retryPolicy.maxAttempts; attempt++) {
+      await handler.retryDueEvents(new Date(Date.now() + 3600000));
+    }
+    update.mockRestore();
+
+    const replay = await handler.replayEvent(result.recordId!, 'admin_1');
+    const record = await handler.getEvent(result.recordId!);
+
+    expect(replay.success).toBe(true);
+    expect(record?.status).toBe(WebhookEventStatus.PROCESSED);
+    expect(record?.replayedBy).toBe('admin_1');
+    expect((await service.getPaymentByGatewayTransactionId(paymentId))?.status).toBe(
+      PaymentStatus.COMPLETED
+    );
+  });
+
+  it('should replay only unprocessed events received within a time range', async () => {
+    const seed = async (
+      id: string,
+      orderId: string,
+      receivedAt: string,
+      status: WebhookEventStatus
+    ) => {
+      const webhook = gateway.createWebhook(await createPayment(orderId), 'payment.completed')!;
+      const record: WebhookEventRecord = {
+        id,
+        method: PaymentMethod.CREDIT_CARD,
+        payload: webhook.payload,
+        signature: webhook.signature,
+        signatureValid: true,
+        status,
+        attempts: 1,
+        receivedAt: new Date(receivedAt),
+        updatedAt: new Date(receivedAt),
+      };
+      await store.save(record);
+    };
+
+    await seed('whk_before', 'order_1', '2026-10-01T09:00:00Z', WebhookEventStatus.FAILED);
+    await seed('whk_outage', 'order_2', '2026-10-01T10:30:00Z', WebhookEventStatus.DEAD_LETTER);
+    await seed('whk_done', 'order_3', '2026-10-01T10:45:00Z', WebhookEventStatus.PROCESSED);
+    await seed('whk_after', 'order_4', '2026-10-01T12:00:00Z', WebhookEventStatus.FAILED);
+
+    const results = await handler.replayEvents(
+      { from: new Date('2026-10-01T10:00:00Z'), to: new Date('2026-10-01T11:00:00Z') },
+      'admin_1'
+    );
+
+    expect(results.map(result => result.recordId)).toEqual(['whk_outage']);
+    expect((await handler.getEvent('whk_before'))?.status).toBe(WebhookEventStatus.FAILED);
+    expect((await handler.getEvent('whk_after'))?.status).toBe(WebhookEventStatus.FAILED);
+  });
+});
+
+describe('SqlWebhookEventStore', () => {
+  let db: Database;
+  let store: SqlWebhookEventStore;
+
+  // The webhook_events table of migration 005
+  const SQLITE_SCHEMA = `
+    CREATE TABLE webhook_events (
+      id TEXT PRIMARY KEY,
+      payment_method TEXT NOT NULL,
+      event_id TEXT,
+      event_type TEXT,
+      payload TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      signature_valid INTEGER NOT NULL DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'received',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      payment_reference TEXT,
+      next_attempt_at TEXT,
+      replayed_by TEXT,
+      received_at TEXT NOT NULL,
+      processed_at TEXT,
+      updated_at TEXT NOT NULL
+    );
+  `;
+
+  const buildRecord = (id: string, overrides: Partial<WebhookEventRecord> = {}) => ({
+    id,
+    method: PaymentMethod.CURLEC,
+    eventId: `evt_${id}`,
+    eventType: 'payment.completed',
+    payload: '{"id":"evt"}',
+    signature: 'sig',
+    signatureValid: true,
+    status: WebhookEventStatus.FAILED,
+    attempts: 1,
+    lastError: 'timeout',
+    nextAttemptAt: new Date('2026-10-01T10:05:00Z'),
+    receivedAt: new Date('2026-10-01T10:00:00Z'),
+    updatedAt: new Date('2026-10-01T10:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs({
+      wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+    db = new SQL.Database();
+    db.run(SQLITE_SCHEMA);
+
+    const client: SqlClient = {
+      async query(text: string, params: unknown[] = []) {
+        const statement = db.prepare(text);
+        try {
+          const bindings: Record<string, any> = {};
+          params.forEach((value, index) => {
+            bindings[`$${index + 1}`] = typeof value === 'boolean' ? Number(value) : value;
+          });
+          statement.bind(bindings);
+
+          const rows: any[] = [];
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+          return { rows };
+        } finally {
+          statement.free();
+        }
+      },
+    };
+    store = new SqlWebhookEventStore(client);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should round-trip a stored webhook', async () => {
+    const record = buildRecord('whk_1');
+
+    await store.save(record);
+
+    expect(await store.findById('whk_1')).toEqual(record);
+    expect(await store.findByEventId(PaymentMethod.CURLEC, 'evt_whk_1')).toEqual(record);
+  });
+
+  it('should update an event as it is retried', async () => {
+    await store.save(buildRecord('whk_1'));
+    await store.save(
+      buildRecord('whk_1', {
+        status: WebhookEventStatus.PROCESSED,
+        attempts: 2,
+        processedAt: new Date('2026-10-01T10:05:00Z'),
+      })
+    );
+
+    const record = await store.findById('whk_1');
+
+    expect(record?.status).toBe(WebhookEventStatus.PROCESSED);
+    expect(record?.attempts).toBe(2);
+  });
+
+  it('should filter by status, range and due time', async () => {
+    await store.save(buildRecord('whk_1'));
+    await store.save(
+      buildRecord('whk_2', {
+        nextAttemptAt: new Date('2026-10-01T11:00:00Z'),
+        receivedAt: new Date('2026-10-01T10:30:00Z'),
+      })
+    );
+    await store.save(
+      buildRecord('whk_3', {
+        status: WebhookEventStatus.PROCESSED,
+        receivedAt: new Date('2026-10-01T10:45:00Z'),
+      })
+    );
+
+    const due = await store.findMany({
+      status: WebhookEventStatus.FAILED,
+      dueBy: new Date('2026-10-01T10:10:00Z'),
+    });
+    const inRange = await store.findMany({
+      receivedFrom: new Date('2026-10-01T10:15:00Z'),
+      receivedTo: new Date('2026-10-01T11:00:00Z'),
+    });
+
+    expect(due.map(record => record.id)).toEqual(['whk_1']);
+    expect(inRange.map(record => record.id)).toEqual(['whk_2', 'whk_3']);
+  });
+});
@@ -0,0 +1,273 @@
+// ============================================================================
+// Wishlist and Back-in-Stock Alert Tests
+// ============================================================================
+
+import { readFileSync } from 'fs';
+import { TextDecoder, TextEncoder } from 'util';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { WishlistService } from '../wishlist/WishlistService';
+import { InMemoryWishlistStore, SqlWishlistStore } from '../wishlist/WishlistStore';
+import type { SqlClient } from '../order/SqlOrderRepository';
+import { LocalTelegramBotTransport } from '../notification/TelegramBot';
+import { InventoryService } from '../product/InventoryService';
+import { PriceService } from '../product/PriceService';
+import { EVENTS } from '../../core/constants';
+import { globalEventEmitter } from '../../core/utils/EventEmitter';
+import { ProductCategory } from '../../types';
+import type { Product, WishlistAlert, WishlistItem } from '../../types';
+
+// sql.js needs Node's text codecs, which jsdom does not expose
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const netflix = {
+  id: 'netflix',
+  name: 'Netflix Premium',
+  price: 45,
+  currency: 'MYR',
+  category: ProductCategory.STREAMING,
+  isActive: true,
+  stock: { available: 0, reserved: 0, total: 0, lowStockThreshold: 1 },
+} as Product;
+
+const catalog = {
+  getProductById: (id: string) => Promise.resolve(id === netflix.id ? netflix : null),
+};
+
+// Listeners on the services' own emitters are not awaited by the caller
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('WishlistService', () => {
+  let inventory: InventoryService;
+  let prices: PriceService;
+  let bot: LocalTelegramBotTransport;
+  let wishlist: WishlistService;
+  let alerts: WishlistAlert[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    inventory = new InventoryService();
+    prices = new PriceService();
+    bot = new LocalTelegramBotTransport();
+    wishlist = new WishlistService(new InMemoryWishlistStore(), catalog, bot, inventory, prices);
+
+    alerts = [];
+    const subscription = globalEventEmitter.on(
+      EVENTS.WISHLIST_ALERT,
+      ({ alert }: { alert: WishlistAlert }) => {
+        alerts.push(alert);
+      }
+    );
+    unsubscribe = () => subscription.unsubscribe();
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  const restock = (previousStock: number, newStock: number) =>
+    inventory.recordTransaction({
+      productId: 'netflix',
+      type: 'RESTOCK',
+      quantity: newStock - previousStock,
+      previousStock,
+      newStock,
+      triggeredBy: 'user',
+    });
+
+  it('should toggle products in and out of the wishlist', async () => {
+    expect((await wishlist.toggleWishlist('tg_1', 'netflix')).data).toEqual({ inWishlist: true });
+    expect(await wishlist.getWishlist('tg_1')).toEqual([
+      expect.objectContaining({
+        productId: 'netflix',
+        priceAtAdd: 45,
+        alerts: { backInStock: true, priceDrop: true },
+      }),
+    ]);
+
+    expect((await wishlist.toggleWishlist('tg_1', 'netflix')).data).toEqual({ inWishlist: false });
+    expect(await wishlist.isInWishlist('tg_1', 'netflix')).toBe(false);
+
+    expect((await wishlist.toggleWishlist('tg_1', 'missing')).error?.code).toBe(
+      'PRODUCT_NOT_FOUND'
+    );
+  });
+
+  it('should alert watchers in the app and on Telegram when a restock ends a sell-out', async () => {
+    await wishlist.addToWishlist('tg_1', 'netflix');
+    await wishlist.addToWishlist('tg_2', 'netflix', { backInStock: false });
+
+    await restock(0, 20);
+    await flush();
+
+    expect(alerts).toEqual([
+      expect.objectContaining({ userId: 'tg_1', productId: 'netflix', kind: 'back_in_stock' }),
+    ]);
+    expect(bot.getSentMessages(1)[0]?.text).toBe(
+      'Back in stock: Netflix Premium from your wishlist is available again.'
+    );
+    expect(bot.getSentMessages(2)).toHaveLength(0);
+    expect((await wishlist.getWishlist('tg_1'))[0]?.lastAlertedAt).toBeInstanceOf(Date);
+  });
+
+  it('should ignore restocks of products that were still in stock', async () => {
+    await wishlist.addToWishlist('tg_1', 'netflix');
+
+    await restock(5, 25);
+    await inventory.recordTransaction({
+      productId: 'netflix',
+      type: 'ADJUSTMENT',
+      quantity: 3,
+      previousStock: 0,
+      newStock: 3,
+      triggeredBy: 'system',
+    });
+    await flush();
+
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('should alert on price drops but not on increases', async () => {
+    await wishlist.addToWishlist('tg_1', 'netflix');
+
+    await prices.recordPriceChange('netflix', 45, 49, 'Supplier increase');
+    await prices.recordPriceChange('netflix', 49, 39.9, 'Weekend sale');
+    await flush();
+
+    expect(alerts).toEqual([
+      expect.objectContaining({ kind: 'price_drop', previousPrice: 49, newPrice: 39.9 }),
+    ]);
+    expect(bot.getSentMessages(1)[0]?.text).toBe(
+      'Price drop: Netflix Premium from your wishlist dropped from MYR 49.00 to MYR 39.90.'
+    );
+  });
+
+  it('should keep the in-app alert when the bot cannot reach the user', async () => {
+    bot.blockChat(1);
+    await wishlist.addToWishlist('tg_1', 'netflix', { priceDrop: false });
+
+    expect(await wishlist.handleStockChange(await restock(0, 1))).toBe(1);
+    expect(alerts.some(alert => alert.kind === 'back_in_stock')).toBe(true);
+    expect(bot.getSentMessages()).toHaveLength(0);
+  });
+});
+
+describe('SqlWishlistStore', () => {
+  let db: Database;
+  let store: SqlWishlistStore;
+
+  // The wishlist_items table of migration 013
+  const SQLITE_SCHEMA = `
+    CREATE TABLE wishlist_items (
+      user_id TEXT NOT NULL,
+      product_id TEXT NOT NULL,
+      alert_back_in_stock INTEGER NOT NULL DEFAULT 1,
+      alert_price_drop INTEGER NOT NULL DEFAULT 1,
+      price_at_add NUMERIC NOT NULL,
+      currency TEXT NOT NULL,
+      added_at TEXT NOT NULL,
+      last_alerted_at TEXT,
+      PRIMARY KEY (user_id, product_id)
+    );
+  `;
+
+  const entry = (
+    userId: string,
+    productId: string,
+    overrides: Partial<WishlistItem> = {}
+  ): WishlistItem => ({
+    userId,
+    productId,
+    alerts: { backInStock: true, priceDrop: true },
+    priceAtAdd: 45,
+    currency: 'MYR',
+    addedAt: new Date('2026-10-10T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs({
+      wasmBinary: readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+    db = new SQL.Database();
+    db.run(SQLITE_SCHEMA);
+
+    const client: SqlClient = {
+      async query(text: string, params: unknown[] = []) {
+        const statement = db.prepare(text);
+        try {
+          const bindings: Record<string, any> = {};
+          params.forEach((value, index) => {
+            bindings[`$${index + 1}`] = typeof value === 'boolean' ? Number(value) : value;
+          });
+          statement.bind(bindings);
+
+          const rows: any[] = [];
+          while (statement.step()) {
+            rows.push(statement.getAsObject());
+          }
+          return { rows };
+        } finally {
+          statement.free();
+        }
+      },
+    };
+    store = new SqlWishlistStore(client);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should round-trip an entry and update its alerts', async () => {
+    const saved = entry('user-1', 'netflix', { alerts: { backInStock: true, priceDrop: false } });
+    await store.save(saved);
+    expect(await store.find('user-1', 'netflix')).toEqual(saved);
+
+    const alerted = {
+      ...saved,
+      alerts: { backInStock: false, priceDrop: true },
+      lastAlertedAt: new Date('2026-10-12T00:00:00Z'),
+    };
+    await store.save(alerted);
+
+    expect(await store.find('user-1', 'netflix')).toEqual(alerted);
+    expect(await store.find('user-1', 'spotify')).toBeNull();
+  });
+
+  it('should list the entries of a user oldest first', async () => {
+    await store.save(entry('user-1', 'spotify', { addedAt: new Date('2026-10-12T00:00:00Z') }));
+    await store.save(entry('user-1', 'netflix'));
+    await store.save(entry('user-2', 'netflix'));
+
+    expect((await store.findByUser('user-1')).map(item => item.productId)).toEqual([
+      'netflix',
+      'spotify',
+    ]);
+  });
+
+  it('should only return watchers that asked for the alert', async () => {
+    await store.save(
+      entry('stock-only', 'netflix', { alerts: { backInStock: true, priceDrop: false } })
+    );
+    await store.save(
+      entry('price-only', 'netflix', { alerts: { backInStock: false, priceDrop: true } })
+    );
+    await store.save(entry('other-product', 'spotify'));
+
+    expect((await store.findWatchers('netflix', 'backInStock')).map(item => item.userId)).toEqual([
+      'stock-only',
+    ]);
+    expect((await store.findWatchers('netflix', 'priceDrop')).map(item => item.userId)).toEqual([
+      'price-only',
+    ]);
+  });
+
+  it('should report whether an entry was deleted', async () => {
+    await store.save(entry('user-1', 'netflix'));
+
+    expect(await store.delete('user-1', 'netflix')).toBe(true);
+    expect(await store.delete('user-1', 'netflix')).toBe(false);
+    expect(await store.find('user-1', 'netflix')).toBeNull();
+  });
+});
@@ -0,0 +1,284 @@
+import type { CartReminder, Order, SyncedCart } from '../../types';
+import { CART_RECOVERY_CONFIG, EVENTS } from '../../core/constants';
+import { globalEventEmitter } from '../../core/utils/EventEmitter';
+import { formatMoney, roundMoney } from '../currency/Money';
+import { productService } from '../product/ProductService';
+import { promotionService } from '../promotion/PromotionService';
+import type { PromotionService } from '../promotion/PromotionService';
+import { notificationPreferences } from '../notification/NotificationPreferences';
+import type { NotificationPreferenceStore } from '../notification/NotificationPreferences';
+import { LocalTelegramBotTransport, chatIdForUser } from '../notification/TelegramBot';
+import type { TelegramBotTransport } from '../notification/TelegramBot';
+import { cartSyncService } from './CartSyncService';
+import type { CartCatalog, CartSyncService } from './CartSyncService';
+import { InMemoryCartReminderStore } from './CartReminderStore';
+import type { CartReminderStore } from './CartReminderStore';
+
+export type IdleCartSource = Pick<CartSyncService, 'findIdleCarts'>;
+
+export type ReminderCoupons = Pick<PromotionService, 'generateCodes'>;
+
+export interface AbandonedCartServiceOptions {
+  /** How long a cart sits untouched before it counts as abandoned */
+  idleThresholdMs?: number;
+  /** Orders completed this long after a reminder count as recovered by it */
+  attributionWindowMs?: number;
+  /** Promotion to issue a single-use coupon from with each reminder */
+  couponPromotionId?: string;
+  /** Link behind the "back to cart" button, usually the Mini App's cart page */
+  cartUrl?: string;
+}
+
+export interface ReminderRunSummary {
+  idleCarts: number;
+  sent: number;
+  /** Users who turned promotional messages off or never opted in */
+  optedOut: number;
+  failed: number;
+}
+
+export interface CartRecoveryStats {
+  remindersSent: number;
+  recovered: number;
+  /** Recovered reminders over reminders sent, 0 when nothing was sent */
+  conversionRate: number;
+  couponsRedeemed: number;
+  /** Recovered order totals per order currency */
+  recoveredRevenue: Record<string, number>;
+}
+
+interface ReminderLine {
+  name: string;
+  quantity: number;
+}
+
+/**
+ * Reminds signed-in users about carts they left behind. A sweep finds server
+ * carts idle past the threshold and, for users who accept promotional
+ * messages, sends one bot message per cart version, optionally with a
+ * single-use coupon. Completed orders are matched back to the latest
+ * reminder so the campaign's conversions can be measured.
+ */
+export class AbandonedCartService {
+  private sweepInterval: ReturnType<typeof setInterval> | null = null;
+  private readonly idleThresholdMs: number;
+  private readonly attributionWindowMs: number;
+
+  constructor(
+    private readonly carts: IdleCartSource = cartSyncService,
+    private readonly bot: TelegramBotTransport = new LocalTelegramBotTransport(),
+    private readonly preferences: NotificationPreferenceStore = notificationPreferences,
+    private readonly reminders: CartReminderStore = new InMemoryCartReminderStore(),
+    private readonly catalog: CartCatalog = productService,
+    private readonly coupons: ReminderCoupons = promotionService,
+    private readonly options: AbandonedCartServiceOptions = {}
+  ) {
+    this.idleThresholdMs = options.idleThresholdMs ?? CART_RECOVERY_CONFIG.IDLE_THRESHOLD;
+    this.attributionWindowMs =
+      options.attributionWindowMs ?? CART_RECOVERY_CONFIG.ATTRIBUTION_WINDOW;
+    this.setupEventListeners();
+  }
+
+  async runReminders(now: Date = new Date()): Promise<ReminderRunSummary> {
+    const idle = await this.carts.findIdleCarts(new Date(now.getTime() - this.idleThresholdMs));
+    const summary: ReminderRunSummary = { idleCarts: idle.length, sent: 0, optedOut: 0, failed: 0 };
+
+    for (const cart of idle) {
+      try {
+        const outcome = await this.remind(cart, now);
+        if (outcome === 'sent') summary.sent++;
+        if (outcome === 'opted_out') summary.optedOut++;
+      } catch (error) {
+        summary.failed++;
+        console.error(`Failed to send cart reminder to ${cart.userId}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  startReminderScheduler(intervalMs: number = CART_RECOVERY_CONFIG.SWEEP_INTERVAL): void {
+    if (this.sweepInterval) {
+      return;
+    }
+
+    this.sweepInterval = setInterval(() => {
+      this.runReminders().catch(error => {
+        console.error('Abandoned cart reminder run failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  stopReminderScheduler(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  async getUserReminders(userId: string): Promise<CartReminder[]> {
+    return this.reminders.findByUser(userId);
+  }
+
+  /** Credits a completed order to the user's latest unrecovered reminder, if still in the window */
+  async handleOrderCompleted(order: Order): Promise<void> {
+    // Renewals are charged by the scheduler, not checked out from a cart
+    if (order.metadata?.subscriptionId) {
+      return;
+    }
+
+    const now = new Date();
+    const reminder = (await this.reminders.findByUser(order.userId))
+      .filter(candidate => candidate.sentAt <= now)
+      .pop();
+    if (
+      !reminder ||
+      reminder.status !== 'sent' ||
+      now.getTime() - reminder.sentAt.getTime() > this.attributionWindowMs
+    ) {
+      return;
+    }
+
+    reminder.status = 'recovered';
+    reminder.recoveredOrderId = order.id;
+    reminder.recoveredAmount = order.totalAmount;
+    reminder.recoveredCurrency = order.currency;
+    reminder.recoveredAt = now;
+    reminder.couponRedeemed =
+      !!reminder.couponCode &&
+      (order.promotions ?? []).some(
+        promotion => promotion.code?.toUpperCase() === reminder.couponCode
+      );
+    await this.reminders.save(reminder);
+
+    await globalEventEmitter.emit(EVENTS.CART_RECOVERED, { reminder, order });
+  }
+
+  async getCampaignStats(since: Date = new Date(0)): Promise<CartRecoveryStats> {
+    const sent = await this.reminders.findSentSince(since);
+    const recovered = sent.filter(reminder => reminder.status === 'recovered');
+
+    const recoveredRevenue: Record<string, number> = {};
+    for (const reminder of recovered) {
+      const currency = reminder.recoveredCurrency ?? reminder.currency;
+      recoveredRevenue[currency] = roundMoney(
+        (recoveredRevenue[currency] ?? 0) + (reminder.recoveredAmount ?? 0),
+        currency
+      );
+    }
+
+    return {
+      remindersSent: sent.length,
+      recovered: recovered.length,
+      conversionRate: sent.length > 0 ? recovered.length / sent.length : 0,
+      couponsRedeemed: recovered.filter(reminder => reminder.couponRedeemed).length,
+      recoveredRevenue,
+    };
+  }
+
+  private async remind(cart: SyncedCart, now: Date): Promise<'sent' | 'opted_out' | 'skipped'> {
+    if (await this.reminders.findForCart(cart.userId, cart.version)) {
+      return 'skipped';
+    }
+
+    const chatId = chatIdForUser(cart.userId);
+    if (chatId === null) {
+      return 'skipped';
+    }
+
+    const settings = await this.preferences.getSettings(cart.userId);
+    if (!settings?.promotions) {
+      return 'opted_out';
+    }
+
+    const lines: ReminderLine[] = [];
+    for (const item of cart.items) {
+      const product = await this.catalog.getProductById(item.productId);
+      if (product?.isActive) {
+        lines.push({ name: product.name, quantity: item.quantity });
+      }
+    }
+    if (lines.length === 0) {
+      return 'skipped';
+    }
+
+    const currency = cart.items[0]?.currency ?? 'MYR';
+    const cartValue = roundMoney(
+      cart.items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0),
+      currency
+    );
+    const couponCode = this.issueCoupon();
+
+    await this.bot.sendMessage({
+      chatId,
+      text: this.formatMessage(lines, cartValue, currency, couponCode),
+      ...(this.options.cartUrl && {
+        buttons: [{ text: 'Back to cart', url: this.options.cartUrl }],
+      }),
+    });
+
+    const reminder: CartReminder = {
+      id: this.generateReminderId(),
+      userId: cart.userId,
+      cartVersion: cart.version,
+      itemCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+      cartValue,
+      currency,
+      ...(couponCode && { couponCode }),
+      status: 'sent',
+      sentAt: now,
+    };
+    await this.reminders.save(reminder);
+
+    await globalEventEmitter.emit(EVENTS.CART_REMINDER_SENT, { reminder });
+    return 'sent';
+  }
+
+  /** A missing or exhausted campaign only costs the coupon, not the reminder */
+  private issueCoupon(): string | undefined {
+    if (!this.options.couponPromotionId) {
+      return undefined;
+    }
+
+    try {
+      return this.coupons.generateCodes(this.options.couponPromotionId, 1, {
+        prefix: 'BACK',
+        maxUses: 1,
+      })[0]?.code;
+    } catch (error) {
+      console.error('Failed to issue cart reminder coupon:', error);
+      return undefined;
+    }
+  }
+
+  private formatMessage(
+    lines: ReminderLine[],
+    cartValue: number,
+    currency: string,
+    couponCode?: string
+  ): string {
+    const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+    const text = [
+      `You left ${itemCount} ${itemCount === 1 ? 'item' : 'items'} in your cart:`,
+      ...lines.map(line => `• ${line.name} × ${line.quantity}`),
+      '',
+      `Total: ${formatMoney(cartValue, currency)}`,
+    ];
+    if (couponCode) {
+      text.push(`Use code ${couponCode} at checkout for a discount.`);
+    }
+    return text.join('\n');
+  }
+
+  private generateReminderId(): string {
+    return `reminder_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 8)}`;
+  }
+
+  private setupEventListeners(): void {
+    globalEventEmitter.on(EVENTS.ORDER_COMPLETED, async (data: { order: Order }) => {
+      await this.handleOrderCompleted(data.order);
+    });
+  }
+}
+
+export const abandonedCartService = new AbandonedCartService();
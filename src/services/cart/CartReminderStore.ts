@@ -0,0 +1,140 @@
+import type { CartReminder, CartReminderStatus } from '../../types';
+import type { SqlClient } from '../order/SqlOrderRepository';
+
+/** Abandoned-cart reminders and their outcome */
+export interface CartReminderStore {
+  save(reminder: CartReminder): Promise<void>;
+  findByUser(userId: string): Promise<CartReminder[]>;
+  findForCart(userId: string, cartVersion: number): Promise<CartReminder | null>;
+  /** Reminders sent at or after `since`, oldest first */
+  findSentSince(since: Date): Promise<CartReminder[]>;
+}
+
+export class InMemoryCartReminderStore implements CartReminderStore {
+  private reminders: Map<string, CartReminder> = new Map();
+
+  async save(reminder: CartReminder): Promise<void> {
+    this.reminders.set(reminder.id, { ...reminder });
+  }
+
+  async findByUser(userId: string): Promise<CartReminder[]> {
+    return this.filter(reminder => reminder.userId === userId);
+  }
+
+  async findForCart(userId: string, cartVersion: number): Promise<CartReminder | null> {
+    return (
+      this.filter(
+        reminder => reminder.userId === userId && reminder.cartVersion === cartVersion
+      )[0] ?? null
+    );
+  }
+
+  async findSentSince(since: Date): Promise<CartReminder[]> {
+    return this.filter(reminder => reminder.sentAt >= since);
+  }
+
+  private filter(predicate: (reminder: CartReminder) => boolean): CartReminder[] {
+    return Array.from(this.reminders.values())
+      .filter(predicate)
+      .sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime())
+      .map(reminder => ({ ...reminder }));
+  }
+}
+
+interface CartReminderRow {
+  id: string;
+  user_id: string;
+  cart_version: number;
+  item_count: number;
+  cart_value: string | number;
+  currency: string;
+  coupon_code: string | null;
+  status: CartReminderStatus;
+  sent_at: string | Date;
+  recovered_order_id: string | null;
+  recovered_amount: string | number | null;
+  recovered_currency: string | null;
+  recovered_at: string | Date | null;
+  coupon_redeemed: boolean | number | null;
+}
+
+const REMINDER_COLUMNS = `id, user_id, cart_version, item_count, cart_value, currency, coupon_code,
+  status, sent_at, recovered_order_id, recovered_amount, recovered_currency, recovered_at,
+  coupon_redeemed`;
+
+/** Reminders in the `cart_reminders` table (migration 012) */
+export class SqlCartReminderStore implements CartReminderStore {
+  constructor(private readonly client: SqlClient) {}
+
+  async save(reminder: CartReminder): Promise<void> {
+    await this.client.query(
+      `INSERT INTO cart_reminders (${REMINDER_COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         recovered_order_id = EXCLUDED.recovered_order_id,
+         recovered_amount = EXCLUDED.recovered_amount,
+         recovered_currency = EXCLUDED.recovered_currency,
+         recovered_at = EXCLUDED.recovered_at,
+         coupon_redeemed = EXCLUDED.coupon_redeemed`,
+      [
+        reminder.id,
+        reminder.userId,
+        reminder.cartVersion,
+        reminder.itemCount,
+        reminder.cartValue,
+        reminder.currency,
+        reminder.couponCode ?? null,
+        reminder.status,
+        reminder.sentAt.toISOString(),
+        reminder.recoveredOrderId ?? null,
+        reminder.recoveredAmount ?? null,
+        reminder.recoveredCurrency ?? null,
+        reminder.recoveredAt?.toISOString() ?? null,
+        reminder.couponRedeemed ?? null,
+      ]
+    );
+  }
+
+  async findByUser(userId: string): Promise<CartReminder[]> {
+    return this.select('WHERE user_id = $1', [userId]);
+  }
+
+  async findForCart(userId: string, cartVersion: number): Promise<CartReminder | null> {
+    return (
+      (await this.select('WHERE user_id = $1 AND cart_version = $2', [userId, cartVersion]))[0] ??
+      null
+    );
+  }
+
+  async findSentSince(since: Date): Promise<CartReminder[]> {
+    return this.select('WHERE sent_at >= $1', [since.toISOString()]);
+  }
+
+  private async select(where: string, params: unknown[]): Promise<CartReminder[]> {
+    const result = await this.client.query<CartReminderRow>(
+      `SELECT ${REMINDER_COLUMNS} FROM cart_reminders ${where} ORDER BY sent_at ASC, id ASC`,
+      params
+    );
+    return result.rows.map(row => this.toReminder(row));
+  }
+
+  private toReminder(row: CartReminderRow): CartReminder {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      cartVersion: Number(row.cart_version),
+      itemCount: Number(row.item_count),
+      cartValue: Number(row.cart_value),
+      currency: row.currency,
+      ...(row.coupon_code && { couponCode: row.coupon_code }),
+      status: row.status,
+      sentAt: new Date(row.sent_at),
+      ...(row.recovered_order_id && { recoveredOrderId: row.recovered_order_id }),
+      ...(row.recovered_amount !== null && { recoveredAmount: Number(row.recovered_amount) }),
+      ...(row.recovered_currency && { recoveredCurrency: row.recovered_currency }),
+      ...(row.recovered_at && { recoveredAt: new Date(row.recovered_at) }),
+      ...(row.coupon_redeemed !== null && { couponRedeemed: Boolean(row.coupon_redeemed) }),
+    };
+  }
+}
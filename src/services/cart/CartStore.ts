@@ -0,0 +1,135 @@
+import type { SyncedCart, SyncedCartItem } from '../../types';
+import type { SqlClient } from '../order/SqlOrderRepository';
+
+/**
+ * Per-user cart storage. `save` is a compare-and-set on the version: it
+ * only writes when the stored cart is still at `expectedVersion` (0 for a
+ * user without a cart yet) and reports whether it did.
+ */
+export interface CartStore {
+  find(userId: string): Promise<SyncedCart | null>;
+  save(cart: SyncedCart, expectedVersion: number): Promise<boolean>;
+  delete(userId: string): Promise<void>;
+  /** Non-empty carts last written at or before `updatedBefore` */
+  findIdle(updatedBefore: Date): Promise<SyncedCart[]>;
+}
+
+function copy(cart: SyncedCart): SyncedCart {
+  return {
+    ...cart,
+    items: cart.items.map(item => ({ ...item })),
+    couponCodes: [...cart.couponCodes],
+  };
+}
+
+export class InMemoryCartStore implements CartStore {
+  private carts: Map<string, SyncedCart> = new Map();
+
+  async find(userId: string): Promise<SyncedCart | null> {
+    const cart = this.carts.get(userId);
+    return cart ? copy(cart) : null;
+  }
+
+  async save(cart: SyncedCart, expectedVersion: number): Promise<boolean> {
+    if ((this.carts.get(cart.userId)?.version ?? 0) !== expectedVersion) {
+      return false;
+    }
+
+    this.carts.set(cart.userId, copy(cart));
+    return true;
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.carts.delete(userId);
+  }
+
+  async findIdle(updatedBefore: Date): Promise<SyncedCart[]> {
+    return Array.from(this.carts.values())
+      .filter(cart => cart.items.length > 0 && cart.updatedAt <= updatedBefore)
+      .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime())
+      .map(copy);
+  }
+}
+
+interface CartRow {
+  user_id: string;
+  version: number | string;
+  items: SyncedCartItemRow[] | string;
+  coupon_codes: string[] | string;
+  updated_at: string | Date;
+}
+
+type SyncedCartItemRow = Omit<SyncedCartItem, 'addedAt'> & { addedAt: string };
+
+/** Carts in the `user_carts` table (migration 011) */
+export class SqlCartStore implements CartStore {
+  constructor(private readonly client: SqlClient) {}
+
+  async find(userId: string): Promise<SyncedCart | null> {
+    const result = await this.client.query<CartRow>(
+      `SELECT user_id, version, items, coupon_codes, updated_at FROM user_carts
+       WHERE user_id = $1`,
+      [userId]
+    );
+    const row = result.rows[0];
+    return row ? this.toCart(row) : null;
+  }
+
+  async save(cart: SyncedCart, expectedVersion: number): Promise<boolean> {
+    const params = [
+      cart.userId,
+      cart.version,
+      JSON.stringify(cart.items),
+      JSON.stringify(cart.couponCodes),
+      cart.updatedAt.toISOString(),
+    ];
+
+    const result =
+      expectedVersion === 0
+        ? await this.client.query<{ user_id: string }>(
+            `INSERT INTO user_carts (user_id, version, items, coupon_codes, updated_at)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (user_id) DO NOTHING
+             RETURNING user_id`,
+            params
+          )
+        : await this.client.query<{ user_id: string }>(
+            `UPDATE user_carts
+             SET version = $2, items = $3, coupon_codes = $4, updated_at = $5
+             WHERE user_id = $1 AND version = $6
+             RETURNING user_id`,
+            [...params, expectedVersion]
+          );
+    return result.rows.length > 0;
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.client.query(`DELETE FROM user_carts WHERE user_id = $1`, [userId]);
+  }
+
+  // An emptied cart is stored as '[]', so the filter holds for JSONB and JSON text alike
+  async findIdle(updatedBefore: Date): Promise<SyncedCart[]> {
+    const result = await this.client.query<CartRow>(
+      `SELECT user_id, version, items, coupon_codes, updated_at FROM user_carts
+       WHERE updated_at <= $1 AND items <> '[]'
+       ORDER BY updated_at ASC`,
+      [updatedBefore.toISOString()]
+    );
+    return result.rows.map(row => this.toCart(row));
+  }
+
+  private toCart(row: CartRow): SyncedCart {
+    const items: SyncedCartItemRow[] =
+      typeof row.items === 'string' ? JSON.parse(row.items) : row.items;
+    const couponCodes: string[] =
+      typeof row.coupon_codes === 'string' ? JSON.parse(row.coupon_codes) : row.coupon_codes;
+
+    return {
+      userId: row.user_id,
+      version: Number(row.version),
+      items: items.map(item => ({ ...item, addedAt: new Date(item.addedAt) })),
+      couponCodes,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
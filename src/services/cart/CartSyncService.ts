@@ -0,0 +1,248 @@
+import type { ApiResponse, SyncedCart, SyncedCartItem } from '../../types';
+import { productService } from '../product/ProductService';
+import type { ProductService } from '../product/ProductService';
+import { InMemoryCartStore } from './CartStore';
+import type { CartStore } from './CartStore';
+
+export type CartCatalog = Pick<ProductService, 'getProductById'>;
+
+export interface CartContents {
+  items: SyncedCartItem[];
+  couponCodes: string[];
+}
+
+export interface CartPriceChange {
+  productId: string;
+  previousPrice: number;
+  currentPrice: number;
+  currency: string;
+}
+
+export interface CartMergeResult {
+  cart: SyncedCart;
+  /** Lines whose saved price no longer matched the catalog and were repriced */
+  priceChanges: CartPriceChange[];
+  /** Products dropped because they are gone or no longer on sale */
+  removedProductIds: string[];
+}
+
+export const CART_VERSION_CONFLICT = 'CART_VERSION_CONFLICT';
+
+const MAX_MERGE_ATTEMPTS = 3;
+
+function quantities(contents: CartContents): Map<string, SyncedCartItem> {
+  return new Map(contents.items.map(item => [item.productId, item]));
+}
+
+/**
+ * Folds a guest cart into the account cart when the user signs in. Lines for
+ * the same product keep the larger quantity rather than adding up, so a cart
+ * that was already synced from this device is not doubled. Coupons are joined.
+ */
+export function mergeGuestCart(account: CartContents, guest: CartContents): CartContents {
+  const items = quantities(account);
+  for (const line of guest.items) {
+    const existing = items.get(line.productId);
+    if (!existing || line.quantity > existing.quantity) {
+      items.set(line.productId, { ...line, addedAt: existing?.addedAt ?? line.addedAt });
+    }
+  }
+
+  return {
+    items: Array.from(items.values()),
+    couponCodes: [...new Set([...account.couponCodes, ...guest.couponCodes])],
+  };
+}
+
+/**
+ * Three-way merge of concurrent edits. For every product and coupon, a side
+ * that still matches `base` takes the other side's change; when both sides
+ * changed a quantity the larger one wins.
+ */
+export function mergeCartVersions(
+  base: CartContents,
+  local: CartContents,
+  remote: CartContents
+): CartContents {
+  const baseItems = quantities(base);
+  const localItems = quantities(local);
+  const remoteItems = quantities(remote);
+  const items: SyncedCartItem[] = [];
+
+  for (const productId of new Set([...remoteItems.keys(), ...localItems.keys()])) {
+    const baseQuantity = baseItems.get(productId)?.quantity ?? 0;
+    const localLine = localItems.get(productId);
+    const remoteLine = remoteItems.get(productId);
+    const localQuantity = localLine?.quantity ?? 0;
+    const remoteQuantity = remoteLine?.quantity ?? 0;
+
+    const quantity =
+      localQuantity === baseQuantity
+        ? remoteQuantity
+        : remoteQuantity === baseQuantity
+          ? localQuantity
+          : Math.max(localQuantity, remoteQuantity);
+    const line = (quantity === localQuantity ? localLine : remoteLine) ?? localLine ?? remoteLine;
+    if (quantity > 0 && line) {
+      items.push({ ...line, quantity });
+    }
+  }
+
+  const couponCodes = [...new Set([...remote.couponCodes, ...local.couponCodes])].filter(code => {
+    const inBase = base.couponCodes.includes(code);
+    const inLocal = local.couponCodes.includes(code);
+    return inLocal === inBase ? remote.couponCodes.includes(code) : inLocal;
+  });
+
+  return { items, couponCodes };
+}
+
+/**
+ * Keeps each signed-in user's cart on the server so every device sees the
+ * same one. Writes carry the version they were based on and are refused with
+ * CART_VERSION_CONFLICT when another device wrote first; the caller merges
+ * with `mergeCartVersions` and tries again.
+ */
+export class CartSyncService {
+  constructor(
+    private readonly store: CartStore = new InMemoryCartStore(),
+    private readonly catalog: CartCatalog = productService
+  ) {}
+
+  async getCart(userId: string): Promise<SyncedCart> {
+    return (
+      (await this.store.find(userId)) ?? {
+        userId,
+        version: 0,
+        items: [],
+        couponCodes: [],
+        updatedAt: new Date(),
+      }
+    );
+  }
+
+  async saveCart(
+    userId: string,
+    contents: CartContents,
+    baseVersion: number
+  ): Promise<ApiResponse<SyncedCart>> {
+    try {
+      const cart = this.toCart(userId, contents, baseVersion + 1);
+      if (!(await this.store.save(cart, baseVersion))) {
+        return {
+          success: false,
+          data: await this.getCart(userId),
+          error: {
+            code: CART_VERSION_CONFLICT,
+            message: 'The cart was changed on another device',
+          },
+        };
+      }
+
+      return { success: true, data: cart };
+    } catch (error) {
+      console.error(`Failed to save cart for user ${userId}:`, error);
+      return {
+        success: false,
+        error: { code: 'CART_SYNC_FAILED', message: 'Failed to save cart' },
+      };
+    }
+  }
+
+  /** Merges a guest cart into the user's cart and reprices every line from the catalog */
+  async mergeCart(userId: string, guest: CartContents): Promise<ApiResponse<CartMergeResult>> {
+    try {
+      for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+        const current = await this.getCart(userId);
+        const merged = mergeGuestCart(current, guest);
+        const { items, priceChanges, removedProductIds } = await this.refreshPrices(merged.items);
+
+        const cart = this.toCart(
+          userId,
+          { items, couponCodes: merged.couponCodes },
+          current.version + 1
+        );
+        if (await this.store.save(cart, current.version)) {
+          return { success: true, data: { cart, priceChanges, removedProductIds } };
+        }
+      }
+
+      return {
+        success: false,
+        error: {
+          code: CART_VERSION_CONFLICT,
+          message: 'The cart kept changing while it was being merged',
+        },
+      };
+    } catch (error) {
+      console.error(`Failed to merge cart for user ${userId}:`, error);
+      return {
+        success: false,
+        error: { code: 'CART_SYNC_FAILED', message: 'Failed to merge cart' },
+      };
+    }
+  }
+
+  async clearCart(userId: string): Promise<void> {
+    await this.store.delete(userId);
+  }
+
+  /** Carts with items that nobody has touched since `idleSince` */
+  async findIdleCarts(idleSince: Date): Promise<SyncedCart[]> {
+    return this.store.findIdle(idleSince);
+  }
+
+  private async refreshPrices(
+    lines: SyncedCartItem[]
+  ): Promise<
+    Pick<CartMergeResult, 'priceChanges' | 'removedProductIds'> & { items: SyncedCartItem[] }
+  > {
+    const items: SyncedCartItem[] = [];
+    const priceChanges: CartPriceChange[] = [];
+    const removedProductIds: string[] = [];
+
+    for (const line of lines) {
+      const product = await this.catalog.getProductById(line.productId);
+      if (!product?.isActive) {
+        removedProductIds.push(line.productId);
+        continue;
+      }
+
+      if (line.unitPrice !== product.price || line.currency !== product.currency) {
+        priceChanges.push({
+          productId: line.productId,
+          previousPrice: line.unitPrice,
+          currentPrice: product.price,
+          currency: product.currency,
+        });
+      }
+      items.push({ ...line, unitPrice: product.price, currency: product.currency });
+    }
+
+    return { items, priceChanges, removedProductIds };
+  }
+
+  /** Drops empty lines, folds duplicate products and normalizes coupon codes */
+  private toCart(userId: string, contents: CartContents, version: number): SyncedCart {
+    const items = new Map<string, SyncedCartItem>();
+    for (const line of contents.items) {
+      if (!(line.quantity > 0)) continue;
+
+      const existing = items.get(line.productId);
+      items.set(
+        line.productId,
+        existing ? { ...existing, quantity: existing.quantity + line.quantity } : { ...line }
+      );
+    }
+
+    return {
+      userId,
+      version,
+      items: Array.from(items.values()),
+      couponCodes: [...new Set(contents.couponCodes.map(code => code.trim().toUpperCase()))],
+      updatedAt: new Date(),
+    };
+  }
+}
+
+export const cartSyncService = new CartSyncService();
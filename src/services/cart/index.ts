@@ -0,0 +1,26 @@
+export {
+  CartSyncService,
+  CART_VERSION_CONFLICT,
+  cartSyncService,
+  mergeCartVersions,
+  mergeGuestCart,
+} from './CartSyncService';
+export { InMemoryCartStore, SqlCartStore } from './CartStore';
+export { AbandonedCartService, abandonedCartService } from './AbandonedCartService';
+export { InMemoryCartReminderStore, SqlCartReminderStore } from './CartReminderStore';
+
+export type {
+  CartCatalog,
+  CartContents,
+  CartMergeResult,
+  CartPriceChange,
+} from './CartSyncService';
+export type { CartStore } from './CartStore';
+export type {
+  AbandonedCartServiceOptions,
+  CartRecoveryStats,
+  IdleCartSource,
+  ReminderCoupons,
+  ReminderRunSummary,
+} from './AbandonedCartService';
+export type { CartReminderStore } from './CartReminderStore';
@@ -0,0 +1,348 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Code Pool Service
+// ============================================================================
+
+import type { Product, ProductCode } from '../../types';
+import { ProductCodeStatus } from '../../types';
+import { securityService } from '../security/SecurityService';
+import type { SecurityService } from '../security/SecurityService';
+import { productService } from '../product/ProductService';
+import type { ProductService } from '../product/ProductService';
+import { inventoryService } from '../product/InventoryService';
+import type { InventoryService, StockAlert } from '../product/InventoryService';
+import { InMemoryCodePoolStore } from './CodePoolStore';
+import type { CodePoolLevels, CodePoolStore } from './CodePoolStore';
+
+export type CodeCipher = Pick<SecurityService, 'encrypt' | 'decrypt' | 'digest'>;
+
+export type PoolStockTarget = Pick<ProductService, 'getProductById' | 'setStockTotal'>;
+
+export type StockLevelChecker = Pick<InventoryService, 'checkStockLevels'>;
+
+export type CodeImportFormat = 'csv' | 'text';
+
+export interface CodeImportOptions {
+  /** Detected from the first line when omitted */
+  format?: CodeImportFormat;
+  batchId?: string;
+}
+
+export interface CodeImportResult {
+  batchId: string;
+  imported: number;
+  /** Codes already in the pool or repeated within the file */
+  duplicates: number;
+  rejected: Array<{ line: number; reason: string }>;
+}
+
+/** A code decrypted for delivery to the customer */
+export interface IssuedCode {
+  id: string;
+  code: string;
+  status: ProductCodeStatus;
+  allocatedAt?: Date;
+  replacesCodeId?: string;
+}
+
+export interface CodePoolServiceOptions {
+  /** Pool size at or below which a LOW_STOCK alert is raised */
+  lowPoolThreshold?: number;
+}
+
+export class InsufficientCodesError extends Error {
+  constructor(
+    public readonly productId: string,
+    public readonly requested: number,
+    public readonly available: number
+  ) {
+    super(`Code pool for ${productId} has ${available} codes left; ${requested} needed`);
+    this.name = 'InsufficientCodesError';
+  }
+}
+
+const CSV_CODE_COLUMNS = ['code', 'key', 'license_key', 'voucher_code'];
+const MAX_CODE_LENGTH = 512;
+
+/**
+ * License keys and voucher codes sold one per unit. Codes are encrypted with
+ * the SecurityService key before they reach the store, and a product's stock
+ * follows the number of codes still unallocated in its pool.
+ */
+export class CodePoolService {
+  private readonly lowPoolThreshold: number;
+
+  constructor(
+    private readonly store: CodePoolStore = new InMemoryCodePoolStore(),
+    private readonly cipher: CodeCipher = securityService,
+    private readonly products: PoolStockTarget = productService,
+    private readonly inventory: StockLevelChecker = inventoryService,
+    options: CodePoolServiceOptions = {}
+  ) {
+    this.lowPoolThreshold = options.lowPoolThreshold ?? 10;
+  }
+
+  /**
+   * Imports one code per line of plain text, or the `code` column of a CSV
+   * file with a header row. Blank lines and `#` comments are skipped.
+   */
+  async importCodes(
+    productId: string,
+    content: string,
+    options: CodeImportOptions = {}
+  ): Promise<CodeImportResult> {
+    const batchId = options.batchId ?? this.generateId('batch');
+    const { codes, rejected } = parseCodeFile(content, options.format);
+    const importedAt = new Date();
+
+    const records: ProductCode[] = [];
+    const seen = new Set<string>();
+    for (const code of codes) {
+      const fingerprint = await this.cipher.digest(code);
+      if (seen.has(fingerprint)) continue;
+      seen.add(fingerprint);
+
+      const encrypted = await this.cipher.encrypt(code);
+      records.push({
+        id: this.generateId('code'),
+        productId,
+        encryptedCode: encrypted.encrypted,
+        iv: encrypted.iv,
+        fingerprint,
+        status: ProductCodeStatus.AVAILABLE,
+        batchId,
+        importedAt,
+      });
+    }
+
+    const inserted = await this.store.insert(records);
+    await this.syncStock(productId);
+
+    return {
+      batchId,
+      imported: inserted.length,
+      duplicates: codes.length - inserted.length,
+      rejected,
+    };
+  }
+
+  async hasPool(productId: string): Promise<boolean> {
+    const levels = await this.store.countByStatus(productId);
+    return Object.values(levels).some(count => count > 0);
+  }
+
+  async getLevels(productId: string): Promise<CodePoolLevels> {
+    return this.store.countByStatus(productId);
+  }
+
+  /**
+   * Makes sure the order item holds `quantity` active codes, allocating only
+   * the missing ones, so retrying after a partial failure never double-issues.
+   * Throws InsufficientCodesError, allocating nothing, when the pool is short.
+   */
+  async allocate(
+    orderId: string,
+    orderItemId: string,
+    productId: string,
+    quantity: number
+  ): Promise<IssuedCode[]> {
+    const held = (await this.store.findByOrderItem(orderItemId)).filter(
+      code => code.status === ProductCodeStatus.ALLOCATED
+    );
+    const missing = quantity - held.length;
+
+    if (missing > 0) {
+      const allocated = await this.store.allocate(productId, missing, {
+        orderId,
+        orderItemId,
+        allocatedAt: new Date(),
+      });
+      if (allocated.length < missing) {
+        const levels = await this.store.countByStatus(productId);
+        throw new InsufficientCodesError(productId, missing, levels[ProductCodeStatus.AVAILABLE]);
+      }
+      held.push(...allocated);
+      await this.syncStock(productId);
+    }
+
+    return Promise.all(held.map(code => this.decryptCode(code)));
+  }
+
+  /** Every code issued for the order item, including revoked ones */
+  async getCodes(orderItemId: string): Promise<IssuedCode[]> {
+    const codes = await this.store.findByOrderItem(orderItemId);
+    return Promise.all(codes.map(code => this.decryptCode(code)));
+  }
+
+  /**
+   * Revokes the item's newest active codes until only `remainingQuantity`
+   * stay active. Revoked codes never return to the pool.
+   */
+  async revokeForRefund(
+    orderItemId: string,
+    remainingQuantity: number,
+    reason: string = 'Refunded'
+  ): Promise<number> {
+    const active = (await this.store.findByOrderItem(orderItemId)).filter(
+      code => code.status === ProductCodeStatus.ALLOCATED
+    );
+    const excess = active.slice(Math.max(remainingQuantity, 0)).reverse();
+
+    for (const code of excess) {
+      await this.revokeCode(code, reason);
+    }
+    return excess.length;
+  }
+
+  /**
+   * Replaces a code the customer could not redeem. The replacement is
+   * allocated before the old code is revoked, so a dry pool changes nothing.
+   */
+  async reissue(orderItemId: string, codeId: string, reason: string): Promise<IssuedCode> {
+    const code = (await this.store.findByOrderItem(orderItemId)).find(
+      candidate => candidate.id === codeId
+    );
+    if (!code || code.status !== ProductCodeStatus.ALLOCATED || !code.orderId) {
+      throw new Error(`Code ${codeId} is not an active code of order item ${orderItemId}`);
+    }
+
+    const [replacement] = await this.store.allocate(code.productId, 1, {
+      orderId: code.orderId,
+      orderItemId,
+      allocatedAt: new Date(),
+      replacesCodeId: code.id,
+    });
+    if (!replacement) {
+      throw new InsufficientCodesError(code.productId, 1, 0);
+    }
+
+    await this.revokeCode(code, reason);
+    await this.syncStock(code.productId);
+    return this.decryptCode(replacement);
+  }
+
+  /** Points the product's stock at the number of unallocated codes */
+  async syncStock(productId: string): Promise<void> {
+    const levels = await this.store.countByStatus(productId);
+    const synced = await this.products.setStockTotal(
+      productId,
+      levels[ProductCodeStatus.AVAILABLE],
+      this.lowPoolThreshold
+    );
+    if (!synced) {
+      console.error(`Code pool stock not synced; product ${productId} not found`);
+    }
+  }
+
+  /** Syncs every pool-backed product and raises stock alerts for small pools */
+  async checkPoolLevels(): Promise<StockAlert[]> {
+    const pooled: Product[] = [];
+
+    for (const productId of await this.store.findProductIds()) {
+      await this.syncStock(productId);
+      const product = await this.products.getProductById(productId);
+      if (product) {
+        pooled.push(product);
+      }
+    }
+
+    return this.inventory.checkStockLevels(pooled);
+  }
+
+  private async revokeCode(code: ProductCode, reason: string): Promise<void> {
+    await this.store.save({
+      ...code,
+      status: ProductCodeStatus.REVOKED,
+      revokedReason: reason,
+      revokedAt: new Date(),
+    });
+  }
+
+  private async decryptCode(code: ProductCode): Promise<IssuedCode> {
+    return {
+      id: code.id,
+      code: await this.cipher.decrypt({ encrypted: code.encryptedCode, iv: code.iv }),
+      status: code.status,
+      ...(code.allocatedAt && { allocatedAt: code.allocatedAt }),
+      ...(code.replacesCodeId && { replacesCodeId: code.replacesCodeId }),
+    };
+  }
+
+  private generateId(prefix: string): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substr(2, 8);
+    return `${prefix}_${timestamp}_${random}`;
+  }
+}
+
+/** Splits an import file into codes, reporting lines that hold no usable code */
+export function parseCodeFile(
+  content: string,
+  format?: CodeImportFormat
+): { codes: string[]; rejected: CodeImportResult['rejected'] } {
+  const lines = content.split(/\r?\n/);
+  const firstLine = lines.find(line => line.trim() !== '') ?? '';
+  const csv = format
+    ? format === 'csv'
+    : firstLine.includes(',') || CSV_CODE_COLUMNS.includes(firstLine.trim().toLowerCase());
+
+  const codes: string[] = [];
+  const rejected: CodeImportResult['rejected'] = [];
+  let codeColumn = csv ? -1 : 0;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (line.trim() === '' || line.trim().startsWith('#')) return;
+
+    if (codeColumn === -1) {
+      const header = splitCsvLine(line).map(cell => cell.trim().toLowerCase());
+      codeColumn = header.findIndex(cell => CSV_CODE_COLUMNS.includes(cell));
+      if (codeColumn === -1) {
+        throw new Error(`CSV header needs one of these columns: ${CSV_CODE_COLUMNS.join(', ')}`);
+      }
+      return;
+    }
+
+    const code = (csv ? splitCsvLine(line)[codeColumn] : line)?.trim() ?? '';
+    if (!code) {
+      rejected.push({ line: lineNumber, reason: 'Missing code' });
+    } else if (code.length > MAX_CODE_LENGTH) {
+      rejected.push({ line: lineNumber, reason: `Code longer than ${MAX_CODE_LENGTH} characters` });
+    } else {
+      codes.push(code);
+    }
+  });
+
+  return { codes, rejected };
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  return cells;
+}
+
+export const codePoolService = new CodePoolService();
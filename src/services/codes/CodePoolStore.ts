@@ -0,0 +1,288 @@
+import type { ProductCode } from '../../types';
+import { ProductCodeStatus } from '../../types';
+import type { SqlClient, SqlTransactionRunner } from '../order/SqlOrderRepository';
+
+export interface CodeAllocation {
+  orderId: string;
+  orderItemId: string;
+  allocatedAt: Date;
+  replacesCodeId?: string;
+}
+
+export type CodePoolLevels = Record<ProductCodeStatus, number>;
+
+/**
+ * Storage for license-key and voucher pools. Allocation is all-or-nothing
+ * and never hands the same code to two order items, even under concurrency.
+ */
+export interface CodePoolStore {
+  /** Adds the codes not already in their product's pool and returns those */
+  insert(codes: ProductCode[]): Promise<ProductCode[]>;
+  /** Allocates `quantity` available codes, oldest import first, or none when short */
+  allocate(productId: string, quantity: number, allocation: CodeAllocation): Promise<ProductCode[]>;
+  save(code: ProductCode): Promise<void>;
+  findByOrderItem(orderItemId: string): Promise<ProductCode[]>;
+  countByStatus(productId: string): Promise<CodePoolLevels>;
+  findProductIds(): Promise<string[]>;
+}
+
+function emptyLevels(): CodePoolLevels {
+  return {
+    [ProductCodeStatus.AVAILABLE]: 0,
+    [ProductCodeStatus.ALLOCATED]: 0,
+    [ProductCodeStatus.REVOKED]: 0,
+  };
+}
+
+export class InMemoryCodePoolStore implements CodePoolStore {
+  private codes: Map<string, ProductCode> = new Map();
+
+  async insert(codes: ProductCode[]): Promise<ProductCode[]> {
+    const inserted: ProductCode[] = [];
+    for (const code of codes) {
+      const duplicate = Array.from(this.codes.values()).some(
+        existing =>
+          existing.productId === code.productId && existing.fingerprint === code.fingerprint
+      );
+      if (!duplicate) {
+        this.codes.set(code.id, { ...code });
+        inserted.push({ ...code });
+      }
+    }
+    return inserted;
+  }
+
+  async allocate(
+    productId: string,
+    quantity: number,
+    allocation: CodeAllocation
+  ): Promise<ProductCode[]> {
+    const available = Array.from(this.codes.values())
+      .filter(code => code.productId === productId && code.status === ProductCodeStatus.AVAILABLE)
+      .sort((a, b) => a.importedAt.getTime() - b.importedAt.getTime())
+      .slice(0, quantity);
+
+    if (available.length < quantity) {
+      return [];
+    }
+
+    return available.map(code => {
+      code.status = ProductCodeStatus.ALLOCATED;
+      code.orderId = allocation.orderId;
+      code.orderItemId = allocation.orderItemId;
+      code.allocatedAt = allocation.allocatedAt;
+      if (allocation.replacesCodeId) {
+        code.replacesCodeId = allocation.replacesCodeId;
+      }
+      return { ...code };
+    });
+  }
+
+  async save(code: ProductCode): Promise<void> {
+    this.codes.set(code.id, { ...code });
+  }
+
+  async findByOrderItem(orderItemId: string): Promise<ProductCode[]> {
+    return Array.from(this.codes.values())
+      .filter(code => code.orderItemId === orderItemId)
+      .sort((a, b) => (a.allocatedAt?.getTime() ?? 0) - (b.allocatedAt?.getTime() ?? 0))
+      .map(code => ({ ...code }));
+  }
+
+  async countByStatus(productId: string): Promise<CodePoolLevels> {
+    const levels = emptyLevels();
+    for (const code of this.codes.values()) {
+      if (code.productId === productId) {
+        levels[code.status]++;
+      }
+    }
+    return levels;
+  }
+
+  async findProductIds(): Promise<string[]> {
+    return [...new Set(Array.from(this.codes.values()).map(code => code.productId))];
+  }
+}
+
+interface ProductCodeRow {
+  id: string;
+  product_id: string;
+  encrypted_code: string;
+  iv: string;
+  fingerprint: string;
+  status: ProductCodeStatus;
+  batch_id: string | null;
+  order_id: string | null;
+  order_item_id: string | null;
+  replaces_code_id: string | null;
+  revoked_reason: string | null;
+  imported_at: Date | string;
+  allocated_at: Date | string | null;
+  revoked_at: Date | string | null;
+}
+
+const PRODUCT_CODE_COLUMNS = `id, product_id, encrypted_code, iv, fingerprint, status, batch_id,
+  order_id, order_item_id, replaces_code_id, revoked_reason, imported_at, allocated_at, revoked_at`;
+
+/**
+ * Code pools on the `product_codes` table (see
+ * database/migrations/008_product_code_pools.sql). Allocation claims rows with
+ * a single conditional UPDATE; when a concurrent allocation wins some of the
+ * rows, the partial claim is handed back and the caller sees an empty result.
+ */
+export class SqlCodePoolStore implements CodePoolStore {
+  constructor(
+    private readonly client: SqlClient,
+    private readonly transaction: SqlTransactionRunner = callback => callback(client)
+  ) {}
+
+  async insert(codes: ProductCode[]): Promise<ProductCode[]> {
+    const inserted: ProductCode[] = [];
+    for (const code of codes) {
+      const result = await this.client.query<{ id: string }>(
+        `INSERT INTO product_codes (${PRODUCT_CODE_COLUMNS})
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         ON CONFLICT (product_id, fingerprint) DO NOTHING
+         RETURNING id`,
+        this.toParams(code)
+      );
+      if (result.rows.length > 0) {
+        inserted.push({ ...code });
+      }
+    }
+    return inserted;
+  }
+
+  async allocate(
+    productId: string,
+    quantity: number,
+    allocation: CodeAllocation
+  ): Promise<ProductCode[]> {
+    return this.transaction(async client => {
+      const result = await client.query<ProductCodeRow>(
+        `UPDATE product_codes
+         SET status = $1, order_id = $2, order_item_id = $3, allocated_at = $4,
+             replaces_code_id = $5
+         WHERE id IN (
+           SELECT id FROM product_codes
+           WHERE product_id = $6 AND status = $7
+           ORDER BY imported_at ASC, id ASC
+           LIMIT $8
+         ) AND status = $7
+         RETURNING ${PRODUCT_CODE_COLUMNS}`,
+        [
+          ProductCodeStatus.ALLOCATED,
+          allocation.orderId,
+          allocation.orderItemId,
+          allocation.allocatedAt.toISOString(),
+          allocation.replacesCodeId ?? null,
+          productId,
+          ProductCodeStatus.AVAILABLE,
+          quantity,
+        ]
+      );
+
+      if (result.rows.length === quantity) {
+        return result.rows.map(row => this.toCode(row));
+      }
+
+      if (result.rows.length > 0) {
+        const placeholders = result.rows.map((_, index) => `$${index + 2}`);
+        await client.query(
+          `UPDATE product_codes
+           SET status = $1, order_id = NULL, order_item_id = NULL, allocated_at = NULL,
+               replaces_code_id = NULL
+           WHERE id IN (${placeholders.join(', ')})`,
+          [ProductCodeStatus.AVAILABLE, ...result.rows.map(row => row.id)]
+        );
+      }
+      return [];
+    });
+  }
+
+  async save(code: ProductCode): Promise<void> {
+    await this.client.query(
+      `INSERT INTO product_codes (${PRODUCT_CODE_COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         order_id = EXCLUDED.order_id,
+         order_item_id = EXCLUDED.order_item_id,
+         replaces_code_id = EXCLUDED.replaces_code_id,
+         revoked_reason = EXCLUDED.revoked_reason,
+         allocated_at = EXCLUDED.allocated_at,
+         revoked_at = EXCLUDED.revoked_at`,
+      this.toParams(code)
+    );
+  }
+
+  async findByOrderItem(orderItemId: string): Promise<ProductCode[]> {
+    const result = await this.client.query<ProductCodeRow>(
+      `SELECT ${PRODUCT_CODE_COLUMNS} FROM product_codes
+       WHERE order_item_id = $1
+       ORDER BY allocated_at ASC, id ASC`,
+      [orderItemId]
+    );
+    return result.rows.map(row => this.toCode(row));
+  }
+
+  async countByStatus(productId: string): Promise<CodePoolLevels> {
+    const result = await this.client.query<{ status: ProductCodeStatus; count: number | string }>(
+      `SELECT status, COUNT(*) AS count FROM product_codes
+       WHERE product_id = $1
+       GROUP BY status`,
+      [productId]
+    );
+
+    const levels = emptyLevels();
+    for (const row of result.rows) {
+      levels[row.status] = Number(row.count);
+    }
+    return levels;
+  }
+
+  async findProductIds(): Promise<string[]> {
+    const result = await this.client.query<{ product_id: string }>(
+      `SELECT DISTINCT product_id FROM product_codes ORDER BY product_id`
+    );
+    return result.rows.map(row => row.product_id);
+  }
+
+  private toParams(code: ProductCode): unknown[] {
+    return [
+      code.id,
+      code.productId,
+      code.encryptedCode,
+      code.iv,
+      code.fingerprint,
+      code.status,
+      code.batchId ?? null,
+      code.orderId ?? null,
+      code.orderItemId ?? null,
+      code.replacesCodeId ?? null,
+      code.revokedReason ?? null,
+      code.importedAt.toISOString(),
+      code.allocatedAt ? code.allocatedAt.toISOString() : null,
+      code.revokedAt ? code.revokedAt.toISOString() : null,
+    ];
+  }
+
+  private toCode(row: ProductCodeRow): ProductCode {
+    return {
+      id: row.id,
+      productId: row.product_id,
+      encryptedCode: row.encrypted_code,
+      iv: row.iv,
+      fingerprint: row.fingerprint,
+      status: row.status,
+      ...(row.batch_id && { batchId: row.batch_id }),
+      ...(row.order_id && { orderId: row.order_id }),
+      ...(row.order_item_id && { orderItemId: row.order_item_id }),
+      ...(row.replaces_code_id && { replacesCodeId: row.replaces_code_id }),
+      ...(row.revoked_reason && { revokedReason: row.revoked_reason }),
+      importedAt: new Date(row.imported_at),
+      ...(row.allocated_at && { allocatedAt: new Date(row.allocated_at) }),
+      ...(row.revoked_at && { revokedAt: new Date(row.revoked_at) }),
+    };
+  }
+}
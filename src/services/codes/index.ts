@@ -0,0 +1,19 @@
+export {
+  CodePoolService,
+  codePoolService,
+  InsufficientCodesError,
+  parseCodeFile,
+} from './CodePoolService';
+export { InMemoryCodePoolStore, SqlCodePoolStore } from './CodePoolStore';
+
+export type {
+  CodeCipher,
+  CodeImportFormat,
+  CodeImportOptions,
+  CodeImportResult,
+  CodePoolServiceOptions,
+  IssuedCode,
+  PoolStockTarget,
+  StockLevelChecker,
+} from './CodePoolService';
+export type { CodeAllocation, CodePoolLevels, CodePoolStore } from './CodePoolStore';
@@ -0,0 +1,195 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Currency Service
+// ============================================================================
+
+import type { ExchangeRateSnapshot, UserPreferences } from '../../types';
+import { PAYMENT_CONFIG, STORAGE_KEYS } from '../../core/constants';
+import { Logger } from '../../core/utils/Logger';
+import type { ExchangeRateProvider, ExchangeRateTable } from './ExchangeRateProvider';
+import {
+  DEFAULT_EXCHANGE_RATES,
+  FileExchangeRateProvider,
+  StaticExchangeRateProvider,
+} from './ExchangeRateProvider';
+import { formatMoney, roundMoney } from './Money';
+
+export interface CurrencyServiceOptions {
+  settlementCurrency?: string;
+  supportedCurrencies?: readonly string[];
+  /** Rates older than this are reloaded before an order locks one */
+  maxRateAgeMs?: number;
+}
+
+export interface ExchangeRate {
+  from: string;
+  to: string;
+  rate: number;
+  source: string;
+  asOf: Date;
+}
+
+/**
+ * Converts between currencies using the latest table from its provider.
+ * Conversions are synchronous so render paths and cart totals can use them;
+ * until the provider has answered the bundled default table is used.
+ */
+export class CurrencyService {
+  private table: ExchangeRateTable = DEFAULT_EXCHANGE_RATES;
+  private loadedAt: number | null = null;
+  private loading: Promise<ExchangeRateTable> | null = null;
+  private listeners: Array<(currency: string | null) => void> = [];
+  private logger = new Logger('CurrencyService');
+  private readonly settlementCurrency: string;
+  private readonly supportedCurrencies: readonly string[];
+  private readonly maxRateAgeMs: number;
+
+  constructor(
+    private readonly provider: ExchangeRateProvider = new StaticExchangeRateProvider(),
+    options: CurrencyServiceOptions = {}
+  ) {
+    this.settlementCurrency = options.settlementCurrency ?? PAYMENT_CONFIG.SETTLEMENT_CURRENCY;
+    this.supportedCurrencies = options.supportedCurrencies ?? PAYMENT_CONFIG.SUPPORTED_CURRENCIES;
+    this.maxRateAgeMs = options.maxRateAgeMs ?? 60 * 60 * 1000;
+  }
+
+  getSettlementCurrency(): string {
+    return this.settlementCurrency;
+  }
+
+  getSupportedCurrencies(): readonly string[] {
+    return this.supportedCurrencies;
+  }
+
+  getRate(from: string, to: string): ExchangeRate | null {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+
+    if (source === target) {
+      return { from: source, to: target, rate: 1, source: 'identity', asOf: this.table.asOf };
+    }
+
+    const fromRate = this.table.rates[source];
+    const toRate = this.table.rates[target];
+    if (fromRate === undefined || toRate === undefined) {
+      return null;
+    }
+
+    return {
+      from: source,
+      to: target,
+      rate: toRate / fromRate,
+      source: this.table.source,
+      asOf: this.table.asOf,
+    };
+  }
+
+  canConvert(from: string, to: string): boolean {
+    return this.getRate(from, to) !== null;
+  }
+
+  /** Converts and rounds to the target currency's minor unit */
+  convert(amount: number, from: string, to: string): number {
+    const rate = this.getRate(from, to);
+    if (!rate) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+    return roundMoney(amount * rate.rate, to);
+  }
+
+  format(amount: number, currency: string): string {
+    return formatMoney(amount, currency);
+  }
+
+  async refreshRates(): Promise<ExchangeRateTable> {
+    if (!this.loading) {
+      this.loading = this.provider
+        .getRates()
+        .then(table => {
+          this.table = table;
+          this.loadedAt = Date.now();
+          return table;
+        })
+        .catch((error: unknown) => {
+          this.logger.error(
+            `Failed to load exchange rates from ${this.provider.name}`,
+            error instanceof Error ? error : undefined
+          );
+          return this.table;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  /** Reloads rates only when none have loaded yet or they are older than maxRateAgeMs */
+  async ensureFreshRates(): Promise<ExchangeRateTable> {
+    if (this.loadedAt === null || Date.now() - this.loadedAt > this.maxRateAgeMs) {
+      return this.refreshRates();
+    }
+    return this.table;
+  }
+
+  /**
+   * Returns the rate an order should be charged at, reloading rates first
+   * when they are stale. Throws when the pair cannot be converted.
+   */
+  async lockRate(
+    from: string,
+    to: string = this.settlementCurrency
+  ): Promise<ExchangeRateSnapshot> {
+    await this.ensureFreshRates();
+
+    const rate = this.getRate(from, to);
+    if (!rate) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+    return { ...rate, lockedAt: new Date() };
+  }
+
+  /** The shopper's chosen display currency, or null to show each price as listed */
+  getDisplayCurrency(): string | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
+      const currency = stored ? (JSON.parse(stored) as Partial<UserPreferences>).currency : null;
+      return currency && this.supportedCurrencies.includes(currency) ? currency : null;
+    } catch (error) {
+      this.logger.warn('Failed to read currency preference', error);
+      return null;
+    }
+  }
+
+  setDisplayCurrency(currency: string | null): void {
+    if (currency !== null && !this.supportedCurrencies.includes(currency)) {
+      throw new Error(`Unsupported currency: ${currency}`);
+    }
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
+      const preferences = stored ? (JSON.parse(stored) as Partial<UserPreferences>) : {};
+      if (currency === null) {
+        delete preferences.currency;
+      } else {
+        preferences.currency = currency;
+      }
+      localStorage.setItem(STORAGE_KEYS.USER_PREFERENCES, JSON.stringify(preferences));
+    } catch (error) {
+      this.logger.warn('Failed to store currency preference', error);
+    }
+
+    this.listeners.forEach(listener => listener(currency));
+  }
+
+  onDisplayCurrencyChange(listener: (currency: string | null) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+}
+
+export const currencyService = new CurrencyService(new FileExchangeRateProvider());
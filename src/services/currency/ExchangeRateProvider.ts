@@ -0,0 +1,94 @@
+/**
+ * Rates quoted against one base currency: `rates[X]` units of X buy one unit
+ * of `base`. Cross rates are derived through the base.
+ */
+export interface ExchangeRateTable {
+  base: string;
+  rates: Record<string, number>;
+  asOf: Date;
+  source: string;
+}
+
+export interface ExchangeRateProvider {
+  readonly name: string;
+  getRates(): Promise<ExchangeRateTable>;
+}
+
+/** Bundled fallback so prices still convert before any rate file has loaded */
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  base: 'MYR',
+  rates: {
+    MYR: 1,
+    USD: 0.22,
+    EUR: 0.2,
+    SGD: 0.29,
+  },
+  asOf: new Date('2026-10-01T00:00:00Z'),
+  source: 'static',
+};
+
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'static';
+
+  constructor(private readonly table: ExchangeRateTable = DEFAULT_EXCHANGE_RATES) {}
+
+  getRates(): Promise<ExchangeRateTable> {
+    return Promise.resolve({ ...this.table, rates: { ...this.table.rates } });
+  }
+}
+
+export type RateFileReader = (location: string) => Promise<string>;
+
+const fetchRateFile: RateFileReader = async location => {
+  const response = await fetch(location);
+  if (!response.ok) {
+    throw new Error(`Failed to load exchange rates from ${location}: HTTP ${response.status}`);
+  }
+  return response.text();
+};
+
+/**
+ * Reads a `{ base, asOf, rates }` JSON file, by default the copy shipped in
+ * public/exchange-rates.json, so the shop keeps pricing while offline. Node
+ * scripts pass a reader backed by `fs`.
+ */
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'file';
+
+  constructor(
+    private readonly location = '/exchange-rates.json',
+    private readonly readFile: RateFileReader = fetchRateFile
+  ) {}
+
+  async getRates(): Promise<ExchangeRateTable> {
+    return parseExchangeRateFile(await this.readFile(this.location), this.location);
+  }
+}
+
+export function parseExchangeRateFile(
+  content: string,
+  location = 'exchange rate file'
+): ExchangeRateTable {
+  const parsed = JSON.parse(content) as {
+    base?: unknown;
+    asOf?: unknown;
+    rates?: Record<string, unknown>;
+  };
+
+  if (typeof parsed.base !== 'string' || !parsed.rates || typeof parsed.rates !== 'object') {
+    throw new Error(`${location} must contain a base currency and a rates object`);
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [currency, rate] of Object.entries(parsed.rates)) {
+    if (typeof rate !== 'number' || !(rate > 0)) {
+      throw new Error(`${location} has an invalid rate for ${currency}`);
+    }
+    rates[currency.toUpperCase()] = rate;
+  }
+
+  const base = parsed.base.toUpperCase();
+  const asOf = typeof parsed.asOf === 'string' ? new Date(parsed.asOf) : new Date();
+
+  return { base, rates: { ...rates, [base]: 1 }, asOf, source: location };
+}
@@ -0,0 +1,34 @@
+/**
+ * Digits after the decimal point for currencies that do not use two.
+ * XTR (Telegram Stars) is whole stars only; TON is priced in nanotons.
+ */
+export const CURRENCY_MINOR_UNITS: Readonly<Record<string, number>> = {
+  JPY: 0,
+  KRW: 0,
+  VND: 0,
+  XTR: 0,
+  BHD: 3,
+  KWD: 3,
+  TON: 9,
+};
+
+const DEFAULT_MINOR_UNITS = 2;
+
+export function getMinorUnits(currency: string): number {
+  return CURRENCY_MINOR_UNITS[currency.toUpperCase()] ?? DEFAULT_MINOR_UNITS;
+}
+
+/**
+ * Rounds half away from zero to the currency's minor unit. The product is
+ * trimmed to 15 significant digits first so 1.005 rounds to 1.01, not 1.
+ */
+export function roundMoney(amount: number, currency: string): number {
+  const factor = 10 ** getMinorUnits(currency);
+  const scaled = Number((Math.abs(amount) * factor).toPrecision(15));
+  return (Math.sign(amount) * Math.round(scaled)) / factor || 0;
+}
+
+/** `MYR 12.50`, matching how prices are laid out across the storefront */
+export function formatMoney(amount: number, currency: string): string {
+  return `${currency.toUpperCase()} ${amount.toFixed(getMinorUnits(currency))}`;
+}
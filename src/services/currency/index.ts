@@ -0,0 +1,15 @@
+export { CurrencyService, currencyService } from './CurrencyService';
+export {
+  DEFAULT_EXCHANGE_RATES,
+  FileExchangeRateProvider,
+  StaticExchangeRateProvider,
+  parseExchangeRateFile,
+} from './ExchangeRateProvider';
+export { CURRENCY_MINOR_UNITS, formatMoney, getMinorUnits, roundMoney } from './Money';
+
+export type { CurrencyServiceOptions, ExchangeRate } from './CurrencyService';
+export type {
+  ExchangeRateProvider,
+  ExchangeRateTable,
+  RateFileReader,
+} from './ExchangeRateProvider';
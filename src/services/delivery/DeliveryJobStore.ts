@@ -0,0 +1,173 @@
+import type { DeliveryJob, DeliveryJobStatus } from '../../types';
+import type { SqlClient } from '../order/SqlOrderRepository';
+
+/** Storage for delivery jobs; lists come back oldest first */
+export interface DeliveryJobStore {
+  save(job: DeliveryJob): Promise<void>;
+  findById(id: string): Promise<DeliveryJob | null>;
+  findByOrder(orderId: string): Promise<DeliveryJob[]>;
+  findByStatus(status: DeliveryJobStatus): Promise<DeliveryJob[]>;
+  /**
+   * Queued jobs whose next attempt is due by `now`, plus in-progress jobs
+   * last attempted before `stalledBefore` (their worker never reported back)
+   */
+  findDue(now: Date, stalledBefore: Date): Promise<DeliveryJob[]>;
+}
+
+function isDue(job: DeliveryJob, now: Date, stalledBefore: Date): boolean {
+  if (job.status === 'queued') {
+    return !job.nextAttemptAt || job.nextAttemptAt <= now;
+  }
+  return job.status === 'in_progress' && !!job.lastAttemptAt && job.lastAttemptAt < stalledBefore;
+}
+
+export class InMemoryDeliveryJobStore implements DeliveryJobStore {
+  private jobs: Map<string, DeliveryJob> = new Map();
+
+  async save(job: DeliveryJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async findById(id: string): Promise<DeliveryJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async findByOrder(orderId: string): Promise<DeliveryJob[]> {
+    return this.list(job => job.orderId === orderId);
+  }
+
+  async findByStatus(status: DeliveryJobStatus): Promise<DeliveryJob[]> {
+    return this.list(job => job.status === status);
+  }
+
+  async findDue(now: Date, stalledBefore: Date): Promise<DeliveryJob[]> {
+    return this.list(job => isDue(job, now, stalledBefore));
+  }
+
+  clear(): void {
+    this.jobs.clear();
+  }
+
+  private list(predicate: (job: DeliveryJob) => boolean): DeliveryJob[] {
+    return Array.from(this.jobs.values())
+      .filter(predicate)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(job => ({ ...job }));
+  }
+}
+
+interface DeliveryJobRow {
+  id: string;
+  order_ref: string;
+  order_item_ref: string;
+  product_id: string;
+  plugin_id: string;
+  status: DeliveryJobStatus;
+  attempts: number | string;
+  next_attempt_at: Date | string | null;
+  last_attempt_at: Date | string | null;
+  last_error: string | null;
+  redriven_by: string | null;
+  created_at: Date | string;
+  updated_at: Date | string;
+  delivered_at: Date | string | null;
+}
+
+const DELIVERY_JOB_COLUMNS = `id, order_ref, order_item_ref, product_id, plugin_id, status,
+  attempts, next_attempt_at, last_attempt_at, last_error, redriven_by, created_at, updated_at,
+  delivered_at`;
+
+/**
+ * Delivery jobs on the `delivery_jobs` table (see
+ * database/migrations/014_delivery_jobs.sql), so queued and dead-lettered
+ * deliveries survive a restart.
+ */
+export class SqlDeliveryJobStore implements DeliveryJobStore {
+  constructor(private readonly client: SqlClient) {}
+
+  async save(job: DeliveryJob): Promise<void> {
+    await this.client.query(
+      `INSERT INTO delivery_jobs (${DELIVERY_JOB_COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         attempts = EXCLUDED.attempts,
+         next_attempt_at = EXCLUDED.next_attempt_at,
+         last_attempt_at = EXCLUDED.last_attempt_at,
+         last_error = EXCLUDED.last_error,
+         redriven_by = EXCLUDED.redriven_by,
+         updated_at = EXCLUDED.updated_at,
+         delivered_at = EXCLUDED.delivered_at`,
+      [
+        job.id,
+        job.orderId,
+        job.orderItemId,
+        job.productId,
+        job.pluginId,
+        job.status,
+        job.attempts,
+        job.nextAttemptAt ? job.nextAttemptAt.toISOString() : null,
+        job.lastAttemptAt ? job.lastAttemptAt.toISOString() : null,
+        job.lastError ?? null,
+        job.redrivenBy ?? null,
+        job.createdAt.toISOString(),
+        job.updatedAt.toISOString(),
+        job.deliveredAt ? job.deliveredAt.toISOString() : null,
+      ]
+    );
+  }
+
+  async findById(id: string): Promise<DeliveryJob | null> {
+    const result = await this.client.query<DeliveryJobRow>(
+      `SELECT ${DELIVERY_JOB_COLUMNS} FROM delivery_jobs WHERE id = $1`,
+      [id]
+    );
+    const row = result.rows[0];
+    return row ? this.toJob(row) : null;
+  }
+
+  async findByOrder(orderId: string): Promise<DeliveryJob[]> {
+    return this.select('order_ref = $1', [orderId]);
+  }
+
+  async findByStatus(status: DeliveryJobStatus): Promise<DeliveryJob[]> {
+    return this.select('status = $1', [status]);
+  }
+
+  async findDue(now: Date, stalledBefore: Date): Promise<DeliveryJob[]> {
+    return this.select(
+      `(status = 'queued' AND (next_attempt_at IS NULL OR next_attempt_at <= $1))
+       OR (status = 'in_progress' AND last_attempt_at < $2)`,
+      [now.toISOString(), stalledBefore.toISOString()]
+    );
+  }
+
+  private async select(where: string, params: unknown[]): Promise<DeliveryJob[]> {
+    const result = await this.client.query<DeliveryJobRow>(
+      `SELECT ${DELIVERY_JOB_COLUMNS} FROM delivery_jobs WHERE ${where}
+       ORDER BY created_at ASC, id ASC`,
+      params
+    );
+    return result.rows.map(row => this.toJob(row));
+  }
+
+  private toJob(row: DeliveryJobRow): DeliveryJob {
+    return {
+      id: row.id,
+      orderId: row.order_ref,
+      orderItemId: row.order_item_ref,
+      productId: row.product_id,
+      pluginId: row.plugin_id,
+      status: row.status,
+      attempts: Number(row.attempts),
+      ...(row.next_attempt_at && { nextAttemptAt: new Date(row.next_attempt_at) }),
+      ...(row.last_attempt_at && { lastAttemptAt: new Date(row.last_attempt_at) }),
+      ...(row.last_error && { lastError: row.last_error }),
+      ...(row.redriven_by && { redrivenBy: row.redriven_by }),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      ...(row.delivered_at && { deliveredAt: new Date(row.delivered_at) }),
+    };
+  }
+}
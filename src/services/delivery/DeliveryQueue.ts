@@ -0,0 +1,262 @@
+import type { ApiResponse, DeliveryJob, DeliveryResult } from '../../types';
+import { EVENTS, ORDER_CONFIG, PLUGIN_CONFIG } from '../../core/constants';
+import { globalEventEmitter } from '../../core/utils/EventEmitter';
+import { InMemoryDeliveryJobStore } from './DeliveryJobStore';
+import type { DeliveryJobStore } from './DeliveryJobStore';
+
+export type DeliveryJobRequest = Pick<
+  DeliveryJob,
+  'orderId' | 'orderItemId' | 'productId' | 'pluginId'
+>;
+
+export interface DeliveryRetryPolicy {
+  /** Attempts (including the first) before a job is dead-lettered */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_DELIVERY_RETRY_POLICY: DeliveryRetryPolicy = {
+  maxAttempts: PLUGIN_CONFIG.MAX_RETRY_ATTEMPTS + 1,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+};
+
+/** Exponential backoff: base, 2x base, 4x base, ... capped at maxDelayMs */
+export function getDeliveryRetryDelay(attempts: number, policy: DeliveryRetryPolicy): number {
+  return Math.min(policy.baseDelayMs * 2 ** Math.max(attempts - 1, 0), policy.maxDelayMs);
+}
+
+/** Runs the deliveries; OrderService registers itself as the queue's worker */
+export interface DeliveryWorker {
+  deliver(job: DeliveryJob): Promise<DeliveryResult>;
+  /** Called on every status change so the order item can mirror it */
+  onJobUpdated(job: DeliveryJob): Promise<void>;
+}
+
+/**
+ * Durable queue of order item deliveries. New jobs get their first attempt
+ * straight away; failures the plugin marks retryable (or that throw) are
+ * retried with exponential backoff by the sweep, and a job that runs out of
+ * attempts or fails for good is dead-lettered with its last error until an
+ * admin re-drives it.
+ */
+export class DeliveryQueue {
+  private worker: DeliveryWorker | null = null;
+  private sweepInterval: ReturnType<typeof setInterval> | null = null;
+  // Jobs being attempted by this process, so overlapping sweeps skip them
+  private readonly active = new Set<string>();
+
+  constructor(
+    private readonly store: DeliveryJobStore = new InMemoryDeliveryJobStore(),
+    private readonly retryPolicy: DeliveryRetryPolicy = DEFAULT_DELIVERY_RETRY_POLICY,
+    private readonly stallTimeoutMs: number = ORDER_CONFIG.DELIVERY_TIMEOUT
+  ) {}
+
+  setWorker(worker: DeliveryWorker): void {
+    this.worker = worker;
+  }
+
+  /** Queues one job per request and makes the first attempt at each */
+  async enqueue(requests: DeliveryJobRequest[]): Promise<DeliveryJob[]> {
+    const jobs: DeliveryJob[] = [];
+    for (const request of requests) {
+      const now = new Date();
+      const job: DeliveryJob = {
+        ...request,
+        id: this.generateJobId(),
+        status: 'queued',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.store.save(job);
+      await this.notify(job);
+      await globalEventEmitter.emit(EVENTS.DELIVERY_QUEUED, { job });
+      jobs.push(job);
+    }
+
+    const attempted: DeliveryJob[] = [];
+    for (const job of jobs) {
+      attempted.push(await this.attempt(job));
+    }
+    return attempted;
+  }
+
+  /** Attempts every job whose backoff has elapsed, and jobs stalled mid-attempt */
+  async processDueJobs(now: Date = new Date()): Promise<DeliveryJob[]> {
+    const due = await this.store.findDue(now, new Date(now.getTime() - this.stallTimeoutMs));
+
+    const results: DeliveryJob[] = [];
+    for (const job of due) {
+      results.push(await this.attempt(job));
+    }
+    return results;
+  }
+
+  /**
+   * Gives a dead-lettered (or still queued) job a fresh set of attempts and
+   * runs the first one now. Delivered jobs are never re-run.
+   */
+  async redrive(jobId: string, redrivenBy: string): Promise<ApiResponse<DeliveryJob>> {
+    const job = await this.store.findById(jobId);
+    if (!job) {
+      return {
+        success: false,
+        error: { code: 'DELIVERY_JOB_NOT_FOUND', message: `Delivery job not found: ${jobId}` },
+      };
+    }
+
+    if (job.status !== 'dead_letter' && job.status !== 'queued') {
+      return {
+        success: false,
+        error: {
+          code: 'DELIVERY_JOB_NOT_REDRIVABLE',
+          message: `Delivery job ${jobId} is ${job.status.replace('_', ' ')}`,
+        },
+      };
+    }
+
+    const queued: DeliveryJob = {
+      ...job,
+      status: 'queued',
+      attempts: 0,
+      redrivenBy,
+      updatedAt: new Date(),
+    };
+    delete queued.nextAttemptAt;
+    await this.store.save(queued);
+    await this.notify(queued);
+
+    return { success: true, data: await this.attempt(queued) };
+  }
+
+  async redriveDeadLetters(redrivenBy: string): Promise<DeliveryJob[]> {
+    const results: DeliveryJob[] = [];
+    for (const job of await this.store.findByStatus('dead_letter')) {
+      const redriven = await this.redrive(job.id, redrivenBy);
+      if (redriven.data) results.push(redriven.data);
+    }
+    return results;
+  }
+
+  async getJob(jobId: string): Promise<DeliveryJob | null> {
+    return this.store.findById(jobId);
+  }
+
+  async getJobsForOrder(orderId: string): Promise<DeliveryJob[]> {
+    return this.store.findByOrder(orderId);
+  }
+
+  async getDeadLetters(): Promise<DeliveryJob[]> {
+    return this.store.findByStatus('dead_letter');
+  }
+
+  startWorker(intervalMs: number = ORDER_CONFIG.DELIVERY_SWEEP_INTERVAL): void {
+    if (this.sweepInterval) {
+      return;
+    }
+
+    this.sweepInterval = setInterval(() => {
+      this.processDueJobs().catch(error => {
+        console.error('Delivery queue run failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  stopWorker(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  private async attempt(job: DeliveryJob): Promise<DeliveryJob> {
+    if (!this.worker || this.active.has(job.id)) {
+      return job;
+    }
+
+    this.active.add(job.id);
+    try {
+      const started: DeliveryJob = {
+        ...job,
+        status: 'in_progress',
+        attempts: job.attempts + 1,
+        lastAttemptAt: new Date(),
+        updatedAt: new Date(),
+      };
+      delete started.nextAttemptAt;
+      await this.store.save(started);
+      await this.notify(started);
+
+      let result: DeliveryResult;
+      try {
+        result = await this.worker.deliver(started);
+      } catch (error) {
+        result = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Delivery failed',
+          retryable: true,
+        };
+      }
+
+      return await this.finish(started, result);
+    } finally {
+      this.active.delete(job.id);
+    }
+  }
+
+  private async finish(job: DeliveryJob, result: DeliveryResult): Promise<DeliveryJob> {
+    const now = new Date();
+
+    if (result.success) {
+      const delivered: DeliveryJob = {
+        ...job,
+        status: 'delivered',
+        updatedAt: now,
+        deliveredAt: now,
+      };
+      delete delivered.lastError;
+      await this.store.save(delivered);
+      await this.notify(delivered);
+      await globalEventEmitter.emit(EVENTS.DELIVERY_COMPLETED, { job: delivered });
+      return delivered;
+    }
+
+    const lastError = result.error || 'Delivery failed';
+    if (result.retryable === false || job.attempts >= this.retryPolicy.maxAttempts) {
+      const deadLetter: DeliveryJob = { ...job, status: 'dead_letter', lastError, updatedAt: now };
+      await this.store.save(deadLetter);
+      await this.notify(deadLetter);
+      await globalEventEmitter.emit(EVENTS.DELIVERY_DEAD_LETTERED, { job: deadLetter });
+      return deadLetter;
+    }
+
+    const retry: DeliveryJob = {
+      ...job,
+      status: 'queued',
+      lastError,
+      nextAttemptAt: new Date(
+        now.getTime() + getDeliveryRetryDelay(job.attempts, this.retryPolicy)
+      ),
+      updatedAt: now,
+    };
+    await this.store.save(retry);
+    await this.notify(retry);
+    await globalEventEmitter.emit(EVENTS.DELIVERY_FAILED, { job: retry });
+    return retry;
+  }
+
+  /** A job whose order cannot be updated still moves on; the job record is the source of truth */
+  private async notify(job: DeliveryJob): Promise<void> {
+    try {
+      await this.worker?.onJobUpdated(job);
+    } catch (error) {
+      console.error(`Failed to record delivery status of job ${job.id}:`, error);
+    }
+  }
+
+  private generateJobId(): string {
+    return `dlv_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 8)}`;
+  }
+}
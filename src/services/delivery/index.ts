@@ -0,0 +1,9 @@
+export {
+  DeliveryQueue,
+  DEFAULT_DELIVERY_RETRY_POLICY,
+  getDeliveryRetryDelay,
+} from './DeliveryQueue';
+export { InMemoryDeliveryJobStore, SqlDeliveryJobStore } from './DeliveryJobStore';
+
+export type { DeliveryJobRequest, DeliveryRetryPolicy, DeliveryWorker } from './DeliveryQueue';
+export type { DeliveryJobStore } from './DeliveryJobStore';
@@ -0,0 +1,43 @@
+import type { SqlClient } from '../order/SqlOrderRepository';
+
+/**
+ * Hands out gap-free numbers per series (e.g. one series per year). Each
+ * call consumes a number, so only call it once an invoice is certain.
+ */
+export interface InvoiceNumberSequence {
+  next(series: string): Promise<number>;
+}
+
+export class InMemoryInvoiceNumberSequence implements InvoiceNumberSequence {
+  private counters: Map<string, number> = new Map();
+
+  async next(series: string): Promise<number> {
+    const value = (this.counters.get(series) ?? 0) + 1;
+    this.counters.set(series, value);
+    return value;
+  }
+}
+
+/**
+ * Counters on the `invoice_sequences` table (see
+ * database/migrations/007_tax_and_invoices.sql). The upsert takes a row lock,
+ * so concurrent callers never receive the same number.
+ */
+export class SqlInvoiceNumberSequence implements InvoiceNumberSequence {
+  constructor(private readonly client: SqlClient) {}
+
+  async next(series: string): Promise<number> {
+    const result = await this.client.query<{ last_value: number | string }>(
+      `INSERT INTO invoice_sequences (series, last_value) VALUES ($1, 1)
+       ON CONFLICT (series) DO UPDATE SET last_value = invoice_sequences.last_value + 1
+       RETURNING last_value`,
+      [series]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      throw new Error(`Failed to allocate an invoice number in series ${series}`);
+    }
+    return Number(row.last_value);
+  }
+}
@@ -0,0 +1,273 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Invoice Service
+// ============================================================================
+
+import type { Order } from '../../types';
+import { APP_CONFIG } from '../../core/constants';
+import { formatMoney, roundMoney } from '../currency/Money';
+import { InMemoryInvoiceNumberSequence } from './InvoiceNumberSequence';
+import type { InvoiceNumberSequence } from './InvoiceNumberSequence';
+
+export interface InvoiceSeller {
+  name: string;
+  address?: string[];
+  taxId?: string;
+  email?: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+/** A promotion or coupon taken off the line total */
+export interface InvoiceDiscount {
+  description: string;
+  amount: number;
+}
+
+/** Tax lines of the order grouped by rule */
+export interface InvoiceTaxSummary {
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface Invoice {
+  number: string;
+  orderId: string;
+  customerId: string;
+  issuedAt: Date;
+  seller: InvoiceSeller;
+  currency: string;
+  paymentMethod?: string;
+  lines: InvoiceLine[];
+  discounts: InvoiceDiscount[];
+  taxes: InvoiceTaxSummary[];
+  /** Line total less discounts; includes the taxes that are included in prices */
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+}
+
+export interface InvoiceDocument {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface InvoiceServiceOptions {
+  prefix?: string;
+  seller?: InvoiceSeller;
+}
+
+/**
+ * Numbers invoices as `INV-2026-000001`, restarting each calendar year, and
+ * renders them as standalone HTML. The markup carries A4 print styles so the
+ * browser's "Save as PDF" produces the PDF copy.
+ */
+export class InvoiceService {
+  private readonly prefix: string;
+  private readonly seller: InvoiceSeller;
+
+  constructor(
+    private readonly sequence: InvoiceNumberSequence = new InMemoryInvoiceNumberSequence(),
+    options: InvoiceServiceOptions = {}
+  ) {
+    this.prefix = options.prefix ?? 'INV';
+    this.seller = options.seller ?? { name: APP_CONFIG.NAME };
+  }
+
+  async nextInvoiceNumber(issuedAt: Date = new Date()): Promise<string> {
+    const series = `${this.prefix}-${issuedAt.getUTCFullYear()}`;
+    const value = await this.sequence.next(series);
+    return `${series}-${String(value).padStart(6, '0')}`;
+  }
+
+  buildInvoice(order: Order): Invoice {
+    if (!order.invoiceNumber) {
+      throw new Error(`Order ${order.id} has not been invoiced`);
+    }
+
+    const taxes = new Map<string, InvoiceTaxSummary>();
+    for (const line of order.taxLines ?? []) {
+      const key = `${line.ruleId}:${line.rate}`;
+      const summary = taxes.get(key) ?? {
+        name: line.name,
+        rate: line.rate,
+        inclusive: line.inclusive,
+        taxableAmount: 0,
+        amount: 0,
+      };
+      summary.taxableAmount = roundMoney(
+        summary.taxableAmount + line.taxableAmount,
+        order.currency
+      );
+      summary.amount = roundMoney(summary.amount + line.amount, order.currency);
+      taxes.set(key, summary);
+    }
+
+    const taxTotal = order.taxAmount ?? 0;
+    const addedTax = Array.from(taxes.values())
+      .filter(tax => !tax.inclusive)
+      .reduce((sum, tax) => sum + tax.amount, 0);
+
+    return {
+      number: order.invoiceNumber,
+      orderId: order.id,
+      customerId: order.userId,
+      issuedAt: order.invoicedAt ?? order.completedAt ?? order.updatedAt,
+      seller: this.seller,
+      currency: order.currency,
+      ...(order.paymentMethod && { paymentMethod: order.paymentMethod }),
+      lines: order.items.map(item => ({
+        description: item.product.name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        amount: item.totalPrice,
+      })),
+      discounts: this.discountsOf(order),
+      taxes: Array.from(taxes.values()),
+      subtotal: roundMoney(order.totalAmount - addedTax, order.currency),
+      taxTotal,
+      total: order.totalAmount,
+    };
+  }
+
+  private discountsOf(order: Order): InvoiceDiscount[] {
+    if (order.promotions && order.promotions.length > 0) {
+      return order.promotions.map(promotion => ({
+        description: promotion.code ? `${promotion.name} (${promotion.code})` : promotion.name,
+        amount: promotion.amount,
+      }));
+    }
+    return order.discountAmount ? [{ description: 'Discount', amount: order.discountAmount }] : [];
+  }
+
+  renderHtml(invoice: Invoice): string {
+    const money = (amount: number) => escapeHtml(formatMoney(amount, invoice.currency));
+    const seller = [
+      invoice.seller.name,
+      ...(invoice.seller.address ?? []),
+      ...(invoice.seller.taxId ? [`Tax ID: ${invoice.seller.taxId}`] : []),
+      ...(invoice.seller.email ? [invoice.seller.email] : []),
+    ];
+
+    const lineRows = invoice.lines
+      .map(
+        line => `        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="num">${line.quantity}</td>
+          <td class="num">${money(line.unitPrice)}</td>
+          <td class="num">${money(line.amount)}</td>
+        </tr>`
+      )
+      .join('\n');
+
+    const discountRows = invoice.discounts
+      .map(
+        discount => `        <tr>
+          <td colspan="3">${escapeHtml(discount.description)}</td>
+          <td class="num">-${money(discount.amount)}</td>
+        </tr>`
+      )
+      .join('\n');
+
+    const taxRows = invoice.taxes
+      .map(
+        tax => `        <tr>
+          <td colspan="3">${escapeHtml(tax.name)} ${formatRate(tax.rate)}${
+            tax.inclusive ? ' (included)' : ''
+          } on ${money(tax.taxableAmount)}</td>
+          <td class="num">${money(tax.amount)}</td>
+        </tr>`
+      )
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    @page { size: A4; margin: 20mm; }
+    body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; color: #111; }
+    header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+    h1 { font-size: 20px; margin: 0 0 8px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 4px; border-bottom: 1px solid #ddd; text-align: left; }
+    .num { text-align: right; white-space: nowrap; }
+    tfoot td { border-bottom: none; }
+    tfoot tr.total td { font-weight: bold; border-top: 2px solid #111; }
+  </style>
+</head>
+<body>
+  <header>
+    <div>
+${seller.map(line => `      <div>${escapeHtml(line)}</div>`).join('\n')}
+    </div>
+    <div>
+      <h1>Invoice</h1>
+      <div>Invoice no: ${escapeHtml(invoice.number)}</div>
+      <div>Date: ${invoice.issuedAt.toISOString().slice(0, 10)}</div>
+      <div>Order: ${escapeHtml(invoice.orderId)}</div>
+      <div>Customer: ${escapeHtml(invoice.customerId)}</div>${
+        invoice.paymentMethod
+          ? `\n      <div>Payment: ${escapeHtml(invoice.paymentMethod)}</div>`
+          : ''
+      }
+    </div>
+  </header>
+  <table>
+    <thead>
+      <tr><th>Item</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>
+${lineRows}
+    </tbody>
+    <tfoot>
+${discountRows}
+        <tr>
+          <td colspan="3">Subtotal</td>
+          <td class="num">${money(invoice.subtotal)}</td>
+        </tr>
+${taxRows}
+        <tr class="total">
+          <td colspan="3">Total</td>
+          <td class="num">${money(invoice.total)}</td>
+        </tr>
+    </tfoot>
+  </table>
+</body>
+</html>
+`;
+  }
+
+  createDocument(order: Order): InvoiceDocument {
+    const invoice = this.buildInvoice(order);
+    return {
+      fileName: `${invoice.number}.html`,
+      mimeType: 'text/html',
+      content: this.renderHtml(invoice),
+    };
+  }
+}
+
+function formatRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export const invoiceService = new InvoiceService();
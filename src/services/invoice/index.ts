@@ -0,0 +1,12 @@
+export { InvoiceService, invoiceService } from './InvoiceService';
+export { InMemoryInvoiceNumberSequence, SqlInvoiceNumberSequence } from './InvoiceNumberSequence';
+
+export type {
+  Invoice,
+  InvoiceDocument,
+  InvoiceLine,
+  InvoiceSeller,
+  InvoiceServiceOptions,
+  InvoiceTaxSummary,
+} from './InvoiceService';
+export type { InvoiceNumberSequence } from './InvoiceNumberSequence';
@@ -0,0 +1,22 @@
+import type { NotificationSettings } from '../../types';
+
+/** Where the server keeps each user's notification opt-ins */
+export interface NotificationPreferenceStore {
+  getSettings(userId: string): Promise<NotificationSettings | null>;
+  saveSettings(userId: string, settings: NotificationSettings): Promise<void>;
+}
+
+export class InMemoryNotificationPreferenceStore implements NotificationPreferenceStore {
+  private settings: Map<string, NotificationSettings> = new Map();
+
+  async getSettings(userId: string): Promise<NotificationSettings | null> {
+    const settings = this.settings.get(userId);
+    return settings ? { ...settings } : null;
+  }
+
+  async saveSettings(userId: string, settings: NotificationSettings): Promise<void> {
+    this.settings.set(userId, { ...settings });
+  }
+}
+
+export const notificationPreferences = new InMemoryNotificationPreferenceStore();
@@ -0,0 +1,71 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Telegram Bot Messages
+// ============================================================================
+
+export interface TelegramBotButton {
+  text: string;
+  url: string;
+}
+
+export interface TelegramBotMessage {
+  chatId: number;
+  text: string;
+  parseMode?: 'HTML' | 'MarkdownV2';
+  /** Shown as a single row of inline keyboard buttons */
+  buttons?: TelegramBotButton[];
+}
+
+export interface SentTelegramBotMessage extends TelegramBotMessage {
+  messageId: number;
+  sentAt: Date;
+}
+
+/**
+ * Sends messages as the shop's bot. The bot token lives on the server, so
+ * production transports call our API rather than the Bot API directly.
+ */
+export interface TelegramBotTransport {
+  sendMessage(message: TelegramBotMessage): Promise<{ messageId: number }>;
+}
+
+/**
+ * Chat id for a user signed in through the Mini App. Private chats share the
+ * Telegram user id; other user ids have no chat the bot can write to.
+ */
+export function chatIdForUser(userId: string): number | null {
+  const match = /^tg_(\d+)$/.exec(userId);
+  return match?.[1] ? Number(match[1]) : null;
+}
+
+/**
+ * In-process stand-in for the bot. Messages are kept instead of sent so tests
+ * and the dev UI can read them back; chats listed as blocked fail the way the
+ * Bot API does when a user has stopped the bot.
+ */
+export class LocalTelegramBotTransport implements TelegramBotTransport {
+  private sent: SentTelegramBotMessage[] = [];
+  private blockedChats: Set<number> = new Set();
+  private sequence = 0;
+
+  async sendMessage(message: TelegramBotMessage): Promise<{ messageId: number }> {
+    if (this.blockedChats.has(message.chatId)) {
+      throw new Error('Forbidden: bot was blocked by the user');
+    }
+
+    const messageId = ++this.sequence;
+    this.sent.push({ ...message, messageId, sentAt: new Date() });
+    return { messageId };
+  }
+
+  blockChat(chatId: number): void {
+    this.blockedChats.add(chatId);
+  }
+
+  getSentMessages(chatId?: number): SentTelegramBotMessage[] {
+    return this.sent.filter(message => chatId === undefined || message.chatId === chatId);
+  }
+
+  clear(): void {
+    this.sent = [];
+  }
+}
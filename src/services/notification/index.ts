@@ -0,0 +1,13 @@
+export { LocalTelegramBotTransport, chatIdForUser } from './TelegramBot';
+export {
+  InMemoryNotificationPreferenceStore,
+  notificationPreferences,
+} from './NotificationPreferences';
+
+export type {
+  SentTelegramBotMessage,
+  TelegramBotButton,
+  TelegramBotMessage,
+  TelegramBotTransport,
+} from './TelegramBot';
+export type { NotificationPreferenceStore } from './NotificationPreferences';
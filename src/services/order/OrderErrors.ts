@@ -0,0 +1,27 @@
+import type { OrderStatus } from '../../types';
+
+export class OrderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'OrderError';
+  }
+}
+
+export class InvalidOrderTransitionError extends OrderError {
+  constructor(
+    public readonly orderId: string,
+    public readonly from: OrderStatus,
+    public readonly to: OrderStatus
+  ) {
+    super(`Order ${orderId} cannot move from ${from} to ${to}`, 'INVALID_ORDER_TRANSITION', {
+      orderId,
+      from,
+      to,
+    });
+    this.name = 'InvalidOrderTransitionError';
+  }
+}
@@ -0,0 +1,108 @@
+import type { Order, OrderStatus, PaginatedResponse } from '../../types';
+
+export interface OrderQuery {
+  userId?: string;
+  status?: OrderStatus | OrderStatus[];
+  createdFrom?: Date;
+  createdTo?: Date;
+  /** 1-based page number, defaults to 1 */
+  page?: number;
+  /** Omit to return every matching order on a single page */
+  pageSize?: number;
+}
+
+/**
+ * Storage for orders. Results are always sorted newest first.
+ */
+export interface OrderRepository {
+  save(order: Order): Promise<void>;
+  findById(orderId: string): Promise<Order | null>;
+  findMany(query?: OrderQuery): Promise<PaginatedResponse<Order>>;
+}
+
+export function compareOrdersNewestFirst(a: Order, b: Order): number {
+  const byDate = b.createdAt.getTime() - a.createdAt.getTime();
+  if (byDate !== 0) {
+    return byDate;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+export function resolvePage(query: OrderQuery, total: number): { page: number; pageSize: number } {
+  const page = Math.max(1, Math.floor(query.page ?? 1));
+  const pageSize =
+    query.pageSize !== undefined ? Math.max(1, Math.floor(query.pageSize)) : Math.max(total, 1);
+  return { page, pageSize };
+}
+
+export function toPaginatedResponse<T>(
+  items: T[],
+  total: number,
+  page: number,
+  pageSize: number
+): PaginatedResponse<T> {
+  return {
+    items,
+    total,
+    page,
+    pageSize,
+    hasNext: page * pageSize < total,
+    hasPrevious: page > 1,
+  };
+}
+
+export class InMemoryOrderRepository implements OrderRepository {
+  private orders: Map<string, Order> = new Map();
+  private ordersByUser: Map<string, string[]> = new Map();
+
+  async save(order: Order): Promise<void> {
+    if (!this.orders.has(order.id)) {
+      const userOrders = this.ordersByUser.get(order.userId) || [];
+      userOrders.push(order.id);
+      this.ordersByUser.set(order.userId, userOrders);
+    }
+
+    this.orders.set(order.id, order);
+  }
+
+  async findById(orderId: string): Promise<Order | null> {
+    return this.orders.get(orderId) || null;
+  }
+
+  async findMany(query: OrderQuery = {}): Promise<PaginatedResponse<Order>> {
+    const candidates =
+      query.userId !== undefined
+        ? (this.ordersByUser.get(query.userId) || [])
+            .map(id => this.orders.get(id))
+            .filter((order): order is Order => order !== undefined)
+        : Array.from(this.orders.values());
+
+    const statuses =
+      query.status === undefined
+        ? null
+        : Array.isArray(query.status)
+          ? query.status
+          : [query.status];
+
+    const matching = candidates
+      .filter(order => !statuses || statuses.includes(order.status))
+      .filter(order => !query.createdFrom || order.createdAt >= query.createdFrom)
+      .filter(order => !query.createdTo || order.createdAt <= query.createdTo)
+      .sort(compareOrdersNewestFirst);
+
+    const { page, pageSize } = resolvePage(query, matching.length);
+    const start = (page - 1) * pageSize;
+
+    return toPaginatedResponse(
+      matching.slice(start, start + pageSize),
+      matching.length,
+      page,
+      pageSize
+    );
+  }
+
+  clear(): void {
+    this.orders.clear();
+    this.ordersByUser.clear();
+  }
+}
@@ -1,17 +1,65 @@
-import type { Order, OrderItem, Product } from '../../types';
+import type {
+  BundleComponentDelivery,
+  BundleDelivery,
+  DeliveryJob,
+  DeliveryResult,
+  ExchangeRateSnapshot,
+  ApiResponse,
+  Order,
+  OrderItem,
+  OrderItemDeliveryStatus,
+  PaginatedResponse,
+  Payment,
+  PluginContext,
+  Product,
+  Refund,
+  RefundItem,
+  RefundResult,
+} from '../../types';
 import { OrderStatus, PaymentMethod, PaymentStatus } from '../../types';
 import { paymentService } from '../payment/PaymentService';
+import type { PaymentService } from '../payment/PaymentService';
 import { globalEventEmitter } from '../../core/utils/EventEmitter';
-import { PAYMENT_EVENTS } from '../../core/constants';
+import { EVENTS, ORDER_CONFIG, PAYMENT_EVENTS } from '../../core/constants';
 import { productService } from '../product/ProductService';
+import {
+  InsufficientStockError,
+  stockReservationService,
+} from '../product/StockReservationService';
+import type { StockReservationService } from '../product/StockReservationService';
+import { bundleService } from '../product/BundleService';
+import type { BundleService } from '../product/BundleService';
+import { pluginManager } from '../../core/plugin/PluginManager';
+import { Logger } from '../../core/utils/Logger';
+import { IdempotencyGuard } from '../../core/utils/Idempotency';
+import { currencyService } from '../currency/CurrencyService';
+import type { CurrencyService } from '../currency/CurrencyService';
+import { roundMoney } from '../currency/Money';
+import { taxService } from '../tax/TaxService';
+import type { TaxService } from '../tax/TaxService';
+import { invoiceService } from '../invoice/InvoiceService';
+import { codePoolService } from '../codes/CodePoolService';
+import type { CodePoolService, IssuedCode } from '../codes/CodePoolService';
+import type { InvoiceDocument, InvoiceService } from '../invoice/InvoiceService';
+import { DeliveryQueue } from '../delivery/DeliveryQueue';
+import { promotionService } from '../promotion/PromotionService';
+import type { PromotionEvaluation, PromotionService } from '../promotion/PromotionService';
+import type { IdempotentRequestOptions } from '../../core/utils/Idempotency';
+import { InMemoryOrderRepository } from './OrderRepository';
+import type { OrderQuery, OrderRepository } from './OrderRepository';
+import { createStatusChange, orderStateMachine } from './OrderStateMachine';
+import type { OrderStateMachine, OrderTransitionOptions } from './OrderStateMachine';
 
 export interface CreateOrderRequest {
   userId: string;
   items: CreateOrderItemRequest[];
   paymentMethod: PaymentMethod;
-  currency?: string;
+  /** Billing country for tax rules; defaults to the tax service's country */
+  country?: string;
   notes?: string;
   metadata?: Record<string, any>;
+  /** Coupon codes to redeem; the order is refused when any of them does not apply */
+  couponCodes?: string[];
 }
 
 export interface CreateOrderItemRequest {
@@ -27,39 +75,176 @@ export interface OrderStats {
   averageOrderValue: number;
 }
 
-export class OrderService {
-  private orders: Map<string, Order> = new Map();
-  private ordersByUser: Map<string, string[]> = new Map();
+export type OrderListOptions = Omit<OrderQuery, 'userId'>;
+
+export interface OrderRefundRequest {
+  /** Items to refund; `quantity` defaults to everything not yet refunded */
+  items?: Array<{ orderItemId: string; quantity?: number }>;
+  /** Refund amount when not refunding by item; defaults to the full balance */
+  amount?: number;
+  reason?: string;
+}
+
+export interface PaymentInitiationResult {
+  success: boolean;
+  paymentId?: string;
+  redirectUrl?: string;
+  error?: string;
+}
+
+export interface RefundNotifier {
+  notifyRefundProcessed(pluginId: string, context: PluginContext): Promise<void>;
+}
+
+export interface PluginExecutor {
+  executePlugin(pluginId: string, context: PluginContext): Promise<DeliveryResult>;
+}
 
-  constructor() {
+/** Collaborators of an OrderService; any left out use the shared instances */
+export interface OrderServiceDependencies {
+  repository: OrderRepository;
+  payments: PaymentService;
+  stateMachine: OrderStateMachine;
+  /** Told about refunds of the items it delivered */
+  plugins: RefundNotifier;
+  idempotency: IdempotencyGuard;
+  currency: CurrencyService;
+  tax: TaxService;
+  invoices: InvoiceService;
+  reservations: StockReservationService;
+  codes: CodePoolService;
+  promotions: PromotionService;
+  bundles: BundleService;
+  /** Runs the plugin that delivers an item */
+  delivery: PluginExecutor;
+  fulfilment: DeliveryQueue;
+}
+
+export class OrderService {
+  private reservationSweepInterval: ReturnType<typeof setInterval> | null = null;
+  private readonly repository: OrderRepository;
+  private readonly payments: PaymentService;
+  private readonly stateMachine: OrderStateMachine;
+  private readonly plugins: RefundNotifier;
+  private readonly idempotency: IdempotencyGuard;
+  private readonly currency: CurrencyService;
+  private readonly tax: TaxService;
+  private readonly invoices: InvoiceService;
+  private readonly reservations: StockReservationService;
+  private readonly codes: CodePoolService;
+  private readonly promotions: PromotionService;
+  private readonly bundles: BundleService;
+  private readonly delivery: PluginExecutor;
+  private readonly fulfilment: DeliveryQueue;
+
+  constructor(dependencies: Partial<OrderServiceDependencies> = {}) {
+    this.repository = dependencies.repository ?? new InMemoryOrderRepository();
+    this.payments = dependencies.payments ?? paymentService;
+    this.stateMachine = dependencies.stateMachine ?? orderStateMachine;
+    this.plugins = dependencies.plugins ?? pluginManager;
+    this.idempotency = dependencies.idempotency ?? new IdempotencyGuard();
+    this.currency = dependencies.currency ?? currencyService;
+    this.tax = dependencies.tax ?? taxService;
+    this.invoices = dependencies.invoices ?? invoiceService;
+    this.reservations = dependencies.reservations ?? stockReservationService;
+    this.codes = dependencies.codes ?? codePoolService;
+    this.promotions = dependencies.promotions ?? promotionService;
+    this.bundles = dependencies.bundles ?? bundleService;
+    this.delivery = dependencies.delivery ?? pluginManager;
+    this.fulfilment = dependencies.fulfilment ?? new DeliveryQueue();
+
+    this.fulfilment.setWorker({
+      deliver: job => this.runDeliveryJob(job),
+      onJobUpdated: job => this.recordDeliveryStatus(job),
+    });
     this.setupEventListeners();
   }
 
-  async createOrder(request: CreateOrderRequest): Promise<Order> {
+  /**
+   * Creates a pending order. With an idempotency key, repeats of the same
+   * request return the first order instead of creating another one.
+   */
+  async createOrder(
+    request: CreateOrderRequest,
+    options: IdempotentRequestOptions = {}
+  ): Promise<Order> {
+    if (!options.idempotencyKey) {
+      return this.placeOrder(request);
+    }
+
+    return this.idempotency.execute(
+      `order:create:${request.userId}`,
+      options.idempotencyKey,
+      request,
+      () => this.placeOrder(request)
+    );
+  }
+
+  private async placeOrder(request: CreateOrderRequest): Promise<Order> {
     try {
       this.validateOrderRequest(request);
 
-      const orderItems = await this.buildOrderItems(request.items);
-      const totalAmount = this.calculateTotalAmount(orderItems);
+      // Orders are always charged in the settlement currency; shoppers only see prices converted
+      const currency = this.currency.getSettlementCurrency().toUpperCase();
+      const { items: orderItems, exchangeRates } = await this.buildOrderItems(
+        request.items,
+        currency
+      );
+      const orderId = this.generateOrderId();
+      const itemsTotal = this.calculateTotalAmount(orderItems, currency);
+      const promotions = await this.redeemCoupons(orderId, request, orderItems, currency);
+      const discountAmount = promotions?.totalDiscount ?? 0;
+
+      // The coupon discount is spread over the lines in proportion to their value
+      const discountRatio = itemsTotal > 0 ? (itemsTotal - discountAmount) / itemsTotal : 1;
+      const tax = this.tax.calculate(
+        orderItems.map(item => ({
+          productId: item.productId,
+          category: item.product.category,
+          orderItemId: item.id,
+          amount: roundMoney(item.totalPrice * discountRatio, currency),
+        })),
+        { currency, ...(request.country && { country: request.country }) }
+      );
+      const totalAmount = roundMoney(itemsTotal - discountAmount + tax.exclusiveTax, currency);
 
       const order: Order = {
-        id: this.generateOrderId(),
+        id: orderId,
         userId: request.userId,
         items: orderItems,
         totalAmount,
-        currency: request.currency || 'MYR',
+        currency,
         status: OrderStatus.PENDING,
         paymentMethod: request.paymentMethod,
         ...(request.notes && { notes: request.notes }),
         metadata: request.metadata || {},
+        ...(exchangeRates.length > 0 && { exchangeRates }),
+        taxAmount: tax.totalTax,
+        taxLines: tax.lines,
+        ...(promotions && { discountAmount, promotions: promotions.applied }),
+        statusHistory: [
+          createStatusChange(null, OrderStatus.PENDING, {
+            changedBy: request.userId,
+            reason: 'Order created',
+          }),
+        ],
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      this.orders.set(order.id, order);
-      this.addToUserOrders(request.userId, order.id);
-
-      console.log(`Order created: ${order.id} for user ${request.userId}`);
+      try {
+        await this.reserveStock(order);
+      } catch (error) {
+        this.promotions.reverse(order.id);
+        throw error;
+      }
+      try {
+        await this.repository.save(order);
+      } catch (error) {
+        await this.reservations.release(order.id, 'Order could not be saved');
+        this.promotions.reverse(order.id);
+        throw error;
+      }
 
       return order;
     } catch (error) {
@@ -69,37 +254,114 @@ export class OrderService {
   }
 
   async getOrder(orderId: string): Promise<Order | null> {
-    return this.orders.get(orderId) || null;
+    return this.repository.findById(orderId);
+  }
+
+  /**
+   * The invoice of a completed order as a downloadable HTML document, or
+   * null when the order does not exist or has never completed.
+   */
+  async getInvoice(orderId: string): Promise<InvoiceDocument | null> {
+    const order = await this.repository.findById(orderId);
+    if (!order || (!order.invoiceNumber && !order.completedAt)) {
+      return null;
+    }
+
+    await this.issueInvoice(order);
+    return this.invoices.createDocument(order);
+  }
+
+  /**
+   * The license keys or vouchers issued for an order item, decrypted for
+   * delivery. Empty until the order completes or when the product has no pool.
+   */
+  async getOrderItemCodes(orderId: string, orderItemId: string): Promise<IssuedCode[]> {
+    const order = await this.repository.findById(orderId);
+    if (!order?.completedAt || !order.items.some(item => item.id === orderItemId)) {
+      return [];
+    }
+
+    return this.codes.getCodes(orderItemId);
+  }
+
+  /**
+   * Delivers the bundle components that failed before, leaving delivered ones
+   * alone. Returns the bundle items' delivery records.
+   */
+  async retryBundleDelivery(orderId: string): Promise<Record<string, BundleDelivery>> {
+    const order = await this.repository.findById(orderId);
+    if (!order?.completedAt) {
+      return {};
+    }
+
+    return this.deliverBundles(order);
   }
 
-  async getUserOrders(userId: string): Promise<Order[]> {
-    const orderIds = this.ordersByUser.get(userId) || [];
-    return orderIds
-      .map(id => this.orders.get(id))
-      .filter((order): order is Order => order !== undefined)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  async getDeliveryJobs(orderId: string): Promise<DeliveryJob[]> {
+    return this.fulfilment.getJobsForOrder(orderId);
   }
 
-  async updateOrderStatus(orderId: string, status: OrderStatus, metadata?: any): Promise<boolean> {
-    const order = this.orders.get(orderId);
+  /** Dead-lettered deliveries, with the error of their last attempt */
+  async getFailedDeliveries(): Promise<DeliveryJob[]> {
+    return this.fulfilment.getDeadLetters();
+  }
+
+  /** Lets an admin run a dead-lettered delivery again with a fresh set of attempts */
+  async redriveDelivery(jobId: string, redrivenBy: string): Promise<ApiResponse<DeliveryJob>> {
+    return this.fulfilment.redrive(jobId, redrivenBy);
+  }
+
+  async retryDueDeliveries(now: Date = new Date()): Promise<DeliveryJob[]> {
+    return this.fulfilment.processDueJobs(now);
+  }
+
+  startDeliveryWorker(intervalMs: number = ORDER_CONFIG.DELIVERY_SWEEP_INTERVAL): void {
+    this.fulfilment.startWorker(intervalMs);
+  }
+
+  stopDeliveryWorker(): void {
+    this.fulfilment.stopWorker();
+  }
+
+  async getUserOrders(
+    userId: string,
+    options: OrderListOptions = {}
+  ): Promise<PaginatedResponse<Order>> {
+    return this.repository.findMany({ ...options, userId });
+  }
+
+  /**
+   * Moves an order to a new status through the transition table. Setting the
+   * current status again only merges metadata; illegal moves throw
+   * InvalidOrderTransitionError.
+   */
+  async updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    options: OrderTransitionOptions = {}
+  ): Promise<boolean> {
+    const order = await this.repository.findById(orderId);
     if (!order) {
       console.error(`Order not found: ${orderId}`);
       return false;
     }
 
     const oldStatus = order.status;
-    order.status = status;
-    order.updatedAt = new Date();
+    if (oldStatus !== status) {
+      this.stateMachine.transition(order, status, options);
+    } else {
+      order.updatedAt = new Date();
+    }
 
-    if (status === OrderStatus.COMPLETED) {
-      order.completedAt = new Date();
+    if (status === OrderStatus.COMPLETED && oldStatus !== status) {
+      order.completedAt = order.updatedAt;
     }
 
-    if (metadata) {
-      order.metadata = { ...order.metadata, ...metadata };
+    if (options.metadata) {
+      order.metadata = { ...order.metadata, ...options.metadata };
     }
 
-    this.orders.set(orderId, order);
+    await this.repository.save(order);
 
     if (oldStatus !== status) {
       await this.handleOrderStatusChange(order, oldStatus);
@@ -108,20 +370,62 @@ export class OrderService {
     return true;
   }
 
+  /**
+   * Starts payment for a pending order, or retries it for a failed one. With
+   * an idempotency key, repeats replay the first successful response; failures
+   * are not replayed so the client can retry with the same key.
+   */
   async initiatePayment(
-    orderId: string
-  ): Promise<{ success: boolean; redirectUrl?: string; error?: string }> {
-    const order = this.orders.get(orderId);
+    orderId: string,
+    options: IdempotentRequestOptions = {}
+  ): Promise<PaymentInitiationResult> {
+    if (!options.idempotencyKey) {
+      return this.startPayment(orderId);
+    }
+
+    // Keys are scoped to the order's owner, as they are for order creation
+    const order = await this.repository.findById(orderId);
     if (!order) {
       return { success: false, error: 'Order not found' };
     }
 
+    try {
+      return await this.idempotency.execute(
+        `order:payment:${order.userId}`,
+        options.idempotencyKey,
+        { orderId },
+        () => this.startPayment(orderId),
+        { persistWhen: result => result.success }
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment initiation failed',
+      };
+    }
+  }
+
+  private async startPayment(orderId: string): Promise<PaymentInitiationResult> {
+    const order = await this.repository.findById(orderId);
+    if (!order) {
+      return { success: false, error: 'Order not found' };
+    }
+
+    if (order.status === OrderStatus.FAILED) {
+      this.stateMachine.transition(order, OrderStatus.PENDING, {
+        changedBy: order.userId,
+        reason: 'Payment retry',
+        ...(order.paymentId && { metadata: { previousPaymentId: order.paymentId } }),
+      });
+      await this.repository.save(order);
+    }
+
     if (order.status !== OrderStatus.PENDING) {
       return { success: false, error: 'Order is not in pending status' };
     }
 
     try {
-      const paymentResponse = await paymentService.createPayment({
+      const paymentResponse = await this.payments.createPayment({
         orderId: order.id,
         amount: order.totalAmount,
         currency: order.currency,
@@ -135,13 +439,21 @@ export class OrderService {
       });
 
       if (paymentResponse.success && paymentResponse.paymentId) {
-        order.paymentId = paymentResponse.paymentId;
-        order.status = OrderStatus.PROCESSING;
-        order.updatedAt = new Date();
-        this.orders.set(orderId, order);
+        // The PAYMENT_INITIATED listener may already have moved the order on
+        const latest = (await this.repository.findById(orderId)) || order;
+        latest.paymentId = paymentResponse.paymentId;
+        if (latest.status === OrderStatus.PENDING) {
+          this.stateMachine.transition(latest, OrderStatus.PROCESSING, {
+            changedBy: order.userId,
+            reason: 'Payment initiated',
+            metadata: { paymentId: paymentResponse.paymentId },
+          });
+        }
+        await this.repository.save(latest);
 
         return {
           success: true,
+          paymentId: paymentResponse.paymentId,
           ...(paymentResponse.redirectUrl && { redirectUrl: paymentResponse.redirectUrl }),
         };
       } else {
@@ -159,20 +471,20 @@ export class OrderService {
     }
   }
 
-  async cancelOrder(orderId: string, reason?: string): Promise<boolean> {
-    const order = this.orders.get(orderId);
+  async cancelOrder(orderId: string, reason?: string, changedBy?: string): Promise<boolean> {
+    const order = await this.repository.findById(orderId);
     if (!order) {
       return false;
     }
 
-    if (order.status === OrderStatus.COMPLETED || order.status === OrderStatus.CANCELLED) {
+    if (!this.stateMachine.canTransition(order.status, OrderStatus.CANCELLED)) {
       return false;
     }
 
     if (order.paymentId) {
-      const payment = await paymentService.getPayment(order.paymentId);
+      const payment = await this.findOrderPayment(order);
       if (payment && payment.status === PaymentStatus.COMPLETED) {
-        const refunded = await paymentService.refundPayment(order.paymentId);
+        const refunded = await this.payments.refundPayment(payment.id);
         if (!refunded) {
           console.error(`Failed to refund payment for order ${orderId}`);
           return false;
@@ -180,24 +492,167 @@ export class OrderService {
       }
     }
 
-    const metadata = reason ? { ...order.metadata, cancellationReason: reason } : order.metadata;
-    return this.updateOrderStatus(orderId, OrderStatus.CANCELLED, metadata);
+    return this.updateOrderStatus(orderId, OrderStatus.CANCELLED, {
+      ...(changedBy && { changedBy }),
+      ...(reason && { reason, metadata: { cancellationReason: reason } }),
+    });
+  }
+
+  /**
+   * Refunds whole items, part of an item's quantity, or a plain amount. The
+   * order and item statuses follow from the PAYMENT_REFUNDED event.
+   */
+  async refundOrder(orderId: string, request: OrderRefundRequest = {}): Promise<RefundResult> {
+    const order = await this.repository.findById(orderId);
+    if (!order) {
+      return { success: false, error: 'Order not found' };
+    }
+
+    if (order.status !== OrderStatus.COMPLETED && order.status !== OrderStatus.PARTIALLY_REFUNDED) {
+      return { success: false, error: `Cannot refund order with status: ${order.status}` };
+    }
+
+    const payment = await this.findOrderPayment(order);
+    if (!payment) {
+      return { success: false, error: 'Order has no payment to refund' };
+    }
+
+    const refundItems: RefundItem[] = [];
+    const refundedQuantities = new Map<string, number>();
+    for (const item of order.items) {
+      refundedQuantities.set(item.id, await this.payments.getRefundedQuantity(payment.id, item.id));
+    }
+
+    for (const requested of request.items || []) {
+      const item = order.items.find(orderItem => orderItem.id === requested.orderItemId);
+      if (!item) {
+        return { success: false, error: `Order item not found: ${requested.orderItemId}` };
+      }
+
+      const refunded = refundedQuantities.get(item.id) ?? 0;
+      const remaining = item.quantity - refunded;
+      const quantity = requested.quantity ?? remaining;
+
+      if (!Number.isInteger(quantity) || quantity <= 0 || quantity > remaining) {
+        return {
+          success: false,
+          error: `Cannot refund ${quantity} of ${item.id}; ${remaining} refundable`,
+        };
+      }
+
+      refundedQuantities.set(item.id, refunded + quantity);
+      refundItems.push({
+        orderItemId: item.id,
+        quantity,
+        amount: this.chargedAmount(order, item, refunded, quantity),
+      });
+    }
+
+    // Returning the last units returns what is left of the payment, so the
+    // per-item rounding never leaves a cent behind or asks for one too many
+    const last = refundItems[refundItems.length - 1];
+    if (last && order.items.every(item => refundedQuantities.get(item.id) === item.quantity)) {
+      const balance = roundMoney(payment.amount - (payment.refundAmount ?? 0), payment.currency);
+      const others = refundItems.slice(0, -1).reduce((sum, item) => sum + item.amount, 0);
+      last.amount = roundMoney(balance - others, payment.currency);
+    }
+
+    return this.payments.createRefund({
+      paymentId: payment.id,
+      ...(request.amount !== undefined && { amount: request.amount }),
+      ...(request.reason && { reason: request.reason }),
+      ...(refundItems.length > 0 && { items: refundItems }),
+    });
   }
 
-  async getOrdersByStatus(status: OrderStatus): Promise<Order[]> {
-    return Array.from(this.orders.values())
-      .filter(order => order.status === status)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  /**
+   * What the customer paid for `quantity` units of the item after the first
+   * `from`: the line's share of the coupon discount comes off and its
+   * exclusive tax is added. Rounding the running share keeps the units of a
+   * line adding up to the line's total.
+   */
+  private chargedAmount(order: Order, item: OrderItem, from: number, quantity: number): number {
+    const itemsTotal = order.items.reduce((sum, line) => sum + line.totalPrice, 0);
+    const discountRatio =
+      itemsTotal > 0 ? (itemsTotal - (order.discountAmount ?? 0)) / itemsTotal : 1;
+    const exclusiveTax = (order.taxLines ?? [])
+      .filter(line => !line.inclusive && line.orderItemId === item.id)
+      .reduce((sum, line) => sum + line.amount, 0);
+    const lineTotal = item.totalPrice * discountRatio + exclusiveTax;
+
+    const share = (units: number) =>
+      roundMoney((lineTotal * units) / item.quantity, order.currency);
+    return roundMoney(share(from + quantity) - share(from), order.currency);
+  }
+
+  /**
+   * Releases stock held past its expiry and cancels the orders whose payment
+   * never completed. Payments still in flight are checked with the gateway
+   * first, so an order paid at the last moment completes instead. Returns the
+   * number of orders cancelled.
+   */
+  async releaseExpiredReservations(now: Date = new Date()): Promise<number> {
+    const expired = await this.reservations.findExpired(now);
+    let cancelled = 0;
+
+    for (const orderId of new Set(expired.map(reservation => reservation.orderId))) {
+      const order = await this.repository.findById(orderId);
+      if (order && (await this.confirmPayment(order))) {
+        continue;
+      }
+
+      await this.reservations.releaseExpired(now, orderId);
+      if (!order || !this.stateMachine.canTransition(order.status, OrderStatus.CANCELLED)) {
+        continue;
+      }
+
+      if (
+        await this.cancelOrder(
+          orderId,
+          'Payment not completed before the stock reservation expired',
+          'system'
+        )
+      ) {
+        cancelled++;
+      }
+    }
+
+    return cancelled;
+  }
+
+  startReservationSweeper(intervalMs: number = ORDER_CONFIG.RESERVATION_SWEEP_INTERVAL): void {
+    if (this.reservationSweepInterval) {
+      return;
+    }
+
+    this.reservationSweepInterval = setInterval(() => {
+      this.releaseExpiredReservations().catch(error => {
+        console.error('Stock reservation sweep failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  stopReservationSweeper(): void {
+    if (this.reservationSweepInterval) {
+      clearInterval(this.reservationSweepInterval);
+      this.reservationSweepInterval = null;
+    }
+  }
+
+  async getOrdersByStatus(
+    status: OrderStatus | OrderStatus[],
+    options: Omit<OrderQuery, 'status'> = {}
+  ): Promise<PaginatedResponse<Order>> {
+    return this.repository.findMany({ ...options, status });
   }
 
   async getAllOrders(): Promise<Order[]> {
-    return Array.from(this.orders.values()).sort(
-      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
-    );
+    const result = await this.repository.findMany();
+    return result.items;
   }
 
   async getOrderStats(): Promise<OrderStats> {
-    const orders = Array.from(this.orders.values());
+    const orders = await this.getAllOrders();
 
     const stats: OrderStats = {
       total: orders.length,
@@ -207,6 +662,7 @@ export class OrderService {
         [OrderStatus.COMPLETED]: 0,
         [OrderStatus.FAILED]: 0,
         [OrderStatus.CANCELLED]: 0,
+        [OrderStatus.PARTIALLY_REFUNDED]: 0,
         [OrderStatus.REFUNDED]: 0,
       },
       totalRevenue: 0,
@@ -227,14 +683,23 @@ export class OrderService {
     return stats;
   }
 
-  private async buildOrderItems(itemRequests: CreateOrderItemRequest[]): Promise<OrderItem[]> {
+  /**
+   * Prices each line in the order currency. Products listed in another
+   * currency are converted at a rate locked once per currency for the order.
+   */
+  private async buildOrderItems(
+    itemRequests: CreateOrderItemRequest[],
+    currency: string
+  ): Promise<{ items: OrderItem[]; exchangeRates: ExchangeRateSnapshot[] }> {
     const orderItems: OrderItem[] = [];
+    const exchangeRates = new Map<string, ExchangeRateSnapshot>();
 
     for (const itemRequest of itemRequests) {
-      const product = await this.getProduct(itemRequest.productId);
-      if (!product) {
+      const listed = await this.getProduct(itemRequest.productId);
+      if (!listed) {
         throw new Error(`Product not found: ${itemRequest.productId}`);
       }
+      const product = this.bundles.isBundle(listed) ? await this.bundles.resolve(listed) : listed;
 
       if (!product.isActive) {
         throw new Error(`Product is not active: ${product.name}`);
@@ -244,8 +709,17 @@ export class OrderService {
         throw new Error(`Insufficient stock for product: ${product.name}`);
       }
 
-      const unitPrice = product.price;
-      const totalPrice = unitPrice * itemRequest.quantity;
+      const listedCurrency = (product.currency || currency).toUpperCase();
+      let exchangeRate = exchangeRates.get(listedCurrency);
+      if (!exchangeRate && listedCurrency !== currency) {
+        exchangeRate = await this.currency.lockRate(listedCurrency, currency);
+        exchangeRates.set(listedCurrency, exchangeRate);
+      }
+
+      const unitPrice = exchangeRate
+        ? roundMoney(product.price * exchangeRate.rate, currency)
+        : product.price;
+      const totalPrice = roundMoney(unitPrice * itemRequest.quantity, currency);
 
       const orderItem: OrderItem = {
         id: this.generateOrderItemId(),
@@ -261,11 +735,47 @@ export class OrderService {
       orderItems.push(orderItem);
     }
 
-    return orderItems;
+    return { items: orderItems, exchangeRates: Array.from(exchangeRates.values()) };
   }
 
-  private calculateTotalAmount(items: OrderItem[]): number {
-    return items.reduce((total, item) => total + item.totalPrice, 0);
+  /**
+   * Redeems the request's coupon codes against the order before it is saved.
+   * First-order-only promotions count the customer's completed orders.
+   */
+  private async redeemCoupons(
+    orderId: string,
+    request: CreateOrderRequest,
+    items: OrderItem[],
+    currency: string
+  ): Promise<PromotionEvaluation | null> {
+    if (!request.couponCodes || request.couponCodes.length === 0) {
+      return null;
+    }
+
+    const previousOrders = await this.repository.findMany({
+      userId: request.userId,
+      status: [OrderStatus.COMPLETED, OrderStatus.PARTIALLY_REFUNDED, OrderStatus.REFUNDED],
+      pageSize: 1,
+    });
+
+    return this.promotions.redeem(orderId, request.couponCodes, {
+      userId: request.userId,
+      currency,
+      items: items.map(item => ({
+        productId: item.productId,
+        category: item.product.category,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+      })),
+      previousOrders: previousOrders.total,
+    });
+  }
+
+  private calculateTotalAmount(items: OrderItem[], currency: string): number {
+    return roundMoney(
+      items.reduce((total, item) => total + item.totalPrice, 0),
+      currency
+    );
   }
 
   private validateOrderRequest(request: CreateOrderRequest): void {
@@ -288,10 +798,47 @@ export class OrderService {
     }
   }
 
-  private addToUserOrders(userId: string, orderId: string): void {
-    const userOrders = this.ordersByUser.get(userId) || [];
-    userOrders.push(orderId);
-    this.ordersByUser.set(userId, userOrders);
+  /**
+   * Reserves stock for stock-tracked products. Bundles hold no stock of their
+   * own, so their components are reserved instead.
+   */
+  private async reserveStock(order: Order): Promise<void> {
+    const quantities = new Map<string, number>();
+    const names = new Map<string, string>();
+    const hold = (product: Product, quantity: number, name: string) => {
+      if (product.stock === undefined) return;
+      quantities.set(product.id, (quantities.get(product.id) ?? 0) + quantity);
+      names.set(product.id, name);
+    };
+
+    for (const item of order.items) {
+      if (!this.bundles.isBundle(item.product)) {
+        hold(item.product, item.quantity, item.product.name);
+        continue;
+      }
+      for (const component of await this.bundles.getComponents(item.product)) {
+        hold(component.product, component.quantity * item.quantity, item.product.name);
+      }
+    }
+
+    if (quantities.size === 0) {
+      return;
+    }
+
+    try {
+      await this.reservations.reserve({
+        orderId: order.id,
+        userId: order.userId,
+        items: Array.from(quantities, ([productId, quantity]) => ({ productId, quantity })),
+      });
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        throw new Error(
+          `Insufficient stock for product: ${names.get(error.productId) ?? error.productId}`
+        );
+      }
+      throw error;
+    }
   }
 
   private async getProduct(productId: string): Promise<Product | null> {
@@ -320,61 +867,442 @@ export class OrderService {
   }
 
   private setupEventListeners(): void {
-    globalEventEmitter.on(PAYMENT_EVENTS.PAYMENT_COMPLETED, async data => {
-      const { payment } = data;
+    const paymentStatusEvents: Array<[string, OrderStatus, string]> = [
+      [PAYMENT_EVENTS.PAYMENT_INITIATED, OrderStatus.PROCESSING, 'Payment initiated'],
+      [PAYMENT_EVENTS.PAYMENT_COMPLETED, OrderStatus.COMPLETED, 'Payment completed'],
+      [PAYMENT_EVENTS.PAYMENT_FAILED, OrderStatus.FAILED, 'Payment failed'],
+      [PAYMENT_EVENTS.PAYMENT_CANCELLED, OrderStatus.CANCELLED, 'Payment cancelled'],
+    ];
+
+    for (const [event, status, reason] of paymentStatusEvents) {
+      globalEventEmitter.on(event, async data => {
+        const { payment } = data;
+        if (!payment.orderId) {
+          return;
+        }
+
+        if (status === OrderStatus.COMPLETED && (await this.refundCancelledOrderPayment(payment))) {
+          return;
+        }
+
+        try {
+          await this.updateOrderStatus(payment.orderId, status, {
+            reason,
+            metadata: { paymentId: payment.id },
+          });
+        } catch (error) {
+          console.error(`Ignoring ${event} for order ${payment.orderId}:`, error);
+        }
+      });
+    }
+
+    globalEventEmitter.on(PAYMENT_EVENTS.PAYMENT_REFUNDED, async data => {
+      const { payment, refund } = data;
       if (payment.orderId) {
-        await this.updateOrderStatus(payment.orderId, OrderStatus.COMPLETED);
+        await this.applyRefund(payment, refund);
       }
     });
+  }
 
-    globalEventEmitter.on(PAYMENT_EVENTS.PAYMENT_FAILED, async data => {
-      const { payment } = data;
-      if (payment.orderId) {
-        await this.updateOrderStatus(payment.orderId, OrderStatus.FAILED);
-      }
+  // Syncs a pending payment with its gateway; true once the payment has completed
+  private async confirmPayment(order: Order): Promise<boolean> {
+    const payment = await this.findOrderPayment(order);
+    if (!payment) {
+      return false;
+    }
+
+    if (payment.status === PaymentStatus.PENDING || payment.status === PaymentStatus.PROCESSING) {
+      return (await this.payments.syncPaymentStatus(payment.id)) === PaymentStatus.COMPLETED;
+    }
+    return payment.status === PaymentStatus.COMPLETED;
+  }
+
+  /**
+   * A payment that completes after its order was cancelled, e.g. because the
+   * gateway confirmed it only after the reservation expired, is refunded in
+   * full. Returns whether the order was cancelled.
+   */
+  private async refundCancelledOrderPayment(payment: Payment): Promise<boolean> {
+    const order = await this.repository.findById(payment.orderId);
+    if (order?.status !== OrderStatus.CANCELLED) {
+      return false;
+    }
+
+    const result = await this.payments.createRefund({
+      paymentId: payment.id,
+      reason: 'Order was cancelled before the payment completed',
     });
+    if (!result.success) {
+      console.error(
+        `Failed to refund payment ${payment.id} of cancelled order ${order.id}:`,
+        result.error
+      );
+    }
+    return true;
+  }
 
-    globalEventEmitter.on(PAYMENT_EVENTS.PAYMENT_CANCELLED, async data => {
-      const { payment } = data;
-      if (payment.orderId) {
-        await this.updateOrderStatus(payment.orderId, OrderStatus.CANCELLED);
+  private async findOrderPayment(order: Order): Promise<Payment | null> {
+    if (!order.paymentId) {
+      return null;
+    }
+
+    return (
+      (await this.payments.getPayment(order.paymentId)) ||
+      (await this.payments.getPaymentByGatewayTransactionId(order.paymentId))
+    );
+  }
+
+  private async applyRefund(payment: Payment, refund?: Refund): Promise<void> {
+    const order = await this.repository.findById(payment.orderId);
+    if (!order) {
+      return;
+    }
+
+    const fullyRefunded = payment.status === PaymentStatus.REFUNDED;
+    const target = fullyRefunded ? OrderStatus.REFUNDED : OrderStatus.PARTIALLY_REFUNDED;
+    const oldStatus = order.status;
+
+    if (oldStatus !== target && !this.stateMachine.canTransition(oldStatus, target)) {
+      console.error(`Ignoring refund for order ${order.id} in status ${oldStatus}`);
+      return;
+    }
+
+    // Items this refund covers: those it lists, and any a refund of the whole
+    // payment moves to REFUNDED. An item refunded again keeps its status but
+    // still has codes to revoke and a plugin to notify.
+    const listed = new Set(refund?.items.map(item => item.orderItemId));
+    const refundedItems: OrderItem[] = [];
+    const refundedQuantities = new Map<string, number>();
+    for (const item of order.items) {
+      const refundedQuantity = fullyRefunded
+        ? item.quantity
+        : await this.payments.getRefundedQuantity(payment.id, item.id);
+      refundedQuantities.set(item.id, refundedQuantity);
+      const itemStatus =
+        refundedQuantity >= item.quantity
+          ? OrderStatus.REFUNDED
+          : refundedQuantity > 0
+            ? OrderStatus.PARTIALLY_REFUNDED
+            : item.status;
+
+      if (itemStatus !== item.status || listed.has(item.id)) {
+        item.status = itemStatus;
+        refundedItems.push(item);
       }
-    });
+    }
 
-    globalEventEmitter.on(PAYMENT_EVENTS.PAYMENT_REFUNDED, async data => {
-      const { payment } = data;
-      if (payment.orderId) {
-        await this.updateOrderStatus(payment.orderId, OrderStatus.REFUNDED);
+    if (oldStatus !== target) {
+      this.stateMachine.transition(order, target, {
+        reason: refund?.reason || 'Payment refunded',
+        metadata: {
+          paymentId: payment.id,
+          ...(refund && { refundId: refund.id, refundAmount: refund.amount }),
+        },
+      });
+    } else {
+      order.updatedAt = new Date();
+    }
+
+    await this.repository.save(order);
+
+    if (oldStatus !== target) {
+      await this.handleOrderStatusChange(order, oldStatus);
+    }
+
+    for (const item of refundedItems) {
+      try {
+        await this.codes.revokeForRefund(
+          item.id,
+          item.quantity - (refundedQuantities.get(item.id) ?? 0),
+          refund?.reason || 'Payment refunded'
+        );
+      } catch (error) {
+        console.error(`Failed to revoke codes for refunded item ${item.id}:`, error);
       }
-    });
+
+      const products = this.bundles.isBundle(item.product)
+        ? (await this.bundles.getComponents(item.product)).map(component => component.product)
+        : [item.product];
+      for (const product of products) {
+        await this.plugins.notifyRefundProcessed(
+          product.pluginId,
+          this.createPluginContext(order, product, { ...(refund && { refund }) })
+        );
+      }
+    }
   }
 
-  private async handleOrderStatusChange(order: Order, oldStatus: OrderStatus): Promise<void> {
-    console.log(`Order ${order.id} status changed from ${oldStatus} to ${order.status}`);
+  private createPluginContext(
+    order: Order,
+    product: Product,
+    extra: Partial<Pick<PluginContext, 'config' | 'refund'>> = {}
+  ): PluginContext {
+    return {
+      order,
+      product,
+      user: {
+        id: order.userId,
+        telegramId: Number(order.userId) || 0,
+        createdAt: order.createdAt,
+        updatedAt: order.updatedAt,
+      },
+      config: {},
+      logger: new Logger(`Plugin:${product.pluginId}`),
+      ...extra,
+    };
+  }
 
+  private async handleOrderStatusChange(order: Order, oldStatus: OrderStatus): Promise<void> {
     switch (order.status) {
       case OrderStatus.COMPLETED:
         await this.processCompletedOrder(order);
+        await globalEventEmitter.emit(EVENTS.ORDER_COMPLETED, { order, oldStatus });
         break;
+      // Failed orders keep their reservation so the payment can be retried;
+      // the sweeper releases it once it expires
       case OrderStatus.FAILED:
-        await this.processFailedOrder(order);
+        await globalEventEmitter.emit(EVENTS.ORDER_FAILED, { order, oldStatus });
         break;
       case OrderStatus.CANCELLED:
         await this.processCancelledOrder(order);
+        await globalEventEmitter.emit(EVENTS.ORDER_CANCELLED, { order, oldStatus });
         break;
     }
   }
 
   private async processCompletedOrder(order: Order): Promise<void> {
-    console.log(`Processing completed order: ${order.id}`);
+    try {
+      await this.reservations.commit(order.id);
+    } catch (error) {
+      console.error(`Failed to commit reserved stock for order ${order.id}:`, error);
+    }
+
+    await this.allocateCodes(order);
+
+    try {
+      await this.issueInvoice(order);
+    } catch (error) {
+      // getInvoice retries issuing when the invoice is first requested
+      console.error(`Failed to issue invoice for order ${order.id}:`, error);
+    }
+
+    // Last, as the queue's first attempts update and save the order themselves
+    await this.enqueueDeliveries(order);
+  }
+
+  private async enqueueDeliveries(order: Order): Promise<void> {
+    // Renewals extend the existing account through the subscription service
+    if (order.metadata?.subscriptionId) {
+      return;
+    }
+
+    try {
+      if ((await this.fulfilment.getJobsForOrder(order.id)).length > 0) {
+        return;
+      }
+
+      await this.fulfilment.enqueue(
+        order.items.map(item => ({
+          orderId: order.id,
+          orderItemId: item.id,
+          productId: item.productId,
+          pluginId: item.product.pluginId,
+        }))
+      );
+    } catch (error) {
+      console.error(`Failed to queue deliveries for order ${order.id}:`, error);
+    }
+  }
+
+  /**
+   * One delivery attempt for a queued order item. Bundles deliver whichever
+   * components are still outstanding and count as delivered once all are.
+   */
+  private async runDeliveryJob(job: DeliveryJob): Promise<DeliveryResult> {
+    const order = await this.repository.findById(job.orderId);
+    const item = order?.items.find(candidate => candidate.id === job.orderItemId);
+    if (!order || !item) {
+      return { success: false, error: 'Order item not found', retryable: false };
+    }
+
+    if (this.bundles.isBundle(item.product)) {
+      const delivery = await this.deliverBundleItem(order, item);
+      order.updatedAt = new Date();
+      await this.repository.save(order);
+
+      const failed = delivery.components.filter(component => !component.delivered);
+      return failed.length === 0
+        ? { success: true }
+        : {
+            success: false,
+            error: failed.map(component => `${component.productId}: ${component.error}`).join('; '),
+            retryable: failed.every(component => component.retryable !== false),
+          };
+    }
+
+    const result = await this.delivery.executePlugin(
+      item.product.pluginId,
+      this.createPluginContext(order, item.product, { config: { quantity: item.quantity } })
+    );
+    if (result.success && result.deliveryData) {
+      item.deliveryData = { ...item.deliveryData, ...result.deliveryData };
+      order.updatedAt = new Date();
+      await this.repository.save(order);
+    }
+    return result;
   }
 
-  private async processFailedOrder(order: Order): Promise<void> {
-    console.log(`Processing failed order: ${order.id}`);
+  private async recordDeliveryStatus(job: DeliveryJob): Promise<void> {
+    const order = await this.repository.findById(job.orderId);
+    const item = order?.items.find(candidate => candidate.id === job.orderItemId);
+    const deliveryStatus: OrderItemDeliveryStatus =
+      job.status === 'dead_letter' ? 'failed' : job.status;
+    if (!order || !item || item.deliveryStatus === deliveryStatus) {
+      return;
+    }
+
+    item.deliveryStatus = deliveryStatus;
+    order.updatedAt = new Date();
+    await this.repository.save(order);
+    await globalEventEmitter.emit(EVENTS.ORDER_UPDATED, { order });
+  }
+
+  /** Hands out pool codes for code-backed items and notes their ids for delivery */
+  private async allocateCodes(order: Order): Promise<void> {
+    let allocated = false;
+
+    for (const item of order.items) {
+      try {
+        if (!(await this.codes.hasPool(item.productId))) continue;
+
+        const codes = await this.codes.allocate(order.id, item.id, item.productId, item.quantity);
+        item.deliveryData = { ...item.deliveryData, codeIds: codes.map(code => code.id) };
+        allocated = true;
+      } catch (error) {
+        console.error(`Failed to allocate codes for order item ${item.id}:`, error);
+      }
+    }
+
+    if (allocated) {
+      await this.repository.save(order);
+    }
+  }
+
+  /** Delivers the outstanding components of every bundle item in the order */
+  private async deliverBundles(order: Order): Promise<Record<string, BundleDelivery>> {
+    const deliveries: Record<string, BundleDelivery> = {};
+
+    for (const item of order.items) {
+      if (!this.bundles.isBundle(item.product)) continue;
+
+      try {
+        deliveries[item.id] = await this.deliverBundleItem(order, item);
+      } catch (error) {
+        console.error(`Failed to resolve bundle components for order item ${item.id}:`, error);
+      }
+    }
+
+    if (Object.keys(deliveries).length > 0) {
+      order.updatedAt = new Date();
+      await this.repository.save(order);
+    }
+    return deliveries;
+  }
+
+  /**
+   * Fans a bundle item out to the plugins of its components. A failing
+   * component does not stop the others; the outcome of each is kept in the
+   * item's `deliveryData.bundle` and delivered components are never re-run.
+   */
+  private async deliverBundleItem(order: Order, item: OrderItem): Promise<BundleDelivery> {
+    const previous = (item.deliveryData?.bundle as BundleDelivery | undefined)?.components ?? [];
+    const components: BundleComponentDelivery[] = [];
+    for (const component of await this.bundles.getComponents(item.product)) {
+      const done = previous.find(
+        delivery => delivery.productId === component.product.id && delivery.delivered
+      );
+      components.push(
+        done ??
+          (await this.deliverComponent(
+            order,
+            component.product,
+            component.quantity * item.quantity,
+            previous.find(delivery => delivery.productId === component.product.id)?.attempts ?? 0
+          ))
+      );
+    }
+
+    const delivered = components.filter(component => component.delivered).length;
+    const delivery: BundleDelivery = {
+      status: delivered === components.length ? 'delivered' : delivered > 0 ? 'partial' : 'failed',
+      components,
+    };
+    if (delivery.status !== 'delivered') {
+      console.error(
+        `Bundle delivery ${delivery.status} for order item ${item.id}:`,
+        components.filter(component => !component.delivered).map(component => component.error)
+      );
+    }
+
+    item.deliveryData = { ...item.deliveryData, bundle: delivery };
+    return delivery;
+  }
+
+  private async deliverComponent(
+    order: Order,
+    product: Product,
+    quantity: number,
+    previousAttempts: number
+  ): Promise<BundleComponentDelivery> {
+    const delivery: BundleComponentDelivery = {
+      productId: product.id,
+      pluginId: product.pluginId,
+      quantity,
+      delivered: false,
+      attempts: previousAttempts + 1,
+      lastAttemptAt: new Date().toISOString(),
+    };
+
+    try {
+      const result = await this.delivery.executePlugin(
+        product.pluginId,
+        this.createPluginContext(order, product, { config: { quantity } })
+      );
+      delivery.delivered = result.success;
+      if (result.deliveryData) delivery.deliveryData = result.deliveryData;
+      if (!result.success) {
+        delivery.error = result.error || 'Delivery failed';
+        delivery.retryable = result.retryable ?? true;
+      }
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : 'Delivery failed';
+      delivery.retryable = true;
+    }
+
+    return delivery;
+  }
+
+  private async issueInvoice(order: Order): Promise<void> {
+    if (order.invoiceNumber) {
+      return;
+    }
+
+    const invoicedAt = new Date();
+    order.invoiceNumber = await this.invoices.nextInvoiceNumber(invoicedAt);
+    order.invoicedAt = invoicedAt;
+    await this.repository.save(order);
   }
 
   private async processCancelledOrder(order: Order): Promise<void> {
-    console.log(`Processing cancelled order: ${order.id}`);
+    try {
+      const lastChange = order.statusHistory[order.statusHistory.length - 1];
+      await this.reservations.release(order.id, lastChange?.reason || 'Order cancelled');
+    } catch (error) {
+      console.error(`Failed to release reserved stock for order ${order.id}:`, error);
+    }
+
+    // Coupons of a cancelled order can be used again
+    this.promotions.reverse(order.id);
   }
 }
 
@@ -0,0 +1,79 @@
+import type { Order, OrderStatusChange } from '../../types';
+import { OrderStatus } from '../../types';
+import { InvalidOrderTransitionError } from './OrderErrors';
+
+export type OrderTransitionTable = Readonly<Record<OrderStatus, readonly OrderStatus[]>>;
+
+export const ORDER_STATUS_TRANSITIONS: OrderTransitionTable = {
+  [OrderStatus.PENDING]: [OrderStatus.PROCESSING, OrderStatus.FAILED, OrderStatus.CANCELLED],
+  [OrderStatus.PROCESSING]: [OrderStatus.COMPLETED, OrderStatus.FAILED, OrderStatus.CANCELLED],
+  [OrderStatus.COMPLETED]: [OrderStatus.PARTIALLY_REFUNDED, OrderStatus.REFUNDED],
+  // A failed payment can be retried from the same order
+  [OrderStatus.FAILED]: [OrderStatus.PENDING, OrderStatus.CANCELLED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.PARTIALLY_REFUNDED]: [OrderStatus.REFUNDED],
+  [OrderStatus.REFUNDED]: [],
+};
+
+export const SYSTEM_ACTOR = 'system';
+
+export interface OrderTransitionOptions {
+  changedBy?: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+export class OrderStateMachine {
+  constructor(private readonly transitions: OrderTransitionTable = ORDER_STATUS_TRANSITIONS) {}
+
+  canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return this.transitions[from].includes(to);
+  }
+
+  getAllowedTransitions(from: OrderStatus): readonly OrderStatus[] {
+    return this.transitions[from];
+  }
+
+  isTerminal(status: OrderStatus): boolean {
+    return this.transitions[status].length === 0;
+  }
+
+  /**
+   * Moves the order to `to` and appends the change to its status history.
+   * Throws InvalidOrderTransitionError when the table does not allow it.
+   */
+  transition(
+    order: Order,
+    to: OrderStatus,
+    options: OrderTransitionOptions = {}
+  ): OrderStatusChange {
+    if (!this.canTransition(order.status, to)) {
+      throw new InvalidOrderTransitionError(order.id, order.status, to);
+    }
+
+    const change = createStatusChange(order.status, to, options);
+
+    order.status = to;
+    order.updatedAt = change.changedAt;
+    order.statusHistory = [...order.statusHistory, change];
+
+    return change;
+  }
+}
+
+export function createStatusChange(
+  from: OrderStatus | null,
+  to: OrderStatus,
+  options: OrderTransitionOptions = {}
+): OrderStatusChange {
+  return {
+    from,
+    to,
+    changedBy: options.changedBy || SYSTEM_ACTOR,
+    changedAt: new Date(),
+    ...(options.reason && { reason: options.reason }),
+    ...(options.metadata && { metadata: options.metadata }),
+  };
+}
+
+export const orderStateMachine = new OrderStateMachine();
@@ -0,0 +1,397 @@
+import type {
+  AppliedPromotion,
+  ExchangeRateSnapshot,
+  Order,
+  OrderItem,
+  OrderItemDeliveryStatus,
+  OrderStatus,
+  OrderStatusChange,
+  PaginatedResponse,
+  Product,
+  TaxLine,
+} from '../../types';
+import type { OrderQuery, OrderRepository } from './OrderRepository';
+import { resolvePage, toPaginatedResponse } from './OrderRepository';
+
+export interface SqlQueryResult<Row> {
+  rows: Row[];
+}
+
+/**
+ * The subset of a `pg` client this repository needs. Queries use `$n`
+ * placeholders and only portable SQL, so SQLite drivers can be adapted too.
+ */
+export interface SqlClient {
+  query<Row = any>(text: string, params?: unknown[]): Promise<SqlQueryResult<Row>>;
+}
+
+export type SqlTransactionRunner = <T>(callback: (client: SqlClient) => Promise<T>) => Promise<T>;
+
+interface OrderRow {
+  order_number: string;
+  customer_ref: string;
+  status: OrderStatus;
+  total_amount: number | string;
+  currency: string;
+  payment_method: string | null;
+  payment_reference: string | null;
+  delivery_data: unknown;
+  notes: string | null;
+  metadata: unknown;
+  exchange_rates: unknown;
+  tax_amount: number | string | null;
+  tax_lines: unknown;
+  discount_amount: number | string | null;
+  applied_promotions: unknown;
+  invoice_number: string | null;
+  invoiced_at: Date | string | null;
+  created_at: Date | string;
+  updated_at: Date | string;
+  completed_at: Date | string | null;
+}
+
+interface OrderItemRow {
+  order_number: string;
+  item_ref: string;
+  product_id: string;
+  product_snapshot: unknown;
+  quantity: number | string;
+  unit_price: number | string;
+  total_price: number | string;
+  status: OrderStatus;
+  delivery_data: unknown;
+  delivery_status: OrderItemDeliveryStatus | null;
+}
+
+interface StatusHistoryRow {
+  order_number: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  changed_by: string;
+  reason: string | null;
+  metadata: unknown;
+  changed_at: Date | string;
+}
+
+const ORDER_COLUMNS = `o.order_number, o.customer_ref, o.status, o.total_amount, o.currency,
+  o.payment_method, o.payment_reference, o.delivery_data, o.notes, o.metadata,
+  o.exchange_rates, o.tax_amount, o.tax_lines, o.discount_amount, o.applied_promotions,
+  o.invoice_number, o.invoiced_at, o.created_at, o.updated_at, o.completed_at`;
+
+/**
+ * Order storage on the `orders`/`order_items` tables (see
+ * database/migrations/002_store_orders.sql) plus the append-only
+ * `order_status_history`. Store order ids live in `order_number` and store
+ * user ids in `customer_ref`.
+ */
+export class SqlOrderRepository implements OrderRepository {
+  constructor(
+    private readonly client: SqlClient,
+    private readonly transaction: SqlTransactionRunner = callback => callback(client)
+  ) {}
+
+  async save(order: Order): Promise<void> {
+    await this.transaction(async tx => {
+      await tx.query(
+        `INSERT INTO orders (order_number, customer_ref, status, total_amount, currency,
+           payment_method, payment_reference, delivery_data, notes, metadata,
+           exchange_rates, tax_amount, tax_lines, discount_amount, applied_promotions,
+           invoice_number, invoiced_at, created_at, updated_at, completed_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17,
+           $18, $19, $20)
+         ON CONFLICT (order_number) DO UPDATE SET
+           status = EXCLUDED.status,
+           total_amount = EXCLUDED.total_amount,
+           currency = EXCLUDED.currency,
+           payment_method = EXCLUDED.payment_method,
+           payment_reference = EXCLUDED.payment_reference,
+           delivery_data = EXCLUDED.delivery_data,
+           notes = EXCLUDED.notes,
+           metadata = EXCLUDED.metadata,
+           exchange_rates = EXCLUDED.exchange_rates,
+           tax_amount = EXCLUDED.tax_amount,
+           tax_lines = EXCLUDED.tax_lines,
+           discount_amount = EXCLUDED.discount_amount,
+           applied_promotions = EXCLUDED.applied_promotions,
+           invoice_number = EXCLUDED.invoice_number,
+           invoiced_at = EXCLUDED.invoiced_at,
+           updated_at = EXCLUDED.updated_at,
+           completed_at = EXCLUDED.completed_at`,
+        [
+          order.id,
+          order.userId,
+          order.status,
+          order.totalAmount,
+          order.currency,
+          order.paymentMethod ?? null,
+          order.paymentId ?? null,
+          toJson(order.deliveryData),
+          order.notes ?? null,
+          JSON.stringify(order.metadata || {}),
+          toJson(order.exchangeRates),
+          order.taxAmount ?? 0,
+          toJson(order.taxLines),
+          order.discountAmount ?? 0,
+          toJson(order.promotions),
+          order.invoiceNumber ?? null,
+          order.invoicedAt ? order.invoicedAt.toISOString() : null,
+          order.createdAt.toISOString(),
+          order.updatedAt.toISOString(),
+          order.completedAt ? order.completedAt.toISOString() : null,
+        ]
+      );
+
+      await tx.query(
+        `DELETE FROM order_items
+         WHERE order_id = (SELECT id FROM orders WHERE order_number = $1)`,
+        [order.id]
+      );
+
+      for (const [index, item] of order.items.entries()) {
+        await tx.query(
+          `INSERT INTO order_items (order_id, line_number, item_ref, product_id, product_snapshot,
+             quantity, unit_price, total_price, status, delivery_data, delivery_status)
+           SELECT id, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11 FROM orders WHERE order_number = $1`,
+          [
+            order.id,
+            index,
+            item.id,
+            item.productId,
+            JSON.stringify(item.product),
+            item.quantity,
+            item.unitPrice,
+            item.totalPrice,
+            item.status,
+            toJson(item.deliveryData),
+            item.deliveryStatus ?? null,
+          ]
+        );
+      }
+
+      const recorded = await tx.query<{ total: number | string }>(
+        `SELECT COUNT(*) AS total FROM order_status_history h
+         JOIN orders o ON o.id = h.order_id WHERE o.order_number = $1`,
+        [order.id]
+      );
+      const recordedCount = Number(recorded.rows[0]?.total ?? 0);
+
+      for (const [sequence, change] of order.statusHistory.entries()) {
+        if (sequence < recordedCount) {
+          continue;
+        }
+
+        await tx.query(
+          `INSERT INTO order_status_history (order_id, sequence, from_status, to_status,
+             changed_by, reason, metadata, changed_at)
+           SELECT id, $2, $3, $4, $5, $6, $7, $8 FROM orders WHERE order_number = $1`,
+          [
+            order.id,
+            sequence,
+            change.from,
+            change.to,
+            change.changedBy,
+            change.reason ?? null,
+            toJson(change.metadata),
+            change.changedAt.toISOString(),
+          ]
+        );
+      }
+    });
+  }
+
+  async findById(orderId: string): Promise<Order | null> {
+    const result = await this.client.query<OrderRow>(
+      `SELECT ${ORDER_COLUMNS} FROM orders o WHERE o.order_number = $1`,
+      [orderId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const [order] = await this.hydrate([row]);
+    return order ?? null;
+  }
+
+  async findMany(query: OrderQuery = {}): Promise<PaginatedResponse<Order>> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.userId !== undefined) {
+      params.push(query.userId);
+      conditions.push(`o.customer_ref = $${params.length}`);
+    }
+
+    if (query.status !== undefined) {
+      const statuses = Array.isArray(query.status) ? query.status : [query.status];
+      if (statuses.length === 0) {
+        conditions.push('1 = 0');
+      } else {
+        const placeholders = statuses.map(status => {
+          params.push(status);
+          return `$${params.length}`;
+        });
+        conditions.push(`o.status IN (${placeholders.join(', ')})`);
+      }
+    }
+
+    if (query.createdFrom) {
+      params.push(query.createdFrom.toISOString());
+      conditions.push(`o.created_at >= $${params.length}`);
+    }
+
+    if (query.createdTo) {
+      params.push(query.createdTo.toISOString());
+      conditions.push(`o.created_at <= $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await this.client.query<{ total: number | string }>(
+      `SELECT COUNT(*) AS total FROM orders o ${where}`,
+      params
+    );
+    const total = Number(countResult.rows[0]?.total ?? 0);
+    const { page, pageSize } = resolvePage(query, total);
+
+    const pageParams = [...params, pageSize, (page - 1) * pageSize];
+    const result = await this.client.query<OrderRow>(
+      `SELECT ${ORDER_COLUMNS} FROM orders o ${where}
+       ORDER BY o.created_at DESC, o.order_number DESC
+       LIMIT $${pageParams.length - 1} OFFSET $${pageParams.length}`,
+      pageParams
+    );
+
+    const orders = await this.hydrate(result.rows);
+    return toPaginatedResponse(orders, total, page, pageSize);
+  }
+
+  private async hydrate(rows: OrderRow[]): Promise<Order[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const orderNumbers = rows.map(row => row.order_number);
+    const placeholders = orderNumbers.map((_, index) => `$${index + 1}`).join(', ');
+    const result = await this.client.query<OrderItemRow>(
+      `SELECT o.order_number, i.item_ref, i.product_id, i.product_snapshot, i.quantity,
+         i.unit_price, i.total_price, i.status, i.delivery_data, i.delivery_status
+       FROM order_items i JOIN orders o ON o.id = i.order_id
+       WHERE o.order_number IN (${placeholders})
+       ORDER BY o.order_number, i.line_number`,
+      orderNumbers
+    );
+    const historyResult = await this.client.query<StatusHistoryRow>(
+      `SELECT o.order_number, h.from_status, h.to_status, h.changed_by, h.reason, h.metadata,
+         h.changed_at
+       FROM order_status_history h JOIN orders o ON o.id = h.order_id
+       WHERE o.order_number IN (${placeholders})
+       ORDER BY o.order_number, h.sequence`,
+      orderNumbers
+    );
+
+    const itemsByOrder = new Map<string, OrderItem[]>();
+    for (const itemRow of result.rows) {
+      const items = itemsByOrder.get(itemRow.order_number) || [];
+      items.push(this.mapItemRow(itemRow));
+      itemsByOrder.set(itemRow.order_number, items);
+    }
+
+    const historyByOrder = new Map<string, OrderStatusChange[]>();
+    for (const historyRow of historyResult.rows) {
+      const history = historyByOrder.get(historyRow.order_number) || [];
+      history.push(this.mapStatusHistoryRow(historyRow));
+      historyByOrder.set(historyRow.order_number, history);
+    }
+
+    return rows.map(row =>
+      this.mapOrderRow(
+        row,
+        itemsByOrder.get(row.order_number) || [],
+        historyByOrder.get(row.order_number) || []
+      )
+    );
+  }
+
+  private mapOrderRow(
+    row: OrderRow,
+    items: OrderItem[],
+    statusHistory: OrderStatusChange[]
+  ): Order {
+    const deliveryData = fromJson<Record<string, any>>(row.delivery_data);
+    const exchangeRates = fromJson<ExchangeRateSnapshot[]>(row.exchange_rates);
+    const taxLines = fromJson<TaxLine[]>(row.tax_lines);
+    const promotions = fromJson<AppliedPromotion[]>(row.applied_promotions);
+
+    return {
+      id: row.order_number,
+      userId: row.customer_ref,
+      items,
+      totalAmount: Number(row.total_amount),
+      currency: row.currency,
+      status: row.status,
+      ...(row.payment_reference && { paymentId: row.payment_reference }),
+      ...(row.payment_method && { paymentMethod: row.payment_method }),
+      ...(deliveryData && { deliveryData }),
+      ...(row.notes && { notes: row.notes }),
+      metadata: fromJson<Record<string, any>>(row.metadata) || {},
+      ...(exchangeRates && {
+        exchangeRates: exchangeRates.map(rate => ({
+          ...rate,
+          asOf: new Date(rate.asOf),
+          lockedAt: new Date(rate.lockedAt),
+        })),
+      }),
+      ...(taxLines && { taxAmount: Number(row.tax_amount ?? 0), taxLines }),
+      ...(promotions && { discountAmount: Number(row.discount_amount ?? 0), promotions }),
+      ...(row.invoice_number && { invoiceNumber: row.invoice_number }),
+      ...(row.invoiced_at && { invoicedAt: new Date(row.invoiced_at) }),
+      statusHistory,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      ...(row.completed_at && { completedAt: new Date(row.completed_at) }),
+    };
+  }
+
+  private mapItemRow(row: OrderItemRow): OrderItem {
+    const deliveryData = fromJson<Record<string, any>>(row.delivery_data);
+
+    return {
+      id: row.item_ref,
+      productId: row.product_id,
+      product: fromJson<Product>(row.product_snapshot) as Product,
+      quantity: Number(row.quantity),
+      unitPrice: Number(row.unit_price),
+      totalPrice: Number(row.total_price),
+      ...(deliveryData && { deliveryData }),
+      status: row.status,
+      ...(row.delivery_status && { deliveryStatus: row.delivery_status }),
+    };
+  }
+
+  private mapStatusHistoryRow(row: StatusHistoryRow): OrderStatusChange {
+    const metadata = fromJson<Record<string, any>>(row.metadata);
+
+    return {
+      from: row.from_status,
+      to: row.to_status,
+      changedBy: row.changed_by,
+      changedAt: new Date(row.changed_at),
+      ...(row.reason && { reason: row.reason }),
+      ...(metadata && { metadata }),
+    };
+  }
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+// JSONB columns come back parsed from pg but as text from SQLite
+function fromJson<T>(value: unknown): T | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+}
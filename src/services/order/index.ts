@@ -1,3 +1,21 @@
 export { OrderService, orderService } from './OrderService';
+export { InMemoryOrderRepository } from './OrderRepository';
+export { SqlOrderRepository } from './SqlOrderRepository';
+export {
+  OrderStateMachine,
+  orderStateMachine,
+  ORDER_STATUS_TRANSITIONS,
+  SYSTEM_ACTOR,
+} from './OrderStateMachine';
+export { OrderError, InvalidOrderTransitionError } from './OrderErrors';
 
-export type { CreateOrderRequest, CreateOrderItemRequest, OrderStats } from './OrderService';
+export type {
+  CreateOrderRequest,
+  CreateOrderItemRequest,
+  OrderStats,
+  OrderListOptions,
+  PaymentInitiationResult,
+} from './OrderService';
+export type { OrderQuery, OrderRepository } from './OrderRepository';
+export type { OrderTransitionOptions, OrderTransitionTable } from './OrderStateMachine';
+export type { SqlClient, SqlQueryResult, SqlTransactionRunner } from './SqlOrderRepository';
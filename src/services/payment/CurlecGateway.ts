@@ -3,6 +3,7 @@ import { PaymentStatus } from '../../types';
 import { env } from '../../core/config/environment';
 import { PAYMENT_CONFIG } from '../../core/constants';
 import { CSRFProtection } from '../../security/CSRFToken';
+import type { PaymentGateway, PaymentWebhookEvent } from './PaymentGateway';
 
 export interface CurlecPaymentRequest {
   amount: number;
@@ -30,23 +31,11 @@ export interface CurlecPaymentResponse {
   createdAt: string;
 }
 
-export interface CurlecWebhookEvent {
-  id: string;
-  type: string;
-  data: {
-    id: string;
-    status: string;
-    amount: number;
-    currency: string;
-    orderId: string;
-    failureReason?: string;
-    metadata?: Record<string, any>;
-  };
-  signature: string;
-  timestamp: string;
-}
+export type CurlecWebhookEvent = PaymentWebhookEvent;
+
+export class CurlecGateway implements PaymentGateway {
+  readonly name = 'curlec';
 
-export class CurlecGateway {
   private readonly baseUrl: string;
   private readonly publicKey: string;
   private readonly webhookSecret: string;
@@ -0,0 +1,154 @@
+import type {
+  StarsInvoice,
+  StarsInvoiceBackend,
+  StarsInvoiceRequest,
+  StarsInvoiceStatus,
+} from './TelegramStarsGateway';
+import type {
+  TonPaymentBackend,
+  TonTransfer,
+  TonTransferRequest,
+  TonTransferStatus,
+} from './TonGateway';
+
+const INVOICE_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * In-process stand-in for the bot API behind Telegram Stars invoices. Invoices
+ * stay pending until a test or the dev UI settles them.
+ */
+export class LocalStarsInvoiceBackend implements StarsInvoiceBackend {
+  private invoices: Map<string, StarsInvoice> = new Map();
+  private sequence = 0;
+
+  async createInvoiceLink(request: StarsInvoiceRequest): Promise<StarsInvoice> {
+    const invoiceId = `stars_inv_${String(++this.sequence).padStart(6, '0')}`;
+    const invoice: StarsInvoice = {
+      invoiceId,
+      invoiceLink: `https://t.me/$${invoiceId}`,
+      amount: request.amount,
+      status: 'pending',
+      expiresAt: new Date(Date.now() + INVOICE_TTL_MS).toISOString(),
+    };
+
+    this.invoices.set(invoiceId, invoice);
+    return { ...invoice };
+  }
+
+  async getInvoice(invoiceId: string): Promise<StarsInvoice | null> {
+    const invoice = this.invoices.get(invoiceId);
+    if (!invoice) {
+      return null;
+    }
+
+    if (invoice.status === 'pending' && new Date(invoice.expiresAt).getTime() < Date.now()) {
+      invoice.status = 'expired';
+    }
+
+    return { ...invoice };
+  }
+
+  async refundStarPayment(invoiceId: string): Promise<boolean> {
+    const invoice = this.invoices.get(invoiceId);
+    if (!invoice || invoice.status !== 'paid') {
+      return false;
+    }
+
+    invoice.status = 'refunded';
+    return true;
+  }
+
+  setInvoiceStatus(invoiceId: string, status: StarsInvoiceStatus): boolean {
+    const invoice = this.invoices.get(invoiceId);
+    if (!invoice) {
+      return false;
+    }
+
+    invoice.status = status;
+    if (status === 'paid') {
+      invoice.telegramPaymentChargeId = `stxchg_${invoiceId}`;
+    }
+    return true;
+  }
+
+  reset(): void {
+    this.invoices.clear();
+    this.sequence = 0;
+  }
+}
+
+/**
+ * In-process stand-in for the merchant wallet watcher behind TON payments.
+ */
+export class LocalTonPaymentBackend implements TonPaymentBackend {
+  private transfers: Map<string, TonTransfer> = new Map();
+  private sequence = 0;
+
+  constructor(private readonly merchantAddress = 'EQ_LOCAL_MERCHANT_WALLET') {}
+
+  async createTransfer(request: TonTransferRequest): Promise<TonTransfer> {
+    const reference = `ton_ref_${String(++this.sequence).padStart(6, '0')}`;
+    const transfer: TonTransfer = {
+      reference,
+      address: this.merchantAddress,
+      amount: request.amount,
+      validUntil: Math.floor((Date.now() + INVOICE_TTL_MS) / 1000),
+      fiatAmount: request.fiatAmount,
+      currency: request.currency,
+      status: 'pending',
+    };
+
+    this.transfers.set(reference, transfer);
+    return { ...transfer };
+  }
+
+  async getTransfer(reference: string): Promise<TonTransfer | null> {
+    const transfer = this.transfers.get(reference);
+    if (!transfer) {
+      return null;
+    }
+
+    if (transfer.status === 'pending' && transfer.validUntil * 1000 < Date.now()) {
+      transfer.status = 'expired';
+    }
+
+    return { ...transfer };
+  }
+
+  async refundTransfer(reference: string, amount?: string): Promise<boolean> {
+    const transfer = this.transfers.get(reference);
+    if (!transfer || transfer.status !== 'confirmed') {
+      return false;
+    }
+
+    if (amount !== undefined && BigInt(amount) > BigInt(transfer.amount)) {
+      return false;
+    }
+
+    if (amount === undefined || amount === transfer.amount) {
+      transfer.status = 'refunded';
+    }
+    return true;
+  }
+
+  setTransferStatus(reference: string, status: TonTransferStatus): boolean {
+    const transfer = this.transfers.get(reference);
+    if (!transfer) {
+      return false;
+    }
+
+    transfer.status = status;
+    if (status === 'confirmed') {
+      transfer.transactionHash = `local_tx_${reference}`;
+    }
+    return true;
+  }
+
+  reset(): void {
+    this.transfers.clear();
+    this.sequence = 0;
+  }
+}
+
+export const localStarsInvoiceBackend = new LocalStarsInvoiceBackend();
+export const localTonPaymentBackend = new LocalTonPaymentBackend();
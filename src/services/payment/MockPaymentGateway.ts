@@ -0,0 +1,184 @@
+import type { PaymentRequest, PaymentResponse } from '../../types';
+import { PaymentStatus } from '../../types';
+import type { PaymentGateway, PaymentWebhookEvent } from './PaymentGateway';
+
+export interface MockGatewayPayment {
+  id: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  refundedAmount: number;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface MockGatewayConfig {
+  name: string;
+  webhookSecret: string;
+  initialStatus: PaymentStatus;
+}
+
+/**
+ * In-process gateway with deterministic ids and signatures. It never touches
+ * the network, so the full payment/webhook/sync flow can be exercised offline.
+ */
+export class MockPaymentGateway implements PaymentGateway {
+  readonly name: string;
+
+  private readonly webhookSecret: string;
+  private readonly initialStatus: PaymentStatus;
+  private payments: Map<string, MockGatewayPayment> = new Map();
+  private sequence = 0;
+  private eventSequence = 0;
+  private nextFailure: string | null = null;
+
+  constructor(config?: Partial<MockGatewayConfig>) {
+    this.name = config?.name || 'mock';
+    this.webhookSecret = config?.webhookSecret || 'mock_webhook_secret';
+    this.initialStatus = config?.initialStatus || PaymentStatus.PENDING;
+  }
+
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    if (this.nextFailure) {
+      const error = this.nextFailure;
+      this.nextFailure = null;
+      return { success: false, error };
+    }
+
+    const id = `${this.name}_pay_${String(++this.sequence).padStart(6, '0')}`;
+    const payment: MockGatewayPayment = {
+      id,
+      orderId: request.orderId,
+      amount: request.amount,
+      currency: request.currency,
+      status: this.initialStatus,
+      refundedAmount: 0,
+      ...(request.metadata && { metadata: request.metadata }),
+      createdAt: new Date(),
+    };
+
+    this.payments.set(id, payment);
+
+    return {
+      success: true,
+      paymentId: id,
+      redirectUrl: `mock://${this.name}/payments/${id}`,
+      metadata: {
+        gateway: this.name,
+      },
+    };
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    const payment = this.payments.get(paymentId);
+    return payment ? payment.status : PaymentStatus.FAILED;
+  }
+
+  async refundPayment(paymentId: string, amount?: number): Promise<boolean> {
+    const payment = this.payments.get(paymentId);
+    if (!payment || payment.status !== PaymentStatus.COMPLETED) {
+      return false;
+    }
+
+    const refundAmount = amount ?? payment.amount - payment.refundedAmount;
+    if (refundAmount <= 0 || payment.refundedAmount + refundAmount > payment.amount) {
+      return false;
+    }
+
+    payment.refundedAmount += refundAmount;
+    if (payment.refundedAmount >= payment.amount) {
+      payment.status = PaymentStatus.REFUNDED;
+    }
+
+    return true;
+  }
+
+  async verifyWebhookSignature(payload: string, signature: string): Promise<boolean> {
+    return this.sign(payload) === signature;
+  }
+
+  parseWebhookEvent(payload: string): PaymentWebhookEvent | null {
+    try {
+      return JSON.parse(payload) as PaymentWebhookEvent;
+    } catch (error) {
+      console.error('Failed to parse webhook event:', error);
+      return null;
+    }
+  }
+
+  // ==========================================================================
+  // Test controls
+  // ==========================================================================
+
+  setPaymentStatus(paymentId: string, status: PaymentStatus): boolean {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      return false;
+    }
+
+    payment.status = status;
+    return true;
+  }
+
+  failNextPayment(reason = 'Mock payment declined'): void {
+    this.nextFailure = reason;
+  }
+
+  getGatewayPayment(paymentId: string): MockGatewayPayment | null {
+    return this.payments.get(paymentId) || null;
+  }
+
+  /**
+   * Builds a signed webhook for a payment this gateway created, in the same
+   * shape a real gateway would post it.
+   */
+  createWebhook(
+    paymentId: string,
+    type: string,
+    failureReason?: string
+  ): { payload: string; signature: string } | null {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      return null;
+    }
+
+    const event: Omit<PaymentWebhookEvent, 'signature'> = {
+      id: `${this.name}_evt_${String(++this.eventSequence).padStart(6, '0')}`,
+      type,
+      data: {
+        id: payment.id,
+        status: type.replace(/^payment\./, ''),
+        amount: payment.amount,
+        currency: payment.currency,
+        orderId: payment.orderId,
+        ...(failureReason && { failureReason }),
+        ...(payment.metadata && { metadata: payment.metadata }),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    const payload = JSON.stringify(event);
+    return { payload, signature: this.sign(payload) };
+  }
+
+  reset(): void {
+    this.payments.clear();
+    this.sequence = 0;
+    this.eventSequence = 0;
+    this.nextFailure = null;
+  }
+
+  private sign(payload: string): string {
+    // FNV-1a over secret + payload: stable across runs and environments.
+    const input = `${this.webhookSecret}.${payload}`;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+  }
+}
+
+export const mockPaymentGateway = new MockPaymentGateway();
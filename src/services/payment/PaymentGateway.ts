@@ -0,0 +1,61 @@
+import type { PaymentMethod, PaymentRequest, PaymentResponse, PaymentStatus } from '../../types';
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: string;
+  data: {
+    id: string;
+    status: string;
+    amount: number;
+    currency: string;
+    orderId: string;
+    /** Charge id assigned on completion, when it differs from the payment id */
+    chargeId?: string;
+    failureReason?: string;
+    metadata?: Record<string, any>;
+  };
+  signature: string;
+  timestamp: string;
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+
+  createPayment(request: PaymentRequest): Promise<PaymentResponse>;
+  getPaymentStatus(paymentId: string): Promise<PaymentStatus>;
+  refundPayment(paymentId: string, amount?: number): Promise<boolean>;
+  verifyWebhookSignature(payload: string, signature: string): Promise<boolean>;
+  parseWebhookEvent(payload: string): PaymentWebhookEvent | null;
+}
+
+export class PaymentGatewayRegistry {
+  private gateways: Map<PaymentMethod, PaymentGateway> = new Map();
+
+  register(method: PaymentMethod, gateway: PaymentGateway): void {
+    if (this.gateways.has(method)) {
+      console.warn(`Replacing payment gateway for method: ${method}`);
+    }
+
+    this.gateways.set(method, gateway);
+  }
+
+  unregister(method: PaymentMethod): boolean {
+    return this.gateways.delete(method);
+  }
+
+  get(method: PaymentMethod): PaymentGateway | null {
+    return this.gateways.get(method) || null;
+  }
+
+  has(method: PaymentMethod): boolean {
+    return this.gateways.has(method);
+  }
+
+  getRegisteredMethods(): PaymentMethod[] {
+    return Array.from(this.gateways.keys());
+  }
+
+  clear(): void {
+    this.gateways.clear();
+  }
+}
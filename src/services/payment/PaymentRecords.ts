@@ -0,0 +1,34 @@
+import type { Payment } from '../../types';
+
+// Lookups over payment records, shared by PaymentService and by scripts that
+// read exported payments without bringing up the payment gateways
+
+/**
+ * The payment a gateway id names. The charge id recorded on completion names
+ * exactly one settled charge, so it is matched before the gateway's payment id.
+ */
+export function findPaymentByGatewayId(payments: Iterable<Payment>, id: string): Payment | null {
+  const records = [...payments];
+  return (
+    records.find(payment => payment.gatewayChargeId === id) ??
+    records.find(payment => payment.gatewayTransactionId === id) ??
+    null
+  );
+}
+
+/** The order's latest payment attempt */
+export function findLatestOrderPayment(
+  payments: Iterable<Payment>,
+  orderId: string
+): Payment | null {
+  let latest: Payment | null = null;
+  for (const payment of payments) {
+    if (
+      payment.orderId === orderId &&
+      (!latest || payment.createdAt.getTime() >= latest.createdAt.getTime())
+    ) {
+      latest = payment;
+    }
+  }
+  return latest;
+}
@@ -1,9 +1,25 @@
-import type { Payment, PaymentRequest, PaymentResponse } from '../../types';
-import { PaymentStatus, PaymentMethod } from '../../types';
-import { CurlecGateway } from './CurlecGateway';
+import type {
+  Payment,
+  PaymentRequest,
+  PaymentResponse,
+  Refund,
+  RefundRequest,
+  RefundResult,
+} from '../../types';
+import { PaymentStatus, PaymentMethod, RefundStatus } from '../../types';
+import { curlecGateway } from './CurlecGateway';
+import { mockPaymentGateway } from './MockPaymentGateway';
+import { HttpStarsInvoiceBackend, TelegramStarsGateway } from './TelegramStarsGateway';
+import { HttpTonPaymentBackend, TonGateway } from './TonGateway';
+import { localStarsInvoiceBackend, localTonPaymentBackend } from './LocalPaymentBackends';
+import { PaymentGatewayRegistry } from './PaymentGateway';
+import type { PaymentGateway } from './PaymentGateway';
+import { InMemoryRefundLedger, fromMinorUnits, toMinorUnits } from './RefundLedger';
+import type { RefundLedger } from './RefundLedger';
+import { findLatestOrderPayment, findPaymentByGatewayId } from './PaymentRecords';
 import { globalEventEmitter } from '../../core/utils/EventEmitter';
 import { PAYMENT_EVENTS } from '../../core/constants';
-import { CSRFProtection } from '../../security/CSRFToken';
+import { env } from '../../core/config/environment';
 
 export interface PaymentServiceConfig {
   enabledMethods: PaymentMethod[];
@@ -11,15 +27,46 @@ export interface PaymentServiceConfig {
   timeoutMs: number;
 }
 
+export const paymentGatewayRegistry = new PaymentGatewayRegistry();
+
+const useLocalBackends = env.isFeatureEnabled('ENABLE_MOCK_PAYMENTS');
+
+paymentGatewayRegistry.register(PaymentMethod.CURLEC, curlecGateway);
+paymentGatewayRegistry.register(
+  PaymentMethod.TELEGRAM_STARS,
+  new TelegramStarsGateway(
+    useLocalBackends ? localStarsInvoiceBackend : new HttpStarsInvoiceBackend()
+  )
+);
+paymentGatewayRegistry.register(
+  PaymentMethod.TON,
+  new TonGateway(useLocalBackends ? localTonPaymentBackend : new HttpTonPaymentBackend())
+);
+
+// Methods without a real gateway yet are served by the mock in mock mode.
+if (useLocalBackends) {
+  for (const method of Object.values(PaymentMethod)) {
+    if (!paymentGatewayRegistry.has(method)) {
+      paymentGatewayRegistry.register(method, mockPaymentGateway);
+    }
+  }
+}
+
 export class PaymentService {
-  private curlecGateway: CurlecGateway;
+  private gateways: PaymentGatewayRegistry;
   private payments: Map<string, Payment> = new Map();
+  private refunds: RefundLedger;
   private config: PaymentServiceConfig;
 
-  constructor(config?: Partial<PaymentServiceConfig>) {
-    this.curlecGateway = new CurlecGateway();
+  constructor(
+    config?: Partial<PaymentServiceConfig>,
+    gateways: PaymentGatewayRegistry = paymentGatewayRegistry,
+    refunds: RefundLedger = new InMemoryRefundLedger()
+  ) {
+    this.gateways = gateways;
+    this.refunds = refunds;
     this.config = {
-      enabledMethods: [PaymentMethod.CURLEC],
+      enabledMethods: [PaymentMethod.CURLEC, PaymentMethod.TELEGRAM_STARS, PaymentMethod.TON],
       defaultCurrency: 'MYR',
       timeoutMs: 60000,
       ...config,
@@ -43,15 +90,7 @@ export class PaymentService {
 
       this.payments.set(payment.id, payment);
 
-      let response: PaymentResponse;
-
-      switch (request.method) {
-        case PaymentMethod.CURLEC:
-          response = await this.curlecGateway.createPayment(request);
-          break;
-        default:
-          throw new Error(`Unsupported payment method: ${request.method}`);
-      }
+      const response = await this.getGateway(request.method).createPayment(request);
 
       if (response.success && response.paymentId) {
         payment.gatewayTransactionId = response.paymentId;
@@ -85,13 +124,25 @@ export class PaymentService {
     return this.payments.get(paymentId) || null;
   }
 
+  /** Matches the charge id recorded on completion, then the gateway's payment id */
+  async getPaymentByGatewayTransactionId(transactionId: string): Promise<Payment | null> {
+    return findPaymentByGatewayId(this.payments.values(), transactionId);
+  }
+
+  /** The order's latest payment attempt */
   async getPaymentByOrderId(orderId: string): Promise<Payment | null> {
-    for (const payment of this.payments.values()) {
-      if (payment.orderId === orderId) {
-        return payment;
-      }
+    return findLatestOrderPayment(this.payments.values(), orderId);
+  }
+
+  async recordGatewayCharge(paymentId: string, chargeId: string): Promise<boolean> {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      return false;
     }
-    return null;
+
+    payment.gatewayChargeId = chargeId;
+    payment.updatedAt = new Date();
+    return true;
   }
 
   async updatePaymentStatus(
@@ -133,16 +184,13 @@ export class PaymentService {
     }
 
     try {
-      let gatewayStatus: PaymentStatus;
-
-      switch (payment.method) {
-        case PaymentMethod.CURLEC:
-          gatewayStatus = await this.curlecGateway.getPaymentStatus(payment.gatewayTransactionId);
-          break;
-        default:
-          return null;
+      const gateway = this.gateways.get(payment.method);
+      if (!gateway) {
+        return null;
       }
 
+      const gatewayStatus = await gateway.getPaymentStatus(payment.gatewayTransactionId);
+
       if (gatewayStatus !== payment.status) {
         await this.updatePaymentStatus(paymentId, gatewayStatus);
       }
@@ -155,44 +203,127 @@ export class PaymentService {
   }
 
   async refundPayment(paymentId: string, amount?: number): Promise<boolean> {
-    const payment = this.payments.get(paymentId);
+    const result = await this.createRefund({
+      paymentId,
+      ...(amount !== undefined && { amount }),
+    });
+    return result.success;
+  }
+
+  /**
+   * Issues a full or partial refund. Refunds accumulate in the ledger and the
+   * payment only becomes REFUNDED once the whole captured amount is returned.
+   */
+  async createRefund(request: RefundRequest): Promise<RefundResult> {
+    const payment = this.payments.get(request.paymentId);
     if (!payment) {
-      console.error(`Payment not found: ${paymentId}`);
-      return false;
+      return { success: false, error: `Payment not found: ${request.paymentId}` };
     }
 
     if (payment.status !== PaymentStatus.COMPLETED) {
-      console.error(`Cannot refund payment with status: ${payment.status}`);
-      return false;
+      return { success: false, error: `Cannot refund payment with status: ${payment.status}` };
     }
 
+    const items = request.items || [];
+    const { currency } = payment;
+    const captured = toMinorUnits(payment.amount, currency);
+    const alreadyRefunded = toMinorUnits(
+      await this.refunds.getRefundedAmount(payment.id),
+      currency
+    );
+    const refundable = captured - alreadyRefunded;
+    const requested =
+      request.amount !== undefined
+        ? toMinorUnits(request.amount, currency)
+        : items.length > 0
+          ? items.reduce((sum, item) => sum + toMinorUnits(item.amount, currency), 0)
+          : refundable;
+
+    if (requested <= 0) {
+      return { success: false, error: 'Refund amount must be greater than zero' };
+    }
+
+    const exceeds = (available: number): RefundResult => ({
+      success: false,
+      error: `Refund of ${fromMinorUnits(requested, currency)} exceeds refundable amount ${fromMinorUnits(available, currency)}`,
+    });
+
+    if (requested > refundable) {
+      return exceeds(refundable);
+    }
+
+    const gateway = this.gateways.get(payment.method);
+    if (!gateway) {
+      return { success: false, error: `Refund not supported for method: ${payment.method}` };
+    }
+
+    const refund: Refund = {
+      id: this.generateRefundId(),
+      paymentId: payment.id,
+      orderId: payment.orderId,
+      amount: fromMinorUnits(requested, currency),
+      currency,
+      ...(request.reason && { reason: request.reason }),
+      status: RefundStatus.PENDING,
+      items,
+      createdAt: new Date(),
+    };
+
+    // The ledger re-checks the balance, as another refund may have been reserved meanwhile
+    if (!(await this.refunds.reserve(refund, payment.amount))) {
+      const latest = toMinorUnits(await this.refunds.getRefundedAmount(payment.id), currency);
+      return exceeds(captured - latest);
+    }
+
+    const isFullRefund = alreadyRefunded === 0 && requested === captured;
+
     try {
-      let success = false;
-
-      switch (payment.method) {
-        case PaymentMethod.CURLEC:
-          success = await this.curlecGateway.refundPayment(payment.gatewayTransactionId!, amount);
-          break;
-        default:
-          throw new Error(`Refund not supported for method: ${payment.method}`);
+      const success = await gateway.refundPayment(
+        payment.gatewayTransactionId!,
+        isFullRefund ? undefined : refund.amount
+      );
+
+      if (!success) {
+        refund.status = RefundStatus.FAILED;
+        await this.refunds.update(refund);
+        return { success: false, refund, error: 'Gateway rejected the refund' };
       }
 
-      if (success) {
-        payment.status = PaymentStatus.REFUNDED;
-        payment.refundAmount = amount || payment.amount;
-        payment.updatedAt = new Date();
-        this.payments.set(paymentId, payment);
+      refund.status = RefundStatus.COMPLETED;
+      refund.processedAt = new Date();
+      await this.refunds.update(refund);
 
-        globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_REFUNDED, { payment });
+      const refundedTotal = await this.refunds.getRefundedAmount(payment.id);
+      payment.refundAmount = refundedTotal;
+      if (toMinorUnits(refundedTotal, currency) === captured) {
+        payment.status = PaymentStatus.REFUNDED;
       }
+      payment.updatedAt = new Date();
+      this.payments.set(payment.id, payment);
 
-      return success;
+      await globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_REFUNDED, { payment, refund });
+
+      return { success: true, refund };
     } catch (error) {
       console.error('Refund failed:', error);
-      return false;
+      refund.status = RefundStatus.FAILED;
+      await this.refunds.update(refund);
+      return {
+        success: false,
+        refund,
+        error: error instanceof Error ? error.message : 'Refund failed',
+      };
     }
   }
 
+  async getRefunds(paymentId: string): Promise<Refund[]> {
+    return this.refunds.getRefunds(paymentId);
+  }
+
+  async getRefundedQuantity(paymentId: string, orderItemId: string): Promise<number> {
+    return this.refunds.getRefundedQuantity(paymentId, orderItemId);
+  }
+
   async getAllPayments(): Promise<Payment[]> {
     return Array.from(this.payments.values()).sort(
       (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
@@ -204,7 +335,19 @@ export class PaymentService {
   }
 
   getEnabledPaymentMethods(): PaymentMethod[] {
-    return [...this.config.enabledMethods];
+    return this.config.enabledMethods.filter(method => this.gateways.has(method));
+  }
+
+  hasGateway(method: PaymentMethod): boolean {
+    return this.gateways.has(method);
+  }
+
+  getGateway(method: PaymentMethod): PaymentGateway {
+    const gateway = this.gateways.get(method);
+    if (!gateway) {
+      throw new Error(`Unsupported payment method: ${method}`);
+    }
+    return gateway;
   }
 
   private validatePaymentRequest(request: PaymentRequest): void {
@@ -223,6 +366,16 @@ export class PaymentService {
     if (!this.config.enabledMethods.includes(request.method)) {
       throw new Error(`Payment method not enabled: ${request.method}`);
     }
+
+    if (!this.gateways.has(request.method)) {
+      throw new Error(`Unsupported payment method: ${request.method}`);
+    }
+  }
+
+  private generateRefundId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substr(2, 5);
+    return `rfd_${timestamp}_${random}`;
   }
 
   private generatePaymentId(): string {
@@ -239,16 +392,16 @@ export class PaymentService {
 
     switch (payment.status) {
       case PaymentStatus.COMPLETED:
-        globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_COMPLETED, eventData);
+        await globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_COMPLETED, eventData);
         break;
       case PaymentStatus.FAILED:
-        globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_FAILED, eventData);
+        await globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_FAILED, eventData);
         break;
       case PaymentStatus.CANCELLED:
-        globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_CANCELLED, eventData);
+        await globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_CANCELLED, eventData);
         break;
       case PaymentStatus.REFUNDED:
-        globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_REFUNDED, eventData);
+        await globalEventEmitter.emit(PAYMENT_EVENTS.PAYMENT_REFUNDED, eventData);
         break;
     }
   }
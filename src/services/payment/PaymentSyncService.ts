@@ -39,8 +39,8 @@ export class PaymentSyncService {
     lastSyncAt: null,
   };
 
-  constructor(config?: Partial<SyncConfig>) {
-    this.paymentService = paymentService;
+  constructor(config?: Partial<SyncConfig>, service: PaymentService = paymentService) {
+    this.paymentService = service;
     this.config = {
       intervalMs: 30000,
       maxRetries: 3,
@@ -115,6 +115,40 @@ export class PaymentSyncService {
     }
   }
 
+  /**
+   * Polls a single payment until the gateway reports a final status. Used for
+   * methods confirmed out-of-band (Stars invoices, TON transfers) where the
+   * client knows the user finished but the gateway may not have settled yet.
+   */
+  async waitForPayment(
+    gatewayTransactionId: string,
+    options: { intervalMs?: number; timeoutMs?: number } = {}
+  ): Promise<PaymentStatus | null> {
+    const intervalMs = options.intervalMs ?? 2000;
+    const deadline = Date.now() + (options.timeoutMs ?? 60000);
+
+    const payment =
+      await this.paymentService.getPaymentByGatewayTransactionId(gatewayTransactionId);
+    if (!payment) {
+      return null;
+    }
+
+    for (;;) {
+      const result = await this.syncPayment(payment.id);
+      const status = result.newStatus ?? result.oldStatus;
+
+      if (result.success && this.isFinalStatus(status)) {
+        return status;
+      }
+
+      if (Date.now() + intervalMs > deadline) {
+        return result.success ? status : null;
+      }
+
+      await this.delay(intervalMs);
+    }
+  }
+
   async performSync(): Promise<SyncResult[]> {
     try {
       const pendingPayments = await this.getPendingPayments();
@@ -151,17 +185,27 @@ export class PaymentSyncService {
     }
   }
 
+  private isFinalStatus(status: PaymentStatus): boolean {
+    return (
+      status === PaymentStatus.COMPLETED ||
+      status === PaymentStatus.FAILED ||
+      status === PaymentStatus.CANCELLED ||
+      status === PaymentStatus.REFUNDED
+    );
+  }
+
   private async getPendingPayments() {
     const allPayments = await this.paymentService.getAllPayments();
     const now = Date.now();
 
     return allPayments.filter(payment => {
-      if (
-        payment.status === PaymentStatus.COMPLETED ||
-        payment.status === PaymentStatus.FAILED ||
-        payment.status === PaymentStatus.CANCELLED ||
-        payment.status === PaymentStatus.REFUNDED
-      ) {
+      if (this.isFinalStatus(payment.status)) {
+        return false;
+      }
+
+      // Payments are polled on the gateway they were created on; skip any whose
+      // gateway has since been unregistered rather than reporting them as failed.
+      if (!this.paymentService.hasGateway(payment.method)) {
         return false;
       }
 
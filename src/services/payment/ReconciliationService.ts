@@ -0,0 +1,419 @@
+import type { Payment } from '../../types';
+import { PaymentMethod, PaymentStatus } from '../../types';
+import type { PaymentService } from './PaymentService';
+import { fromMinorUnits, toMinorUnits } from './RefundLedger';
+import { findLatestOrderPayment, findPaymentByGatewayId } from './PaymentRecords';
+
+export type SettlementFormat = 'csv' | 'json';
+
+/** One settled transaction from a gateway settlement export */
+export interface SettlementLine {
+  lineNumber: number;
+  gatewayTransactionId?: string;
+  orderId?: string;
+  amount: number;
+  currency?: string;
+  status?: string;
+  settledAt?: Date;
+  raw: Record<string, string>;
+}
+
+export interface SettlementParseOptions {
+  /** Defaults to detecting JSON by a leading `[` or `{` */
+  format?: SettlementFormat;
+  /** Curlec's API reports sen; its dashboard exports report ringgit */
+  amountUnit?: 'major' | 'minor';
+  /** Currency of lines without a currency column; defaults to MYR */
+  currency?: string;
+}
+
+export enum ReconciliationEntryType {
+  MATCHED = 'matched',
+  MISSING_LOCALLY = 'missing_locally',
+  MISSING_AT_GATEWAY = 'missing_at_gateway',
+  AMOUNT_MISMATCH = 'amount_mismatch',
+}
+
+export interface ReconciliationEntry {
+  type: ReconciliationEntryType;
+  line?: SettlementLine;
+  payment?: Payment;
+  settledAmount?: number;
+  localAmount?: number;
+  difference?: number;
+  note?: string;
+}
+
+export interface ReconciliationSummary {
+  matched: number;
+  missingLocally: number;
+  missingAtGateway: number;
+  amountMismatch: number;
+  settledTotal: number;
+  localTotal: number;
+}
+
+export interface ReconciliationReport {
+  generatedAt: Date;
+  method: PaymentMethod;
+  from?: Date;
+  to?: Date;
+  entries: ReconciliationEntry[];
+  summary: ReconciliationSummary;
+}
+
+export interface ReconciliationOptions {
+  method?: PaymentMethod;
+  /** Local payments completed outside this window are not expected in the file */
+  from?: Date;
+  to?: Date;
+}
+
+/** The PaymentService lookups reconciliation needs; scripts can supply their own */
+export type PaymentLookup = Pick<
+  PaymentService,
+  'getPaymentByGatewayTransactionId' | 'getPaymentByOrderId' | 'getAllPayments'
+>;
+
+/** Looks up exported payment records the way PaymentService looks up its own */
+export function createPaymentLookup(payments: Payment[]): PaymentLookup {
+  return {
+    getPaymentByGatewayTransactionId: id => Promise.resolve(findPaymentByGatewayId(payments, id)),
+    getPaymentByOrderId: orderId => Promise.resolve(findLatestOrderPayment(payments, orderId)),
+    getAllPayments: () => Promise.resolve(payments),
+  };
+}
+
+// Header aliases seen across Curlec dashboard exports and API dumps
+const SETTLEMENT_FIELDS = {
+  gatewayTransactionId: [
+    'gateway_transaction_id',
+    'transaction_id',
+    'payment_id',
+    'entity_id',
+    'id',
+  ],
+  orderId: ['order_id', 'order_receipt', 'receipt', 'reference'],
+  amount: ['amount', 'gross_amount', 'credit'],
+  currency: ['currency'],
+  status: ['status'],
+  settledAt: ['settled_at', 'settlement_date', 'settled_on', 'created_at'],
+} as const;
+
+const SETTLED_STATUSES = [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED];
+
+// Curlec settles in ringgit
+const SETTLEMENT_CURRENCY = 'MYR';
+
+const REPORT_COLUMNS = [
+  'type',
+  'gateway_transaction_id',
+  'order_id',
+  'payment_id',
+  'settled_amount',
+  'local_amount',
+  'difference',
+  'currency',
+  'note',
+];
+
+/**
+ * Takes its payments explicitly (usually `paymentService`) so that scripts can
+ * load it without bringing up the payment gateways.
+ */
+export class ReconciliationService {
+  constructor(private readonly payments: PaymentLookup) {}
+
+  parseSettlementFile(content: string, options: SettlementParseOptions = {}): SettlementLine[] {
+    const format = options.format ?? (/^\s*[[{]/.test(content) ? 'json' : 'csv');
+    const records = format === 'json' ? parseJsonRecords(content) : parseCsvRecords(content);
+
+    return records.map((record, index) => toSettlementLine(record, index + 1, options));
+  }
+
+  /**
+   * Matches settlement lines to payments by gateway transaction id, falling
+   * back to order id, then compares amounts in minor units. Settled local
+   * payments that no line claimed are reported as missing at the gateway.
+   */
+  async reconcile(
+    lines: SettlementLine[],
+    options: ReconciliationOptions = {}
+  ): Promise<ReconciliationReport> {
+    const method = options.method ?? PaymentMethod.CURLEC;
+    const entries: ReconciliationEntry[] = [];
+    const claimed = new Set<string>();
+
+    for (const line of lines) {
+      const payment = await this.findPayment(line);
+
+      if (!payment || payment.method !== method) {
+        entries.push({
+          type: ReconciliationEntryType.MISSING_LOCALLY,
+          line,
+          settledAmount: line.amount,
+          note: payment
+            ? `Payment ${payment.id} was made with ${payment.method}`
+            : 'No payment matches this settlement line',
+        });
+        continue;
+      }
+
+      if (claimed.has(payment.id)) {
+        entries.push({
+          type: ReconciliationEntryType.MISSING_LOCALLY,
+          line,
+          payment,
+          settledAmount: line.amount,
+          note: `Payment ${payment.id} is already matched by an earlier line`,
+        });
+        continue;
+      }
+      claimed.add(payment.id);
+
+      const difference =
+        toMinorUnits(line.amount, payment.currency) -
+        toMinorUnits(payment.amount, payment.currency);
+      const currencyMismatch =
+        line.currency !== undefined &&
+        line.currency.toUpperCase() !== payment.currency.toUpperCase();
+
+      entries.push({
+        type:
+          difference === 0 && !currencyMismatch
+            ? ReconciliationEntryType.MATCHED
+            : ReconciliationEntryType.AMOUNT_MISMATCH,
+        line,
+        payment,
+        settledAmount: line.amount,
+        localAmount: payment.amount,
+        difference: fromMinorUnits(difference, payment.currency),
+        ...(currencyMismatch && {
+          note: `Settled in ${line.currency} but charged in ${payment.currency}`,
+        }),
+      });
+    }
+
+    const unsettled = (await this.payments.getAllPayments()).filter(
+      payment =>
+        payment.method === method &&
+        SETTLED_STATUSES.includes(payment.status) &&
+        !claimed.has(payment.id) &&
+        isWithin(payment.completedAt ?? payment.createdAt, options)
+    );
+
+    for (const payment of unsettled) {
+      entries.push({
+        type: ReconciliationEntryType.MISSING_AT_GATEWAY,
+        payment,
+        localAmount: payment.amount,
+        note: 'Payment is settled locally but absent from the settlement file',
+      });
+    }
+
+    return {
+      generatedAt: new Date(),
+      method,
+      ...(options.from && { from: options.from }),
+      ...(options.to && { to: options.to }),
+      entries,
+      summary: summarize(entries),
+    };
+  }
+
+  async reconcileFile(
+    content: string,
+    options: ReconciliationOptions & SettlementParseOptions = {}
+  ): Promise<ReconciliationReport> {
+    return this.reconcile(this.parseSettlementFile(content, options), options);
+  }
+
+  toCsv(report: ReconciliationReport): string {
+    const rows = report.entries.map(entry => [
+      entry.type,
+      entry.line?.gatewayTransactionId ?? entry.payment?.gatewayTransactionId ?? '',
+      entry.line?.orderId ?? entry.payment?.orderId ?? '',
+      entry.payment?.id ?? '',
+      entry.settledAmount?.toFixed(2) ?? '',
+      entry.localAmount?.toFixed(2) ?? '',
+      entry.difference?.toFixed(2) ?? '',
+      entry.payment?.currency ?? entry.line?.currency ?? '',
+      entry.note ?? '',
+    ]);
+
+    return [REPORT_COLUMNS, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n');
+  }
+
+  private async findPayment(line: SettlementLine): Promise<Payment | null> {
+    if (line.gatewayTransactionId) {
+      const payment = await this.payments.getPaymentByGatewayTransactionId(
+        line.gatewayTransactionId
+      );
+      if (payment) {
+        return payment;
+      }
+    }
+
+    return line.orderId ? this.payments.getPaymentByOrderId(line.orderId) : null;
+  }
+}
+
+function summarize(entries: ReconciliationEntry[]): ReconciliationSummary {
+  const count = (type: ReconciliationEntryType) =>
+    entries.filter(entry => entry.type === type).length;
+  const total = (values: Array<number | undefined>) =>
+    fromMinorUnits(
+      values.reduce<number>((sum, value) => sum + toMinorUnits(value ?? 0, SETTLEMENT_CURRENCY), 0),
+      SETTLEMENT_CURRENCY
+    );
+
+  return {
+    matched: count(ReconciliationEntryType.MATCHED),
+    missingLocally: count(ReconciliationEntryType.MISSING_LOCALLY),
+    missingAtGateway: count(ReconciliationEntryType.MISSING_AT_GATEWAY),
+    amountMismatch: count(ReconciliationEntryType.AMOUNT_MISMATCH),
+    settledTotal: total(entries.map(entry => entry.settledAmount)),
+    localTotal: total(entries.map(entry => entry.localAmount)),
+  };
+}
+
+function isWithin(date: Date, options: ReconciliationOptions): boolean {
+  return (!options.from || date >= options.from) && (!options.to || date <= options.to);
+}
+
+function toSettlementLine(
+  record: Record<string, string>,
+  lineNumber: number,
+  options: SettlementParseOptions
+): SettlementLine {
+  const pick = (aliases: readonly string[]) => {
+    for (const alias of aliases) {
+      const value = record[alias];
+      if (value !== undefined && value !== '') {
+        return value;
+      }
+    }
+    return undefined;
+  };
+
+  const rawAmount = Number(pick(SETTLEMENT_FIELDS.amount)?.replace(/,/g, ''));
+  if (!Number.isFinite(rawAmount)) {
+    throw new Error(`Settlement line ${lineNumber} has no valid amount`);
+  }
+
+  const gatewayTransactionId = pick(SETTLEMENT_FIELDS.gatewayTransactionId);
+  const orderId = pick(SETTLEMENT_FIELDS.orderId);
+  const currency = pick(SETTLEMENT_FIELDS.currency);
+  const status = pick(SETTLEMENT_FIELDS.status);
+  const settledAt = pick(SETTLEMENT_FIELDS.settledAt);
+
+  return {
+    lineNumber,
+    ...(gatewayTransactionId && { gatewayTransactionId }),
+    ...(orderId && { orderId }),
+    amount:
+      options.amountUnit === 'minor'
+        ? fromMinorUnits(rawAmount, currency ?? options.currency ?? SETTLEMENT_CURRENCY)
+        : rawAmount,
+    ...(currency && { currency: currency.toUpperCase() }),
+    ...(status && { status }),
+    ...(settledAt && { settledAt: new Date(settledAt) }),
+    raw: record,
+  };
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+function parseJsonRecords(content: string): Array<Record<string, string>> {
+  const parsed: unknown = JSON.parse(content);
+  // Curlec API dumps wrap rows as { items: [...] }
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown[] }).items;
+  if (!Array.isArray(rows)) {
+    throw new Error('Settlement JSON must be an array or an object with an items array');
+  }
+
+  return rows.map(row =>
+    Object.fromEntries(
+      Object.entries(row as Record<string, unknown>).map(([key, value]) => [
+        normalizeHeader(key),
+        toFieldValue(value),
+      ])
+    )
+  );
+}
+
+function toFieldValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object'
+    ? JSON.stringify(value)
+    : String(value as string | number | boolean);
+}
+
+function parseCsvRecords(content: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(normalizeHeader);
+  return rows
+    .filter(row => row.some(value => value.trim() !== ''))
+    .map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])));
+}
+
+/** RFC 4180 rows: quoted fields may contain commas, quotes and newlines */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,306 @@
+import type { Refund, RefundItem } from '../../types';
+import { RefundStatus } from '../../types';
+import { getMinorUnits, roundMoney } from '../currency/Money';
+import type { SqlClient, SqlTransactionRunner } from '../order/SqlOrderRepository';
+
+/**
+ * Refunds are compared in the currency's minor units so repeated partial
+ * refunds do not drift past the captured amount through floating point error.
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(roundMoney(amount, currency) * 10 ** getMinorUnits(currency));
+}
+
+export function fromMinorUnits(amount: number, currency: string): number {
+  return roundMoney(amount / 10 ** getMinorUnits(currency), currency);
+}
+
+/**
+ * Every refund issued against a payment. Pending refunds already count
+ * against the refundable balance so concurrent requests cannot overdraw it.
+ */
+export interface RefundLedger {
+  /**
+   * Records a pending refund unless it would take the payment's refunds past
+   * `captured`. Resolves false, recording nothing, when it would.
+   */
+  reserve(refund: Refund, captured: number): Promise<boolean>;
+  /** Saves the status, gateway reference and processing time of a refund */
+  update(refund: Refund): Promise<void>;
+  getRefund(refundId: string): Promise<Refund | null>;
+  getRefunds(paymentId: string): Promise<Refund[]>;
+  getRefundedAmount(paymentId: string): Promise<number>;
+  getRefundedQuantity(paymentId: string, orderItemId: string): Promise<number>;
+}
+
+export class InMemoryRefundLedger implements RefundLedger {
+  private refunds: Map<string, Refund> = new Map();
+  private refundsByPayment: Map<string, string[]> = new Map();
+
+  async reserve(refund: Refund, captured: number): Promise<boolean> {
+    const refunded = this.sumActive(refund.paymentId, refund.currency);
+    if (
+      refunded + toMinorUnits(refund.amount, refund.currency) >
+      toMinorUnits(captured, refund.currency)
+    ) {
+      return false;
+    }
+
+    const paymentRefunds = this.refundsByPayment.get(refund.paymentId) || [];
+    paymentRefunds.push(refund.id);
+    this.refundsByPayment.set(refund.paymentId, paymentRefunds);
+    this.refunds.set(refund.id, copyRefund(refund));
+    return true;
+  }
+
+  async update(refund: Refund): Promise<void> {
+    if (this.refunds.has(refund.id)) {
+      this.refunds.set(refund.id, copyRefund(refund));
+    }
+  }
+
+  async getRefund(refundId: string): Promise<Refund | null> {
+    const refund = this.refunds.get(refundId);
+    return refund ? copyRefund(refund) : null;
+  }
+
+  async getRefunds(paymentId: string): Promise<Refund[]> {
+    return this.list(paymentId).map(copyRefund);
+  }
+
+  async getRefundedAmount(paymentId: string): Promise<number> {
+    const [first] = this.list(paymentId);
+    return first ? fromMinorUnits(this.sumActive(paymentId, first.currency), first.currency) : 0;
+  }
+
+  async getRefundedQuantity(paymentId: string, orderItemId: string): Promise<number> {
+    return this.list(paymentId)
+      .filter(refund => refund.status !== RefundStatus.FAILED)
+      .flatMap(refund => refund.items)
+      .filter(item => item.orderItemId === orderItemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+  }
+
+  clear(): void {
+    this.refunds.clear();
+    this.refundsByPayment.clear();
+  }
+
+  private list(paymentId: string): Refund[] {
+    return (this.refundsByPayment.get(paymentId) || [])
+      .map(id => this.refunds.get(id))
+      .filter((refund): refund is Refund => refund !== undefined);
+  }
+
+  private sumActive(paymentId: string, currency: string): number {
+    return this.list(paymentId)
+      .filter(refund => refund.status !== RefundStatus.FAILED)
+      .reduce((sum, refund) => sum + toMinorUnits(refund.amount, currency), 0);
+  }
+}
+
+function copyRefund(refund: Refund): Refund {
+  return { ...refund, items: refund.items.map(item => ({ ...item })) };
+}
+
+interface RefundRow {
+  refund_ref: string;
+  payment_ref: string;
+  order_ref: string;
+  amount_minor: number | string;
+  currency: string;
+  reason: string | null;
+  gateway_refund_id: string | null;
+  status: RefundStatus;
+  processed_at: Date | string | null;
+  created_at: Date | string;
+}
+
+interface RefundItemRow {
+  refund_ref: string;
+  order_item_ref: string;
+  quantity: number | string;
+  amount: number | string;
+}
+
+const REFUND_COLUMNS = `refund_ref, payment_ref, order_ref, amount_minor, currency, reason,
+  gateway_refund_id, status, processed_at, created_at`;
+
+// A concurrent refund can take the sequence number a reservation computed
+const MAX_RESERVE_ATTEMPTS = 5;
+
+/**
+ * Refunds on the `refunds`/`refund_items` tables (see
+ * database/migrations/004_partial_refunds.sql and 016_store_refunds.sql).
+ * Store refund, payment, order and item ids live in the `*_ref` columns.
+ * Each refund of a payment takes the next `sequence`; the unique index on it
+ * lets only one of two concurrent reservations through, and the loser re-checks
+ * the balance before trying again.
+ */
+export class SqlRefundLedger implements RefundLedger {
+  constructor(
+    private readonly client: SqlClient,
+    private readonly transaction: SqlTransactionRunner = callback => callback(client)
+  ) {}
+
+  async reserve(refund: Refund, captured: number): Promise<boolean> {
+    const amount = toMinorUnits(refund.amount, refund.currency);
+    const limit = toMinorUnits(captured, refund.currency);
+
+    for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+      const reserved = await this.transaction(async client => {
+        const result = await client.query<{ refund_ref: string }>(
+          `INSERT INTO refunds (refund_ref, payment_ref, order_ref, sequence, amount, amount_minor,
+             currency, reason, status, created_at)
+           SELECT $1, $2, $3,
+             (SELECT COUNT(*) FROM refunds WHERE payment_ref = $2) + 1,
+             $4, $5, $6, $7, $8, $9
+           WHERE (SELECT COALESCE(SUM(amount_minor), 0) FROM refunds
+                  WHERE payment_ref = $2 AND status <> $10) + $5 <= $11
+           ON CONFLICT (payment_ref, sequence) DO NOTHING
+           RETURNING refund_ref`,
+          [
+            refund.id,
+            refund.paymentId,
+            refund.orderId,
+            refund.amount,
+            amount,
+            refund.currency,
+            refund.reason ?? null,
+            refund.status,
+            refund.createdAt.toISOString(),
+            RefundStatus.FAILED,
+            limit,
+          ]
+        );
+        if (result.rows.length === 0) {
+          return false;
+        }
+
+        for (const [index, item] of refund.items.entries()) {
+          await client.query(
+            `INSERT INTO refund_items (refund_id, order_item_ref, line_number, quantity, amount)
+             SELECT id, $2, $3, $4, $5 FROM refunds WHERE refund_ref = $1`,
+            [refund.id, item.orderItemId, index, item.quantity, item.amount]
+          );
+        }
+        return true;
+      });
+
+      if (reserved) {
+        return true;
+      }
+      if ((await this.sumActive(refund.paymentId)) + amount > limit) {
+        return false;
+      }
+    }
+
+    throw new Error(`Could not reserve refund ${refund.id} against concurrent refunds`);
+  }
+
+  async update(refund: Refund): Promise<void> {
+    await this.client.query(
+      `UPDATE refunds SET status = $2, gateway_refund_id = $3, processed_at = $4
+       WHERE refund_ref = $1`,
+      [
+        refund.id,
+        refund.status,
+        refund.gatewayRefundId ?? null,
+        refund.processedAt ? refund.processedAt.toISOString() : null,
+      ]
+    );
+  }
+
+  async getRefund(refundId: string): Promise<Refund | null> {
+    const result = await this.client.query<RefundRow>(
+      `SELECT ${REFUND_COLUMNS} FROM refunds WHERE refund_ref = $1`,
+      [refundId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const items = await this.client.query<RefundItemRow>(
+      `SELECT r.refund_ref, i.order_item_ref, i.quantity, i.amount
+       FROM refund_items i JOIN refunds r ON r.id = i.refund_id
+       WHERE r.refund_ref = $1
+       ORDER BY i.line_number ASC`,
+      [refundId]
+    );
+    return this.toRefund(row, items.rows);
+  }
+
+  async getRefunds(paymentId: string): Promise<Refund[]> {
+    const result = await this.client.query<RefundRow>(
+      `SELECT ${REFUND_COLUMNS} FROM refunds WHERE payment_ref = $1 ORDER BY sequence ASC`,
+      [paymentId]
+    );
+    const items = await this.client.query<RefundItemRow>(
+      `SELECT r.refund_ref, i.order_item_ref, i.quantity, i.amount
+       FROM refund_items i JOIN refunds r ON r.id = i.refund_id
+       WHERE r.payment_ref = $1
+       ORDER BY r.sequence ASC, i.line_number ASC`,
+      [paymentId]
+    );
+
+    return result.rows.map(row =>
+      this.toRefund(
+        row,
+        items.rows.filter(item => item.refund_ref === row.refund_ref)
+      )
+    );
+  }
+
+  async getRefundedAmount(paymentId: string): Promise<number> {
+    const result = await this.client.query<{ currency: string; total: number | string }>(
+      `SELECT currency, SUM(amount_minor) AS total FROM refunds
+       WHERE payment_ref = $1 AND status <> $2
+       GROUP BY currency`,
+      [paymentId, RefundStatus.FAILED]
+    );
+    const row = result.rows[0];
+    return row ? fromMinorUnits(Number(row.total), row.currency) : 0;
+  }
+
+  async getRefundedQuantity(paymentId: string, orderItemId: string): Promise<number> {
+    const result = await this.client.query<{ quantity: number | string }>(
+      `SELECT COALESCE(SUM(i.quantity), 0) AS quantity
+       FROM refund_items i JOIN refunds r ON r.id = i.refund_id
+       WHERE r.payment_ref = $1 AND i.order_item_ref = $2 AND r.status <> $3`,
+      [paymentId, orderItemId, RefundStatus.FAILED]
+    );
+    return Number(result.rows[0]?.quantity ?? 0);
+  }
+
+  private async sumActive(paymentId: string): Promise<number> {
+    const result = await this.client.query<{ total: number | string }>(
+      `SELECT COALESCE(SUM(amount_minor), 0) AS total FROM refunds
+       WHERE payment_ref = $1 AND status <> $2`,
+      [paymentId, RefundStatus.FAILED]
+    );
+    return Number(result.rows[0]?.total ?? 0);
+  }
+
+  private toRefund(row: RefundRow, items: RefundItemRow[]): Refund {
+    return {
+      id: row.refund_ref,
+      paymentId: row.payment_ref,
+      orderId: row.order_ref,
+      amount: fromMinorUnits(Number(row.amount_minor), row.currency),
+      currency: row.currency,
+      ...(row.reason && { reason: row.reason }),
+      ...(row.gateway_refund_id && { gatewayRefundId: row.gateway_refund_id }),
+      status: row.status,
+      items: items.map(
+        (item): RefundItem => ({
+          orderItemId: item.order_item_ref,
+          quantity: Number(item.quantity),
+          amount: Number(item.amount),
+        })
+      ),
+      ...(row.processed_at && { processedAt: new Date(row.processed_at) }),
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
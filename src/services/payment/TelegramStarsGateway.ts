@@ -0,0 +1,287 @@
+import type { PaymentRequest, PaymentResponse } from '../../types';
+import { PaymentStatus } from '../../types';
+import { env } from '../../core/config/environment';
+import { CSRFProtection } from '../../security/CSRFToken';
+import { currencyService } from '../currency/CurrencyService';
+import type { CurrencyService } from '../currency/CurrencyService';
+import type { PaymentGateway, PaymentWebhookEvent } from './PaymentGateway';
+
+export type StarsInvoiceStatus = 'pending' | 'paid' | 'cancelled' | 'expired' | 'refunded';
+
+export interface StarsInvoiceRequest {
+  orderId: string;
+  title: string;
+  description: string;
+  payload: string;
+  amount: number;
+}
+
+export interface StarsInvoice {
+  invoiceId: string;
+  invoiceLink: string;
+  amount: number;
+  status: StarsInvoiceStatus;
+  telegramPaymentChargeId?: string;
+  expiresAt: string;
+}
+
+/**
+ * Bot-side operations for Stars invoices. The bot token never reaches the Mini
+ * App, so the default backend talks to our API, which calls the Bot API.
+ */
+export interface StarsInvoiceBackend {
+  createInvoiceLink(request: StarsInvoiceRequest): Promise<StarsInvoice>;
+  getInvoice(invoiceId: string): Promise<StarsInvoice | null>;
+  refundStarPayment(invoiceId: string): Promise<boolean>;
+}
+
+export interface TelegramStarsGatewayConfig {
+  webhookSecretToken: string;
+}
+
+interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    date: number;
+    successful_payment?: {
+      currency: string;
+      total_amount: number;
+      invoice_payload: string;
+      telegram_payment_charge_id: string;
+    };
+    refunded_payment?: {
+      currency: string;
+      total_amount: number;
+      invoice_payload: string;
+      telegram_payment_charge_id: string;
+    };
+  };
+}
+
+export const STARS_CURRENCY = 'XTR';
+
+const STARS_INVOICE_STATUSES: readonly StarsInvoiceStatus[] = [
+  'pending',
+  'paid',
+  'cancelled',
+  'expired',
+  'refunded',
+];
+
+interface StarsApiError {
+  message?: string;
+}
+
+function isStarsInvoice(value: unknown): value is StarsInvoice {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const invoice = value as Record<string, unknown>;
+  return (
+    typeof invoice.invoiceId === 'string' &&
+    typeof invoice.invoiceLink === 'string' &&
+    typeof invoice.amount === 'number' &&
+    typeof invoice.expiresAt === 'string' &&
+    STARS_INVOICE_STATUSES.includes(invoice.status as StarsInvoiceStatus) &&
+    (invoice.telegramPaymentChargeId === undefined ||
+      typeof invoice.telegramPaymentChargeId === 'string')
+  );
+}
+
+// The webhook secret only exists in the server's environment; browser builds never see it
+function serverWebhookSecret(): string {
+  const { process } = globalThis as { process?: { env: Record<string, string | undefined> } };
+  return process?.env.TELEGRAM_WEBHOOK_SECRET ?? '';
+}
+
+export class HttpStarsInvoiceBackend implements StarsInvoiceBackend {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string = env.get('API_BASE_URL')) {
+    this.baseUrl = baseUrl;
+  }
+
+  async createInvoiceLink(request: StarsInvoiceRequest): Promise<StarsInvoice> {
+    return this.toInvoice(
+      await this.makeRequest('/payments/telegram-stars/invoices', 'POST', request)
+    );
+  }
+
+  async getInvoice(invoiceId: string): Promise<StarsInvoice | null> {
+    try {
+      return this.toInvoice(
+        await this.makeRequest(`/payments/telegram-stars/invoices/${invoiceId}`, 'GET')
+      );
+    } catch (error) {
+      console.error('Failed to get Stars invoice:', error);
+      return null;
+    }
+  }
+
+  async refundStarPayment(invoiceId: string): Promise<boolean> {
+    await this.makeRequest(`/payments/telegram-stars/invoices/${invoiceId}/refund`, 'POST');
+    return true;
+  }
+
+  private toInvoice(data: unknown): StarsInvoice {
+    if (!isStarsInvoice(data)) {
+      throw new Error('Unexpected Stars invoice response');
+    }
+    return data;
+  }
+
+  private async makeRequest(
+    endpoint: string,
+    method: 'GET' | 'POST',
+    body?: StarsInvoiceRequest
+  ): Promise<unknown> {
+    let headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (method === 'POST') {
+      headers = CSRFProtection.addTokenToRequest(headers);
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method,
+      headers,
+      ...(method === 'POST' && { body: JSON.stringify(body ?? {}) }),
+    });
+
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as StarsApiError;
+      throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return (await response.json()) as unknown;
+  }
+}
+
+export class TelegramStarsGateway implements PaymentGateway {
+  readonly name = 'telegram_stars';
+
+  private backend: StarsInvoiceBackend;
+  private config: TelegramStarsGatewayConfig;
+
+  // Stars are quoted like any other currency, from the rates CurrencyService loads
+  constructor(
+    backend: StarsInvoiceBackend,
+    config?: Partial<TelegramStarsGatewayConfig>,
+    private readonly currency: CurrencyService = currencyService
+  ) {
+    this.backend = backend;
+    this.config = {
+      webhookSecretToken: serverWebhookSecret(),
+      ...config,
+    };
+  }
+
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    try {
+      const amount = await this.toStars(request.amount, request.currency);
+
+      const invoice = await this.backend.createInvoiceLink({
+        orderId: request.orderId,
+        title: `MTYB Shop - Order ${request.orderId}`,
+        description: `Payment for order ${request.orderId}`,
+        payload: request.orderId,
+        amount,
+      });
+
+      return {
+        success: true,
+        paymentId: invoice.invoiceId,
+        metadata: {
+          invoiceLink: invoice.invoiceLink,
+          starsAmount: invoice.amount,
+          currency: STARS_CURRENCY,
+          expiresAt: invoice.expiresAt,
+        },
+      };
+    } catch (error) {
+      console.error('Telegram Stars invoice creation failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment creation failed',
+      };
+    }
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    const invoice = await this.backend.getInvoice(paymentId);
+    if (!invoice) {
+      return PaymentStatus.FAILED;
+    }
+
+    switch (invoice.status) {
+      case 'pending':
+        return PaymentStatus.PROCESSING;
+      case 'paid':
+        return PaymentStatus.COMPLETED;
+      case 'cancelled':
+        return PaymentStatus.CANCELLED;
+      case 'expired':
+        return PaymentStatus.FAILED;
+      case 'refunded':
+        return PaymentStatus.REFUNDED;
+    }
+  }
+
+  async refundPayment(paymentId: string, amount?: number): Promise<boolean> {
+    // refundStarPayment always returns the full charge.
+    if (amount !== undefined) {
+      console.error('Telegram Stars only supports full refunds');
+      return false;
+    }
+
+    try {
+      return await this.backend.refundStarPayment(paymentId);
+    } catch (error) {
+      console.error('Telegram Stars refund failed:', error);
+      return false;
+    }
+  }
+
+  async verifyWebhookSignature(_payload: string, signature: string): Promise<boolean> {
+    // Telegram authenticates updates with the X-Telegram-Bot-Api-Secret-Token header.
+    return !!this.config.webhookSecretToken && signature === this.config.webhookSecretToken;
+  }
+
+  parseWebhookEvent(payload: string): PaymentWebhookEvent | null {
+    try {
+      const update = JSON.parse(payload) as TelegramUpdate;
+      const message = update.message;
+      const payment = message?.successful_payment || message?.refunded_payment;
+
+      if (!message || !payment || payment.currency !== STARS_CURRENCY) {
+        return null;
+      }
+
+      return {
+        id: `tg_update_${update.update_id}`,
+        type: message.successful_payment ? 'payment.completed' : 'payment.refunded',
+        data: {
+          id: payment.telegram_payment_charge_id,
+          status: message.successful_payment ? 'paid' : 'refunded',
+          amount: payment.total_amount,
+          currency: payment.currency,
+          orderId: payment.invoice_payload,
+          chargeId: payment.telegram_payment_charge_id,
+          metadata: {
+            telegramPaymentChargeId: payment.telegram_payment_charge_id,
+          },
+        },
+        signature: '',
+        timestamp: new Date(message.date * 1000).toISOString(),
+      };
+    } catch (error) {
+      console.error('Failed to parse Telegram update:', error);
+      return null;
+    }
+  }
+
+  // Stars only support whole amounts, so the price is rounded up
+  async toStars(amount: number, currency: string): Promise<number> {
+    const { rate } = await this.currency.lockRate(currency, STARS_CURRENCY);
+    return Math.max(1, Math.ceil(amount * rate));
+  }
+}
@@ -0,0 +1,232 @@
+import type { PaymentRequest, PaymentResponse } from '../../types';
+import { PaymentStatus } from '../../types';
+import { env } from '../../core/config/environment';
+import { CSRFProtection } from '../../security/CSRFToken';
+import { currencyService } from '../currency/CurrencyService';
+import type { CurrencyService } from '../currency/CurrencyService';
+import type { PaymentGateway, PaymentWebhookEvent } from './PaymentGateway';
+
+export type TonTransferStatus = 'pending' | 'confirmed' | 'expired' | 'refunded';
+
+export interface TonTransferRequest {
+  orderId: string;
+  amount: string;
+  comment: string;
+  fiatAmount: number;
+  currency: string;
+}
+
+export interface TonTransfer {
+  reference: string;
+  address: string;
+  // Amount in nanotons, as TON Connect expects it.
+  amount: string;
+  // Base64 BOC carrying the reference comment, if the backend builds one.
+  payload?: string;
+  validUntil: number;
+  fiatAmount: number;
+  currency: string;
+  status: TonTransferStatus;
+  transactionHash?: string;
+}
+
+/**
+ * Merchant-wallet operations. The wallet watches for incoming transfers that
+ * carry our reference, so confirmation is always observed by polling.
+ */
+export interface TonPaymentBackend {
+  createTransfer(request: TonTransferRequest): Promise<TonTransfer>;
+  getTransfer(reference: string): Promise<TonTransfer | null>;
+  refundTransfer(reference: string, amount?: string): Promise<boolean>;
+}
+
+export const TON_CURRENCY = 'TON';
+
+export const NANOTONS_PER_TON = 1_000_000_000;
+
+const TON_TRANSFER_STATUSES: readonly TonTransferStatus[] = [
+  'pending',
+  'confirmed',
+  'expired',
+  'refunded',
+];
+
+interface TonApiError {
+  message?: string;
+}
+
+function isTonTransfer(value: unknown): value is TonTransfer {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const transfer = value as Record<string, unknown>;
+  return (
+    typeof transfer.reference === 'string' &&
+    typeof transfer.address === 'string' &&
+    typeof transfer.amount === 'string' &&
+    typeof transfer.validUntil === 'number' &&
+    typeof transfer.fiatAmount === 'number' &&
+    typeof transfer.currency === 'string' &&
+    TON_TRANSFER_STATUSES.includes(transfer.status as TonTransferStatus)
+  );
+}
+
+export class HttpTonPaymentBackend implements TonPaymentBackend {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string = env.get('API_BASE_URL')) {
+    this.baseUrl = baseUrl;
+  }
+
+  async createTransfer(request: TonTransferRequest): Promise<TonTransfer> {
+    return this.toTransfer(await this.makeRequest('/payments/ton/transfers', 'POST', request));
+  }
+
+  async getTransfer(reference: string): Promise<TonTransfer | null> {
+    try {
+      return this.toTransfer(await this.makeRequest(`/payments/ton/transfers/${reference}`, 'GET'));
+    } catch (error) {
+      console.error('Failed to get TON transfer:', error);
+      return null;
+    }
+  }
+
+  async refundTransfer(reference: string, amount?: string): Promise<boolean> {
+    await this.makeRequest(
+      `/payments/ton/transfers/${reference}/refund`,
+      'POST',
+      amount ? { amount } : {}
+    );
+    return true;
+  }
+
+  private toTransfer(data: unknown): TonTransfer {
+    if (!isTonTransfer(data)) {
+      throw new Error('Unexpected TON transfer response');
+    }
+    return data;
+  }
+
+  private async makeRequest(
+    endpoint: string,
+    method: 'GET' | 'POST',
+    body?: TonTransferRequest | { amount?: string }
+  ): Promise<unknown> {
+    let headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (method === 'POST') {
+      headers = CSRFProtection.addTokenToRequest(headers);
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method,
+      headers,
+      ...(body && method === 'POST' && { body: JSON.stringify(body) }),
+    });
+
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as TonApiError;
+      throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return (await response.json()) as unknown;
+  }
+}
+
+export class TonGateway implements PaymentGateway {
+  readonly name = 'ton';
+
+  private backend: TonPaymentBackend;
+
+  // TON is quoted like any other currency, from the rates CurrencyService loads
+  constructor(
+    backend: TonPaymentBackend,
+    private readonly currency: CurrencyService = currencyService
+  ) {
+    this.backend = backend;
+  }
+
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    try {
+      const transfer = await this.backend.createTransfer({
+        orderId: request.orderId,
+        amount: await this.toNanotons(request.amount, request.currency),
+        comment: `MTYB ${request.orderId}`,
+        fiatAmount: request.amount,
+        currency: request.currency,
+      });
+
+      return {
+        success: true,
+        paymentId: transfer.reference,
+        metadata: {
+          tonTransfer: {
+            address: transfer.address,
+            amount: transfer.amount,
+            validUntil: transfer.validUntil,
+            ...(transfer.payload && { payload: transfer.payload }),
+          },
+        },
+      };
+    } catch (error) {
+      console.error('TON transfer creation failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment creation failed',
+      };
+    }
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    const transfer = await this.backend.getTransfer(paymentId);
+    if (!transfer) {
+      return PaymentStatus.FAILED;
+    }
+
+    switch (transfer.status) {
+      case 'pending':
+        return PaymentStatus.PROCESSING;
+      case 'confirmed':
+        return PaymentStatus.COMPLETED;
+      case 'expired':
+        return PaymentStatus.FAILED;
+      case 'refunded':
+        return PaymentStatus.REFUNDED;
+    }
+  }
+
+  async refundPayment(paymentId: string, amount?: number): Promise<boolean> {
+    try {
+      const transfer = await this.backend.getTransfer(paymentId);
+      if (!transfer || transfer.status !== 'confirmed') {
+        return false;
+      }
+
+      if (amount === undefined) {
+        return await this.backend.refundTransfer(paymentId);
+      }
+
+      // Partial refunds are expressed in the order currency; scale them to the
+      // nanoton amount that was actually received rather than today's rate.
+      const nanotons = Math.round((Number(transfer.amount) * amount) / transfer.fiatAmount);
+      return await this.backend.refundTransfer(paymentId, String(nanotons));
+    } catch (error) {
+      console.error('TON refund failed:', error);
+      return false;
+    }
+  }
+
+  async verifyWebhookSignature(_payload: string, _signature: string): Promise<boolean> {
+    // TON transfers have no push notifications; PaymentSyncService polls them.
+    return false;
+  }
+
+  parseWebhookEvent(_payload: string): PaymentWebhookEvent | null {
+    return null;
+  }
+
+  async toNanotons(amount: number, currency: string): Promise<string> {
+    const { rate } = await this.currency.lockRate(currency, TON_CURRENCY);
+    return String(Math.round(amount * rate * NANOTONS_PER_TON));
+  }
+}
@@ -0,0 +1,235 @@
+import type { PaymentMethod, WebhookEventRecord } from '../../types';
+import { WebhookEventStatus } from '../../types';
+import type { SqlClient } from '../order/SqlOrderRepository';
+
+export interface WebhookEventQuery {
+  status?: WebhookEventStatus | WebhookEventStatus[];
+  method?: PaymentMethod;
+  receivedFrom?: Date;
+  receivedTo?: Date;
+  /** Only events whose next retry is due at or before this time */
+  dueBy?: Date;
+}
+
+/**
+ * Storage for received webhooks. Results are sorted oldest first so replays
+ * apply events in the order the gateway sent them.
+ */
+export interface WebhookEventStore {
+  save(record: WebhookEventRecord): Promise<void>;
+  findById(id: string): Promise<WebhookEventRecord | null>;
+  findByEventId(method: PaymentMethod, eventId: string): Promise<WebhookEventRecord | null>;
+  findMany(query?: WebhookEventQuery): Promise<WebhookEventRecord[]>;
+}
+
+export interface WebhookRetryPolicy {
+  /** Attempts (including the first) before an event is dead-lettered */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_WEBHOOK_RETRY_POLICY: WebhookRetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+};
+
+/** Exponential backoff: base, 2x base, 4x base, ... capped at maxDelayMs */
+export function getWebhookRetryDelay(attempts: number, policy: WebhookRetryPolicy): number {
+  return Math.min(policy.baseDelayMs * 2 ** Math.max(attempts - 1, 0), policy.maxDelayMs);
+}
+
+function matchesQuery(record: WebhookEventRecord, query: WebhookEventQuery): boolean {
+  const statuses = query.status === undefined ? null : [query.status].flat();
+
+  if (statuses && !statuses.includes(record.status)) return false;
+  if (query.method && record.method !== query.method) return false;
+  if (query.receivedFrom && record.receivedAt < query.receivedFrom) return false;
+  if (query.receivedTo && record.receivedAt > query.receivedTo) return false;
+  if (query.dueBy && (!record.nextAttemptAt || record.nextAttemptAt > query.dueBy)) return false;
+
+  return true;
+}
+
+export class InMemoryWebhookEventStore implements WebhookEventStore {
+  private records: Map<string, WebhookEventRecord> = new Map();
+
+  async save(record: WebhookEventRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  async findById(id: string): Promise<WebhookEventRecord | null> {
+    const record = this.records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async findByEventId(method: PaymentMethod, eventId: string): Promise<WebhookEventRecord | null> {
+    for (const record of this.records.values()) {
+      if (record.method === method && record.eventId === eventId) {
+        return { ...record };
+      }
+    }
+    return null;
+  }
+
+  async findMany(query: WebhookEventQuery = {}): Promise<WebhookEventRecord[]> {
+    return Array.from(this.records.values())
+      .filter(record => matchesQuery(record, query))
+      .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime())
+      .map(record => ({ ...record }));
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+interface WebhookEventRow {
+  id: string;
+  payment_method: PaymentMethod;
+  event_id: string | null;
+  event_type: string | null;
+  payload: string;
+  signature: string;
+  signature_valid: boolean | number;
+  status: WebhookEventStatus;
+  attempts: number | string;
+  last_error: string | null;
+  payment_reference: string | null;
+  next_attempt_at: Date | string | null;
+  replayed_by: string | null;
+  received_at: Date | string;
+  processed_at: Date | string | null;
+  updated_at: Date | string;
+}
+
+const WEBHOOK_EVENT_COLUMNS = `id, payment_method, event_id, event_type, payload, signature,
+  signature_valid, status, attempts, last_error, payment_reference, next_attempt_at,
+  replayed_by, received_at, processed_at, updated_at`;
+
+/**
+ * Webhook storage on the `webhook_events` table (see
+ * database/migrations/005_webhook_events.sql). The raw payload is kept
+ * verbatim so signatures can be re-verified on replay.
+ */
+export class SqlWebhookEventStore implements WebhookEventStore {
+  constructor(private readonly client: SqlClient) {}
+
+  async save(record: WebhookEventRecord): Promise<void> {
+    await this.client.query(
+      `INSERT INTO webhook_events (${WEBHOOK_EVENT_COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       ON CONFLICT (id) DO UPDATE SET
+         event_id = EXCLUDED.event_id,
+         event_type = EXCLUDED.event_type,
+         signature_valid = EXCLUDED.signature_valid,
+         status = EXCLUDED.status,
+         attempts = EXCLUDED.attempts,
+         last_error = EXCLUDED.last_error,
+         payment_reference = EXCLUDED.payment_reference,
+         next_attempt_at = EXCLUDED.next_attempt_at,
+         replayed_by = EXCLUDED.replayed_by,
+         processed_at = EXCLUDED.processed_at,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        record.id,
+        record.method,
+        record.eventId ?? null,
+        record.eventType ?? null,
+        record.payload,
+        record.signature,
+        record.signatureValid,
+        record.status,
+        record.attempts,
+        record.lastError ?? null,
+        record.paymentId ?? null,
+        record.nextAttemptAt ? record.nextAttemptAt.toISOString() : null,
+        record.replayedBy ?? null,
+        record.receivedAt.toISOString(),
+        record.processedAt ? record.processedAt.toISOString() : null,
+        record.updatedAt.toISOString(),
+      ]
+    );
+  }
+
+  async findById(id: string): Promise<WebhookEventRecord | null> {
+    const result = await this.client.query<WebhookEventRow>(
+      `SELECT ${WEBHOOK_EVENT_COLUMNS} FROM webhook_events WHERE id = $1`,
+      [id]
+    );
+    const row = result.rows[0];
+    return row ? this.toRecord(row) : null;
+  }
+
+  async findByEventId(method: PaymentMethod, eventId: string): Promise<WebhookEventRecord | null> {
+    const result = await this.client.query<WebhookEventRow>(
+      `SELECT ${WEBHOOK_EVENT_COLUMNS} FROM webhook_events
+       WHERE payment_method = $1 AND event_id = $2
+       ORDER BY received_at ASC LIMIT 1`,
+      [method, eventId]
+    );
+    const row = result.rows[0];
+    return row ? this.toRecord(row) : null;
+  }
+
+  async findMany(query: WebhookEventQuery = {}): Promise<WebhookEventRecord[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.status !== undefined) {
+      const statuses = [query.status].flat();
+      const placeholders = statuses.map(status => {
+        params.push(status);
+        return `$${params.length}`;
+      });
+      conditions.push(`status IN (${placeholders.join(', ')})`);
+    }
+    if (query.method) {
+      params.push(query.method);
+      conditions.push(`payment_method = $${params.length}`);
+    }
+    if (query.receivedFrom) {
+      params.push(query.receivedFrom.toISOString());
+      conditions.push(`received_at >= $${params.length}`);
+    }
+    if (query.receivedTo) {
+      params.push(query.receivedTo.toISOString());
+      conditions.push(`received_at <= $${params.length}`);
+    }
+    if (query.dueBy) {
+      params.push(query.dueBy.toISOString());
+      conditions.push(`next_attempt_at <= $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.client.query<WebhookEventRow>(
+      `SELECT ${WEBHOOK_EVENT_COLUMNS} FROM webhook_events ${where}
+       ORDER BY received_at ASC, id ASC`,
+      params
+    );
+
+    return result.rows.map(row => this.toRecord(row));
+  }
+
+  private toRecord(row: WebhookEventRow): WebhookEventRecord {
+    return {
+      id: row.id,
+      method: row.payment_method,
+      ...(row.event_id && { eventId: row.event_id }),
+      ...(row.event_type && { eventType: row.event_type }),
+      payload: row.payload,
+      signature: row.signature,
+      signatureValid: Boolean(row.signature_valid),
+      status: row.status,
+      attempts: Number(row.attempts),
+      ...(row.last_error && { lastError: row.last_error }),
+      ...(row.payment_reference && { paymentId: row.payment_reference }),
+      ...(row.next_attempt_at && { nextAttemptAt: new Date(row.next_attempt_at) }),
+      ...(row.replayed_by && { replayedBy: row.replayed_by }),
+      receivedAt: new Date(row.received_at),
+      ...(row.processed_at && { processedAt: new Date(row.processed_at) }),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
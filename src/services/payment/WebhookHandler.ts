@@ -1,14 +1,21 @@
-import { CurlecGateway } from './CurlecGateway';
-import type { CurlecWebhookEvent } from './CurlecGateway';
+import type { PaymentWebhookEvent } from './PaymentGateway';
 import { PaymentService, paymentService } from './PaymentService';
-import { PaymentStatus } from '../../types';
+import { PaymentMethod, PaymentStatus, WebhookEventStatus } from '../../types';
+import type { WebhookEventRecord } from '../../types';
 import { globalEventEmitter } from '../../core/utils/EventEmitter';
 import { PAYMENT_EVENTS } from '../../core/constants';
+import {
+  DEFAULT_WEBHOOK_RETRY_POLICY,
+  InMemoryWebhookEventStore,
+  getWebhookRetryDelay,
+} from './WebhookEventStore';
+import type { WebhookEventQuery, WebhookEventStore, WebhookRetryPolicy } from './WebhookEventStore';
 
 export interface WebhookValidationResult {
   isValid: boolean;
   error?: string;
-  event?: CurlecWebhookEvent;
+  event?: PaymentWebhookEvent;
+  signatureValid?: boolean;
 }
 
 export interface WebhookProcessingResult {
@@ -16,64 +23,282 @@ export interface WebhookProcessingResult {
   message: string;
   paymentId?: string;
   status?: PaymentStatus;
+  /** Id of the stored webhook record, for retries and replays */
+  recordId?: string;
 }
 
+export interface WebhookReplayRange {
+  from: Date;
+  to: Date;
+  method?: PaymentMethod;
+  /** Defaults to every status except processed */
+  status?: WebhookEventStatus | WebhookEventStatus[];
+}
+
+const REPLAYABLE_STATUSES = [
+  WebhookEventStatus.RECEIVED,
+  WebhookEventStatus.FAILED,
+  WebhookEventStatus.DEAD_LETTER,
+  WebhookEventStatus.REJECTED,
+];
+
 export class WebhookHandler {
-  private curlecGateway: CurlecGateway;
   private paymentService: PaymentService;
-  private processedEvents: Set<string> = new Set();
-
-  constructor() {
-    this.curlecGateway = new CurlecGateway();
-    this.paymentService = paymentService;
+  private retryInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    service: PaymentService = paymentService,
+    private readonly store: WebhookEventStore = new InMemoryWebhookEventStore(),
+    private readonly retryPolicy: WebhookRetryPolicy = DEFAULT_WEBHOOK_RETRY_POLICY
+  ) {
+    this.paymentService = service;
   }
 
   async handleCurlecWebhook(payload: string, signature: string): Promise<WebhookProcessingResult> {
-    try {
-      const validation = await this.validateCurlecWebhook(payload, signature);
-      if (!validation.isValid || !validation.event) {
-        return {
-          success: false,
-          message: validation.error || 'Webhook validation failed',
-        };
-      }
+    return this.handleWebhook(PaymentMethod.CURLEC, payload, signature);
+  }
 
+  /**
+   * Stores the webhook as received, then processes it. Failures are retried
+   * with backoff until the retry policy gives up and dead-letters the event.
+   */
+  async handleWebhook(
+    method: PaymentMethod,
+    payload: string,
+    signature: string
+  ): Promise<WebhookProcessingResult> {
+    try {
+      const validation = await this.validateWebhook(method, payload, signature);
       const event = validation.event;
 
-      if (this.processedEvents.has(event.id)) {
-        return {
-          success: true,
-          message: 'Event already processed',
-        };
+      if (event) {
+        const existing = await this.store.findByEventId(method, event.id);
+        if (existing?.status === WebhookEventStatus.PROCESSED) {
+          return {
+            success: true,
+            message: 'Event already processed',
+            recordId: existing.id,
+          };
+        }
+
+        // A redelivery of an event we failed on counts as another attempt
+        if (existing) {
+          return this.attempt({ ...existing, payload, signature }, validation);
+        }
       }
 
-      const result = await this.processCurlecEvent(event);
+      const now = new Date();
+      const record: WebhookEventRecord = {
+        id: this.generateRecordId(),
+        method,
+        ...(event && { eventId: event.id, eventType: event.type }),
+        payload,
+        signature,
+        signatureValid: validation.signatureValid ?? false,
+        status: WebhookEventStatus.RECEIVED,
+        attempts: 0,
+        receivedAt: now,
+        updatedAt: now,
+      };
+      await this.store.save(record);
 
-      if (result.success) {
-        this.processedEvents.add(event.id);
+      return this.attempt(record, validation);
+    } catch (error) {
+      console.error('Webhook processing error:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
 
-        setTimeout(
-          () => {
-            this.processedEvents.delete(event.id);
-          },
-          24 * 60 * 60 * 1000
-        );
-      }
+  /**
+   * Re-runs a stored webhook from its raw payload, whatever its status.
+   * The signature is verified again, so events rejected while a secret was
+   * misconfigured can be recovered once it is fixed.
+   */
+  async replayEvent(recordId: string, replayedBy: string): Promise<WebhookProcessingResult> {
+    const record = await this.store.findById(recordId);
+    if (!record) {
+      return {
+        success: false,
+        message: `Webhook event not found: ${recordId}`,
+      };
+    }
 
-      return result;
+    try {
+      const validation = await this.validateWebhook(
+        record.method,
+        record.payload,
+        record.signature
+      );
+      return await this.attempt({ ...record, replayedBy }, validation);
     } catch (error) {
-      console.error('Webhook processing error:', error);
+      console.error(`Webhook replay failed for ${recordId}:`, error);
       return {
         success: false,
         message: error instanceof Error ? error.message : 'Unknown error',
+        recordId,
       };
     }
   }
 
-  private async validateCurlecWebhook(
+  /** Replays every stored webhook received within the range, oldest first. */
+  async replayEvents(
+    range: WebhookReplayRange,
+    replayedBy: string
+  ): Promise<WebhookProcessingResult[]> {
+    const records = await this.store.findMany({
+      receivedFrom: range.from,
+      receivedTo: range.to,
+      status: range.status ?? REPLAYABLE_STATUSES,
+      ...(range.method && { method: range.method }),
+    });
+
+    const results: WebhookProcessingResult[] = [];
+    for (const record of records) {
+      results.push(await this.replayEvent(record.id, replayedBy));
+    }
+    return results;
+  }
+
+  /** Retries failed webhooks whose backoff has elapsed. */
+  async retryDueEvents(now: Date = new Date()): Promise<WebhookProcessingResult[]> {
+    const records = await this.store.findMany({
+      status: WebhookEventStatus.FAILED,
+      dueBy: now,
+    });
+
+    const results: WebhookProcessingResult[] = [];
+    for (const record of records) {
+      const validation = await this.validateWebhook(
+        record.method,
+        record.payload,
+        record.signature
+      );
+      results.push(await this.attempt(record, validation));
+    }
+    return results;
+  }
+
+  startRetryScheduler(intervalMs: number = this.retryPolicy.baseDelayMs): void {
+    if (this.retryInterval) {
+      return;
+    }
+
+    this.retryInterval = setInterval(() => {
+      this.retryDueEvents().catch(error => {
+        console.error('Webhook retry run failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  stopRetryScheduler(): void {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = null;
+    }
+  }
+
+  async getEvent(recordId: string): Promise<WebhookEventRecord | null> {
+    return this.store.findById(recordId);
+  }
+
+  async getEvents(query: WebhookEventQuery = {}): Promise<WebhookEventRecord[]> {
+    return this.store.findMany(query);
+  }
+
+  async getDeadLetters(): Promise<WebhookEventRecord[]> {
+    return this.store.findMany({ status: WebhookEventStatus.DEAD_LETTER });
+  }
+
+  private async attempt(
+    record: WebhookEventRecord,
+    validation: WebhookValidationResult
+  ): Promise<WebhookProcessingResult> {
+    const current: WebhookEventRecord = { ...record };
+    delete current.nextAttemptAt;
+    delete current.lastError;
+    const attempts = record.attempts + 1;
+    const signatureValid = validation.signatureValid ?? false;
+
+    // Bad signatures and malformed payloads will not improve with retries
+    if (!validation.isValid || !validation.event) {
+      const message = validation.error || 'Webhook validation failed';
+      await this.store.save({
+        ...current,
+        signatureValid,
+        status: WebhookEventStatus.REJECTED,
+        attempts,
+        lastError: message,
+        updatedAt: new Date(),
+      });
+      return { success: false, message, recordId: record.id };
+    }
+
+    let result: WebhookProcessingResult;
+    try {
+      result = await this.processEvent(record.method, validation.event);
+    } catch (error) {
+      result = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    const now = new Date();
+    const base: WebhookEventRecord = {
+      ...current,
+      eventId: validation.event.id,
+      eventType: validation.event.type,
+      signatureValid,
+      attempts,
+      ...(result.paymentId && { paymentId: result.paymentId }),
+      updatedAt: now,
+    };
+
+    if (result.success) {
+      await this.store.save({ ...base, status: WebhookEventStatus.PROCESSED, processedAt: now });
+      return { ...result, recordId: record.id };
+    }
+
+    if (attempts >= this.retryPolicy.maxAttempts) {
+      const deadLetter = {
+        ...base,
+        status: WebhookEventStatus.DEAD_LETTER,
+        lastError: result.message,
+      };
+      await this.store.save(deadLetter);
+      await globalEventEmitter.emit(PAYMENT_EVENTS.WEBHOOK_DEAD_LETTERED, { record: deadLetter });
+      return { ...result, recordId: record.id };
+    }
+
+    const failed = {
+      ...base,
+      status: WebhookEventStatus.FAILED,
+      lastError: result.message,
+      nextAttemptAt: new Date(now.getTime() + getWebhookRetryDelay(attempts, this.retryPolicy)),
+    };
+    await this.store.save(failed);
+    await globalEventEmitter.emit(PAYMENT_EVENTS.WEBHOOK_FAILED, { record: failed });
+
+    return { ...result, recordId: record.id };
+  }
+
+  private async validateWebhook(
+    method: PaymentMethod,
     payload: string,
     signature: string
   ): Promise<WebhookValidationResult> {
+    if (!this.paymentService.hasGateway(method)) {
+      return {
+        isValid: false,
+        error: `No payment gateway registered for method: ${method}`,
+      };
+    }
+
+    const gateway = this.paymentService.getGateway(method);
+
     if (!signature) {
       return {
         isValid: false,
@@ -81,19 +306,21 @@ export class WebhookHandler {
       };
     }
 
-    const isSignatureValid = await this.curlecGateway.verifyWebhookSignature(payload, signature);
+    const isSignatureValid = await gateway.verifyWebhookSignature(payload, signature);
     if (!isSignatureValid) {
       return {
         isValid: false,
         error: 'Invalid webhook signature',
+        signatureValid: false,
       };
     }
 
-    const event = this.curlecGateway.parseWebhookEvent(payload);
+    const event = gateway.parseWebhookEvent(payload);
     if (!event) {
       return {
         isValid: false,
         error: 'Invalid webhook payload',
+        signatureValid: true,
       };
     }
 
@@ -101,16 +328,22 @@ export class WebhookHandler {
       return {
         isValid: false,
         error: `Unsupported event type: ${event.type}`,
+        event,
+        signatureValid: true,
       };
     }
 
     return {
       isValid: true,
       event,
+      signatureValid: true,
     };
   }
 
-  private async processCurlecEvent(event: CurlecWebhookEvent): Promise<WebhookProcessingResult> {
+  private async processEvent(
+    method: PaymentMethod,
+    event: PaymentWebhookEvent
+  ): Promise<WebhookProcessingResult> {
     const { data } = event;
     const orderId = data.orderId;
 
@@ -121,7 +354,9 @@ export class WebhookHandler {
       };
     }
 
-    const payment = await this.paymentService.getPaymentByOrderId(orderId);
+    const payment =
+      (data.id && (await this.paymentService.getPaymentByGatewayTransactionId(data.id))) ||
+      (await this.paymentService.getPaymentByOrderId(orderId));
     if (!payment) {
       return {
         success: false,
@@ -129,7 +364,14 @@ export class WebhookHandler {
       };
     }
 
-    const newStatus = this.mapCurlecEventToStatus(event.type, data.status);
+    if (payment.method !== method) {
+      return {
+        success: false,
+        message: `Payment ${payment.id} was not created on the ${method} gateway`,
+      };
+    }
+
+    const newStatus = this.mapEventToStatus(event.type, data.status);
     if (!newStatus) {
       return {
         success: false,
@@ -137,6 +379,11 @@ export class WebhookHandler {
       };
     }
 
+    // Later updates for this charge (e.g. refunds) match on the charge id
+    if (newStatus === PaymentStatus.COMPLETED && data.chargeId) {
+      await this.paymentService.recordGatewayCharge(payment.id, data.chargeId);
+    }
+
     const metadata = {
       webhookEvent: {
         id: event.id,
@@ -187,7 +434,7 @@ export class WebhookHandler {
     return validTypes.includes(eventType);
   }
 
-  private mapCurlecEventToStatus(eventType: string, dataStatus?: string): PaymentStatus | null {
+  private mapEventToStatus(eventType: string, dataStatus?: string): PaymentStatus | null {
     switch (eventType) {
       case 'payment.created':
         return PaymentStatus.PENDING;
@@ -236,13 +483,12 @@ export class WebhookHandler {
     }
   }
 
-  getProcessedEventsCount(): number {
-    return this.processedEvents.size;
-  }
-
-  clearProcessedEvents(): void {
-    this.processedEvents.clear();
+  private generateRecordId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substr(2, 6);
+    return `whk_${timestamp}_${random}`;
   }
 }
 
+// Keeps events in memory; the server uses the database-backed handler in config/database
 export const webhookHandler = new WebhookHandler();
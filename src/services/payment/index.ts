@@ -1,21 +1,90 @@
+export { PaymentGatewayRegistry } from './PaymentGateway';
 export { CurlecGateway, curlecGateway } from './CurlecGateway';
-export { PaymentService, paymentService } from './PaymentService';
+export { MockPaymentGateway, mockPaymentGateway } from './MockPaymentGateway';
+export {
+  TelegramStarsGateway,
+  HttpStarsInvoiceBackend,
+  STARS_CURRENCY,
+} from './TelegramStarsGateway';
+export { TonGateway, HttpTonPaymentBackend, NANOTONS_PER_TON } from './TonGateway';
+export {
+  LocalStarsInvoiceBackend,
+  LocalTonPaymentBackend,
+  localStarsInvoiceBackend,
+  localTonPaymentBackend,
+} from './LocalPaymentBackends';
+export { PaymentService, paymentService, paymentGatewayRegistry } from './PaymentService';
 export { WebhookHandler, webhookHandler } from './WebhookHandler';
+export {
+  InMemoryWebhookEventStore,
+  SqlWebhookEventStore,
+  DEFAULT_WEBHOOK_RETRY_POLICY,
+  getWebhookRetryDelay,
+} from './WebhookEventStore';
+export {
+  InMemoryRefundLedger,
+  SqlRefundLedger,
+  toMinorUnits,
+  fromMinorUnits,
+} from './RefundLedger';
 export { PaymentSyncService, paymentSyncService } from './PaymentSyncService';
+export {
+  ReconciliationService,
+  ReconciliationEntryType,
+  createPaymentLookup,
+} from './ReconciliationService';
 export { PaymentSecurityService, paymentSecurityService } from './PaymentSecurityService';
 
+export type { PaymentGateway, PaymentWebhookEvent } from './PaymentGateway';
+
 export type {
   CurlecPaymentRequest,
   CurlecPaymentResponse,
   CurlecWebhookEvent,
 } from './CurlecGateway';
 
+export type { MockGatewayConfig, MockGatewayPayment } from './MockPaymentGateway';
+
+export type {
+  StarsInvoice,
+  StarsInvoiceBackend,
+  StarsInvoiceRequest,
+  StarsInvoiceStatus,
+  TelegramStarsGatewayConfig,
+} from './TelegramStarsGateway';
+
+export type {
+  TonPaymentBackend,
+  TonTransfer,
+  TonTransferRequest,
+  TonTransferStatus,
+} from './TonGateway';
+
 export type { PaymentServiceConfig } from './PaymentService';
 
-export type { WebhookValidationResult, WebhookProcessingResult } from './WebhookHandler';
+export type {
+  WebhookValidationResult,
+  WebhookProcessingResult,
+  WebhookReplayRange,
+} from './WebhookHandler';
+
+export type { WebhookEventQuery, WebhookEventStore, WebhookRetryPolicy } from './WebhookEventStore';
+
+export type { RefundLedger } from './RefundLedger';
 
 export type { SyncConfig, SyncResult, SyncStats } from './PaymentSyncService';
 
+export type {
+  PaymentLookup,
+  ReconciliationEntry,
+  ReconciliationOptions,
+  ReconciliationReport,
+  ReconciliationSummary,
+  SettlementFormat,
+  SettlementLine,
+  SettlementParseOptions,
+} from './ReconciliationService';
+
 export type {
   SecurityConfig,
   SecurityValidationResult,
@@ -0,0 +1,130 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Bundle Service
+// ============================================================================
+
+import type { Product } from '../../types';
+import { productService } from './ProductService';
+import type { ProductService } from './ProductService';
+import { priceService } from './PriceService';
+import type { BundlePriceBreakdown, PriceService } from './PriceService';
+
+export type BundleCatalog = Pick<ProductService, 'getProductById'>;
+
+export type BundlePricer = Pick<PriceService, 'calculateBundlePrice'>;
+
+export interface ResolvedBundleComponent {
+  product: Product;
+  /** Units of the component in one bundle */
+  quantity: number;
+}
+
+export class InvalidBundleError extends Error {
+  constructor(
+    public readonly bundleId: string,
+    reason: string
+  ) {
+    super(`Bundle ${bundleId} is not available: ${reason}`);
+    this.name = 'InvalidBundleError';
+  }
+}
+
+/**
+ * Bundle products sell several catalog products, possibly from different
+ * plugins, as one SKU. The bundle itself holds no stock: it is available as
+ * long as every component is.
+ */
+export class BundleService {
+  constructor(
+    private readonly catalog: BundleCatalog = productService,
+    private readonly prices: BundlePricer = priceService
+  ) {}
+
+  isBundle(product: Product): boolean {
+    return (product.bundle?.components.length ?? 0) > 0;
+  }
+
+  /** Loads the components, refusing missing, inactive or nested bundle components */
+  async getComponents(bundle: Product): Promise<ResolvedBundleComponent[]> {
+    if (!this.isBundle(bundle)) {
+      throw new InvalidBundleError(bundle.id, 'it has no components');
+    }
+
+    const components: ResolvedBundleComponent[] = [];
+    for (const component of bundle.bundle?.components ?? []) {
+      if (!(component.quantity > 0)) {
+        throw new InvalidBundleError(bundle.id, `invalid quantity for ${component.productId}`);
+      }
+
+      const product = await this.catalog.getProductById(component.productId);
+      if (!product) {
+        throw new InvalidBundleError(bundle.id, `component ${component.productId} not found`);
+      }
+      if (!product.isActive) {
+        throw new InvalidBundleError(bundle.id, `component ${product.name} is not active`);
+      }
+      if (this.isBundle(product)) {
+        throw new InvalidBundleError(bundle.id, `component ${product.name} is itself a bundle`);
+      }
+
+      components.push({ product, quantity: component.quantity });
+    }
+    return components;
+  }
+
+  /**
+   * Whole bundles the components can still make. Components without stock
+   * tracking never limit it; undefined when none of them track stock.
+   */
+  async getAvailableStock(bundle: Product): Promise<number | undefined> {
+    return this.countAvailable(await this.getComponents(bundle));
+  }
+
+  async getPrice(bundle: Product): Promise<BundlePriceBreakdown> {
+    return this.price(bundle, await this.getComponents(bundle));
+  }
+
+  /** A copy of the bundle with its price and stock worked out from the components */
+  async resolve(bundle: Product): Promise<Product> {
+    const components = await this.getComponents(bundle);
+    const price = await this.price(bundle, components);
+    const available = this.countAvailable(components);
+
+    return {
+      ...bundle,
+      price: price.bundlePrice,
+      originalPrice: price.componentTotal,
+      ...(available !== undefined && {
+        stock: {
+          available,
+          reserved: 0,
+          total: available,
+          lowStockThreshold: bundle.stock?.lowStockThreshold ?? 5,
+        },
+      }),
+    };
+  }
+
+  private countAvailable(components: ResolvedBundleComponent[]): number | undefined {
+    let available: number | undefined;
+    for (const component of components) {
+      if (!component.product.stock) continue;
+
+      const bundles = Math.floor(component.product.stock.available / component.quantity);
+      available = available === undefined ? bundles : Math.min(available, bundles);
+    }
+    return available;
+  }
+
+  private async price(
+    bundle: Product,
+    components: ResolvedBundleComponent[]
+  ): Promise<BundlePriceBreakdown> {
+    const result = await this.prices.calculateBundlePrice(bundle, components);
+    if (!result.success || !result.data) {
+      throw new InvalidBundleError(bundle.id, result.error?.message || 'it cannot be priced');
+    }
+    return result.data;
+  }
+}
+
+export const bundleService = new BundleService();
@@ -1,9 +1,31 @@
-import type { CartItem, CartState, ApiResponse, Product } from '../../types';
+import type {
+  AppliedPromotion,
+  CartItem,
+  CartState,
+  ApiResponse,
+  Product,
+  SyncedCart,
+  TaxLine,
+} from '../../types';
+import { ProductCategory } from '../../types';
 import { productService } from './ProductService';
 import { priceService, type PriceCalculationResult } from './PriceService';
 import { inventoryService } from './InventoryService';
+import { bundleService } from './BundleService';
 import { EventEmitter } from '../../core/utils/EventEmitter';
 import { Logger } from '../../core/utils/Logger';
+import { currencyService } from '../currency/CurrencyService';
+import { roundMoney } from '../currency/Money';
+import { taxService } from '../tax/TaxService';
+import type { TaxableItem } from '../tax/TaxService';
+import { promotionService } from '../promotion/PromotionService';
+import { CART_VERSION_CONFLICT, cartSyncService, mergeCartVersions } from '../cart/CartSyncService';
+import type { CartContents, CartMergeResult, CartSyncService } from '../cart/CartSyncService';
+import type {
+  PromotionContext,
+  PromotionLine,
+  PromotionRejection,
+} from '../promotion/PromotionService';
 
 export interface CartDiscount {
   id: string;
@@ -13,7 +35,6 @@ export interface CartDiscount {
   description: string;
   conditions?: {
     minAmount?: number;
-    maxUses?: number;
     validUntil?: Date;
     applicableProducts?: string[];
     applicableCategories?: string[];
@@ -42,7 +63,21 @@ export interface CartSummary {
   savings: number;
   priceCalculations: Record<string, PriceCalculationResult>;
   estimatedTax?: number;
+  /** Per-line taxes; inclusive lines are already part of `total` */
+  taxLines: TaxLine[];
   finalTotal: number;
+  /** Applied coupons that no longer fit the cart, e.g. after items were removed */
+  rejectedCoupons: PromotionRejection[];
+  /** Items with no exchange rate to `currency`; they are left out of every total */
+  unpricedProductIds: string[];
+}
+
+export type CartSyncClient = Pick<CartSyncService, 'getCart' | 'saveCart' | 'mergeCart'>;
+
+interface StoredCartSync {
+  userId: string | null;
+  version: number;
+  base: CartContents;
 }
 
 export interface CartValidationResult {
@@ -55,17 +90,27 @@ export interface CartValidationResult {
 
 export class CartService extends EventEmitter {
   private cartItems: CartItem[] = [];
-  private listeners: Array<(cart: CartState) => void> = [];
+  // Separate from the EventEmitter listener map this class inherits
+  private cartListeners: Array<(cart: CartState) => void> = [];
   private discounts: CartDiscount[] = [];
+  private couponCodes: string[] = [];
   private logger = new Logger('CartService');
   private savedForLater: CartItem[] = [];
   private priceCalculations: Record<string, PriceCalculationResult> = {};
   private autoRecalculateEnabled = true;
   private recalculateTimer?: number;
+  // Signed-in user whose server cart this one is kept in step with
+  private userId: string | null = null;
+  // Server version and contents the local cart last matched
+  private syncedVersion = 0;
+  private syncBase: CartContents = { items: [], couponCodes: [] };
+  private autoSyncEnabled = true;
+  private syncTimer?: number;
+  private applyingSyncedCart = false;
 
   async addToCart(productId: string, quantity: number = 1): Promise<ApiResponse<CartItem>> {
     try {
-      const product = await productService.getProductById(productId);
+      const product = await this.loadProduct(productId);
 
       if (!product) {
         return {
@@ -90,7 +135,7 @@ export class CartService extends EventEmitter {
       }
 
       // Check stock level
-      if (!(await productService.checkStock(productId))) {
+      if (!(await this.hasStock(product))) {
         return {
           success: false,
           error: {
@@ -266,6 +311,7 @@ export class CartService extends EventEmitter {
   async clearCart(): Promise<ApiResponse<boolean>> {
     try {
       this.cartItems = [];
+      this.couponCodes = [];
       this.notifyListeners();
 
       return {
@@ -285,14 +331,18 @@ export class CartService extends EventEmitter {
   }
 
   getCartState(): CartState {
-    const total = this.cartItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+    const currency = this.getCartCurrency();
+    const unpriced = this.getUnpricedItems(currency);
 
     return {
       items: this.cartItems,
-      total,
-      currency: this.cartItems[0]?.product.currency || 'USD',
+      total: this.getTotalValue(),
+      currency,
       isLoading: false,
-      error: null,
+      error:
+        unpriced.length > 0
+          ? `Prices of ${unpriced.map(item => item.product.name).join(', ')} cannot be shown in ${currency}`
+          : null,
     };
   }
 
@@ -301,7 +351,34 @@ export class CartService extends EventEmitter {
   }
 
   getTotalValue(): number {
-    return this.cartItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+    const currency = this.getCartCurrency();
+    return this.getPricedItems(currency).reduce(
+      (sum, item) => sum + this.toCartCurrency(item.product.price * item.quantity, item, currency),
+      0
+    );
+  }
+
+  // Totals are shown in the shopper's display currency, else the first item's
+  private getCartCurrency(): string {
+    return currencyService.getDisplayCurrency() || this.cartItems[0]?.product.currency || 'USD';
+  }
+
+  // Throws for items without an exchange rate; totals only add up priced items
+  private toCartCurrency(amount: number, item: CartItem, currency: string): number {
+    return currencyService.convert(amount, item.product.currency || currency, currency);
+  }
+
+  private canPriceIn(item: CartItem, currency: string): boolean {
+    return currencyService.canConvert(item.product.currency || currency, currency);
+  }
+
+  private getPricedItems(currency: string): CartItem[] {
+    return this.cartItems.filter(item => this.canPriceIn(item, currency));
+  }
+
+  /** Items listed in a currency with no rate to `currency`, left out of every total */
+  private getUnpricedItems(currency: string): CartItem[] {
+    return this.cartItems.filter(item => !this.canPriceIn(item, currency));
   }
 
   isInCart(productId: string): boolean {
@@ -318,7 +395,7 @@ export class CartService extends EventEmitter {
       const errors: string[] = [];
 
       for (const item of this.cartItems) {
-        const product = await productService.getProductById(item.productId);
+        const product = await this.loadProduct(item.productId);
 
         if (!product) {
           errors.push(`Product ${item.product.name} is no longer available`);
@@ -330,7 +407,7 @@ export class CartService extends EventEmitter {
           continue;
         }
 
-        if (!(await productService.checkStock(item.productId))) {
+        if (!(await this.hasStock(product))) {
           errors.push(`Product ${item.product.name} is out of stock`);
           continue;
         }
@@ -340,6 +417,11 @@ export class CartService extends EventEmitter {
         }
       }
 
+      const currency = this.getCartCurrency();
+      for (const item of this.getUnpricedItems(currency)) {
+        errors.push(`Price of ${item.product.name} cannot be shown in ${currency}`);
+      }
+
       resolve({
         isValid: errors.length === 0,
         errors,
@@ -348,19 +430,44 @@ export class CartService extends EventEmitter {
   }
 
   onCartChange(listener: (cart: CartState) => void): () => void {
-    this.listeners.push(listener);
+    this.cartListeners.push(listener);
 
     return () => {
-      const index = this.listeners.indexOf(listener);
+      const index = this.cartListeners.indexOf(listener);
       if (index > -1) {
-        this.listeners.splice(index, 1);
+        this.cartListeners.splice(index, 1);
       }
     };
   }
 
+  /** Fetches a product, pricing bundles from their current components */
+  private async loadProduct(productId: string): Promise<Product | null> {
+    const product = await productService.getProductById(productId);
+    if (!product || !bundleService.isBundle(product)) {
+      return product;
+    }
+
+    try {
+      return await bundleService.resolve(product);
+    } catch (error) {
+      this.logger.warn(`Bundle ${productId} cannot be sold`, error);
+      return null;
+    }
+  }
+
+  private async hasStock(product: Product): Promise<boolean> {
+    if (bundleService.isBundle(product)) {
+      return product.stock ? product.stock.available > 0 : true;
+    }
+    return productService.checkStock(product.id);
+  }
+
   private notifyListeners(): void {
     const cartState = this.getCartState();
-    this.listeners.forEach(listener => listener(cartState));
+    this.cartListeners.forEach(listener => listener(cartState));
+    if (!this.applyingSyncedCart) {
+      this.scheduleSync();
+    }
   }
 
   saveToStorage(): void {
@@ -368,7 +475,13 @@ export class CartService extends EventEmitter {
       const cartData = {
         items: this.cartItems,
         discounts: this.discounts,
+        couponCodes: this.couponCodes,
         savedForLater: this.savedForLater,
+        sync: {
+          userId: this.userId,
+          version: this.syncedVersion,
+          base: this.syncBase,
+        } satisfies StoredCartSync,
         timestamp: Date.now(),
       };
       localStorage.setItem('mtyb-cart', JSON.stringify(cartData));
@@ -392,18 +505,206 @@ export class CartService extends EventEmitter {
 
       this.cartItems = cartData.items || [];
       this.discounts = cartData.discounts || [];
+      this.couponCodes = cartData.couponCodes || [];
       this.savedForLater = cartData.savedForLater || [];
+      const sync = cartData.sync as StoredCartSync | undefined;
+      if (sync?.userId) {
+        this.userId = sync.userId;
+        this.syncedVersion = sync.version;
+        this.syncBase = {
+          items: sync.base.items.map(item => ({ ...item, addedAt: new Date(item.addedAt) })),
+          couponCodes: sync.base.couponCodes,
+        };
+      }
       this.notifyListeners();
     } catch (error) {
       console.warn('Failed to load cart from storage:', error);
     }
   }
 
-  constructor() {
+  constructor(private readonly sync: CartSyncClient = cartSyncService) {
     super();
     this.loadFromStorage();
   }
 
+  // ============================================================================
+  // Server Sync
+  // ============================================================================
+
+  /**
+   * Links the cart to a signed-in user. The guest cart is merged into the
+   * user's server cart and the merged cart, repriced from the catalog, is
+   * loaded here. Signing in again as the same user just syncs.
+   */
+  async attachUser(userId: string): Promise<ApiResponse<CartMergeResult>> {
+    if (this.userId === userId) {
+      const synced = await this.syncCart();
+      return synced.success && synced.data
+        ? { success: true, data: { cart: synced.data, priceChanges: [], removedProductIds: [] } }
+        : { success: false, ...(synced.error && { error: synced.error }) };
+    }
+
+    const result = await this.sync.mergeCart(userId, this.getSyncContents());
+    if (!result.success || !result.data) {
+      this.logger.warn(`Failed to merge cart for user ${userId}`, result.error);
+      return result;
+    }
+
+    this.userId = userId;
+    await this.applySyncedCart(result.data.cart);
+    if (result.data.priceChanges.length > 0) {
+      void this.emit('cartPricesRefreshed', result.data.priceChanges);
+    }
+    return result;
+  }
+
+  /** Unlinks the cart on sign-out; the items stay on the server for the next sign-in */
+  detachUser(): void {
+    if (this.syncTimer) {
+      window.clearTimeout(this.syncTimer);
+    }
+    this.userId = null;
+    this.syncedVersion = 0;
+    this.syncBase = { items: [], couponCodes: [] };
+    this.applyingSyncedCart = true;
+    try {
+      this.cartItems = [];
+      this.couponCodes = [];
+      this.notifyListeners();
+    } finally {
+      this.applyingSyncedCart = false;
+    }
+    this.saveToStorage();
+  }
+
+  getSyncedUserId(): string | null {
+    return this.userId;
+  }
+
+  /**
+   * Pushes local edits to the server cart, or pulls the server cart when
+   * there are none. When another device wrote in between, both sides' edits
+   * are merged against the last synced contents and pushed again.
+   */
+  async syncCart(): Promise<ApiResponse<SyncedCart>> {
+    const userId = this.userId;
+    if (!userId) {
+      return {
+        success: false,
+        error: { code: 'CART_NOT_SIGNED_IN', message: 'Sign in to sync the cart' },
+      };
+    }
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const local = this.getSyncContents();
+      if (this.sameContents(local, this.syncBase)) {
+        const remote = await this.sync.getCart(userId);
+        if (remote.version !== this.syncedVersion) {
+          await this.applySyncedCart(remote);
+        }
+        return { success: true, data: remote };
+      }
+
+      const result = await this.sync.saveCart(userId, local, this.syncedVersion);
+      if (result.success && result.data) {
+        this.markSynced(result.data);
+        return result;
+      }
+      if (result.error?.code !== CART_VERSION_CONFLICT || !result.data) {
+        return result;
+      }
+
+      const merged = mergeCartVersions(this.syncBase, local, result.data);
+      this.markSynced(result.data);
+      await this.applyContents(merged);
+    }
+
+    return {
+      success: false,
+      error: { code: CART_VERSION_CONFLICT, message: 'The cart kept changing on another device' },
+    };
+  }
+
+  setAutoSync(enabled: boolean): void {
+    this.autoSyncEnabled = enabled;
+    if (!enabled && this.syncTimer) {
+      window.clearTimeout(this.syncTimer);
+    }
+  }
+
+  private scheduleSync(): void {
+    if (!this.autoSyncEnabled || !this.userId) return;
+
+    if (this.syncTimer) {
+      window.clearTimeout(this.syncTimer);
+    }
+
+    this.syncTimer = window.setTimeout(() => {
+      this.syncCart().catch((error: unknown) => {
+        this.logger.error('Failed to sync cart', error instanceof Error ? error : undefined);
+      });
+    }, 1000); // Debounce for 1 second
+  }
+
+  private getSyncContents(): CartContents {
+    return {
+      items: this.cartItems.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        addedAt: item.addedAt,
+        unitPrice: item.product.price,
+        currency: item.product.currency,
+      })),
+      couponCodes: [...this.couponCodes],
+    };
+  }
+
+  private sameContents(a: CartContents, b: CartContents): boolean {
+    const key = (contents: CartContents) =>
+      JSON.stringify([
+        contents.items.map(item => `${item.productId}:${item.quantity}`).sort(),
+        [...contents.couponCodes].sort(),
+      ]);
+    return key(a) === key(b);
+  }
+
+  private markSynced(cart: SyncedCart): void {
+    this.syncedVersion = cart.version;
+    this.syncBase = { items: cart.items, couponCodes: cart.couponCodes };
+    this.saveToStorage();
+  }
+
+  private async applySyncedCart(cart: SyncedCart): Promise<void> {
+    this.markSynced(cart);
+    await this.applyContents(cart);
+  }
+
+  /** Replaces the local lines, loading current product data for each */
+  private async applyContents(contents: CartContents): Promise<void> {
+    const items: CartItem[] = [];
+    for (const line of contents.items) {
+      const product = await this.loadProduct(line.productId);
+      if (!product) continue;
+
+      items.push({
+        productId: line.productId,
+        product,
+        quantity: line.quantity,
+        addedAt: new Date(line.addedAt),
+      });
+    }
+
+    this.applyingSyncedCart = true;
+    try {
+      this.cartItems = items;
+      this.couponCodes = [...contents.couponCodes];
+      this.notifyListeners();
+    } finally {
+      this.applyingSyncedCart = false;
+    }
+    this.saveToStorage();
+  }
+
   // 批量操作方法
   async bulkAddToCart(
     items: Array<{ productId: string; quantity: number }>
@@ -527,17 +828,36 @@ export class CartService extends EventEmitter {
   }
 
   // 优惠券和折扣管理
+  /**
+   * Applies one of the cart's automatic offers. Discounts with a code are
+   * coupons and go through the promotion service instead.
+   */
   async applyDiscount(discount: Omit<CartDiscount, 'applied'>): Promise<ApiResponse<CartDiscount>> {
+    if (discount.code) {
+      return this.applyCoupon(discount.code);
+    }
+
     try {
-      // Validate discount conditions
-      const validation = await this.validateDiscount(discount);
-      if (!validation.isValid) {
+      const conditions = discount.conditions || {};
+      const reason = promotionService.checkRules(
+        {
+          ...(conditions.minAmount !== undefined && { minAmount: conditions.minAmount }),
+          ...(conditions.validUntil && { endsAt: new Date(conditions.validUntil) }),
+          ...(conditions.applicableProducts && { productIds: conditions.applicableProducts }),
+          ...(conditions.applicableCategories && {
+            categories: conditions.applicableCategories as ProductCategory[],
+          }),
+          currency: this.getCartCurrency(),
+        },
+        this.getPromotionContext()
+      );
+      if (reason) {
         return {
           success: false,
           error: {
             code: 'INVALID_DISCOUNT',
-            message: validation.errors[0] || 'Invalid discount',
-            details: { errors: validation.errors },
+            message: reason,
+            details: { errors: [reason] },
           },
         };
       }
@@ -608,47 +928,90 @@ export class CartService extends EventEmitter {
     }
   }
 
-  private async validateDiscount(
-    discount: Omit<CartDiscount, 'applied'>
-  ): Promise<{ isValid: boolean; errors: string[] }> {
-    const errors: string[] = [];
-    const cartSummary = this.getCartSummary();
+  /**
+   * Adds a coupon code after checking it against the current cart. Pass the
+   * user id to check per-customer limits; the order repeats every check.
+   */
+  async applyCoupon(code: string, userId?: string): Promise<ApiResponse<CartDiscount>> {
+    const normalized = code.trim().toUpperCase();
+    if (this.couponCodes.includes(normalized)) {
+      return {
+        success: false,
+        error: { code: 'INVALID_COUPON', message: 'Coupon code is already applied' },
+      };
+    }
 
-    if (discount.conditions) {
-      // Check minimum amount
-      if (discount.conditions.minAmount && cartSummary.subtotal < discount.conditions.minAmount) {
-        errors.push(`Minimum order amount of ${discount.conditions.minAmount} required`);
-      }
+    const evaluation = promotionService.evaluate([...this.couponCodes, normalized], {
+      ...this.getPromotionContext(),
+      ...(userId && { userId }),
+    });
+    const rejection = evaluation.rejected.find(rejected => rejected.code === normalized);
+    const applied = evaluation.applied.find(promotion => promotion.code === normalized);
+    if (rejection || !applied) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_COUPON',
+          message: rejection?.reason || 'Coupon code cannot be applied',
+        },
+      };
+    }
 
-      // Check validity date
-      if (discount.conditions.validUntil && new Date() > discount.conditions.validUntil) {
-        errors.push('Discount has expired');
-      }
+    this.couponCodes.push(normalized);
+    const discount = this.toCouponDiscount(applied);
+    this.notifyListeners();
+    void this.emit('discountApplied', discount);
+    this.logger.info(`Applied coupon: ${normalized}`, { discount });
 
-      // Check applicable products
-      if (discount.conditions.applicableProducts) {
-        const hasApplicableProduct = this.cartItems.some(item =>
-          discount.conditions!.applicableProducts!.includes(item.productId)
-        );
-        if (!hasApplicableProduct) {
-          errors.push('No applicable products in cart');
-        }
-      }
+    return { success: true, data: discount };
+  }
 
-      // Check applicable categories
-      if (discount.conditions.applicableCategories) {
-        const hasApplicableCategory = this.cartItems.some(item =>
-          discount.conditions!.applicableCategories!.includes(item.product.category)
-        );
-        if (!hasApplicableCategory) {
-          errors.push('No products from applicable categories in cart');
-        }
-      }
+  removeCoupon(code: string): boolean {
+    const normalized = code.trim().toUpperCase();
+    const index = this.couponCodes.indexOf(normalized);
+    if (index === -1) {
+      return false;
     }
 
+    this.couponCodes.splice(index, 1);
+    this.notifyListeners();
+    void this.emit('couponRemoved', { code: normalized });
+    return true;
+  }
+
+  /** Codes to send with the order so the coupons are redeemed */
+  getCouponCodes(): string[] {
+    return [...this.couponCodes];
+  }
+
+  private getPromotionContext(): PromotionContext {
+    const currency = this.getCartCurrency();
+    const items: PromotionLine[] = this.getPricedItems(currency).map(item => {
+      const priceCalc = this.priceCalculations[item.productId];
+      const lineTotal = this.toCartCurrency(
+        priceCalc ? priceCalc.finalPrice : item.product.price * item.quantity,
+        item,
+        currency
+      );
+      return {
+        productId: item.productId,
+        category: item.product.category,
+        quantity: item.quantity,
+        unitPrice: item.quantity > 0 ? lineTotal / item.quantity : 0,
+      };
+    });
+
+    return { currency, items };
+  }
+
+  private toCouponDiscount(applied: AppliedPromotion): CartDiscount {
     return {
-      isValid: errors.length === 0,
-      errors,
+      id: `coupon-${applied.promotionId}`,
+      type: 'fixed_amount',
+      value: applied.amount,
+      ...(applied.code && { code: applied.code }),
+      description: applied.name,
+      applied: true,
     };
   }
 
@@ -658,23 +1021,39 @@ export class CartService extends EventEmitter {
     let calculatedSubtotal = 0;
     let totalSavings = 0;
     let totalDiscount = 0;
-
-    // Calculate subtotals using price calculations
-    for (const item of this.cartItems) {
-      const originalItemTotal = item.product.price * item.quantity;
+    const currency = this.getCartCurrency();
+    const taxableItems: TaxableItem[] = [];
+
+    // Calculate subtotals using price calculations, converted to the cart currency
+    for (const item of this.getPricedItems(currency)) {
+      const originalItemTotal = this.toCartCurrency(
+        item.product.price * item.quantity,
+        item,
+        currency
+      );
       subtotal += originalItemTotal;
 
       const priceCalc = this.priceCalculations[item.productId];
+      const itemTotal = priceCalc
+        ? this.toCartCurrency(priceCalc.finalPrice, item, currency)
+        : originalItemTotal;
+      calculatedSubtotal += itemTotal;
       if (priceCalc) {
-        calculatedSubtotal += priceCalc.finalPrice;
-        totalSavings += priceCalc.totalDiscount;
-      } else {
-        calculatedSubtotal += originalItemTotal;
+        totalSavings += this.toCartCurrency(priceCalc.totalDiscount, item, currency);
       }
+      taxableItems.push({
+        productId: item.productId,
+        category: item.product.category,
+        amount: itemTotal,
+      });
 
       // Calculate savings from original prices
       if (item.product.originalPrice && item.product.originalPrice > item.product.price) {
-        totalSavings += (item.product.originalPrice - item.product.price) * item.quantity;
+        totalSavings += this.toCartCurrency(
+          (item.product.originalPrice - item.product.price) * item.quantity,
+          item,
+          currency
+        );
       }
     }
 
@@ -691,22 +1070,36 @@ export class CartService extends EventEmitter {
         case 'buy_x_get_y':
           // Simplified buy X get Y logic
           // In reality, this would be more complex based on specific products
-          totalDiscount += this.calculateBuyXGetYDiscount(discount);
+          totalDiscount += this.calculateBuyXGetYDiscount(discount, currency);
           break;
       }
     }
 
+    // Coupons are priced by the promotion service, which also decides which combine
+    const coupons = promotionService.evaluate(this.couponCodes, this.getPromotionContext());
+    totalDiscount = Math.min(totalDiscount + coupons.totalDiscount, calculatedSubtotal);
+
     const total = Math.max(0, calculatedSubtotal - totalDiscount);
     const itemCount = this.cartItems.reduce((sum, item) => sum + item.quantity, 0);
-    const currency = this.cartItems[0]?.product.currency || 'USD';
 
-    // Estimate tax (simplified - would be based on location and tax rules)
-    const estimatedTax = total * 0.08; // 8% tax rate
-    const finalTotal = total + estimatedTax;
+    // Cart discounts are spread over the lines in proportion to their value
+    const discountRatio = calculatedSubtotal > 0 ? total / calculatedSubtotal : 0;
+    const tax = taxService.calculate(
+      taxableItems.map(item => ({
+        ...item,
+        amount: roundMoney(item.amount * discountRatio, currency),
+      })),
+      { currency }
+    );
+    const estimatedTax = tax.totalTax;
+    const finalTotal = total + tax.exclusiveTax;
 
     return {
       subtotal,
-      discounts: this.discounts.filter(d => d.applied),
+      discounts: [
+        ...this.discounts.filter(d => d.applied),
+        ...coupons.applied.map(applied => this.toCouponDiscount(applied)),
+      ],
       totalDiscount,
       total,
       currency,
@@ -714,23 +1107,26 @@ export class CartService extends EventEmitter {
       savings: totalSavings + totalDiscount,
       priceCalculations: { ...this.priceCalculations },
       estimatedTax,
+      taxLines: tax.lines,
       finalTotal,
+      rejectedCoupons: coupons.rejected,
+      unpricedProductIds: this.getUnpricedItems(currency).map(item => item.productId),
     };
   }
 
-  private calculateBuyXGetYDiscount(discount: CartDiscount): number {
+  private calculateBuyXGetYDiscount(discount: CartDiscount, currency: string): number {
     // Simplified buy X get Y calculation
     // This would be more sophisticated in a real implementation
     let discountAmount = 0;
 
     if (discount.conditions?.applicableProducts) {
-      const applicableItems = this.cartItems.filter(item =>
+      const applicableItems = this.getPricedItems(currency).filter(item =>
         discount.conditions!.applicableProducts!.includes(item.productId)
       );
 
       for (const item of applicableItems) {
         const freeItems = Math.floor(item.quantity / (discount.value + 1));
-        discountAmount += freeItems * item.product.price;
+        discountAmount += this.toCartCurrency(freeItems * item.product.price, item, currency);
       }
     }
 
@@ -744,10 +1140,10 @@ export class CartService extends EventEmitter {
     const updatedItems: CartItem[] = [];
     const removedItems: CartItem[] = [];
 
-          for (let i = this.cartItems.length - 1; i >= 0; i--) {
+    for (let i = this.cartItems.length - 1; i >= 0; i--) {
       const item = this.cartItems[i];
       if (!item) continue;
-      const product = await productService.getProductById(item.productId);
+      const product = await this.loadProduct(item.productId);
 
       if (!product) {
         errors.push(`Product ${item.product.name} is no longer available`);
@@ -764,7 +1160,7 @@ export class CartService extends EventEmitter {
       }
 
       // Check stock availability
-      const stockAvailable = await productService.checkStock(item.productId);
+      const stockAvailable = await this.hasStock(product);
       if (!stockAvailable) {
         errors.push(`Product ${item.product.name} is out of stock`);
         removedItems.push(item);
@@ -956,6 +1352,7 @@ export class CartService extends EventEmitter {
       items: this.cartItems,
       savedForLater: this.savedForLater,
       discounts: this.discounts,
+      couponCodes: this.couponCodes,
       summary: this.getCartSummary(),
     };
     return JSON.stringify(exportData, null, 2);
@@ -1050,7 +1447,9 @@ export class CartService extends EventEmitter {
 
     // Bundle discount detection (example: VPN + Security bundle)
     const hasVpn = this.cartItems.some(item => item.product.category === 'vpn');
-    const hasSecurity = this.cartItems.some(item => item.product.category === ProductCategory.SECURITY);
+    const hasSecurity = this.cartItems.some(
+      item => item.product.category === ProductCategory.SECURITY
+    );
 
     if (hasVpn && hasSecurity && !this.discounts.some(d => d.id === 'vpn-security-bundle')) {
       const bundleDiscount: CartDiscount = {
@@ -1213,8 +1612,11 @@ export class CartService extends EventEmitter {
     if (this.recalculateTimer) {
       window.clearTimeout(this.recalculateTimer);
     }
+    if (this.syncTimer) {
+      window.clearTimeout(this.syncTimer);
+    }
     this.removeAllListeners();
-    this.listeners = [];
+    this.cartListeners = [];
   }
 }
 
@@ -0,0 +1,129 @@
+import type { InventoryTransaction } from './InventoryService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ForecastOptions {
+  /** Days of SALE history the forecast looks back over */
+  historyDays: number;
+  /** Days averaged by the moving average */
+  movingAverageWindow: number;
+  /** Weight of the latest day in exponential smoothing, between 0 and 1 */
+  smoothingAlpha: number;
+  /** Days between placing a restock and the stock being sellable */
+  leadTimeDays: number;
+  /** Extra days of demand kept on hand against a busier week than forecast */
+  safetyDays: number;
+  /** Days of demand one restock should cover */
+  targetCoverDays: number;
+}
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  historyDays: 28,
+  movingAverageWindow: 7,
+  smoothingAlpha: 0.3,
+  leadTimeDays: 2,
+  safetyDays: 1,
+  targetCoverDays: 14,
+};
+
+export interface InventoryForecast {
+  productId: string;
+  currentStock: number;
+  /** Mean daily sales over the moving-average window */
+  movingAverageDailySales: number;
+  /** Smoothed daily sales; this is the demand the rest of the forecast uses */
+  forecastDailySales: number;
+  /** Days the current stock lasts at the forecast demand; null without demand */
+  daysOfCover: number | null;
+  predictedStockOutDate: Date | null;
+  /** Stock level at which to restock so it arrives before running out */
+  reorderPoint: number;
+  /** Units to order now to get back to a full cover; 0 while above the reorder point */
+  suggestedRestockQuantity: number;
+  /** AUTO_RESTOCK conditions that keep the product within its cover */
+  suggestedRule: { lowStockThreshold: number; autoRestockAmount: number } | null;
+}
+
+/** Units sold per day over the last `days` days, oldest first; days are 24h back from `now` */
+export function dailySales(
+  transactions: InventoryTransaction[],
+  productId: string,
+  days: number,
+  now: Date = new Date()
+): number[] {
+  const series = new Array<number>(days).fill(0);
+  const end = now.getTime();
+
+  for (const transaction of transactions) {
+    if (transaction.type !== 'SALE' || transaction.productId !== productId) continue;
+
+    const age = Math.floor((end - transaction.createdAt.getTime()) / DAY_MS);
+    if (age < 0 || age >= days) continue;
+    const bucket = days - 1 - age;
+    series[bucket] = (series[bucket] ?? 0) + Math.abs(transaction.quantity);
+  }
+
+  return series;
+}
+
+export function movingAverage(series: number[], window: number): number {
+  const recent = series.slice(-window);
+  return recent.length > 0 ? recent.reduce((sum, value) => sum + value, 0) / recent.length : 0;
+}
+
+/** Simple exponential smoothing, seeded with the first observation */
+export function exponentialSmoothing(series: number[], alpha: number): number {
+  let level = series[0] ?? 0;
+  for (const value of series.slice(1)) {
+    level = alpha * value + (1 - alpha) * level;
+  }
+  return level;
+}
+
+/**
+ * Looks ahead from a product's SALE history: how long the stock lasts, when
+ * it runs out, and how much to restock. Demand is the exponentially smoothed
+ * daily sales, so recent days weigh more than the start of the window.
+ */
+export function forecastInventory(
+  productId: string,
+  currentStock: number,
+  transactions: InventoryTransaction[],
+  options: Partial<ForecastOptions> = {},
+  now: Date = new Date()
+): InventoryForecast {
+  const settings = { ...DEFAULT_FORECAST_OPTIONS, ...options };
+  const series = dailySales(transactions, productId, settings.historyDays, now);
+  const demand = exponentialSmoothing(series, settings.smoothingAlpha);
+  const stock = Math.max(0, currentStock);
+
+  if (!(demand > 0)) {
+    return {
+      productId,
+      currentStock,
+      movingAverageDailySales: movingAverage(series, settings.movingAverageWindow),
+      forecastDailySales: 0,
+      daysOfCover: null,
+      predictedStockOutDate: null,
+      reorderPoint: 0,
+      suggestedRestockQuantity: 0,
+      suggestedRule: null,
+    };
+  }
+
+  const daysOfCover = stock / demand;
+  const reorderPoint = Math.ceil(demand * (settings.leadTimeDays + settings.safetyDays));
+  const cycleStock = Math.ceil(demand * settings.targetCoverDays);
+
+  return {
+    productId,
+    currentStock,
+    movingAverageDailySales: movingAverage(series, settings.movingAverageWindow),
+    forecastDailySales: demand,
+    daysOfCover,
+    predictedStockOutDate: new Date(now.getTime() + daysOfCover * DAY_MS),
+    reorderPoint,
+    suggestedRestockQuantity: stock <= reorderPoint ? reorderPoint + cycleStock - stock : 0,
+    suggestedRule: { lowStockThreshold: reorderPoint, autoRestockAmount: cycleStock },
+  };
+}
@@ -2,6 +2,8 @@ import type { Product, ApiResponse } from '../../types';
 import { EventEmitter } from '../../core/utils/EventEmitter';
 import { Logger } from '../../core/utils/Logger';
 import { pluginManager } from '../../core/plugin/PluginManager';
+import { forecastInventory } from './InventoryForecast';
+import type { ForecastOptions, InventoryForecast } from './InventoryForecast';
 
 export interface StockAlert {
   id: string;
@@ -309,12 +311,15 @@ export class InventoryService extends EventEmitter {
     product: Product
   ): Promise<ApiResponse<{ restocked: boolean; newStock: number }>> {
     try {
-      const applicableRules = this.rules.filter(
-        rule =>
-          rule.isActive &&
-          rule.ruleType === 'AUTO_RESTOCK' &&
-          (rule.productId === product.id || rule.productId === '*')
-      );
+      // Rules for this product take precedence over the catch-all ones
+      const applicableRules = this.rules
+        .filter(
+          rule =>
+            rule.isActive &&
+            rule.ruleType === 'AUTO_RESTOCK' &&
+            (rule.productId === product.id || rule.productId === '*')
+        )
+        .sort((a, b) => Number(b.productId === product.id) - Number(a.productId === product.id));
 
       if (applicableRules.length === 0 || !product.stock) {
         return {
@@ -332,8 +337,7 @@ export class InventoryService extends EventEmitter {
         const newStock = currentStock + restockAmount;
 
         // Record transaction
-        const transaction: InventoryTransaction = {
-          id: `transaction-${Date.now()}`,
+        const transaction = await this.recordTransaction({
           productId: product.id,
           type: 'RESTOCK',
           quantity: restockAmount,
@@ -342,10 +346,7 @@ export class InventoryService extends EventEmitter {
           reason: 'Auto-restock triggered by rule',
           triggeredBy: 'system',
           metadata: { ruleId: rule.id },
-          createdAt: new Date(),
-        };
-
-        this.transactions.push(transaction);
+        });
 
         // Update rule last triggered
         rule.lastTriggered = new Date();
@@ -381,7 +382,7 @@ export class InventoryService extends EventEmitter {
   ): Promise<InventoryTransaction> {
     const newTransaction: InventoryTransaction = {
       ...transaction,
-      id: `transaction-${Date.now()}`,
+      id: `transaction-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
       createdAt: new Date(),
     };
 
@@ -485,6 +486,54 @@ export class InventoryService extends EventEmitter {
     return totalSalesQuantity; // Simplified - would normally be sales/average inventory
   }
 
+  // 库存预测
+  /**
+   * Forecasts demand from the product's SALE transactions: days of cover,
+   * predicted stock-out date and how much to restock
+   */
+  async getInventoryForecast(
+    product: Product,
+    options: Partial<ForecastOptions> = {}
+  ): Promise<InventoryForecast> {
+    return forecastInventory(product.id, product.stock?.available ?? 0, this.transactions, options);
+  }
+
+  /**
+   * Creates or updates the product's own AUTO_RESTOCK rule with the threshold
+   * and restock amount the forecast suggests
+   */
+  async applyForecastRestockRule(
+    product: Product,
+    options: Partial<ForecastOptions> = {}
+  ): Promise<ApiResponse<InventoryRule>> {
+    const forecast = await this.getInventoryForecast(product, options);
+    if (!forecast.suggestedRule) {
+      return {
+        success: false,
+        error: {
+          code: 'NO_SALES_HISTORY',
+          message: `No recent sales to forecast restocks for product ${product.id}`,
+        },
+      };
+    }
+
+    const existing = this.rules.find(
+      rule => rule.productId === product.id && rule.ruleType === 'AUTO_RESTOCK'
+    );
+    if (existing) {
+      return this.updateInventoryRule(existing.id, {
+        conditions: { ...existing.conditions, ...forecast.suggestedRule },
+      });
+    }
+
+    return this.createInventoryRule({
+      productId: product.id,
+      ruleType: 'AUTO_RESTOCK',
+      conditions: { ...forecast.suggestedRule, outOfStockAction: 'restock' },
+      isActive: true,
+    });
+  }
+
   // 批量操作
   async bulkAcknowledgeAlerts(
     alertIds: string[]
@@ -775,7 +824,10 @@ export class InventoryService extends EventEmitter {
   /**
    * 获取插件库存健康状态
    */
-  async getPluginInventoryHealth(pluginId: string): Promise<
+  async getPluginInventoryHealth(
+    pluginId: string,
+    products: Product[] = []
+  ): Promise<
     ApiResponse<{
       totalProducts: number;
       healthyProducts: number;
@@ -783,6 +835,10 @@ export class InventoryService extends EventEmitter {
       outOfStockProducts: number;
       syncErrors: number;
       lastSyncTime?: Date;
+      /** Forecasts for the stocked products passed in that belong to the plugin */
+      forecasts: InventoryForecast[];
+      /** Products at or below their forecast reorder point */
+      productsNeedingRestock: number;
     }>
   > {
     try {
@@ -808,6 +864,13 @@ export class InventoryService extends EventEmitter {
         .filter(t => t.reason?.includes('sync'))
         .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
 
+      const forecasts: InventoryForecast[] = [];
+      for (const product of products) {
+        if (product.pluginId === pluginId && product.stock) {
+          forecasts.push(await this.getInventoryForecast(product));
+        }
+      }
+
       const healthData = {
         totalProducts: new Set(pluginTransactions.map(t => t.productId)).size,
         healthyProducts: 0, // 需要实际产品数据计算
@@ -815,6 +878,8 @@ export class InventoryService extends EventEmitter {
         outOfStockProducts: pluginAlerts.filter(a => a.alertType === 'OUT_OF_STOCK').length,
         syncErrors,
         lastSyncTime: lastSyncTransaction?.createdAt,
+        forecasts,
+        productsNeedingRestock: forecasts.filter(f => f.suggestedRestockQuantity > 0).length,
       };
 
       return {
@@ -6,6 +6,7 @@ import type { ApiResponse, Product } from '../../types';
 import { ProductCategory } from '../../types';
 import { Logger } from '../../core/utils/Logger';
 import { EventEmitter } from '../../core/utils/EventEmitter';
+import { roundMoney } from '../currency/Money';
 
 // ============================================================================
 // Price Interface Definitions
@@ -18,7 +19,8 @@ export interface PriceRule {
   ruleType: 'DISCOUNT' | 'MARKUP' | 'FIXED_PRICE' | 'TIER_PRICING' | 'DYNAMIC_PRICING';
   priority: number; // 优先级，数字越小优先级越高
   isActive: boolean;
-  conditions: PriceCondition[];
+  /** All must hold; a rule without conditions never fires */
+  conditions: PriceRuleCondition[];
   actions: PriceAction[];
   validFrom?: Date;
   validTo?: Date;
@@ -29,13 +31,50 @@ export interface PriceRule {
   updatedAt: Date;
 }
 
+export type PriceConditionType =
+  | 'CATEGORY'
+  | 'PRODUCT'
+  | 'QUANTITY'
+  | 'USER_TYPE'
+  | 'PLUGIN'
+  | 'CART_TOTAL' // 购物车原价合计
+  | 'CART_QUANTITY'
+  | 'USER_ORDER_COUNT'
+  | 'WEEKDAY' // 0 = Sunday … 6 = Saturday
+  | 'HOUR' // 0-23, local time
+  | 'TIME' // same as HOUR, kept for existing rules
+  | 'PRODUCT_METADATA';
+
+export type PriceConditionOperator =
+  | 'EQUALS'
+  | 'NOT_EQUALS'
+  | 'IN'
+  | 'NOT_IN'
+  | 'GREATER_THAN'
+  | 'AT_LEAST'
+  | 'LESS_THAN'
+  | 'AT_MOST'
+  | 'BETWEEN'
+  | 'EXISTS';
+
 export interface PriceCondition {
-  type: 'CATEGORY' | 'PRODUCT' | 'QUANTITY' | 'USER_TYPE' | 'TIME' | 'PLUGIN';
-  operator: 'EQUALS' | 'IN' | 'GREATER_THAN' | 'LESS_THAN' | 'BETWEEN';
+  type: PriceConditionType;
+  operator: PriceConditionOperator;
   values: any[];
+  /** Key in `product.metadata` read by PRODUCT_METADATA conditions */
+  field?: string;
   metadata?: Record<string, any>;
 }
 
+/** Nests conditions; NOT holds when its conditions do not all hold */
+export interface PriceConditionGroup {
+  type: 'GROUP';
+  logic: 'AND' | 'OR' | 'NOT';
+  conditions: PriceRuleCondition[];
+}
+
+export type PriceRuleCondition = PriceCondition | PriceConditionGroup;
+
 export interface PriceAction {
   type: 'PERCENTAGE_DISCOUNT' | 'FIXED_DISCOUNT' | 'SET_PRICE' | 'PERCENTAGE_MARKUP';
   value: number;
@@ -71,6 +110,10 @@ export interface PriceCalculationContext {
   userId?: string;
   userType?: string;
   timestamp?: Date;
+  /** Orders the user has placed, for USER_ORDER_COUNT conditions */
+  userOrderCount?: number;
+  /** The cart the item is priced in, for CART_TOTAL and CART_QUANTITY conditions */
+  cart?: { total: number; quantity: number };
   metadata?: Record<string, any>;
 }
 
@@ -90,6 +133,76 @@ export interface PriceCalculationResult {
   metadata?: Record<string, any>;
 }
 
+/** How one condition or group came out, with the value it was checked against */
+export interface ConditionTrace {
+  passed: boolean;
+  /** e.g. `CART_TOTAL AT_LEAST 100` or `OR` for a group */
+  description: string;
+  /** Undefined when the context did not carry the value */
+  actual?: unknown;
+  children?: ConditionTrace[];
+}
+
+export type RuleSkipReason =
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'USAGE_LIMIT_REACHED'
+  | 'CONDITIONS_NOT_MET'
+  | 'NO_CHANGE';
+
+export interface RuleEvaluation {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  fired: boolean;
+  skipReason?: RuleSkipReason;
+  conditions: ConditionTrace[];
+  /** Line price before and after the rule; only set when it fired */
+  priceBefore?: number;
+  priceAfter?: number;
+}
+
+export interface PriceSimulationRequest {
+  items: Array<{ product: Product; quantity: number }>;
+  user?: { id?: string; type?: string; orderCount?: number };
+  /** Defaults to now; lets weekday and hour windows be tried ahead of time */
+  timestamp?: Date;
+}
+
+export interface SimulatedLinePrice {
+  productId: string;
+  quantity: number;
+  basePrice: number;
+  finalPrice: number;
+  tierApplied: boolean;
+  /** Every rule in priority order, fired or not */
+  rules: RuleEvaluation[];
+}
+
+export interface PriceSimulationResult {
+  lines: SimulatedLinePrice[];
+  /** List-price total the CART_TOTAL conditions saw */
+  cartTotal: number;
+  cartQuantity: number;
+  finalTotal: number;
+  simulatedAt: Date;
+}
+
+export interface BundlePriceBreakdown {
+  /** Combined list price of the components */
+  componentTotal: number;
+  bundlePrice: number;
+  savings: number;
+  /** The bundle price split over the components in proportion to their list price */
+  allocations: Array<{
+    productId: string;
+    quantity: number;
+    listPrice: number;
+    allocatedPrice: number;
+  }>;
+}
+
 export interface PriceStats {
   totalProducts: number;
   averagePrice: number;
@@ -331,43 +444,10 @@ export class PriceService extends EventEmitter {
   ): Promise<ApiResponse<PriceCalculationResult>> {
     try {
       const { product, quantity } = context;
-      const basePrice = product.price * quantity;
-
-      let finalPrice = basePrice;
-      const appliedRules: string[] = [];
-      const discounts: PriceCalculationResult['discounts'] = [];
-      let totalDiscount = 0;
-
-      // Get applicable rules
-      const applicableRules = await this.getApplicableRules(context);
-
-      // Apply rules in priority order
-      for (const rule of applicableRules) {
-        if (this.evaluateConditions(rule.conditions, context)) {
-          const ruleResult = this.applyPriceActions(rule.actions, finalPrice, basePrice);
-
-          if (ruleResult.changed) {
-            appliedRules.push(rule.id);
-            finalPrice = ruleResult.newPrice;
-
-            const discountAmount = basePrice - finalPrice;
-            if (discountAmount > 0) {
-              discounts.push({
-                ruleId: rule.id,
-                ruleName: rule.name,
-                type: rule.ruleType,
-                amount: discountAmount,
-                percentage: (discountAmount / basePrice) * 100,
-              });
-              totalDiscount += discountAmount;
-            }
-
-            // Update rule usage
-            rule.usageCount++;
-            rule.updatedAt = new Date();
-          }
-        }
-      }
+      const activeRules = await this.getActivePriceRules();
+      const priced = this.applyRules(activeRules, context, true);
+      let finalPrice = priced.finalPrice;
+      const appliedRules = [...priced.appliedRules];
 
       // Check for tier pricing
       const tierResult = await this.applyTierPricing(product.id, quantity, finalPrice);
@@ -377,11 +457,11 @@ export class PriceService extends EventEmitter {
       }
 
       const result: PriceCalculationResult = {
-        basePrice,
+        basePrice: priced.basePrice,
         finalPrice: Math.max(0, finalPrice), // Ensure price doesn't go negative
         appliedRules,
-        discounts,
-        totalDiscount,
+        discounts: priced.discounts,
+        totalDiscount: priced.totalDiscount,
         metadata: {
           calculatedAt: new Date(),
           quantity,
@@ -390,7 +470,7 @@ export class PriceService extends EventEmitter {
       };
 
       this.logger.debug(
-        `Price calculated for product ${product.id}: ${basePrice} -> ${finalPrice}`
+        `Price calculated for product ${product.id}: ${priced.basePrice} -> ${finalPrice}`
       );
       this.emit('priceCalculated', result);
 
@@ -410,68 +490,257 @@ export class PriceService extends EventEmitter {
     }
   }
 
-  private async getApplicableRules(context: PriceCalculationContext): Promise<PriceRule[]> {
-    const activeRules = await this.getActivePriceRules();
-    return activeRules.filter(rule => this.isRuleApplicable(rule, context));
+  /**
+   * Prices a hypothetical cart for a hypothetical user and reports, for each
+   * line, every rule with the outcome of each of its conditions. Nothing is
+   * recorded: usage counts stay as they are and no events are emitted.
+   */
+  async simulate(request: PriceSimulationRequest): Promise<ApiResponse<PriceSimulationResult>> {
+    try {
+      const timestamp = request.timestamp || new Date();
+      const cart = {
+        total: request.items.reduce((sum, item) => sum + item.product.price * item.quantity, 0),
+        quantity: request.items.reduce((sum, item) => sum + item.quantity, 0),
+      };
+      const rules = [...this.priceRules].sort((a, b) => a.priority - b.priority);
+      const lines: SimulatedLinePrice[] = [];
+
+      for (const item of request.items) {
+        const priced = this.applyRules(
+          rules,
+          {
+            product: item.product,
+            quantity: item.quantity,
+            timestamp,
+            cart,
+            ...(request.user?.id && { userId: request.user.id }),
+            ...(request.user?.type && { userType: request.user.type }),
+            ...(request.user?.orderCount !== undefined && {
+              userOrderCount: request.user.orderCount,
+            }),
+          },
+          false
+        );
+        const tier = await this.applyTierPricing(item.product.id, item.quantity, priced.finalPrice);
+
+        lines.push({
+          productId: item.product.id,
+          quantity: item.quantity,
+          basePrice: priced.basePrice,
+          finalPrice: Math.max(0, tier.newPrice),
+          tierApplied: tier.applied,
+          rules: priced.evaluations,
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          lines,
+          cartTotal: cart.total,
+          cartQuantity: cart.quantity,
+          finalTotal: lines.reduce((sum, line) => sum + line.finalPrice, 0),
+          simulatedAt: new Date(),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'PRICE_SIMULATION_ERROR',
+          message: 'Failed to simulate prices',
+          details: { error: error instanceof Error ? error.message : 'Unknown error' },
+        },
+      };
+    }
+  }
+
+  /**
+   * Runs the rules in priority order against one line. With `record`, fired
+   * rules count towards their usage limit.
+   */
+  private applyRules(
+    rules: PriceRule[],
+    context: PriceCalculationContext,
+    record: boolean
+  ): {
+    basePrice: number;
+    finalPrice: number;
+    appliedRules: string[];
+    discounts: PriceCalculationResult['discounts'];
+    totalDiscount: number;
+    evaluations: RuleEvaluation[];
+  } {
+    const basePrice = context.product.price * context.quantity;
+    const now = context.timestamp || new Date();
+    let finalPrice = basePrice;
+    const appliedRules: string[] = [];
+    const discounts: PriceCalculationResult['discounts'] = [];
+    let totalDiscount = 0;
+    const evaluations: RuleEvaluation[] = [];
+
+    for (const rule of rules) {
+      const conditions = rule.conditions.map(condition =>
+        this.evaluateCondition(condition, context)
+      );
+      const evaluation: RuleEvaluation = {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        priority: rule.priority,
+        fired: false,
+        conditions,
+      };
+      evaluations.push(evaluation);
+
+      const skipReason = this.getSkipReason(rule, now);
+      if (skipReason) {
+        evaluation.skipReason = skipReason;
+        continue;
+      }
+      if (conditions.length === 0 || !conditions.every(trace => trace.passed)) {
+        evaluation.skipReason = 'CONDITIONS_NOT_MET';
+        continue;
+      }
+
+      const ruleResult = this.applyPriceActions(rule.actions, finalPrice, basePrice);
+      if (!ruleResult.changed) {
+        evaluation.skipReason = 'NO_CHANGE';
+        continue;
+      }
+
+      evaluation.fired = true;
+      evaluation.priceBefore = finalPrice;
+      evaluation.priceAfter = ruleResult.newPrice;
+      appliedRules.push(rule.id);
+      finalPrice = ruleResult.newPrice;
+
+      const discountAmount = basePrice - finalPrice;
+      if (discountAmount > 0) {
+        discounts.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          type: rule.ruleType,
+          amount: discountAmount,
+          percentage: (discountAmount / basePrice) * 100,
+        });
+        totalDiscount += discountAmount;
+      }
+
+      if (record) {
+        // Update rule usage
+        rule.usageCount++;
+        rule.updatedAt = new Date();
+      }
+    }
+
+    return { basePrice, finalPrice, appliedRules, discounts, totalDiscount, evaluations };
   }
 
-  private isRuleApplicable(rule: PriceRule, context: PriceCalculationContext): boolean {
-    // Check if any condition matches the context
-    return rule.conditions.some(condition => this.evaluateCondition(condition, context));
+  private getSkipReason(rule: PriceRule, now: Date): RuleSkipReason | null {
+    if (!rule.isActive) return 'INACTIVE';
+    if (rule.validFrom && rule.validFrom > now) return 'NOT_STARTED';
+    if (rule.validTo && rule.validTo < now) return 'EXPIRED';
+    if (rule.usageLimit && rule.usageCount >= rule.usageLimit) return 'USAGE_LIMIT_REACHED';
+    return null;
   }
 
-  private evaluateConditions(
-    conditions: PriceCondition[],
+  private evaluateCondition(
+    condition: PriceRuleCondition,
     context: PriceCalculationContext
-  ): boolean {
-    // All conditions must be true (AND logic)
-    return conditions.every(condition => this.evaluateCondition(condition, context));
+  ): ConditionTrace {
+    if (condition.type === 'GROUP') {
+      const children = condition.conditions.map(child => this.evaluateCondition(child, context));
+      const allPassed = children.every(child => child.passed);
+      const passed =
+        condition.logic === 'OR'
+          ? children.some(child => child.passed)
+          : condition.logic === 'NOT'
+            ? !allPassed
+            : allPassed;
+      return { passed, description: condition.logic, children };
+    }
+
+    const actual = this.readConditionValue(condition, context);
+    const description = [
+      condition.type === 'PRODUCT_METADATA'
+        ? `PRODUCT_METADATA.${condition.field}`
+        : condition.type,
+      condition.operator,
+      condition.values.map(value => String(value)).join(', '),
+    ]
+      .join(' ')
+      .trim();
+
+    return {
+      passed:
+        condition.operator === 'EXISTS'
+          ? actual !== undefined && actual !== null
+          : actual !== undefined &&
+            this.evaluateOperator(condition.operator, actual, condition.values),
+      description,
+      actual,
+    };
   }
 
-  private evaluateCondition(condition: PriceCondition, context: PriceCalculationContext): boolean {
-    const { type, operator, values } = condition;
-    const { product, quantity, userType } = context;
+  private readConditionValue(condition: PriceCondition, context: PriceCalculationContext): unknown {
+    const { product, quantity } = context;
+    const now = context.timestamp || new Date();
 
-    switch (type) {
+    switch (condition.type) {
       case 'CATEGORY':
-        return this.evaluateOperator(operator, product.category, values);
-
+        return product.category;
       case 'PRODUCT':
-        return this.evaluateOperator(operator, product.id, values);
-
+        return product.id;
       case 'QUANTITY':
-        return this.evaluateOperator(operator, quantity, values);
-
+        return quantity;
       case 'USER_TYPE':
-        return userType ? this.evaluateOperator(operator, userType, values) : false;
-
+        return context.userType;
       case 'PLUGIN':
-        return this.evaluateOperator(operator, product.pluginId, values);
-
+        return product.pluginId;
+      case 'CART_TOTAL':
+        return context.cart?.total;
+      case 'CART_QUANTITY':
+        return context.cart?.quantity;
+      case 'USER_ORDER_COUNT':
+        return context.userOrderCount;
+      case 'WEEKDAY':
+        return now.getDay();
+      case 'HOUR':
       case 'TIME':
-        const now = context.timestamp || new Date();
-        const hour = now.getHours();
-        return this.evaluateOperator(operator, hour, values);
-
+        return now.getHours();
+      case 'PRODUCT_METADATA':
+        return condition.field ? product.metadata?.[condition.field] : undefined;
       default:
-        return false;
+        return undefined;
     }
   }
 
-  private evaluateOperator(operator: string, value: any, targetValues: any[]): boolean {
+  private evaluateOperator(
+    operator: PriceConditionOperator,
+    value: any,
+    targetValues: any[]
+  ): boolean {
     switch (operator) {
       case 'EQUALS':
-        return targetValues.includes(value);
-
       case 'IN':
         return targetValues.includes(value);
 
+      case 'NOT_EQUALS':
+      case 'NOT_IN':
+        return !targetValues.includes(value);
+
       case 'GREATER_THAN':
         return targetValues.length > 0 && value > targetValues[0];
 
+      case 'AT_LEAST':
+        return targetValues.length > 0 && value >= targetValues[0];
+
       case 'LESS_THAN':
         return targetValues.length > 0 && value < targetValues[0];
 
+      case 'AT_MOST':
+        return targetValues.length > 0 && value <= targetValues[0];
+
       case 'BETWEEN':
         return targetValues.length >= 2 && value >= targetValues[0] && value <= targetValues[1];
 
@@ -517,6 +786,69 @@ export class PriceService extends EventEmitter {
     return { changed, newPrice };
   }
 
+  // ============================================================================
+  // Bundle Pricing
+  // ============================================================================
+
+  /**
+   * Prices one unit of a bundle from its components. The allocations add up
+   * to the bundle price exactly; the last component absorbs rounding.
+   */
+  async calculateBundlePrice(
+    bundle: Product,
+    components: Array<{ product: Product; quantity: number }>
+  ): Promise<ApiResponse<BundlePriceBreakdown>> {
+    const currency = bundle.currency;
+    const foreign = components.find(component => component.product.currency !== currency);
+    if (foreign) {
+      return {
+        success: false,
+        error: {
+          code: 'BUNDLE_CURRENCY_MISMATCH',
+          message: `Bundle ${bundle.id} is priced in ${currency} but ${foreign.product.id} in ${foreign.product.currency}`,
+        },
+      };
+    }
+
+    const lines = components.map(component => ({
+      productId: component.product.id,
+      quantity: component.quantity,
+      listPrice: roundMoney(component.product.price * component.quantity, currency),
+    }));
+    const componentTotal = roundMoney(
+      lines.reduce((sum, line) => sum + line.listPrice, 0),
+      currency
+    );
+    const discountPercentage = bundle.bundle?.discountPercentage;
+    const bundlePrice =
+      discountPercentage !== undefined
+        ? roundMoney(componentTotal * (1 - discountPercentage / 100), currency)
+        : bundle.price;
+
+    let allocated = 0;
+    const allocations = lines.map((line, index) => {
+      const allocatedPrice =
+        index === lines.length - 1
+          ? roundMoney(bundlePrice - allocated, currency)
+          : roundMoney(
+              componentTotal > 0 ? (bundlePrice * line.listPrice) / componentTotal : 0,
+              currency
+            );
+      allocated += allocatedPrice;
+      return { ...line, allocatedPrice };
+    });
+
+    return {
+      success: true,
+      data: {
+        componentTotal,
+        bundlePrice,
+        savings: roundMoney(Math.max(componentTotal - bundlePrice, 0), currency),
+        allocations,
+      },
+    };
+  }
+
   // ============================================================================
   // Tier Pricing
   // ============================================================================
@@ -320,6 +320,45 @@ export class ProductService {
     return true;
   }
 
+  /** Turns reserved units into sold ones, taking them out of the total */
+  async commitReservedStock(productId: string, quantity: number = 1): Promise<boolean> {
+    const product = this.products.find(p => p.id === productId);
+
+    if (!product?.stock || product.stock.reserved < quantity) {
+      return false;
+    }
+
+    product.stock.reserved -= quantity;
+    product.stock.total -= quantity;
+    product.updatedAt = new Date();
+
+    return true;
+  }
+
+  /** Sets the total from an external count such as a code pool; reserved units stay held */
+  async setStockTotal(
+    productId: string,
+    total: number,
+    lowStockThreshold: number = 10
+  ): Promise<boolean> {
+    const product = this.products.find(p => p.id === productId);
+
+    if (!product) {
+      return false;
+    }
+
+    const reserved = product.stock?.reserved ?? 0;
+    product.stock = {
+      available: Math.max(total - reserved, 0),
+      reserved,
+      total,
+      lowStockThreshold: product.stock?.lowStockThreshold ?? lowStockThreshold,
+    };
+    product.updatedAt = new Date();
+
+    return true;
+  }
+
   async createProduct(
     productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>
   ): Promise<ApiResponse<Product>> {
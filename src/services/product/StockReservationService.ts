@@ -0,0 +1,273 @@
+import type { Product } from '../../types';
+import { ORDER_CONFIG } from '../../core/constants';
+import { productService } from './ProductService';
+import type { ProductService } from './ProductService';
+import { inventoryService } from './InventoryService';
+import type { InventoryService, InventoryTransaction } from './InventoryService';
+
+export type StockReservationStatus = 'ACTIVE' | 'COMMITTED' | 'RELEASED' | 'EXPIRED';
+
+export interface StockReservation {
+  id: string;
+  orderId: string;
+  userId: string;
+  productId: string;
+  quantity: number;
+  status: StockReservationStatus;
+  expiresAt: Date;
+  createdAt: Date;
+  /** When the reservation was committed, released or expired */
+  resolvedAt?: Date;
+  /** Units the order was sold that stock no longer held when it was committed */
+  shortfall?: number;
+}
+
+export interface StockReservationRequest {
+  orderId: string;
+  userId: string;
+  items: Array<{ productId: string; quantity: number }>;
+  /** Defaults to the service's time to live */
+  ttlMs?: number;
+}
+
+export type StockLedger = Pick<
+  ProductService,
+  'getProductById' | 'reserveStock' | 'releaseStock' | 'commitReservedStock'
+>;
+
+export type TransactionRecorder = Pick<InventoryService, 'recordTransaction'>;
+
+export class InsufficientStockError extends Error {
+  constructor(public readonly productId: string) {
+    super(`Insufficient stock for product: ${productId}`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+/**
+ * Holds stock for an order until its payment completes. Each hold is a
+ * reservation record with an expiry; committing turns it into a SALE, and
+ * releasing or expiring puts the units back on sale. Every movement is
+ * recorded as an inventory transaction tagged with the order and user.
+ */
+export class StockReservationService {
+  private reservations: StockReservation[] = [];
+
+  constructor(
+    private readonly stock: StockLedger = productService,
+    private readonly inventory: TransactionRecorder = inventoryService,
+    private readonly ttlMs: number = ORDER_CONFIG.AUTO_CANCEL_TIMEOUT
+  ) {}
+
+  /**
+   * Reserves every item or none: if one product runs short, the units held
+   * for the earlier items are returned and InsufficientStockError is thrown.
+   */
+  async reserve(
+    request: StockReservationRequest,
+    now: Date = new Date()
+  ): Promise<StockReservation[]> {
+    const expiresAt = new Date(now.getTime() + (request.ttlMs ?? this.ttlMs));
+    const held: Array<{ reservation: StockReservation; previousStock: number; newStock: number }> =
+      [];
+
+    for (const item of request.items) {
+      const previousStock = await this.availableStock(item.productId);
+
+      if (!(await this.stock.reserveStock(item.productId, item.quantity))) {
+        for (const { reservation } of held) {
+          await this.stock.releaseStock(reservation.productId, reservation.quantity);
+        }
+        throw new InsufficientStockError(item.productId);
+      }
+
+      held.push({
+        reservation: {
+          id: this.generateReservationId(),
+          orderId: request.orderId,
+          userId: request.userId,
+          productId: item.productId,
+          quantity: item.quantity,
+          status: 'ACTIVE',
+          expiresAt,
+          createdAt: now,
+        },
+        previousStock,
+        newStock: await this.availableStock(item.productId),
+      });
+    }
+
+    for (const { reservation, previousStock, newStock } of held) {
+      this.reservations.push(reservation);
+      await this.record(
+        reservation,
+        'RESERVE',
+        previousStock,
+        newStock,
+        'Reserved for order',
+        'user'
+      );
+    }
+
+    return held.map(({ reservation }) => ({ ...reservation }));
+  }
+
+  /**
+   * Converts the order's active reservations into sales. The order is paid
+   * by now, so a sale whose reserved units have gone is still recorded, with
+   * the missing units as its shortfall.
+   */
+  async commit(orderId: string, now: Date = new Date()): Promise<StockReservation[]> {
+    const committed: StockReservation[] = [];
+
+    for (const reservation of this.findActive(orderId)) {
+      const previousStock = await this.totalStock(reservation.productId);
+      const covered = await this.stock.commitReservedStock(
+        reservation.productId,
+        reservation.quantity
+      );
+
+      reservation.status = 'COMMITTED';
+      reservation.resolvedAt = now;
+      if (!covered) {
+        reservation.shortfall = reservation.quantity;
+      }
+      await this.record(
+        reservation,
+        'SALE',
+        previousStock,
+        await this.totalStock(reservation.productId),
+        covered ? 'Order completed' : 'Order completed without its reserved stock'
+      );
+      committed.push({ ...reservation });
+    }
+
+    return committed;
+  }
+
+  /** Returns the order's reserved units to available stock */
+  async release(
+    orderId: string,
+    reason: string = 'Order cancelled',
+    now: Date = new Date()
+  ): Promise<StockReservation[]> {
+    const released: StockReservation[] = [];
+    for (const reservation of this.findActive(orderId)) {
+      released.push(await this.releaseReservation(reservation, 'RELEASED', reason, now));
+    }
+    return released;
+  }
+
+  /** Active reservations whose expiry has passed */
+  findExpired(now: Date = new Date()): Promise<StockReservation[]> {
+    return Promise.resolve(
+      this.reservations
+        .filter(reservation => this.isExpired(reservation, now))
+        .map(reservation => ({ ...reservation }))
+    );
+  }
+
+  /** Releases every active reservation whose expiry has passed, or only the order's */
+  async releaseExpired(now: Date = new Date(), orderId?: string): Promise<StockReservation[]> {
+    const expired: StockReservation[] = [];
+    for (const reservation of this.reservations) {
+      if (this.isExpired(reservation, now) && (!orderId || reservation.orderId === orderId)) {
+        expired.push(
+          await this.releaseReservation(reservation, 'EXPIRED', 'Reservation expired', now)
+        );
+      }
+    }
+    return expired;
+  }
+
+  getReservations(orderId?: string): Promise<StockReservation[]> {
+    return Promise.resolve(
+      this.reservations
+        .filter(reservation => !orderId || reservation.orderId === orderId)
+        .map(reservation => ({ ...reservation }))
+    );
+  }
+
+  private isExpired(reservation: StockReservation, now: Date): boolean {
+    return reservation.status === 'ACTIVE' && reservation.expiresAt.getTime() <= now.getTime();
+  }
+
+  private findActive(orderId: string): StockReservation[] {
+    return this.reservations.filter(
+      reservation => reservation.orderId === orderId && reservation.status === 'ACTIVE'
+    );
+  }
+
+  private async releaseReservation(
+    reservation: StockReservation,
+    status: 'RELEASED' | 'EXPIRED',
+    reason: string,
+    now: Date
+  ): Promise<StockReservation> {
+    const previousStock = await this.availableStock(reservation.productId);
+    if (!(await this.stock.releaseStock(reservation.productId, reservation.quantity))) {
+      console.error(
+        `Could not release ${reservation.quantity} of ${reservation.productId} for order ${reservation.orderId}`
+      );
+    }
+
+    reservation.status = status;
+    reservation.resolvedAt = now;
+    await this.record(
+      reservation,
+      'RELEASE',
+      previousStock,
+      await this.availableStock(reservation.productId),
+      reason
+    );
+    return { ...reservation };
+  }
+
+  // Reserve and release move available stock; a sale leaves it untouched and
+  // reduces the total instead, so sales are recorded against the total
+  private async availableStock(productId: string): Promise<number> {
+    return this.stockOf(await this.stock.getProductById(productId), 'available');
+  }
+
+  private async totalStock(productId: string): Promise<number> {
+    return this.stockOf(await this.stock.getProductById(productId), 'total');
+  }
+
+  private stockOf(product: Product | null, field: 'available' | 'total'): number {
+    return product?.stock?.[field] ?? 0;
+  }
+
+  private async record(
+    reservation: StockReservation,
+    type: InventoryTransaction['type'],
+    previousStock: number,
+    newStock: number,
+    reason: string,
+    triggeredBy: InventoryTransaction['triggeredBy'] = 'system'
+  ): Promise<void> {
+    await this.inventory.recordTransaction({
+      productId: reservation.productId,
+      type,
+      quantity: reservation.quantity,
+      previousStock,
+      newStock,
+      reason,
+      triggeredBy,
+      metadata: {
+        reservationId: reservation.id,
+        orderId: reservation.orderId,
+        userId: reservation.userId,
+        expiresAt: reservation.expiresAt.toISOString(),
+        ...(reservation.shortfall && { shortfall: reservation.shortfall }),
+      },
+    });
+  }
+
+  private generateReservationId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substr(2, 5);
+    return `rsv_${timestamp}_${random}`;
+  }
+}
+
+export const stockReservationService = new StockReservationService();
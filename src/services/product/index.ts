@@ -16,6 +16,31 @@ export {
   type InventoryTransaction,
   type InventoryStats,
 } from './InventoryService';
+export {
+  DEFAULT_FORECAST_OPTIONS,
+  dailySales,
+  exponentialSmoothing,
+  forecastInventory,
+  movingAverage,
+  type ForecastOptions,
+  type InventoryForecast,
+} from './InventoryForecast';
+export {
+  StockReservationService,
+  stockReservationService,
+  InsufficientStockError,
+  type StockReservation,
+  type StockReservationRequest,
+  type StockReservationStatus,
+} from './StockReservationService';
+export {
+  BundleService,
+  bundleService,
+  InvalidBundleError,
+  type BundleCatalog,
+  type BundlePricer,
+  type ResolvedBundleComponent,
+} from './BundleService';
 export {
   TagService,
   tagService,
@@ -28,6 +53,14 @@ export {
   PriceService,
   priceService,
   type PriceRule,
+  type PriceCondition,
+  type PriceConditionGroup,
+  type PriceRuleCondition,
   type PriceCalculationResult,
   type PriceStats,
+  type ConditionTrace,
+  type RuleEvaluation,
+  type PriceSimulationRequest,
+  type PriceSimulationResult,
+  type BundlePriceBreakdown,
 } from './PriceService';
@@ -0,0 +1,546 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Promotion Service
+// ============================================================================
+
+import type { AppliedPromotion, ProductCategory } from '../../types';
+import { currencyService } from '../currency/CurrencyService';
+import type { CurrencyService } from '../currency/CurrencyService';
+import { roundMoney } from '../currency/Money';
+
+export type PromotionType = 'percentage' | 'fixed_amount' | 'buy_x_get_y';
+
+/** Conditions an order has to meet before a promotion applies to it */
+export interface PromotionRules {
+  /** Order subtotal required, in the promotion currency */
+  minAmount?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  /** Limits the discount to these products; combined with `categories` as either/or */
+  productIds?: string[];
+  categories?: ProductCategory[];
+  /** Only for customers without a previous order */
+  firstOrderOnly?: boolean;
+}
+
+export interface Promotion extends PromotionRules {
+  id: string;
+  name: string;
+  type: PromotionType;
+  /**
+   * Percent off for `percentage`, an amount for `fixed_amount`, and the
+   * number of units bought per free unit for `buy_x_get_y`
+   */
+  value: number;
+  /** Currency of `value` and `minAmount`; defaults to the settlement currency */
+  currency?: string;
+  /** Whether the promotion combines with other stackable promotions */
+  stackable: boolean;
+  /** Stackable promotions sharing a group still exclude each other */
+  stackGroup?: string;
+  /** Higher priority wins when promotions cannot combine */
+  priority: number;
+  /** Redemptions allowed across all customers */
+  maxRedemptions?: number;
+  /** Redemptions allowed per customer */
+  perUserLimit?: number;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export type PromotionInput = Omit<Promotion, 'createdAt' | 'isActive' | 'stackable' | 'priority'> &
+  Partial<Pick<Promotion, 'isActive' | 'stackable' | 'priority'>>;
+
+export interface PromotionCode {
+  code: string;
+  promotionId: string;
+  /** Omitted for codes anyone may use until the promotion runs out; 1 for single-use codes */
+  maxUses?: number;
+  uses: number;
+  batchId?: string;
+  createdAt: Date;
+}
+
+export interface CodeGenerationOptions {
+  prefix?: string;
+  /** Random characters after the prefix */
+  length?: number;
+  maxUses?: number;
+}
+
+export type RedemptionStatus = 'redeemed' | 'reversed';
+
+export interface PromotionRedemption {
+  id: string;
+  promotionId: string;
+  code: string;
+  userId: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  status: RedemptionStatus;
+  redeemedAt: Date;
+  reversedAt?: Date;
+}
+
+export interface PromotionLine {
+  productId: string;
+  category?: ProductCategory;
+  quantity: number;
+  /** Unit price in the context currency */
+  unitPrice: number;
+}
+
+export interface PromotionContext {
+  userId?: string;
+  currency: string;
+  items: PromotionLine[];
+  /** Completed orders of the customer; first-order-only checks need it */
+  previousOrders?: number;
+  now?: Date;
+}
+
+export interface PromotionRejection {
+  code: string;
+  reason: string;
+}
+
+export interface PromotionEvaluation {
+  applied: AppliedPromotion[];
+  rejected: PromotionRejection[];
+  /** Sum of the applied amounts, never more than the order subtotal */
+  totalDiscount: number;
+}
+
+export interface RedemptionQuery {
+  orderId?: string;
+  userId?: string;
+  promotionId?: string;
+  status?: RedemptionStatus;
+}
+
+export interface PromotionServiceOptions {
+  /** Source of randomness for generated codes */
+  randomBytes?: (size: number) => Uint8Array;
+}
+
+export class PromotionRejectedError extends Error {
+  constructor(public readonly rejected: PromotionRejection[]) {
+    super(rejected[0] ? `${rejected[0].code}: ${rejected[0].reason}` : 'Promotion rejected');
+    this.name = 'PromotionRejectedError';
+  }
+}
+
+// Letters and digits that cannot be mistaken for each other when typed
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MAX_GENERATION_ATTEMPTS = 10;
+
+type PromotionCurrency = Pick<CurrencyService, 'convert' | 'getSettlementCurrency'>;
+
+interface Candidate {
+  promotion: Promotion;
+  code: string;
+  amount: number;
+}
+
+/**
+ * Coupon campaigns and their redemptions. Evaluation is synchronous so the
+ * cart can price coupons while rendering; redemption repeats the checks and
+ * records the result in the same step, so two orders cannot both take the
+ * last use of a code.
+ */
+export class PromotionService {
+  private promotions: Map<string, Promotion> = new Map();
+  private codes: Map<string, PromotionCode> = new Map();
+  private redemptions: PromotionRedemption[] = [];
+  private readonly randomBytes: (size: number) => Uint8Array;
+
+  constructor(
+    private readonly currency: PromotionCurrency = currencyService,
+    options: PromotionServiceOptions = {}
+  ) {
+    this.randomBytes =
+      options.randomBytes ??
+      (size => {
+        const bytes = new Uint8Array(size);
+        crypto.getRandomValues(bytes);
+        return bytes;
+      });
+  }
+
+  createPromotion(input: PromotionInput): Promotion {
+    if (this.promotions.has(input.id)) {
+      throw new Error(`Promotion already exists: ${input.id}`);
+    }
+    if (!(input.value > 0) || (input.type === 'percentage' && input.value > 100)) {
+      throw new Error(`Promotion ${input.id} has an invalid value: ${input.value}`);
+    }
+
+    const promotion: Promotion = {
+      ...input,
+      stackable: input.stackable ?? false,
+      priority: input.priority ?? 0,
+      isActive: input.isActive ?? true,
+      createdAt: new Date(),
+    };
+    this.promotions.set(promotion.id, promotion);
+    return { ...promotion };
+  }
+
+  getPromotion(promotionId: string): Promotion | null {
+    const promotion = this.promotions.get(promotionId);
+    return promotion ? { ...promotion } : null;
+  }
+
+  setActive(promotionId: string, isActive: boolean): boolean {
+    const promotion = this.promotions.get(promotionId);
+    if (!promotion) {
+      return false;
+    }
+    promotion.isActive = isActive;
+    return true;
+  }
+
+  /** Adds hand-picked codes such as `WELCOME10`; codes are matched case-insensitively */
+  addCodes(promotionId: string, codes: string[], options: { maxUses?: number } = {}): string[] {
+    this.requirePromotion(promotionId);
+
+    const added: string[] = [];
+    for (const raw of codes) {
+      const code = normalizeCode(raw);
+      if (!code) continue;
+      if (this.codes.has(code)) {
+        throw new Error(`Coupon code already exists: ${code}`);
+      }
+      this.storeCode(promotionId, code, options.maxUses);
+      added.push(code);
+    }
+    return added;
+  }
+
+  /** Generates unique random codes for a campaign, single-use by default */
+  generateCodes(
+    promotionId: string,
+    count: number,
+    options: CodeGenerationOptions = {}
+  ): PromotionCode[] {
+    this.requirePromotion(promotionId);
+
+    const prefix = normalizeCode(options.prefix ?? '');
+    const length = options.length ?? 8;
+    const maxUses = options.maxUses ?? 1;
+    const batchId = `batch_${Date.now().toString(36)}`;
+    const generated: PromotionCode[] = [];
+
+    for (let i = 0; i < count; i++) {
+      let code = '';
+      for (let attempt = 0; !code || this.codes.has(code); attempt++) {
+        if (attempt === MAX_GENERATION_ATTEMPTS) {
+          throw new Error(`Could not generate a unique coupon code for ${promotionId}`);
+        }
+        code = prefix + this.randomCode(length);
+      }
+      generated.push({ ...this.storeCode(promotionId, code, maxUses, batchId) });
+    }
+
+    return generated;
+  }
+
+  getCode(code: string): PromotionCode | null {
+    const stored = this.codes.get(normalizeCode(code));
+    return stored ? { ...stored } : null;
+  }
+
+  /**
+   * Prices the codes against an order without recording anything. Codes that
+   * fail a rule, or lose to a higher-priority promotion they cannot combine
+   * with, are listed in `rejected` with the reason.
+   */
+  evaluate(codes: string[], context: PromotionContext): PromotionEvaluation {
+    const rejected: PromotionRejection[] = [];
+    const candidates: Candidate[] = [];
+    const seen = new Set<string>();
+
+    for (const raw of codes) {
+      const code = normalizeCode(raw);
+      const stored = this.codes.get(code);
+      const promotion = stored && this.promotions.get(stored.promotionId);
+      if (!stored || !promotion) {
+        rejected.push({ code, reason: 'Coupon code not found' });
+        continue;
+      }
+      if (seen.has(promotion.id)) {
+        rejected.push({ code, reason: 'Promotion already applied' });
+        continue;
+      }
+
+      const reason = this.checkCode(stored, promotion, context);
+      if (reason) {
+        rejected.push({ code, reason });
+        continue;
+      }
+
+      const amount = this.calculateAmount(promotion, context);
+      if (amount <= 0) {
+        rejected.push({ code, reason: 'Promotion gives no discount on this order' });
+        continue;
+      }
+
+      seen.add(promotion.id);
+      candidates.push({ promotion, code, amount });
+    }
+
+    candidates.sort((a, b) => b.promotion.priority - a.promotion.priority || b.amount - a.amount);
+
+    const subtotal = orderSubtotal(context);
+    const accepted: Candidate[] = [];
+    const applied: AppliedPromotion[] = [];
+    let totalDiscount = 0;
+
+    for (const candidate of candidates) {
+      const conflict = accepted.find(other => !canCombine(other.promotion, candidate.promotion));
+      if (conflict) {
+        rejected.push({
+          code: candidate.code,
+          reason: `Cannot be combined with ${conflict.promotion.name}`,
+        });
+        continue;
+      }
+
+      const amount = roundMoney(
+        Math.min(candidate.amount, subtotal - totalDiscount),
+        context.currency
+      );
+      accepted.push(candidate);
+      totalDiscount = roundMoney(totalDiscount + amount, context.currency);
+      applied.push({
+        promotionId: candidate.promotion.id,
+        name: candidate.promotion.name,
+        code: candidate.code,
+        amount,
+      });
+    }
+
+    return { applied, rejected, totalDiscount };
+  }
+
+  /**
+   * Evaluates the codes and records a redemption of each against the order.
+   * Throws PromotionRejectedError, recording nothing, when any code fails.
+   */
+  redeem(
+    orderId: string,
+    codes: string[],
+    context: PromotionContext & { userId: string }
+  ): PromotionEvaluation {
+    const evaluation = this.evaluate(codes, context);
+    if (evaluation.rejected.length > 0) {
+      throw new PromotionRejectedError(evaluation.rejected);
+    }
+
+    const redeemedAt = context.now ?? new Date();
+    for (const applied of evaluation.applied) {
+      const stored = this.codes.get(applied.code ?? '');
+      if (stored) {
+        stored.uses++;
+      }
+      this.redemptions.push({
+        id: `redemption_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 8)}`,
+        promotionId: applied.promotionId,
+        code: applied.code ?? '',
+        userId: context.userId,
+        orderId,
+        amount: applied.amount,
+        currency: context.currency,
+        status: 'redeemed',
+        redeemedAt,
+      });
+    }
+
+    return evaluation;
+  }
+
+  /** Gives the order's codes back, e.g. when the order is cancelled */
+  reverse(orderId: string): number {
+    let reversed = 0;
+    for (const redemption of this.redemptions) {
+      if (redemption.orderId !== orderId || redemption.status !== 'redeemed') continue;
+
+      redemption.status = 'reversed';
+      redemption.reversedAt = new Date();
+      const stored = this.codes.get(redemption.code);
+      if (stored && stored.uses > 0) {
+        stored.uses--;
+      }
+      reversed++;
+    }
+    return reversed;
+  }
+
+  getRedemptions(query: RedemptionQuery = {}): PromotionRedemption[] {
+    return this.redemptions
+      .filter(
+        redemption =>
+          (!query.orderId || redemption.orderId === query.orderId) &&
+          (!query.userId || redemption.userId === query.userId) &&
+          (!query.promotionId || redemption.promotionId === query.promotionId) &&
+          (!query.status || redemption.status === query.status)
+      )
+      .map(redemption => ({ ...redemption }));
+  }
+
+  /**
+   * The first rule the order breaks, or null when the rules are met. Also
+   * used for the cart's own automatic offers, which have no code.
+   */
+  checkRules(
+    rules: PromotionRules & { currency?: string },
+    context: PromotionContext
+  ): string | null {
+    const now = context.now ?? new Date();
+    if (rules.startsAt && now < rules.startsAt) {
+      return 'Promotion has not started yet';
+    }
+    if (rules.endsAt && now > rules.endsAt) {
+      return 'Promotion has expired';
+    }
+    if (rules.firstOrderOnly && (context.previousOrders ?? 0) > 0) {
+      return 'Promotion is only valid on a first order';
+    }
+    if (rules.minAmount) {
+      const minAmount = this.toContextCurrency(rules.minAmount, rules.currency, context);
+      if (orderSubtotal(context) < minAmount) {
+        return `Minimum order amount of ${minAmount} ${context.currency} required`;
+      }
+    }
+    if ((rules.productIds || rules.categories) && eligibleLines(rules, context).length === 0) {
+      return 'No applicable products in cart';
+    }
+    return null;
+  }
+
+  private checkCode(
+    stored: PromotionCode,
+    promotion: Promotion,
+    context: PromotionContext
+  ): string | null {
+    if (!promotion.isActive) {
+      return 'Promotion is not active';
+    }
+    if (stored.maxUses !== undefined && stored.uses >= stored.maxUses) {
+      return stored.maxUses === 1
+        ? 'Coupon code has already been used'
+        : 'Coupon code has reached its usage limit';
+    }
+
+    const redeemed = this.redemptions.filter(
+      redemption => redemption.promotionId === promotion.id && redemption.status === 'redeemed'
+    );
+    if (promotion.maxRedemptions !== undefined && redeemed.length >= promotion.maxRedemptions) {
+      return 'Promotion is no longer available';
+    }
+    if (
+      promotion.perUserLimit !== undefined &&
+      context.userId &&
+      redeemed.filter(redemption => redemption.userId === context.userId).length >=
+        promotion.perUserLimit
+    ) {
+      return 'You have already used this promotion';
+    }
+
+    return this.checkRules(promotion, context);
+  }
+
+  private calculateAmount(promotion: Promotion, context: PromotionContext): number {
+    const lines = eligibleLines(promotion, context);
+    const eligibleTotal = lines.reduce((total, line) => total + line.unitPrice * line.quantity, 0);
+
+    switch (promotion.type) {
+      case 'percentage':
+        return roundMoney((eligibleTotal * promotion.value) / 100, context.currency);
+      case 'fixed_amount':
+        return Math.min(
+          this.toContextCurrency(promotion.value, promotion.currency, context),
+          eligibleTotal
+        );
+      case 'buy_x_get_y':
+        return roundMoney(
+          lines.reduce(
+            (total, line) =>
+              total + Math.floor(line.quantity / (promotion.value + 1)) * line.unitPrice,
+            0
+          ),
+          context.currency
+        );
+    }
+  }
+
+  private toContextCurrency(
+    amount: number,
+    currency: string | undefined,
+    context: PromotionContext
+  ): number {
+    const from = (currency || this.currency.getSettlementCurrency()).toUpperCase();
+    const to = context.currency.toUpperCase();
+    return roundMoney(from === to ? amount : this.currency.convert(amount, from, to), to);
+  }
+
+  private storeCode(
+    promotionId: string,
+    code: string,
+    maxUses?: number,
+    batchId?: string
+  ): PromotionCode {
+    const stored: PromotionCode = {
+      code,
+      promotionId,
+      ...(maxUses !== undefined && { maxUses }),
+      uses: 0,
+      ...(batchId && { batchId }),
+      createdAt: new Date(),
+    };
+    this.codes.set(code, stored);
+    return stored;
+  }
+
+  private randomCode(length: number): string {
+    return Array.from(this.randomBytes(length))
+      .map(byte => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+      .join('');
+  }
+
+  private requirePromotion(promotionId: string): Promotion {
+    const promotion = this.promotions.get(promotionId);
+    if (!promotion) {
+      throw new Error(`Promotion not found: ${promotionId}`);
+    }
+    return promotion;
+  }
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function orderSubtotal(context: PromotionContext): number {
+  return context.items.reduce((total, line) => total + line.unitPrice * line.quantity, 0);
+}
+
+function eligibleLines(rules: PromotionRules, context: PromotionContext): PromotionLine[] {
+  if (!rules.productIds && !rules.categories) {
+    return context.items;
+  }
+  return context.items.filter(
+    line =>
+      rules.productIds?.includes(line.productId) ||
+      (line.category !== undefined && rules.categories?.includes(line.category))
+  );
+}
+
+function canCombine(first: Promotion, second: Promotion): boolean {
+  if (!first.stackable || !second.stackable) {
+    return false;
+  }
+  return !first.stackGroup || first.stackGroup !== second.stackGroup;
+}
+
+export const promotionService = new PromotionService();
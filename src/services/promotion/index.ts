@@ -0,0 +1,18 @@
+export { PromotionService, PromotionRejectedError, promotionService } from './PromotionService';
+
+export type {
+  CodeGenerationOptions,
+  Promotion,
+  PromotionCode,
+  PromotionContext,
+  PromotionEvaluation,
+  PromotionInput,
+  PromotionLine,
+  PromotionRedemption,
+  PromotionRejection,
+  PromotionRules,
+  PromotionServiceOptions,
+  PromotionType,
+  RedemptionQuery,
+  RedemptionStatus,
+} from './PromotionService';
@@ -68,7 +68,7 @@ export class SecurityService {
   private async initializeEncryption(): Promise<void> {
     try {
       // Generate or import encryption key
-      this.encryptionKey = await window.crypto.subtle.generateKey(
+      const key = await window.crypto.subtle.generateKey(
         {
           name: 'AES-GCM',
           length: this.config.encryption.keyLength,
@@ -76,6 +76,9 @@ export class SecurityService {
         true, // extractable
         ['encrypt', 'decrypt']
       );
+      // encrypt() may have initialized a key while this one was generated;
+      // replacing it would make everything encrypted so far unreadable
+      this.encryptionKey ??= key;
     } catch (error) {
       console.warn('Failed to initialize Web Crypto API:', error);
     }
@@ -83,7 +86,9 @@ export class SecurityService {
 
   // Browser-compatible random generation
   private generateRandomBytes(length: number): Uint8Array {
-    return window.crypto.getRandomValues(new Uint8Array(length));
+    const bytes = new Uint8Array(length);
+    window.crypto.getRandomValues(bytes);
+    return bytes;
   }
 
   private generateRandomString(length: number): string {
@@ -162,6 +167,12 @@ export class SecurityService {
     }
   }
 
+  // SHA-256 fingerprint for matching secrets without decrypting them
+  async digest(data: string): Promise<string> {
+    const hashBuffer = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(data));
+    return this.bufferToHex(hashBuffer);
+  }
+
   // Utility functions for hex conversion
   private bufferToHex(buffer: ArrayBuffer): string {
     return Array.from(new Uint8Array(buffer))
@@ -169,12 +180,12 @@ export class SecurityService {
       .join('');
   }
 
-  private hexToBuffer(hex: string): ArrayBuffer {
+  private hexToBuffer(hex: string): Uint8Array {
     const bytes = new Uint8Array(hex.length / 2);
     for (let i = 0; i < hex.length; i += 2) {
       bytes[i / 2] = parseInt(hex.substr(i, 2), 16);
     }
-    return bytes.buffer;
+    return bytes;
   }
 
   // Password Hashing using Web Crypto API (PBKDF2)
@@ -398,6 +409,8 @@ export class SecurityService {
         "img-src 'self' data: https:",
         "font-src 'self'",
         "connect-src 'self'",
+        // Sandboxed plugins run in workers created from blob: URLs
+        "worker-src 'self' blob:",
         "frame-ancestors 'none'",
         "base-uri 'self'",
         "form-action 'self'",
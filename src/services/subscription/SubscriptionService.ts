@@ -0,0 +1,445 @@
+import type {
+  BillingInterval,
+  Order,
+  OrderItem,
+  PaymentMethod,
+  PluginContext,
+  Subscription,
+  SubscriptionPlan,
+} from '../../types';
+import { SubscriptionStatus } from '../../types';
+import { EVENTS, SUBSCRIPTION_CONFIG } from '../../core/constants';
+import { globalEventEmitter } from '../../core/utils/EventEmitter';
+import { Logger } from '../../core/utils/Logger';
+import { pluginManager } from '../../core/plugin/PluginManager';
+import { orderService } from '../order/OrderService';
+import type { OrderService } from '../order/OrderService';
+import { paymentService } from '../payment/PaymentService';
+import type { PaymentService } from '../payment/PaymentService';
+import { InMemorySubscriptionStore } from './SubscriptionStore';
+import type { SubscriptionStore } from './SubscriptionStore';
+
+export type RenewalOrders = Pick<OrderService, 'createOrder' | 'getOrder' | 'cancelOrder'>;
+
+export type RenewalPayments = Pick<PaymentService, 'createPayment'>;
+
+export interface SubscriptionExtender {
+  extendSubscription(pluginId: string, context: PluginContext): Promise<boolean>;
+}
+
+export interface SubscriptionServiceOptions {
+  /** How long a past-due subscription keeps access after its period ends */
+  gracePeriodMs?: number;
+  /** Delay before each retry of a failed renewal payment */
+  retryDelaysMs?: readonly number[];
+}
+
+export interface RenewalRunSummary {
+  renewalsStarted: number;
+  extended: number;
+  expired: number;
+}
+
+export class SubscriptionNotFoundError extends Error {
+  constructor(public readonly subscriptionId: string) {
+    super(`Subscription not found: ${subscriptionId}`);
+    this.name = 'SubscriptionNotFoundError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Adds billing intervals, keeping month ends in range (Jan 31 + 1 month is Feb 28/29) */
+export function addBillingInterval(date: Date, interval: BillingInterval, count = 1): Date {
+  const result = new Date(date);
+  switch (interval) {
+    case 'day':
+      result.setDate(result.getDate() + count);
+      return result;
+    case 'week':
+      result.setDate(result.getDate() + count * 7);
+      return result;
+    case 'month':
+    case 'year': {
+      const months = interval === 'year' ? count * 12 : count;
+      const day = result.getDate();
+      result.setDate(1);
+      result.setMonth(result.getMonth() + months);
+      const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+      result.setDate(Math.min(day, lastDay));
+      return result;
+    }
+  }
+}
+
+/**
+ * Recurring billing for subscription products. Completing an order for one
+ * starts a subscription; when its period ends the scheduler places a renewal
+ * order and charges the stored payment method. A paid renewal starts the next
+ * period and asks the product's plugin to extend the account; a failed one
+ * puts the subscription past due, retries on a dunning schedule and expires
+ * it once the grace period runs out.
+ */
+export class SubscriptionService {
+  private renewalSweepInterval: ReturnType<typeof setInterval> | null = null;
+  private readonly gracePeriodMs: number;
+  private readonly retryDelaysMs: readonly number[];
+
+  constructor(
+    private readonly store: SubscriptionStore = new InMemorySubscriptionStore(),
+    private readonly orders: RenewalOrders = orderService,
+    private readonly payments: RenewalPayments = paymentService,
+    private readonly plugins: SubscriptionExtender = pluginManager,
+    options: SubscriptionServiceOptions = {}
+  ) {
+    this.gracePeriodMs = options.gracePeriodMs ?? SUBSCRIPTION_CONFIG.GRACE_PERIOD;
+    this.retryDelaysMs = options.retryDelaysMs ?? SUBSCRIPTION_CONFIG.RETRY_DELAYS;
+    this.setupEventListeners();
+  }
+
+  async getSubscription(subscriptionId: string): Promise<Subscription | null> {
+    return this.store.findById(subscriptionId);
+  }
+
+  async getUserSubscriptions(userId: string): Promise<Subscription[]> {
+    return this.store.findByUser(userId);
+  }
+
+  /**
+   * Stops renewals. The account stays usable until the current period ends,
+   * or right away expires when `immediately` is set.
+   */
+  async cancel(subscriptionId: string, immediately = false): Promise<Subscription> {
+    const subscription = await this.require(subscriptionId);
+    if (subscription.status === SubscriptionStatus.EXPIRED) {
+      return subscription;
+    }
+
+    const now = new Date();
+    const pendingOrderId = subscription.pendingOrderId;
+    subscription.status = immediately ? SubscriptionStatus.EXPIRED : SubscriptionStatus.CANCELLED;
+    subscription.cancelledAt = now;
+    delete subscription.pendingOrderId;
+    delete subscription.nextAttemptAt;
+    subscription.updatedAt = now;
+    await this.store.save(subscription);
+
+    if (pendingOrderId) {
+      await this.orders.cancelOrder(pendingOrderId, 'Subscription cancelled', 'system');
+    }
+
+    await globalEventEmitter.emit(EVENTS.SUBSCRIPTION_CANCELLED, { subscription });
+    return subscription;
+  }
+
+  /** Switches the card or wallet renewals are charged to; a past-due renewal is retried next run */
+  async updatePaymentMethod(
+    subscriptionId: string,
+    paymentMethod: PaymentMethod
+  ): Promise<Subscription> {
+    const subscription = await this.require(subscriptionId);
+    const now = new Date();
+
+    subscription.paymentMethod = paymentMethod;
+    if (subscription.status === SubscriptionStatus.PAST_DUE) {
+      subscription.nextAttemptAt = now;
+    }
+    subscription.updatedAt = now;
+    await this.store.save(subscription);
+    return subscription;
+  }
+
+  /**
+   * One pass of the renewal scheduler: starts renewals for ended periods and
+   * due retries, expires subscriptions whose grace period or cancelled period
+   * is over, and retries outstanding account extensions.
+   */
+  async runRenewals(now: Date = new Date()): Promise<RenewalRunSummary> {
+    const summary: RenewalRunSummary = { renewalsStarted: 0, extended: 0, expired: 0 };
+
+    for (const subscription of await this.store.findDue(now)) {
+      try {
+        if (subscription.extensionPending) {
+          if (await this.extend(subscription)) summary.extended++;
+          continue;
+        }
+
+        if (
+          subscription.status === SubscriptionStatus.CANCELLED ||
+          (subscription.status === SubscriptionStatus.PAST_DUE &&
+            subscription.graceEndsAt &&
+            subscription.graceEndsAt <= now)
+        ) {
+          await this.expire(subscription, now);
+          summary.expired++;
+          continue;
+        }
+
+        await this.startRenewal(subscription, now);
+        summary.renewalsStarted++;
+      } catch (error) {
+        console.error(`Failed to process subscription ${subscription.id}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  startRenewalScheduler(intervalMs: number = SUBSCRIPTION_CONFIG.RENEWAL_SWEEP_INTERVAL): void {
+    if (this.renewalSweepInterval) {
+      return;
+    }
+
+    this.renewalSweepInterval = setInterval(() => {
+      this.runRenewals().catch(error => {
+        console.error('Subscription renewal run failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  stopRenewalScheduler(): void {
+    if (this.renewalSweepInterval) {
+      clearInterval(this.renewalSweepInterval);
+      this.renewalSweepInterval = null;
+    }
+  }
+
+  /** Starts subscriptions for the subscription items of a first purchase */
+  async handleOrderCompleted(order: Order): Promise<void> {
+    const renewing = await this.store.findByPendingOrder(order.id);
+    if (renewing) {
+      await this.completeRenewal(renewing, order);
+      return;
+    }
+
+    if (order.metadata?.subscriptionId) {
+      return;
+    }
+
+    for (const item of order.items) {
+      const plan = item.product.subscription;
+      if (!plan || (await this.store.findByOrderItem(item.id))) {
+        continue;
+      }
+      await this.create(order, item, plan);
+    }
+  }
+
+  /** A renewal order that failed or was cancelled counts as a failed payment */
+  async handleOrderEnded(order: Order): Promise<void> {
+    const subscription = await this.store.findByPendingOrder(order.id);
+    if (!subscription) {
+      return;
+    }
+
+    const lastChange = order.statusHistory[order.statusHistory.length - 1];
+    await this.recordFailure(subscription, lastChange?.reason || `Renewal order ${order.status}`);
+  }
+
+  private async create(
+    order: Order,
+    item: OrderItem,
+    plan: SubscriptionPlan
+  ): Promise<Subscription> {
+    const now = new Date();
+    const start = order.completedAt ?? now;
+    const accountId: unknown = item.deliveryData?.accountId;
+
+    const subscription: Subscription = {
+      id: this.generateSubscriptionId(),
+      userId: order.userId,
+      productId: item.productId,
+      pluginId: item.product.pluginId,
+      ...(typeof accountId === 'string' && { accountId }),
+      originOrderId: order.id,
+      originOrderItemId: item.id,
+      status: SubscriptionStatus.ACTIVE,
+      interval: plan.interval,
+      intervalCount: plan.intervalCount ?? 1,
+      quantity: item.quantity,
+      currency: order.currency,
+      paymentMethod: order.paymentMethod as PaymentMethod,
+      currentPeriodStart: start,
+      currentPeriodEnd: addBillingInterval(start, plan.interval, plan.intervalCount ?? 1),
+      failedAttempts: 0,
+      extensionPending: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(subscription);
+    await globalEventEmitter.emit(EVENTS.SUBSCRIPTION_CREATED, { subscription });
+    return subscription;
+  }
+
+  private async startRenewal(subscription: Subscription, now: Date): Promise<void> {
+    // The key changes with every attempt, so a retry places a fresh order
+    // while a repeated run for the same attempt reuses the first one
+    const order = await this.orders.createOrder(
+      {
+        userId: subscription.userId,
+        items: [{ productId: subscription.productId, quantity: subscription.quantity }],
+        paymentMethod: subscription.paymentMethod,
+        metadata: { subscriptionId: subscription.id, renewal: true },
+      },
+      {
+        idempotencyKey: `renewal:${subscription.id}:${subscription.currentPeriodEnd.toISOString()}:${subscription.failedAttempts}`,
+      }
+    );
+
+    subscription.pendingOrderId = order.id;
+    subscription.updatedAt = now;
+    await this.store.save(subscription);
+
+    const response = await this.payments.createPayment({
+      orderId: order.id,
+      amount: order.totalAmount,
+      currency: order.currency,
+      method: subscription.paymentMethod,
+      metadata: { subscriptionId: subscription.id, renewal: true },
+    });
+
+    if (!response.success) {
+      // Cancelling the order records the failure through handleOrderEnded
+      await this.orders.cancelOrder(order.id, response.error || 'Renewal payment failed', 'system');
+    }
+  }
+
+  private async completeRenewal(subscription: Subscription, order: Order): Promise<void> {
+    const now = new Date();
+    const start = subscription.currentPeriodEnd;
+
+    subscription.status = SubscriptionStatus.ACTIVE;
+    subscription.currentPeriodStart = start;
+    subscription.currentPeriodEnd = addBillingInterval(
+      start,
+      subscription.interval,
+      subscription.intervalCount
+    );
+    subscription.lastRenewalOrderId = order.id;
+    subscription.failedAttempts = 0;
+    subscription.extensionPending = true;
+    delete subscription.pendingOrderId;
+    delete subscription.lastFailureReason;
+    delete subscription.nextAttemptAt;
+    delete subscription.graceEndsAt;
+    subscription.updatedAt = now;
+    await this.store.save(subscription);
+
+    await globalEventEmitter.emit(EVENTS.SUBSCRIPTION_RENEWED, { subscription, order });
+    await this.extend(subscription, order);
+  }
+
+  /** Asks the plugin to extend the account; left pending for the next run when it cannot */
+  private async extend(subscription: Subscription, renewalOrder?: Order): Promise<boolean> {
+    const order =
+      renewalOrder ??
+      (await this.orders.getOrder(subscription.lastRenewalOrderId ?? subscription.originOrderId));
+    const product = order?.items.find(item => item.productId === subscription.productId)?.product;
+    if (!order || !product) {
+      console.error(`Cannot extend subscription ${subscription.id}: renewal order not found`);
+      return false;
+    }
+
+    const days = Math.round(
+      (subscription.currentPeriodEnd.getTime() - subscription.currentPeriodStart.getTime()) / DAY_MS
+    );
+    const extended = await this.plugins.extendSubscription(subscription.pluginId, {
+      order,
+      product,
+      user: {
+        id: subscription.userId,
+        telegramId: Number(subscription.userId) || 0,
+        createdAt: subscription.createdAt,
+        updatedAt: subscription.updatedAt,
+      },
+      config: { days, periodEnd: subscription.currentPeriodEnd.toISOString() },
+      logger: new Logger(`Plugin:${subscription.pluginId}`),
+      subscription,
+    });
+
+    if (!extended) {
+      console.error(
+        `Plugin ${subscription.pluginId} did not extend subscription ${subscription.id}`
+      );
+      return false;
+    }
+
+    subscription.extensionPending = false;
+    subscription.updatedAt = new Date();
+    await this.store.save(subscription);
+    return true;
+  }
+
+  private async recordFailure(subscription: Subscription, reason: string): Promise<void> {
+    const now = new Date();
+
+    subscription.failedAttempts++;
+    subscription.lastFailureReason = reason;
+    delete subscription.pendingOrderId;
+    if (subscription.status !== SubscriptionStatus.CANCELLED) {
+      subscription.status = SubscriptionStatus.PAST_DUE;
+    }
+    subscription.graceEndsAt ??= new Date(
+      subscription.currentPeriodEnd.getTime() + this.gracePeriodMs
+    );
+
+    const delay = this.retryDelaysMs[subscription.failedAttempts - 1];
+    const nextAttemptAt = delay !== undefined ? new Date(now.getTime() + delay) : undefined;
+    if (nextAttemptAt && nextAttemptAt < subscription.graceEndsAt) {
+      subscription.nextAttemptAt = nextAttemptAt;
+    } else {
+      // Out of retries: the subscription expires when the grace period ends
+      delete subscription.nextAttemptAt;
+    }
+    subscription.updatedAt = now;
+    await this.store.save(subscription);
+
+    console.error(
+      `Renewal payment for subscription ${subscription.id} failed (attempt ${subscription.failedAttempts}): ${reason}`
+    );
+    await globalEventEmitter.emit(EVENTS.SUBSCRIPTION_PAYMENT_FAILED, {
+      subscription,
+      reason,
+      nextAttemptAt: subscription.nextAttemptAt,
+      graceEndsAt: subscription.graceEndsAt,
+    });
+  }
+
+  private async expire(subscription: Subscription, now: Date): Promise<void> {
+    subscription.status = SubscriptionStatus.EXPIRED;
+    delete subscription.nextAttemptAt;
+    subscription.updatedAt = now;
+    await this.store.save(subscription);
+
+    await globalEventEmitter.emit(EVENTS.SUBSCRIPTION_EXPIRED, { subscription });
+  }
+
+  private async require(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.store.findById(subscriptionId);
+    if (!subscription) {
+      throw new SubscriptionNotFoundError(subscriptionId);
+    }
+    return subscription;
+  }
+
+  private generateSubscriptionId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substr(2, 5);
+    return `sub_${timestamp}_${random}`;
+  }
+
+  private setupEventListeners(): void {
+    globalEventEmitter.on(EVENTS.ORDER_COMPLETED, async (data: { order: Order }) => {
+      await this.handleOrderCompleted(data.order);
+    });
+
+    for (const event of [EVENTS.ORDER_FAILED, EVENTS.ORDER_CANCELLED]) {
+      globalEventEmitter.on(event, async (data: { order: Order }) => {
+        await this.handleOrderEnded(data.order);
+      });
+    }
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
@@ -0,0 +1,238 @@
+import type { BillingInterval, PaymentMethod, Subscription } from '../../types';
+import { SubscriptionStatus } from '../../types';
+import type { SqlClient } from '../order/SqlOrderRepository';
+
+/** Storage for subscriptions; the renewal scheduler polls `findDue` */
+export interface SubscriptionStore {
+  save(subscription: Subscription): Promise<void>;
+  findById(id: string): Promise<Subscription | null>;
+  findByUser(userId: string): Promise<Subscription[]>;
+  findByOrderItem(orderItemId: string): Promise<Subscription | null>;
+  findByPendingOrder(orderId: string): Promise<Subscription | null>;
+  /**
+   * Subscriptions the scheduler has work for at `now`: periods that ended,
+   * payment retries that are due, grace periods that ran out and paid
+   * renewals whose account extension is still outstanding
+   */
+  findDue(now: Date): Promise<Subscription[]>;
+}
+
+function isDue(subscription: Subscription, now: Date): boolean {
+  if (subscription.extensionPending) {
+    return true;
+  }
+
+  switch (subscription.status) {
+    case SubscriptionStatus.ACTIVE:
+    case SubscriptionStatus.CANCELLED:
+      return !subscription.pendingOrderId && subscription.currentPeriodEnd <= now;
+    case SubscriptionStatus.PAST_DUE:
+      return (
+        !subscription.pendingOrderId &&
+        ((subscription.nextAttemptAt !== undefined && subscription.nextAttemptAt <= now) ||
+          (subscription.graceEndsAt !== undefined && subscription.graceEndsAt <= now))
+      );
+    default:
+      return false;
+  }
+}
+
+export class InMemorySubscriptionStore implements SubscriptionStore {
+  private subscriptions: Map<string, Subscription> = new Map();
+
+  async save(subscription: Subscription): Promise<void> {
+    this.subscriptions.set(subscription.id, { ...subscription });
+  }
+
+  async findById(id: string): Promise<Subscription | null> {
+    const subscription = this.subscriptions.get(id);
+    return subscription ? { ...subscription } : null;
+  }
+
+  async findByUser(userId: string): Promise<Subscription[]> {
+    return this.filter(subscription => subscription.userId === userId);
+  }
+
+  async findByOrderItem(orderItemId: string): Promise<Subscription | null> {
+    return this.filter(subscription => subscription.originOrderItemId === orderItemId)[0] ?? null;
+  }
+
+  async findByPendingOrder(orderId: string): Promise<Subscription | null> {
+    return this.filter(subscription => subscription.pendingOrderId === orderId)[0] ?? null;
+  }
+
+  async findDue(now: Date): Promise<Subscription[]> {
+    return this.filter(subscription => isDue(subscription, now));
+  }
+
+  private filter(predicate: (subscription: Subscription) => boolean): Subscription[] {
+    return Array.from(this.subscriptions.values())
+      .filter(predicate)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(subscription => ({ ...subscription }));
+  }
+}
+
+interface SubscriptionRow {
+  id: string;
+  user_id: string;
+  product_id: string;
+  plugin_id: string;
+  account_id: string | null;
+  origin_order_id: string;
+  origin_order_item_id: string;
+  status: SubscriptionStatus;
+  billing_interval: BillingInterval;
+  interval_count: number;
+  quantity: number;
+  currency: string;
+  payment_method: PaymentMethod;
+  current_period_start: string | Date;
+  current_period_end: string | Date;
+  pending_order_id: string | null;
+  last_renewal_order_id: string | null;
+  failed_attempts: number;
+  last_failure_reason: string | null;
+  next_attempt_at: string | Date | null;
+  grace_ends_at: string | Date | null;
+  extension_pending: boolean | number;
+  cancelled_at: string | Date | null;
+  created_at: string | Date;
+  updated_at: string | Date;
+}
+
+const SUBSCRIPTION_COLUMNS = `id, user_id, product_id, plugin_id, account_id, origin_order_id,
+  origin_order_item_id, status, billing_interval, interval_count, quantity, currency,
+  payment_method, current_period_start, current_period_end, pending_order_id,
+  last_renewal_order_id, failed_attempts, last_failure_reason, next_attempt_at, grace_ends_at,
+  extension_pending, cancelled_at, created_at, updated_at`;
+
+/** Subscriptions in the `subscriptions` table (migration 010) */
+export class SqlSubscriptionStore implements SubscriptionStore {
+  constructor(private readonly client: SqlClient) {}
+
+  async save(subscription: Subscription): Promise<void> {
+    await this.client.query(
+      `INSERT INTO subscriptions (${SUBSCRIPTION_COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18,
+               $19, $20, $21, $22, $23, $24, $25)
+       ON CONFLICT (id) DO UPDATE SET
+         account_id = EXCLUDED.account_id,
+         status = EXCLUDED.status,
+         payment_method = EXCLUDED.payment_method,
+         current_period_start = EXCLUDED.current_period_start,
+         current_period_end = EXCLUDED.current_period_end,
+         pending_order_id = EXCLUDED.pending_order_id,
+         last_renewal_order_id = EXCLUDED.last_renewal_order_id,
+         failed_attempts = EXCLUDED.failed_attempts,
+         last_failure_reason = EXCLUDED.last_failure_reason,
+         next_attempt_at = EXCLUDED.next_attempt_at,
+         grace_ends_at = EXCLUDED.grace_ends_at,
+         extension_pending = EXCLUDED.extension_pending,
+         cancelled_at = EXCLUDED.cancelled_at,
+         updated_at = EXCLUDED.updated_at`,
+      this.toParams(subscription)
+    );
+  }
+
+  async findById(id: string): Promise<Subscription | null> {
+    return (await this.select('WHERE id = $1', [id]))[0] ?? null;
+  }
+
+  async findByUser(userId: string): Promise<Subscription[]> {
+    return this.select('WHERE user_id = $1', [userId]);
+  }
+
+  async findByOrderItem(orderItemId: string): Promise<Subscription | null> {
+    return (await this.select('WHERE origin_order_item_id = $1', [orderItemId]))[0] ?? null;
+  }
+
+  async findByPendingOrder(orderId: string): Promise<Subscription | null> {
+    return (await this.select('WHERE pending_order_id = $1', [orderId]))[0] ?? null;
+  }
+
+  async findDue(now: Date): Promise<Subscription[]> {
+    return this.select(
+      `WHERE extension_pending
+         OR (pending_order_id IS NULL AND (
+           (status IN ($2, $3) AND current_period_end <= $1)
+           OR (status = $4 AND (next_attempt_at <= $1 OR grace_ends_at <= $1))
+         ))`,
+      [
+        now.toISOString(),
+        SubscriptionStatus.ACTIVE,
+        SubscriptionStatus.CANCELLED,
+        SubscriptionStatus.PAST_DUE,
+      ]
+    );
+  }
+
+  private async select(where: string, params: unknown[]): Promise<Subscription[]> {
+    const result = await this.client.query<SubscriptionRow>(
+      `SELECT ${SUBSCRIPTION_COLUMNS} FROM subscriptions ${where} ORDER BY created_at ASC, id ASC`,
+      params
+    );
+    return result.rows.map(row => this.toSubscription(row));
+  }
+
+  private toParams(subscription: Subscription): unknown[] {
+    const date = (value?: Date) => (value ? value.toISOString() : null);
+    return [
+      subscription.id,
+      subscription.userId,
+      subscription.productId,
+      subscription.pluginId,
+      subscription.accountId ?? null,
+      subscription.originOrderId,
+      subscription.originOrderItemId,
+      subscription.status,
+      subscription.interval,
+      subscription.intervalCount,
+      subscription.quantity,
+      subscription.currency,
+      subscription.paymentMethod,
+      subscription.currentPeriodStart.toISOString(),
+      subscription.currentPeriodEnd.toISOString(),
+      subscription.pendingOrderId ?? null,
+      subscription.lastRenewalOrderId ?? null,
+      subscription.failedAttempts,
+      subscription.lastFailureReason ?? null,
+      date(subscription.nextAttemptAt),
+      date(subscription.graceEndsAt),
+      subscription.extensionPending,
+      date(subscription.cancelledAt),
+      subscription.createdAt.toISOString(),
+      subscription.updatedAt.toISOString(),
+    ];
+  }
+
+  private toSubscription(row: SubscriptionRow): Subscription {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      productId: row.product_id,
+      pluginId: row.plugin_id,
+      ...(row.account_id && { accountId: row.account_id }),
+      originOrderId: row.origin_order_id,
+      originOrderItemId: row.origin_order_item_id,
+      status: row.status,
+      interval: row.billing_interval,
+      intervalCount: Number(row.interval_count),
+      quantity: Number(row.quantity),
+      currency: row.currency,
+      paymentMethod: row.payment_method,
+      currentPeriodStart: new Date(row.current_period_start),
+      currentPeriodEnd: new Date(row.current_period_end),
+      ...(row.pending_order_id && { pendingOrderId: row.pending_order_id }),
+      ...(row.last_renewal_order_id && { lastRenewalOrderId: row.last_renewal_order_id }),
+      failedAttempts: Number(row.failed_attempts),
+      ...(row.last_failure_reason && { lastFailureReason: row.last_failure_reason }),
+      ...(row.next_attempt_at && { nextAttemptAt: new Date(row.next_attempt_at) }),
+      ...(row.grace_ends_at && { graceEndsAt: new Date(row.grace_ends_at) }),
+      extensionPending: Boolean(row.extension_pending),
+      ...(row.cancelled_at && { cancelledAt: new Date(row.cancelled_at) }),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
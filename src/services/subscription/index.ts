@@ -0,0 +1,16 @@
+export {
+  SubscriptionService,
+  SubscriptionNotFoundError,
+  addBillingInterval,
+  subscriptionService,
+} from './SubscriptionService';
+export { InMemorySubscriptionStore, SqlSubscriptionStore } from './SubscriptionStore';
+
+export type {
+  RenewalOrders,
+  RenewalPayments,
+  RenewalRunSummary,
+  SubscriptionExtender,
+  SubscriptionServiceOptions,
+} from './SubscriptionService';
+export type { SubscriptionStore } from './SubscriptionStore';
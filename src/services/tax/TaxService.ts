@@ -0,0 +1,146 @@
+// ============================================================================
+// MTYB Virtual Goods Platform - Tax Service
+// ============================================================================
+
+import type { ProductCategory, TaxLine } from '../../types';
+import { roundMoney } from '../currency/Money';
+
+export interface TaxRule {
+  id: string;
+  name: string;
+  /** Fraction of the net amount, e.g. 0.08 for 8% */
+  rate: number;
+  /** Whether listed prices already include this tax */
+  inclusive: boolean;
+  /** ISO 3166 alpha-2 code; rules without one apply in every country */
+  country?: string;
+  /** Rules without categories apply to every category */
+  categories?: ProductCategory[];
+}
+
+export interface TaxableItem {
+  productId: string;
+  category?: ProductCategory;
+  orderItemId?: string;
+  /** Line amount as priced, in the calculation currency */
+  amount: number;
+}
+
+export interface TaxContext {
+  currency: string;
+  country?: string;
+}
+
+export interface TaxCalculation {
+  lines: TaxLine[];
+  /** Tax already contained in the item amounts */
+  inclusiveTax: number;
+  /** Tax to add on top of the item amounts */
+  exclusiveTax: number;
+  totalTax: number;
+}
+
+export interface TaxServiceOptions {
+  defaultCountry?: string;
+}
+
+// Malaysian service tax on digital services, shown inside storefront prices
+export const DEFAULT_TAX_RULES: TaxRule[] = [
+  { id: 'my-service-tax', name: 'Service Tax', rate: 0.08, inclusive: true, country: 'MY' },
+];
+
+export class TaxService {
+  private rules: TaxRule[] = [];
+  private readonly defaultCountry: string;
+
+  constructor(rules: TaxRule[] = DEFAULT_TAX_RULES, options: TaxServiceOptions = {}) {
+    this.setRules(rules);
+    this.defaultCountry = options.defaultCountry ?? 'MY';
+  }
+
+  getRules(): TaxRule[] {
+    return [...this.rules];
+  }
+
+  setRules(rules: TaxRule[]): void {
+    for (const rule of rules) {
+      if (!(rule.rate >= 0 && rule.rate < 1)) {
+        throw new Error(`Tax rule ${rule.id} has an invalid rate: ${rule.rate}`);
+      }
+    }
+    this.rules = [...rules];
+  }
+
+  getDefaultCountry(): string {
+    return this.defaultCountry;
+  }
+
+  /**
+   * The most specific rule wins: country and category, then country, then
+   * category, then a catch-all. Ties go to the rule listed first.
+   */
+  findRule(category: ProductCategory | undefined, country: string): TaxRule | null {
+    let best: TaxRule | null = null;
+    let bestScore = -1;
+
+    for (const rule of this.rules) {
+      if (rule.country && rule.country.toUpperCase() !== country.toUpperCase()) continue;
+      if (rule.categories && (!category || !rule.categories.includes(category))) continue;
+
+      const score = (rule.country ? 2 : 0) + (rule.categories ? 1 : 0);
+      if (score > bestScore) {
+        best = rule;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /** Taxes each line separately, rounding per line in the context currency */
+  calculate(items: TaxableItem[], context: TaxContext): TaxCalculation {
+    const country = (context.country || this.defaultCountry).toUpperCase();
+    const lines: TaxLine[] = [];
+    let inclusiveTax = 0;
+    let exclusiveTax = 0;
+
+    for (const item of items) {
+      const rule = this.findRule(item.category, country);
+      if (!rule || rule.rate === 0) continue;
+
+      const amount = rule.inclusive
+        ? roundMoney(item.amount - item.amount / (1 + rule.rate), context.currency)
+        : roundMoney(item.amount * rule.rate, context.currency);
+      const taxableAmount = rule.inclusive
+        ? roundMoney(item.amount - amount, context.currency)
+        : item.amount;
+
+      lines.push({
+        ruleId: rule.id,
+        name: rule.name,
+        rate: rule.rate,
+        inclusive: rule.inclusive,
+        country,
+        productId: item.productId,
+        ...(item.orderItemId && { orderItemId: item.orderItemId }),
+        taxableAmount,
+        amount,
+      });
+
+      if (rule.inclusive) {
+        inclusiveTax += amount;
+      } else {
+        exclusiveTax += amount;
+      }
+    }
+
+    return {
+      lines,
+      inclusiveTax: roundMoney(inclusiveTax, context.currency),
+      exclusiveTax: roundMoney(exclusiveTax, context.currency),
+      totalTax: roundMoney(inclusiveTax + exclusiveTax, context.currency),
+    };
+  }
+}
+
+export const taxService = new TaxService();
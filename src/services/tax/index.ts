@@ -0,0 +1,9 @@
+export { TaxService, taxService, DEFAULT_TAX_RULES } from './TaxService';
+
+export type {
+  TaxCalculation,
+  TaxContext,
+  TaxRule,
+  TaxServiceOptions,
+  TaxableItem,
+} from './TaxService';
@@ -0,0 +1,245 @@
+import type {
+  ApiResponse,
+  Product,
+  WishlistAlert,
+  WishlistAlertKind,
+  WishlistAlerts,
+  WishlistItem,
+} from '../../types';
+import { EVENTS } from '../../core/constants';
+import { globalEventEmitter } from '../../core/utils/EventEmitter';
+import type { IEventEmitter } from '../../core/utils/EventEmitter';
+import { formatMoney } from '../currency/Money';
+import { productService } from '../product/ProductService';
+import { inventoryService } from '../product/InventoryService';
+import type { InventoryTransaction } from '../product/InventoryService';
+import { priceService } from '../product/PriceService';
+import type { PriceHistory } from '../product/PriceService';
+import { LocalTelegramBotTransport, chatIdForUser } from '../notification/TelegramBot';
+import type { TelegramBotTransport } from '../notification/TelegramBot';
+import type { CartCatalog } from '../cart/CartSyncService';
+import { InMemoryWishlistStore } from './WishlistStore';
+import type { WishlistStore } from './WishlistStore';
+
+/** Source of the `transactionRecorded` or `priceChanged` events the alerts follow */
+export type ProductChangeSource = Pick<IEventEmitter, 'on'>;
+
+const DEFAULT_ALERTS: WishlistAlerts = { backInStock: true, priceDrop: true };
+
+/**
+ * Per-user wishlists with back-in-stock and price-drop alerts. Alerts follow
+ * InventoryService restocks that bring a product back above zero and
+ * PriceService price changes that lower it. Each alert goes to the app's
+ * NotificationCenter as a WISHLIST_ALERT event and to the user's Telegram
+ * chat; both are alerts the user asked for, so they are not gated on the
+ * promotional-message opt-in.
+ */
+export class WishlistService {
+  constructor(
+    private readonly store: WishlistStore = new InMemoryWishlistStore(),
+    private readonly catalog: CartCatalog = productService,
+    private readonly bot: TelegramBotTransport = new LocalTelegramBotTransport(),
+    inventory: ProductChangeSource = inventoryService,
+    prices: ProductChangeSource = priceService
+  ) {
+    inventory.on('transactionRecorded', async (transaction: InventoryTransaction) => {
+      await this.handleStockChange(transaction);
+    });
+    prices.on('priceChanged', async (change: PriceHistory) => {
+      await this.handlePriceChange(change);
+    });
+  }
+
+  async getWishlist(userId: string): Promise<WishlistItem[]> {
+    return this.store.findByUser(userId);
+  }
+
+  async isInWishlist(userId: string, productId: string): Promise<boolean> {
+    return (await this.store.find(userId, productId)) !== null;
+  }
+
+  async addToWishlist(
+    userId: string,
+    productId: string,
+    alerts: Partial<WishlistAlerts> = {}
+  ): Promise<ApiResponse<WishlistItem>> {
+    try {
+      const existing = await this.store.find(userId, productId);
+      if (existing) {
+        return { success: true, data: existing };
+      }
+
+      const product = await this.catalog.getProductById(productId);
+      if (!product) {
+        return {
+          success: false,
+          error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' },
+        };
+      }
+
+      const item: WishlistItem = {
+        userId,
+        productId,
+        alerts: { ...DEFAULT_ALERTS, ...alerts },
+        priceAtAdd: product.price,
+        currency: product.currency,
+        addedAt: new Date(),
+      };
+      await this.store.save(item);
+      await globalEventEmitter.emit(EVENTS.WISHLIST_UPDATED, { userId, productId, added: true });
+
+      return { success: true, data: item };
+    } catch (error) {
+      console.error(`Failed to add ${productId} to the wishlist of ${userId}:`, error);
+      return {
+        success: false,
+        error: { code: 'WISHLIST_UPDATE_FAILED', message: 'Failed to update wishlist' },
+      };
+    }
+  }
+
+  async removeFromWishlist(userId: string, productId: string): Promise<boolean> {
+    const removed = await this.store.delete(userId, productId);
+    if (removed) {
+      await globalEventEmitter.emit(EVENTS.WISHLIST_UPDATED, { userId, productId, added: false });
+    }
+    return removed;
+  }
+
+  /** Adds or removes the product; the ProductDetail heart button calls this */
+  async toggleWishlist(
+    userId: string,
+    productId: string
+  ): Promise<ApiResponse<{ inWishlist: boolean }>> {
+    if (await this.removeFromWishlist(userId, productId)) {
+      return { success: true, data: { inWishlist: false } };
+    }
+
+    const added = await this.addToWishlist(userId, productId);
+    return added.success
+      ? { success: true, data: { inWishlist: true } }
+      : { success: false, ...(added.error && { error: added.error }) };
+  }
+
+  async updateAlerts(
+    userId: string,
+    productId: string,
+    alerts: Partial<WishlistAlerts>
+  ): Promise<WishlistItem | null> {
+    const item = await this.store.find(userId, productId);
+    if (!item) {
+      return null;
+    }
+
+    item.alerts = { ...item.alerts, ...alerts };
+    await this.store.save(item);
+    return item;
+  }
+
+  /** Alerts watchers when a restock takes a product from none to some stock */
+  async handleStockChange(transaction: InventoryTransaction): Promise<number> {
+    if (
+      transaction.type !== 'RESTOCK' ||
+      transaction.previousStock > 0 ||
+      transaction.newStock <= 0
+    ) {
+      return 0;
+    }
+
+    const product = await this.catalog.getProductById(transaction.productId);
+    if (!product?.isActive) {
+      return 0;
+    }
+
+    return this.alertWatchers(product, 'back_in_stock');
+  }
+
+  async handlePriceChange(change: PriceHistory): Promise<number> {
+    if (!(change.newPrice < change.previousPrice)) {
+      return 0;
+    }
+
+    const product = await this.catalog.getProductById(change.productId);
+    if (!product?.isActive) {
+      return 0;
+    }
+
+    return this.alertWatchers(product, 'price_drop', change);
+  }
+
+  private async alertWatchers(
+    product: Product,
+    kind: WishlistAlertKind,
+    change?: PriceHistory
+  ): Promise<number> {
+    const watchers = await this.store.findWatchers(
+      product.id,
+      kind === 'back_in_stock' ? 'backInStock' : 'priceDrop'
+    );
+
+    let alerted = 0;
+    for (const item of watchers) {
+      const alert: WishlistAlert = {
+        id: this.generateAlertId(),
+        userId: item.userId,
+        productId: product.id,
+        productName: product.name,
+        kind,
+        ...(change && { previousPrice: change.previousPrice, newPrice: change.newPrice }),
+        currency: product.currency,
+        createdAt: new Date(),
+      };
+
+      await globalEventEmitter.emit(EVENTS.WISHLIST_ALERT, { alert });
+      await this.sendToChat(alert);
+
+      item.lastAlertedAt = alert.createdAt;
+      await this.store.save(item);
+      alerted++;
+    }
+    return alerted;
+  }
+
+  /** A blocked or unknown chat only loses the bot copy; the in-app alert is already out */
+  private async sendToChat(alert: WishlistAlert): Promise<void> {
+    const chatId = chatIdForUser(alert.userId);
+    if (chatId === null) {
+      return;
+    }
+
+    try {
+      await this.bot.sendMessage({ chatId, text: formatWishlistAlert(alert) });
+    } catch (error) {
+      console.error(`Failed to send wishlist alert to ${alert.userId}:`, error);
+    }
+  }
+
+  private generateAlertId(): string {
+    return `alert_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 8)}`;
+  }
+}
+
+/** Title and body shared by the bot message and the NotificationCenter entry */
+export function describeWishlistAlert(alert: WishlistAlert): { title: string; message: string } {
+  if (alert.kind === 'back_in_stock') {
+    return {
+      title: 'Back in stock',
+      message: `${alert.productName} from your wishlist is available again.`,
+    };
+  }
+
+  return {
+    title: 'Price drop',
+    message: `${alert.productName} from your wishlist dropped from ${formatMoney(
+      alert.previousPrice ?? 0,
+      alert.currency
+    )} to ${formatMoney(alert.newPrice ?? 0, alert.currency)}.`,
+  };
+}
+
+function formatWishlistAlert(alert: WishlistAlert): string {
+  const { title, message } = describeWishlistAlert(alert);
+  return `${title}: ${message}`;
+}
+
+export const wishlistService = new WishlistService();
@@ -0,0 +1,138 @@
+import type { WishlistAlerts, WishlistItem } from '../../types';
+import type { SqlClient } from '../order/SqlOrderRepository';
+
+/** Wishlist entries, one per user and product */
+export interface WishlistStore {
+  save(item: WishlistItem): Promise<void>;
+  find(userId: string, productId: string): Promise<WishlistItem | null>;
+  findByUser(userId: string): Promise<WishlistItem[]>;
+  /** Entries for a product whose owner asked for the given alert */
+  findWatchers(productId: string, alert: keyof WishlistAlerts): Promise<WishlistItem[]>;
+  delete(userId: string, productId: string): Promise<boolean>;
+}
+
+function copy(item: WishlistItem): WishlistItem {
+  return { ...item, alerts: { ...item.alerts } };
+}
+
+export class InMemoryWishlistStore implements WishlistStore {
+  private items: Map<string, WishlistItem> = new Map();
+
+  async save(item: WishlistItem): Promise<void> {
+    this.items.set(this.key(item.userId, item.productId), copy(item));
+  }
+
+  async find(userId: string, productId: string): Promise<WishlistItem | null> {
+    const item = this.items.get(this.key(userId, productId));
+    return item ? copy(item) : null;
+  }
+
+  async findByUser(userId: string): Promise<WishlistItem[]> {
+    return this.filter(item => item.userId === userId);
+  }
+
+  async findWatchers(productId: string, alert: keyof WishlistAlerts): Promise<WishlistItem[]> {
+    return this.filter(item => item.productId === productId && item.alerts[alert]);
+  }
+
+  async delete(userId: string, productId: string): Promise<boolean> {
+    return this.items.delete(this.key(userId, productId));
+  }
+
+  private key(userId: string, productId: string): string {
+    return `${userId}:${productId}`;
+  }
+
+  private filter(predicate: (item: WishlistItem) => boolean): WishlistItem[] {
+    return Array.from(this.items.values())
+      .filter(predicate)
+      .sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime())
+      .map(copy);
+  }
+}
+
+interface WishlistRow {
+  user_id: string;
+  product_id: string;
+  alert_back_in_stock: boolean | number;
+  alert_price_drop: boolean | number;
+  price_at_add: string | number;
+  currency: string;
+  added_at: string | Date;
+  last_alerted_at: string | Date | null;
+}
+
+const WISHLIST_COLUMNS = `user_id, product_id, alert_back_in_stock, alert_price_drop, price_at_add,
+  currency, added_at, last_alerted_at`;
+
+const ALERT_COLUMNS: Record<keyof WishlistAlerts, string> = {
+  backInStock: 'alert_back_in_stock',
+  priceDrop: 'alert_price_drop',
+};
+
+/** Wishlists in the `wishlist_items` table (migration 013) */
+export class SqlWishlistStore implements WishlistStore {
+  constructor(private readonly client: SqlClient) {}
+
+  async save(item: WishlistItem): Promise<void> {
+    await this.client.query(
+      `INSERT INTO wishlist_items (${WISHLIST_COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (user_id, product_id) DO UPDATE SET
+         alert_back_in_stock = EXCLUDED.alert_back_in_stock,
+         alert_price_drop = EXCLUDED.alert_price_drop,
+         last_alerted_at = EXCLUDED.last_alerted_at`,
+      [
+        item.userId,
+        item.productId,
+        item.alerts.backInStock,
+        item.alerts.priceDrop,
+        item.priceAtAdd,
+        item.currency,
+        item.addedAt.toISOString(),
+        item.lastAlertedAt?.toISOString() ?? null,
+      ]
+    );
+  }
+
+  async find(userId: string, productId: string): Promise<WishlistItem | null> {
+    return (
+      (await this.select('WHERE user_id = $1 AND product_id = $2', [userId, productId]))[0] ?? null
+    );
+  }
+
+  async findByUser(userId: string): Promise<WishlistItem[]> {
+    return this.select('WHERE user_id = $1', [userId]);
+  }
+
+  async findWatchers(productId: string, alert: keyof WishlistAlerts): Promise<WishlistItem[]> {
+    return this.select(`WHERE product_id = $1 AND ${ALERT_COLUMNS[alert]}`, [productId]);
+  }
+
+  async delete(userId: string, productId: string): Promise<boolean> {
+    const result = await this.client.query<{ user_id: string }>(
+      `DELETE FROM wishlist_items WHERE user_id = $1 AND product_id = $2 RETURNING user_id`,
+      [userId, productId]
+    );
+    return result.rows.length > 0;
+  }
+
+  private async select(where: string, params: unknown[]): Promise<WishlistItem[]> {
+    const result = await this.client.query<WishlistRow>(
+      `SELECT ${WISHLIST_COLUMNS} FROM wishlist_items ${where} ORDER BY added_at ASC`,
+      params
+    );
+    return result.rows.map(row => ({
+      userId: row.user_id,
+      productId: row.product_id,
+      alerts: {
+        backInStock: Boolean(row.alert_back_in_stock),
+        priceDrop: Boolean(row.alert_price_drop),
+      },
+      priceAtAdd: Number(row.price_at_add),
+      currency: row.currency,
+      addedAt: new Date(row.added_at),
+      ...(row.last_alerted_at && { lastAlertedAt: new Date(row.last_alerted_at) }),
+    }));
+  }
+}
@@ -0,0 +1,5 @@
+export { WishlistService, describeWishlistAlert, wishlistService } from './WishlistService';
+export { InMemoryWishlistStore, SqlWishlistStore } from './WishlistStore';
+
+export type { ProductChangeSource } from './WishlistService';
+export type { WishlistStore } from './WishlistStore';
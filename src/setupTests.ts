@@ -64,6 +64,10 @@ declare global {
           };
         };
         colorScheme: 'light' | 'dark';
+        openInvoice: (
+          url: string,
+          callback?: (status: 'paid' | 'cancelled' | 'failed' | 'pending') => void
+        ) => void;
         themeParams: {
           bg_color: string;
           text_color: string;
@@ -105,6 +109,7 @@ window.Telegram = {
       },
     },
     colorScheme: 'light',
+    openInvoice: jest.fn(),
     themeParams: {
       bg_color: '#ffffff',
       text_color: '#000000',
@@ -16,6 +16,10 @@ declare global {
           button_text_color?: string;
           secondary_bg_color?: string;
         };
+        openInvoice?: (
+          url: string,
+          callback?: (status: 'paid' | 'cancelled' | 'failed' | 'pending') => void
+        ) => void;
       };
     };
   }
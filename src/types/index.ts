@@ -73,6 +73,10 @@ export interface Product {
   images: ProductImage[];
   metadata: Record<string, any>;
   stock?: ProductStock;
+  /** Set on bundle products; each component is delivered by its own plugin */
+  bundle?: ProductBundle;
+  /** Set on subscription products, which renew until cancelled */
+  subscription?: SubscriptionPlan;
   deliveryInfo: DeliveryInfo;
   createdAt: Date;
   updatedAt: Date;
@@ -86,6 +90,29 @@ export interface ProductImage {
   order: number;
 }
 
+export interface BundleComponent {
+  productId: string;
+  /** Units of the component in one bundle */
+  quantity: number;
+}
+
+export interface ProductBundle {
+  components: BundleComponent[];
+  /**
+   * Percent off the components' combined price. Without it the bundle sells
+   * at its own `price`.
+   */
+  discountPercentage?: number;
+}
+
+export type BillingInterval = 'day' | 'week' | 'month' | 'year';
+
+export interface SubscriptionPlan {
+  interval: BillingInterval;
+  /** Intervals per billing period, e.g. 3 months; defaults to 1 */
+  intervalCount?: number;
+}
+
 export interface ProductStock {
   available: number;
   reserved: number;
@@ -109,6 +136,7 @@ export enum OrderStatus {
   COMPLETED = 'completed', // 已完成
   FAILED = 'failed', // 失败
   CANCELLED = 'cancelled', // 已取消
+  PARTIALLY_REFUNDED = 'partially_refunded', // 部分退款
   REFUNDED = 'refunded', // 已退款
 }
 
@@ -124,11 +152,65 @@ export interface Order {
   deliveryData?: Record<string, any>;
   notes?: string;
   metadata: Record<string, any>;
+  /** Rates used to convert item prices into `currency` when the order was placed */
+  exchangeRates?: ExchangeRateSnapshot[];
+  /** Total of `taxLines`, whether included in item prices or added on top */
+  taxAmount?: number;
+  taxLines?: TaxLine[];
+  /** Coupon discount taken off the item total before tax */
+  discountAmount?: number;
+  promotions?: AppliedPromotion[];
+  invoiceNumber?: string;
+  invoicedAt?: Date;
+  statusHistory: OrderStatusChange[];
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
 }
 
+export interface ExchangeRateSnapshot {
+  from: string;
+  to: string;
+  /** Units of `to` per unit of `from` */
+  rate: number;
+  source: string;
+  asOf: Date;
+  lockedAt: Date;
+}
+
+/** A coupon promotion priced into an order or cart */
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  code?: string;
+  /** Discount in the order currency */
+  amount: number;
+}
+
+/** Tax charged on one order line under one rule, kept for audit */
+export interface TaxLine {
+  ruleId: string;
+  name: string;
+  /** Fraction of the net amount, e.g. 0.08 for 8% */
+  rate: number;
+  inclusive: boolean;
+  country?: string;
+  productId: string;
+  orderItemId?: string;
+  /** Line amount before tax */
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface OrderStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  changedBy: string;
+  changedAt: Date;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
 export interface OrderItem {
   id: string;
   productId: string;
@@ -138,6 +220,56 @@ export interface OrderItem {
   totalPrice: number;
   deliveryData?: Record<string, any>;
   status: OrderStatus;
+  /** Where the item is in the fulfilment queue; unset until the order is paid */
+  deliveryStatus?: OrderItemDeliveryStatus;
+}
+
+export type OrderItemDeliveryStatus = 'queued' | 'in_progress' | 'delivered' | 'failed';
+
+export type DeliveryJobStatus = 'queued' | 'in_progress' | 'delivered' | 'dead_letter';
+
+/**
+ * One order item waiting to be delivered by its plugin. Failed attempts are
+ * retried with backoff while the plugin reports them retryable; the rest end
+ * up dead-lettered with the last error until an admin re-drives them.
+ */
+export interface DeliveryJob {
+  id: string;
+  orderId: string;
+  orderItemId: string;
+  productId: string;
+  pluginId: string;
+  status: DeliveryJobStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  lastError?: string;
+  redrivenBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deliveredAt?: Date;
+}
+
+export type BundleDeliveryStatus = 'delivered' | 'partial' | 'failed';
+
+/** Outcome of delivering one component of a bundle order item */
+export interface BundleComponentDelivery {
+  productId: string;
+  pluginId: string;
+  quantity: number;
+  delivered: boolean;
+  deliveryData?: Record<string, any>;
+  error?: string;
+  retryable?: boolean;
+  attempts: number;
+  /** ISO timestamp, as the record lives in the item's delivery data */
+  lastAttemptAt: string;
+}
+
+/** Kept in a bundle item's `deliveryData.bundle` */
+export interface BundleDelivery {
+  status: BundleDeliveryStatus;
+  components: BundleComponentDelivery[];
 }
 
 // ============================================================================
@@ -158,6 +290,8 @@ export enum PaymentMethod {
   CREDIT_CARD = 'credit_card',
   BANK_TRANSFER = 'bank_transfer',
   E_WALLET = 'e_wallet',
+  TELEGRAM_STARS = 'telegram_stars',
+  TON = 'ton',
 }
 
 export interface Payment {
@@ -168,6 +302,8 @@ export interface Payment {
   method: PaymentMethod;
   status: PaymentStatus;
   gatewayTransactionId?: string;
+  /** Charge the gateway settled the payment with, e.g. Telegram's telegram_payment_charge_id */
+  gatewayChargeId?: string;
   gatewayResponse?: Record<string, any>;
   failureReason?: string;
   refundAmount?: number;
@@ -176,6 +312,156 @@ export interface Payment {
   completedAt?: Date;
 }
 
+export enum RefundStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Mirrors a row of the `refunds` table; `items` map to `refund_items`.
+ */
+export interface Refund {
+  id: string;
+  paymentId: string;
+  orderId: string;
+  amount: number;
+  /** The payment's currency */
+  currency: string;
+  reason?: string;
+  gatewayRefundId?: string;
+  status: RefundStatus;
+  items: RefundItem[];
+  processedAt?: Date;
+  createdAt: Date;
+}
+
+export interface RefundItem {
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface RefundRequest {
+  paymentId: string;
+  /** Defaults to the sum of `items`, or everything still refundable */
+  amount?: number;
+  reason?: string;
+  items?: RefundItem[];
+}
+
+export interface RefundResult {
+  success: boolean;
+  refund?: Refund;
+  error?: string;
+}
+
+export enum WebhookEventStatus {
+  RECEIVED = 'received',
+  PROCESSED = 'processed',
+  FAILED = 'failed',
+  DEAD_LETTER = 'dead_letter',
+  REJECTED = 'rejected',
+}
+
+/**
+ * A gateway webhook as it arrived, kept so failed deliveries can be retried
+ * and replayed. Mirrors a row of the `webhook_events` table.
+ */
+export interface WebhookEventRecord {
+  id: string;
+  method: PaymentMethod;
+  eventId?: string;
+  eventType?: string;
+  payload: string;
+  signature: string;
+  signatureValid: boolean;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError?: string;
+  paymentId?: string;
+  nextAttemptAt?: Date;
+  replayedBy?: string;
+  receivedAt: Date;
+  processedAt?: Date;
+  updatedAt: Date;
+}
+
+export enum ProductCodeStatus {
+  AVAILABLE = 'available',
+  ALLOCATED = 'allocated',
+  REVOKED = 'revoked',
+}
+
+/**
+ * A license key or voucher code from a product's pool. The code itself is
+ * only kept encrypted; the fingerprint catches duplicate imports. Mirrors a
+ * row of the `product_codes` table.
+ */
+export interface ProductCode {
+  id: string;
+  productId: string;
+  encryptedCode: string;
+  iv: string;
+  fingerprint: string;
+  status: ProductCodeStatus;
+  batchId?: string;
+  orderId?: string;
+  orderItemId?: string;
+  /** Code this one replaced when it was reissued */
+  replacesCodeId?: string;
+  revokedReason?: string;
+  importedAt: Date;
+  allocatedAt?: Date;
+  revokedAt?: Date;
+}
+
+export enum SubscriptionStatus {
+  ACTIVE = 'active',
+  /** A renewal payment failed; access continues until the grace period ends */
+  PAST_DUE = 'past_due',
+  /** Will not renew; access continues until the current period ends */
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+}
+
+/**
+ * A recurring purchase of a time-based product. Each renewal is a regular
+ * order charged with the stored payment method; once it completes the
+ * plugin extends the account it delivered for the first order.
+ */
+export interface Subscription {
+  id: string;
+  userId: string;
+  productId: string;
+  pluginId: string;
+  /** Account the plugin delivered, when it reported one */
+  accountId?: string;
+  originOrderId: string;
+  originOrderItemId: string;
+  status: SubscriptionStatus;
+  interval: BillingInterval;
+  intervalCount: number;
+  quantity: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  /** Renewal order waiting for its payment */
+  pendingOrderId?: string;
+  lastRenewalOrderId?: string;
+  /** Failed renewal payments since the last successful one */
+  failedAttempts: number;
+  lastFailureReason?: string;
+  nextAttemptAt?: Date;
+  graceEndsAt?: Date;
+  /** The renewal was paid but the plugin has not extended the account yet */
+  extensionPending: boolean;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface PaymentRequest {
   orderId: string;
   amount: number;
@@ -217,6 +503,17 @@ export interface PluginConfig {
   dependencies?: string[];
   configSchema?: Record<string, any>;
   metadata: Record<string, any>;
+  /** What the plugin may do inside the sandbox; platform defaults apply otherwise */
+  sandbox?: PluginSandboxGrants;
+}
+
+export interface PluginSandboxGrants {
+  /** Hosts reachable through context.network (subdomains included); none when empty */
+  allowedDomains?: string[];
+  networkRequestsPerMinute?: number;
+  storageQuotaMB?: number;
+  maxStorageKeys?: number;
+  executionTimeoutMs?: number;
 }
 
 export interface PluginContext {
@@ -225,6 +522,27 @@ export interface PluginContext {
   user: User;
   config: Record<string, any>;
   logger: PluginLogger;
+  /** Set for onRefundProcessed */
+  refund?: Refund;
+  /** Set for onSubscriptionRenewed */
+  subscription?: Subscription;
+  /** Policy-checked HTTP access; set when the plugin runs in the sandbox */
+  network?: PluginNetworkAPI;
+  /** Storage private to the plugin; set when the plugin runs in the sandbox */
+  storage?: PluginStorageAPI;
+  /** Aborted when the sandbox stops the execution at its time limit */
+  signal?: AbortSignal;
+}
+
+export interface PluginNetworkAPI {
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+export interface PluginStorageAPI {
+  get<T = any>(key: string): Promise<T | null>;
+  set(key: string, value: any): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
 }
 
 export interface PluginLogger {
@@ -417,6 +735,84 @@ export interface CartItem {
   addedAt: Date;
 }
 
+/** A cart line as kept on the server; products are looked up again on load */
+export interface SyncedCartItem {
+  productId: string;
+  quantity: number;
+  addedAt: Date;
+  /** Unit price the line was last saved with, to spot price changes */
+  unitPrice: number;
+  currency: string;
+}
+
+/**
+ * A signed-in user's cart as stored on the server. `version` goes up with
+ * every write; a write based on an older version is refused so devices
+ * never overwrite each other's edits unseen.
+ */
+export interface SyncedCart {
+  userId: string;
+  version: number;
+  items: SyncedCartItem[];
+  couponCodes: string[];
+  updatedAt: Date;
+}
+
+export type CartReminderStatus = 'sent' | 'recovered';
+
+/** Reminder sent for an idle cart, and the order that recovered it if any */
+export interface CartReminder {
+  id: string;
+  userId: string;
+  /** Cart version the reminder was sent for; each version is reminded at most once */
+  cartVersion: number;
+  itemCount: number;
+  cartValue: number;
+  currency: string;
+  /** One-time coupon offered in the message */
+  couponCode?: string;
+  status: CartReminderStatus;
+  sentAt: Date;
+  recoveredOrderId?: string;
+  /** Order total in the order currency */
+  recoveredAmount?: number;
+  recoveredCurrency?: string;
+  recoveredAt?: Date;
+  couponRedeemed?: boolean;
+}
+
+/** Which changes to a wishlisted product the user wants to hear about */
+export interface WishlistAlerts {
+  backInStock: boolean;
+  priceDrop: boolean;
+}
+
+export interface WishlistItem {
+  userId: string;
+  productId: string;
+  alerts: WishlistAlerts;
+  /** Price when the product was added, for showing how much it has dropped since */
+  priceAtAdd: number;
+  currency: string;
+  addedAt: Date;
+  lastAlertedAt?: Date;
+}
+
+export type WishlistAlertKind = 'back_in_stock' | 'price_drop';
+
+export interface WishlistAlert {
+  id: string;
+  userId: string;
+  productId: string;
+  productName: string;
+  kind: WishlistAlertKind;
+  /** Set for price drops */
+  previousPrice?: number;
+  newPrice?: number;
+  currency: string;
+  createdAt: Date;
+}
+
 export interface PluginState {
   plugins: PluginConfig[];
   activePlugins: string[];
@@ -12,13 +12,76 @@ import {
   type ProductCategory,
 } from './index';
 
+// ============================================================================
+// Plugin Contract
+// ============================================================================
+
+/**
+ * Version of the contract every registered plugin implements. Bump the major
+ * version on breaking changes; the registry refuses plugins built against a
+ * different major version.
+ */
+export const PLUGIN_CONTRACT_VERSION = '1.0.0';
+
+/**
+ * What the platform calls on a plugin. Plugins extend BasePlugin below;
+ * delivery plugins (core/plugin/BasePlugin) and SDK plugins are registered
+ * through the adapters in core/plugin/PluginContract.
+ */
+export interface PluginContract {
+  readonly contractVersion: string;
+  config: PluginConfig;
+
+  initialize(config: Record<string, any>): Promise<void>;
+  validateConfig(config: Record<string, any>): Promise<ValidationResult>;
+  cleanup(): Promise<void>;
+
+  processOrder(context: PluginContext): Promise<DeliveryResult>;
+  validateProduct(productData: Record<string, any>): Promise<ValidationResult>;
+
+  onOrderCreated?(context: PluginContext): Promise<void>;
+  onPaymentCompleted?(context: PluginContext): Promise<void>;
+  onOrderCancelled?(context: PluginContext): Promise<void>;
+  onRefundProcessed?(context: PluginContext): Promise<void>;
+  onSubscriptionRenewed?(context: PluginContext): Promise<boolean>;
+  healthCheck?(): Promise<PluginHealthStatus>;
+}
+
+/**
+ * Shape of the delivery plugins (VpnPlugin and the plugin templates), which
+ * describe themselves through getters rather than a PluginConfig
+ */
+export interface DeliveryPlugin {
+  getId(): string;
+  getName(): string;
+  getVersion(): string;
+  getDescription(): string;
+  getAuthor(): string;
+
+  initialize(config?: Record<string, any>): Promise<void>;
+  validateOrder(context: PluginContext): Promise<ValidationResult>;
+  processDelivery(context: PluginContext): Promise<DeliveryResult>;
+  getHealthStatus(): Promise<PluginHealthStatus>;
+
+  validateConfig?(config: Record<string, any>): Promise<ValidationResult>;
+  cleanup?(): Promise<void>;
+  onRefundProcessed?(context: PluginContext): Promise<void>;
+  onSubscriptionRenewed?(context: PluginContext): Promise<boolean>;
+}
+
+/** Anything PluginManager.registerPlugin accepts */
+export type RegistrablePlugin = BasePlugin | DeliveryPlugin;
+
 // ============================================================================
 // Base Plugin Interface
 // ============================================================================
 
-export abstract class BasePlugin {
+export abstract class BasePlugin implements PluginContract {
   abstract config: PluginConfig;
 
+  /** Contract version this plugin was built against */
+  readonly contractVersion: string = PLUGIN_CONTRACT_VERSION;
+
   // ============================================================================
   // Lifecycle Methods
   // ============================================================================
@@ -94,6 +157,16 @@ export abstract class BasePlugin {
     // Default empty implementation
   }
 
+  /**
+   * Called when a subscription renewal has been paid; extend the delivered
+   * account by `context.config.days`
+   * @param _context Plugin execution context, with `subscription` set
+   * @returns Whether the account was extended
+   */
+  async onSubscriptionRenewed?(_context: PluginContext): Promise<boolean> {
+    return false;
+  }
+
   // ============================================================================
   // Health Check
   // ============================================================================
@@ -162,7 +235,7 @@ export abstract class BasePlugin {
 
 export interface IPluginManager {
   // Plugin Registration
-  registerPlugin(plugin: BasePlugin): Promise<void>;
+  registerPlugin(plugin: RegistrablePlugin, overrides?: Partial<PluginConfig>): Promise<void>;
   unregisterPlugin(pluginId: string): Promise<void>;
 
   // Plugin Discovery
@@ -172,11 +245,14 @@ export interface IPluginManager {
 
   // Plugin Lifecycle
   enablePlugin(pluginId: string): Promise<void>;
-  disablePlugin(pluginId: string): Promise<void>;
+  disablePlugin(pluginId: string, options?: { cascade?: boolean }): Promise<void>;
   reloadPlugin(pluginId: string): Promise<void>;
+  hotSwapPlugin(plugin: RegistrablePlugin, overrides?: Partial<PluginConfig>): Promise<void>;
 
   // Plugin Execution
   executePlugin(pluginId: string, context: PluginContext): Promise<DeliveryResult>;
+  notifyRefundProcessed(pluginId: string, context: PluginContext): Promise<void>;
+  extendSubscription(pluginId: string, context: PluginContext): Promise<boolean>;
 
   // Health Monitoring
   checkPluginHealth(pluginId: string): Promise<PluginHealthStatus>;
@@ -244,52 +320,7 @@ export interface IPluginRegistry {
   get(pluginId: string): PluginRegistryEntry | null;
   getAll(): PluginRegistryEntry[];
   updateConfig(pluginId: string, config: Record<string, any>): Promise<void>;
-  setEnabled(pluginId: string, enabled: boolean): Promise<void>;
-}
-
-// ============================================================================
-// Plugin Security & Sandbox
-// ============================================================================
-
-export interface PluginSandbox {
-  execute<T = any>(pluginId: string, method: string, args: any[], timeout?: number): Promise<T>;
-
-  createContext(pluginId: string): PluginSandboxContext;
-  destroyContext(pluginId: string): Promise<void>;
-
-  setResourceLimits(pluginId: string, limits: PluginResourceLimits): void;
-  getResourceUsage(pluginId: string): PluginResourceUsage;
-}
-
-export interface PluginSandboxContext {
-  id: string;
-  pluginId: string;
-  isolatedGlobals: Record<string, any>;
-  allowedModules: string[];
-  restrictions: PluginRestrictions;
-}
-
-export interface PluginResourceLimits {
-  maxMemoryMB: number;
-  maxExecutionTimeMs: number;
-  maxNetworkRequests: number;
-  maxFileOperations: number;
-}
-
-export interface PluginResourceUsage {
-  memoryUsageMB: number;
-  executionTimeMs: number;
-  networkRequests: number;
-  fileOperations: number;
-  lastMeasured: Date;
-}
-
-export interface PluginRestrictions {
-  allowFileAccess: boolean;
-  allowNetworkAccess: boolean;
-  allowedDomains: string[];
-  allowedAPIs: string[];
-  disallowedAPIs: string[];
+  setEnabled(pluginId: string, enabled: boolean, options?: { cascade?: boolean }): Promise<void>;
 }
 
 // ============================================================================
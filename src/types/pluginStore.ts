@@ -295,6 +295,7 @@ export interface PluginSubmission {
   category: ProductCategory;
   tags: string[];
   pricing: PluginPricing;
+  compatibility?: PluginCompatibility;
   packageFile: File | string;
   icon?: File | string;
   screenshots: (File | string)[];